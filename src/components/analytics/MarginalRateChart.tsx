@@ -0,0 +1,233 @@
+import React, { useMemo, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+
+import type { RateCurveIncome } from '../../engine';
+import { centsToDollars, dollarsToCents } from '../../engine/util/money';
+import {
+  calculateRateCurveWithEngine,
+  type UIBusinessDetails,
+  type UIDeductions,
+  type UIIncomeData,
+  type UIK1Data,
+  type UIPaymentsData,
+  type UIPersonalInfo,
+  type UISpouseInfo,
+} from '../../utils/engineAdapter';
+
+interface FormData {
+  personalInfo: UIPersonalInfo;
+  incomeData: UIIncomeData;
+  k1Data: UIK1Data;
+  businessDetails: UIBusinessDetails;
+  paymentsData: UIPaymentsData;
+  deductions: UIDeductions;
+  spouseInfo: UISpouseInfo;
+}
+
+interface MarginalRateChartProps {
+  formData: FormData;
+  taxYear: number;
+}
+
+const INCOME_TYPES: { value: RateCurveIncome; label: string }[] = [
+  { value: 'wages', label: 'Wages' },
+  { value: 'longTermGains', label: 'Long-term capital gains' },
+  { value: 'selfEmployment', label: 'Self-employment income' },
+  { value: 'iraDistribution', label: 'IRA distribution' },
+];
+
+const toDollars = (cents: number) => Math.round(centsToDollars(cents));
+const formatDollars = (cents: number) => `$${toDollars(cents).toLocaleString()}`;
+const toPercent = (rate: number) => Math.round(rate * 1000) / 10;
+
+/**
+ * Income range over which each phaseout or cliff changed the return
+ */
+interface EffectRange {
+  item: string;
+  label: string;
+  from: number;
+  to: number;
+  change: number;
+}
+
+export const MarginalRateChart: React.FC<MarginalRateChartProps> = ({ formData, taxYear }) => {
+  const [incomeType, setIncomeType] = useState<RateCurveIncome>('wages');
+  const [range, setRange] = useState('50000');
+
+  const curve = useMemo(() => {
+    const to = parseFloat(range);
+    if (!(to > 0)) return undefined;
+
+    return calculateRateCurveWithEngine(
+      formData.personalInfo,
+      formData.incomeData,
+      formData.k1Data,
+      formData.businessDetails,
+      formData.paymentsData,
+      formData.deductions,
+      formData.spouseInfo,
+      { incomeType, to: dollarsToCents(Math.min(to, 1000000)) },
+      taxYear
+    );
+  }, [formData, taxYear, incomeType, range]);
+
+  const chartData = useMemo(
+    () =>
+      curve?.points.map((point) => ({
+        amount: toDollars(point.amount),
+        marginal: toPercent(point.marginalRate),
+        effective: toPercent(point.effectiveRate),
+        bracket: toPercent(point.bracketRate),
+      })) ?? [],
+    [curve]
+  );
+
+  const effectRanges = useMemo(() => {
+    const ranges = new Map<string, EffectRange>();
+    curve?.points.forEach((point) => {
+      point.effects.forEach((effect) => {
+        const end = point.amount + curve.step;
+        const existing = ranges.get(effect.item);
+        if (existing) {
+          existing.to = end;
+          existing.change += effect.change;
+        } else {
+          ranges.set(effect.item, {
+            item: effect.item,
+            label: effect.label,
+            from: point.amount,
+            to: end,
+            change: effect.change,
+          });
+        }
+      });
+    });
+    return Array.from(ranges.values());
+  }, [curve]);
+
+  const inputClass = 'mt-1 w-full px-2 py-1 border border-gray-300 rounded text-sm';
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4">
+      <h4 className="font-medium text-gray-900 mb-3">Marginal Rate Curve</h4>
+
+      <div className="grid grid-cols-2 gap-4 mb-4 text-sm">
+        <label className="text-gray-600">
+          Additional income
+          <select
+            value={incomeType}
+            onChange={(e) => setIncomeType(e.target.value as RateCurveIncome)}
+            className={inputClass}
+          >
+            {INCOME_TYPES.map((type) => (
+              <option key={type.value} value={type.value}>
+                {type.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-gray-600">
+          Up to
+          <input
+            type="number"
+            min="1000"
+            step="1000"
+            value={range}
+            onChange={(e) => setRange(e.target.value)}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      {curve === null && (
+        <p className="text-sm text-red-600">
+          The rate curve could not be computed for this return.
+        </p>
+      )}
+
+      {curve && (
+        <>
+          <ResponsiveContainer width="100%" height={280}>
+            <LineChart data={chartData} margin={{ top: 10, right: 20, left: 0, bottom: 10 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                dataKey="amount"
+                tickFormatter={(value: number) => `$${(value / 1000).toFixed(0)}k`}
+              />
+              <YAxis tickFormatter={(value: number) => `${value}%`} />
+              <Tooltip
+                formatter={(value) => `${value}%`}
+                labelFormatter={(label) => `+$${Number(label).toLocaleString()}`}
+              />
+              <Legend />
+              <Line
+                type="stepAfter"
+                dataKey="marginal"
+                name="Marginal rate"
+                stroke="#DC2626"
+                dot={false}
+              />
+              <Line
+                type="monotone"
+                dataKey="effective"
+                name="Effective rate"
+                stroke="#2563EB"
+                dot={false}
+              />
+              <Line
+                type="stepAfter"
+                dataKey="bracket"
+                name="Federal bracket"
+                stroke="#9CA3AF"
+                strokeDasharray="4 4"
+                dot={false}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+
+          <div className="grid grid-cols-2 gap-4 mt-4 text-sm">
+            <div className="p-3 bg-white rounded">
+              <div className="text-gray-500">Average marginal rate</div>
+              <div className="font-bold">{toPercent(curve.averageMarginalRate)}%</div>
+            </div>
+            <div className="p-3 bg-white rounded">
+              <div className="text-gray-500">Highest marginal rate</div>
+              <div className="font-bold text-red-600">
+                {toPercent(curve.peak.marginalRate)}% at +{formatDollars(curve.peak.amount)}
+              </div>
+            </div>
+          </div>
+
+          {effectRanges.length > 0 && (
+            <div className="mt-4 text-sm">
+              <div className="text-gray-600 mb-2">Phaseouts and cliffs in this range</div>
+              <ul className="space-y-1 text-xs text-gray-600">
+                {effectRanges.map((effect) => (
+                  <li key={effect.item} className="flex justify-between">
+                    <span>
+                      {effect.label}: +{formatDollars(effect.from)} to +{formatDollars(effect.to)}
+                    </span>
+                    <span className="text-gray-700">
+                      {effect.change < 0 ? '−' : '+'}
+                      {formatDollars(Math.abs(effect.change))}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
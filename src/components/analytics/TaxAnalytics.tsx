@@ -1,5 +1,6 @@
 import React, { useState, useMemo } from 'react';
 import { BarChart3, TrendingUp, TrendingDown, Calendar, Download, Eye, DollarSign, Target, Zap } from 'lucide-react';
+import { MarginalRateChart } from './MarginalRateChart';
 
 interface TaxResultData {
   totalTax?: number;
@@ -28,6 +29,8 @@ interface TaxAnalyticsProps {
   taxResult: TaxResultData;
   historicalData?: HistoricalDataPoint[];
   expenses?: ExpenseItem[];
+  formData?: React.ComponentProps<typeof MarginalRateChart>['formData']; // Return as entered, for the marginal rate curve
+  taxYear?: number;
   t: (key: string) => string;
 }
 
@@ -68,6 +71,8 @@ export const TaxAnalytics: React.FC<TaxAnalyticsProps> = ({
   taxResult,
   historicalData: _historicalData = [],
   expenses = [],
+  formData,
+  taxYear,
   t: _t
 }) => {
   const [selectedView, setSelectedView] = useState<'overview' | 'detailed' | 'projections' | 'benchmarks'>('overview');
@@ -400,6 +405,9 @@ export const TaxAnalytics: React.FC<TaxAnalyticsProps> = ({
             </div>
           </div>
 
+          {/* Marginal Rate Curve */}
+          {formData && taxYear !== undefined && <MarginalRateChart formData={formData} taxYear={taxYear} />}
+
           {/* All Recommendations */}
           <div>
             <h4 className="font-medium text-gray-900 mb-3">All Recommendations</h4>
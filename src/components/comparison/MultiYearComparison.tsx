@@ -1,91 +1,138 @@
 import React, { useState, useMemo, useCallback } from 'react';
-import { BarChart3, TrendingUp, Calendar, ArrowUpDown } from 'lucide-react';
-
-import type { TaxContextValue } from '../../contexts/TaxContext';
-
-interface YearData {
-  year: number;
-  income: number;
-  totalTax: number;
-  effectiveRate: number;
-  marginalRate: number;
-  refund: number;
-  deductions: number;
-}
-
-interface CurrentYearData {
-  taxResult?: Partial<TaxContextValue['taxResult']>;
-  deductions?: Partial<TaxContextValue['deductions']>;
-}
+import { BarChart3, TrendingUp, Calendar, ArrowUpDown, Upload, Plus, Trash2, Repeat } from 'lucide-react';
+
+import type { FilingStatus } from '../../engine/types';
+import type {
+  ComparisonMetric,
+  ComparisonPeriod,
+  CurrentYearData,
+  PriorYearCarryovers,
+  PriorYearReturn,
+} from '../../types/ui/comparison';
+import {
+  buildYearHistory,
+  parsePriorYearExport,
+  upsertPriorYearReturn,
+} from '../../utils/priorYearHistory';
 
 interface MultiYearComparisonProps {
   currentYearData: CurrentYearData;
+  taxYear: number;
+  priorYears: PriorYearReturn[];
+  onPriorYearsChange: (priorYears: PriorYearReturn[]) => void;
   t: (key: string) => string;
 }
 
+const CARRYOVER_KEYS: (keyof PriorYearCarryovers)[] = ['capitalLoss', 'nol', 'amtCredit'];
+
+const EMPTY_ENTRY = {
+  filingStatus: '' as FilingStatus | '',
+  agi: '',
+  taxableIncome: '',
+  totalTax: '',
+  refundOrOwe: '',
+  deductions: '',
+  capitalLoss: '',
+  nol: '',
+  amtCredit: '',
+};
+
+type ManualEntry = typeof EMPTY_ENTRY;
+
+const ENTRY_FIELDS: (keyof ManualEntry)[] = [
+  'agi',
+  'deductions',
+  'taxableIncome',
+  'totalTax',
+  'refundOrOwe',
+  'capitalLoss',
+  'nol',
+  'amtCredit',
+];
+
+const parseAmount = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const n = Number(value.replace(/[$,]/g, ''));
+  return Number.isFinite(n) ? n : undefined;
+};
+
 export const MultiYearComparison: React.FC<MultiYearComparisonProps> = ({
   currentYearData,
+  taxYear,
+  priorYears,
+  onPriorYearsChange,
   t
 }) => {
-  const [selectedMetric, setSelectedMetric] = useState<keyof YearData>('totalTax');
-  const [comparisonPeriod, setComparisonPeriod] = useState<3 | 5 | 10>(5);
-
-  // Memoize marginal rate calculation
-  const getMarginalRate = useCallback((income: number): number => {
-    // 2025 tax brackets (simplified)
-    if (income <= 11600) return 10;
-    if (income <= 47150) return 12;
-    if (income <= 100525) return 22;
-    if (income <= 191950) return 24;
-    if (income <= 243725) return 32;
-    if (income <= 609350) return 35;
-    return 37;
-  }, []);
+  const [selectedMetric, setSelectedMetric] = useState<ComparisonMetric>('totalTax');
+  const [comparisonPeriod, setComparisonPeriod] = useState<ComparisonPeriod>(5);
+  const [entryYear, setEntryYear] = useState(taxYear - 1);
+  const [entry, setEntry] = useState<ManualEntry>(EMPTY_ENTRY);
+  const [importError, setImportError] = useState('');
+
+  // Only years the client actually filed; missing years are not estimated
+  const historicalData = useMemo(
+    () => buildYearHistory(priorYears, { ...currentYearData, taxYear }, comparisonPeriod),
+    [priorYears, currentYearData, taxYear, comparisonPeriod]
+  );
 
-  // Memoize historical data generation
-  const historicalData = useMemo((): YearData[] => {
-    const currentYear = new Date().getFullYear();
-    const years: YearData[] = [];
-    const currentTaxResult = currentYearData.taxResult ?? {};
-    const currentDeductions = currentYearData.deductions ?? {};
-
-    // Generate sample historical data (in a real app, this would come from stored data)
-    for (let i = comparisonPeriod - 1; i >= 0; i--) {
-      const year = currentYear - i;
-      const isCurrentYear = i === 0;
-
-      if (isCurrentYear) {
-        // Use actual current year data
-        years.push({
-          year,
-          income: currentTaxResult.adjustedGrossIncome ?? 0,
-          totalTax: currentTaxResult.totalTax ?? 0,
-          effectiveRate: currentTaxResult.effectiveRate ?? 0,
-          marginalRate: getMarginalRate(currentTaxResult.adjustedGrossIncome ?? 0),
-          refund: currentTaxResult.balance && currentTaxResult.balance < 0 ? Math.abs(currentTaxResult.balance) : 0,
-          deductions: currentDeductions.useStandardDeduction
-            ? Number(currentDeductions.standardDeduction ?? 0)
-            : Number(currentDeductions.itemizedTotal ?? 0)
-        });
-      } else {
-        // Generate realistic historical data with some variation
-        const baseIncome = (currentTaxResult.adjustedGrossIncome ?? 50000) * (0.95 + Math.random() * 0.1);
-        const baseTax = baseIncome * 0.18; // Approximate tax rate
-
-        years.push({
-          year,
-          income: baseIncome,
-          totalTax: baseTax,
-          effectiveRate: (baseTax / baseIncome) * 100,
-          marginalRate: getMarginalRate(baseIncome),
-          refund: Math.random() > 0.6 ? Math.random() * 3000 : 0,
-          deductions: 12000 + Math.random() * 8000 // Varies between standard and some itemized
-        });
+  const saveYear = useCallback(
+    (record: PriorYearReturn) => {
+      onPriorYearsChange(upsertPriorYearReturn(priorYears, record));
+    },
+    [priorYears, onPriorYearsChange]
+  );
+
+  const removeYear = (year: number) => {
+    onPriorYearsChange(priorYears.filter((record) => record.taxYear !== year));
+  };
+
+  const importPriorYear = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        saveYear(parsePriorYearExport(e.target?.result as string, entryYear));
+        setImportError('');
+      } catch {
+        setImportError(t('comparison.multiYear.errors.importFailed'));
       }
+    };
+    reader.readAsText(file);
+    event.target.value = '';
+  };
+
+  const addManualYear = () => {
+    const agi = parseAmount(entry.agi);
+    const taxableIncome = parseAmount(entry.taxableIncome);
+    const totalTax = parseAmount(entry.totalTax);
+    if (agi === undefined || taxableIncome === undefined || totalTax === undefined) {
+      setImportError(t('comparison.multiYear.errors.missingAmounts'));
+      return;
     }
 
-    return years;
-  }, [currentYearData, comparisonPeriod, getMarginalRate]);
+    const carryovers: PriorYearCarryovers = {};
+    CARRYOVER_KEYS.forEach((key) => {
+      const amount = parseAmount(entry[key]);
+      if (amount !== undefined && amount > 0) carryovers[key] = amount;
+    });
+    const deductions = parseAmount(entry.deductions);
+
+    saveYear({
+      taxYear: entryYear,
+      source: 'manual',
+      ...(entry.filingStatus && { filingStatus: entry.filingStatus }),
+      agi,
+      taxableIncome,
+      totalTax,
+      refundOrOwe: parseAmount(entry.refundOrOwe) ?? 0,
+      ...(deductions !== undefined && { deductions }),
+      ...(Object.keys(carryovers).length > 0 && { carryovers }),
+    });
+    setEntry(EMPTY_ENTRY);
+    setImportError('');
+  };
 
   // Memoize trends calculation
   const trends = useMemo(() => {
@@ -114,40 +161,44 @@ export const MultiYearComparison: React.FC<MultiYearComparisonProps> = ({
     };
   }, [historicalData]);
 
-  // Memoize max value calculation
-  const getMaxValue = useCallback((metric: keyof YearData): number => {
+  // Largest magnitude, so amounts owed (negative refunds) still draw a bar
+  const getMaxValue = useCallback((metric: ComparisonMetric): number => {
     if (historicalData.length === 0) {
       return 0;
     }
-    return Math.max(...historicalData.map(year => year[metric]));
+    return Math.max(...historicalData.map(year => Math.abs(year[metric])));
   }, [historicalData]);
 
   // Memoize format value function
-  const formatValue = useCallback((value: number, metric: keyof YearData): string => {
+  const formatValue = useCallback((value: number, metric: ComparisonMetric): string => {
     switch (metric) {
       case 'effectiveRate':
       case 'marginalRate':
         return `${value.toFixed(1)}%`;
-      case 'year':
-        return value.toString();
+      case 'refund':
+        return value < 0 ? `-$${Math.abs(value).toLocaleString()}` : `$${value.toLocaleString()}`;
       default:
         return `$${value.toLocaleString()}`;
     }
   }, []);
 
   // Memoize metric color function
-  const getMetricColor = useCallback((metric: keyof YearData): string => {
+  const getMetricColor = useCallback((metric: ComparisonMetric, value: number): string => {
     switch (metric) {
       case 'income': return 'bg-blue-500';
+      case 'taxableIncome': return 'bg-cyan-500';
       case 'totalTax': return 'bg-red-500';
       case 'effectiveRate': return 'bg-yellow-500';
       case 'marginalRate': return 'bg-purple-500';
-      case 'refund': return 'bg-green-500';
+      case 'refund': return value < 0 ? 'bg-red-400' : 'bg-green-500';
       case 'deductions': return 'bg-indigo-500';
       default: return 'bg-gray-500';
     }
   }, []);
 
+  const carryoverYears = historicalData.filter((yearData) => yearData.carryovers);
+  const entryYears = Array.from({ length: 10 }, (_, i) => taxYear - 1 - i);
+
   return (
     <div className="space-y-6">
       {/* Controls */}
@@ -164,7 +215,7 @@ export const MultiYearComparison: React.FC<MultiYearComparisonProps> = ({
             </label>
             <select
               value={comparisonPeriod}
-              onChange={(e) => setComparisonPeriod(Number(e.target.value) as 3 | 5 | 10)}
+              onChange={(e) => setComparisonPeriod(Number(e.target.value) as ComparisonPeriod)}
               className="border border-gray-300 rounded-md px-3 py-1 text-sm"
             >
               <option value={3}>3 Years</option>
@@ -179,14 +230,15 @@ export const MultiYearComparison: React.FC<MultiYearComparisonProps> = ({
             </label>
             <select
               value={selectedMetric}
-              onChange={(e) => setSelectedMetric(e.target.value as keyof YearData)}
+              onChange={(e) => setSelectedMetric(e.target.value as ComparisonMetric)}
               className="border border-gray-300 rounded-md px-3 py-1 text-sm"
             >
               <option value="totalTax">Total Tax</option>
-              <option value="income">Income</option>
+              <option value="income">AGI</option>
+              <option value="taxableIncome">Taxable Income</option>
               <option value="effectiveRate">Effective Rate</option>
               <option value="marginalRate">Marginal Rate</option>
-              <option value="refund">Refund</option>
+              <option value="refund">Refund / Owed</option>
               <option value="deductions">Deductions</option>
             </select>
           </div>
@@ -196,9 +248,9 @@ export const MultiYearComparison: React.FC<MultiYearComparisonProps> = ({
         <div className="relative h-64 bg-gray-50 rounded-lg p-4">
           <div className="flex items-end justify-between h-full">
             {historicalData.map((yearData) => {
-              const value = yearData[selectedMetric] as number;
+              const value = yearData[selectedMetric];
               const maxValue = getMaxValue(selectedMetric);
-              const height = maxValue > 0 ? (value / maxValue) * 100 : 0;
+              const height = maxValue > 0 ? (Math.abs(value) / maxValue) * 100 : 0;
 
               return (
                 <div key={yearData.year} className="flex flex-col items-center flex-1">
@@ -206,7 +258,7 @@ export const MultiYearComparison: React.FC<MultiYearComparisonProps> = ({
                     {formatValue(value, selectedMetric)}
                   </div>
                   <div
-                    className={`w-8 ${getMetricColor(selectedMetric)} rounded-t transition-all duration-300`}
+                    className={`w-8 ${getMetricColor(selectedMetric, value)} rounded-t transition-all duration-300`}
                     style={{ height: `${height}%`, minHeight: '4px' }}
                   />
                   <div className="text-xs text-gray-700 mt-1 font-medium">
@@ -217,8 +269,129 @@ export const MultiYearComparison: React.FC<MultiYearComparisonProps> = ({
             })}
           </div>
         </div>
+
+        {historicalData.length < 2 && (
+          <p className="mt-3 text-sm text-gray-600">
+            {t('comparison.multiYear.addPriorYears')}
+          </p>
+        )}
+      </div>
+
+      {/* Prior-Year Returns */}
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <h4 className="font-semibold text-gray-900 mb-4 flex items-center gap-2">
+          <Plus className="h-5 w-5 text-blue-600" />
+          {t('comparison.multiYear.priorYears')}
+        </h4>
+
+        <div className="flex flex-wrap items-end gap-4 mb-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {t('comparison.multiYear.taxYear')}
+            </label>
+            <select
+              value={entryYear}
+              onChange={(e) => setEntryYear(Number(e.target.value))}
+              className="border border-gray-300 rounded-md px-3 py-1 text-sm"
+            >
+              {entryYears.map((year) => (
+                <option key={year} value={year}>{year}</option>
+              ))}
+            </select>
+          </div>
+          <label className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 cursor-pointer text-sm">
+            <Upload className="h-4 w-4" />
+            {t('comparison.multiYear.importExport')}
+            <input type="file" accept=".json" onChange={importPriorYear} className="hidden" />
+          </label>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+          <select
+            value={entry.filingStatus}
+            onChange={(e) => setEntry({ ...entry, filingStatus: e.target.value as FilingStatus | '' })}
+            className="border border-gray-300 rounded-md px-3 py-1"
+          >
+            <option value="">{t('personalInfo.filingStatus')}</option>
+            <option value="single">{t('personalInfo.filingStatuses.single')}</option>
+            <option value="marriedJointly">{t('personalInfo.filingStatuses.marriedJointly')}</option>
+            <option value="marriedSeparately">{t('personalInfo.filingStatuses.marriedSeparately')}</option>
+            <option value="headOfHousehold">{t('personalInfo.filingStatuses.headOfHousehold')}</option>
+          </select>
+          {ENTRY_FIELDS.map((field) => (
+            <input
+              key={field}
+              inputMode="decimal"
+              placeholder={t(`comparison.multiYear.fields.${field}`)}
+              aria-label={t(`comparison.multiYear.fields.${field}`)}
+              value={entry[field]}
+              onChange={(e) => setEntry({ ...entry, [field]: e.target.value })}
+              className="border border-gray-300 rounded-md px-3 py-1"
+            />
+          ))}
+        </div>
+        <button
+          onClick={addManualYear}
+          className="mt-3 flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm"
+        >
+          <Plus className="h-4 w-4" />
+          {t('comparison.multiYear.save')} {entryYear}
+        </button>
+
+        {importError && <p className="mt-2 text-sm text-red-600">{importError}</p>}
+
+        {priorYears.length > 0 && (
+          <ul className="mt-4 divide-y divide-gray-100 text-sm">
+            {priorYears.map((record) => (
+              <li key={record.taxYear} className="flex items-center justify-between py-2">
+                <span>
+                  <span className="font-medium">{record.taxYear}</span>
+                  <span className="ml-2 text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded">
+                    {t(`comparison.multiYear.sources.${record.source}`)}
+                  </span>
+                  <span className="ml-2 text-gray-600">
+                    {t('comparison.multiYear.agi')} ${record.agi.toLocaleString()}
+                  </span>
+                </span>
+                <button
+                  onClick={() => removeYear(record.taxYear)}
+                  aria-label={`${t('comparison.multiYear.remove')} ${record.taxYear}`}
+                  className="text-gray-500 hover:text-red-600"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
 
+      {/* Carryovers */}
+      {carryoverYears.length > 0 && (
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <h4 className="font-semibold text-gray-900 mb-4 flex items-center gap-2">
+            <Repeat className="h-5 w-5 text-amber-600" />
+            {t('comparison.multiYear.carryovers')}
+          </h4>
+          <div className="space-y-2">
+            {carryoverYears.map((yearData) => (
+              <div key={yearData.year} className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm">
+                <span className="font-medium text-amber-900">
+                  {t('comparison.multiYear.carryoverFrom')} {yearData.year}{' '}
+                  {t('comparison.multiYear.carryoverInto')} {yearData.year + 1}:
+                </span>
+                {CARRYOVER_KEYS.filter((key) => yearData.carryovers?.[key]).map((key) => (
+                  <span key={key} className="ml-3 text-amber-800">
+                    {t(`comparison.multiYear.carryoverLabels.${key}`)} $
+                    {yearData.carryovers?.[key]?.toLocaleString()}
+                  </span>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Trends Summary */}
       {trends && (
         <div className="bg-white rounded-lg shadow-lg p-6">
@@ -250,8 +423,8 @@ export const MultiYearComparison: React.FC<MultiYearComparisonProps> = ({
             </div>
 
             <div className="text-center p-4 bg-green-50 rounded-lg">
-              <div className="text-2xl font-bold text-green-600">
-                ${trends.averageRefund.toLocaleString()}
+              <div className={`text-2xl font-bold ${trends.averageRefund >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                {formatValue(Math.round(trends.averageRefund), 'refund')}
               </div>
               <div className="text-sm text-gray-600">{t('comparison.multiYear.avgRefund')}</div>
             </div>
@@ -271,17 +444,18 @@ export const MultiYearComparison: React.FC<MultiYearComparisonProps> = ({
             <thead>
               <tr className="border-b border-gray-200">
                 <th className="text-left py-2 font-medium text-gray-900">Year</th>
-                <th className="text-right py-2 font-medium text-gray-900">Income</th>
+                <th className="text-right py-2 font-medium text-gray-900">AGI</th>
+                <th className="text-right py-2 font-medium text-gray-900">Taxable Income</th>
                 <th className="text-right py-2 font-medium text-gray-900">Total Tax</th>
                 <th className="text-right py-2 font-medium text-gray-900">Effective Rate</th>
                 <th className="text-right py-2 font-medium text-gray-900">Marginal Rate</th>
                 <th className="text-right py-2 font-medium text-gray-900">Deductions</th>
-                <th className="text-right py-2 font-medium text-gray-900">Refund</th>
+                <th className="text-right py-2 font-medium text-gray-900">Refund / Owed</th>
               </tr>
             </thead>
             <tbody>
-              {historicalData.map((yearData, index) => {
-                const isCurrentYear = index === historicalData.length - 1;
+              {historicalData.map((yearData) => {
+                const isCurrentYear = yearData.source === 'current';
 
                 return (
                   <tr
@@ -295,14 +469,20 @@ export const MultiYearComparison: React.FC<MultiYearComparisonProps> = ({
                           Current
                         </span>
                       )}
+                      {yearData.carryovers && (
+                        <span className="ml-2 text-xs bg-amber-100 text-amber-800 px-2 py-1 rounded">
+                          {t('comparison.multiYear.carryover')}
+                        </span>
+                      )}
                     </td>
                     <td className="text-right py-2">${yearData.income.toLocaleString()}</td>
+                    <td className="text-right py-2">${yearData.taxableIncome.toLocaleString()}</td>
                     <td className="text-right py-2">${yearData.totalTax.toLocaleString()}</td>
                     <td className="text-right py-2">{yearData.effectiveRate.toFixed(1)}%</td>
                     <td className="text-right py-2">{yearData.marginalRate}%</td>
                     <td className="text-right py-2">${yearData.deductions.toLocaleString()}</td>
-                    <td className="text-right py-2">
-                      {yearData.refund > 0 ? `$${yearData.refund.toLocaleString()}` : '-'}
+                    <td className={`text-right py-2 ${yearData.refund < 0 ? 'text-red-600' : ''}`}>
+                      {yearData.refund !== 0 ? formatValue(yearData.refund, 'refund') : '-'}
                     </td>
                   </tr>
                 );
@@ -313,67 +493,67 @@ export const MultiYearComparison: React.FC<MultiYearComparisonProps> = ({
       </div>
 
       {/* Tax Efficiency Analysis */}
-      <div className="bg-white rounded-lg shadow-lg p-6">
-        <h4 className="font-semibold text-gray-900 mb-4 flex items-center gap-2">
-          <ArrowUpDown className="h-5 w-5 text-orange-600" />
-          {t('comparison.multiYear.efficiency')}
-        </h4>
+      {historicalData.length > 1 && (
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <h4 className="font-semibold text-gray-900 mb-4 flex items-center gap-2">
+            <ArrowUpDown className="h-5 w-5 text-orange-600" />
+            {t('comparison.multiYear.efficiency')}
+          </h4>
 
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          <div>
-            <h5 className="font-medium text-gray-800 mb-3">{t('comparison.multiYear.bestYear')}</h5>
-            {(() => {
-              const bestYear = historicalData.reduce((best, current) =>
-                current.effectiveRate < best.effectiveRate ? current : best
-              );
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <h5 className="font-medium text-gray-800 mb-3">{t('comparison.multiYear.bestYear')}</h5>
+              {(() => {
+                const bestYear = historicalData.reduce((best, current) =>
+                  current.effectiveRate < best.effectiveRate ? current : best
+                );
 
-              return (
-                <div className="p-4 bg-green-50 rounded-lg">
-                  <div className="font-bold text-green-800">{bestYear.year}</div>
-                  <div className="text-sm text-green-700">
-                    Effective Rate: {bestYear.effectiveRate.toFixed(1)}%
-                  </div>
-                  <div className="text-sm text-green-700">
-                    Total Tax: ${bestYear.totalTax.toLocaleString()}
+                return (
+                  <div className="p-4 bg-green-50 rounded-lg">
+                    <div className="font-bold text-green-800">{bestYear.year}</div>
+                    <div className="text-sm text-green-700">
+                      Effective Rate: {bestYear.effectiveRate.toFixed(1)}%
+                    </div>
+                    <div className="text-sm text-green-700">
+                      Total Tax: ${bestYear.totalTax.toLocaleString()}
+                    </div>
                   </div>
-                </div>
-              );
-            })()}
-          </div>
+                );
+              })()}
+            </div>
 
-          <div>
-            <h5 className="font-medium text-gray-800 mb-3">{t('comparison.multiYear.worstYear')}</h5>
-            {(() => {
-              const worstYear = historicalData.reduce((worst, current) =>
-                current.effectiveRate > worst.effectiveRate ? current : worst
-              );
+            <div>
+              <h5 className="font-medium text-gray-800 mb-3">{t('comparison.multiYear.worstYear')}</h5>
+              {(() => {
+                const worstYear = historicalData.reduce((worst, current) =>
+                  current.effectiveRate > worst.effectiveRate ? current : worst
+                );
 
-              return (
-                <div className="p-4 bg-red-50 rounded-lg">
-                  <div className="font-bold text-red-800">{worstYear.year}</div>
-                  <div className="text-sm text-red-700">
-                    Effective Rate: {worstYear.effectiveRate.toFixed(1)}%
-                  </div>
-                  <div className="text-sm text-red-700">
-                    Total Tax: ${worstYear.totalTax.toLocaleString()}
+                return (
+                  <div className="p-4 bg-red-50 rounded-lg">
+                    <div className="font-bold text-red-800">{worstYear.year}</div>
+                    <div className="text-sm text-red-700">
+                      Effective Rate: {worstYear.effectiveRate.toFixed(1)}%
+                    </div>
+                    <div className="text-sm text-red-700">
+                      Total Tax: ${worstYear.totalTax.toLocaleString()}
+                    </div>
                   </div>
-                </div>
-              );
-            })()}
+                );
+              })()}
+            </div>
           </div>
-        </div>
 
-        <div className="mt-4 p-4 bg-gray-50 rounded-lg">
-          <h6 className="font-medium text-gray-800 mb-2">{t('comparison.multiYear.insights')}</h6>
-          <ul className="text-sm text-gray-600 space-y-1">
-            <li>• {historicalData.length > 0 && `Average effective rate over ${comparisonPeriod} years: ${(historicalData.reduce((sum, year) => sum + year.effectiveRate, 0) / historicalData.length).toFixed(1)}%`}</li>
-            <li>• {trends && `Income ${trends.incomeChange >= 0 ? 'increased' : 'decreased'} by ${Math.abs(trends.incomeChange).toFixed(1)}% from last year`}</li>
-            <li>• {trends && `Tax burden ${trends.taxChange >= 0 ? 'increased' : 'decreased'} by ${Math.abs(trends.taxChange).toFixed(1)}% from last year`}</li>
-          </ul>
+          <div className="mt-4 p-4 bg-gray-50 rounded-lg">
+            <h6 className="font-medium text-gray-800 mb-2">{t('comparison.multiYear.insights')}</h6>
+            <ul className="text-sm text-gray-600 space-y-1">
+              <li>• {`Average effective rate over ${historicalData.length} years: ${(historicalData.reduce((sum, year) => sum + year.effectiveRate, 0) / historicalData.length).toFixed(1)}%`}</li>
+              <li>• {trends && `Income ${trends.incomeChange >= 0 ? 'increased' : 'decreased'} by ${Math.abs(trends.incomeChange).toFixed(1)}% from ${historicalData[historicalData.length - 2]?.year}`}</li>
+              <li>• {trends && `Tax burden ${trends.taxChange >= 0 ? 'increased' : 'decreased'} by ${Math.abs(trends.taxChange).toFixed(1)}% from ${historicalData[historicalData.length - 2]?.year}`}</li>
+            </ul>
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
-
-
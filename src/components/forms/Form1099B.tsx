@@ -22,6 +22,7 @@ import {
   Switch,
   Table,
   Popconfirm,
+  Modal,
 } from 'antd';
 import type { UploadChangeParam } from 'antd/es/upload';
 import type { UploadFile } from 'antd/es/upload/interface';
@@ -33,18 +34,23 @@ import {
   CalculatorOutlined,
   InfoCircleOutlined,
 } from '@ant-design/icons';
+import {
+  parseBrokerFile,
+  previewBrokerImport,
+  mergeBrokerImport,
+  type BrokerImportPreview,
+  type ImportedTransaction,
+  type ImportRowError,
+} from '../../utils/brokerImport';
+import type { UICapitalTransaction } from '../../utils/engineAdapter';
 
 const { Title, Text, Paragraph } = Typography;
 const { Dragger } = Upload;
 const { Option } = Select;
 
-interface Transaction {
+// 交易明细，按 UICapitalTransaction 传给引擎生成 Form 8949
+interface Transaction extends UICapitalTransaction {
   id?: string;
-  description: string;
-  dateAcquired: string;
-  dateSold: string;
-  proceeds: string;
-  cost: string;
   washSale: boolean;
   shortLong: 'auto' | 'short' | 'long';
   gainLoss: string;
@@ -60,6 +66,29 @@ interface Form1099BData {
   totalCost?: number;
 }
 
+// 已录入交易与导入行之间的转换
+const toImported = (t: Transaction): Omit<ImportedTransaction, 'line'> => ({
+  description: t.description,
+  dateAcquired: t.dateAcquired,
+  dateSold: t.dateSold,
+  proceeds: parseFloat(t.proceeds) || 0,
+  costBasis: parseFloat(t.cost) || 0,
+  washSaleLossDisallowed: parseFloat(t.washSaleLossDisallowed ?? '') || undefined,
+});
+
+const fromImported = (row: ImportedTransaction): Transaction => ({
+  id: `import-${row.line}-${Date.now()}`,
+  description: row.description,
+  dateAcquired: row.dateAcquired,
+  dateSold: row.dateSold,
+  proceeds: row.proceeds.toFixed(2),
+  cost: row.costBasis.toFixed(2),
+  washSale: (row.washSaleLossDisallowed ?? 0) > 0,
+  washSaleLossDisallowed: row.washSaleLossDisallowed?.toFixed(2),
+  shortLong: row.term ?? 'auto',
+  gainLoss: (row.proceeds - row.costBasis + (row.washSaleLossDisallowed ?? 0)).toFixed(2),
+});
+
 interface Form1099BProps {
   onComplete: (data: Form1099BData) => void;
   defaultValues?: Form1099BData;
@@ -84,6 +113,8 @@ const Form1099B: React.FC<Form1099BProps> = ({
     gainLoss: '',
   });
   const [uploading, setUploading] = useState(false);
+  const [importPreview, setImportPreview] = useState<BrokerImportPreview<Transaction> | null>(null);
+  const [importErrors, setImportErrors] = useState<ImportRowError[]>([]);
   const [form] = Form.useForm();
 
   // 交易类型配置
@@ -160,6 +191,14 @@ const Form1099B: React.FC<Form1099BProps> = ({
       return;
     }
 
+    // 经纪商CSV/TXF导出文件：解析后先预览差异再合并
+    if (/\.(csv|txf)$/i.test(file.name)) {
+      const result = parseBrokerFile(file.name, await file.text());
+      setImportErrors(result.errors);
+      setImportPreview(previewBrokerImport(transactions, result.transactions, toImported));
+      return;
+    }
+
     try {
       await simulate1099BOCR(file);
     } catch (error) {
@@ -168,6 +207,16 @@ const Form1099B: React.FC<Form1099BProps> = ({
     }
   };
 
+  const confirmImport = () => {
+    if (!importPreview) return;
+    setTransactions(mergeBrokerImport(transactions, importPreview, fromImported));
+    message.success(
+      `已导入${importPreview.added.length}笔新交易，更新${importPreview.changed.length}笔交易`
+    );
+    setImportPreview(null);
+    setImportErrors([]);
+  };
+
   // 计算持有期间（判断短期/长期）
   const calculateHoldingPeriod = (acquired: string, sold: string): 'short' | 'long' | 'unknown' => {
     if (!acquired || !sold) return 'unknown';
@@ -437,7 +486,7 @@ const Form1099B: React.FC<Form1099BProps> = ({
             <Dragger
               name="form1099b"
               multiple={false}
-              accept="image/*,.pdf"
+              accept="image/*,.pdf,.csv,.txf"
               beforeUpload={() => false}
               onChange={handleUpload}
               disabled={uploading}
@@ -453,10 +502,57 @@ const Form1099B: React.FC<Form1099BProps> = ({
                 {uploading ? '正在识别1099-B信息...' : '上传Consolidated 1099-B表格'}
               </p>
               <p className="ant-upload-hint">
-                支持经纪商提供的合并1099-B表格，自动识别所有交易记录
+                支持经纪商提供的合并1099-B表格，自动识别所有交易记录；也可导入CSV或TXF导出文件
               </p>
             </Dragger>
 
+            <Modal
+              title="导入预览"
+              open={importPreview !== null}
+              onOk={confirmImport}
+              onCancel={() => {
+                setImportPreview(null);
+                setImportErrors([]);
+              }}
+              okText="确认合并"
+              cancelText="取消"
+              okButtonProps={{
+                disabled:
+                  !importPreview || importPreview.added.length + importPreview.changed.length === 0,
+              }}
+            >
+              {importPreview && (
+                <Space direction="vertical" style={{ width: '100%' }}>
+                  <Text>新增交易：{importPreview.added.length}笔</Text>
+                  <Text>金额有变化（将覆盖已录入交易）：{importPreview.changed.length}笔</Text>
+                  <Text type="secondary">已存在且相同：{importPreview.unchanged.length}笔</Text>
+                  {importPreview.changed.map(({ existing, imported }) => (
+                    <Text key={`${imported.line}`} type="warning">
+                      第{imported.line}行 {imported.description}：收益 {existing.proceeds} →{' '}
+                      {imported.proceeds.toFixed(2)}，成本 {existing.cost} →{' '}
+                      {imported.costBasis.toFixed(2)}
+                    </Text>
+                  ))}
+                  {importErrors.length > 0 && (
+                    <Alert
+                      type="error"
+                      showIcon
+                      message={`${importErrors.length}处错误，这些行不会导入`}
+                      description={
+                        <ul style={{ margin: 0, paddingLeft: '16px' }}>
+                          {importErrors.map((error, i) => (
+                            <li key={i}>
+                              第{error.line}行：{error.message}
+                            </li>
+                          ))}
+                        </ul>
+                      }
+                    />
+                  )}
+                </Space>
+              )}
+            </Modal>
+
             {uploading && (
               <Alert
                 message="识别进行中..."
@@ -2,6 +2,8 @@ import React from 'react';
 import { FileText, DollarSign } from 'lucide-react';
 import { formatCurrency } from '../../utils/formatters';
 import { ValidatedInput } from '../ui/InputField';
+import type { FormW2 } from '../../engine/types';
+import W2Import from './W2Import';
 
 interface IncomeFormProps {
   incomeData: Record<string, string | number | undefined>;
@@ -10,6 +12,8 @@ interface IncomeFormProps {
   onIncomeChange: (field: string, value: string) => void;
   onK1Change: (field: string, value: string) => void;
   onBusinessDetailsChange: (field: string, value: string) => void;
+  w2Forms?: FormW2[];
+  onW2FormsChange?: (w2Forms: FormW2[]) => void;
   t: (key: string) => string;
 }
 
@@ -20,6 +24,8 @@ const IncomeForm: React.FC<IncomeFormProps> = ({
   onIncomeChange,
   onK1Change,
   onBusinessDetailsChange,
+  w2Forms = [],
+  onW2FormsChange,
   t,
 }) => {
   const calculateNetBusinessIncome = () => {
@@ -51,6 +57,9 @@ const IncomeForm: React.FC<IncomeFormProps> = ({
             min="0"
             help={t('income.help.wages')}
           />
+          {onW2FormsChange && (
+            <W2Import w2Forms={w2Forms} onW2FormsChange={onW2FormsChange} t={t} />
+          )}
         </div>
 
         <div>
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Upload, Trash2 } from 'lucide-react';
+
+import type { FormW2 } from '../../engine/types';
+import { formatCents } from '../../engine/util/money';
+import type { ImportRowError } from '../../utils/brokerImport';
+import { importW2FormsCSV } from '../../utils/w2Import';
+
+interface W2ImportProps {
+  w2Forms: FormW2[];
+  onW2FormsChange: (w2Forms: FormW2[]) => void;
+  t: (key: string) => string;
+}
+
+/**
+ * Payroll W-2 CSV import; the imported W-2s replace wages and withholding
+ * entered as totals
+ */
+const W2Import: React.FC<W2ImportProps> = ({ w2Forms, onW2FormsChange, t }) => {
+  const [errors, setErrors] = useState<ImportRowError[]>([]);
+  const [warnings, setWarnings] = useState<ImportRowError[]>([]);
+
+  const importFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const result = importW2FormsCSV(e.target?.result as string);
+      setErrors(result.errors);
+      setWarnings(result.warnings);
+      if (result.w2s.length > 0) {
+        onW2FormsChange(result.w2s);
+      }
+    };
+    reader.readAsText(file);
+    event.target.value = '';
+  };
+
+  const removeAll = () => {
+    onW2FormsChange([]);
+    setErrors([]);
+    setWarnings([]);
+  };
+
+  const renderIssues = (title: string, issues: ImportRowError[], className: string) =>
+    issues.length > 0 && (
+      <div className={`mt-2 text-xs ${className}`}>
+        <div className="font-medium">{title}</div>
+        <ul className="list-disc list-inside">
+          {issues.map((issue, i) => (
+            <li key={i}>
+              {t('income.w2Import.line')} {issue.line}: {issue.message}
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+
+  return (
+    <div className="mt-2 text-sm">
+      <div className="flex items-center gap-3">
+        <label className="flex items-center gap-1 text-blue-600 hover:text-blue-800 cursor-pointer">
+          <Upload className="h-4 w-4" />
+          {t('income.w2Import.button')}
+          <input type="file" accept=".csv" onChange={importFile} className="hidden" />
+        </label>
+        {w2Forms.length > 0 && (
+          <button
+            type="button"
+            onClick={removeAll}
+            className="flex items-center gap-1 text-gray-500 hover:text-red-600"
+          >
+            <Trash2 className="h-4 w-4" />
+            {t('income.w2Import.remove')}
+          </button>
+        )}
+      </div>
+
+      {w2Forms.length > 0 && (
+        <div className="mt-2 p-2 bg-blue-50 rounded text-xs text-gray-700">
+          <div>
+            {w2Forms.length} {t('income.w2Import.imported')}
+          </div>
+          <ul className="mt-1 space-y-0.5">
+            {w2Forms.map((w2, i) => (
+              <li key={i} className="flex justify-between">
+                <span>{w2.employerName || `W-2 ${i + 1}`}</span>
+                <span>{formatCents(w2.wages)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {renderIssues(t('income.w2Import.errors'), errors, 'text-red-600')}
+      {renderIssues(t('income.w2Import.warnings'), warnings, 'text-yellow-700')}
+    </div>
+  );
+};
+
+export default W2Import;
@@ -2,6 +2,7 @@ import React from 'react';
 
 import { useLanguageContext } from '../../contexts/LanguageContext';
 import { useTaxContext } from '../../contexts/TaxContext';
+import { useIncomeContext } from '../../contexts/TaxDataContext';
 import { useUIContext } from '../../contexts/UIContext';
 import { useTaxDataHandlers } from '../../hooks/useTaxDataHandlers';
 import { StateTaxSelector } from '../forms/StateTaxSelector';
@@ -38,6 +39,7 @@ export function ClassicModeView() {
     recalculate,
     diagnostics,
   } = useTaxContext();
+  const { w2Forms, setW2Forms } = useIncomeContext();
   const {
     activeTab,
     setActiveTab,
@@ -91,6 +93,8 @@ export function ClassicModeView() {
                 onIncomeChange={handleIncomeChange}
                 onK1Change={handleK1Change}
                 onBusinessDetailsChange={handleBusinessDetailsChange}
+                w2Forms={w2Forms}
+                onW2FormsChange={setW2Forms}
                 t={t}
               />
             )}
@@ -15,7 +15,8 @@ import {
 } from 'lucide-react';
 
 import { useLanguageContext } from '../../contexts/LanguageContext';
-import { useTaxContext } from '../../contexts/TaxContext';
+import { usePriorYearContext, useTaxContext } from '../../contexts/TaxContext';
+import { useTaxYear } from '../../contexts/TaxDataContext';
 import { useUIContext } from '../../contexts/UIContext';
 import { useTaxDataHandlers } from '../../hooks/useTaxDataHandlers';
 
@@ -100,6 +101,8 @@ export function AdvancedFeaturesModal() {
     handleIncomeChange,
     handlePaymentsChange,
   } = useTaxContext();
+  const { priorYears, setPriorYears } = usePriorYearContext();
+  const taxYear = useTaxYear();
 
   const {
     showAdvancedFeatures,
@@ -178,8 +181,17 @@ export function AdvancedFeaturesModal() {
 
             {advancedTab === 'planner' && (
               <TaxPlanner
-                formData={{ personalInfo, incomeData, deductions, paymentsData }}
+                formData={{
+                  personalInfo,
+                  incomeData,
+                  k1Data,
+                  businessDetails,
+                  paymentsData,
+                  deductions,
+                  spouseInfo,
+                }}
                 taxResult={taxResult}
+                taxYear={taxYear}
                 t={t}
               />
             )}
@@ -195,7 +207,13 @@ export function AdvancedFeaturesModal() {
             )}
 
             {advancedTab === 'comparison' && (
-              <MultiYearComparison currentYearData={{ taxResult, deductions }} t={t} />
+              <MultiYearComparison
+                currentYearData={{ taxResult, deductions }}
+                taxYear={taxYear}
+                priorYears={priorYears}
+                onPriorYearsChange={setPriorYears}
+                t={t}
+              />
             )}
 
             {advancedTab === 'notifications' && (
@@ -0,0 +1,284 @@
+import React, { useMemo, useState } from 'react';
+import { Repeat } from 'lucide-react';
+
+import { centsToDollars, dollarsToCents } from '../../engine/util/money';
+import {
+  calculateRothConversionPlanWithEngine,
+  type UIBusinessDetails,
+  type UIDeductions,
+  type UIIncomeData,
+  type UIK1Data,
+  type UIPaymentsData,
+  type UIPersonalInfo,
+  type UISpouseInfo,
+} from '../../utils/engineAdapter';
+
+interface FormData {
+  personalInfo: UIPersonalInfo;
+  incomeData: UIIncomeData;
+  k1Data: UIK1Data;
+  businessDetails: UIBusinessDetails;
+  paymentsData: UIPaymentsData;
+  deductions: UIDeductions;
+  spouseInfo: UISpouseInfo;
+}
+
+interface RothConversionPlannerProps {
+  formData: FormData;
+  taxYear: number;
+}
+
+const TARGET_RATES = [0.1, 0.12, 0.22, 0.24, 0.32, 0.35];
+
+// Result lines that retirees converting most often trip over
+const HIGHLIGHTED_EFFECTS = [
+  'taxableSocialSecurity',
+  'additionalTaxes.niit',
+  'credits.ptc',
+  'credits.ptcRepayment',
+];
+
+const toDollars = (cents: number) => Math.round(centsToDollars(cents));
+const formatDollars = (cents: number) => `$${toDollars(cents).toLocaleString()}`;
+
+const LIMIT_LABELS = {
+  bracket: 'Bracket top',
+  balance: 'IRA balance',
+  irmaa: 'IRMAA threshold',
+};
+
+export const RothConversionPlanner: React.FC<RothConversionPlannerProps> = ({
+  formData,
+  taxYear,
+}) => {
+  const [iraBalance, setIraBalance] = useState('');
+  const [years, setYears] = useState('5');
+  const [targetRate, setTargetRate] = useState(0.22);
+  const [growthRate, setGrowthRate] = useState('5');
+  const [retirementYear, setRetirementYear] = useState('');
+  const [ssStartYear, setSsStartYear] = useState('');
+  const [ssBenefit, setSsBenefit] = useState('');
+  const [avoidIrmaa, setAvoidIrmaa] = useState(false);
+
+  const plan = useMemo(() => {
+    const balance = parseFloat(iraBalance);
+    if (!(balance > 0)) return undefined;
+
+    const startYear = parseInt(ssStartYear, 10);
+    const benefit = parseFloat(ssBenefit);
+    const retireYear = parseInt(retirementYear, 10);
+
+    return calculateRothConversionPlanWithEngine(
+      formData.personalInfo,
+      formData.incomeData,
+      formData.k1Data,
+      formData.businessDetails,
+      formData.paymentsData,
+      formData.deductions,
+      formData.spouseInfo,
+      {
+        traditionalBalance: dollarsToCents(balance),
+        years: Math.min(Math.max(parseInt(years, 10) || 1, 1), 30),
+        targetRate,
+        growthRate: (parseFloat(growthRate) || 0) / 100,
+        ...(retireYear > 0 && { retirementYear: retireYear }),
+        ...(startYear > 0 &&
+          benefit > 0 && {
+            socialSecurity: { startYear, annualBenefit: dollarsToCents(benefit), colaRate: 0.025 },
+          }),
+        ...(avoidIrmaa && { maxIrmaaTier: 0 }),
+      },
+      taxYear
+    );
+  }, [
+    formData,
+    taxYear,
+    iraBalance,
+    years,
+    targetRate,
+    growthRate,
+    retirementYear,
+    ssStartYear,
+    ssBenefit,
+    avoidIrmaa,
+  ]);
+
+  const inputClass = 'mt-1 w-full px-2 py-1 border border-gray-300 rounded text-sm';
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <h4 className="font-semibold text-gray-900 mb-4 flex items-center gap-2">
+        <Repeat className="h-5 w-5 text-teal-600" />
+        Roth Conversion Plan
+      </h4>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4 text-sm">
+        <label className="text-gray-600">
+          Traditional IRA balance
+          <input
+            type="number"
+            min="0"
+            value={iraBalance}
+            onChange={(e) => setIraBalance(e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-gray-600">
+          Fill up to bracket
+          <select
+            value={targetRate}
+            onChange={(e) => setTargetRate(Number(e.target.value))}
+            className={inputClass}
+          >
+            {TARGET_RATES.map((rate) => (
+              <option key={rate} value={rate}>
+                {Math.round(rate * 100)}%
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-gray-600">
+          Years
+          <input
+            type="number"
+            min="1"
+            max="30"
+            value={years}
+            onChange={(e) => setYears(e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-gray-600">
+          IRA growth (%)
+          <input
+            type="number"
+            value={growthRate}
+            onChange={(e) => setGrowthRate(e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-gray-600">
+          Retirement year
+          <input
+            type="number"
+            value={retirementYear}
+            onChange={(e) => setRetirementYear(e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-gray-600">
+          Social Security start year
+          <input
+            type="number"
+            value={ssStartYear}
+            onChange={(e) => setSsStartYear(e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-gray-600">
+          Annual Social Security benefit
+          <input
+            type="number"
+            min="0"
+            value={ssBenefit}
+            onChange={(e) => setSsBenefit(e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex items-center gap-2 text-gray-600 mt-5">
+          <input
+            type="checkbox"
+            checked={avoidIrmaa}
+            onChange={(e) => setAvoidIrmaa(e.target.checked)}
+            className="w-4 h-4"
+          />
+          Stay under the first IRMAA tier
+        </label>
+      </div>
+
+      {plan === null && (
+        <p className="text-sm text-red-600">
+          The plan needs the taxpayer&apos;s birth date to project RMDs and Medicare premiums.
+        </p>
+      )}
+
+      {plan && (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2 pr-3">Year</th>
+                  <th className="py-2 pr-3">Age</th>
+                  <th className="py-2 pr-3">RMD</th>
+                  <th className="py-2 pr-3">Convert</th>
+                  <th className="py-2 pr-3">Limited by</th>
+                  <th className="py-2 pr-3">Federal cost</th>
+                  <th className="py-2 pr-3">State cost</th>
+                  <th className="py-2 pr-3">IRMAA</th>
+                  <th className="py-2">Other effects</th>
+                </tr>
+              </thead>
+              <tbody>
+                {plan.years.map((year) => (
+                  <tr key={year.taxYear} className="border-b border-gray-100 align-top">
+                    <td className="py-2 pr-3 font-medium">{year.taxYear}</td>
+                    <td className="py-2 pr-3">{year.age}</td>
+                    <td className="py-2 pr-3">{formatDollars(year.rmd)}</td>
+                    <td className="py-2 pr-3 font-medium text-teal-700">
+                      {formatDollars(year.conversion)}
+                    </td>
+                    <td className="py-2 pr-3">{LIMIT_LABELS[year.limitedBy]}</td>
+                    <td className="py-2 pr-3">{formatDollars(year.federalCost)}</td>
+                    <td className="py-2 pr-3">{formatDollars(year.stateCost)}</td>
+                    <td className="py-2 pr-3">
+                      {year.irmaa.enrollees > 0
+                        ? `Tier ${year.irmaa.tier} in ${year.irmaa.premiumYear}` +
+                          (year.irmaaIncrease > 0 ? ` (+${formatDollars(year.irmaaIncrease)})` : '')
+                        : '—'}
+                    </td>
+                    <td className="py-2 text-xs text-gray-600">
+                      {year.effects
+                        .filter((effect) => HIGHLIGHTED_EFFECTS.includes(effect.item))
+                        .map((effect) => (
+                          <div key={effect.item}>
+                            {effect.label}: {formatDollars(effect.baseline)} →{' '}
+                            {formatDollars(effect.scenario)}
+                          </div>
+                        ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4 text-sm">
+            <div className="p-3 bg-teal-50 rounded">
+              <div className="text-gray-500">Total converted</div>
+              <div className="font-bold text-teal-700">{formatDollars(plan.totalConverted)}</div>
+            </div>
+            <div className="p-3 bg-red-50 rounded">
+              <div className="text-gray-500">Tax on conversions</div>
+              <div className="font-bold text-red-700">{formatDollars(plan.totalTaxCost)}</div>
+            </div>
+            <div className="p-3 bg-yellow-50 rounded">
+              <div className="text-gray-500">Added IRMAA premiums</div>
+              <div className="font-bold text-yellow-700">
+                {formatDollars(plan.totalIrmaaIncrease)}
+              </div>
+            </div>
+            <div className="p-3 bg-gray-50 rounded">
+              <div className="text-gray-500">Traditional IRA left</div>
+              <div className="font-bold">{formatDollars(plan.finalTraditionalBalance)}</div>
+            </div>
+          </div>
+
+          <p className="mt-3 text-xs text-gray-500">
+            Each year uses {taxYear} tax law and brackets. Social Security grows 2.5% a year.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,13 +1,29 @@
-import React, { useState, useEffect } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Calculator, Target, Lightbulb, BarChart3, DollarSign } from 'lucide-react';
 
+import type { WhatIfResult, WhatIfScenario } from '../../engine';
+import { HSA_LIMITS_2025 } from '../../engine/rules/2025/federal/schedule1Adjustments';
+import { centsToDollars, dollarsToCents } from '../../engine/util/money';
+import {
+  calculateWhatIfWithEngine,
+  type UIBusinessDetails,
+  type UIDeductions,
+  type UIIncomeData,
+  type UIK1Data,
+  type UIPaymentsData,
+  type UIPersonalInfo,
+  type UISpouseInfo,
+} from '../../utils/engineAdapter';
+import { RothConversionPlanner } from './RothConversionPlanner';
+
 interface FormData {
-  incomeData?: {
-    wages?: string;
-    capitalGains?: string;
-    [key: string]: unknown;
-  };
-  [key: string]: unknown;
+  personalInfo: UIPersonalInfo;
+  incomeData: UIIncomeData;
+  k1Data: UIK1Data;
+  businessDetails: UIBusinessDetails;
+  paymentsData: UIPaymentsData;
+  deductions: UIDeductions;
+  spouseInfo: UISpouseInfo;
 }
 
 interface TaxResult {
@@ -19,130 +35,149 @@ interface TaxScenario {
   id: string;
   name: string;
   description: string;
-  changes: Record<string, unknown>;
-  projectedSavings: number;
+  whatIf: WhatIfScenario;
   feasibility: 'high' | 'medium' | 'low';
 }
 
+interface ScenarioImpact {
+  currentTax: number;
+  projectedTax: number;
+  federalSavings: number;
+  stateSavings: number;
+  savings: number;
+  savingsPercentage: number;
+  years: number;
+  result: WhatIfResult;
+}
+
 interface TaxPlannerProps {
   formData: FormData;
   taxResult: TaxResult;
+  taxYear: number;
   t: (key: string) => string;
 }
 
+const toDollars = (cents: number) => Math.round(centsToDollars(cents));
+
+// Negative savings are a tax cost (e.g. a Roth conversion)
+const formatSavings = (dollars: number) =>
+  dollars < 0 ? `-$${Math.abs(dollars).toLocaleString()}` : `$${dollars.toLocaleString()}`;
+
 export const TaxPlanner: React.FC<TaxPlannerProps> = ({
   formData,
   taxResult,
+  taxYear,
   t
 }) => {
-  const [scenarios, setScenarios] = useState<TaxScenario[]>([]);
   const [selectedScenario, setSelectedScenario] = useState<string | null>(null);
-  const [_customScenario, _setCustomScenario] = useState<Record<string, unknown>>({});
-
-  useEffect(() => {
-    generateTaxScenarios();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [formData, taxResult]);
 
-  const generateTaxScenarios = () => {
-    const income = parseFloat(formData.incomeData?.wages || '0');
-    const _currentTax = taxResult.totalTax;
+  const scenarios = useMemo((): TaxScenario[] => {
+    const income = parseFloat(formData.incomeData.wages || '0');
     const scenarios: TaxScenario[] = [];
 
     // Scenario 1: Maximize 401k contribution
     if (income > 30000) {
-      const max401k = Math.min(23000, income * 0.2); // 2025 limit
-      const taxSavings = max401k * 0.22; // Approximate tax bracket
+      const max401k = Math.min(23500, income * 0.2); // 2025 elective deferral limit
       scenarios.push({
         id: '401k-max',
         name: 'Maximize 401(k) Contribution',
         description: `Contribute $${max401k.toLocaleString()} to 401(k)`,
-        changes: { retirement401k: max401k },
-        projectedSavings: taxSavings,
+        whatIf: { kind: 'electiveDeferral', amount: dollarsToCents(max401k) },
         feasibility: income > 100000 ? 'high' : 'medium'
       });
     }
 
     // Scenario 2: HSA Contribution
     if (income > 25000) {
-      const hsaMax = 4300; // 2025 individual limit
-      const taxSavings = hsaMax * 0.22;
+      const hsaMax = HSA_LIMITS_2025.selfOnlyCoverage;
       scenarios.push({
         id: 'hsa-max',
         name: 'Maximize HSA Contribution',
-        description: `Contribute $${hsaMax.toLocaleString()} to HSA`,
-        changes: { hsaContribution: hsaMax },
-        projectedSavings: taxSavings,
+        description: `Contribute $${centsToDollars(hsaMax).toLocaleString()} to HSA`,
+        whatIf: { kind: 'hsaContribution', amount: hsaMax },
         feasibility: 'high'
       });
     }
 
-    // Scenario 3: Charitable giving
-    const suggestedCharity = Math.min(income * 0.05, 10000);
+    // Scenario 3: Charitable bunching - three years of giving in one year
+    const currentCharity = parseFloat(String(formData.deductions.charitableContributions || '0'));
+    const annualGift = currentCharity > 0 ? currentCharity : Math.min(income * 0.05, 10000);
     if (income > 50000) {
       scenarios.push({
         id: 'charity',
-        name: 'Strategic Charitable Giving',
-        description: `Donate $${suggestedCharity.toLocaleString()} to qualified charities`,
-        changes: { charitableContributions: suggestedCharity },
-        projectedSavings: suggestedCharity * 0.22,
+        name: 'Charitable Bunching',
+        description: `Give three years of donations ($${(annualGift * 3).toLocaleString()}) this year, then take the standard deduction for two years`,
+        whatIf: { kind: 'charitableBunching', annualGift: dollarsToCents(annualGift), years: 3 },
         feasibility: 'medium'
       });
     }
 
-    // Scenario 4: Energy efficient home improvements
-    if (income > 40000) {
-      scenarios.push({
-        id: 'energy-credits',
-        name: 'Energy Efficiency Credits',
-        description: 'Install solar panels or energy-efficient systems',
-        changes: { energyCredits: 7500 },
-        projectedSavings: 7500,
-        feasibility: 'medium'
-      });
-    }
-
-    // Scenario 5: Tax loss harvesting
-    const capitalGains = parseFloat(formData.incomeData?.capitalGains || '0');
+    // Scenario 4: Tax loss harvesting
+    const capitalGains = parseFloat(formData.incomeData.capitalGains || '0');
     if (capitalGains > 0) {
       const harvestAmount = Math.min(capitalGains, 3000);
       scenarios.push({
         id: 'tax-loss-harvesting',
         name: 'Tax Loss Harvesting',
         description: `Realize $${harvestAmount.toLocaleString()} in capital losses`,
-        changes: { capitalLosses: harvestAmount },
-        projectedSavings: harvestAmount * 0.15,
+        whatIf: { kind: 'taxLossHarvest', amount: dollarsToCents(harvestAmount) },
         feasibility: 'high'
       });
     }
 
-    // Scenario 6: Roth IRA conversion
-    if (income < 153000) { // 2025 Roth IRA phase-out starts
-      scenarios.push({
-        id: 'roth-ira',
-        name: 'Roth IRA Contribution',
-        description: 'Contribute $7,000 to Roth IRA (tax-free growth)',
-        changes: { rothIRA: 7000 },
-        projectedSavings: 0, // No immediate tax benefit, but long-term savings
-        feasibility: 'high'
-      });
-    }
+    // Scenario 5: Roth IRA conversion - costs tax now for tax-free growth
+    scenarios.push({
+      id: 'roth-conversion',
+      name: 'Roth IRA Conversion',
+      description: 'Convert $10,000 of a traditional IRA to a Roth IRA (tax now, tax-free growth)',
+      whatIf: { kind: 'rothConversion', amount: dollarsToCents(10000) },
+      feasibility: 'medium'
+    });
 
-    setScenarios(scenarios);
-  };
+    return scenarios;
+  }, [formData.incomeData, formData.deductions]);
 
-  const calculateScenarioImpact = (scenario: TaxScenario) => {
-    // Simplified calculation - in reality, this would use the tax engine
-    const currentTax = taxResult.totalTax;
-    const projectedTax = currentTax - scenario.projectedSavings;
-
-    return {
-      currentTax,
-      projectedTax,
-      savings: scenario.projectedSavings,
-      savingsPercentage: (scenario.projectedSavings / currentTax) * 100
-    };
-  };
+  // Every scenario is run through the federal and state engines
+  const impacts = useMemo((): Record<string, ScenarioImpact> => {
+    const results = calculateWhatIfWithEngine(
+      formData.personalInfo,
+      formData.incomeData,
+      formData.k1Data,
+      formData.businessDetails,
+      formData.paymentsData,
+      formData.deductions,
+      formData.spouseInfo,
+      scenarios.map((scenario) => scenario.whatIf),
+      taxYear
+    );
+    if (!results) return {};
+
+    return Object.fromEntries(
+      scenarios.map((scenario, i) => {
+        const result = results[i]!;
+        const currentTax = toDollars(result.baseline.totalTax);
+        const savings = toDollars(result.totalSavings);
+        return [
+          scenario.id,
+          {
+            currentTax,
+            projectedTax: toDollars(result.projected.totalTax),
+            federalSavings: toDollars(result.federalSavings),
+            stateSavings: toDollars(result.stateSavings),
+            savings,
+            savingsPercentage: currentTax > 0 ? (savings / (currentTax * result.years)) * 100 : 0,
+            years: result.years,
+            result,
+          },
+        ];
+      })
+    );
+  }, [formData, scenarios, taxYear]);
+
+  const totalSavings = scenarios.reduce(
+    (sum, s) => sum + Math.max(0, impacts[s.id]?.savings ?? 0),
+    0
+  );
 
   const getFeasibilityColor = (feasibility: string) => {
     switch (feasibility) {
@@ -157,10 +192,16 @@ export const TaxPlanner: React.FC<TaxPlannerProps> = ({
     const currentYear = new Date().getFullYear();
     const years = [currentYear, currentYear + 1, currentYear + 2, currentYear + 3, currentYear + 4];
 
+    // Savings of the beneficial scenarios, spread over the years each one compares
+    const annualSavings = scenarios.reduce((sum, s) => {
+      const impact = impacts[s.id];
+      return impact && impact.savings > 0 ? sum + impact.savings / impact.years : sum;
+    }, 0);
+
     return years.map(year => ({
       year,
-      currentPath: taxResult.totalTax * Math.pow(1.03, year - currentYear), // 3% inflation
-      optimizedPath: (taxResult.totalTax - 5000) * Math.pow(1.03, year - currentYear) // Assume $5k annual savings
+      currentPath: Math.round(taxResult.totalTax * Math.pow(1.03, year - currentYear)), // 3% inflation
+      optimizedPath: Math.round((taxResult.totalTax - annualSavings) * Math.pow(1.03, year - currentYear))
     }));
   };
 
@@ -182,13 +223,13 @@ export const TaxPlanner: React.FC<TaxPlannerProps> = ({
           </div>
           <div className="text-center p-4 bg-green-50 rounded-lg">
             <div className="text-2xl font-bold text-green-600">
-              ${scenarios.reduce((sum, s) => sum + s.projectedSavings, 0).toLocaleString()}
+              ${totalSavings.toLocaleString()}
             </div>
             <div className="text-sm text-gray-600">{t('planning.potentialSavings')}</div>
           </div>
           <div className="text-center p-4 bg-purple-50 rounded-lg">
             <div className="text-2xl font-bold text-purple-600">
-              {((scenarios.reduce((sum, s) => sum + s.projectedSavings, 0) / taxResult.totalTax) * 100).toFixed(1)}%
+              {taxResult.totalTax > 0 ? ((totalSavings / taxResult.totalTax) * 100).toFixed(1) : '0.0'}%
             </div>
             <div className="text-sm text-gray-600">{t('planning.savingsRate')}</div>
           </div>
@@ -204,7 +245,8 @@ export const TaxPlanner: React.FC<TaxPlannerProps> = ({
 
         <div className="space-y-3">
           {scenarios.map(scenario => {
-            const impact = calculateScenarioImpact(scenario);
+            const impact = impacts[scenario.id];
+            if (!impact) return null;
 
             return (
               <div
@@ -235,28 +277,59 @@ export const TaxPlanner: React.FC<TaxPlannerProps> = ({
                             <span className="text-gray-500">Projected Tax:</span>
                             <span className="ml-2 font-medium">${impact.projectedTax.toLocaleString()}</span>
                           </div>
+                          <div>
+                            <span className="text-gray-500">Federal Savings:</span>
+                            <span className="ml-2 font-medium">{formatSavings(impact.federalSavings)}</span>
+                          </div>
+                          <div>
+                            <span className="text-gray-500">State Savings:</span>
+                            <span className="ml-2 font-medium">{formatSavings(impact.stateSavings)}</span>
+                          </div>
                           <div>
                             <span className="text-gray-500">Savings:</span>
-                            <span className="ml-2 font-medium text-green-600">
-                              ${impact.savings.toLocaleString()}
+                            <span className={`ml-2 font-medium ${impact.savings >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                              {formatSavings(impact.savings)}
                             </span>
                           </div>
                           <div>
                             <span className="text-gray-500">Reduction:</span>
-                            <span className="ml-2 font-medium text-green-600">
+                            <span className={`ml-2 font-medium ${impact.savings >= 0 ? 'text-green-600' : 'text-red-600'}`}>
                               {impact.savingsPercentage.toFixed(1)}%
                             </span>
                           </div>
                         </div>
+
+                        {impact.years > 1 && (
+                          <p className="mt-2 text-xs text-gray-500">
+                            Tax is for the first year; savings cover all {impact.years} years of the plan.
+                          </p>
+                        )}
+                        {impact.result.deductionTypeChanged && (
+                          <p className="mt-2 text-xs text-gray-500">
+                            Switches to the {impact.result.projected.federal.deductionType} deduction.
+                          </p>
+                        )}
+                        {impact.result.effects.length > 0 && (
+                          <ul className="mt-2 text-xs text-gray-600 space-y-1">
+                            {impact.result.effects.map((effect) => (
+                              <li key={effect.item}>
+                                {effect.label}: ${toDollars(effect.baseline).toLocaleString()} → $
+                                {toDollars(effect.scenario).toLocaleString()}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
                       </div>
                     )}
                   </div>
 
                   <div className="text-right">
-                    <div className="text-lg font-bold text-green-600">
-                      ${scenario.projectedSavings.toLocaleString()}
+                    <div className={`text-lg font-bold ${impact.savings >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {formatSavings(impact.savings)}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {impact.years > 1 ? `over ${impact.years} years` : t('planning.annualSavings')}
                     </div>
-                    <div className="text-xs text-gray-500">{t('planning.annualSavings')}</div>
                   </div>
                 </div>
               </div>
@@ -265,6 +338,9 @@ export const TaxPlanner: React.FC<TaxPlannerProps> = ({
         </div>
       </div>
 
+      {/* Multi-year Roth conversions */}
+      <RothConversionPlanner formData={formData} taxYear={taxYear} />
+
       {/* 5-Year Projection */}
       <div className="bg-white rounded-lg shadow-lg p-6">
         <h4 className="font-semibold text-gray-900 mb-4 flex items-center gap-2">
@@ -139,6 +139,14 @@ export const translations: Translations = {
         businessExpenses: 'Total Business Expenses',
         netBusinessIncome: 'Net Business Income',
       },
+      w2Import: {
+        button: 'Import W-2s (CSV)',
+        imported: 'W-2s imported. Wages and withholding come from these forms.',
+        remove: 'Remove imported W-2s',
+        errors: 'Rows not imported',
+        warnings: 'Check these W-2 boxes',
+        line: 'Line',
+      },
     },
     payments: {
       title: 'Tax Payments & Withholdings',
@@ -346,6 +354,58 @@ export const translations: Translations = {
         tip5: 'Respond to IRS communications promptly and completely',
       },
     },
+    comparison: {
+      multiYear: {
+        title: 'Multi-Year Comparison',
+        period: 'Comparison Period',
+        metric: 'Metric',
+        trends: 'Trends',
+        incomeChange: 'Income Change',
+        taxChange: 'Tax Change',
+        rateChange: 'Effective Rate Change',
+        avgRefund: 'Average Refund',
+        detailedComparison: 'Detailed Comparison',
+        efficiency: 'Tax Efficiency',
+        bestYear: 'Lowest Effective Rate',
+        worstYear: 'Highest Effective Rate',
+        insights: 'Insights',
+        addPriorYears: "Add the client's prior-year returns below to compare years.",
+        priorYears: 'Prior-Year Returns',
+        taxYear: 'Tax Year',
+        importExport: 'Import JSON Export',
+        save: 'Save',
+        remove: 'Remove',
+        agi: 'AGI',
+        carryovers: 'Carryovers',
+        carryover: 'Carryover',
+        carryoverFrom: 'From',
+        carryoverInto: 'into',
+        fields: {
+          agi: 'AGI (Line 11)',
+          deductions: 'Deduction (Line 12)',
+          taxableIncome: 'Taxable income (Line 15)',
+          totalTax: 'Total tax (Line 24)',
+          refundOrOwe: 'Refund, or -owed',
+          capitalLoss: 'Capital loss carryover',
+          nol: 'NOL carryforward',
+          amtCredit: 'AMT credit carryforward',
+        },
+        carryoverLabels: {
+          capitalLoss: 'Capital loss',
+          nol: 'NOL',
+          amtCredit: 'AMT credit',
+        },
+        sources: {
+          filed: 'Filed',
+          import: 'Imported',
+          manual: 'Entered',
+        },
+        errors: {
+          importFailed: "The file is not a saved return or this app's JSON export",
+          missingAmounts: 'Enter AGI, taxable income and total tax',
+        },
+      },
+    },
     auth: {
       // Login/Session
       secureAccess: 'Secure Access',
@@ -565,6 +625,14 @@ export const translations: Translations = {
         businessExpenses: '商业费用总额',
         netBusinessIncome: '净商业收入',
       },
+      w2Import: {
+        button: '导入 W-2 (CSV)',
+        imported: '份 W-2 已导入。工资和预扣税以这些表格为准。',
+        remove: '移除已导入的 W-2',
+        errors: '未导入的行',
+        warnings: '请核对以下 W-2 栏目',
+        line: '行',
+      },
     },
     payments: {
       title: '税务付款和预扣',
@@ -772,6 +840,58 @@ export const translations: Translations = {
         tip5: '及时、完整地回应IRS的通信',
       },
     },
+    comparison: {
+      multiYear: {
+        title: '多年度比较',
+        period: '比较期间',
+        metric: '指标',
+        trends: '趋势',
+        incomeChange: '收入变化',
+        taxChange: '税额变化',
+        rateChange: '实际税率变化',
+        avgRefund: '平均退税',
+        detailedComparison: '详细比较',
+        efficiency: '税务效率',
+        bestYear: '实际税率最低',
+        worstYear: '实际税率最高',
+        insights: '分析',
+        addPriorYears: '在下方添加客户以往年度的申报表以进行年度比较。',
+        priorYears: '以往年度申报表',
+        taxYear: '税务年度',
+        importExport: '导入 JSON 导出文件',
+        save: '保存',
+        remove: '删除',
+        agi: 'AGI',
+        carryovers: '结转',
+        carryover: '结转',
+        carryoverFrom: '从',
+        carryoverInto: '结转至',
+        fields: {
+          agi: 'AGI（第11行）',
+          deductions: '扣除额（第12行）',
+          taxableIncome: '应税收入（第15行）',
+          totalTax: '总税额（第24行）',
+          refundOrOwe: '退税，或以负数表示欠税',
+          capitalLoss: '资本损失结转',
+          nol: '净经营亏损结转',
+          amtCredit: 'AMT 抵免结转',
+        },
+        carryoverLabels: {
+          capitalLoss: '资本损失',
+          nol: '净经营亏损',
+          amtCredit: 'AMT 抵免',
+        },
+        sources: {
+          filed: '已申报',
+          import: '已导入',
+          manual: '手动输入',
+        },
+        errors: {
+          importFailed: '该文件不是已保存的申报表或本应用的 JSON 导出文件',
+          missingAmounts: '请输入 AGI、应税收入和总税额',
+        },
+      },
+    },
     auth: {
       // 登录/会话
       secureAccess: '安全访问',
@@ -996,6 +1116,14 @@ export const translations: Translations = {
         businessExpenses: 'Gastos Totales del Negocio',
         netBusinessIncome: 'Ingresos Netos del Negocio',
       },
+      w2Import: {
+        button: 'Importar W-2 (CSV)',
+        imported: 'W-2 importados. Los salarios y las retenciones provienen de estos formularios.',
+        remove: 'Eliminar los W-2 importados',
+        errors: 'Filas no importadas',
+        warnings: 'Revise estas casillas del W-2',
+        line: 'Línea',
+      },
     },
     payments: {
       title: 'Pagos de Impuestos y Retenciones',
@@ -1208,6 +1336,60 @@ export const translations: Translations = {
         tip5: 'Responda a las comunicaciones del IRS de manera oportuna y completa',
       },
     },
+    comparison: {
+      multiYear: {
+        title: 'Comparación de Varios Años',
+        period: 'Período de Comparación',
+        metric: 'Métrica',
+        trends: 'Tendencias',
+        incomeChange: 'Cambio en Ingresos',
+        taxChange: 'Cambio en Impuestos',
+        rateChange: 'Cambio en Tasa Efectiva',
+        avgRefund: 'Reembolso Promedio',
+        detailedComparison: 'Comparación Detallada',
+        efficiency: 'Eficiencia Fiscal',
+        bestYear: 'Tasa Efectiva Más Baja',
+        worstYear: 'Tasa Efectiva Más Alta',
+        insights: 'Observaciones',
+        addPriorYears:
+          'Agregue abajo las declaraciones de años anteriores del cliente para comparar años.',
+        priorYears: 'Declaraciones de Años Anteriores',
+        taxYear: 'Año Fiscal',
+        importExport: 'Importar Exportación JSON',
+        save: 'Guardar',
+        remove: 'Eliminar',
+        agi: 'AGI',
+        carryovers: 'Traspasos',
+        carryover: 'Traspaso',
+        carryoverFrom: 'De',
+        carryoverInto: 'a',
+        fields: {
+          agi: 'AGI (Línea 11)',
+          deductions: 'Deducción (Línea 12)',
+          taxableIncome: 'Ingreso imponible (Línea 15)',
+          totalTax: 'Impuesto total (Línea 24)',
+          refundOrOwe: 'Reembolso, o -adeudado',
+          capitalLoss: 'Traspaso de pérdida de capital',
+          nol: 'Traspaso de NOL',
+          amtCredit: 'Traspaso de crédito AMT',
+        },
+        carryoverLabels: {
+          capitalLoss: 'Pérdida de capital',
+          nol: 'NOL',
+          amtCredit: 'Crédito AMT',
+        },
+        sources: {
+          filed: 'Presentada',
+          import: 'Importada',
+          manual: 'Ingresada',
+        },
+        errors: {
+          importFailed:
+            'El archivo no es una declaración guardada ni una exportación JSON de esta aplicación',
+          missingAmounts: 'Ingrese el AGI, el ingreso imponible y el impuesto total',
+        },
+      },
+    },
     auth: {
       // Inicio de sesión
       secureAccess: 'Acceso Seguro',
@@ -1424,6 +1606,14 @@ export const translations: Translations = {
         businessExpenses: '營業費用總額',
         netBusinessIncome: '淨營業收入',
       },
+      w2Import: {
+        button: '匯入 W-2 (CSV)',
+        imported: '份 W-2 已匯入。工資和預扣稅以這些表格為準。',
+        remove: '移除已匯入的 W-2',
+        errors: '未匯入的列',
+        warnings: '請核對以下 W-2 欄位',
+        line: '列',
+      },
     },
     payments: {
       title: '稅款支付和預扣',
@@ -1613,6 +1803,58 @@ export const translations: Translations = {
         tip5: '及時且完整地回應IRS通訊',
       },
     },
+    comparison: {
+      multiYear: {
+        title: '多年度比較',
+        period: '比較期間',
+        metric: '指標',
+        trends: '趨勢',
+        incomeChange: '收入變化',
+        taxChange: '稅額變化',
+        rateChange: '實際稅率變化',
+        avgRefund: '平均退稅',
+        detailedComparison: '詳細比較',
+        efficiency: '稅務效率',
+        bestYear: '實際稅率最低',
+        worstYear: '實際稅率最高',
+        insights: '分析',
+        addPriorYears: '在下方新增客戶以往年度的申報表以進行年度比較。',
+        priorYears: '以往年度申報表',
+        taxYear: '稅務年度',
+        importExport: '匯入 JSON 匯出檔案',
+        save: '儲存',
+        remove: '刪除',
+        agi: 'AGI',
+        carryovers: '結轉',
+        carryover: '結轉',
+        carryoverFrom: '從',
+        carryoverInto: '結轉至',
+        fields: {
+          agi: 'AGI（第11行）',
+          deductions: '扣除額（第12行）',
+          taxableIncome: '應稅收入（第15行）',
+          totalTax: '總稅額（第24行）',
+          refundOrOwe: '退稅，或以負數表示欠稅',
+          capitalLoss: '資本損失結轉',
+          nol: '淨經營虧損結轉',
+          amtCredit: 'AMT 抵免結轉',
+        },
+        carryoverLabels: {
+          capitalLoss: '資本損失',
+          nol: '淨經營虧損',
+          amtCredit: 'AMT 抵免',
+        },
+        sources: {
+          filed: '已申報',
+          import: '已匯入',
+          manual: '手動輸入',
+        },
+        errors: {
+          importFailed: '該檔案不是已儲存的申報表或本應用程式的 JSON 匯出檔案',
+          missingAmounts: '請輸入 AGI、應稅收入和總稅額',
+        },
+      },
+    },
     auth: {
       // 登入/會話
       secureAccess: '安全存取',
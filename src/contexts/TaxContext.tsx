@@ -35,6 +35,7 @@ export {
   useTaxResultContext,
   useValidationContext,
   useSnapshotContext,
+  usePriorYearContext,
   usePersonalInfo,
   useSpouseInfo,
   useIncomeData,
@@ -11,6 +11,7 @@
  * - DeductionContext: Deductions data and handlers
  * - TaxResultContext: Calculated tax results and optimizations
  * - ValidationContext: Form errors and touched state
+ * - PriorYearContext: The client's prior-year returns for multi-year comparison
  */
 
 import React, { createContext, useContext, ReactNode, useMemo, useState } from 'react';
@@ -28,8 +29,9 @@ import type {
   UIBusinessDetails as BusinessDetails,
   UIPaymentsData as PaymentsData,
 } from '../utils/engineAdapter';
-import type { FederalDiagnostics2025, FederalResult2025 } from '../engine/types';
+import type { FederalDiagnostics2025, FederalResult2025, FormW2 } from '../engine/types';
 import type { TraceSection } from '../engine/trace/types';
+import type { PriorYearReturn } from '../types/ui/comparison';
 import {
   DEFAULT_TAX_YEAR,
   type SupportedTaxYear,
@@ -76,6 +78,7 @@ interface IncomeContextValue {
   k1Data: K1Data;
   businessDetails: BusinessDetails;
   paymentsData: PaymentsData;
+  w2Forms: FormW2[];
   handleIncomeChange: (field: string, value: string) => void;
   handleK1Change: (field: string, value: string) => void;
   handleBusinessDetailsChange: (field: string, value: string) => void;
@@ -84,6 +87,7 @@ interface IncomeContextValue {
   setK1Data: React.Dispatch<React.SetStateAction<K1Data>>;
   setBusinessDetails: React.Dispatch<React.SetStateAction<BusinessDetails>>;
   setPaymentsData: React.Dispatch<React.SetStateAction<PaymentsData>>;
+  setW2Forms: React.Dispatch<React.SetStateAction<FormW2[]>>;
 }
 
 const IncomeContext = createContext<IncomeContextValue | undefined>(undefined);
@@ -207,6 +211,25 @@ export const useTaxYearContext = (): TaxYearContextValue => {
 export const useTaxYear = () => useTaxYearContext().taxYear;
 export const useAvailableTaxYears = () => useTaxYearContext().availableYears;
 
+// ============================================================================
+// Prior Year Context
+// ============================================================================
+
+interface PriorYearContextValue {
+  priorYears: PriorYearReturn[];
+  setPriorYears: React.Dispatch<React.SetStateAction<PriorYearReturn[]>>;
+}
+
+const PriorYearContext = createContext<PriorYearContextValue | undefined>(undefined);
+
+export const usePriorYearContext = (): PriorYearContextValue => {
+  const context = useContext(PriorYearContext);
+  if (!context) {
+    throw new Error('usePriorYearContext must be used within TaxDataProvider');
+  }
+  return context;
+};
+
 // ============================================================================
 // Snapshot Context (for save/load functionality)
 // ============================================================================
@@ -220,6 +243,8 @@ export interface TaxCalculatorSnapshot {
   paymentsData: PaymentsData;
   deductions: Deductions;
   taxResult: TaxResult;
+  priorYears?: PriorYearReturn[];
+  w2Forms?: FormW2[];
 }
 
 interface SnapshotContextValue {
@@ -253,11 +278,13 @@ export const TaxDataProvider: React.FC<TaxDataProviderProps> = ({ children }) =>
     const currentYear = new Date().getFullYear();
     return availableYears.includes(currentYear);
   }, [availableYears]);
+  const [priorYears, setPriorYears] = useState<PriorYearReturn[]>([]);
 
   // Initialize all state hooks
   const personalInfoState = usePersonalInfoState();
   const incomeState = useIncomeState();
   const deductionState = useDeductionState(personalInfoState.standardDeduction);
+  const forms = useMemo(() => ({ w2Forms: incomeState.w2Forms }), [incomeState.w2Forms]);
 
   // Tax results depend on all other state AND tax year
   const taxResultState = useTaxResults({
@@ -268,6 +295,7 @@ export const TaxDataProvider: React.FC<TaxDataProviderProps> = ({ children }) =>
     businessDetails: incomeState.businessDetails,
     paymentsData: incomeState.paymentsData,
     deductions: deductionState.deductions,
+    forms,
     taxYear,
   });
 
@@ -301,6 +329,7 @@ export const TaxDataProvider: React.FC<TaxDataProviderProps> = ({ children }) =>
       k1Data: incomeState.k1Data,
       businessDetails: incomeState.businessDetails,
       paymentsData: incomeState.paymentsData,
+      w2Forms: incomeState.w2Forms,
       handleIncomeChange: incomeState.handleIncomeChange,
       handleK1Change: incomeState.handleK1Change,
       handleBusinessDetailsChange: incomeState.handleBusinessDetailsChange,
@@ -309,12 +338,14 @@ export const TaxDataProvider: React.FC<TaxDataProviderProps> = ({ children }) =>
       setK1Data: incomeState.setK1Data,
       setBusinessDetails: incomeState.setBusinessDetails,
       setPaymentsData: incomeState.setPaymentsData,
+      setW2Forms: incomeState.setW2Forms,
     }),
     [
       incomeState.incomeData,
       incomeState.k1Data,
       incomeState.businessDetails,
       incomeState.paymentsData,
+      incomeState.w2Forms,
       incomeState.handleIncomeChange,
       incomeState.handleK1Change,
       incomeState.handleBusinessDetailsChange,
@@ -323,6 +354,7 @@ export const TaxDataProvider: React.FC<TaxDataProviderProps> = ({ children }) =>
       incomeState.setK1Data,
       incomeState.setBusinessDetails,
       incomeState.setPaymentsData,
+      incomeState.setW2Forms,
     ]
   );
 
@@ -388,6 +420,11 @@ export const TaxDataProvider: React.FC<TaxDataProviderProps> = ({ children }) =>
     [taxYear, availableYears, isCurrentYearSupported]
   );
 
+  const priorYearContextValue = useMemo<PriorYearContextValue>(
+    () => ({ priorYears, setPriorYears }),
+    [priorYears]
+  );
+
   // Snapshot functions
   const getSnapshot = (): TaxCalculatorSnapshot => ({
     personalInfo: personalInfoState.personalInfo,
@@ -398,6 +435,8 @@ export const TaxDataProvider: React.FC<TaxDataProviderProps> = ({ children }) =>
     paymentsData: incomeState.paymentsData,
     deductions: deductionState.deductions,
     taxResult: taxResultState.taxResult,
+    priorYears,
+    w2Forms: incomeState.w2Forms,
   });
 
   const loadFromSnapshot = (s: Partial<TaxCalculatorSnapshot>) => {
@@ -409,6 +448,9 @@ export const TaxDataProvider: React.FC<TaxDataProviderProps> = ({ children }) =>
     if (s.paymentsData) incomeState.setPaymentsData(s.paymentsData);
     if (s.deductions) deductionState.setDeductions(s.deductions);
     if (s.taxResult) taxResultState.setTaxResult(s.taxResult);
+    // History and imported W-2s belong to the client being loaded
+    setPriorYears(s.priorYears ?? []);
+    incomeState.setW2Forms(s.w2Forms ?? []);
   };
 
   const snapshotContextValue = useMemo<SnapshotContextValue>(
@@ -425,6 +467,8 @@ export const TaxDataProvider: React.FC<TaxDataProviderProps> = ({ children }) =>
       incomeState.paymentsData,
       deductionState.deductions,
       taxResultState.taxResult,
+      priorYears,
+      incomeState.w2Forms,
     ]
   );
 
@@ -435,9 +479,11 @@ export const TaxDataProvider: React.FC<TaxDataProviderProps> = ({ children }) =>
           <DeductionContext.Provider value={deductionContextValue}>
             <TaxResultContext.Provider value={taxResultContextValue}>
               <ValidationContext.Provider value={validationContextValue}>
-                <SnapshotContext.Provider value={snapshotContextValue}>
-                  {children}
-                </SnapshotContext.Provider>
+                <PriorYearContext.Provider value={priorYearContextValue}>
+                  <SnapshotContext.Provider value={snapshotContextValue}>
+                    {children}
+                  </SnapshotContext.Provider>
+                </PriorYearContext.Provider>
               </ValidationContext.Provider>
             </TaxResultContext.Provider>
           </DeductionContext.Provider>
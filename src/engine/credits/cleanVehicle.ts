@@ -0,0 +1,167 @@
+/**
+ * Clean Vehicle Credits (Form 8936)
+ *
+ * Computes the new (§30D) and previously owned (§25E) clean vehicle credits
+ * for vehicles placed in service for personal use, and the repayment owed
+ * when a credit was transferred to the dealer at the time of sale but the
+ * buyer's income turns out to be over the limit.
+ *
+ * Key Rules (2025):
+ * - New: up to $7,500 (the amount on the seller's report); MSRP of $80,000
+ *   or less for vans, SUVs and pickups, $55,000 for other vehicles
+ * - Used: 30% of the sale price, up to $4,000; price of $25,000 or less
+ * - MAGI limits by filing status; the buyer qualifies if either the current
+ *   or the prior year's MAGI is under the limit
+ * - No credit for vehicles acquired after September 30, 2025
+ * - A credit transferred to the dealer was an advance payment: nothing more
+ *   is claimed, and it is repaid in full if MAGI is over the limit (Part I)
+ *
+ * Sources:
+ * - IRC §25E, §30D
+ * - Form 8936 Instructions
+ *
+ * @module credits/cleanVehicle
+ */
+
+import type { FilingStatus } from '../types';
+import {
+  CLEAN_VEHICLE_ACQUISITION_DEADLINE,
+  NEW_CLEAN_VEHICLE_2025,
+  USED_CLEAN_VEHICLE_2025,
+} from '../rules/2025/federal/cleanVehicle';
+import { addCents, multiplyCents } from '../util/money';
+
+/**
+ * A clean vehicle bought during the year
+ */
+export interface CleanVehiclePurchase {
+  vin?: string;
+  condition: 'new' | 'used';
+
+  /** New vehicles: MSRP class for the limit */
+  vehicleClass?: 'vanSuvPickup' | 'other';
+
+  /** New vehicles: Manufacturer's suggested retail price (in cents) */
+  msrp?: number;
+
+  /** Sale price (in cents); the §25E credit is 30% of it */
+  salePrice: number;
+
+  /** Date placed in service (YYYY-MM-DD) */
+  placedInServiceDate: string;
+
+  /** Date acquired under a binding contract (YYYY-MM-DD); defaults to placedInServiceDate */
+  acquiredDate?: string;
+
+  /** New vehicles: Credit on the seller's report (in cents); defaults to $7,500 */
+  tentativeCredit?: number;
+
+  /** Credit transferred to the dealer as a reduction of the price */
+  transferredToDealer?: boolean;
+}
+
+export type CleanVehicleIneligibleReason =
+  | 'notPlacedInService' // Not placed in service in the tax year
+  | 'acquiredAfterDeadline' // Acquired after September 30, 2025
+  | 'priceLimit' // MSRP or sale price over the limit
+  | 'incomeLimit'; // MAGI over the limit in both years
+
+/**
+ * Credit for one vehicle
+ */
+export interface CleanVehicleResult {
+  condition: 'new' | 'used';
+  vin?: string;
+  eligible: boolean;
+  ineligibleReason?: CleanVehicleIneligibleReason;
+  credit: number; // Credit for the vehicle before the tax limit (cents)
+  transferredToDealer: boolean;
+  advancePayment: number; // Credit transferred to the dealer (cents)
+  repayment: number; // Advance repaid because of the income limit (cents)
+}
+
+export interface CleanVehicleCreditInput {
+  filingStatus: FilingStatus;
+  taxYear: number;
+  magi: number; // Current year modified AGI (cents)
+  priorYearMagi?: number; // Prior year modified AGI (cents)
+  vehicles: CleanVehiclePurchase[];
+}
+
+export interface CleanVehicleCreditResult {
+  vehicles: CleanVehicleResult[];
+  newVehicleCredit: number; // Part II personal use credit, before the tax limit (cents)
+  usedVehicleCredit: number; // Part III credit, before the tax limit (cents)
+  advancePayments: number; // Credits transferred to dealers (cents)
+  repayment: number; // Part I: Advance payments repaid (cents)
+}
+
+/**
+ * Compute the clean vehicle credits for vehicles placed in service in the year
+ *
+ * @param input Filing status, MAGI for both years and the vehicles
+ * @returns Credits claimed on the return and repayments of dealer advances
+ */
+export function computeCleanVehicleCredit2025(
+  input: CleanVehicleCreditInput
+): CleanVehicleCreditResult {
+  // The lower MAGI of the two years is tested against the limit
+  const magi =
+    input.priorYearMagi !== undefined ? Math.min(input.magi, input.priorYearMagi) : input.magi;
+
+  const vehicles = input.vehicles.map((vehicle): CleanVehicleResult => {
+    const isNew = vehicle.condition === 'new';
+    const credit = isNew
+      ? Math.min(
+          vehicle.tentativeCredit ?? NEW_CLEAN_VEHICLE_2025.maxCredit,
+          NEW_CLEAN_VEHICLE_2025.maxCredit
+        )
+      : Math.min(
+          multiplyCents(vehicle.salePrice, USED_CLEAN_VEHICLE_2025.creditRate),
+          USED_CLEAN_VEHICLE_2025.maxCredit
+        );
+    const magiLimit = isNew
+      ? NEW_CLEAN_VEHICLE_2025.magiLimit[input.filingStatus]
+      : USED_CLEAN_VEHICLE_2025.magiLimit[input.filingStatus];
+    const priceLimit = isNew
+      ? NEW_CLEAN_VEHICLE_2025.msrpLimit[vehicle.vehicleClass ?? 'other']
+      : USED_CLEAN_VEHICLE_2025.salePriceLimit;
+    const price = isNew ? (vehicle.msrp ?? vehicle.salePrice) : vehicle.salePrice;
+    const acquired = vehicle.acquiredDate ?? vehicle.placedInServiceDate;
+
+    let ineligibleReason: CleanVehicleIneligibleReason | undefined;
+    if (!vehicle.placedInServiceDate.startsWith(`${input.taxYear}-`)) {
+      ineligibleReason = 'notPlacedInService';
+    } else if (acquired > CLEAN_VEHICLE_ACQUISITION_DEADLINE) {
+      ineligibleReason = 'acquiredAfterDeadline';
+    } else if (price > priceLimit) {
+      ineligibleReason = 'priceLimit';
+    } else if (magi > magiLimit) {
+      ineligibleReason = 'incomeLimit';
+    }
+
+    const transferredToDealer = vehicle.transferredToDealer === true;
+    const eligible = ineligibleReason === undefined;
+    return {
+      condition: vehicle.condition,
+      ...(vehicle.vin && { vin: vehicle.vin }),
+      eligible,
+      ...(ineligibleReason && { ineligibleReason }),
+      credit: eligible && !transferredToDealer ? credit : 0,
+      transferredToDealer,
+      advancePayment: transferredToDealer ? credit : 0,
+      repayment: transferredToDealer && ineligibleReason === 'incomeLimit' ? credit : 0,
+    };
+  });
+
+  const total = (condition: 'new' | 'used') =>
+    addCents(...vehicles.filter((v) => v.condition === condition).map((v) => v.credit));
+
+  return {
+    vehicles,
+    newVehicleCredit: total('new'),
+    usedVehicleCredit: total('used'),
+    advancePayments: addCents(...vehicles.map((v) => v.advancePayment)),
+    repayment: addCents(...vehicles.map((v) => v.repayment)),
+  };
+}
@@ -1,23 +1,24 @@
 import type { FilingStatus } from '../types';
-import { 
-  EITC_2025, 
-  EITC_INVESTMENT_INCOME_LIMIT_2025, 
-  type EITCQualifyingChildren 
+import {
+  EITC_2025,
+  EITC_INVESTMENT_INCOME_LIMIT_2025,
+  type EITCQualifyingChildren,
+  type EITCTableRow,
 } from '../rules/2025/federal/eitc';
 
 export interface EITCInput {
   filingStatus: FilingStatus;
-  earnedIncome: number;                 // W-2 wages + SE net earnings - cents
-  agi: number;                         // Adjusted Gross Income - cents
+  earnedIncome: number; // W-2 wages + SE net earnings - cents
+  agi: number; // Adjusted Gross Income - cents
   qualifyingChildren: EITCQualifyingChildren;
-  investmentIncome: number;            // Interest, dividends, cap gains, etc. - cents
-  primaryAge?: number;                 // Age of primary taxpayer (optional, for childless EITC)
-  spouseAge?: number;                  // Age of spouse (optional, for MFJ childless EITC)
+  investmentIncome: number; // Interest, dividends, cap gains, etc. - cents
+  primaryAge?: number; // Age of primary taxpayer (optional, for childless EITC)
+  spouseAge?: number; // Age of spouse (optional, for MFJ childless EITC)
 }
 
 export interface EITCResult {
-  eitc: number;                        // EITC amount - cents
-  disqualified: boolean;               // True if disqualified due to investment income
+  eitc: number; // EITC amount - cents
+  disqualified: boolean; // True if disqualified due to investment income
   phase: 'phase-in' | 'plateau' | 'phase-out' | 'zero';
   details: {
     maxCredit: number;
@@ -27,16 +28,42 @@ export interface EITCResult {
   };
 }
 
+/**
+ * Year-specific EITC table and investment income limit (all amounts in cents)
+ */
+export interface EITCParameters {
+  table: Record<EITCQualifyingChildren, EITCTableRow>;
+  investmentIncomeLimit: number;
+}
+
+const EITC_PARAMETERS_2025: EITCParameters = {
+  table: EITC_2025,
+  investmentIncomeLimit: EITC_INVESTMENT_INCOME_LIMIT_2025,
+};
+
 /**
  * Compute Earned Income Tax Credit for 2025
  * Implements precise EITC calculation with investment income test and phase-in/phase-out
  * Source: Rev. Proc. 2024-40 §2.06, IRS Publication 596
+ *
+ * Pass `parameters` to use another year's table.
  */
-export function computeEITC2025(input: EITCInput): EITCResult {
-  const { filingStatus, earnedIncome, agi, qualifyingChildren, investmentIncome, primaryAge, spouseAge } = input;
+export function computeEITC2025(
+  input: EITCInput,
+  parameters: EITCParameters = EITC_PARAMETERS_2025
+): EITCResult {
+  const {
+    filingStatus,
+    earnedIncome,
+    agi,
+    qualifyingChildren,
+    investmentIncome,
+    primaryAge,
+    spouseAge,
+  } = input;
 
   // Step 1: Investment income test - disqualifies if over limit
-  if (investmentIncome > EITC_INVESTMENT_INCOME_LIMIT_2025) {
+  if (investmentIncome > parameters.investmentIncomeLimit) {
     return {
       eitc: 0,
       disqualified: true,
@@ -45,8 +72,8 @@ export function computeEITC2025(input: EITCInput): EITCResult {
         maxCredit: 0,
         incomeUsedForCalculation: 0,
         thresholdUsed: 0,
-        completePhaseoutPoint: 0
-      }
+        completePhaseoutPoint: 0,
+      },
     };
   }
 
@@ -72,8 +99,8 @@ export function computeEITC2025(input: EITCInput): EITCResult {
             maxCredit: 0,
             incomeUsedForCalculation: 0,
             thresholdUsed: 0,
-            completePhaseoutPoint: 0
-          }
+            completePhaseoutPoint: 0,
+          },
         };
       }
     } else {
@@ -87,22 +114,20 @@ export function computeEITC2025(input: EITCInput): EITCResult {
             maxCredit: 0,
             incomeUsedForCalculation: 0,
             thresholdUsed: 0,
-            completePhaseoutPoint: 0
-          }
+            completePhaseoutPoint: 0,
+          },
         };
       }
     }
   }
 
-  const row = EITC_2025[qualifyingChildren];
-  
+  const row = parameters.table[qualifyingChildren];
+
   // Determine phaseout thresholds based on filing status
-  const phaseoutThreshold = filingStatus === 'marriedJointly' 
-    ? row.thresholdPhaseoutMFJ 
-    : row.thresholdPhaseoutOther;
-  const completePhaseout = filingStatus === 'marriedJointly' 
-    ? row.completedPhaseoutMFJ 
-    : row.completedPhaseoutOther;
+  const phaseoutThreshold =
+    filingStatus === 'marriedJointly' ? row.thresholdPhaseoutMFJ : row.thresholdPhaseoutOther;
+  const completePhaseout =
+    filingStatus === 'marriedJointly' ? row.completedPhaseoutMFJ : row.completedPhaseoutOther;
 
   // Use the greater of AGI or earned income for EITC calculation
   const incomeForCalculation = Math.max(agi, earnedIncome);
@@ -125,7 +150,7 @@ export function computeEITC2025(input: EITCInput): EITCResult {
     // Phase-out: Linear reduction to zero
     const phaseoutRange = completePhaseout - phaseoutThreshold;
     const excessIncome = incomeForCalculation - phaseoutThreshold;
-    const phaseoutRatio = 1 - (excessIncome / phaseoutRange);
+    const phaseoutRatio = 1 - excessIncome / phaseoutRange;
     credit = Math.max(0, Math.round(row.maxCredit * phaseoutRatio));
     phase = 'phase-out';
   }
@@ -139,7 +164,7 @@ export function computeEITC2025(input: EITCInput): EITCResult {
       maxCredit: row.maxCredit,
       incomeUsedForCalculation: incomeForCalculation,
       thresholdUsed: phaseoutThreshold,
-      completePhaseoutPoint: completePhaseout
-    }
+      completePhaseoutPoint: completePhaseout,
+    },
   };
 }
@@ -0,0 +1,141 @@
+/**
+ * Credit for the Elderly or the Disabled (Schedule R)
+ *
+ * A person qualifies if they were 65 or older at the end of the year, or
+ * under 65, retired on permanent and total disability and received taxable
+ * disability income.
+ *
+ * Key Rules:
+ * - Initial amount: $5,000 single, HOH or MFJ with one qualifying spouse;
+ *   $7,500 MFJ with both qualifying; $3,750 MFS (only if the spouses lived
+ *   apart all year)
+ * - A qualifying person under 65 counts only their taxable disability income
+ *   (Line 11), not the full initial amount
+ * - Reduced by nontaxable Social Security, pensions and veterans' benefits
+ *   (Line 13c) and by half of AGI over $7,500 ($10,000 MFJ, $5,000 MFS)
+ * - Credit is 15% of what remains, limited to tax after the foreign tax,
+ *   child care and education credits
+ *
+ * Sources:
+ * - IRC §22
+ * - Schedule R Instructions
+ *
+ * @module credits/elderlyDisabled
+ */
+
+import type { FilingStatus } from '../types';
+import { ELDERLY_DISABLED_CREDIT_2025 } from '../rules/2025/federal/elderlyDisabled';
+import { addCents, max0, multiplyCents } from '../util/money';
+
+/**
+ * Schedule R Part I facts for one person
+ */
+export interface ScheduleRPerson {
+  age?: number; // Age at the end of the tax year
+  isPermanentlyDisabled?: boolean; // Retired on permanent and total disability
+  taxableDisabilityIncome?: number; // Disability income included in wages (cents)
+}
+
+export interface ScheduleRInput {
+  filingStatus: FilingStatus;
+  agi: number; // Line 14 (cents)
+  taxpayer: ScheduleRPerson;
+  spouse?: ScheduleRPerson; // MFJ only
+  nontaxableSocialSecurity?: number; // Line 13a (cents)
+  nontaxablePensions?: number; // Line 13b: Pensions, annuities, veterans' and disability benefits excluded from income (cents)
+  livedWithSpouse?: boolean; // MFS only: lived with spouse at any time during the year (no credit)
+}
+
+export interface ScheduleRResult {
+  taxpayerQualifies: boolean;
+  spouseQualifies: boolean;
+  initialAmount: number; // Line 10 (cents)
+  disabilityIncomeLimit?: number; // Line 11, when a qualifying person is under 65 (cents)
+  baseAmount: number; // Line 12 (cents)
+  nontaxableBenefits: number; // Line 13c (cents)
+  agiReduction: number; // Line 17 (cents)
+  totalReduction: number; // Line 18 (cents)
+  creditBeforeLimit: number; // Line 20 (cents)
+  credit: number; // Line 22 (cents)
+}
+
+/**
+ * Compute the credit for the elderly or the disabled
+ *
+ * @param input Ages, disability facts, AGI and nontaxable benefits
+ * @param taxLimit Tax remaining after the foreign tax, child care and education credits (cents)
+ * @returns Schedule R lines and the allowed credit
+ */
+export function computeElderlyDisabledCredit2025(
+  input: ScheduleRInput,
+  taxLimit: number
+): ScheduleRResult {
+  const rules = ELDERLY_DISABLED_CREDIT_2025;
+  const isElderly = (person: ScheduleRPerson | undefined) =>
+    (person?.age ?? 0) >= rules.qualifyingAge;
+  const qualifies = (person: ScheduleRPerson | undefined) =>
+    isElderly(person) ||
+    (person?.isPermanentlyDisabled === true && (person.taxableDisabilityIncome ?? 0) > 0);
+
+  const mfsLivedWithSpouse =
+    input.filingStatus === 'marriedSeparately' && input.livedWithSpouse === true;
+  const taxpayerQualifies = !mfsLivedWithSpouse && qualifies(input.taxpayer);
+  const spouseQualifies = input.filingStatus === 'marriedJointly' && qualifies(input.spouse);
+  const qualifying = [
+    ...(taxpayerQualifies ? [input.taxpayer] : []),
+    ...(spouseQualifies && input.spouse ? [input.spouse] : []),
+  ];
+
+  // Line 10
+  let initialAmount = 0;
+  if (qualifying.length === 2) {
+    initialAmount = rules.initialAmountBothSpouses;
+  } else if (qualifying.length === 1) {
+    initialAmount =
+      input.filingStatus === 'marriedSeparately'
+        ? rules.initialAmountMarriedSeparately
+        : rules.initialAmountPerPerson;
+  }
+
+  // Line 11: A qualifying person under 65 counts only their disability income
+  let disabilityIncomeLimit: number | undefined;
+  if (qualifying.some((person) => !isElderly(person))) {
+    const perPersonAmount =
+      input.filingStatus === 'marriedSeparately'
+        ? rules.initialAmountMarriedSeparately
+        : rules.initialAmountPerPerson;
+    disabilityIncomeLimit = addCents(
+      ...qualifying.map((person) =>
+        isElderly(person) ? perPersonAmount : person.taxableDisabilityIncome
+      )
+    );
+  }
+  const baseAmount =
+    disabilityIncomeLimit !== undefined
+      ? Math.min(initialAmount, disabilityIncomeLimit)
+      : initialAmount;
+
+  // Lines 13-18
+  const nontaxableBenefits = addCents(input.nontaxableSocialSecurity, input.nontaxablePensions);
+  const agiReduction = multiplyCents(
+    max0(input.agi - rules.agiThreshold[input.filingStatus]),
+    rules.agiReductionRate
+  );
+  const totalReduction = addCents(nontaxableBenefits, agiReduction);
+
+  // Lines 19-22
+  const creditBeforeLimit = multiplyCents(max0(baseAmount - totalReduction), rules.creditRate);
+
+  return {
+    taxpayerQualifies,
+    spouseQualifies,
+    initialAmount,
+    ...(disabilityIncomeLimit !== undefined && { disabilityIncomeLimit }),
+    baseAmount,
+    nontaxableBenefits,
+    agiReduction,
+    totalReduction,
+    creditBeforeLimit,
+    credit: Math.min(creditBeforeLimit, max0(taxLimit)),
+  };
+}
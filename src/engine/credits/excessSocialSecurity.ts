@@ -0,0 +1,109 @@
+/**
+ * Excess Social Security Tax Withheld (Schedule 3, Line 11)
+ *
+ * Each employer withholds 6.2% Social Security tax on wages up to the wage
+ * base without knowing about the employee's other jobs. When two or more
+ * employers together withheld more than the maximum, the excess is credited
+ * on the return as a refundable payment.
+ *
+ * Key Rules:
+ * - Computed per person; spouses on a joint return are never combined
+ * - Maximum withholding is 6.2% of the wage base ($10,918.20 for 2025)
+ * - Only applies with more than one employer; a single employer that
+ *   withheld too much must refund the excess itself, so each employer's
+ *   withholding counts up to the maximum
+ * - W-2s with the same employer EIN are one employer; a W-2 without an
+ *   EIN is treated as a separate employer
+ *
+ * Sources:
+ * - IRC §31(b), §6413(c)
+ * - Form 1040 Instructions, Schedule 3 Line 11
+ * - IRS Publication 505, Chapter 3 (Excess Social Security Tax)
+ *
+ * @module credits/excessSocialSecurity
+ */
+
+import type { FormW2 } from '../income/formW2';
+import {
+  EMPLOYEE_FICA_RATES,
+  SS_WAGE_BASE_2025,
+} from '../rules/2025/federal/medicareSocialSecurity';
+import { addCents, max0, multiplyCents } from '../util/money';
+
+export interface ExcessSocialSecurityInput {
+  w2Forms: FormW2[];
+  ssWageBase?: number; // Social Security wage base for the year (cents); defaults to 2025
+}
+
+/**
+ * Excess Social Security tax for one person
+ */
+export interface ExcessSocialSecurityPerson {
+  employers: number; // Number of distinct employers
+  totalWithheld: number; // Box 4 total (cents)
+  excess: number; // Credit (cents)
+  employerOverWithheld: number; // Withheld by single employers above the maximum; not credited (cents)
+}
+
+export interface ExcessSocialSecurityResult {
+  maxWithholding: number; // 6.2% of the wage base (cents)
+  taxpayer: ExcessSocialSecurityPerson;
+  spouse: ExcessSocialSecurityPerson;
+  totalCredit: number; // Schedule 3 Line 11 (cents)
+}
+
+/**
+ * Compute the excess Social Security tax credit for the taxpayer and spouse
+ *
+ * @param input W-2s for both spouses and the wage base
+ * @returns Excess withholding per person and the total credit
+ */
+export function computeExcessSocialSecurity2025(
+  input: ExcessSocialSecurityInput
+): ExcessSocialSecurityResult {
+  const maxWithholding = multiplyCents(
+    input.ssWageBase ?? SS_WAGE_BASE_2025,
+    EMPLOYEE_FICA_RATES.socialSecurity
+  );
+
+  const forPerson = (employee: FormW2['employee']): ExcessSocialSecurityPerson => {
+    const w2s = input.w2Forms.filter((w2) => w2.employee === employee);
+    const withheld = groupW2sByEmployer(w2s).map((group) =>
+      addCents(...group.map((i) => w2s[i]!.socialSecurityTaxWithheld || 0))
+    );
+    const totalWithheld = addCents(...withheld);
+    const employerOverWithheld = addCents(...withheld.map((w) => max0(w - maxWithholding)));
+
+    // Each employer's withholding counts only up to the maximum
+    const creditable = addCents(...withheld.map((w) => Math.min(w, maxWithholding)));
+    const excess = withheld.length > 1 ? max0(creditable - maxWithholding) : 0;
+
+    return { employers: withheld.length, totalWithheld, excess, employerOverWithheld };
+  };
+
+  const taxpayer = forPerson('taxpayer');
+  const spouse = forPerson('spouse');
+
+  return {
+    maxWithholding,
+    taxpayer,
+    spouse,
+    totalCredit: addCents(taxpayer.excess, spouse.excess),
+  };
+}
+
+/**
+ * Group W-2s by person and employer EIN
+ *
+ * @param w2s W-2s for one or both spouses
+ * @returns Indexes into `w2s`, one group per employer
+ */
+export function groupW2sByEmployer(w2s: FormW2[]): number[][] {
+  const groups = new Map<string, number[]>();
+  w2s.forEach((w2, i) => {
+    const ein = (w2.employerEIN || '').replace(/\D/g, '');
+    const key = `${w2.employee}:${ein || `w2-${i}`}`;
+    groups.set(key, [...(groups.get(key) || []), i]);
+  });
+  return Array.from(groups.values());
+}
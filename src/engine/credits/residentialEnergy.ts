@@ -0,0 +1,183 @@
+/**
+ * Residential Energy Credits (Form 5695)
+ *
+ * Part I - Residential clean energy credit (§25D):
+ * - 30% of solar electric, solar water heating, small wind, geothermal heat
+ *   pump and battery storage (3 kWh or more) costs, with no annual cap
+ * - Fuel cells limited to $500 per half kilowatt of capacity
+ * - Limited to tax after other nonrefundable credits; the rest carries
+ *   forward to the next year
+ *
+ * Part II - Energy efficient home improvement credit (§25C):
+ * - 30% of costs, up to $1,200 a year for insulation, doors ($250 each,
+ *   $500 total), windows and skylights ($600), energy property ($600 per
+ *   item) and home energy audits ($150)
+ * - Separate $2,000 a year for heat pumps, heat pump water heaters and
+ *   biomass stoves and boilers
+ * - No carryforward; any amount above the tax limit is lost
+ *
+ * The §25C credit is taken before the §25D credit, so the carryforward is
+ * what §25D cannot use after §25C.
+ *
+ * Sources:
+ * - IRC §25C, §25D
+ * - Form 5695 Instructions
+ *
+ * @module credits/residentialEnergy
+ */
+
+import {
+  ENERGY_EFFICIENT_HOME_IMPROVEMENT_2025,
+  RESIDENTIAL_CLEAN_ENERGY_2025,
+} from '../rules/2025/federal/energyCredits';
+import { addCents, max0, multiplyCents } from '../util/money';
+
+/**
+ * Qualified energy efficiency improvements and property (Form 5695 Part II).
+ * Per-item arrays hold the cost of each item.
+ */
+export interface HomeImprovementCosts {
+  insulationAndAirSealing?: number; // cents
+  exteriorDoors?: number[]; // cents per door
+  windowsAndSkylights?: number; // cents
+  centralAirConditioners?: number[]; // cents per item
+  waterHeaters?: number[]; // Natural gas, propane or oil (cents per item)
+  furnacesAndBoilers?: number[]; // cents per item
+  panelboardUpgrades?: number[]; // Panelboards, subpanels and branch circuits (cents per item)
+  homeEnergyAudit?: number; // cents
+  heatPumps?: number[]; // Electric or natural gas heat pumps and heat pump water heaters (cents per item)
+  biomassStovesAndBoilers?: number[]; // cents per item
+}
+
+/**
+ * Form 5695 input
+ */
+export interface Form5695Input {
+  // Part I: Residential clean energy property costs (cents)
+  solarElectric?: number; // Line 1
+  solarWaterHeating?: number; // Line 2
+  smallWindEnergy?: number; // Line 3
+  geothermalHeatPump?: number; // Line 4
+  batteryStorage?: {
+    cost: number; // Line 5b (cents)
+    capacityKwh: number; // Line 5a: Must be at least 3 kWh
+  };
+  fuelCell?: {
+    cost: number; // Line 7b (cents); main home only
+    kilowattCapacity: number; // Line 9
+  };
+  priorYearCarryforward?: number; // Line 12 (cents)
+
+  // Part II: Energy efficient home improvements
+  homeImprovements?: HomeImprovementCosts;
+}
+
+/**
+ * Form 5695 result
+ */
+export interface Form5695Result {
+  // Part I
+  cleanEnergyCosts: number; // Line 6a + 6b costs before the rate (cents)
+  fuelCellCredit: number; // Line 11 (cents)
+  cleanEnergyCreditBeforeLimit: number; // Line 13 (cents)
+  residentialCleanEnergyCredit: number; // Line 15 (cents)
+  carryforward: number; // Line 16: To next year (cents)
+
+  // Part II
+  annualLimitItems: number; // Items subject to the $1,200 limit, after item limits (cents)
+  heatPumpAndBiomass: number; // Items subject to the $2,000 limit (cents)
+  homeImprovementCreditBeforeLimit: number; // Before the tax limit (cents)
+  energyEfficientHomeImprovementCredit: number; // Line 32 (cents)
+}
+
+/**
+ * Compute both Form 5695 credits
+ *
+ * @param input Form 5695 costs and prior year carryforward
+ * @param taxLimit Tax remaining after other nonrefundable credits (cents)
+ * @returns Allowed credits and the §25D carryforward
+ */
+export function computeResidentialEnergyCredits2025(
+  input: Form5695Input,
+  taxLimit: number
+): Form5695Result {
+  const rules = ENERGY_EFFICIENT_HOME_IMPROVEMENT_2025;
+  const rate = (cost: number | undefined) => multiplyCents(cost || 0, rules.creditRate);
+  const perItem = (costs: number[] | undefined, limit: number) =>
+    addCents(...(costs || []).map((cost) => Math.min(rate(cost), limit)));
+
+  // Part II: §25C with item and annual limits
+  const improvements = input.homeImprovements || {};
+  const doors = Math.min(
+    perItem(improvements.exteriorDoors, rules.exteriorDoorLimitEach),
+    rules.exteriorDoorLimitTotal
+  );
+  const annualLimitItems = Math.min(
+    addCents(
+      rate(improvements.insulationAndAirSealing),
+      doors,
+      Math.min(rate(improvements.windowsAndSkylights), rules.windowsAndSkylightsLimit),
+      perItem(improvements.centralAirConditioners, rules.energyPropertyLimitEach),
+      perItem(improvements.waterHeaters, rules.energyPropertyLimitEach),
+      perItem(improvements.furnacesAndBoilers, rules.energyPropertyLimitEach),
+      perItem(improvements.panelboardUpgrades, rules.energyPropertyLimitEach),
+      Math.min(rate(improvements.homeEnergyAudit), rules.homeEnergyAuditLimit)
+    ),
+    rules.annualLimit
+  );
+  const heatPumpAndBiomass = Math.min(
+    rate(
+      addCents(...(improvements.heatPumps || []), ...(improvements.biomassStovesAndBoilers || []))
+    ),
+    rules.heatPumpAndBiomassLimit
+  );
+  const homeImprovementCreditBeforeLimit = addCents(annualLimitItems, heatPumpAndBiomass);
+  const energyEfficientHomeImprovementCredit = Math.min(
+    homeImprovementCreditBeforeLimit,
+    max0(taxLimit)
+  );
+
+  // Part I: §25D, limited to what is left of the tax after §25C
+  const battery = input.batteryStorage;
+  const batteryCost =
+    battery && battery.capacityKwh >= RESIDENTIAL_CLEAN_ENERGY_2025.minimumBatteryCapacityKwh
+      ? battery.cost
+      : 0;
+  const cleanEnergyCosts = addCents(
+    input.solarElectric,
+    input.solarWaterHeating,
+    input.smallWindEnergy,
+    input.geothermalHeatPump,
+    batteryCost
+  );
+  const fuelCell = input.fuelCell;
+  const fuelCellCredit = fuelCell
+    ? Math.min(
+        multiplyCents(fuelCell.cost, RESIDENTIAL_CLEAN_ENERGY_2025.creditRate),
+        Math.round(
+          fuelCell.kilowattCapacity * 2 * RESIDENTIAL_CLEAN_ENERGY_2025.fuelCellLimitPerHalfKilowatt
+        )
+      )
+    : 0;
+  const cleanEnergyCreditBeforeLimit = addCents(
+    multiplyCents(cleanEnergyCosts, RESIDENTIAL_CLEAN_ENERGY_2025.creditRate),
+    fuelCellCredit,
+    input.priorYearCarryforward
+  );
+  const residentialCleanEnergyCredit = Math.min(
+    cleanEnergyCreditBeforeLimit,
+    max0(taxLimit - energyEfficientHomeImprovementCredit)
+  );
+
+  return {
+    cleanEnergyCosts,
+    fuelCellCredit,
+    cleanEnergyCreditBeforeLimit,
+    residentialCleanEnergyCredit,
+    carryforward: cleanEnergyCreditBeforeLimit - residentialCleanEnergyCredit,
+    annualLimitItems,
+    heatPumpAndBiomass,
+    homeImprovementCreditBeforeLimit,
+    energyEfficientHomeImprovementCredit,
+  };
+}
@@ -0,0 +1,326 @@
+/**
+ * Form 8889: Health Savings Accounts (HSAs)
+ *
+ * Derives the HSA deduction (Schedule 1 Line 13) from coverage months and
+ * contributions, and the income and additional taxes from distributions.
+ *
+ * Key Rules:
+ * - The limit is figured month by month from HDHP coverage on the first
+ *   day of each month ($4,300 self-only, $8,550 family for 2025)
+ * - Last-month rule: eligible on December 1 means eligible for the whole
+ *   year with December's coverage; failing the testing period later adds
+ *   the extra contributions to income plus a 10% additional tax
+ * - Catch-up of $1,000 at age 55, prorated the same way
+ * - Employer contributions (W-2 Box 12 code W) and qualified HSA funding
+ *   distributions use up the limit first; excess employer contributions
+ *   are taxable wages
+ * - When either spouse has family coverage, both are treated as having
+ *   family coverage and share one family limit
+ * - A person with more than one HSA files one Form 8889 with the totals,
+ *   so the limit applies once per person
+ * - Distributions not used for qualified medical expenses are taxable and
+ *   owe a 20% additional tax, except after death, disability or age 65
+ * - Contributions over the limit owe a 6% excise tax (Form 5329 Part VII)
+ *   unless withdrawn by the due date of the return
+ *
+ * Sources:
+ * - IRC §223: Health savings accounts
+ * - IRC §4973(g): Tax on excess HSA contributions
+ * - IRS Publication 969, Form 8889 and Form 5329 Instructions
+ */
+
+import { HSA_LIMITS_2025 } from '../rules/2025/federal/schedule1Adjustments';
+import { addCents, max0, multiplyCents } from '../util/money';
+
+/**
+ * High deductible health plan coverage for one month
+ */
+export type HDHPCoverage = 'selfOnly' | 'family';
+
+/**
+ * One person's HSA activity for the year (one Form 8889)
+ *
+ * Several accounts for the same owner are combined before the limit applies.
+ */
+export interface HSAAccount {
+  /** Account holder (limits and the catch-up are per person) */
+  owner: 'taxpayer' | 'spouse';
+
+  /** HDHP coverage on the first day of each month, January to December (null if not eligible) */
+  coverageByMonth: (HDHPCoverage | null)[];
+
+  /** Line 2: Contributions made by or for the owner, other than by an employer (in cents) */
+  contributions: number;
+
+  /** Line 9: Employer contributions (in cents). Defaults to the owner's W-2 Box 12 code W. */
+  employerContributions?: number;
+
+  /** Line 10: Qualified HSA funding distribution from an IRA (in cents) */
+  qualifiedFundingDistribution?: number;
+
+  /** Line 14a: Total distributions (Form 1099-SA Box 1, in cents) */
+  distributions?: number;
+
+  /** Line 14b: Distributions rolled over to another HSA (in cents) */
+  rollovers?: number;
+
+  /** Line 14b: Excess contributions (and their earnings) withdrawn by the due date (in cents) */
+  excessContributionsWithdrawn?: number;
+
+  /** Line 15: Qualified medical expenses paid from the HSA (in cents) */
+  qualifiedMedicalExpenses?: number;
+
+  /** Line 17a: Distributions after death or disability (no 20% additional tax) */
+  additionalTaxException?: boolean;
+
+  /** Lines 18-19: Amounts included in income for failing the testing period (in cents) */
+  testingPeriodIncome?: number;
+
+  /** Line 6: Share of the family limit when either spouse has family coverage (0-1, default 0.5) */
+  familyLimitShare?: number;
+}
+
+/**
+ * Input for the HSA calculation
+ */
+export interface HSAInput {
+  accounts: HSAAccount[];
+
+  /** Taxpayer age at year end (catch-up at 55, additional tax exception at 65) */
+  taxpayerAge?: number;
+
+  /** Spouse age at year end */
+  spouseAge?: number;
+}
+
+/**
+ * Form 8889 for one account holder
+ */
+export interface Form8889Result {
+  owner: 'taxpayer' | 'spouse';
+  lastMonthRule: boolean; // Eligible on December 1
+  eligibleMonths: number;
+  contributions: number; // Line 2 (cents)
+  annualLimit: number; // Line 3 (cents)
+  limitAfterSpouseShare: number; // Line 6 (cents)
+  catchUp: number; // Line 7 (cents)
+  maxContribution: number; // Line 8 (cents)
+  employerContributions: number; // Line 9 (cents)
+  qualifiedFundingDistribution: number; // Line 10 (cents)
+  deduction: number; // Line 13 (cents)
+  excessContributions: number; // Form 5329 Line 47 (cents)
+  excessEmployerContributions: number; // Taxable as wages (cents)
+  taxableDistributions: number; // Line 16 (cents)
+  additionalTax: number; // Line 17b (cents)
+  testingPeriodIncome: number; // Line 20 (cents)
+  testingPeriodAdditionalTax: number; // Line 21 (cents)
+}
+
+/**
+ * Result of the HSA calculation across both spouses
+ */
+export interface HSAResult {
+  forms: Form8889Result[];
+  deduction: number; // Schedule 1 Line 13 (cents)
+  taxableDistributions: number; // Schedule 1 Line 8f (cents)
+  testingPeriodIncome: number; // Schedule 1 Line 8z (cents)
+  excessEmployerContributions: number; // Form 1040 Line 1f (cents)
+  excessContributions: number; // Form 5329 Line 47 (cents)
+  excessContributionTax: number; // Form 5329 Line 49 (cents)
+  additionalTax: number; // Schedule 2 Lines 17c and 17d (cents)
+}
+
+/**
+ * Compute Form 8889 for each account holder
+ *
+ * @param input HSA accounts and ages
+ * @returns Per-person Form 8889 amounts and the return totals
+ */
+export function computeHSA2025(input: HSAInput): HSAResult {
+  const accounts = combineHSAAccounts(input.accounts);
+
+  // §223(b)(5): Family coverage for either spouse puts both spouses' HSAs
+  // under one family limit for that month
+  const familyMonths = Array.from({ length: 12 }, (_, month) =>
+    accounts.some((account) => account.coverageByMonth[month] === 'family')
+  );
+  const bothSpouses = new Set(accounts.map((account) => account.owner)).size > 1;
+  const sharedFamilyLimit = bothSpouses && familyMonths.some(Boolean);
+
+  const forms = accounts.map((account) =>
+    computeForm8889(
+      sharedFamilyLimit
+        ? {
+            ...account,
+            coverageByMonth: account.coverageByMonth.map((coverage, month) =>
+              coverage && familyMonths[month] ? 'family' : coverage
+            ),
+          }
+        : account,
+      account.owner === 'spouse' ? input.spouseAge : input.taxpayerAge,
+      sharedFamilyLimit
+    )
+  );
+
+  const sum = (field: keyof Omit<Form8889Result, 'owner' | 'lastMonthRule'>) =>
+    addCents(...forms.map((form) => form[field]));
+  const excessContributions = sum('excessContributions');
+
+  return {
+    forms,
+    deduction: sum('deduction'),
+    taxableDistributions: sum('taxableDistributions'),
+    testingPeriodIncome: sum('testingPeriodIncome'),
+    excessEmployerContributions: sum('excessEmployerContributions'),
+    excessContributions,
+    excessContributionTax: multiplyCents(
+      excessContributions,
+      HSA_LIMITS_2025.excessContributionTaxRate
+    ),
+    additionalTax: addCents(sum('additionalTax'), sum('testingPeriodAdditionalTax')),
+  };
+}
+
+/**
+ * Combine accounts with the same owner into one Form 8889
+ *
+ * Amounts are totaled, and coverage for each month is the wider coverage of
+ * the owner's accounts. Employer contributions stay unset when no account
+ * enters them, so they can still default to the owner's W-2s.
+ *
+ * @param accounts HSA accounts as entered
+ * @returns One account per owner, in the order the owners first appear
+ */
+export function combineHSAAccounts(accounts: HSAAccount[]): HSAAccount[] {
+  const byOwner = new Map<HSAAccount['owner'], HSAAccount>();
+  for (const account of accounts) {
+    const combined = byOwner.get(account.owner);
+    byOwner.set(account.owner, combined ? mergeHSAAccounts(combined, account) : account);
+  }
+  return Array.from(byOwner.values());
+}
+
+function mergeHSAAccounts(a: HSAAccount, b: HSAAccount): HSAAccount {
+  const widerCoverage = (month: number): HDHPCoverage | null => {
+    const coverage = [a.coverageByMonth[month], b.coverageByMonth[month]];
+    return coverage.includes('family')
+      ? 'family'
+      : coverage.includes('selfOnly')
+        ? 'selfOnly'
+        : null;
+  };
+
+  return {
+    owner: a.owner,
+    coverageByMonth: Array.from({ length: 12 }, (_, month) => widerCoverage(month)),
+    contributions: addCents(a.contributions, b.contributions),
+    employerContributions:
+      a.employerContributions === undefined && b.employerContributions === undefined
+        ? undefined
+        : addCents(a.employerContributions, b.employerContributions),
+    qualifiedFundingDistribution: addCents(
+      a.qualifiedFundingDistribution,
+      b.qualifiedFundingDistribution
+    ),
+    distributions: addCents(a.distributions, b.distributions),
+    rollovers: addCents(a.rollovers, b.rollovers),
+    excessContributionsWithdrawn: addCents(
+      a.excessContributionsWithdrawn,
+      b.excessContributionsWithdrawn
+    ),
+    qualifiedMedicalExpenses: addCents(a.qualifiedMedicalExpenses, b.qualifiedMedicalExpenses),
+    additionalTaxException: a.additionalTaxException || b.additionalTaxException,
+    testingPeriodIncome: addCents(a.testingPeriodIncome, b.testingPeriodIncome),
+    familyLimitShare: a.familyLimitShare ?? b.familyLimitShare,
+  };
+}
+
+function computeForm8889(
+  account: HSAAccount,
+  age: number | undefined,
+  sharedFamilyLimit: boolean
+): Form8889Result {
+  const months = account.coverageByMonth.slice(0, 12);
+  const eligibleMonths = months.filter((coverage) => coverage).length;
+  const december = months[11] ?? null;
+  const lastMonthRule = december !== null;
+
+  // Part I Line 3: Limitation Chart and Worksheet, or the full limit under the last-month rule
+  const monthlyLimit = (coverage: HDHPCoverage | null) =>
+    coverage === 'family'
+      ? HSA_LIMITS_2025.familyCoverage
+      : coverage === 'selfOnly'
+        ? HSA_LIMITS_2025.selfOnlyCoverage
+        : 0;
+  const annualLimit = lastMonthRule
+    ? monthlyLimit(december)
+    : Math.round(months.reduce((total, coverage) => total + monthlyLimit(coverage), 0) / 12);
+
+  // Line 6: Family limit split between spouses
+  const share = sharedFamilyLimit ? (account.familyLimitShare ?? 0.5) : 1;
+  const limitAfterSpouseShare = multiplyCents(annualLimit, share);
+
+  // Line 7: Catch-up at age 55, prorated unless the last-month rule applies
+  const catchUp =
+    age !== undefined && age >= HSA_LIMITS_2025.catchUpAge
+      ? lastMonthRule
+        ? HSA_LIMITS_2025.catchUpAge55
+        : Math.round((HSA_LIMITS_2025.catchUpAge55 * eligibleMonths) / 12)
+      : 0;
+
+  // Lines 8-13: Deduction limited to what employer contributions leave of the limit
+  const maxContribution = addCents(limitAfterSpouseShare, catchUp);
+  const employerContributions = account.employerContributions || 0;
+  const qualifiedFundingDistribution = account.qualifiedFundingDistribution || 0;
+  const remainingLimit = max0(
+    maxContribution - addCents(employerContributions, qualifiedFundingDistribution)
+  );
+  const contributions = account.contributions || 0;
+  const deduction = Math.min(contributions, remainingLimit);
+
+  // Form 5329 Line 47: Excess not withdrawn by the due date
+  const excessContributions = max0(
+    addCents(contributions, employerContributions, qualifiedFundingDistribution) -
+      maxContribution -
+      (account.excessContributionsWithdrawn || 0)
+  );
+  const excessEmployerContributions = max0(employerContributions - maxContribution);
+
+  // Part II: Distributions
+  const distributions = max0(
+    (account.distributions || 0) - addCents(account.rollovers, account.excessContributionsWithdrawn)
+  );
+  const taxableDistributions = max0(distributions - (account.qualifiedMedicalExpenses || 0));
+  const exempt =
+    account.additionalTaxException ||
+    (age !== undefined && age >= HSA_LIMITS_2025.additionalTaxExceptionAge);
+  const additionalTax = exempt
+    ? 0
+    : multiplyCents(taxableDistributions, HSA_LIMITS_2025.nonqualifiedDistributionTaxRate);
+
+  // Part III: Testing period failures
+  const testingPeriodIncome = account.testingPeriodIncome || 0;
+  const testingPeriodAdditionalTax = account.additionalTaxException
+    ? 0
+    : multiplyCents(testingPeriodIncome, HSA_LIMITS_2025.testingPeriodTaxRate);
+
+  return {
+    owner: account.owner,
+    lastMonthRule,
+    eligibleMonths,
+    contributions,
+    annualLimit,
+    limitAfterSpouseShare,
+    catchUp,
+    maxContribution,
+    employerContributions,
+    qualifiedFundingDistribution,
+    deduction,
+    excessContributions,
+    excessEmployerContributions,
+    taxableDistributions,
+    additionalTax,
+    testingPeriodIncome,
+    testingPeriodAdditionalTax,
+  };
+}
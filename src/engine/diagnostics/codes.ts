@@ -25,6 +25,7 @@ export type DiagnosticCode =
   | 'INPUT-E-003' // Invalid date format
   | 'INPUT-E-004' // Negative value in non-negative field
   | 'INPUT-E-005' // Income exceeds reasonable limits
+  | 'INPUT-E-006' // State residency periods overlap
 
   // Input Validation Warnings
   | 'INPUT-W-001' // Unusual income ratio (e.g., wages >> AGI)
@@ -32,6 +33,9 @@ export type DiagnosticCode =
   | 'INPUT-W-003' // Estimated tax payment seems low
   | 'INPUT-W-004' // Withholding seems unusually high/low
   | 'INPUT-W-005' // Multiple income sources without proper documentation
+  | 'INPUT-W-006' // W-2 Social Security wages exceed the wage base
+  | 'INPUT-W-007' // W-2 Social Security tax withheld is not 6.2% of Social Security wages
+  | 'INPUT-W-008' // W-2 Medicare tax withheld is less than 1.45% of Medicare wages
 
   // Calculation Warnings
   | 'CALC-W-001' // Alternative Minimum Tax (AMT) may apply
@@ -39,7 +43,7 @@ export type DiagnosticCode =
   | 'CALC-W-003' // Additional Medicare Tax applies
   | 'CALC-W-004' // Self-employment tax calculation triggered
   | 'CALC-W-005' // Qualified Business Income (QBI) deduction limited
-  | 'CALC-W-006' // SALT deduction capped at $10,000
+  | 'CALC-W-006' // SALT deduction capped
   | 'CALC-W-007' // Itemized deductions less than standard deduction
   | 'CALC-W-008' // Forced itemized overrides higher standard deduction
 
@@ -47,6 +51,10 @@ export type DiagnosticCode =
   | 'PAYMENT-W-001' // Payments significantly exceed tax liability
   | 'PAYMENT-W-002' // Large refund — possible overwithholding
   | 'PAYMENT-W-003' // Significant balance owed — possible underpayment penalty
+  | 'PAYMENT-W-004' // Estimated tax safe harbor missed — underpayment penalty applies
+  | 'PAYMENT-W-005' // Form 2210 not computed for this tax year
+  | 'PAYMENT-W-006' // Amended return balance due
+  | 'PAYMENT-W-007' // Single employer over-withheld Social Security tax
 
   // NOL Warnings
   | 'NOL-W-001' // Excess NOL carried forward to future years
@@ -63,6 +71,25 @@ export type DiagnosticCode =
   | 'CALC-W-018' // HSA contribution may exceed limits
   | 'CALC-W-019' // NOL deduction limited to 80% of taxable income
 
+  // Income Warnings
+  | 'CALC-W-020' // Social Security benefits partially taxable
+  | 'CALC-W-021' // MFS lived with spouse — $0 Social Security base amount
+  | 'CALC-W-022' // Social Security repayments exceed benefits received
+  | 'CALC-W-023' // Additional tax on early retirement distributions applies
+  | 'CALC-W-024' // Qualified charitable distribution not excludable
+  | 'CALC-W-025' // Passive activity losses suspended and carried forward
+  | 'CALC-W-026' // Rental expenses of a personal-use residence exceed rental income
+  | 'CALC-W-027' // Tax year not supported — closest supported year's rules used
+  | 'CALC-W-028' // Capital loss exceeds the annual limit — excess carries over
+  | 'CALC-W-029' // Wash sale loss disallowed and added to the replacement lot's basis
+  | 'CALC-W-030' // HSA contributions exceed the Form 8889 limit
+  | 'CALC-W-031' // HSA distributions not used for qualified medical expenses
+  | 'CALC-W-032' // Household employment taxes due
+  | 'CALC-W-033' // Child's unearned income taxed at the parent's rate
+  | 'CALC-W-034' // Child's income too high for the parent's election
+  | 'CALC-W-035' // Standard deduction limited for a dependent
+  | 'CALC-W-036' // 2025 amounts used for another tax year
+
   // Calculation Info
   | 'CALC-I-001' // Standard deduction used
   | 'CALC-I-002' // Itemized deductions used
@@ -76,6 +103,13 @@ export type DiagnosticCode =
   | 'CREDIT-W-004' // Cannot claim both AOTC and LLC for same student
   | 'CREDIT-W-005' // EITC requires valid SSN for all dependents
   | 'CREDIT-W-006' // Child Tax Credit requires child under 17
+  | 'CREDIT-W-007' // State credit for taxes paid to another state claimed
+  | 'CREDIT-W-008' // Nonresident state allows reverse credit for resident state tax
+  | 'CREDIT-W-009' // Residential clean energy credit carries forward
+  | 'CREDIT-W-010' // Energy efficient home improvement credit limited by tax
+  | 'CREDIT-W-011' // Clean vehicle does not qualify
+  | 'CREDIT-W-012' // Clean vehicle credit transferred to dealer must be repaid
+  | 'CREDIT-W-013' // Schedule R credit not allowed for MFS living with spouse
 
   // Credit Info
   | 'CREDIT-I-001' // EITC claimed
@@ -92,6 +126,13 @@ export type DiagnosticCode =
   | 'FORM-W-005' // May need to file Schedule SE (self-employment)
   | 'FORM-W-006' // May need to file Form 8959 (Additional Medicare Tax)
   | 'FORM-W-007' // May need to file Form 8960 (Net Investment Income Tax)
+  | 'FORM-W-008' // May need to file Form 5329 (Additional taxes on qualified plans)
+  | 'FORM-W-009' // May need to file Form 8582 (Passive activity loss limitations)
+  | 'FORM-W-010' // May need to file Form 2210 (Underpayment of estimated tax)
+  | 'FORM-W-011' // Joint return cannot be amended to separate returns
+  | 'FORM-W-012' // May need to file Schedule H (Household employment taxes)
+  | 'FORM-W-013' // May need to file Form 8615 (Kiddie tax)
+  | 'FORM-W-014' // May need to file Form 8814 (Parent's election for child's income)
 
   // Filing Info
   | 'FORM-I-001' // Standard Form 1040 sufficient
@@ -108,6 +149,7 @@ export const DIAGNOSTIC_MESSAGES: Record<DiagnosticCode, string> = {
   'INPUT-E-003': 'Invalid date format for {field}: {value}',
   'INPUT-E-004': 'Field {field} cannot be negative',
   'INPUT-E-005': 'Income value {field} exceeds reasonable limit: {value}',
+  'INPUT-E-006': 'Residency period {period} overlaps {other} and was not counted',
 
   // Input Warnings
   'INPUT-W-001': 'Unusual income ratio detected: {description}',
@@ -115,6 +157,12 @@ export const DIAGNOSTIC_MESSAGES: Record<DiagnosticCode, string> = {
   'INPUT-W-003': 'Estimated tax payments ({amount}) may be insufficient',
   'INPUT-W-004': 'Withholding ({amount}) appears unusual for income level',
   'INPUT-W-005': 'Multiple income sources detected - ensure all forms are included',
+  'INPUT-W-006':
+    'W-2 from {employer}: Social Security wages of {actual} exceed the {expected} wage base',
+  'INPUT-W-007':
+    'W-2 from {employer}: Social Security tax withheld of {actual} does not match 6.2% of Social Security wages ({expected})',
+  'INPUT-W-008':
+    'W-2 from {employer}: Medicare tax withheld of {actual} is less than 1.45% of Medicare wages ({expected})',
 
   // Calculation Warnings
   'CALC-W-001': 'Alternative Minimum Tax (AMT) calculation triggered - verify deductions',
@@ -122,7 +170,7 @@ export const DIAGNOSTIC_MESSAGES: Record<DiagnosticCode, string> = {
   'CALC-W-003': 'Additional Medicare Tax (0.9%) applies to {amount} above threshold',
   'CALC-W-004': 'Self-employment tax calculated on {amount} of net profit',
   'CALC-W-005': 'Qualified Business Income deduction limited to {amount}',
-  'CALC-W-006': 'State and local tax (SALT) deduction capped at $10,000',
+  'CALC-W-006': 'State and local tax (SALT) deduction capped at {cap}',
   'CALC-W-007': 'Standard deduction ({stdAmount}) exceeds itemized deductions ({itemAmount})',
   'CALC-W-008':
     'Forced itemized deduction ({itemAmount}) is less than standard deduction ({stdAmount})',
@@ -133,6 +181,14 @@ export const DIAGNOSTIC_MESSAGES: Record<DiagnosticCode, string> = {
   'PAYMENT-W-002': 'Large refund detected ({refund}) — consider adjusting withholding',
   'PAYMENT-W-003':
     'Significant balance owed ({owed}) — may be subject to underpayment penalty (Form 2210)',
+  'PAYMENT-W-004':
+    'Estimated tax safe harbor missed: paid {payments} of {required} required — underpayment penalty {penalty} (Form 2210)',
+  'PAYMENT-W-005':
+    'Underpayment penalty (Form 2210) is only computed for 2025 — review estimated payments for {taxYear} manually',
+  'PAYMENT-W-006':
+    'Amended return shows {owed} due — pay with Form 1040-X to stop further interest and penalties',
+  'PAYMENT-W-007':
+    '{employer} withheld {amount} more Social Security tax than the {max} maximum — ask the employer to refund it; it is not creditable on the return',
 
   // NOL Warnings
   'NOL-W-001': '{carryforward} NOL will carry forward to future years',
@@ -150,6 +206,39 @@ export const DIAGNOSTIC_MESSAGES: Record<DiagnosticCode, string> = {
   'CALC-W-018': 'HSA contribution ({amount}) may exceed annual limits - verify eligibility',
   'CALC-W-019': 'NOL deduction limited to 80% of taxable income: {amount}',
 
+  // Income Warnings
+  'CALC-W-020':
+    'Social Security benefits partially taxable: {taxable} of {benefits} ({percentage})',
+  'CALC-W-021':
+    'Married Filing Separately and lived with spouse - up to 85% of Social Security benefits are taxable',
+  'CALC-W-022':
+    'Social Security repayments exceed benefits by {amount} - may be deductible (see Publication 915)',
+  'CALC-W-023': 'Early distribution additional tax of {tax} applies to {amount} of distributions',
+  'CALC-W-024':
+    'Qualified charitable distribution of {amount} not excluded - owner under age 70½, not an IRA, or over the annual limit',
+  'CALC-W-025':
+    'Passive activity losses of {amount} are not allowed this year and carry forward (special allowance used: {allowance})',
+  'CALC-W-026':
+    'Rental expenses of {amount} for {property} exceed rental income from a personal-use residence and carry forward',
+  'CALC-W-027': 'Tax year {taxYear} is not supported — computed with {rulesYear} rules',
+  'CALC-W-028':
+    'Capital loss deduction limited to {limit}; {shortTerm} short-term and {longTerm} long-term loss carry over to next year',
+  'CALC-W-029': 'Wash sale loss of {amount} on {description} is not deductible this year',
+  'CALC-W-030':
+    'HSA contributions of {contributions} exceed the {limit} limit — withdraw the {excess} excess before the due date to avoid the 6% excise tax (Form 5329)',
+  'CALC-W-031':
+    'HSA distributions of {amount} were not used for qualified medical expenses and are taxable, with {tax} additional tax (Form 8889)',
+  'CALC-W-032':
+    'Household employment taxes of {amount} are due, including {futa} federal unemployment tax (Schedule H)',
+  'CALC-W-033':
+    "{amount} of the child's unearned income is taxed at the parent's rate, adding {tax} of tax (Form 8615)",
+  'CALC-W-034':
+    "A child's interest and dividends of {amount} are {limit} or more, so they cannot be reported on the parent's return; the child must file (Form 8814)",
+  'CALC-W-035':
+    'Standard deduction limited to {amount} because the taxpayer can be claimed as a dependent (earned income plus {addition}, at least {minimum})',
+  'CALC-W-036':
+    '{item}: computed with 2025 amounts because {taxYear} amounts are not registered — review manually',
+
   // Calculation Info
   'CALC-I-001': 'Using standard deduction of {amount}',
   'CALC-I-002': 'Using itemized deductions totaling {amount}',
@@ -163,6 +252,19 @@ export const DIAGNOSTIC_MESSAGES: Record<DiagnosticCode, string> = {
   'CREDIT-W-004': 'Cannot claim both AOTC and LLC for student: {studentName}',
   'CREDIT-W-005': 'EITC requires valid SSN for dependents - verify documentation',
   'CREDIT-W-006': 'Child Tax Credit not available for children 17 or older',
+  'CREDIT-W-007':
+    '{state} credit for taxes paid to {otherState}: {amount} ({otherState} tax {otherTax}, limited to {limit} of {state} tax on {otherState}-source income) — attach the {otherState} return',
+  'CREDIT-W-008':
+    '{state} allows a reverse credit of {amount} for tax paid to {residentState} on {state}-source income; {residentState} gives no credit for {state} tax',
+  'CREDIT-W-009':
+    'Residential clean energy credit of {amount} exceeds the tax limit and carries forward to next year (Form 5695 Line 16)',
+  'CREDIT-W-010':
+    'Energy efficient home improvement credit limited by tax — {amount} cannot be used and does not carry forward',
+  'CREDIT-W-011': 'Clean vehicle {vehicle} does not qualify for the credit: {reason} (Form 8936)',
+  'CREDIT-W-012':
+    'Clean vehicle credit of {amount} transferred to the dealer must be repaid — modified AGI exceeds the limit (Form 8936 Part I)',
+  'CREDIT-W-013':
+    'Credit for the elderly or the disabled is not allowed when filing separately and living with your spouse at any time during the year (Schedule R)',
 
   // Credit Info
   'CREDIT-I-001': 'Earned Income Tax Credit claimed: {amount}',
@@ -179,6 +281,14 @@ export const DIAGNOSTIC_MESSAGES: Record<DiagnosticCode, string> = {
   'FORM-W-005': 'Schedule SE (Self-Employment Tax) required',
   'FORM-W-006': 'Form 8959 (Additional Medicare Tax) required',
   'FORM-W-007': 'Form 8960 (Net Investment Income Tax) required',
+  'FORM-W-008': 'Form 5329 (Additional Taxes on Qualified Plans) required',
+  'FORM-W-009': 'Form 8582 (Passive Activity Loss Limitations) required',
+  'FORM-W-010': 'Form 2210 (Underpayment of Estimated Tax) required',
+  'FORM-W-011':
+    'A joint return cannot be changed to separate returns after the filing due date (Form 1040-X instructions)',
+  'FORM-W-012': 'Schedule H (Household Employment Taxes) required',
+  'FORM-W-013': 'Form 8615 (Tax for Certain Children Who Have Unearned Income) required',
+  'FORM-W-014': "Form 8814 (Parents' Election To Report Child's Interest and Dividends) required",
 
   // Form Info
   'FORM-I-001': 'Standard Form 1040 is sufficient for this return',
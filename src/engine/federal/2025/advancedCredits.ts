@@ -1,29 +1,38 @@
-import { FederalInput2025 } from '../../types';
+import { FederalInput2025, FilingStatus } from '../../types';
 import { CTC_2025, EITC_2025, AOTC_2025, LLC_2025 } from '../../rules/2025/federal/credits';
-import { 
-  addCents, 
-  max0, 
-  multiplyCents 
-} from '../../util/money';
+import { addCents, max0, multiplyCents } from '../../util/money';
+
+/**
+ * Year-specific Child Tax Credit amounts (all amounts in cents)
+ */
+export interface CTCParameters {
+  maxCredit: number;
+  additionalChildCredit: number;
+  phaseOutThresholds: Record<FilingStatus, number>;
+}
 
 /**
  * Calculate Child Tax Credit with sophisticated eligibility and phase-out logic
+ *
+ * `taxYear` sets the year-end used for the under-17 age test.
  */
 export function calculateAdvancedCTC(
   input: FederalInput2025,
   agi: number,
-  taxBeforeCredits: number
+  taxBeforeCredits: number,
+  parameters: CTCParameters = CTC_2025,
+  taxYear = 2025
 ): {
   ctc: number;
   additionalChildTaxCredit: number;
   eligibleChildren: number;
   details: Array<{ name?: string; age: number; eligible: boolean; reason?: string }>;
 } {
-  const currentYear = 2025;
+  const currentYear = taxYear;
   const qualifyingChildren = input.qualifyingChildren;
   const details: Array<{ name?: string; age: number; eligible: boolean; reason?: string }> = [];
   let eligibleChildren = 0;
-  
+
   // Step 1: Determine qualifying children for CTC
   for (const child of qualifyingChildren) {
     const childAge = calculateAge(child.birthDate, currentYear);
@@ -31,11 +40,11 @@ export function calculateAdvancedCTC(
       age: childAge,
       eligible: false,
     };
-    
+
     if (child.name) {
       childDetail.name = child.name;
     }
-    
+
     // CTC eligibility rules
     if (childAge >= 17) {
       childDetail.reason = 'Too old (must be under 17)';
@@ -47,26 +56,26 @@ export function calculateAdvancedCTC(
       childDetail.eligible = true;
       eligibleChildren++;
     }
-    
+
     details.push(childDetail);
   }
-  
+
   // Fallback to legacy dependents count if no detailed children provided
   if (qualifyingChildren.length === 0 && input.dependents > 0) {
     eligibleChildren = input.dependents;
   }
-  
+
   if (eligibleChildren === 0) {
     return { ctc: 0, additionalChildTaxCredit: 0, eligibleChildren: 0, details };
   }
-  
+
   // Step 2: Calculate base credit
-  const baseCredit = CTC_2025.maxCredit * eligibleChildren;
-  
+  const baseCredit = parameters.maxCredit * eligibleChildren;
+
   // Step 3: Apply phase-out based on filing status and AGI
-  const phaseOutThreshold = CTC_2025.phaseOutThresholds[input.filingStatus] || 
-                           CTC_2025.phaseOutThresholds.single;
-  
+  const phaseOutThreshold =
+    parameters.phaseOutThresholds[input.filingStatus] || parameters.phaseOutThresholds.single;
+
   let ctcAfterPhaseOut = baseCredit;
   if (agi > phaseOutThreshold) {
     const excessIncome = agi - phaseOutThreshold;
@@ -74,37 +83,32 @@ export function calculateAdvancedCTC(
     const phaseOutAmount = Math.ceil(excessIncome / 100000) * 5000; // $50 per $1k in cents
     ctcAfterPhaseOut = max0(baseCredit - phaseOutAmount);
   }
-  
+
   // Step 4: Limit non-refundable portion to tax liability
   const ctc = Math.min(ctcAfterPhaseOut, taxBeforeCredits);
-  
+
   // Step 5: Calculate Additional Child Tax Credit (refundable portion)
-  const maxRefundablePerChild = CTC_2025.additionalChildCredit;
+  const maxRefundablePerChild = parameters.additionalChildCredit;
   const maxRefundable = maxRefundablePerChild * eligibleChildren;
   const remainingCredit = ctcAfterPhaseOut - ctc;
-  
+
   // ACTC calculation (simplified - real rules are more complex)
   let additionalChildTaxCredit = 0;
   if (remainingCredit > 0) {
     // Must have earned income of at least $2,500 to qualify for ACTC
-    const earnedIncome = addCents(
-      input.income.wages,
-      input.income.scheduleCNet
-    );
-    
-    if (earnedIncome >= 250000) { // $2,500 in cents
+    const earnedIncome = addCents(input.income.wages, input.income.scheduleCNet);
+
+    if (earnedIncome >= 250000) {
+      // $2,500 in cents
       // 15% of earned income over $2,500, up to remaining credit
-      const actcFromEarnedIncome = multiplyCents(
-        max0(earnedIncome - 250000), 
-        0.15
-      );
+      const actcFromEarnedIncome = multiplyCents(max0(earnedIncome - 250000), 0.15);
       additionalChildTaxCredit = Math.min(
         remainingCredit,
         Math.min(maxRefundable, actcFromEarnedIncome)
       );
     }
   }
-  
+
   return { ctc, additionalChildTaxCredit, eligibleChildren, details };
 }
 
@@ -123,7 +127,7 @@ export function calculateAdvancedEITC(
   details: { phase: 'phase-in' | 'plateau' | 'phase-out' | 'ineligible'; rate?: number };
 } {
   const currentYear = 2025;
-  
+
   // Step 1: Determine number of qualifying children for EITC
   let eligibleChildren = 0;
   if (input.qualifyingChildren.length > 0) {
@@ -131,11 +135,7 @@ export function calculateAdvancedEITC(
       const childAge = calculateAge(child.birthDate, currentYear);
 
       // EITC qualifying child rules (stricter than CTC)
-      if (
-        childAge < 19 ||
-        (childAge < 24 && child.isStudent) ||
-        child.isPermanentlyDisabled
-      ) {
+      if (childAge < 19 || (childAge < 24 && child.isStudent) || child.isPermanentlyDisabled) {
         if (child.monthsLivedWithTaxpayer >= 6) {
           eligibleChildren++;
         }
@@ -144,25 +144,26 @@ export function calculateAdvancedEITC(
   } else if (input.dependents > 0) {
     eligibleChildren = input.dependents;
   }
-  
+
   // Cap at 3 for EITC purposes
   eligibleChildren = Math.min(eligibleChildren, 3);
-  
+
   // Step 2: Age test for taxpayer and spouse (if no qualifying children)
   if (eligibleChildren === 0) {
-    const taxpayerAge = input.primary?.birthDate ? 
-      calculateAge(input.primary.birthDate, currentYear) : 25;
-    
+    const taxpayerAge = input.primary?.birthDate
+      ? calculateAge(input.primary.birthDate, currentYear)
+      : 25;
+
     let spouseAge = 25;
     if (input.spouse?.birthDate) {
       spouseAge = calculateAge(input.spouse.birthDate, currentYear);
     }
-    
+
     // Must be between 25 and 64 (inclusive)
     const taxpayerEligible = taxpayerAge >= 25 && taxpayerAge <= 64;
-    const spouseEligible = input.filingStatus === 'marriedJointly' ? 
-      (spouseAge >= 25 && spouseAge <= 64) : true;
-    
+    const spouseEligible =
+      input.filingStatus === 'marriedJointly' ? spouseAge >= 25 && spouseAge <= 64 : true;
+
     if (!taxpayerEligible || !spouseEligible) {
       return {
         eitc: 0,
@@ -170,18 +171,25 @@ export function calculateAdvancedEITC(
         phaseInAmount: 0,
         plateauAmount: 0,
         phaseOutAmount: 0,
-        details: { phase: 'ineligible' }
+        details: { phase: 'ineligible' },
       };
     }
   }
-  
+
   // Step 3: Get EITC parameters for this filing status and child count
-  const maxCredit = EITC_2025.maxCredits[eligibleChildren as keyof typeof EITC_2025.maxCredits] || 0;
-  const phaseInRate = EITC_2025.phaseInRates[eligibleChildren as keyof typeof EITC_2025.phaseInRates] || 0;
-  const plateauAmount = EITC_2025.plateauAmounts[eligibleChildren as keyof typeof EITC_2025.plateauAmounts] || 0;
-  const phaseOutStart = EITC_2025.phaseOutStarts[input.filingStatus]?.[eligibleChildren as keyof typeof EITC_2025.phaseOutStarts.single] || 0;
-  const phaseOutRate = EITC_2025.phaseOutRates[eligibleChildren as keyof typeof EITC_2025.phaseOutRates] || 0;
-  
+  const maxCredit =
+    EITC_2025.maxCredits[eligibleChildren as keyof typeof EITC_2025.maxCredits] || 0;
+  const phaseInRate =
+    EITC_2025.phaseInRates[eligibleChildren as keyof typeof EITC_2025.phaseInRates] || 0;
+  const plateauAmount =
+    EITC_2025.plateauAmounts[eligibleChildren as keyof typeof EITC_2025.plateauAmounts] || 0;
+  const phaseOutStart =
+    EITC_2025.phaseOutStarts[input.filingStatus]?.[
+      eligibleChildren as keyof typeof EITC_2025.phaseOutStarts.single
+    ] || 0;
+  const phaseOutRate =
+    EITC_2025.phaseOutRates[eligibleChildren as keyof typeof EITC_2025.phaseOutRates] || 0;
+
   if (maxCredit === 0) {
     return {
       eitc: 0,
@@ -189,23 +197,20 @@ export function calculateAdvancedEITC(
       phaseInAmount: 0,
       plateauAmount: 0,
       phaseOutAmount: 0,
-      details: { phase: 'ineligible' }
+      details: { phase: 'ineligible' },
     };
   }
-  
+
   // Step 4: Calculate earned income (wages + self-employment)
-  const earnedIncome = addCents(
-    input.income.wages,
-    input.income.scheduleCNet
-  );
-  
+  const earnedIncome = addCents(input.income.wages, input.income.scheduleCNet);
+
   // Use the smaller of AGI or earned income for EITC calculation
   const eitcIncome = Math.min(agi, earnedIncome);
-  
+
   // Step 5: Calculate EITC amount based on phase
   let eitc = 0;
   let details: { phase: 'phase-in' | 'plateau' | 'phase-out' | 'ineligible'; rate?: number };
-  
+
   if (eitcIncome < plateauAmount) {
     // Phase-in: EITC = income × phase-in rate, up to maximum
     eitc = Math.min(maxCredit, multiplyCents(eitcIncome, phaseInRate));
@@ -221,14 +226,14 @@ export function calculateAdvancedEITC(
     eitc = max0(maxCredit - phaseOutAmount);
     details = { phase: 'phase-out', rate: phaseOutRate };
   }
-  
+
   return {
     eitc,
     eligibleChildren,
     phaseInAmount: eitcIncome <= plateauAmount ? eitc : 0,
     plateauAmount: eitcIncome > plateauAmount && eitcIncome <= phaseOutStart ? eitc : 0,
     phaseOutAmount: eitcIncome > phaseOutStart ? max0(maxCredit - eitc) : 0,
-    details
+    details,
   };
 }
 
@@ -271,13 +276,13 @@ export function calculateAdvancedAOTC(
       aotc: 0,
       refundableAOTC: 0,
       eligibleExpenses: 0,
-      details: educationExpenses.map(exp => ({
+      details: educationExpenses.map((exp) => ({
         studentName: exp.studentName,
         expenses: exp.tuitionAndFees + (exp.booksAndSupplies || 0),
         credit: 0,
         eligible: false,
-        reason: 'Income too high for AOTC'
-      }))
+        reason: 'Income too high for AOTC',
+      })),
     };
   }
 
@@ -325,32 +330,32 @@ export function calculateAdvancedAOTC(
       totalCredit += studentDetail.credit;
       totalEligibleExpenses += totalQualifiedExpenses;
     }
-    
+
     details.push(studentDetail);
   }
-  
+
   // Step 3: Apply phase-out
   if (agi > phaseOutStart && totalCredit > 0) {
     const phaseOutRatio = (phaseOutEnd - agi) / AOTC_2025.phaseOutRange;
     totalCredit = multiplyCents(totalCredit, Math.max(0, phaseOutRatio));
-    
+
     // Update details with phased-out amounts
-    details.forEach(detail => {
+    details.forEach((detail) => {
       if (detail.eligible) {
         detail.credit = multiplyCents(detail.credit, Math.max(0, phaseOutRatio));
       }
     });
   }
-  
+
   // Step 4: Calculate refundable portion (40%)
   const refundableAOTC = multiplyCents(totalCredit, AOTC_2025.refundablePercentage);
   const nonRefundableAOTC = totalCredit - refundableAOTC;
-  
+
   return {
     aotc: nonRefundableAOTC,
     refundableAOTC,
     eligibleExpenses: totalEligibleExpenses,
-    details
+    details,
   };
 }
 
@@ -386,12 +391,12 @@ export function calculateAdvancedLLC(
     return {
       llc: 0,
       eligibleExpenses: 0,
-      details: educationExpenses.map(exp => ({
+      details: educationExpenses.map((exp) => ({
         studentName: exp.studentName,
         expenses: exp.tuitionAndFees + (exp.booksAndSupplies || 0),
         eligible: false,
-        reason: 'Income too high for LLC'
-      }))
+        reason: 'Income too high for LLC',
+      })),
     };
   }
 
@@ -424,25 +429,25 @@ export function calculateAdvancedLLC(
       studentDetail.eligible = true;
       totalEligibleExpenses += totalQualifiedExpenses;
     }
-    
+
     details.push(studentDetail);
   }
-  
+
   // Step 3: Calculate LLC (20% of expenses, up to $10,000 = $2,000 credit max)
   const maxExpenses = LLC_2025.maxExpenses; // $10,000 in cents
   const limitedExpenses = Math.min(totalEligibleExpenses, maxExpenses);
   let llc = multiplyCents(limitedExpenses, LLC_2025.creditRate);
-  
+
   // Step 4: Apply phase-out
   if (agi > phaseOutStart) {
     const phaseOutRatio = (phaseOutEnd - agi) / LLC_2025.phaseOutRange;
     llc = multiplyCents(llc, Math.max(0, phaseOutRatio));
   }
-  
+
   return {
     llc,
     eligibleExpenses: totalEligibleExpenses,
-    details
+    details,
   };
 }
 
@@ -465,4 +470,3 @@ function calculateAge(birthDate: string, currentYear: number): number {
 
   return birthdayThisYear <= today ? age : age - 1;
 }
-
@@ -0,0 +1,2695 @@
+import type {
+  FederalDiagnostics2025,
+  FederalInput2025,
+  FederalPrimaryPerson2025,
+  FederalResult2025,
+  FilingStatus,
+} from '../types';
+import { NIIT_THRESHOLDS_2025 } from '../rules/2025/federal/medicareSocialSecurity';
+
+// Import Schedule 1 adjustment constants
+import {
+  EDUCATOR_EXPENSES_2025,
+  SELF_EMPLOYED_RETIREMENT_PLANS_2025,
+  IRA_DEDUCTION_LIMITS_2025,
+  STUDENT_LOAN_INTEREST_2025,
+  HSA_LIMITS_2025,
+} from '../rules/2025/federal/schedule1Adjustments';
+
+// Import new authoritative calculation modules
+import { computeSETax2025, type SETaxResult } from '../tax/seTax';
+import { computeScheduleH2025, type ScheduleHResult } from '../tax/scheduleH';
+import {
+  computeForm8814Election2025,
+  computeKiddieTax2025,
+  type Form8615Result,
+  type Form8814Result,
+} from '../tax/kiddieTax';
+import { computePreferentialRatesTax2025 } from '../tax/longTermCapitalGains';
+import { calculateRegularTax2025 } from '../tax/regularTax';
+import { computeEITC2025 } from '../credits/eitc2025';
+import { computeAMT2025, type AMTInput } from '../tax/amt';
+
+// Import existing advanced credits (CTC, AOTC, LLC)
+import {
+  calculateAdvancedCTC,
+  calculateAdvancedAOTC,
+  calculateAdvancedLLC,
+} from './2025/advancedCredits';
+
+// Import QBI deduction module
+import { computeQBIDeduction2025, type QBIInput } from '../deductions/qbi';
+
+// Import NOL carryforward module
+import { calculateNOLDeduction, type NOLInput } from '../deductions/nolCarryforward';
+import { combineHSAAccounts, computeHSA2025, type HSAResult } from '../deductions/hsa';
+
+// Import Social Security benefits worksheet
+import {
+  computeTaxableSocialSecurity2025,
+  type SocialSecurityBenefitsResult,
+} from '../income/socialSecurityBenefits';
+
+// Import retirement distributions (Form 1099-R / Form 5329) module
+import {
+  computeRetirementDistributions2025,
+  type RetirementDistributionsResult,
+} from '../income/retirementDistributions';
+
+// Import Schedule E rental and passive activity loss (Form 8582) modules
+import { computeScheduleE2025, type ScheduleEResult } from '../income/scheduleE';
+import {
+  applyCarryoverWorksheet,
+  computeScheduleD2025,
+  type ScheduleDResult,
+} from '../income/scheduleD';
+import { summarizeW2s, validateW2s, type FormW2 } from '../income/formW2';
+import { CAPITAL_LOSS_LIMIT_2025 } from '../rules/2025/federal/capitalGains';
+import {
+  computePassiveActivityLoss2025,
+  type PassiveActivity,
+  type PassiveActivityLossResult,
+} from '../income/passiveActivityLoss';
+
+// Import additional credit modules
+import { computeSaversCredit2025 } from '../credits/saversCredit';
+import { computeChildCareCredit2025 } from '../credits/childCareCredit';
+import { computeForeignTaxCredit2025 } from '../credits/foreignTaxCredit';
+import { computeAdoptionCredit2025 } from '../credits/adoptionCredit';
+import { calculatePTC } from '../credits/premiumTaxCredit';
+import {
+  computeResidentialEnergyCredits2025,
+  type Form5695Result,
+} from '../credits/residentialEnergy';
+import { computeElderlyDisabledCredit2025, type ScheduleRResult } from '../credits/elderlyDisabled';
+import { ELDERLY_DISABLED_CREDIT_2025 } from '../rules/2025/federal/elderlyDisabled';
+import {
+  computeCleanVehicleCredit2025,
+  type CleanVehicleCreditResult,
+  type CleanVehicleIneligibleReason,
+} from '../credits/cleanVehicle';
+import {
+  computeExcessSocialSecurity2025,
+  groupW2sByEmployer,
+  type ExcessSocialSecurityResult,
+} from '../credits/excessSocialSecurity';
+
+// Import Form 2210 underpayment penalty module
+import { calculateForm2210, type EstimatedTaxPayment } from '../penalties/form2210';
+import { ESTIMATED_TAX_DUE_DATES_2025 } from '../rules/2025/federal/estimatedTax';
+
+import { DEFAULT_TAX_YEAR, getTaxYearConfig, type TaxYearConfig } from '../rules/taxYearConfig';
+import { addCents, formatCents, max0, multiplyCents } from '../util/money';
+import { createDiagnostics, addError, addWarning } from '../diagnostics';
+import type { DiagnosticCode } from '../diagnostics/codes';
+import { TaxInputValidator } from '../validation/inputValidation';
+
+/**
+ * Compute federal tax for a tax year using IRS-authoritative constants and methods
+ * Implements precise calculation flow following IRS worksheet order
+ *
+ * Brackets, capital gains breakpoints, standard and additional deductions,
+ * the SALT cap, CTC/EITC amounts and phaseouts, AMT exemptions and the Social
+ * Security wage base come from getTaxYearConfig(taxYear). Schedule 1 limits,
+ * QBI thresholds and the other credits still use 2025 amounts, and Form 2210
+ * is only computed for 2025; returns for other years get a CALC-W-036
+ * warning for each of these they rely on.
+ *
+ * Sources:
+ * - Rev. Proc. 2023-34, 2024-40 and 2025-32 (inflation adjustments)
+ * - IRS Form 1040 instructions
+ * - Schedule SE (self-employment tax)
+ * - Capital gains worksheets
+ *
+ * @param rawInput Taxpayer input data
+ * @param taxYear Tax year to compute (unsupported years use the closest supported year)
+ * @returns Complete federal tax calculation result
+ */
+export function computeFederal(
+  rawInput: FederalInput2025,
+  taxYear: number = DEFAULT_TAX_YEAR
+): FederalResult2025 {
+  const diagnostics = createDiagnostics();
+  const rules = getTaxYearConfig(taxYear);
+  if (!rules.isSupported) {
+    pushWarning(diagnostics, 'CALC-W-027', {
+      field: 'taxYear',
+      context: { taxYear, rulesYear: rules.taxYear },
+      phase: 'input-validation',
+    });
+  }
+  collectInputDiagnostics(rawInput, diagnostics);
+  if (rawInput.w2Forms) {
+    collectW2Diagnostics(rawInput.w2Forms, rules, diagnostics);
+  }
+
+  // === STEP A0: Form 8814 children's interest and dividends on the parent's return ===
+  // Included amounts keep their character: qualified dividends, capital gain
+  // distributions (Schedule D Line 13) and other income (Schedule 1 Line 8z)
+  const form8814 = calculateForm8814Election(rawInput, rules, diagnostics);
+  const electedInput: FederalInput2025 = form8814
+    ? {
+        ...rawInput,
+        income: {
+          ...rawInput.income,
+          dividends: {
+            ...rawInput.income.dividends,
+            qualified: addCents(rawInput.income.dividends.qualified, form8814.qualifiedDividends),
+          },
+          capGainsNet: addCents(rawInput.income.capGainsNet, form8814.capitalGainDistributions),
+          other: {
+            ...rawInput.income.other,
+            otherIncome: addCents(rawInput.income.other.otherIncome, form8814.otherIncome),
+          },
+        },
+      }
+    : rawInput;
+
+  // === STEP A1: Form 8949 / Schedule D from individual dispositions ===
+  // The limited gain or loss replaces capGainsNet for the rest of the return
+  const scheduleD = calculateScheduleD(electedInput, diagnostics);
+  const input: FederalInput2025 = scheduleD
+    ? {
+        ...electedInput,
+        income: { ...electedInput.income, capGainsNet: scheduleD.capitalGainOrLoss },
+      }
+    : electedInput;
+
+  // === STEP A: Calculate Self-Employment Tax (needed for AGI adjustment) ===
+  const seTaxResult = calculateSelfEmploymentTax(input, rules);
+  if (input.income.scheduleCNet !== 0) {
+    pushWarning(diagnostics, 'FORM-W-001', {
+      field: 'income.scheduleCNet',
+      phase: 'self-employment',
+    });
+  }
+  if (seTaxResult.totalSETax > 0) {
+    pushWarning(diagnostics, 'CALC-W-004', {
+      field: 'income.scheduleCNet',
+      context: { amount: formatCents(seTaxResult.netEarningsFromSE) },
+      phase: 'self-employment',
+    });
+    pushWarning(diagnostics, 'FORM-W-005', {
+      field: 'income.scheduleCNet',
+      phase: 'self-employment',
+    });
+  }
+
+  // === STEP B: Calculate Adjusted Gross Income (AGI) ===
+  const { agi, socialSecurity, retirement, hsa, passiveActivities, studentLoanInterestDeduction } =
+    calculateAGI(input, seTaxResult.halfDeduction, rules.taxYear, diagnostics);
+
+  // === STEP C: Calculate Deductions (Standard vs Itemized) ===
+  const deductionResult = calculateDeductions(
+    input,
+    agi,
+    seTaxResult.halfDeduction,
+    rules,
+    diagnostics
+  );
+
+  // === STEP D: Calculate Taxable Income (before QBI deduction) ===
+  const taxableIncomeBeforeQBI = max0(agi - deductionResult.deduction);
+
+  // === STEP D2: Calculate QBI Deduction (§199A) ===
+  // QBI deduction is calculated based on taxable income before QBI,
+  // then subtracted to get final taxable income
+  const qbiResult = calculateQBIDeduction(input, taxableIncomeBeforeQBI);
+  if ((input.qbiBusinesses?.length || 0) > 0 || input.qbiREITPTP) {
+    if (qbiResult.qbiDeduction === 0) {
+      pushWarning(diagnostics, 'CALC-W-005', {
+        field: 'qbiDeduction',
+        context: { amount: formatCents(0) },
+        message: 'Qualified Business Income deduction not available—verify wage/UBIA thresholds',
+        phase: 'qbi',
+      });
+    } else if (qbiResult.isLimitedByOverall) {
+      pushWarning(diagnostics, 'CALC-W-005', {
+        field: 'qbiDeduction',
+        context: { amount: formatCents(qbiResult.qbiDeduction) },
+        phase: 'qbi',
+      });
+    }
+  }
+
+  // === STEP D3: Taxable Income after QBI (before NOL) ===
+  const taxableIncomeBeforeNOL = max0(taxableIncomeBeforeQBI - qbiResult.qbiDeduction);
+
+  // === STEP D4: NOL Deduction ===
+  let nolDeduction = 0;
+  if (input.nolCarryforwards && input.nolCarryforwards.length > 0) {
+    const nolInput: NOLInput = {
+      taxableIncomeBeforeNOL,
+      nolCarryforwards: input.nolCarryforwards,
+      taxYear: rules.taxYear, // 80% limitation applies after 2020 (post-CARES Act)
+      filingStatus: input.filingStatus,
+    };
+    const nolResult = calculateNOLDeduction(nolInput);
+    nolDeduction = nolResult.nolDeduction;
+
+    // Warn about limitation applied based on tax year
+    if (nolResult.limitedByEightyPercent) {
+      pushWarning(diagnostics, 'CALC-W-019', {
+        field: 'nolCarryforwards',
+        context: {
+          amount: formatCents(nolResult.effectiveLimit),
+          limitationType: nolResult.limitationType,
+        },
+        message: `NOL deduction limited to ${nolResult.limitationType} of taxable income ($${formatCents(nolResult.effectiveLimit)})`,
+        phase: 'nol',
+      });
+    }
+
+    // Informational: Note when excess NOL is carried forward
+    if (nolResult.excessNOL > 0) {
+      pushWarning(diagnostics, 'NOL-W-001', {
+        field: 'nolCarryforwards',
+        context: { carryforward: formatCents(nolResult.excessNOL) },
+        message: `$${formatCents(nolResult.excessNOL)} NOL will carry forward to future years`,
+        phase: 'nol',
+      });
+    }
+  }
+
+  // === STEP D5: Final Taxable Income (after NOL deduction) ===
+  const taxableIncome = max0(taxableIncomeBeforeNOL - nolDeduction);
+
+  // === STEP D6: Capital loss carryover, limited by taxable income ===
+  // Worksheet Line 1 is taxable income before it is floored at zero
+  const scheduleDDetails =
+    scheduleD &&
+    calculateCapitalLossCarryover(
+      input,
+      scheduleD,
+      agi - deductionResult.deduction - qbiResult.qbiDeduction - nolDeduction,
+      diagnostics
+    );
+
+  // === STEP E: Calculate Regular Tax + Preferential Rates ===
+  const taxResult = calculateIncomeTax(input, taxableIncome, rules, scheduleD);
+  if (taxResult.capitalGainsDetails) {
+    const preferentialTotal = addCents(
+      taxResult.capitalGainsDetails.at0Percent,
+      taxResult.capitalGainsDetails.at15Percent,
+      taxResult.capitalGainsDetails.at20Percent,
+      taxResult.capitalGainsDetails.at25Percent,
+      taxResult.capitalGainsDetails.at28Percent
+    );
+    if (preferentialTotal > 0) {
+      pushWarning(diagnostics, 'FORM-W-002', { field: 'income.capGainsNet', phase: 'income-tax' });
+    }
+  }
+
+  // === STEP E2: Form 8615 kiddie tax (child's net unearned income at the parent's rate) ===
+  // Form 8814 tax on the children's first $2,700 is added to the parent's tax
+  const kiddieTax = calculateKiddieTax(
+    input,
+    agi,
+    taxableIncome,
+    seTaxResult.halfDeduction,
+    rules,
+    scheduleD,
+    diagnostics
+  );
+  const incomeTax = addCents(
+    kiddieTax ? kiddieTax.tax : taxResult.totalIncomeTax,
+    form8814?.totalTax
+  );
+
+  // === STEP F: Calculate Additional Taxes ===
+  const scheduleH = calculateHouseholdEmploymentTaxes(input, rules, diagnostics);
+  const additionalTaxes = calculateAdditionalTaxes(
+    input,
+    agi,
+    taxableIncome,
+    deductionResult,
+    incomeTax,
+    seTaxResult,
+    retirement,
+    hsa,
+    passiveActivities,
+    scheduleH,
+    rules,
+    diagnostics
+  );
+
+  // === STEP G: Calculate Credits ===
+  const creditsResult = calculateCredits(
+    input,
+    agi,
+    taxableIncome,
+    incomeTax,
+    socialSecurity,
+    rules,
+    diagnostics
+  );
+  const credits = creditsResult.credits;
+
+  // === STEP H: Calculate Final Tax Liability ===
+  const totalNonRefundableCredits = addCents(
+    credits.ctc || 0,
+    credits.aotc || 0,
+    credits.llc || 0,
+    credits.ftc || 0,
+    credits.elderlyDisabled || 0,
+    credits.adoptionCreditNonRefundable || 0,
+    credits.residentialCleanEnergy || 0,
+    credits.energyEfficientHomeImprovement || 0,
+    credits.cleanVehicle || 0,
+    credits.usedCleanVehicle || 0,
+    credits.otherNonRefundable || 0
+  );
+
+  const taxAfterNonRefundableCredits = max0(incomeTax - totalNonRefundableCredits);
+
+  const totalTax = addCents(
+    taxAfterNonRefundableCredits,
+    additionalTaxes.seTax || 0,
+    additionalTaxes.niit || 0,
+    additionalTaxes.medicareSurtax || 0,
+    additionalTaxes.amt || 0,
+    additionalTaxes.earlyDistributionTax || 0,
+    additionalTaxes.hsaAdditionalTax || 0,
+    additionalTaxes.hsaExcessContributionTax || 0,
+    additionalTaxes.householdEmploymentTax || 0,
+    credits.ptcRepayment || 0, // Excess APTC repayment increases tax liability
+    credits.cleanVehicleRepayment || 0 // Dealer advance repaid over the income limit
+  );
+
+  // === STEP I: Calculate Payments and Refund/Owe ===
+  const retirementDistributionWithholding = retirement?.federalWithheld || 0;
+  const totalPayments = addCents(
+    input.payments.federalWithheld,
+    retirementDistributionWithholding,
+    input.payments.estPayments,
+    input.payments.eitcAdvance
+  );
+
+  // Add diagnostic warnings for unusual payment patterns
+  if (totalPayments > 0 && totalTax > 0) {
+    const paymentRatio = totalPayments / totalTax;
+    if (paymentRatio > 1.5) {
+      pushWarning(diagnostics, 'PAYMENT-W-001', {
+        field: 'payments',
+        context: {
+          payments: formatCents(totalPayments),
+          tax: formatCents(totalTax),
+          ratio: (paymentRatio * 100).toFixed(0) + '%',
+        },
+        message: 'Payments significantly exceed tax liability—verify withholding accuracy',
+        phase: 'payments',
+      });
+    }
+  }
+
+  const refundableCredits = addCents(
+    credits.eitc || 0,
+    credits.adoptionCreditRefundable || 0,
+    credits.ptc || 0, // Premium Tax Credit is refundable
+    credits.excessSocialSecurity || 0,
+    credits.otherRefundable || 0
+  );
+
+  // Form 2210: Underpayment of estimated tax penalty (Form 1040 Line 38)
+  const form2210 = calculateEstimatedTaxPenalty(
+    input,
+    rules.taxYear,
+    agi,
+    max0(totalTax - refundableCredits),
+    additionalTaxes.householdEmploymentTax || 0,
+    retirementDistributionWithholding,
+    deductionResult.standardDeduction,
+    diagnostics
+  );
+  const estimatedTaxPenalty = form2210?.totalPenalty || 0;
+
+  const refundOrOwe = addCents(totalPayments, refundableCredits) - totalTax - estimatedTaxPenalty;
+
+  // Warn about large refunds (may indicate overwithholding)
+  if (refundOrOwe > 500000) {
+    // > $5,000
+    pushWarning(diagnostics, 'PAYMENT-W-002', {
+      field: 'refundOrOwe',
+      context: { refund: formatCents(refundOrOwe) },
+      message:
+        'Large refund detected—consider adjusting withholding to avoid interest-free loan to IRS',
+      phase: 'payments',
+    });
+  }
+
+  // Warn about large amounts owed (may trigger underpayment penalty) when
+  // Form 2210 could not be computed (no prior year tax provided)
+  if (!form2210 && refundOrOwe < -100000 && totalPayments < multiplyCents(totalTax, 0.9)) {
+    // Owe > $1,000 and paid < 90%
+    pushWarning(diagnostics, 'PAYMENT-W-003', {
+      field: 'refundOrOwe',
+      context: { owed: formatCents(-refundOrOwe) },
+      message: 'Significant amount owed—may be subject to underpayment penalty (Form 2210)',
+      phase: 'payments',
+    });
+  }
+
+  // === STEP I2: Build Detailed Payment Breakdown ===
+  const paymentBreakdown: import('../types').PaymentBreakdown = {
+    federalWithheld: input.payments.federalWithheld,
+    retirementDistributionWithholding,
+    estimatedPayments: input.payments.estPayments,
+    eitcAdvancePayments: input.payments.eitcAdvance,
+    totalPayments,
+  };
+
+  // === STEP I3: Build Detailed Refundable Credits Breakdown ===
+  const refundableCreditsBreakdown: import('../types').RefundableCreditsBreakdown = {
+    eitc: credits.eitc || 0,
+    additionalChildTaxCredit: creditsResult.actc || 0,
+    aotcRefundable: creditsResult.aotcRefundable || 0,
+    adoptionCreditRefundable: credits.adoptionCreditRefundable || 0,
+    ptc: credits.ptc || 0,
+    excessSocialSecurity: credits.excessSocialSecurity || 0,
+    otherRefundable: credits.otherRefundable || 0,
+    totalRefundableCredits: refundableCredits,
+  };
+
+  // === STEP I4: Build Detailed Refund/Owe Breakdown ===
+  const refundOrOweBreakdown: import('../types').RefundOrOweBreakdown = {
+    totalTax,
+    totalNonRefundableCredits,
+    taxAfterNonRefundableCredits,
+    totalAdditionalTaxes: addCents(
+      additionalTaxes.seTax || 0,
+      additionalTaxes.niit || 0,
+      additionalTaxes.medicareSurtax || 0,
+      additionalTaxes.amt || 0,
+      additionalTaxes.earlyDistributionTax || 0,
+      additionalTaxes.hsaAdditionalTax || 0,
+      additionalTaxes.hsaExcessContributionTax || 0,
+      additionalTaxes.householdEmploymentTax || 0
+    ),
+    totalPayments,
+    totalRefundableCredits: refundableCredits,
+    paymentsAndCredits: addCents(totalPayments, refundableCredits),
+    estimatedTaxPenalty,
+    refundOrOwe,
+  };
+
+  // === STEP J: Parts of the return computed with 2025 amounts ===
+  collectRulesFallbackDiagnostics(input, rules, creditsResult.scheduleR, diagnostics);
+
+  return {
+    taxYear: rules.taxYear,
+    agi,
+    ...(studentLoanInterestDeduction > 0 && { studentLoanInterestDeduction }),
+    ...(socialSecurity && {
+      taxableSocialSecurity: socialSecurity.taxableBenefits,
+      socialSecurityDetails: socialSecurity,
+    }),
+    ...(retirement && {
+      taxableRetirementDistributions: retirement.totalTaxable,
+      retirementDistributionDetails: retirement,
+    }),
+    ...(scheduleDDetails && { scheduleDDetails }),
+    ...(hsa && { hsaDetails: hsa }),
+    ...(scheduleH && { scheduleHDetails: scheduleH }),
+    ...(kiddieTax && { kiddieTaxDetails: kiddieTax }),
+    ...(form8814 && { form8814Details: form8814 }),
+    ...(creditsResult.scheduleR && { scheduleRDetails: creditsResult.scheduleR }),
+    ...(creditsResult.form5695 && { form5695Details: creditsResult.form5695 }),
+    ...(creditsResult.cleanVehicles && { cleanVehicleDetails: creditsResult.cleanVehicles }),
+    ...(creditsResult.excessSocialSecurity && {
+      excessSocialSecurityDetails: creditsResult.excessSocialSecurity,
+    }),
+    ...(passiveActivities && {
+      scheduleEIncome: passiveActivities.totalIncome,
+      ...(passiveActivities.scheduleE && { scheduleEDetails: passiveActivities.scheduleE }),
+      ...(passiveActivities.passiveActivityLoss && {
+        passiveActivityLossDetails: passiveActivities.passiveActivityLoss,
+      }),
+    }),
+    taxableIncome,
+    deductionType: deductionResult.isStandard ? 'standard' : 'itemized',
+    standardDeduction: deductionResult.standardDeduction,
+    // Always include itemizedDeduction if user provided any itemized amounts (for reference)
+    ...(deductionResult.itemizedTotal > 0 && { itemizedDeduction: deductionResult.itemizedTotal }),
+    ...((input.qbiBusinesses?.length || input.qbiREITPTP) && {
+      qbiDeduction: qbiResult.qbiDeduction,
+    }),
+    // Include qbiDetails if there are QBI businesses or REIT/PTP income, even if deduction is 0
+    ...((input.qbiBusinesses?.length || input.qbiREITPTP) && { qbiDetails: qbiResult }),
+    ...(nolDeduction > 0 && { nolDeduction }),
+    taxBeforeCredits: incomeTax,
+    credits,
+    additionalTaxes,
+    amtDetails: additionalTaxes.amtDetails,
+    totalTax,
+    totalPayments,
+    ...(form2210 && { estimatedTaxPenalty, form2210Details: form2210 }),
+    refundOrOwe,
+    paymentBreakdown,
+    refundableCreditsBreakdown,
+    refundOrOweBreakdown,
+    diagnostics,
+  };
+}
+
+/**
+ * Calculate the underpayment of estimated tax penalty (Form 2210)
+ *
+ * Requires the prior year's total tax and AGI for the safe harbors. Without
+ * dated payments, estimated payments are treated as paid in equal amounts on
+ * the four due dates. Schedule AI is used when annualized income is given.
+ */
+function calculateEstimatedTaxPenalty(
+  input: FederalInput2025,
+  taxYear: number,
+  agi: number,
+  currentYearTax: number,
+  householdEmploymentTax: number,
+  retirementDistributionWithholding: number,
+  standardDeduction: number,
+  diagnostics: FederalDiagnostics2025
+) {
+  if (!input.priorYear) {
+    return null;
+  }
+  // Due dates, interest rates and Schedule AI periods are 2025 rule data
+  if (taxYear !== 2025) {
+    pushWarning(diagnostics, 'PAYMENT-W-005', {
+      field: 'priorYear',
+      context: { taxYear },
+      phase: 'payments',
+    });
+    return null;
+  }
+
+  const estimatedPaymentDates: EstimatedTaxPayment[] =
+    input.payments.estimatedPaymentDates ?? splitEstimatedPayments(input.payments.estPayments);
+  const quarterly = ESTIMATED_TAX_DUE_DATES_2025.map((dueDate, i) =>
+    addCents(
+      ...estimatedPaymentDates
+        .filter(
+          (payment) =>
+            payment.date <= dueDate &&
+            (i === 0 || payment.date > ESTIMATED_TAX_DUE_DATES_2025[i - 1]!)
+        )
+        .map((payment) => payment.amount)
+    )
+  );
+  const annualizedIncome = input.form2210?.annualizedIncome;
+  const withholding = addCents(input.payments.federalWithheld, retirementDistributionWithholding);
+
+  const priorYear = input.priorYear;
+  const computePenalty = (tax: number) =>
+    calculateForm2210({
+      currentYearTax: tax,
+      priorYearAGI: priorYear.agi,
+      priorYearTax: priorYear.totalTax,
+      currentYearAGI: agi,
+      filingStatus: input.filingStatus,
+      withholding,
+      estimatedPayments: {
+        q1: quarterly[0] || 0,
+        q2: quarterly[1] || 0,
+        q3: quarterly[2] || 0,
+        q4: quarterly[3] || 0,
+      },
+      estimatedPaymentDates,
+      isFarmerFisherman: input.form2210?.isFarmerFisherman === true,
+      useAnnualizedMethod: annualizedIncome !== undefined,
+      ...(annualizedIncome && { annualizedIncome }),
+      standardDeduction,
+    });
+
+  // Household employment taxes count only if there was income tax withholding
+  // or a penalty would be owed without them (Form 2210 Line 2)
+  let result = computePenalty(max0(currentYearTax - householdEmploymentTax));
+  if (householdEmploymentTax > 0 && (withholding > 0 || result.penaltyApplies)) {
+    result = computePenalty(currentYearTax);
+  }
+
+  if (result.penaltyApplies) {
+    pushWarning(diagnostics, 'PAYMENT-W-004', {
+      field: 'payments',
+      context: {
+        payments: formatCents(result.totalPayments),
+        required: formatCents(result.requiredAnnualPayment),
+        penalty: formatCents(result.totalPenalty),
+      },
+      phase: 'payments',
+    });
+    pushWarning(diagnostics, 'FORM-W-010', { field: 'payments', phase: 'payments' });
+  }
+
+  return result;
+}
+
+/**
+ * Treat undated estimated payments as paid in equal amounts on each due date
+ */
+function splitEstimatedPayments(total: number): EstimatedTaxPayment[] {
+  if (total <= 0) return [];
+  const perQuarter = Math.floor(total / 4);
+  return ESTIMATED_TAX_DUE_DATES_2025.map((date, i) => ({
+    date,
+    amount: i === 3 ? total - perQuarter * 3 : perQuarter,
+  }));
+}
+
+/**
+ * Calculate Self-Employment Tax (Schedule SE)
+ * Must be calculated first as it affects AGI via the deduction
+ */
+function calculateSelfEmploymentTax(input: FederalInput2025, rules: TaxYearConfig) {
+  const { scheduleCNet, wages } = input.income;
+  // W-2 Boxes 3 + 7 and Box 5 when W-2s were entered; Box 1 wages otherwise
+  const w2Summary = input.w2Forms ? summarizeW2s(input.w2Forms) : null;
+
+  if (scheduleCNet <= 0) {
+    return {
+      oasdi: 0,
+      medicare: 0,
+      additionalMedicare: 0,
+      halfDeduction: 0,
+      netEarningsFromSE: 0,
+      totalSETax: 0,
+    };
+  }
+
+  return computeSETax2025({
+    filingStatus: input.filingStatus,
+    seNetProfit: scheduleCNet,
+    w2SocialSecurityWages: w2Summary ? w2Summary.socialSecurityWages : wages,
+    w2MedicareWages: w2Summary ? w2Summary.medicareWages : wages,
+    ssWageBase: rules.getSocialSecurityWageBase(),
+  });
+}
+
+/**
+ * Calculate Adjusted Gross Income with all Schedule 1 adjustments
+ *
+ * Schedule 1 Part II - Adjustments to Income (Lines 11-26)
+ * These "above-the-line" deductions reduce total income to arrive at AGI.
+ *
+ * Taxable Social Security (Form 1040 Line 6b) depends on the adjustments,
+ * and the IRA and student loan phaseouts depend on taxable benefits. Each
+ * phaseout MAGI includes taxable benefits figured with the adjustments
+ * allowed before it (Pub. 590-A Worksheet 1-1, then the IRA deduction for
+ * student loan interest); Line 6b is then figured with the final
+ * adjustments, less the student loan interest deduction.
+ *
+ * Rental real estate and K-1 passive income enter total income after the
+ * Form 8582 passive activity loss limits, in place of the raw K-1 amount.
+ *
+ * When HSA accounts are entered, Form 8889 replaces the HSA deduction and
+ * adds taxable distributions and excess employer contributions to income.
+ *
+ * Source: IRS Schedule 1 (Form 1040), 2025
+ */
+function calculateAGI(
+  input: FederalInput2025,
+  seTaxDeduction: number,
+  taxYear: number,
+  diagnostics: FederalDiagnostics2025
+): {
+  agi: number;
+  socialSecurity: SocialSecurityBenefitsResult | null;
+  retirement: RetirementDistributionsResult | null;
+  hsa: HSAResult | null;
+  passiveActivities: PassiveActivitiesResult | null;
+  studentLoanInterestDeduction: number;
+} {
+  const { income } = input;
+
+  // Form 1040 Lines 4b and 5b: Taxable IRA, pension and annuity distributions
+  const retirement = calculateRetirementDistributions(input, taxYear, diagnostics);
+
+  // Form 8889: HSA deduction, taxable distributions and excess employer contributions
+  const hsa = calculateHSA(input, taxYear, diagnostics);
+
+  // Total income (Form 1040 Lines 1-9), excluding Social Security and passive activities
+  const nonPassiveIncome = addCents(
+    retirement?.totalTaxable || 0,
+    income.wages,
+    income.interest,
+    income.dividends.ordinary,
+    income.dividends.qualified,
+    income.capGainsNet,
+    income.scheduleCNet,
+    income.k1.ordinaryBusinessIncome,
+    income.k1.portfolioIncome,
+    income.other.otherIncome,
+    income.other.royalties,
+    income.other.guaranteedPayments,
+    hsa?.excessEmployerContributions,
+    hsa?.taxableDistributions,
+    hsa?.testingPeriodIncome
+  );
+
+  // Schedule E Part I and Form 8582: Rental real estate and K-1 passive income
+  const passiveActivities = calculatePassiveActivities(
+    input,
+    nonPassiveIncome,
+    seTaxDeduction,
+    hsa,
+    taxYear,
+    diagnostics
+  );
+  const totalIncome = addCents(
+    nonPassiveIncome,
+    passiveActivities ? passiveActivities.totalIncome : income.k1.passiveIncome
+  );
+
+  // Taxable Social Security for a given total of adjustments, which the IRA
+  // and student loan phaseouts need before the final worksheet is figured
+  const taxableSocialSecurityWith = (adjustments: number) =>
+    calculateTaxableSocialSecurity(input, totalIncome, adjustments, createDiagnostics())
+      ?.taxableBenefits || 0;
+
+  // Calculate Schedule 1 Part II Adjustments
+  const schedule1Adjustments = calculateSchedule1Adjustments(
+    input,
+    totalIncome,
+    seTaxDeduction,
+    hsa,
+    taxYear,
+    diagnostics,
+    taxableSocialSecurityWith
+  );
+
+  // Form 1040 Line 6b: Taxable Social Security benefits. Worksheet Line 6
+  // excludes the student loan interest deduction from the adjustments.
+  const socialSecurity = calculateTaxableSocialSecurity(
+    input,
+    totalIncome,
+    max0(
+      schedule1Adjustments.totalAdjustments -
+        (schedule1Adjustments.breakdown.studentLoanInterest || 0)
+    ),
+    diagnostics
+  );
+  const taxableSocialSecurity = socialSecurity?.taxableBenefits || 0;
+
+  return {
+    agi: max0(totalIncome + taxableSocialSecurity - schedule1Adjustments.totalAdjustments),
+    socialSecurity,
+    retirement,
+    hsa,
+    passiveActivities,
+    studentLoanInterestDeduction: schedule1Adjustments.breakdown.studentLoanInterest || 0,
+  };
+}
+
+interface PassiveActivitiesResult {
+  scheduleE: ScheduleEResult | null;
+  passiveActivityLoss: PassiveActivityLossResult | null;
+  totalIncome: number; // Rental and K-1 passive income after limits (cents)
+  netInvestmentIncome: number; // Part of totalIncome that is net investment income (cents)
+}
+
+/**
+ * Calculate Schedule E rental income and apply the Form 8582 passive loss limits
+ *
+ * Form 8582 Line 7 modified AGI excludes passive losses, taxable Social
+ * Security and the IRA, student loan interest and one-half SE tax deductions.
+ * The remaining Schedule 1 adjustments do not depend on income, so they are
+ * taken from a preliminary Schedule 1 pass whose diagnostics are discarded.
+ *
+ * Returns null when there are no rental properties and no K-1 passive loss,
+ * in which case K-1 passive income flows to total income unchanged.
+ */
+function calculatePassiveActivities(
+  input: FederalInput2025,
+  nonPassiveIncome: number,
+  seTaxDeduction: number,
+  hsa: HSAResult | null,
+  taxYear: number,
+  diagnostics: FederalDiagnostics2025
+): PassiveActivitiesResult | null {
+  const k1Passive = input.income.k1.passiveIncome;
+  const options = input.passiveActivityOptions || {};
+  const k1PriorLoss = options.k1PriorYearUnallowedLoss || 0;
+  const properties = input.rentalProperties || [];
+
+  if (properties.length === 0 && k1Passive >= 0 && k1PriorLoss === 0) {
+    return null;
+  }
+
+  const activities: PassiveActivity[] = [];
+  let residenceIncome = 0;
+
+  let scheduleE: ScheduleEResult | null = null;
+  if (properties.length > 0) {
+    scheduleE = computeScheduleE2025({
+      properties,
+      realEstateProfessional: options.realEstateProfessional,
+    });
+    pushWarning(diagnostics, 'FORM-W-003', { field: 'rentalProperties', phase: 'agi' });
+
+    scheduleE.properties.forEach((result, i) => {
+      const property = properties[i]!;
+      const name = property.description || `Rental property ${i + 1}`;
+
+      if (result.disallowedExpenses > 0) {
+        pushWarning(diagnostics, 'CALC-W-026', {
+          field: `rentalProperties[${i}]`,
+          context: { property: name, amount: formatCents(result.disallowedExpenses) },
+          phase: 'agi',
+        });
+      }
+
+      if (result.treatment === 'personalResidence') {
+        // §469(j)(10): A dwelling used as a residence is not a passive activity
+        residenceIncome += result.netIncome;
+      } else if (result.treatment !== 'notReported') {
+        activities.push({
+          name,
+          netIncome: result.netIncome,
+          priorYearUnallowedLoss: property.priorYearUnallowedLoss,
+          activeParticipation: property.activeParticipation !== false,
+          nonpassive: result.treatment === 'nonpassive',
+          disposedOfEntireInterest: property.disposedOfEntireInterest,
+        });
+      }
+    });
+  }
+
+  if (k1Passive !== 0 || k1PriorLoss > 0) {
+    activities.push({
+      name: 'Schedule K-1 passive activities',
+      netIncome: k1Passive,
+      priorYearUnallowedLoss: k1PriorLoss,
+    });
+  }
+
+  let passiveActivityLoss: PassiveActivityLossResult | null = null;
+  if (activities.length > 0) {
+    const preliminary = calculateSchedule1Adjustments(
+      input,
+      nonPassiveIncome,
+      seTaxDeduction,
+      hsa,
+      taxYear,
+      createDiagnostics(),
+      () => 0
+    );
+    const magiAdjustments = max0(
+      preliminary.totalAdjustments -
+        (preliminary.breakdown.iraDeduction || 0) -
+        (preliminary.breakdown.studentLoanInterest || 0) -
+        (preliminary.breakdown.seTaxDeduction || 0)
+    );
+    const passiveIncome = addCents(...activities.map((a) => max0(a.netIncome)));
+
+    passiveActivityLoss = computePassiveActivityLoss2025({
+      filingStatus: input.filingStatus,
+      livedWithSpouse: options.livedWithSpouse,
+      modifiedAGI: max0(nonPassiveIncome + residenceIncome + passiveIncome - magiAdjustments),
+      activities,
+    });
+
+    if (
+      passiveActivityLoss.rentalActiveLoss +
+        passiveActivityLoss.rentalActivePriorLoss +
+        passiveActivityLoss.otherPassiveLoss +
+        passiveActivityLoss.otherPassivePriorLoss >
+      0
+    ) {
+      pushWarning(diagnostics, 'FORM-W-009', { field: 'rentalProperties', phase: 'agi' });
+    }
+    if (passiveActivityLoss.suspendedLossCarryforward > 0) {
+      pushWarning(diagnostics, 'CALC-W-025', {
+        field: 'rentalProperties',
+        context: {
+          amount: formatCents(passiveActivityLoss.suspendedLossCarryforward),
+          allowance: formatCents(passiveActivityLoss.specialAllowance),
+        },
+        phase: 'agi',
+      });
+    }
+  }
+
+  const totalIncome = residenceIncome + (passiveActivityLoss?.totalIncome || 0);
+  return {
+    scheduleE,
+    passiveActivityLoss,
+    totalIncome,
+    // §1411(c)(1)(A): Rents are net investment income unless the real estate
+    // professional's rentals are a trade or business
+    netInvestmentIncome: totalIncome - (passiveActivityLoss?.realEstateProfessionalIncome || 0),
+  };
+}
+
+/**
+ * Calculate taxable retirement distributions from Forms 1099-R
+ */
+function calculateRetirementDistributions(
+  input: FederalInput2025,
+  taxYear: number,
+  diagnostics: FederalDiagnostics2025
+): RetirementDistributionsResult | null {
+  if (!input.retirementDistributions || input.retirementDistributions.length === 0) {
+    return null;
+  }
+
+  // Age at year end, in fractional years, for the QCD age 70½ test
+  const calculateAge = (birthDate: string | undefined): number | undefined => {
+    if (!birthDate) return undefined;
+    const parts = birthDate.split('-');
+    const birthYear = parseInt(parts[0] || '0', 10);
+    const birthMonth = parseInt(parts[1] || '1', 10);
+    return taxYear - birthYear + (12 - birthMonth) / 12;
+  };
+
+  const taxpayerAge = calculateAge(input.primary?.birthDate);
+  const spouseAge = calculateAge(input.spouse?.birthDate);
+
+  const result = computeRetirementDistributions2025({
+    distributions: input.retirementDistributions,
+    ...(taxpayerAge !== undefined && { taxpayerAge }),
+    ...(spouseAge !== undefined && { spouseAge }),
+  });
+
+  if (result.qcdDisallowed > 0) {
+    pushWarning(diagnostics, 'CALC-W-024', {
+      field: 'retirementDistributions',
+      context: { amount: formatCents(result.qcdDisallowed) },
+      phase: 'agi',
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Calculate Form 8889 for each HSA account holder
+ *
+ * Employer contributions not entered on an account come from the owner's
+ * W-2 Box 12 code W, or from adjustments.hsaEmployerContributions when the
+ * return has a single account holder and no W-2s.
+ */
+function calculateHSA(
+  input: FederalInput2025,
+  taxYear: number,
+  diagnostics: FederalDiagnostics2025
+): HSAResult | null {
+  if (!input.hsaAccounts || input.hsaAccounts.length === 0) {
+    return null;
+  }
+
+  const calculateAge = (birthDate: string | undefined): number | undefined => {
+    if (!birthDate) return undefined;
+    const birthYear = parseInt(birthDate.split('-')[0] || '0', 10);
+    return taxYear - birthYear;
+  };
+  const taxpayerAge = calculateAge(input.primary?.birthDate);
+  const spouseAge = calculateAge(input.spouse?.birthDate);
+
+  // One Form 8889 per person, so W-2 employer contributions are counted once
+  const combined = combineHSAAccounts(input.hsaAccounts);
+  const employerContributions = (owner: 'taxpayer' | 'spouse'): number => {
+    if (input.w2Forms) {
+      return summarizeW2s(input.w2Forms.filter((w2) => w2.employee === owner))
+        .hsaEmployerContributions;
+    }
+    return combined.length === 1 ? input.adjustments.hsaEmployerContributions || 0 : 0;
+  };
+
+  const accounts = combined.map((account) => ({
+    ...account,
+    employerContributions: account.employerContributions ?? employerContributions(account.owner),
+  }));
+  const result = computeHSA2025({
+    accounts,
+    ...(taxpayerAge !== undefined && { taxpayerAge }),
+    ...(spouseAge !== undefined && { spouseAge }),
+  });
+
+  result.forms.forEach((form) => {
+    const index = input.hsaAccounts!.findIndex((account) => account.owner === form.owner);
+    if (form.excessContributions > 0) {
+      pushWarning(diagnostics, 'CALC-W-030', {
+        field: `hsaAccounts[${index}].contributions`,
+        context: {
+          contributions: formatCents(
+            addCents(
+              form.contributions,
+              form.employerContributions,
+              form.qualifiedFundingDistribution
+            )
+          ),
+          limit: formatCents(form.maxContribution),
+          excess: formatCents(form.excessContributions),
+        },
+        phase: 'agi',
+      });
+    }
+    if (form.taxableDistributions > 0) {
+      pushWarning(diagnostics, 'CALC-W-031', {
+        field: `hsaAccounts[${index}].distributions`,
+        context: {
+          amount: formatCents(form.taxableDistributions),
+          tax: formatCents(form.additionalTax),
+        },
+        phase: 'agi',
+      });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Calculate taxable Social Security benefits (Social Security Benefits Worksheet)
+ *
+ * @param adjustments - Schedule 1 adjustments that reduce provisional income (Worksheet Line 6)
+ */
+function calculateTaxableSocialSecurity(
+  input: FederalInput2025,
+  totalIncome: number,
+  adjustments: number,
+  diagnostics: FederalDiagnostics2025
+): SocialSecurityBenefitsResult | null {
+  const benefits = input.income.socialSecurity;
+  if (!benefits) return null;
+
+  const result = computeTaxableSocialSecurity2025({
+    filingStatus: input.filingStatus,
+    grossBenefits: benefits.grossBenefits,
+    benefitsRepaid: benefits.benefitsRepaid,
+    livedWithSpouse: benefits.livedWithSpouse,
+    otherIncome: totalIncome,
+    taxExemptInterest: input.income.taxExemptInterest,
+    adjustments,
+  });
+
+  if (result.excessRepayment > 0) {
+    pushWarning(diagnostics, 'CALC-W-022', {
+      field: 'income.socialSecurity.benefitsRepaid',
+      context: { amount: formatCents(result.excessRepayment) },
+      phase: 'agi',
+    });
+  }
+
+  if (result.mfsLivedWithSpouse && result.taxableBenefits > 0) {
+    pushWarning(diagnostics, 'CALC-W-021', {
+      field: 'income.socialSecurity.livedWithSpouse',
+      phase: 'agi',
+    });
+  } else if (result.taxableBenefits > 0) {
+    pushWarning(diagnostics, 'CALC-W-020', {
+      field: 'income.socialSecurity',
+      context: {
+        taxable: formatCents(result.taxableBenefits),
+        benefits: formatCents(result.netBenefits),
+        percentage: (result.taxablePercentage * 100).toFixed(1) + '%',
+      },
+      phase: 'agi',
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Calculate all Schedule 1 Part II adjustments to income
+ * Returns the total adjustments and breakdown for diagnostics
+ *
+ * The IRA and student loan interest phaseouts use modified AGI: total
+ * income plus taxable Social Security, less the other adjustments. Taxable
+ * Social Security is figured without the IRA deduction for the IRA
+ * phaseout (Pub 590-A Appendix B, Worksheet 1) and with it for the student
+ * loan interest phaseout.
+ *
+ * @param taxableSocialSecurityWith - Taxable Social Security given the adjustments that reduce provisional income
+ */
+function calculateSchedule1Adjustments(
+  input: FederalInput2025,
+  totalIncome: number,
+  seTaxDeduction: number,
+  hsa: HSAResult | null,
+  taxYear: number,
+  diagnostics: FederalDiagnostics2025,
+  taxableSocialSecurityWith: (adjustments: number) => number
+): { totalAdjustments: number; breakdown: Record<string, number> } {
+  const { adjustments, filingStatus } = input;
+  const breakdown: Record<string, number> = {};
+
+  // Line 11: Educator expenses (max $300 per educator, $600 if both)
+  const requestedEducator = adjustments.educatorExpenses || 0;
+  const maxEducator = EDUCATOR_EXPENSES_2025.maxDeductionBothSpouses;
+  const educatorExpenses = Math.min(requestedEducator, maxEducator);
+  breakdown.educatorExpenses = educatorExpenses;
+  if (requestedEducator > maxEducator) {
+    pushWarning(diagnostics, 'CALC-W-010', {
+      field: 'adjustments.educatorExpenses',
+      context: { max: formatCents(maxEducator), requested: formatCents(requestedEducator) },
+      phase: 'agi',
+    });
+  }
+
+  // Line 12: Certain business expenses (reservists, performers, fee-basis officials)
+  breakdown.businessExpenses = adjustments.businessExpenses || 0;
+
+  // Line 13: HSA deduction (Form 8889 when HSA accounts are entered)
+  const hsaDeduction = hsa ? hsa.deduction : adjustments.hsaDeduction || 0;
+  breakdown.hsaDeduction = hsaDeduction;
+  // Without Form 8889, warn if HSA seems high; employer contributions count toward the limit
+  const hsaContributions = addCents(hsaDeduction, adjustments.hsaEmployerContributions);
+  if (!hsa && hsaContributions > HSA_LIMITS_2025.familyCoverage + HSA_LIMITS_2025.catchUpAge55) {
+    pushWarning(diagnostics, 'CALC-W-018', {
+      field: 'adjustments.hsaDeduction',
+      context: { amount: formatCents(hsaContributions) },
+      phase: 'agi',
+    });
+  }
+
+  // Line 14: Moving expenses for Armed Forces
+  breakdown.movingExpensesMilitary = adjustments.movingExpensesMilitary || 0;
+
+  // Line 15: Deductible part of SE tax (calculated automatically)
+  breakdown.seTaxDeduction = seTaxDeduction;
+
+  // Line 16: Self-employed SEP, SIMPLE, and qualified plans
+  const requestedRetirement = adjustments.selfEmployedRetirement || 0;
+  const netSEIncome = max0(input.income.scheduleCNet - seTaxDeduction);
+  const sepSimpleLimit = calculateSEPSimpleLimit(netSEIncome, requestedRetirement);
+  breakdown.selfEmployedRetirement = sepSimpleLimit;
+  if (requestedRetirement > 0 && sepSimpleLimit < requestedRetirement) {
+    pushWarning(diagnostics, 'CALC-W-015', {
+      field: 'adjustments.selfEmployedRetirement',
+      context: { allowed: formatCents(sepSimpleLimit) },
+      phase: 'agi',
+    });
+  }
+
+  // Line 17: Self-employed health insurance deduction
+  const requestedHealthIns = adjustments.selfEmployedHealthInsurance || 0;
+  const seHealthInsurance = calculateSEHealthInsuranceDeduction(
+    requestedHealthIns,
+    input.income.scheduleCNet,
+    seTaxDeduction
+  );
+  breakdown.selfEmployedHealthInsurance = seHealthInsurance;
+  if (requestedHealthIns > 0 && seHealthInsurance < requestedHealthIns) {
+    pushWarning(diagnostics, 'CALC-W-016', {
+      field: 'adjustments.selfEmployedHealthInsurance',
+      context: { allowed: formatCents(seHealthInsurance) },
+      phase: 'agi',
+    });
+  }
+
+  // Line 18a: Alimony paid (only for pre-2019 divorce decrees)
+  const requestedAlimony = adjustments.alimonyPaid || 0;
+  const alimonyDeduction = calculateAlimonyDeduction(adjustments);
+  breakdown.alimonyPaid = alimonyDeduction;
+  if (requestedAlimony > 0 && alimonyDeduction === 0) {
+    pushWarning(diagnostics, 'CALC-W-017', {
+      field: 'adjustments.alimonyPaid',
+      phase: 'agi',
+    });
+  }
+
+  // Line 19: Penalty on early withdrawal of savings (fully deductible)
+  breakdown.earlyWithdrawalPenalty = adjustments.earlyWithdrawalPenalty || 0;
+
+  // Line 23: Archer MSA deduction (grandfathered accounts only)
+  breakdown.archerMsaDeduction = adjustments.archerMsaDeduction || 0;
+
+  // Line 24: Other adjustments
+  breakdown.otherAdjustments = adjustments.otherAdjustments || 0;
+
+  // Adjustments other than the IRA and student loan interest deductions
+  const magiAdjustments = addCents(
+    breakdown.educatorExpenses,
+    breakdown.businessExpenses,
+    breakdown.hsaDeduction,
+    breakdown.movingExpensesMilitary,
+    breakdown.seTaxDeduction,
+    breakdown.selfEmployedRetirement,
+    breakdown.selfEmployedHealthInsurance,
+    breakdown.alimonyPaid,
+    breakdown.earlyWithdrawalPenalty,
+    breakdown.archerMsaDeduction,
+    breakdown.otherAdjustments
+  );
+
+  // Line 20: IRA deduction (subject to income phaseouts if covered by plan)
+  const requestedIRA = adjustments.iraDeduction || 0;
+  const iraMAGI = totalIncome + taxableSocialSecurityWith(magiAdjustments) - magiAdjustments;
+  const iraDeduction = calculateIRADeduction(input, iraMAGI, taxYear);
+  breakdown.iraDeduction = iraDeduction;
+  if (requestedIRA > 0 && iraDeduction === 0) {
+    pushWarning(diagnostics, 'CALC-W-012', {
+      field: 'adjustments.iraDeduction',
+      context: {
+        threshold: formatCents(IRA_DEDUCTION_LIMITS_2025.coveredByPlan.single.noDeduction),
+      },
+      phase: 'agi',
+    });
+  } else if (requestedIRA > 0 && iraDeduction < requestedIRA) {
+    pushWarning(diagnostics, 'CALC-W-011', {
+      field: 'adjustments.iraDeduction',
+      context: { requested: formatCents(requestedIRA), allowed: formatCents(iraDeduction) },
+      phase: 'agi',
+    });
+  }
+
+  // Line 21: Student loan interest deduction (max $2,500, subject to phaseout)
+  const requestedSLI = adjustments.studentLoanInterest || 0;
+  const withIRA = magiAdjustments + iraDeduction;
+  const studentLoanDeduction = calculateStudentLoanDeduction(
+    requestedSLI,
+    totalIncome + taxableSocialSecurityWith(withIRA) - withIRA,
+    filingStatus
+  );
+  breakdown.studentLoanInterest = studentLoanDeduction;
+  if (requestedSLI > 0 && filingStatus === 'marriedSeparately') {
+    pushWarning(diagnostics, 'CALC-W-014', {
+      field: 'adjustments.studentLoanInterest',
+      phase: 'agi',
+    });
+  } else if (requestedSLI > 0 && studentLoanDeduction < requestedSLI && studentLoanDeduction > 0) {
+    pushWarning(diagnostics, 'CALC-W-013', {
+      field: 'adjustments.studentLoanInterest',
+      context: { requested: formatCents(requestedSLI), allowed: formatCents(studentLoanDeduction) },
+      phase: 'agi',
+    });
+  }
+
+  const totalAdjustments = addCents(
+    magiAdjustments,
+    breakdown.iraDeduction,
+    breakdown.studentLoanInterest
+  );
+
+  return { totalAdjustments, breakdown };
+}
+
+/**
+ * Calculate SEP/SIMPLE/Solo 401(k) deduction limit
+ * Limited by net SE income after SE tax deduction
+ */
+function calculateSEPSimpleLimit(netSEIncome: number, requestedContribution: number): number {
+  if (netSEIncome <= 0 || requestedContribution <= 0) return 0;
+
+  // Maximum contribution is 25% of net SE income or $69,000 for 2025
+  const maxContribution = Math.min(
+    multiplyCents(netSEIncome, 0.25),
+    SELF_EMPLOYED_RETIREMENT_PLANS_2025.sepIRA.maxContribution2025
+  );
+
+  return Math.min(requestedContribution, maxContribution);
+}
+
+/**
+ * Calculate self-employed health insurance deduction
+ * Limited to net profit from business (after SE tax deduction)
+ */
+function calculateSEHealthInsuranceDeduction(
+  premiumsPaid: number,
+  scheduleCNet: number,
+  seTaxDeduction: number
+): number {
+  if (premiumsPaid <= 0 || scheduleCNet <= 0) return 0;
+
+  // Limited to net profit after SE tax deduction
+  const netProfit = max0(scheduleCNet - seTaxDeduction);
+  return Math.min(premiumsPaid, netProfit);
+}
+
+/**
+ * Calculate alimony paid deduction
+ * Only deductible for divorce decrees finalized before January 1, 2019
+ */
+function calculateAlimonyDeduction(adjustments: FederalInput2025['adjustments']): number {
+  const alimonyPaid = adjustments.alimonyPaid || 0;
+  const divorceYear = adjustments.divorceYear;
+
+  if (alimonyPaid <= 0) return 0;
+
+  // TCJA eliminated alimony deduction for post-2018 divorces
+  if (divorceYear === undefined || divorceYear >= 2019) {
+    return 0; // Not deductible for divorces after 2018
+  }
+
+  return alimonyPaid;
+}
+
+/**
+ * Calculate IRA deduction with income phaseouts
+ * Phaseouts apply if taxpayer (or spouse for joint filers) is covered by workplace plan
+ */
+function calculateIRADeduction(input: FederalInput2025, magi: number, taxYear: number): number {
+  const { adjustments, filingStatus, primary, spouse } = input;
+  const contribution = adjustments.iraDeduction || 0;
+
+  if (contribution <= 0) return 0;
+
+  // Calculate age for catch-up eligibility
+  const calculateAge = (birthDate: string | undefined): number => {
+    if (!birthDate) return 40; // Default to non-catch-up age
+    const parts = birthDate.split('-');
+    const birthYear = parseInt(parts[0] || '0', 10);
+    return taxYear - birthYear;
+  };
+
+  const primaryAge = calculateAge(primary?.birthDate);
+  const maxContribution =
+    primaryAge >= 50
+      ? IRA_DEDUCTION_LIMITS_2025.contributionLimit + IRA_DEDUCTION_LIMITS_2025.catchUpAge50
+      : IRA_DEDUCTION_LIMITS_2025.contributionLimit;
+
+  // Cap contribution at maximum
+  const cappedContribution = Math.min(contribution, maxContribution);
+
+  // If not covered by workplace plan, full deduction allowed
+  const isCoveredByPlan = adjustments.iraContributorCoveredByPlan ?? false;
+  const spouseCoveredByPlan = adjustments.iraSpouseCoveredByPlan ?? false;
+
+  if (!isCoveredByPlan && !spouseCoveredByPlan) {
+    return cappedContribution;
+  }
+
+  // Apply phaseout based on filing status and coverage
+  const phaseoutRanges = isCoveredByPlan
+    ? IRA_DEDUCTION_LIMITS_2025.coveredByPlan
+    : IRA_DEDUCTION_LIMITS_2025.spouseNotCovered;
+
+  const range = getPhaseoutRange(filingStatus, phaseoutRanges);
+  if (!range) return cappedContribution;
+
+  return applyPhaseout(cappedContribution, magi, range.fullDeduction, range.noDeduction);
+}
+
+/**
+ * Calculate student loan interest deduction with phaseout
+ * Maximum $2,500, phases out based on MAGI
+ */
+function calculateStudentLoanDeduction(
+  interestPaid: number,
+  magi: number,
+  filingStatus: FilingStatus
+): number {
+  if (interestPaid <= 0) return 0;
+
+  // MFS cannot claim student loan interest deduction
+  if (filingStatus === 'marriedSeparately') return 0;
+
+  // Cap at maximum deduction
+  const maxDeduction = STUDENT_LOAN_INTEREST_2025.maxDeduction;
+  const cappedInterest = Math.min(interestPaid, maxDeduction);
+
+  // Get phaseout range for filing status
+  const phaseoutRange =
+    filingStatus === 'marriedJointly'
+      ? STUDENT_LOAN_INTEREST_2025.phaseOut.marriedJointly
+      : STUDENT_LOAN_INTEREST_2025.phaseOut.single;
+
+  return applyPhaseout(cappedInterest, magi, phaseoutRange.start, phaseoutRange.end);
+}
+
+/**
+ * Apply income-based phaseout to a deduction
+ */
+function applyPhaseout(
+  deduction: number,
+  income: number,
+  phaseoutStart: number,
+  phaseoutEnd: number
+): number {
+  if (income <= phaseoutStart) return deduction;
+  if (income >= phaseoutEnd) return 0;
+
+  // Calculate proportional reduction
+  const phaseoutRange = phaseoutEnd - phaseoutStart;
+  const incomeOverThreshold = income - phaseoutStart;
+  const reductionRatio = incomeOverThreshold / phaseoutRange;
+  const reduction = multiplyCents(deduction, reductionRatio);
+
+  return max0(deduction - reduction);
+}
+
+/**
+ * Get phaseout range for IRA deduction based on filing status
+ */
+function getPhaseoutRange(
+  filingStatus: FilingStatus,
+  ranges:
+    | typeof IRA_DEDUCTION_LIMITS_2025.coveredByPlan
+    | typeof IRA_DEDUCTION_LIMITS_2025.spouseNotCovered
+): { fullDeduction: number; noDeduction: number } | null {
+  // Check if this is the spouseNotCovered ranges (has different structure)
+  if ('fullDeduction' in ranges && 'noDeduction' in ranges) {
+    return ranges as { fullDeduction: number; noDeduction: number };
+  }
+
+  // Otherwise it's the coveredByPlan ranges
+  const coveredRanges = ranges as typeof IRA_DEDUCTION_LIMITS_2025.coveredByPlan;
+  switch (filingStatus) {
+    case 'single':
+    case 'headOfHousehold':
+      return coveredRanges.single;
+    case 'marriedJointly':
+      return coveredRanges.marriedJointly;
+    case 'marriedSeparately':
+      return coveredRanges.marriedSeparately;
+    default:
+      return coveredRanges.single;
+  }
+}
+
+/**
+ * Calculate deductions using the tax year's IRS amounts
+ */
+function calculateDeductions(
+  input: FederalInput2025,
+  agi: number,
+  seTaxDeduction: number,
+  rules: TaxYearConfig,
+  diagnostics: FederalDiagnostics2025
+): {
+  deduction: number;
+  isStandard: boolean;
+  standardDeduction: number;
+  itemizedTotal: number;
+} {
+  // Calculate standard deduction with age/blindness adjustments
+  let standardDeduction = rules.getStandardDeduction(input.filingStatus);
+
+  // Someone can claim the taxpayer or spouse as a dependent: the basic amount
+  // is limited to earned income plus $450, but not less than $1,350 (2025)
+  if (input.primary?.canBeClaimedAsDependent || input.spouse?.canBeClaimedAsDependent) {
+    const { minimum, earnedIncomeAddition } = rules.getDependentStandardDeduction();
+    const earnedIncome = max0(
+      addCents(input.income.wages, input.income.scheduleCNet) - seTaxDeduction
+    );
+    const limited = Math.max(minimum, earnedIncome + earnedIncomeAddition);
+    if (limited < standardDeduction) {
+      standardDeduction = limited;
+      pushWarning(diagnostics, 'CALC-W-035', {
+        field: 'primary.canBeClaimedAsDependent',
+        context: {
+          amount: formatCents(limited),
+          addition: formatCents(earnedIncomeAddition),
+          minimum: formatCents(minimum),
+        },
+        phase: 'deductions',
+      });
+    }
+  }
+
+  // Helper to calculate age at end of tax year
+  const calculateAge = (birthDate: string): number => {
+    const parts = birthDate.split('-');
+    const birthYear = parseInt(parts[0] || '0', 10);
+    return rules.taxYear - birthYear;
+  };
+
+  // Additional standard deduction for age 65+ and/or blindness
+  // Use correct amounts based on filing status (married vs unmarried)
+  const age65Amount = rules.getAdditionalDeduction(input.filingStatus, true, false);
+  const blindAmount = rules.getAdditionalDeduction(input.filingStatus, false, true);
+
+  if (input.primary) {
+    if (input.primary.isBlind) {
+      standardDeduction += blindAmount;
+    }
+    if (input.primary.birthDate && calculateAge(input.primary.birthDate) >= 65) {
+      standardDeduction += age65Amount;
+    }
+  }
+
+  if (input.spouse) {
+    if (input.spouse.isBlind) {
+      standardDeduction += blindAmount;
+    }
+    if (input.spouse.birthDate && calculateAge(input.spouse.birthDate) >= 65) {
+      standardDeduction += age65Amount;
+    }
+  }
+
+  // Calculate itemized deductions
+  const itemized = input.itemized;
+
+  // The SALT cap phases down with modified AGI from 2025 under P.L. 119-21
+  const saltCap = rules.getSALTCap(agi);
+  if ((itemized.stateLocalTaxes || 0) > saltCap) {
+    pushWarning(diagnostics, 'CALC-W-006', {
+      field: 'itemized.stateLocalTaxes',
+      context: { cap: formatCents(saltCap) },
+      phase: 'deductions',
+    });
+  }
+
+  const saltDeduction = Math.min(itemized.stateLocalTaxes || 0, saltCap);
+
+  const medicalDeduction = calculateMedicalDeduction(itemized.medical || 0, agi);
+
+  const itemizedTotal = addCents(
+    saltDeduction,
+    itemized.mortgageInterest,
+    itemized.charitable,
+    medicalDeduction,
+    itemized.other
+  );
+
+  // Choose higher deduction (unless user explicitly forces itemized)
+  const useStandard = input.forceItemized ? false : standardDeduction >= itemizedTotal;
+
+  if (useStandard && itemizedTotal > 0) {
+    pushWarning(diagnostics, 'CALC-W-007', {
+      field: 'itemized',
+      context: {
+        stdAmount: formatCents(standardDeduction),
+        itemAmount: formatCents(itemizedTotal),
+      },
+      phase: 'deductions',
+    });
+  } else if (input.forceItemized && standardDeduction > itemizedTotal) {
+    // Warn user they're forcing itemized when standard is higher
+    pushWarning(diagnostics, 'CALC-W-008', {
+      field: 'itemized',
+      context: {
+        stdAmount: formatCents(standardDeduction),
+        itemAmount: formatCents(itemizedTotal),
+        taxImpact: formatCents(standardDeduction - itemizedTotal),
+      },
+      phase: 'deductions',
+    });
+  }
+
+  return {
+    deduction: useStandard ? standardDeduction : itemizedTotal,
+    isStandard: useStandard,
+    standardDeduction,
+    itemizedTotal,
+  };
+}
+
+/**
+ * Calculate medical expense deduction (7.5% AGI threshold)
+ */
+function calculateMedicalDeduction(medicalExpenses: number, agi: number): number {
+  const threshold = multiplyCents(agi, 0.075); // 7.5% of AGI
+  return max0(medicalExpenses - threshold);
+}
+
+/**
+ * Calculate Form 8949 and Schedule D when lot-level dispositions or a
+ * capital loss carryover are entered
+ *
+ * Gains entered as totals stay on Schedule D without lot detail:
+ * capitalGainsDetail.shortTerm as short-term and the rest of capGainsNet as
+ * long-term.
+ */
+function calculateScheduleD(
+  input: FederalInput2025,
+  diagnostics: FederalDiagnostics2025
+): ScheduleDResult | null {
+  const dispositions = input.capitalAssetDispositions || [];
+  const carryover = input.capitalLossCarryover;
+  if (dispositions.length === 0 && !carryover) {
+    return null;
+  }
+
+  const otherShortTerm = input.income.capitalGainsDetail?.shortTerm || 0;
+  const scheduleD = computeScheduleD2025({
+    filingStatus: input.filingStatus,
+    dispositions,
+    carryover,
+    otherShortTerm,
+    otherLongTerm: (input.income.capGainsNet || 0) - otherShortTerm,
+  });
+
+  if (dispositions.length > 0) {
+    pushWarning(diagnostics, 'FORM-W-004', { field: 'capitalAssetDispositions', phase: 'agi' });
+  }
+
+  scheduleD.rows.forEach((row, i) => {
+    if (row.adjustmentCodes.includes('W')) {
+      const washSale = dispositions[i]!.washSaleLossDisallowed;
+      pushWarning(diagnostics, 'CALC-W-029', {
+        field: `capitalAssetDispositions[${i}]`,
+        context: {
+          amount: formatCents(washSale ?? row.adjustmentAmount),
+          description: row.description,
+        },
+        phase: 'agi',
+      });
+    }
+  });
+
+  return scheduleD;
+}
+
+/**
+ * Capital Loss Carryover Worksheet with taxable income (Lines 1-4), and a
+ * warning for any loss carried to next year
+ */
+function calculateCapitalLossCarryover(
+  input: FederalInput2025,
+  scheduleD: ScheduleDResult,
+  taxableIncome: number,
+  diagnostics: FederalDiagnostics2025
+): ScheduleDResult {
+  const result = applyCarryoverWorksheet(scheduleD, taxableIncome);
+
+  const { shortTerm, longTerm } = result.carryoverToNextYear;
+  if (shortTerm + longTerm > 0) {
+    pushWarning(diagnostics, 'CALC-W-028', {
+      field: 'capitalAssetDispositions',
+      context: {
+        limit: formatCents(CAPITAL_LOSS_LIMIT_2025[input.filingStatus]),
+        shortTerm: formatCents(shortTerm),
+        longTerm: formatCents(longTerm),
+      },
+      phase: 'agi',
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Qualified dividends and long-term capital gains eligible for preferential rates
+ */
+function getPreferentialIncome(input: FederalInput2025, scheduleD: ScheduleDResult | null): number {
+  const qualifiedDividends = input.income.dividends.qualified || 0;
+  const longTermCapGains = scheduleD
+    ? scheduleD.netCapitalGain
+    : Math.max(0, input.income.capGainsNet || 0); // Only positive LTCG get preferential rates
+  return qualifiedDividends + longTermCapGains;
+}
+
+/**
+ * Calculate income tax using regular brackets + preferential rates
+ *
+ * With Schedule D, only the net capital gain (smaller of Lines 15 and 16)
+ * gets preferential rates, and its 28% and unrecaptured §1250 parts follow
+ * the Schedule D Tax Worksheet. The result is never more than the regular
+ * tax on all taxable income.
+ */
+function calculateIncomeTax(
+  input: FederalInput2025,
+  taxableIncome: number,
+  rules: TaxYearConfig,
+  scheduleD: ScheduleDResult | null
+) {
+  const brackets = rules.getTaxBrackets(input.filingStatus);
+  const totalPreferential = getPreferentialIncome(input, scheduleD);
+
+  if (totalPreferential === 0 || taxableIncome <= 0) {
+    // No preferential income - use regular tax brackets only
+    return {
+      regularTax: calculateRegularTax2025(taxableIncome, input.filingStatus, brackets),
+      preferentialTax: 0,
+      totalIncomeTax: calculateRegularTax2025(taxableIncome, input.filingStatus, brackets),
+      capitalGainsDetails: null,
+    };
+  }
+
+  // Calculate tax using IRS worksheet method
+  const preferentialResult = computePreferentialRatesTax2025(
+    {
+      filingStatus: input.filingStatus,
+      taxableIncome,
+      qualifiedDividendsAndLTCG: totalPreferential,
+      unrecaptured1250Gain: scheduleD?.unrecaptured1250Gain,
+      collectiblesGain: scheduleD?.collectiblesGain,
+    },
+    rules.getLTCGThresholds(input.filingStatus)
+  );
+  const ordinaryTax = calculateRegularTax2025(
+    preferentialResult.ordinaryTaxableIncome,
+    input.filingStatus,
+    brackets
+  );
+  const totalIncomeTax = Math.min(
+    ordinaryTax + preferentialResult.preferentialTax,
+    calculateRegularTax2025(taxableIncome, input.filingStatus, brackets)
+  );
+
+  return {
+    regularTax: ordinaryTax,
+    preferentialTax: totalIncomeTax - ordinaryTax,
+    totalIncomeTax,
+    capitalGainsDetails: preferentialResult,
+  };
+}
+
+/**
+ * Calculate the kiddie tax (Form 8615) on a child's return
+ *
+ * Unearned income (Line 1) is AGI less earned income. Returns null when no
+ * parent information was entered or no income is taxed at the parent's rate.
+ */
+function calculateKiddieTax(
+  input: FederalInput2025,
+  agi: number,
+  taxableIncome: number,
+  seTaxDeduction: number,
+  rules: TaxYearConfig,
+  scheduleD: ScheduleDResult | null,
+  diagnostics: FederalDiagnostics2025
+): Form8615Result | null {
+  const parent = input.kiddieTax;
+  if (!parent) return null;
+
+  const earnedIncome = max0(
+    addCents(input.income.wages, input.income.scheduleCNet) - seTaxDeduction
+  );
+  const rates = (filingStatus: FilingStatus) => ({
+    brackets: rules.getTaxBrackets(filingStatus),
+    ltcgThresholds: rules.getLTCGThresholds(filingStatus),
+  });
+  const result = computeKiddieTax2025(
+    {
+      childFilingStatus: input.filingStatus,
+      unearnedIncome: max0(agi - earnedIncome),
+      childTaxableIncome: taxableIncome,
+      childQualifiedDividendsAndCapitalGains: getPreferentialIncome(input, scheduleD),
+      parent,
+    },
+    {
+      dependentMinimum: rules.getDependentStandardDeduction().minimum,
+      childRates: rates(input.filingStatus),
+      parentRates: rates(parent.parentFilingStatus),
+    }
+  );
+  if (result.taxedAtParentRate === 0) return null;
+
+  pushWarning(diagnostics, 'CALC-W-033', {
+    field: 'kiddieTax',
+    context: {
+      amount: formatCents(result.taxedAtParentRate),
+      tax: formatCents(result.additionalTax),
+    },
+    phase: 'income-tax',
+  });
+  pushWarning(diagnostics, 'FORM-W-013', { field: 'kiddieTax', phase: 'income-tax' });
+
+  return result;
+}
+
+/**
+ * Calculate the parent's election to report children's interest and
+ * dividends (Form 8814)
+ */
+function calculateForm8814Election(
+  input: FederalInput2025,
+  rules: TaxYearConfig,
+  diagnostics: FederalDiagnostics2025
+): Form8814Result | null {
+  const children = input.form8814Children;
+  if (!children || children.length === 0) return null;
+
+  const result = computeForm8814Election2025(
+    children,
+    rules.getDependentStandardDeduction().minimum
+  );
+  result.children.forEach((child, i) => {
+    if (!child.eligible) {
+      pushWarning(diagnostics, 'CALC-W-034', {
+        field: `form8814Children[${i}]`,
+        context: {
+          amount: formatCents(child.grossIncome),
+          limit: formatCents(result.grossIncomeLimit),
+        },
+        phase: 'agi',
+      });
+    }
+  });
+  if (result.children.some((child) => child.eligible)) {
+    pushWarning(diagnostics, 'FORM-W-014', { field: 'form8814Children', phase: 'agi' });
+  }
+
+  return result;
+}
+
+/**
+ * Calculate Alternative Minimum Tax (AMT) - Form 6251
+ */
+function calculateAMT(
+  input: FederalInput2025,
+  agi: number,
+  taxableIncome: number,
+  deductionResult: { deduction: number; isStandard: boolean },
+  regularTax: number,
+  rules: TaxYearConfig
+) {
+  // Prepare itemized deduction details for AMT calculation
+  const itemized = input.itemized;
+
+  // Build AMT input structure
+  const amtInput: AMTInput = {
+    filingStatus: input.filingStatus,
+    taxableIncome,
+    regularTax,
+    agi,
+    isStandardDeduction: deductionResult.isStandard,
+    standardDeductionAmount: deductionResult.isStandard ? deductionResult.deduction : 0,
+    itemizedDeductions: {
+      stateLocalTaxes: itemized.stateLocalTaxes || 0,
+      medical: itemized.medical || 0,
+      mortgageInterest: itemized.mortgageInterest || 0,
+      charitable: itemized.charitable || 0,
+      other: itemized.other || 0,
+    },
+    ...(input.amtItems && { amtItems: input.amtItems }),
+  };
+
+  // Compute AMT using the dedicated AMT module
+  return computeAMT2025(amtInput, rules.getAMTParameters(input.filingStatus));
+}
+
+/**
+ * Calculate household employment taxes (Schedule H) for nanny, caregiver
+ * and other household employee wages
+ */
+function calculateHouseholdEmploymentTaxes(
+  input: FederalInput2025,
+  rules: TaxYearConfig,
+  diagnostics: FederalDiagnostics2025
+): ScheduleHResult | null {
+  const householdEmployment = input.householdEmployment;
+  if (!householdEmployment || householdEmployment.employees.length === 0) return null;
+
+  const result = computeScheduleH2025(householdEmployment, rules.getSocialSecurityWageBase());
+  if (result.totalTax > 0) {
+    pushWarning(diagnostics, 'CALC-W-032', {
+      field: 'householdEmployment',
+      context: { amount: formatCents(result.totalTax), futa: formatCents(result.futaTax) },
+      phase: 'additional-taxes',
+    });
+    pushWarning(diagnostics, 'FORM-W-012', {
+      field: 'householdEmployment',
+      phase: 'additional-taxes',
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Calculate additional taxes (NIIT, Additional Medicare, AMT)
+ */
+function calculateAdditionalTaxes(
+  input: FederalInput2025,
+  agi: number,
+  taxableIncome: number,
+  deductionResult: { deduction: number; isStandard: boolean },
+  regularTax: number,
+  seTaxResult: SETaxResult,
+  retirement: RetirementDistributionsResult | null,
+  hsa: HSAResult | null,
+  passiveActivities: PassiveActivitiesResult | null,
+  scheduleH: ScheduleHResult | null,
+  rules: TaxYearConfig,
+  diagnostics: FederalDiagnostics2025
+) {
+  // Net Investment Income Tax (3.8%)
+  const niitThreshold = NIIT_THRESHOLDS_2025[input.filingStatus];
+  const investmentIncome = max0(
+    addCents(
+      input.income.interest,
+      input.income.dividends.ordinary,
+      input.income.dividends.qualified,
+      Math.max(0, input.income.capGainsNet || 0), // Only positive gains
+      // Rents and passive income after the Form 8582 limits
+      passiveActivities ? passiveActivities.netInvestmentIncome : input.income.k1.passiveIncome
+    )
+  );
+  let niit = 0;
+  let niitBase = 0;
+  if (agi > niitThreshold) {
+    niitBase = Math.min(investmentIncome, agi - niitThreshold);
+    if (niitBase > 0) {
+      niit = multiplyCents(niitBase, 0.038);
+    }
+  }
+  if (niit > 0) {
+    pushWarning(diagnostics, 'CALC-W-002', {
+      field: 'income.capGainsNet',
+      context: { amount: formatCents(niitBase) },
+      phase: 'additional-taxes',
+    });
+    pushWarning(diagnostics, 'FORM-W-007', {
+      field: 'income.capGainsNet',
+      phase: 'additional-taxes',
+    });
+  }
+
+  // Additional Medicare Tax is already calculated in SE tax
+  const medicareSurtax = seTaxResult.additionalMedicare || 0;
+  if (medicareSurtax > 0) {
+    const medicareBase = Math.round(medicareSurtax / 0.009);
+    pushWarning(diagnostics, 'CALC-W-003', {
+      field: 'income.wages',
+      context: { amount: formatCents(medicareBase) },
+      phase: 'additional-taxes',
+    });
+    pushWarning(diagnostics, 'FORM-W-006', { field: 'income.wages', phase: 'additional-taxes' });
+  }
+
+  // Alternative Minimum Tax (AMT) - Form 6251
+  const amtResult = calculateAMT(input, agi, taxableIncome, deductionResult, regularTax, rules);
+  if (amtResult.amt > 0) {
+    pushWarning(diagnostics, 'CALC-W-001', {
+      field: 'additionalTaxes.amt',
+      phase: 'additional-taxes',
+    });
+  }
+
+  // Additional tax on early distributions (Form 5329 Part I)
+  const earlyDistributionTax = retirement?.additionalTax || 0;
+  if (earlyDistributionTax > 0) {
+    pushWarning(diagnostics, 'CALC-W-023', {
+      field: 'retirementDistributions',
+      context: {
+        amount: formatCents(retirement?.earlyDistributionsSubjectToTax || 0),
+        tax: formatCents(earlyDistributionTax),
+      },
+      phase: 'additional-taxes',
+    });
+    pushWarning(diagnostics, 'FORM-W-008', {
+      field: 'retirementDistributions',
+      phase: 'additional-taxes',
+    });
+  }
+
+  // Additional tax on HSA distributions (Form 8889) and excess contributions (Form 5329 Part VII)
+  const hsaAdditionalTax = hsa?.additionalTax || 0;
+  const hsaExcessContributionTax = hsa?.excessContributionTax || 0;
+
+  // Household employment taxes (Schedule H)
+  const householdEmploymentTax = scheduleH?.totalTax || 0;
+
+  return {
+    seTax: seTaxResult.totalSETax,
+    niit,
+    medicareSurtax,
+    amt: amtResult.amt,
+    amtDetails: amtResult,
+    ...(earlyDistributionTax > 0 && { earlyDistributionTax }),
+    ...(hsaAdditionalTax > 0 && { hsaAdditionalTax }),
+    ...(hsaExcessContributionTax > 0 && { hsaExcessContributionTax }),
+    ...(householdEmploymentTax > 0 && { householdEmploymentTax }),
+  };
+}
+
+/**
+ * Calculate federal tax credits using both new and existing credit modules
+ */
+function calculateCredits(
+  input: FederalInput2025,
+  agi: number,
+  taxableIncome: number,
+  taxBeforeCredits: number,
+  socialSecurity: SocialSecurityBenefitsResult | null,
+  rules: TaxYearConfig,
+  diagnostics: FederalDiagnostics2025
+): {
+  credits: FederalResult2025['credits'];
+  actc: number;
+  aotcRefundable: number;
+  excessSocialSecurity?: ExcessSocialSecurityResult;
+  scheduleR?: ScheduleRResult;
+  form5695?: Form5695Result;
+  cleanVehicles?: CleanVehicleCreditResult;
+} {
+  // Earned Income Tax Credit using the tax year's EITC table
+  const earnedIncome = addCents(
+    input.income.wages,
+    input.income.scheduleCNet // SE income
+  );
+
+  const investmentIncome = addCents(
+    input.income.interest,
+    input.income.dividends.ordinary,
+    input.income.dividends.qualified,
+    Math.max(0, input.income.capGainsNet || 0)
+  );
+
+  // Determine qualifying children count (convert from legacy dependents if needed)
+  // Note: EITC has a maximum of 3 qualifying children per IRS rules
+  let qualifyingChildrenCount: 0 | 1 | 2 | 3 = 0;
+  if (input.qualifyingChildren && input.qualifyingChildren.length > 0) {
+    // Use actual qualifying children array if available
+    const count = input.qualifyingChildren.length;
+    qualifyingChildrenCount = Math.min(3, count) as 0 | 1 | 2 | 3;
+  } else if (input.dependents > 0) {
+    // Fallback to dependents count (legacy support)
+    // This is not ideal as not all dependents are qualifying children for EITC
+    const count = input.dependents;
+    qualifyingChildrenCount = Math.min(3, count) as 0 | 1 | 2 | 3;
+  }
+
+  // Calculate ages for EITC eligibility (childless taxpayers need age 25-64)
+  const calculateAge = (birthDate: string | undefined): number | undefined => {
+    if (!birthDate) return undefined;
+    const parts = birthDate.split('-');
+    const birthYear = parseInt(parts[0] || '0', 10);
+    return rules.taxYear - birthYear;
+  };
+
+  const primaryAge = calculateAge(input.primary?.birthDate);
+  const spouseAge = calculateAge(input.spouse?.birthDate);
+
+  const eitcResult = computeEITC2025(
+    {
+      filingStatus: input.filingStatus,
+      earnedIncome,
+      agi,
+      qualifyingChildren: qualifyingChildrenCount,
+      investmentIncome,
+      ...(primaryAge !== undefined && { primaryAge }),
+      ...(spouseAge !== undefined && { spouseAge }),
+    },
+    rules.getEITCParameters()
+  );
+
+  // Child Tax Credit using existing advanced logic
+  const ctcParameters = rules.getCTCParameters();
+  const ctcResult = calculateAdvancedCTC(
+    input,
+    agi,
+    taxBeforeCredits,
+    ctcParameters,
+    rules.taxYear
+  );
+
+  // Education credits using existing advanced logic
+  const aotcResult = calculateAdvancedAOTC(input, agi);
+  const llcResult = calculateAdvancedLLC(input, agi);
+
+  // Prefer AOTC over LLC if both are available (mutual exclusion)
+  const finalAOTC = aotcResult.aotc;
+  const finalLLC = finalAOTC > 0 ? 0 : llcResult.llc;
+
+  // Calculate Saver's Credit (Form 8880) - Retirement Savings Contributions Credit
+  let saversCredit = 0;
+  if (input.saversCreditInfo) {
+    const saversCreditResult = computeSaversCredit2025({
+      filingStatus: input.filingStatus,
+      agi,
+      taxpayerAge: input.saversCreditInfo.taxpayerAge,
+      isTaxpayerStudent: input.saversCreditInfo.isTaxpayerStudent ?? false,
+      isTaxpayerDependent: input.saversCreditInfo.isTaxpayerDependent ?? false,
+      taxpayerContributions: input.saversCreditInfo.taxpayerContributions || 0,
+      taxpayerDistributions: input.saversCreditInfo.taxpayerDistributions,
+      ...(input.filingStatus === 'marriedJointly' &&
+        input.saversCreditInfo.spouseAge && {
+          spouseAge: input.saversCreditInfo.spouseAge,
+          isSpouseStudent: input.saversCreditInfo.isSpouseStudent ?? false,
+          isSpouseDependent: input.saversCreditInfo.isSpouseDependent ?? false,
+          spouseContributions: input.saversCreditInfo.spouseContributions,
+          spouseDistributions: input.saversCreditInfo.spouseDistributions,
+        }),
+    });
+    saversCredit = saversCreditResult.saversCredit;
+  }
+
+  // Calculate Child and Dependent Care Credit (Form 2441)
+  let childCareCredit = 0;
+  if (input.childCareInfo) {
+    const childCareCreditResult = computeChildCareCredit2025({
+      filingStatus: input.filingStatus,
+      agi,
+      numberOfQualifyingPersons: input.childCareInfo.numberOfQualifyingPersons,
+      careExpenses: input.childCareInfo.careExpenses || 0,
+      taxpayerEarnedIncome: input.childCareInfo.taxpayerEarnedIncome || earnedIncome,
+      ...(input.filingStatus === 'marriedJointly' && {
+        spouseEarnedIncome: input.childCareInfo.spouseEarnedIncome,
+        isSpouseStudent: input.childCareInfo.isSpouseStudent,
+        isSpouseDisabled: input.childCareInfo.isSpouseDisabled,
+      }),
+    });
+    childCareCredit = childCareCreditResult.childCareCredit;
+  }
+
+  // Calculate Foreign Tax Credit (Form 1116)
+  let foreignTaxCredit = 0;
+  if (input.foreignIncomeSources && input.foreignIncomeSources.length > 0) {
+    const foreignTaxCreditResult = computeForeignTaxCredit2025({
+      filingStatus: input.filingStatus,
+      totalTaxableIncome: taxableIncome,
+      usTaxBeforeCredits: taxBeforeCredits,
+      foreignIncomeSources: input.foreignIncomeSources,
+      useSimplifiedElection: input.foreignTaxCreditOptions?.useSimplifiedElection,
+      priorYearCarryover: input.foreignTaxCreditOptions?.priorYearCarryover,
+    });
+    foreignTaxCredit = foreignTaxCreditResult.foreignTaxCredit;
+  }
+
+  // Calculate Adoption Credit (Form 8839)
+  let adoptionCreditNonRefundable = 0;
+  let adoptionCreditRefundable = 0;
+  if (input.adoptedChildren && input.adoptedChildren.length > 0) {
+    const adoptionCreditResult = computeAdoptionCredit2025({
+      filingStatus: input.filingStatus,
+      magi: agi, // Use AGI as MAGI (simplified - in real scenarios, MAGI may differ)
+      taxBeforeCredits: taxBeforeCredits,
+      adoptedChildren: input.adoptedChildren,
+      priorYearCarryforward: input.adoptionCreditOptions?.priorYearCarryforward,
+    });
+    adoptionCreditNonRefundable = adoptionCreditResult.nonRefundableCredit;
+    adoptionCreditRefundable = adoptionCreditResult.refundableCredit;
+  }
+
+  // Calculate Credit for the Elderly or the Disabled (Schedule R), limited to
+  // the tax left after the foreign tax, child care and education credits
+  let scheduleR: ScheduleRResult | undefined;
+  const scheduleRPerson = (
+    person: FederalPrimaryPerson2025 | undefined,
+    age: number | undefined
+  ) => ({
+    age,
+    isPermanentlyDisabled: person?.isPermanentlyDisabled,
+    taxableDisabilityIncome: person?.taxableDisabilityIncome,
+  });
+  const mayQualifyForScheduleR = (age: number | undefined, person?: FederalPrimaryPerson2025) =>
+    (age ?? 0) >= ELDERLY_DISABLED_CREDIT_2025.qualifyingAge || person?.isPermanentlyDisabled;
+  if (
+    mayQualifyForScheduleR(primaryAge, input.primary) ||
+    (input.filingStatus === 'marriedJointly' && mayQualifyForScheduleR(spouseAge, input.spouse))
+  ) {
+    scheduleR = computeElderlyDisabledCredit2025(
+      {
+        filingStatus: input.filingStatus,
+        agi,
+        taxpayer: scheduleRPerson(input.primary, primaryAge),
+        ...(input.filingStatus === 'marriedJointly' && {
+          spouse: scheduleRPerson(input.spouse, spouseAge),
+        }),
+        nontaxableSocialSecurity: socialSecurity
+          ? max0(socialSecurity.netBenefits - socialSecurity.taxableBenefits)
+          : 0,
+        nontaxablePensions: input.scheduleR?.nontaxablePensions,
+        livedWithSpouse: input.scheduleR?.livedWithSpouse,
+      },
+      max0(taxBeforeCredits - addCents(foreignTaxCredit, childCareCredit, finalAOTC, finalLLC))
+    );
+
+    if (input.filingStatus === 'marriedSeparately' && input.scheduleR?.livedWithSpouse) {
+      pushWarning(diagnostics, 'CREDIT-W-013', {
+        field: 'scheduleR.livedWithSpouse',
+        phase: 'credits',
+      });
+    }
+  }
+  const elderlyDisabledCredit = scheduleR?.credit || 0;
+
+  // Calculate Residential Energy Credits (Form 5695), limited to the tax left
+  // after the other nonrefundable credits
+  const otherNonRefundable = addCents(
+    ctcResult.ctc,
+    finalAOTC,
+    finalLLC,
+    foreignTaxCredit,
+    elderlyDisabledCredit,
+    adoptionCreditNonRefundable,
+    saversCredit,
+    childCareCredit
+  );
+  let form5695: Form5695Result | undefined;
+  if (input.form5695) {
+    form5695 = computeResidentialEnergyCredits2025(
+      input.form5695,
+      max0(taxBeforeCredits - otherNonRefundable)
+    );
+
+    if (form5695.carryforward > 0) {
+      pushWarning(diagnostics, 'CREDIT-W-009', {
+        field: 'form5695',
+        context: { amount: formatCents(form5695.carryforward) },
+        phase: 'credits',
+      });
+    }
+    const homeImprovementLost =
+      form5695.homeImprovementCreditBeforeLimit - form5695.energyEfficientHomeImprovementCredit;
+    if (homeImprovementLost > 0) {
+      pushWarning(diagnostics, 'CREDIT-W-010', {
+        field: 'form5695.homeImprovements',
+        context: { amount: formatCents(homeImprovementLost) },
+        phase: 'credits',
+      });
+    }
+  }
+
+  // Calculate Clean Vehicle Credits (Form 8936), limited to the tax left after
+  // the credits above. New vehicle credit is taken before the used vehicle credit.
+  let cleanVehicles: CleanVehicleCreditResult | undefined;
+  let cleanVehicleCredit = 0;
+  let usedCleanVehicleCredit = 0;
+  if (input.cleanVehicles && input.cleanVehicles.length > 0) {
+    cleanVehicles = computeCleanVehicleCredit2025({
+      filingStatus: input.filingStatus,
+      taxYear: rules.taxYear,
+      magi: agi, // No foreign income exclusions, so MAGI equals AGI
+      priorYearMagi: input.priorYear?.agi,
+      vehicles: input.cleanVehicles,
+    });
+
+    const taxLimit = max0(
+      taxBeforeCredits -
+        addCents(
+          otherNonRefundable,
+          form5695?.residentialCleanEnergyCredit,
+          form5695?.energyEfficientHomeImprovementCredit
+        )
+    );
+    cleanVehicleCredit = Math.min(cleanVehicles.newVehicleCredit, taxLimit);
+    usedCleanVehicleCredit = Math.min(
+      cleanVehicles.usedVehicleCredit,
+      taxLimit - cleanVehicleCredit
+    );
+
+    const reasons: Record<CleanVehicleIneligibleReason, string> = {
+      notPlacedInService: `not placed in service in ${rules.taxYear}`,
+      acquiredAfterDeadline: 'acquired after September 30, 2025',
+      priceLimit: 'price exceeds the limit',
+      incomeLimit: 'modified AGI exceeds the limit',
+    };
+    cleanVehicles.vehicles.forEach((vehicle, index) => {
+      if (vehicle.ineligibleReason && vehicle.repayment === 0) {
+        pushWarning(diagnostics, 'CREDIT-W-011', {
+          field: `cleanVehicles[${index}]`,
+          context: {
+            vehicle: vehicle.vin || `${index + 1}`,
+            reason: reasons[vehicle.ineligibleReason],
+          },
+          phase: 'credits',
+        });
+      }
+    });
+    if (cleanVehicles.repayment > 0) {
+      pushWarning(diagnostics, 'CREDIT-W-012', {
+        field: 'cleanVehicles',
+        context: { amount: formatCents(cleanVehicles.repayment) },
+        phase: 'credits',
+      });
+    }
+  }
+
+  // Calculate Premium Tax Credit (Form 8962) - ACA marketplace subsidy
+  let ptc = 0;
+  let ptcRepayment = 0;
+  if (input.form8962) {
+    const ptcResult = calculatePTC({
+      ...input.form8962,
+      magi: agi,
+      filingStatus: input.filingStatus,
+    });
+
+    if (ptcResult.isEligible) {
+      // netPTC is positive for additional credit, negative for repayment
+      if (ptcResult.netPTC > 0) {
+        ptc = ptcResult.netPTC;
+      } else {
+        ptcRepayment = ptcResult.excessAPTCRepayment;
+      }
+    }
+  }
+
+  // Excess Social Security tax withheld by two or more employers (Schedule 3 Line 11)
+  let excessSocialSecurity = 0;
+  let excessResult: ExcessSocialSecurityResult | undefined;
+  if (input.w2Forms && input.w2Forms.length > 0) {
+    excessResult = computeExcessSocialSecurity2025({
+      w2Forms: input.w2Forms,
+      ssWageBase: rules.getSocialSecurityWageBase(),
+    });
+    excessSocialSecurity = excessResult.totalCredit;
+    const maxWithholding = excessResult.maxWithholding;
+
+    const w2Forms = input.w2Forms;
+    groupW2sByEmployer(w2Forms).forEach((group) => {
+      const index = group[0]!;
+      const overWithheld =
+        addCents(...group.map((i) => w2Forms[i]!.socialSecurityTaxWithheld)) - maxWithholding;
+      if (overWithheld > 0) {
+        pushWarning(diagnostics, 'PAYMENT-W-007', {
+          field: `w2Forms[${index}].socialSecurityTaxWithheld`,
+          context: {
+            employer: w2Forms[index]!.employerName || `W-2 ${index + 1}`,
+            amount: formatCents(overWithheld),
+            max: formatCents(maxWithholding),
+          },
+          phase: 'credits',
+        });
+      }
+    });
+  }
+
+  const creditsResult = {
+    ctc: ctcResult.ctc,
+    aotc: finalAOTC,
+    llc: finalLLC,
+    eitc: eitcResult.eitc,
+    ftc: foreignTaxCredit,
+    ...(scheduleR && { elderlyDisabled: elderlyDisabledCredit }),
+    adoptionCreditNonRefundable,
+    adoptionCreditRefundable,
+    ...(form5695 && {
+      residentialCleanEnergy: form5695.residentialCleanEnergyCredit,
+      energyEfficientHomeImprovement: form5695.energyEfficientHomeImprovementCredit,
+    }),
+    ...(cleanVehicles && {
+      cleanVehicle: cleanVehicleCredit,
+      usedCleanVehicle: usedCleanVehicleCredit,
+      ...(cleanVehicles.repayment > 0 && { cleanVehicleRepayment: cleanVehicles.repayment }),
+    }),
+    ptc,
+    ptcRepayment,
+    ...(excessSocialSecurity > 0 && { excessSocialSecurity }),
+    otherNonRefundable: addCents(saversCredit, childCareCredit),
+    otherRefundable: addCents(ctcResult.additionalChildTaxCredit, aotcResult.refundableAOTC),
+  };
+
+  const baseCTC = ctcResult.eligibleChildren * ctcParameters.maxCredit;
+  if (baseCTC > 0 && ctcResult.ctc < baseCTC) {
+    const reduction = baseCTC - ctcResult.ctc;
+    if (reduction > 0) {
+      pushWarning(diagnostics, 'CREDIT-W-001', {
+        field: 'credits.ctc',
+        context: { amount: formatCents(reduction) },
+        phase: 'credits',
+      });
+    }
+  }
+
+  if (eitcResult.disqualified) {
+    pushWarning(diagnostics, 'CREDIT-W-002', {
+      field: 'credits.eitc',
+      message: 'Earned Income Tax Credit disqualified—review age, SSN, and investment income tests',
+      phase: 'credits',
+    });
+  } else if (eitcResult.eitc > 0 && eitcResult.details.maxCredit > eitcResult.eitc) {
+    const reduction = eitcResult.details.maxCredit - eitcResult.eitc;
+    if (reduction > 0) {
+      pushWarning(diagnostics, 'CREDIT-W-002', {
+        field: 'credits.eitc',
+        context: { amount: formatCents(reduction) },
+        phase: 'credits',
+      });
+    }
+  }
+
+  return {
+    credits: creditsResult,
+    actc: ctcResult.additionalChildTaxCredit,
+    aotcRefundable: aotcResult.refundableAOTC,
+    ...(excessResult && { excessSocialSecurity: excessResult }),
+    ...(scheduleR && { scheduleR }),
+    ...(form5695 && { form5695 }),
+    ...(cleanVehicles && { cleanVehicles }),
+  };
+}
+
+/**
+ * Calculate Qualified Business Income (QBI) Deduction - IRC §199A
+ * Form 8995 (simplified) or Form 8995-A (complex)
+ */
+function calculateQBIDeduction(input: FederalInput2025, taxableIncomeBeforeQBI: number) {
+  // If no QBI businesses or REIT/PTP income, no deduction
+  const hasQBIBusinesses = input.qbiBusinesses && input.qbiBusinesses.length > 0;
+  const hasREITPTP =
+    input.qbiREITPTP &&
+    ((input.qbiREITPTP.reitDividends || 0) > 0 || (input.qbiREITPTP.ptpIncome || 0) > 0);
+
+  if (!hasQBIBusinesses && !hasREITPTP) {
+    // No QBI deduction - return zero result
+    return {
+      taxableIncome: taxableIncomeBeforeQBI,
+      taxableIncomeBeforeCapGains: taxableIncomeBeforeQBI,
+      filingStatus: input.filingStatus,
+      qbiThreshold: 0,
+      qbiUpperThreshold: 0,
+      isAboveThreshold: false,
+      phaseInPercentage: 0,
+      businesses: [],
+      totalQBIComponent: 0,
+      totalWithREITPTP: 0,
+      overallLimitationAmount: 0,
+      isLimitedByOverall: false,
+      qbiDeduction: 0,
+      formUsed: '8995' as const,
+    };
+  }
+
+  // Calculate net capital gains for overall limitation
+  // Net capital gains = positive capital gains only (not losses)
+  const netCapitalGains = Math.max(0, input.income.capGainsNet || 0);
+
+  // Build QBI input
+  const qbiInput: QBIInput = {
+    filingStatus: input.filingStatus,
+    taxableIncome: taxableIncomeBeforeQBI,
+    netCapitalGains,
+    ...(input.qbiBusinesses && { businesses: input.qbiBusinesses }),
+    ...(input.qbiREITPTP?.reitDividends && { reitDividends: input.qbiREITPTP.reitDividends }),
+    ...(input.qbiREITPTP?.ptpIncome && { ptpIncome: input.qbiREITPTP.ptpIncome }),
+  };
+
+  // Compute QBI deduction
+  return computeQBIDeduction2025(qbiInput);
+}
+
+/**
+ * Warn about each part of a return for another year that was computed with
+ * 2025 amounts: limits and credits read from the 2025 rule modules, and
+ * registry values missing for the year (Form 2210 is PAYMENT-W-005)
+ */
+function collectRulesFallbackDiagnostics(
+  input: FederalInput2025,
+  rules: TaxYearConfig,
+  scheduleR: ScheduleRResult | undefined,
+  diagnostics: FederalDiagnostics2025
+): void {
+  if (rules.taxYear === 2025) {
+    return;
+  }
+
+  const { adjustments } = input;
+  const used: Array<[item: string, field: string, isUsed: unknown]> = [
+    [
+      'Schedule 1 adjustment limits',
+      'adjustments',
+      adjustments.educatorExpenses ||
+        adjustments.iraDeduction ||
+        adjustments.selfEmployedRetirement ||
+        adjustments.studentLoanInterest,
+    ],
+    [
+      'HSA contribution limits',
+      'hsaAccounts',
+      input.hsaAccounts?.length || adjustments.hsaDeduction,
+    ],
+    ['QBI deduction thresholds', 'qbiBusinesses', input.qbiBusinesses?.length || input.qbiREITPTP],
+    ['Education credits', 'educationExpenses', input.educationExpenses?.length],
+    ["Saver's credit", 'saversCreditInfo', input.saversCreditInfo],
+    ['Child and dependent care credit', 'childCareInfo', input.childCareInfo],
+    ['Foreign tax credit', 'foreignIncomeSources', input.foreignIncomeSources?.length],
+    ['Adoption credit', 'adoptedChildren', input.adoptedChildren?.length],
+    ['Credit for the elderly or disabled', 'scheduleR', scheduleR],
+    ['Residential energy credits', 'form5695', input.form5695],
+    ['Clean vehicle credits', 'cleanVehicles', input.cleanVehicles?.length],
+    ['Premium tax credit', 'form8962', input.form8962],
+    ['Household employment taxes', 'householdEmployment', input.householdEmployment],
+    ...rules
+      .getFallbacks()
+      .map((id): [string, string, boolean] => [`Rule federal.${id}`, 'taxYear', true]),
+  ];
+
+  for (const [item, field, isUsed] of used) {
+    if (isUsed) {
+      pushWarning(diagnostics, 'CALC-W-036', {
+        field,
+        context: { item, taxYear: rules.taxYear },
+        phase: 'final',
+      });
+    }
+  }
+}
+
+/**
+ * Warn about W-2 Social Security and Medicare boxes that do not add up
+ */
+function collectW2Diagnostics(
+  w2s: FormW2[],
+  rules: TaxYearConfig,
+  diagnostics: FederalDiagnostics2025
+): void {
+  const codes: Record<string, DiagnosticCode> = {
+    socialSecurityWages: 'INPUT-W-006',
+    socialSecurityTaxWithheld: 'INPUT-W-007',
+    medicareTaxWithheld: 'INPUT-W-008',
+  };
+
+  for (const issue of validateW2s(w2s, rules.getSocialSecurityWageBase())) {
+    const w2 = w2s[issue.index]!;
+    pushWarning(diagnostics, codes[issue.field]!, {
+      field: `w2Forms[${issue.index}].${issue.field}`,
+      context: {
+        employer: w2.employerName || `W-2 ${issue.index + 1}`,
+        expected: formatCents(issue.expected),
+        actual: formatCents(issue.actual),
+      },
+      phase: 'input-validation',
+    });
+  }
+}
+
+/**
+ * Collect input-related diagnostics before calculations
+ * Performs comprehensive multi-field consistency validation
+ */
+function collectInputDiagnostics(
+  input: FederalInput2025,
+  diagnostics: FederalDiagnostics2025
+): void {
+  // === Filing Status Validations ===
+  const marriedSeparatelyError = TaxInputValidator.validateMarriedSeparately(input);
+  if (marriedSeparatelyError) {
+    pushError(diagnostics, 'INPUT-E-001', {
+      field: 'spouse',
+      context: { field: 'spouse' },
+      message: marriedSeparatelyError,
+      phase: 'input-validation',
+    });
+  }
+
+  const marriedJointlyError = TaxInputValidator.validateMarriedJointly(input);
+  if (marriedJointlyError) {
+    pushError(diagnostics, 'INPUT-E-001', {
+      field: 'spouse',
+      context: { field: 'spouse' },
+      message: marriedJointlyError,
+      phase: 'input-validation',
+    });
+  }
+
+  const hohError = TaxInputValidator.validateHeadOfHousehold(input);
+  if (hohError) {
+    pushError(diagnostics, 'INPUT-E-001', {
+      field: 'filingStatus',
+      context: { field: 'filingStatus' },
+      message: hohError,
+      phase: 'input-validation',
+    });
+  }
+
+  const singleStatusError = TaxInputValidator.validateSingleFilingStatus(input);
+  if (singleStatusError) {
+    pushError(diagnostics, 'INPUT-E-001', {
+      field: 'filingStatus',
+      context: { field: 'filingStatus' },
+      message: singleStatusError,
+      phase: 'input-validation',
+    });
+  }
+
+  // === Dependents Consistency ===
+  const dependentsConsistencyError = TaxInputValidator.validateDependentsConsistency(input);
+  if (dependentsConsistencyError) {
+    pushError(diagnostics, 'INPUT-E-001', {
+      field: 'dependents',
+      context: { field: 'dependents' },
+      message: dependentsConsistencyError,
+      phase: 'input-validation',
+    });
+  }
+
+  // === Children Age Warnings ===
+  const childAgeWarnings = TaxInputValidator.validateQualifyingChildrenAges(input);
+  childAgeWarnings.forEach((message) => {
+    pushWarning(diagnostics, 'CREDIT-W-006', {
+      field: 'qualifyingChildren',
+      message,
+      phase: 'input-validation',
+    });
+  });
+
+  // === Income Reasonableness ===
+  const withholdingWarning = TaxInputValidator.validateWithholdingReasonableness(input);
+  if (withholdingWarning) {
+    pushWarning(diagnostics, 'INPUT-W-001', {
+      field: 'payments.federalWithheld',
+      message: withholdingWarning,
+      phase: 'input-validation',
+    });
+  }
+
+  const negativeIncomeWarnings = TaxInputValidator.validateNegativeIncome(input);
+  negativeIncomeWarnings.forEach((message) => {
+    pushWarning(diagnostics, 'INPUT-W-002', {
+      field: 'income',
+      message,
+      phase: 'input-validation',
+    });
+  });
+
+  // === Education Expenses Consistency ===
+  const educationConsistencyWarning = TaxInputValidator.validateEducationExpensesConsistency(input);
+  if (educationConsistencyWarning) {
+    pushWarning(diagnostics, 'INPUT-W-003', {
+      field: 'educationExpenses',
+      message: educationConsistencyWarning,
+      phase: 'input-validation',
+    });
+  }
+
+  // === QBI Consistency ===
+  const qbiConsistencyWarning = TaxInputValidator.validateQBIConsistency(input);
+  if (qbiConsistencyWarning) {
+    pushWarning(diagnostics, 'INPUT-W-004', {
+      field: 'qbiBusinesses',
+      message: qbiConsistencyWarning,
+      phase: 'input-validation',
+    });
+  }
+
+  // === Itemized Deductions Reasonableness ===
+  const itemizedWarnings = TaxInputValidator.validateItemizedDeductionsReasonableness(input);
+  itemizedWarnings.forEach((message) => {
+    pushWarning(diagnostics, 'INPUT-W-005', {
+      field: 'itemized',
+      message,
+      phase: 'input-validation',
+    });
+  });
+}
+
+interface DiagnosticOptions {
+  field?: string;
+  context?: Record<string, unknown>;
+  message?: string;
+  phase?: import('../types').CalculationPhase;
+}
+
+function pushWarning(
+  diagnostics: FederalDiagnostics2025,
+  code: DiagnosticCode,
+  options: DiagnosticOptions = {}
+): void {
+  addWarning(diagnostics, code, options.context, options.field, options.phase);
+  if (options.message) {
+    const last = diagnostics.warnings[diagnostics.warnings.length - 1];
+    if (last && last.code === code) {
+      last.message = options.message;
+    }
+  }
+}
+
+function pushError(
+  diagnostics: FederalDiagnostics2025,
+  code: DiagnosticCode,
+  options: DiagnosticOptions = {}
+): void {
+  addError(diagnostics, code, options.context, options.field, options.phase);
+  if (options.message) {
+    const last = diagnostics.errors[diagnostics.errors.length - 1];
+    if (last && last.code === code) {
+      last.message = options.message;
+    }
+  }
+}
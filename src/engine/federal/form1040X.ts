@@ -0,0 +1,288 @@
+/**
+ * Form 1040-X: Amended U.S. Individual Income Tax Return
+ *
+ * Recomputes an originally filed return with corrections and lays out the
+ * three-column comparison from Part I:
+ * - Column A: as originally reported
+ * - Column B: net change
+ * - Column C: correct amount
+ *
+ * Lines 16-23 reconcile the corrected tax against what was already paid with
+ * the original return or refunded from it. Penalties and interest are not
+ * part of the 1040-X, so the Form 2210 penalty is left out of both sides.
+ *
+ * @see https://www.irs.gov/forms-pubs/about-form-1040x
+ */
+
+import type {
+  AmendedReturnInput,
+  FederalInput2025,
+  FederalResult2025,
+  Form1040XLine,
+  Form1040XResult,
+} from '../types';
+import { addCents, formatCents, max0 } from '../util/money';
+import { createDiagnostics, addWarning } from '../diagnostics';
+import { computeFederal } from './computeFederal';
+
+/**
+ * Input sections whose numeric fields are amounts in cents
+ */
+const MONEY_SECTIONS = ['income', 'adjustments', 'itemized', 'payments'];
+
+/**
+ * Compute an amended return from the original snapshot and corrected input
+ *
+ * @param input Original return, corrected input and payment options
+ * @returns Form 1040-X lines, balance due or refund, and explanation of changes
+ */
+export function computeAmendedReturn(input: AmendedReturnInput): Form1040XResult {
+  const { original, corrected } = input;
+  const diagnostics = createDiagnostics();
+
+  if (
+    original.input.filingStatus === 'marriedJointly' &&
+    corrected.filingStatus === 'marriedSeparately'
+  ) {
+    addWarning(diagnostics, 'FORM-W-011', undefined, 'filingStatus', 'input-validation');
+  }
+
+  const correctedResult = computeFederal(corrected, original.taxYear);
+  const lines = buildForm1040XLines(original.result, correctedResult);
+  const line = (id: string) => lines.find((l) => l.line === id)!.corrected;
+
+  // Line 16: balance paid with the original return, plus tax paid since
+  const originalBalance = balanceBeforePenalty(original.result);
+  const paidWithOriginal = addCents(max0(-originalBalance), input.additionalTaxPaid ?? 0);
+
+  // Line 17: Column C payments and refundable credits (Lines 12-15) plus Line 16
+  const totalPayments = addCents(line('12'), line('13'), line('14'), line('15'), paidWithOriginal);
+
+  // Lines 18-19: remove the overpayment already refunded or applied
+  const originalOverpayment = max0(originalBalance);
+  const remainingPayments = totalPayments - originalOverpayment;
+
+  const totalTax = line('11');
+  const amountOwed = max0(totalTax - remainingPayments);
+  const overpayment = max0(remainingPayments - totalTax);
+  const appliedToEstimatedTax = Math.min(input.appliedToEstimatedTax ?? 0, overpayment);
+
+  if (amountOwed > 0) {
+    addWarning(
+      diagnostics,
+      'PAYMENT-W-006',
+      { owed: formatCents(amountOwed) },
+      'amountOwed',
+      'payments'
+    );
+  }
+
+  return {
+    taxYear: correctedResult.taxYear ?? original.taxYear,
+    lines,
+    paidWithOriginal,
+    totalPayments,
+    originalOverpayment,
+    amountOwed,
+    overpayment,
+    refund: overpayment - appliedToEstimatedTax,
+    appliedToEstimatedTax,
+    explanation: buildExplanationOfChanges(lines, original.input, corrected, input.reason),
+    correctedResult,
+    diagnostics,
+  };
+}
+
+/**
+ * Build Form 1040-X Part I Lines 1-15 from two federal results
+ *
+ * @param original Result as originally filed (Column A)
+ * @param corrected Recomputed result (Column C)
+ * @returns Three-column lines in form order
+ */
+export function buildForm1040XLines(
+  original: FederalResult2025,
+  corrected: FederalResult2025
+): Form1040XLine[] {
+  const a = extractLineAmounts(original);
+  const c = extractLineAmounts(corrected);
+
+  return LINE_LABELS.map(([line, label]) => ({
+    line,
+    label,
+    original: a[line] ?? 0,
+    netChange: (c[line] ?? 0) - (a[line] ?? 0),
+    corrected: c[line] ?? 0,
+  }));
+}
+
+const LINE_LABELS: Array<[string, string]> = [
+  ['1', 'Adjusted gross income'],
+  ['2', 'Itemized deductions or standard deduction'],
+  ['3', 'Subtract line 2 from line 1'],
+  ['4b', 'Qualified business income deduction'],
+  ['5', 'Taxable income'],
+  ['6', 'Tax'],
+  ['7', 'Nonrefundable credits'],
+  ['8', 'Subtract line 7 from line 6'],
+  ['10', 'Other taxes'],
+  ['11', 'Total tax'],
+  ['12', 'Federal income tax withheld'],
+  ['13', 'Estimated tax payments'],
+  ['14', 'Earned income credit (EIC)'],
+  ['15', 'Refundable credits'],
+];
+
+/**
+ * Map a federal result onto Form 1040-X line amounts
+ */
+function extractLineAmounts(result: FederalResult2025): Record<string, number> {
+  const { credits } = result;
+  const deduction =
+    result.deductionType === 'itemized'
+      ? (result.itemizedDeduction ?? 0)
+      : result.standardDeduction;
+  const nonRefundableCredits = addCents(
+    credits.ctc || 0,
+    credits.aotc || 0,
+    credits.llc || 0,
+    credits.ftc || 0,
+    credits.elderlyDisabled || 0,
+    credits.adoptionCreditNonRefundable || 0,
+    credits.residentialCleanEnergy || 0,
+    credits.energyEfficientHomeImprovement || 0,
+    credits.cleanVehicle || 0,
+    credits.usedCleanVehicle || 0,
+    credits.otherNonRefundable || 0
+  );
+  const taxAfterCredits = max0(result.taxBeforeCredits - nonRefundableCredits);
+  const payments = result.paymentBreakdown;
+
+  return {
+    '1': result.agi,
+    '2': deduction,
+    '3': max0(result.agi - deduction),
+    // The engine takes the NOL deduction after QBI, so it is reported here
+    '4b': addCents(result.qbiDeduction ?? 0, result.nolDeduction ?? 0),
+    '5': result.taxableIncome,
+    '6': result.taxBeforeCredits,
+    '7': nonRefundableCredits,
+    '8': taxAfterCredits,
+    '10': result.totalTax - taxAfterCredits,
+    '11': result.totalTax,
+    '12': addCents(
+      payments?.federalWithheld ?? 0,
+      payments?.retirementDistributionWithholding ?? 0
+    ),
+    '13': payments?.estimatedPayments ?? 0,
+    '14': credits.eitc || 0,
+    // EITC advance payments are reported with the other refundable credits
+    '15': addCents(
+      credits.adoptionCreditRefundable || 0,
+      credits.ptc || 0,
+      credits.excessSocialSecurity || 0,
+      credits.otherRefundable || 0,
+      payments?.eitcAdvancePayments ?? 0
+    ),
+  };
+}
+
+/**
+ * Refund (positive) or amount owed (negative) before the Form 2210 penalty
+ */
+function balanceBeforePenalty(result: FederalResult2025): number {
+  return result.refundOrOwe + (result.estimatedTaxPenalty ?? 0);
+}
+
+/**
+ * Build the Part II explanation of changes
+ *
+ * Lists the reason given, each Form 1040-X line that changed, and the
+ * corrected entries that caused the changes.
+ *
+ * @param lines Form 1040-X Lines 1-15
+ * @param original Input as originally filed
+ * @param corrected Input with corrections applied
+ * @param reason Reason for amending
+ * @returns Explanation text, one sentence per line
+ */
+export function buildExplanationOfChanges(
+  lines: Form1040XLine[],
+  original: FederalInput2025,
+  corrected: FederalInput2025,
+  reason?: string
+): string {
+  const sentences: string[] = [];
+
+  if (reason) {
+    sentences.push(`Reason for amending: ${reason.trim()}`);
+  }
+
+  if (original.filingStatus !== corrected.filingStatus) {
+    sentences.push(
+      `Filing status changed from ${original.filingStatus} to ${corrected.filingStatus}.`
+    );
+  }
+
+  for (const line of lines) {
+    if (line.netChange === 0) {
+      continue;
+    }
+    const direction = line.netChange > 0 ? 'increased' : 'decreased';
+    sentences.push(
+      `Line ${line.line} (${line.label}) ${direction} by ${formatCents(Math.abs(line.netChange))}, from ${formatCents(line.original)} to ${formatCents(line.corrected)}.`
+    );
+  }
+
+  const changes = diffInputs(original, corrected);
+  if (changes.length > 0) {
+    sentences.push(`Corrected entries: ${changes.join('; ')}.`);
+  }
+
+  if (sentences.length === 0) {
+    sentences.push('No changes to income, deductions, credits, tax or payments.');
+  }
+
+  return sentences.join('\n');
+}
+
+/**
+ * List changed input fields as "path: old → new"
+ */
+function diffInputs(original: FederalInput2025, corrected: FederalInput2025): string[] {
+  const changes: string[] = [];
+
+  const walk = (a: unknown, b: unknown, path: string) => {
+    if (isObject(a) || isObject(b)) {
+      const left = isObject(a) ? a : {};
+      const right = isObject(b) ? b : {};
+      const keys = Array.from(new Set([...Object.keys(left), ...Object.keys(right)]));
+      for (const key of keys) {
+        walk(left[key], right[key], path ? `${path}.${key}` : key);
+      }
+      return;
+    }
+    if (a === b || path === 'filingStatus') {
+      return;
+    }
+    const isMoney = MONEY_SECTIONS.includes(path.split('.')[0] ?? '');
+    changes.push(`${path}: ${formatValue(a, isMoney)} → ${formatValue(b, isMoney)}`);
+  };
+
+  walk(original, corrected, '');
+  return changes;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function formatValue(value: unknown, isMoney: boolean): string {
+  if (value === undefined || value === null) {
+    return 'none';
+  }
+  if (typeof value === 'number' && isMoney) {
+    return formatCents(value);
+  }
+  return String(value);
+}
@@ -0,0 +1,327 @@
+/**
+ * Form W-2 - Wage and Tax Statement
+ *
+ * Models every box of a W-2 and maps a set of W-2s onto the return:
+ * - Box 1 wages and Box 2 withholding to Form 1040 Lines 1a and 25a
+ * - Box 12 code W (employer HSA contributions) to Form 8889
+ * - Box 13 retirement plan checkbox to the IRA deduction phaseout
+ * - Boxes 15-20 to state and local withholding by jurisdiction
+ *
+ * Also checks Social Security and Medicare amounts for consistency: Box 3
+ * plus Box 7 cannot exceed the wage base, Box 4 should be 6.2% of them and
+ * Box 6 at least 1.45% of Box 5.
+ *
+ * Sources:
+ * - General Instructions for Forms W-2 and W-3
+ * - IRC §3101 (employee FICA), §3102(f) (Additional Medicare Tax withholding)
+ */
+
+import type { FederalInput2025 } from '../types';
+import type { MultiStateTaxInput } from '../types/stateTax';
+import { EMPLOYEE_FICA_RATES } from '../rules/2025/federal/medicareSocialSecurity';
+import { addCents, multiplyCents } from '../util/money';
+
+/** Tolerance for rounding in employer FICA withholding (in cents) */
+const FICA_TOLERANCE = 100;
+
+/**
+ * Box 12 codes
+ */
+export type W2Box12Code =
+  | 'A' // Uncollected Social Security tax on tips
+  | 'B' // Uncollected Medicare tax on tips
+  | 'C' // Taxable cost of group-term life insurance over $50,000
+  | 'D' // Elective deferrals to a 401(k)
+  | 'E' // Elective deferrals to a 403(b)
+  | 'F' // Elective deferrals to a 408(k)(6) SEP
+  | 'G' // Elective and nonelective deferrals to a 457(b)
+  | 'H' // Elective deferrals to a 501(c)(18)(D) plan
+  | 'J' // Nontaxable sick pay
+  | 'K' // 20% excise tax on excess golden parachute payments
+  | 'L' // Substantiated employee business expense reimbursements
+  | 'M' // Uncollected Social Security tax on group-term life insurance
+  | 'N' // Uncollected Medicare tax on group-term life insurance
+  | 'P' // Excludable moving expense reimbursements (Armed Forces)
+  | 'Q' // Nontaxable combat pay
+  | 'R' // Employer contributions to an Archer MSA
+  | 'S' // Salary reductions to a SIMPLE plan
+  | 'T' // Adoption benefits
+  | 'V' // Income from exercise of nonstatutory stock options
+  | 'W' // Employer contributions to a health savings account
+  | 'Y' // Deferrals under a 409A nonqualified deferred compensation plan
+  | 'Z' // Income under a 409A plan that fails to satisfy §409A
+  | 'AA' // Designated Roth contributions to a 401(k)
+  | 'BB' // Designated Roth contributions to a 403(b)
+  | 'DD' // Cost of employer-sponsored health coverage
+  | 'EE' // Designated Roth contributions to a governmental 457(b)
+  | 'FF' // Permitted benefits under a QSEHRA
+  | 'GG' // Income from qualified equity grants under §83(i)
+  | 'HH' // Aggregate deferrals under §83(i) elections
+  | 'II'; // Medicaid waiver payments excluded from income
+
+/**
+ * Box 12 codes for elective deferrals and designated Roth contributions
+ * (Form 8880 retirement savings contributions)
+ */
+export const ELECTIVE_DEFERRAL_CODES: W2Box12Code[] = [
+  'D',
+  'E',
+  'F',
+  'G',
+  'H',
+  'S',
+  'AA',
+  'BB',
+  'EE',
+];
+
+export interface W2Box12Entry {
+  code: W2Box12Code;
+  amount: number; // cents
+}
+
+/**
+ * Box 14: Other (employer-defined labels such as SDI, union dues)
+ */
+export interface W2Box14Entry {
+  label: string;
+  amount: number; // cents
+}
+
+/**
+ * Boxes 15-20: one state or local line
+ */
+export interface W2StateLine {
+  state: string; // Box 15: Two-letter state code
+  employerStateId?: string; // Box 15
+  stateWages: number; // Box 16 (cents)
+  stateWithheld: number; // Box 17 (cents)
+  localWages?: number; // Box 18 (cents)
+  localWithheld?: number; // Box 19 (cents)
+  locality?: string; // Box 20
+}
+
+/**
+ * A single Form W-2
+ */
+export interface FormW2 {
+  /** Whose W-2 this is (Social Security limits and IRA coverage are per person) */
+  employee: 'taxpayer' | 'spouse';
+
+  employerName?: string;
+  employerEIN?: string;
+
+  wages: number; // Box 1 (cents)
+  federalWithheld: number; // Box 2 (cents)
+  socialSecurityWages: number; // Box 3 (cents)
+  socialSecurityTaxWithheld: number; // Box 4 (cents)
+  medicareWages: number; // Box 5 (cents)
+  medicareTaxWithheld: number; // Box 6 (cents)
+  socialSecurityTips?: number; // Box 7 (cents)
+  allocatedTips?: number; // Box 8 (cents)
+  dependentCareBenefits?: number; // Box 10 (cents)
+  nonqualifiedPlans?: number; // Box 11 (cents)
+  box12?: W2Box12Entry[];
+
+  /** Box 13 checkboxes */
+  statutoryEmployee?: boolean;
+  retirementPlan?: boolean;
+  thirdPartySickPay?: boolean;
+
+  box14?: W2Box14Entry[];
+  stateLines?: W2StateLine[];
+}
+
+/**
+ * Totals across W-2s
+ */
+export interface W2Summary {
+  wages: number;
+  federalWithheld: number;
+  socialSecurityWages: number; // Boxes 3 + 7
+  medicareWages: number;
+  box12Totals: Partial<Record<W2Box12Code, number>>;
+  hsaEmployerContributions: number; // Box 12 code W
+  electiveDeferrals: { taxpayer: number; spouse: number }; // Box 12 deferral codes
+  dependentCareBenefits: number;
+  retirementPlanCovered: { taxpayer: boolean; spouse: boolean };
+  stateWithheldByState: Record<string, number>;
+  stateWagesByState: Record<string, number>;
+  localWithheldByLocality: Record<string, number>;
+}
+
+/**
+ * A Social Security or Medicare consistency problem on one W-2
+ */
+export interface W2Issue {
+  index: number; // Position in the W-2 list
+  field: 'socialSecurityWages' | 'socialSecurityTaxWithheld' | 'medicareTaxWithheld';
+  expected: number; // cents
+  actual: number; // cents
+}
+
+/**
+ * Total a set of W-2s by box, person and jurisdiction
+ */
+export function summarizeW2s(w2s: FormW2[]): W2Summary {
+  const summary: W2Summary = {
+    wages: 0,
+    federalWithheld: 0,
+    socialSecurityWages: 0,
+    medicareWages: 0,
+    box12Totals: {},
+    hsaEmployerContributions: 0,
+    electiveDeferrals: { taxpayer: 0, spouse: 0 },
+    dependentCareBenefits: 0,
+    retirementPlanCovered: { taxpayer: false, spouse: false },
+    stateWithheldByState: {},
+    stateWagesByState: {},
+    localWithheldByLocality: {},
+  };
+
+  for (const w2 of w2s) {
+    summary.wages += w2.wages;
+    summary.federalWithheld += w2.federalWithheld;
+    summary.socialSecurityWages += addCents(w2.socialSecurityWages, w2.socialSecurityTips);
+    summary.medicareWages += w2.medicareWages;
+    summary.dependentCareBenefits += w2.dependentCareBenefits || 0;
+    if (w2.retirementPlan) {
+      summary.retirementPlanCovered[w2.employee] = true;
+    }
+
+    for (const { code, amount } of w2.box12 || []) {
+      summary.box12Totals[code] = addCents(summary.box12Totals[code], amount);
+      if (code === 'W') {
+        summary.hsaEmployerContributions += amount;
+      }
+      if (ELECTIVE_DEFERRAL_CODES.includes(code)) {
+        summary.electiveDeferrals[w2.employee] += amount;
+      }
+    }
+
+    for (const line of w2.stateLines || []) {
+      const state = line.state.toUpperCase();
+      summary.stateWithheldByState[state] = addCents(
+        summary.stateWithheldByState[state],
+        line.stateWithheld
+      );
+      summary.stateWagesByState[state] = addCents(
+        summary.stateWagesByState[state],
+        line.stateWages
+      );
+      if (line.localWithheld) {
+        const locality = line.locality || state;
+        summary.localWithheldByLocality[locality] = addCents(
+          summary.localWithheldByLocality[locality],
+          line.localWithheld
+        );
+      }
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Check Social Security and Medicare boxes against the wage base and rates
+ *
+ * @param w2s W-2s to check
+ * @param ssWageBase Social Security wage base for the year (cents)
+ * @returns One issue per inconsistent box
+ */
+export function validateW2s(w2s: FormW2[], ssWageBase: number): W2Issue[] {
+  const issues: W2Issue[] = [];
+
+  w2s.forEach((w2, index) => {
+    const ssWages = addCents(w2.socialSecurityWages, w2.socialSecurityTips);
+    if (ssWages > ssWageBase) {
+      issues.push({ index, field: 'socialSecurityWages', expected: ssWageBase, actual: ssWages });
+    }
+
+    const expectedSS = multiplyCents(
+      Math.min(ssWages, ssWageBase),
+      EMPLOYEE_FICA_RATES.socialSecurity
+    );
+    if (Math.abs(w2.socialSecurityTaxWithheld - expectedSS) > FICA_TOLERANCE) {
+      issues.push({
+        index,
+        field: 'socialSecurityTaxWithheld',
+        expected: expectedSS,
+        actual: w2.socialSecurityTaxWithheld,
+      });
+    }
+
+    const minimumMedicare = multiplyCents(w2.medicareWages, EMPLOYEE_FICA_RATES.medicare);
+    if (w2.medicareTaxWithheld + FICA_TOLERANCE < minimumMedicare) {
+      issues.push({
+        index,
+        field: 'medicareTaxWithheld',
+        expected: minimumMedicare,
+        actual: w2.medicareTaxWithheld,
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Map W-2s onto a federal input
+ *
+ * Replaces wages and W-2 withholding with the W-2 totals, sets the IRA
+ * retirement plan coverage flags and employer HSA contributions, and keeps
+ * the W-2s on the input for per-employee calculations. Withholding from
+ * other sources already in `otherFederalWithheld` is added back.
+ *
+ * @param input Federal input to update
+ * @param w2s W-2s for the taxpayer and spouse
+ * @param otherFederalWithheld Federal withholding not from W-2s (cents)
+ */
+export function applyW2sToFederalInput(
+  input: FederalInput2025,
+  w2s: FormW2[],
+  otherFederalWithheld = 0
+): FederalInput2025 {
+  const summary = summarizeW2s(w2s);
+
+  return {
+    ...input,
+    income: { ...input.income, wages: summary.wages },
+    adjustments: {
+      ...input.adjustments,
+      iraContributorCoveredByPlan: summary.retirementPlanCovered.taxpayer,
+      iraSpouseCoveredByPlan: summary.retirementPlanCovered.spouse,
+      hsaEmployerContributions: summary.hsaEmployerContributions,
+    },
+    payments: {
+      ...input.payments,
+      federalWithheld: addCents(summary.federalWithheld, otherFederalWithheld),
+    },
+    w2Forms: w2s,
+  };
+}
+
+/**
+ * Map W-2 state lines onto a multi-state input
+ *
+ * Replaces state withholding with the Box 17 totals by state (Box 15).
+ * Withholding from other sources already in `otherStateWithheldByState` is
+ * added back.
+ *
+ * @param input Multi-state input to update
+ * @param w2s W-2s for the taxpayer and spouse
+ * @param otherStateWithheldByState State withholding not from W-2s by state code (cents)
+ */
+export function applyW2sToStateInput(
+  input: MultiStateTaxInput,
+  w2s: FormW2[],
+  otherStateWithheldByState: Record<string, number> = {}
+): MultiStateTaxInput {
+  const stateWithheldByState = { ...summarizeW2s(w2s).stateWithheldByState };
+  for (const [state, amount] of Object.entries(otherStateWithheldByState)) {
+    const code = state.toUpperCase();
+    stateWithheldByState[code] = addCents(stateWithheldByState[code], amount);
+  }
+
+  return { ...input, stateWithheldByState };
+}
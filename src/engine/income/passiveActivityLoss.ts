@@ -0,0 +1,288 @@
+/**
+ * Passive Activity Loss Limitations (Form 8582)
+ *
+ * Limits the losses from passive activities that can be deducted against
+ * nonpassive income and tracks the unallowed losses carried forward.
+ *
+ * Key Rules:
+ * - Passive losses are allowed to the extent of passive income
+ * - Up to $25,000 of rental real estate losses with active participation
+ *   are allowed against nonpassive income; the allowance is reduced by 50%
+ *   of modified AGI over $100,000 ($12,500 and $50,000 for MFS who lived
+ *   apart all year; $0 for MFS who lived with their spouse)
+ * - Unallowed losses are allocated to loss activities pro rata and carried
+ *   forward to the next year (Form 8582 Worksheets 5-7)
+ * - A fully taxable disposition of an entire interest releases the
+ *   activity's suspended losses
+ * - Rentals of a real estate professional who materially participates are
+ *   nonpassive; suspended losses from prior passive years offset only that
+ *   activity's income
+ *
+ * Sources:
+ * - IRC §469(a), §469(d)(1): Disallowance of passive activity losses
+ * - IRC §469(b): Carryforward of disallowed losses
+ * - IRC §469(c)(7): Real estate professionals
+ * - IRC §469(f): Former passive activities
+ * - IRC §469(g): Disposition of entire interest
+ * - IRC §469(i): $25,000 offset for rental real estate activities
+ * - IRS Publication 925 (Passive Activity and At-Risk Rules), Form 8582 Instructions
+ */
+
+import type { FilingStatus } from '../types';
+import {
+  PASSIVE_LOSS_SPECIAL_ALLOWANCE_2025,
+  PASSIVE_LOSS_MFS_LIVED_TOGETHER_2025,
+} from '../rules/2025/federal/passiveActivity';
+import { addCents, max0, multiplyCents } from '../util/money';
+
+/**
+ * A single activity reported on Form 8582
+ */
+export interface PassiveActivity {
+  /** Activity name (for display and carryforward tracking) */
+  name: string;
+
+  /** Current year net income or (loss) (in cents) */
+  netIncome: number;
+
+  /** Prior year unallowed loss (positive, in cents) */
+  priorYearUnallowedLoss?: number;
+
+  /** Rental real estate with active participation (Form 8582 Part I Line 1) */
+  activeParticipation?: boolean;
+
+  /** Rental real estate of a real estate professional who materially participates */
+  nonpassive?: boolean;
+
+  /** Entire interest disposed of in a fully taxable transaction */
+  disposedOfEntireInterest?: boolean;
+}
+
+/**
+ * Input for the passive activity loss limitation
+ */
+export interface PassiveActivityLossInput {
+  filingStatus: FilingStatus;
+  livedWithSpouse?: boolean; // MFS only: lived with spouse at any time during the year
+  modifiedAGI: number; // Form 8582 Line 7 (cents)
+  activities: PassiveActivity[];
+}
+
+/**
+ * Form 8582 result for one activity
+ */
+export interface PassiveActivityResult {
+  name: string;
+  netIncome: number; // Current year net income or (loss) (cents)
+  priorYearUnallowedLoss: number; // (cents)
+  allowedLoss: number; // Current and prior year losses allowed this year (cents)
+  unallowedLoss: number; // Loss carried forward to next year (cents)
+  reportedIncome: number; // Net amount reported on the return (cents)
+}
+
+/**
+ * Result of the passive activity loss limitation
+ */
+export interface PassiveActivityLossResult {
+  // Part I - Rental real estate with active participation
+  rentalActiveIncome: number; // Line 1a (cents)
+  rentalActiveLoss: number; // Line 1b (cents, positive)
+  rentalActivePriorLoss: number; // Line 1c (cents, positive)
+  rentalActiveNet: number; // Line 1d (cents)
+
+  // Part I - All other passive activities
+  otherPassiveIncome: number; // Line 3a (cents)
+  otherPassiveLoss: number; // Line 3b (cents, positive)
+  otherPassivePriorLoss: number; // Line 3c (cents, positive)
+  otherPassiveNet: number; // Line 3d (cents)
+
+  combinedNet: number; // Line 4 (cents)
+
+  // Part II - Special allowance
+  mfsLivedWithSpouse: boolean;
+  specialAllowanceLimit: number; // Line 9 (cents)
+  specialAllowance: number; // Line 10 (cents)
+
+  totalLossesAllowed: number; // Line 16, current and prior year losses allowed (cents)
+  suspendedLossCarryforward: number; // Total unallowed loss carried forward (cents)
+
+  netPassiveIncome: number; // Passive income less allowed passive losses (cents)
+  nonpassiveIncome: number; // Real estate professional and disposition results (cents)
+  realEstateProfessionalIncome: number; // Nonpassive rental real estate, part of nonpassiveIncome (cents)
+  totalIncome: number; // Net amount reported on the return (cents)
+
+  activities: PassiveActivityResult[];
+}
+
+/**
+ * Apply the passive activity loss limitation
+ *
+ * @param input Activities, filing status and modified AGI
+ * @returns Form 8582 lines, per-activity allowed/unallowed losses and carryforward
+ */
+export function computePassiveActivityLoss2025(
+  input: PassiveActivityLossInput
+): PassiveActivityLossResult {
+  const results: PassiveActivityResult[] = [];
+  const rentalGroup: PassiveActivity[] = [];
+  const otherGroup: PassiveActivity[] = [];
+  let nonpassiveIncome = 0;
+  let realEstateProfessionalIncome = 0;
+
+  for (const activity of input.activities) {
+    const prior = activity.priorYearUnallowedLoss || 0;
+
+    if (activity.nonpassive) {
+      // §469(f): Prior passive losses offset only this activity's income
+      const allowedPrior = Math.min(prior, max0(activity.netIncome));
+      const reportedIncome = activity.netIncome - allowedPrior;
+      nonpassiveIncome += reportedIncome;
+      realEstateProfessionalIncome += reportedIncome;
+      results.push({
+        name: activity.name,
+        netIncome: activity.netIncome,
+        priorYearUnallowedLoss: prior,
+        allowedLoss: max0(-activity.netIncome) + allowedPrior,
+        unallowedLoss: prior - allowedPrior,
+        reportedIncome,
+      });
+      continue;
+    }
+
+    if (activity.disposedOfEntireInterest) {
+      const net = activity.netIncome - prior;
+      if (net < 0) {
+        // §469(g): Net loss on full disposition is not limited
+        nonpassiveIncome += net;
+        results.push({
+          name: activity.name,
+          netIncome: activity.netIncome,
+          priorYearUnallowedLoss: prior,
+          allowedLoss: max0(-activity.netIncome) + prior,
+          unallowedLoss: 0,
+          reportedIncome: net,
+        });
+        continue;
+      }
+    }
+
+    if (activity.activeParticipation) {
+      rentalGroup.push(activity);
+    } else {
+      otherGroup.push(activity);
+    }
+  }
+
+  const sumGroup = (group: PassiveActivity[]) => ({
+    income: addCents(...group.map((a) => max0(a.netIncome))),
+    loss: addCents(...group.map((a) => max0(-a.netIncome))),
+    priorLoss: addCents(...group.map((a) => a.priorYearUnallowedLoss || 0)),
+  });
+
+  // Lines 1a-1d and 3a-3d
+  const rental = sumGroup(rentalGroup);
+  const rentalActiveNet = rental.income - rental.loss - rental.priorLoss;
+  const other = sumGroup(otherGroup);
+  const otherPassiveNet = other.income - other.loss - other.priorLoss;
+
+  // Line 4
+  const combinedNet = rentalActiveNet + otherPassiveNet;
+
+  // Part II, Lines 5-10: Special allowance for rental real estate
+  const mfsLivedWithSpouse =
+    input.filingStatus === 'marriedSeparately' && input.livedWithSpouse === true;
+  const allowance = mfsLivedWithSpouse
+    ? PASSIVE_LOSS_MFS_LIVED_TOGETHER_2025
+    : PASSIVE_LOSS_SPECIAL_ALLOWANCE_2025[input.filingStatus];
+  const specialAllowanceLimit = Math.min(
+    allowance.maximumAllowance,
+    max0(
+      allowance.maximumAllowance -
+        multiplyCents(max0(input.modifiedAGI - allowance.phaseoutStart), allowance.phaseoutRate)
+    )
+  );
+  let specialAllowance = 0;
+  if (rentalActiveNet < 0 && combinedNet < 0) {
+    const line5 = Math.min(-rentalActiveNet, -combinedNet);
+    specialAllowance = Math.min(line5, specialAllowanceLimit);
+  }
+
+  // Losses allowed by group: own income, the other group's net income, and
+  // (for rental real estate) the special allowance
+  const rentalLosses = rental.loss + rental.priorLoss;
+  const rentalAllowed =
+    combinedNet >= 0
+      ? rentalLosses
+      : Math.min(rentalLosses, rental.income + max0(otherPassiveNet) + specialAllowance);
+  const otherLosses = other.loss + other.priorLoss;
+  const otherAllowed =
+    combinedNet >= 0 ? otherLosses : Math.min(otherLosses, other.income + max0(rentalActiveNet));
+
+  results.push(
+    ...allocateUnallowedLoss(rentalGroup, rentalLosses - rentalAllowed),
+    ...allocateUnallowedLoss(otherGroup, otherLosses - otherAllowed)
+  );
+
+  const netPassiveIncome = rental.income + other.income - addCents(rentalAllowed, otherAllowed);
+  const suspendedLossCarryforward = addCents(...results.map((r) => r.unallowedLoss));
+
+  return {
+    rentalActiveIncome: rental.income,
+    rentalActiveLoss: rental.loss,
+    rentalActivePriorLoss: rental.priorLoss,
+    rentalActiveNet,
+    otherPassiveIncome: other.income,
+    otherPassiveLoss: other.loss,
+    otherPassivePriorLoss: other.priorLoss,
+    otherPassiveNet,
+    combinedNet,
+    mfsLivedWithSpouse,
+    specialAllowanceLimit,
+    specialAllowance,
+    totalLossesAllowed: addCents(rentalAllowed, otherAllowed),
+    suspendedLossCarryforward,
+    netPassiveIncome,
+    nonpassiveIncome,
+    realEstateProfessionalIncome,
+    totalIncome: netPassiveIncome + nonpassiveIncome,
+    activities: results,
+  };
+}
+
+/**
+ * Allocate a group's unallowed loss to its loss activities in proportion
+ * to each activity's total loss (Form 8582 Worksheet 5)
+ */
+function allocateUnallowedLoss(
+  group: PassiveActivity[],
+  unallowedTotal: number
+): PassiveActivityResult[] {
+  const losses = group.map((a) => max0(-a.netIncome) + (a.priorYearUnallowedLoss || 0));
+  const totalLoss = addCents(...losses);
+  let remaining = unallowedTotal;
+  let lossActivitiesLeft = losses.filter((l) => l > 0).length;
+
+  return group.map((activity, i) => {
+    const loss = losses[i] || 0;
+    let unallowedLoss = 0;
+    if (loss > 0 && totalLoss > 0) {
+      lossActivitiesLeft -= 1;
+      // Last loss activity takes the remainder so the allocation sums exactly
+      unallowedLoss =
+        lossActivitiesLeft === 0
+          ? remaining
+          : Math.min(remaining, multiplyCents(unallowedTotal, loss / totalLoss));
+      remaining -= unallowedLoss;
+    }
+    const allowedLoss = loss - unallowedLoss;
+
+    return {
+      name: activity.name,
+      netIncome: activity.netIncome,
+      priorYearUnallowedLoss: activity.priorYearUnallowedLoss || 0,
+      allowedLoss,
+      unallowedLoss,
+      reportedIncome: max0(activity.netIncome) - allowedLoss,
+    };
+  });
+}
@@ -0,0 +1,224 @@
+/**
+ * Retirement Plan Distributions (Form 1099-R)
+ *
+ * Determines the taxable amount of pension, annuity, IRA, SEP and SIMPLE
+ * distributions (Form 1040 Lines 4a-5b) and the additional tax on early
+ * distributions (Form 5329 Part I).
+ *
+ * Key Rules:
+ * - Taxable amount starts from 1099-R Box 2a (Box 1 if not determined)
+ * - Direct rollovers (codes G, H) and qualified Roth distributions (code Q) are not taxable
+ * - Indirect rollovers completed within 60 days are excluded from income
+ * - Qualified charitable distributions (QCDs) from IRAs are excluded,
+ *   up to $108,000 per owner age 70½ or older
+ * - Early distributions (codes 1, J, S) owe a 10% additional tax on the
+ *   taxable part not covered by an exception; 25% for SIMPLE IRA
+ *   distributions in the first 2 years of participation (code S)
+ *
+ * Sources:
+ * - IRC §72(t): Additional tax on early distributions
+ * - IRC §408(d)(8): Qualified charitable distributions
+ * - IRS Publication 575 (Pension and Annuity Income), Publication 590-B
+ * - Form 1099-R and Form 5329 Instructions
+ */
+
+import {
+  EARLY_DISTRIBUTION_TAX_2025,
+  QCD_2025,
+  NONTAXABLE_DISTRIBUTION_CODES_2025,
+} from '../rules/2025/federal/retirementDistributions';
+import { max0, multiplyCents } from '../util/money';
+
+/**
+ * Form 1099-R Box 7 distribution code
+ */
+export type DistributionCode =
+  | '1' // Early distribution, no known exception
+  | '2' // Early distribution, exception applies
+  | '3' // Disability
+  | '4' // Death
+  | '7' // Normal distribution
+  | 'G' // Direct rollover to a qualified plan or IRA
+  | 'H' // Direct rollover of a designated Roth account to a Roth IRA
+  | 'J' // Early distribution from a Roth IRA
+  | 'Q' // Qualified distribution from a Roth IRA
+  | 'S' // Early distribution from a SIMPLE IRA in first 2 years, no known exception
+  | 'T'; // Roth IRA distribution, exception applies
+
+/**
+ * A single Form 1099-R
+ */
+export interface RetirementDistribution {
+  /** Payer name (for display) */
+  payerName?: string;
+
+  /** Whose account made the distribution (QCD limit and age are per owner) */
+  recipient?: 'taxpayer' | 'spouse';
+
+  /** Box 1: Gross distribution (in cents) */
+  grossDistribution: number;
+
+  /** Box 2a: Taxable amount (in cents). Defaults to Box 1 when omitted. */
+  taxableAmount?: number;
+
+  /** Box 2b: Taxable amount not determined */
+  taxableAmountNotDetermined?: boolean;
+
+  /** Box 4: Federal income tax withheld (in cents) */
+  federalWithheld?: number;
+
+  /** Box 7: Distribution code */
+  distributionCode: DistributionCode;
+
+  /** Box 7: IRA/SEP/SIMPLE checkbox (reported on Line 4 instead of Line 5) */
+  isIRASEPSIMPLE?: boolean;
+
+  /** Amount rolled over within 60 days (in cents) */
+  rolloverAmount?: number;
+
+  /** Amount paid directly to charity as a QCD (in cents, IRAs only) */
+  qcdAmount?: number;
+
+  /** Form 5329 Line 2: Early distributions covered by an exception (in cents) */
+  earlyDistributionExceptionAmount?: number;
+}
+
+/**
+ * Input for retirement distribution calculation
+ */
+export interface RetirementDistributionsInput {
+  distributions: RetirementDistribution[];
+
+  /** Taxpayer age at year end (for QCD eligibility) */
+  taxpayerAge?: number;
+
+  /** Spouse age at year end (for QCD eligibility) */
+  spouseAge?: number;
+}
+
+/**
+ * Result of retirement distribution calculation
+ */
+export interface RetirementDistributionsResult {
+  iraDistributions: number; // Line 4a (cents)
+  taxableIRADistributions: number; // Line 4b (cents)
+  pensionsAndAnnuities: number; // Line 5a (cents)
+  taxablePensionsAndAnnuities: number; // Line 5b (cents)
+  totalTaxable: number; // Line 4b + Line 5b (cents)
+
+  rollovers: number; // Excluded rollovers, direct and indirect (cents)
+  qualifiedCharitableDistributions: number; // Excluded QCDs (cents)
+  qcdDisallowed: number; // QCDs over the limit or below age 70½ (cents)
+
+  earlyDistributions: number; // Form 5329 Line 1 (cents)
+  earlyDistributionExceptions: number; // Form 5329 Line 2 (cents)
+  earlyDistributionsSubjectToTax: number; // Form 5329 Line 3 (cents)
+  additionalTax: number; // Form 5329 Line 4 (cents)
+
+  federalWithheld: number; // Total Box 4 withholding (cents)
+}
+
+/**
+ * Compute taxable retirement distributions and the early distribution additional tax
+ *
+ * @param input Retirement distributions input
+ * @returns Line 4/5 totals, Form 5329 Part I amounts and withholding
+ */
+export function computeRetirementDistributions2025(
+  input: RetirementDistributionsInput
+): RetirementDistributionsResult {
+  const result: RetirementDistributionsResult = {
+    iraDistributions: 0,
+    taxableIRADistributions: 0,
+    pensionsAndAnnuities: 0,
+    taxablePensionsAndAnnuities: 0,
+    totalTaxable: 0,
+    rollovers: 0,
+    qualifiedCharitableDistributions: 0,
+    qcdDisallowed: 0,
+    earlyDistributions: 0,
+    earlyDistributionExceptions: 0,
+    earlyDistributionsSubjectToTax: 0,
+    additionalTax: 0,
+    federalWithheld: 0,
+  };
+
+  // QCD limit is tracked per IRA owner
+  const qcdRemaining = {
+    taxpayer: QCD_2025.annualLimit,
+    spouse: QCD_2025.annualLimit,
+  };
+
+  for (const distribution of input.distributions) {
+    const owner = distribution.recipient ?? 'taxpayer';
+    const gross = distribution.grossDistribution;
+    result.federalWithheld += distribution.federalWithheld || 0;
+
+    let taxable: number;
+    if (
+      (NONTAXABLE_DISTRIBUTION_CODES_2025 as readonly string[]).includes(
+        distribution.distributionCode
+      )
+    ) {
+      // Direct rollovers and qualified Roth distributions
+      taxable = 0;
+      if (distribution.distributionCode !== 'Q') {
+        result.rollovers += gross;
+      }
+    } else {
+      taxable = distribution.taxableAmount ?? gross;
+
+      // Indirect (60-day) rollover
+      const rollover = Math.min(distribution.rolloverAmount || 0, taxable);
+      taxable -= rollover;
+      result.rollovers += rollover;
+
+      // Qualified charitable distribution (IRA owners 70½+)
+      const requestedQCD = Math.min(distribution.qcdAmount || 0, taxable);
+      if (requestedQCD > 0) {
+        const ownerAge = owner === 'spouse' ? input.spouseAge : input.taxpayerAge;
+        const isEligible =
+          distribution.isIRASEPSIMPLE === true &&
+          ownerAge !== undefined &&
+          ownerAge >= QCD_2025.minimumAge;
+        const allowedQCD = isEligible ? Math.min(requestedQCD, qcdRemaining[owner]) : 0;
+        qcdRemaining[owner] -= allowedQCD;
+        taxable -= allowedQCD;
+        result.qualifiedCharitableDistributions += allowedQCD;
+        result.qcdDisallowed += requestedQCD - allowedQCD;
+      }
+    }
+
+    if (distribution.isIRASEPSIMPLE) {
+      result.iraDistributions += gross;
+      result.taxableIRADistributions += taxable;
+    } else {
+      result.pensionsAndAnnuities += gross;
+      result.taxablePensionsAndAnnuities += taxable;
+    }
+
+    // Form 5329 Part I: early distributions with no known exception
+    if (
+      (EARLY_DISTRIBUTION_TAX_2025.codesSubjectToTax as readonly string[]).includes(
+        distribution.distributionCode
+      ) &&
+      taxable > 0
+    ) {
+      const exception = Math.min(distribution.earlyDistributionExceptionAmount || 0, taxable);
+      const subjectToTax = taxable - exception;
+      const rate =
+        distribution.distributionCode === 'S'
+          ? EARLY_DISTRIBUTION_TAX_2025.simpleIRAFirstTwoYearsRate
+          : EARLY_DISTRIBUTION_TAX_2025.standardRate;
+
+      result.earlyDistributions += taxable;
+      result.earlyDistributionExceptions += exception;
+      result.earlyDistributionsSubjectToTax += subjectToTax;
+      result.additionalTax += multiplyCents(subjectToTax, rate);
+    }
+  }
+
+  result.totalTaxable = max0(result.taxableIRADistributions + result.taxablePensionsAndAnnuities);
+
+  return result;
+}
@@ -0,0 +1,506 @@
+/**
+ * Form 8949 and Schedule D - Sales and Other Dispositions of Capital Assets
+ *
+ * Computes capital gains and losses from individual dispositions (lots):
+ * 1. Classify each lot as short- or long-term (held more than one year) and
+ *    into Form 8949 boxes A-F by how it was reported on Form 1099-B
+ * 2. Apply column (g) adjustments, including wash sale losses (code W):
+ *    a loss on a lot replaced within 30 days is disallowed and added to the
+ *    basis of the replacement lot, whose holding period includes the
+ *    original lot's
+ * 3. Net short- and long-term results with prior-year carryovers
+ *    (Schedule D Lines 7, 15 and 16)
+ * 4. Limit a net loss to $3,000 ($1,500 MFS) and carry the rest over,
+ *    keeping its character (Capital Loss Carryover Worksheet)
+ * 5. Separate 28% rate gain (collectibles) and unrecaptured §1250 gain
+ *    (Lines 18 and 19) for the Schedule D Tax Worksheet
+ *
+ * Sources:
+ * - IRC §1(h), §1091, §1211(b), §1212(b), §1222, §1223(3)
+ * - Form 8949 and Schedule D (Form 1040) Instructions
+ * - IRS Publication 550 (Investment Income and Expenses)
+ */
+
+import type { FilingStatus } from '../types';
+import { CAPITAL_LOSS_LIMIT_2025, WASH_SALE_WINDOW_DAYS } from '../rules/2025/federal/capitalGains';
+import { addCents, max0 } from '../util/money';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Form 8949 column (f) adjustment codes
+ */
+export type Form8949AdjustmentCode =
+  | 'B' // Basis shown on Form 1099-B is incorrect
+  | 'T' // Type of gain or loss shown on Form 1099-B is incorrect
+  | 'N' // Nominee for the actual owner
+  | 'H' // Sale of main home with excludable gain
+  | 'D' // Market discount on a bond
+  | 'Q' // Qualified small business stock exclusion
+  | 'X' // DC Zone or qualified community asset exclusion
+  | 'R' // Rollover of gain
+  | 'W' // Nondeductible wash sale loss
+  | 'L' // Nondeductible loss other than a wash sale
+  | 'E' // Selling expenses or option premiums not reflected on Form 1099-B
+  | 'S' // Loss from the sale of small business (section 1244) stock
+  | 'C' // Disposition of collectibles
+  | 'M' // Multiple transactions reported on a single row
+  | 'O' // Other adjustment
+  | 'Z' // Qualified opportunity fund gain deferral
+  | 'Y' // Previously reported qualified opportunity fund gain
+  | 'P'; // Personal property disposition
+
+/**
+ * Form 8949 check box: A-C short-term, D-F long-term
+ * - A / D: Reported on Form 1099-B with basis reported to the IRS
+ * - B / E: Reported on Form 1099-B without basis reported to the IRS
+ * - C / F: Not reported on Form 1099-B
+ */
+export type Form8949Box = 'A' | 'B' | 'C' | 'D' | 'E' | 'F';
+
+/**
+ * A column (g) adjustment to gain or loss
+ */
+export interface Form8949Adjustment {
+  code: Form8949AdjustmentCode;
+
+  /** Amount added to gain or loss; positive reduces a loss (in cents) */
+  amount: number;
+}
+
+/**
+ * A single disposition of a capital asset (one Form 8949 row)
+ */
+export interface CapitalAssetDisposition {
+  /** Column (a): Description of property, e.g. "100 sh. XYZ" */
+  description: string;
+
+  /** Security identifier for matching wash sale replacement lots (defaults to description) */
+  symbol?: string;
+
+  /** Number of shares or units, used to prorate partial wash sales */
+  quantity?: number;
+
+  /** Column (b): Date acquired (YYYY-MM-DD), or 'VARIOUS' / 'INHERITED' */
+  dateAcquired: string;
+
+  /** Column (c): Date sold or disposed of (YYYY-MM-DD) */
+  dateSold: string;
+
+  /** Column (d): Proceeds (in cents) */
+  proceeds: number;
+
+  /** Column (e): Cost or other basis (in cents) */
+  costBasis: number;
+
+  /** Holding period from Form 1099-B box 2; determined from the dates if omitted */
+  term?: 'short' | 'long';
+
+  /** Reported on Form 1099-B. Defaults to true. */
+  reportedOn1099B?: boolean;
+
+  /** Form 1099-B box 12: basis reported to the IRS. Defaults to true. */
+  basisReportedToIRS?: boolean;
+
+  /** Form 1099-B box 1g: wash sale loss disallowed (in cents) */
+  washSaleLossDisallowed?: number;
+
+  /** Flagged as a wash sale without an amount; the whole loss is disallowed */
+  washSale?: boolean;
+
+  /** Other column (g) adjustments */
+  adjustments?: Form8949Adjustment[];
+
+  /** Collectible (art, coins, precious metals); long-term gain is 28% rate gain */
+  isCollectible?: boolean;
+
+  /** Part of the gain that is unrecaptured §1250 gain (depreciation on real property, in cents) */
+  unrecaptured1250Gain?: number;
+}
+
+/**
+ * Capital loss carryover from the prior year (positive amounts, in cents)
+ */
+export interface CapitalLossCarryover {
+  /** Schedule D Line 6: Short-term capital loss carryover */
+  shortTerm: number;
+
+  /** Schedule D Line 14: Long-term capital loss carryover */
+  longTerm: number;
+}
+
+/**
+ * Form 8949 row after classification and adjustments
+ */
+export interface Form8949Row {
+  description: string;
+  box: Form8949Box;
+  term: 'short' | 'long';
+  dateAcquired: string;
+  dateSold: string;
+  proceeds: number; // Column (d) (cents)
+  costBasis: number; // Column (e), including wash sale basis from replaced lots (cents)
+  adjustmentCodes: string; // Column (f), e.g. 'W' or 'BW'
+  adjustmentAmount: number; // Column (g) (cents)
+  gainOrLoss: number; // Column (h) (cents)
+}
+
+/**
+ * Form 8949 totals for one check box (Line 2 of Part I or II)
+ */
+export interface Form8949BoxTotals {
+  box: Form8949Box;
+  proceeds: number;
+  costBasis: number;
+  adjustmentAmount: number;
+  gainOrLoss: number;
+}
+
+/**
+ * Schedule D input
+ */
+export interface ScheduleDInput {
+  filingStatus: FilingStatus;
+  dispositions: CapitalAssetDisposition[];
+  carryover?: CapitalLossCarryover;
+
+  /** Short-term gain or loss reported without lot detail (Lines 4-5, in cents) */
+  otherShortTerm?: number;
+
+  /** Long-term gain or loss reported without lot detail (Lines 11-13, in cents) */
+  otherLongTerm?: number;
+
+  /** Form 1040 Line 15 taxable income for the carryover worksheet; may be negative */
+  taxableIncome?: number;
+}
+
+/**
+ * Schedule D result
+ */
+export interface ScheduleDResult {
+  rows: Form8949Row[];
+  boxTotals: Form8949BoxTotals[]; // Boxes with at least one row, in box order
+  netShortTerm: number; // Line 7 (cents)
+  netLongTerm: number; // Line 15 (cents)
+  netGainOrLoss: number; // Line 16 (cents)
+  capitalGainOrLoss: number; // Form 1040 Line 7: Line 16 gain, or Line 21 limited loss (cents)
+  netCapitalGain: number; // Smaller of Lines 15 and 16 when both are gains (cents)
+  collectiblesGain: number; // Line 18: 28% rate gain (cents)
+  unrecaptured1250Gain: number; // Line 19 (cents)
+  washSaleLossDisallowed: number; // Total code W adjustments (cents)
+  carryoverToNextYear: CapitalLossCarryover;
+}
+
+interface ClassifiedLot {
+  disposition: CapitalAssetDisposition;
+  costBasis: number;
+  acquired: number | null; // Holding period start (ms), after wash sale tacking
+  adjustments: Form8949Adjustment[];
+}
+
+/**
+ * Compute Form 8949 rows and Schedule D totals
+ *
+ * @param input Dispositions, prior-year carryover and other gains by term
+ * @returns Form 8949 rows, Schedule D lines and next year's carryover
+ */
+export function computeScheduleD2025(input: ScheduleDInput): ScheduleDResult {
+  const lots = applyWashSales(input.dispositions);
+  const rows = lots.map(buildRow);
+
+  const sumRows = (term: 'short' | 'long') =>
+    addCents(...rows.filter((r) => r.term === term).map((r) => r.gainOrLoss));
+  const carryover = input.carryover ?? { shortTerm: 0, longTerm: 0 };
+
+  // Lines 7 and 15: net short- and long-term gain or loss after carryovers
+  const netShortTerm = addCents(sumRows('short'), input.otherShortTerm ?? 0) - carryover.shortTerm;
+  const netLongTerm = addCents(sumRows('long'), input.otherLongTerm ?? 0) - carryover.longTerm;
+  const netGainOrLoss = netShortTerm + netLongTerm;
+
+  // Line 21: loss limited to $3,000 ($1,500 MFS)
+  const lossLimit = CAPITAL_LOSS_LIMIT_2025[input.filingStatus];
+  const allowedLoss = Math.min(max0(-netGainOrLoss), lossLimit);
+  const capitalGainOrLoss = netGainOrLoss >= 0 ? netGainOrLoss : -allowedLoss;
+
+  const netCapitalGain = max0(Math.min(netLongTerm, netGainOrLoss));
+  const { collectiblesGain, unrecaptured1250Gain } = calculateSpecialRateGains(
+    rows,
+    lots,
+    netShortTerm,
+    carryover.longTerm,
+    netCapitalGain
+  );
+
+  return {
+    rows,
+    boxTotals: totalByBox(rows),
+    netShortTerm,
+    netLongTerm,
+    netGainOrLoss,
+    capitalGainOrLoss,
+    netCapitalGain,
+    collectiblesGain,
+    unrecaptured1250Gain,
+    washSaleLossDisallowed: addCents(
+      ...lots.flatMap((lot) => lot.adjustments.filter((a) => a.code === 'W').map((a) => a.amount))
+    ),
+    carryoverToNextYear: calculateCarryover(
+      netShortTerm,
+      netLongTerm,
+      allowedLoss,
+      input.taxableIncome
+    ),
+  };
+}
+
+/**
+ * Redo the Capital Loss Carryover Worksheet once Form 1040 Line 15 taxable
+ * income is known
+ *
+ * Schedule D is needed to compute AGI, so it is first computed without
+ * taxable income; Lines 1-4 then limit the loss counted as used when the
+ * deductions exceed income.
+ *
+ * @param scheduleD Schedule D computed without taxable income
+ * @param taxableIncome AGI less deductions, before flooring at zero (cents)
+ */
+export function applyCarryoverWorksheet(
+  scheduleD: ScheduleDResult,
+  taxableIncome: number
+): ScheduleDResult {
+  return {
+    ...scheduleD,
+    carryoverToNextYear: calculateCarryover(
+      scheduleD.netShortTerm,
+      scheduleD.netLongTerm,
+      max0(-scheduleD.capitalGainOrLoss),
+      taxableIncome
+    ),
+  };
+}
+
+/**
+ * Disallow losses on lots replaced within 30 days (IRC §1091)
+ *
+ * Broker-reported amounts (box 1g) and flagged lots are used as given.
+ * Otherwise a loss lot is matched to another sold lot of the same security
+ * acquired within 30 days before or after the sale. The disallowed loss is
+ * added to the replacement lot's basis, and the replacement's holding period
+ * starts earlier by the time the loss lot was held.
+ */
+function applyWashSales(dispositions: CapitalAssetDisposition[]): ClassifiedLot[] {
+  const lots: ClassifiedLot[] = dispositions.map((disposition) => ({
+    disposition,
+    costBasis: disposition.costBasis,
+    acquired: parseDate(disposition.dateAcquired),
+    adjustments: [...(disposition.adjustments ?? [])],
+  }));
+
+  const usedReplacements = new Set<ClassifiedLot>();
+  const byDateSold = [...lots].sort(
+    (a, b) => (parseDate(a.disposition.dateSold) ?? 0) - (parseDate(b.disposition.dateSold) ?? 0)
+  );
+
+  for (const lot of byDateSold) {
+    const { disposition } = lot;
+    const loss = max0(
+      lot.costBasis - disposition.proceeds - addCents(...lot.adjustments.map((a) => a.amount))
+    );
+
+    if (disposition.washSaleLossDisallowed !== undefined || disposition.washSale) {
+      const amount = Math.min(disposition.washSaleLossDisallowed ?? loss, loss);
+      if (amount > 0) {
+        lot.adjustments.push({ code: 'W', amount });
+      }
+      continue;
+    }
+
+    const sold = parseDate(disposition.dateSold);
+    if (loss <= 0 || sold === null) {
+      continue;
+    }
+
+    const key = disposition.symbol ?? disposition.description;
+    const replacement = byDateSold.find(
+      (other) =>
+        other !== lot &&
+        !usedReplacements.has(other) &&
+        (other.disposition.symbol ?? other.disposition.description) === key &&
+        other.acquired !== null &&
+        Math.abs(other.acquired - sold) <= WASH_SALE_WINDOW_DAYS * DAY_MS &&
+        other.acquired !== lot.acquired
+    );
+    if (!replacement) {
+      continue;
+    }
+
+    // Partial replacement disallows a proportional part of the loss
+    const soldQuantity = disposition.quantity;
+    const replacementQuantity = replacement.disposition.quantity;
+    const ratio =
+      soldQuantity && replacementQuantity ? Math.min(replacementQuantity / soldQuantity, 1) : 1;
+    const disallowed = Math.round(loss * ratio);
+
+    usedReplacements.add(replacement);
+    lot.adjustments.push({ code: 'W', amount: disallowed });
+    replacement.costBasis = addCents(replacement.costBasis, disallowed);
+    if (lot.acquired !== null && replacement.acquired !== null) {
+      replacement.acquired -= sold - lot.acquired;
+    }
+  }
+
+  return lots;
+}
+
+function buildRow(lot: ClassifiedLot): Form8949Row {
+  const { disposition } = lot;
+  const term = disposition.term ?? holdingPeriod(lot.acquired, disposition);
+  const reported = disposition.reportedOn1099B !== false;
+  const basisReported = disposition.basisReportedToIRS !== false;
+  const box: Form8949Box = !reported
+    ? term === 'short'
+      ? 'C'
+      : 'F'
+    : !basisReported
+      ? term === 'short'
+        ? 'B'
+        : 'E'
+      : term === 'short'
+        ? 'A'
+        : 'D';
+
+  const codes = lot.adjustments.map((a) => a.code);
+  if (disposition.isCollectible && !codes.includes('C')) {
+    codes.push('C');
+  }
+  const adjustmentAmount = addCents(...lot.adjustments.map((a) => a.amount));
+
+  return {
+    description: disposition.description,
+    box,
+    term,
+    dateAcquired: disposition.dateAcquired,
+    dateSold: disposition.dateSold,
+    proceeds: disposition.proceeds,
+    costBasis: lot.costBasis,
+    adjustmentCodes: Array.from(new Set(codes)).sort().join(''),
+    adjustmentAmount,
+    gainOrLoss: disposition.proceeds - lot.costBasis + adjustmentAmount,
+  };
+}
+
+/**
+ * Long-term if held more than one year (sold after the anniversary date)
+ * Inherited property is always long-term (IRC §1223(9))
+ */
+function holdingPeriod(
+  acquired: number | null,
+  disposition: CapitalAssetDisposition
+): 'short' | 'long' {
+  if (disposition.dateAcquired.toUpperCase() === 'INHERITED') {
+    return 'long';
+  }
+  const sold = parseDate(disposition.dateSold);
+  if (acquired === null || sold === null) {
+    return 'short';
+  }
+  const start = new Date(acquired);
+  const anniversary = Date.UTC(start.getUTCFullYear() + 1, start.getUTCMonth(), start.getUTCDate());
+  return sold > anniversary ? 'long' : 'short';
+}
+
+function totalByBox(rows: Form8949Row[]): Form8949BoxTotals[] {
+  const boxes: Form8949Box[] = ['A', 'B', 'C', 'D', 'E', 'F'];
+  return boxes
+    .map((box) => {
+      const inBox = rows.filter((r) => r.box === box);
+      return {
+        box,
+        count: inBox.length,
+        proceeds: addCents(...inBox.map((r) => r.proceeds)),
+        costBasis: addCents(...inBox.map((r) => r.costBasis)),
+        adjustmentAmount: addCents(...inBox.map((r) => r.adjustmentAmount)),
+        gainOrLoss: addCents(...inBox.map((r) => r.gainOrLoss)),
+      };
+    })
+    .filter((totals) => totals.count > 0)
+    .map(({ count: _count, ...totals }) => totals);
+}
+
+/**
+ * Schedule D Lines 18 and 19
+ *
+ * 28% Rate Gain Worksheet: long-term collectibles gain or loss, reduced by
+ * a short-term net loss and the long-term loss carryover.
+ * Unrecaptured Section 1250 Gain Worksheet: reduced by any loss left on the
+ * 28% worksheet. Neither can exceed the net capital gain.
+ */
+function calculateSpecialRateGains(
+  rows: Form8949Row[],
+  lots: ClassifiedLot[],
+  netShortTerm: number,
+  longTermCarryover: number,
+  netCapitalGain: number
+): { collectiblesGain: number; unrecaptured1250Gain: number } {
+  let collectibles = 0;
+  let unrecaptured = 0;
+  rows.forEach((row, i) => {
+    const { disposition } = lots[i]!;
+    if (row.term !== 'long') {
+      return;
+    }
+    if (disposition.isCollectible) {
+      collectibles += row.gainOrLoss;
+    }
+    if (row.gainOrLoss > 0) {
+      unrecaptured += Math.min(disposition.unrecaptured1250Gain ?? 0, row.gainOrLoss);
+    }
+  });
+
+  const rate28Worksheet = collectibles + Math.min(netShortTerm, 0) - longTermCarryover;
+  const collectiblesGain = Math.min(max0(rate28Worksheet), netCapitalGain);
+  const unrecaptured1250Gain = Math.min(
+    max0(unrecaptured - max0(-rate28Worksheet)),
+    netCapitalGain - collectiblesGain
+  );
+
+  return { collectiblesGain, unrecaptured1250Gain };
+}
+
+/**
+ * Capital Loss Carryover Worksheet (Schedule D Instructions)
+ *
+ * The deducted loss is applied to the short-term loss first; whatever is
+ * left of each loss, after offsetting the other term's gain, carries over.
+ */
+function calculateCarryover(
+  netShortTerm: number,
+  netLongTerm: number,
+  allowedLoss: number,
+  taxableIncome?: number
+): CapitalLossCarryover {
+  if (netShortTerm + netLongTerm >= 0) {
+    return { shortTerm: 0, longTerm: 0 };
+  }
+
+  // Lines 1-4: loss deducted, limited when taxable income is negative
+  const deducted =
+    taxableIncome === undefined
+      ? allowedLoss
+      : Math.min(allowedLoss, max0(taxableIncome + allowedLoss));
+
+  // Lines 5-8: short-term carryover
+  const shortTermLoss = max0(-netShortTerm);
+  const shortTerm = max0(shortTermLoss - (deducted + max0(netLongTerm)));
+
+  // Lines 9-13: long-term carryover
+  const longTermLoss = max0(-netLongTerm);
+  const longTerm = max0(longTermLoss - (max0(netShortTerm) + max0(deducted - shortTermLoss)));
+
+  return { shortTerm, longTerm };
+}
+
+function parseDate(date: string): number | null {
+  const parsed = Date.parse(date);
+  return Number.isNaN(parsed) ? null : parsed;
+}
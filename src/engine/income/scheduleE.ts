@@ -0,0 +1,248 @@
+/**
+ * Schedule E Part I - Rental Real Estate
+ *
+ * Computes the net income or loss from each rental property before the
+ * passive activity loss limits (Form 8582) are applied.
+ *
+ * Key Rules:
+ * - Net rental income = rents received - expenses (Lines 5-19) - depreciation (Line 18)
+ * - Expenses of a unit with personal use are allocated by fair rental days
+ *   to total days used
+ * - A unit is a residence if personal use exceeds the greater of 14 days or
+ *   10% of fair rental days; its rental deductions are limited to rental
+ *   income (no loss), in the order interest and taxes, operating expenses,
+ *   then depreciation
+ * - A residence rented fewer than 15 days is not reported: rent is excluded
+ *   and rental expenses are not deductible
+ * - A rental not used as a residence is a passive activity unless the owner
+ *   is a real estate professional who materially participates
+ *
+ * Sources:
+ * - IRC §280A(c)(5), §280A(d), §280A(e), §280A(g): Vacation home rules
+ * - IRC §469(c)(2), §469(c)(7), §469(j)(10): Rental activities as passive activities
+ * - IRS Publication 527 (Residential Rental Property)
+ * - Schedule E (Form 1040) Instructions
+ */
+
+import { RENTAL_PERSONAL_USE_2025 } from '../rules/2025/federal/passiveActivity';
+import { addCents, max0, multiplyCents } from '../util/money';
+
+/**
+ * Schedule E Lines 5-19 expenses (all in cents, before personal-use allocation)
+ */
+export interface RentalExpenses {
+  advertising?: number; // Line 5
+  autoAndTravel?: number; // Line 6
+  cleaningAndMaintenance?: number; // Line 7
+  commissions?: number; // Line 8
+  insurance?: number; // Line 9
+  legalAndProfessionalFees?: number; // Line 10
+  managementFees?: number; // Line 11
+  mortgageInterest?: number; // Line 12
+  otherInterest?: number; // Line 13
+  repairs?: number; // Line 14
+  supplies?: number; // Line 15
+  taxes?: number; // Line 16
+  utilities?: number; // Line 17
+  other?: number; // Line 19
+}
+
+/**
+ * A single rental real estate property (one Schedule E column)
+ */
+export interface RentalProperty {
+  /** Property address or description (for display) */
+  description?: string;
+
+  /** Line 3: Rents received (in cents) */
+  rentsReceived: number;
+
+  /** Lines 5-17, 19: Expenses (in cents) */
+  expenses: RentalExpenses;
+
+  /** Line 18: Depreciation expense or depletion (in cents) */
+  depreciation?: number;
+
+  /** Line 2: Days rented at fair rental value */
+  fairRentalDays: number;
+
+  /** Line 2: Days of personal use (including family and below-market rentals) */
+  personalUseDays?: number;
+
+  /** Owner actively participates (approves tenants, sets rents, etc.). Defaults to true. */
+  activeParticipation?: boolean;
+
+  /** Real estate professional materially participates in this rental. Defaults to true. */
+  materialParticipation?: boolean;
+
+  /** Form 8582 Line 1c: Prior year unallowed passive loss (positive, in cents) */
+  priorYearUnallowedLoss?: number;
+
+  /** Entire interest sold to an unrelated party this year (releases suspended losses) */
+  disposedOfEntireInterest?: boolean;
+}
+
+/**
+ * How the property's result is treated for passive activity purposes
+ */
+export type RentalTreatment =
+  | 'passive' // Rental activity subject to Form 8582
+  | 'nonpassive' // Real estate professional with material participation
+  | 'personalResidence' // Used as a residence; deductions limited to rental income
+  | 'notReported'; // Residence rented fewer than 15 days
+
+/**
+ * Schedule E result for one property
+ */
+export interface RentalPropertyResult {
+  description?: string;
+  treatment: RentalTreatment;
+  rentalUsePercentage: number; // Fair rental days / total days used (0-1)
+  rentsReceived: number; // Line 3 (cents)
+  totalExpenses: number; // Line 20, after allocation and limits (cents)
+  depreciation: number; // Line 18 allowed, after allocation and limits (cents)
+  disallowedExpenses: number; // §280A(c)(5) expenses over rental income, carried forward (cents)
+  netIncome: number; // Line 21, income or (loss) (cents)
+}
+
+/**
+ * Schedule E input
+ */
+export interface ScheduleEInput {
+  properties: RentalProperty[];
+
+  /** Taxpayer (or spouse) qualifies as a real estate professional under §469(c)(7) */
+  realEstateProfessional?: boolean;
+}
+
+/**
+ * Schedule E result
+ */
+export interface ScheduleEResult {
+  properties: RentalPropertyResult[];
+  totalRents: number; // Line 23a (cents)
+  totalExpenses: number; // Sum of Line 20, including depreciation (cents)
+  totalIncome: number; // Line 24: Sum of positive Line 21 amounts (cents)
+  totalLosses: number; // Line 22: Sum of Line 21 losses before Form 8582 (negative, cents)
+  netIncome: number; // Total income + losses before passive limits (cents)
+}
+
+/**
+ * Compute Schedule E Part I rental income and expenses by property
+ *
+ * @param input Rental properties and real estate professional status
+ * @returns Per-property net income and Schedule E totals before passive loss limits
+ */
+export function computeScheduleE2025(input: ScheduleEInput): ScheduleEResult {
+  const properties = input.properties.map((property) =>
+    computeRentalProperty(property, input.realEstateProfessional === true)
+  );
+
+  const totalIncome = addCents(...properties.map((p) => max0(p.netIncome)));
+  const totalLosses = addCents(...properties.map((p) => Math.min(p.netIncome, 0)));
+
+  return {
+    properties,
+    totalRents: addCents(...properties.map((p) => p.rentsReceived)),
+    totalExpenses: addCents(...properties.map((p) => p.totalExpenses)),
+    totalIncome,
+    totalLosses,
+    netIncome: totalIncome + totalLosses,
+  };
+}
+
+/**
+ * Compute one property's net rental income or loss
+ */
+function computeRentalProperty(
+  property: RentalProperty,
+  realEstateProfessional: boolean
+): RentalPropertyResult {
+  const rentalDays = property.fairRentalDays;
+  const personalDays = property.personalUseDays || 0;
+  const totalDays = rentalDays + personalDays;
+  const rentalUsePercentage = totalDays > 0 ? rentalDays / totalDays : 1;
+
+  const isResidence =
+    personalDays >
+    Math.max(
+      RENTAL_PERSONAL_USE_2025.minimumPersonalUseDays,
+      rentalDays * RENTAL_PERSONAL_USE_2025.personalUseRentalDaysRate
+    );
+
+  // §280A(g): Residence rented fewer than 15 days is not reported
+  if (isResidence && rentalDays < RENTAL_PERSONAL_USE_2025.minimumRentalDays) {
+    return {
+      description: property.description,
+      treatment: 'notReported',
+      rentalUsePercentage,
+      rentsReceived: 0,
+      totalExpenses: 0,
+      depreciation: 0,
+      disallowedExpenses: 0,
+      netIncome: 0,
+    };
+  }
+
+  // §280A(e): Allocate expenses to the rental portion of use
+  const { expenses } = property;
+  const interestAndTaxes = multiplyCents(
+    addCents(expenses.mortgageInterest || 0, expenses.otherInterest || 0, expenses.taxes || 0),
+    rentalUsePercentage
+  );
+  const operatingExpenses = multiplyCents(
+    addCents(
+      expenses.advertising || 0,
+      expenses.autoAndTravel || 0,
+      expenses.cleaningAndMaintenance || 0,
+      expenses.commissions || 0,
+      expenses.insurance || 0,
+      expenses.legalAndProfessionalFees || 0,
+      expenses.managementFees || 0,
+      expenses.repairs || 0,
+      expenses.supplies || 0,
+      expenses.utilities || 0,
+      expenses.other || 0
+    ),
+    rentalUsePercentage
+  );
+  const depreciation = multiplyCents(property.depreciation || 0, rentalUsePercentage);
+  const rents = property.rentsReceived;
+
+  if (isResidence) {
+    // §280A(c)(5): Deductions limited to rental income, in a fixed order
+    const allowedInterestAndTaxes = Math.min(interestAndTaxes, rents);
+    const allowedOperating = Math.min(operatingExpenses, rents - allowedInterestAndTaxes);
+    const allowedDepreciation = Math.min(
+      depreciation,
+      rents - allowedInterestAndTaxes - allowedOperating
+    );
+    const totalExpenses = addCents(allowedInterestAndTaxes, allowedOperating, allowedDepreciation);
+
+    return {
+      description: property.description,
+      treatment: 'personalResidence',
+      rentalUsePercentage,
+      rentsReceived: rents,
+      totalExpenses,
+      depreciation: allowedDepreciation,
+      disallowedExpenses:
+        addCents(interestAndTaxes, operatingExpenses, depreciation) - totalExpenses,
+      netIncome: rents - totalExpenses,
+    };
+  }
+
+  const totalExpenses = addCents(interestAndTaxes, operatingExpenses, depreciation);
+  const isNonpassive = realEstateProfessional && property.materialParticipation !== false;
+
+  return {
+    description: property.description,
+    treatment: isNonpassive ? 'nonpassive' : 'passive',
+    rentalUsePercentage,
+    rentsReceived: rents,
+    totalExpenses,
+    depreciation,
+    disallowedExpenses: 0,
+    netIncome: rents - totalExpenses,
+  };
+}
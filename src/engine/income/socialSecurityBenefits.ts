@@ -0,0 +1,139 @@
+/**
+ * Taxable Social Security Benefits
+ *
+ * Implements the Social Security Benefits Worksheet from the Form 1040
+ * instructions (Lines 6a-6b) to determine how much of a taxpayer's
+ * SSA-1099 / RRB-1099 net benefits is included in gross income.
+ *
+ * Key Rules:
+ * - Provisional income = other income + tax-exempt interest + 50% of benefits
+ *   - Schedule 1 adjustments (except student loan interest)
+ * - Up to 50% of benefits taxable above the base amount
+ * - Up to 85% of benefits taxable above the adjusted base amount
+ * - MFS filers who lived with their spouse have a $0 base amount
+ * - Repayments (SSA-1099 Box 4) reduce benefits for the year; an excess
+ *   repayment is a deduction, not negative income
+ *
+ * Sources:
+ * - IRC §86: Social Security and Tier 1 Railroad Retirement Benefits
+ * - IRS Publication 915: Social Security and Equivalent Railroad Retirement Benefits
+ * - Form 1040 Instructions, Social Security Benefits Worksheet
+ */
+
+import type { FilingStatus } from '../types';
+import {
+  SOCIAL_SECURITY_THRESHOLDS_2025,
+  SOCIAL_SECURITY_MFS_LIVED_TOGETHER_2025,
+  SOCIAL_SECURITY_INCLUSION_RATES,
+} from '../rules/2025/federal/socialSecurityBenefits';
+import { max0, multiplyCents } from '../util/money';
+
+/**
+ * Social Security worksheet input
+ */
+export interface SocialSecurityBenefitsInput {
+  filingStatus: FilingStatus;
+  grossBenefits: number; // SSA-1099 Box 3 (cents)
+  benefitsRepaid?: number; // SSA-1099 Box 4 (cents)
+  livedWithSpouse?: boolean; // MFS only: lived with spouse at any time during the year
+  otherIncome: number; // Total income excluding Social Security (cents)
+  taxExemptInterest?: number; // Form 1040 Line 2a (cents)
+  adjustments: number; // Schedule 1 adjustments excluding student loan interest (cents)
+}
+
+/**
+ * Social Security worksheet result
+ */
+export interface SocialSecurityBenefitsResult {
+  netBenefits: number; // Line 1: Box 5 net benefits (cents, never negative)
+  excessRepayment: number; // Repayments exceeding benefits paid this year (cents)
+  halfOfBenefits: number; // Line 2 (cents)
+  provisionalIncome: number; // Line 7 (cents)
+  baseAmount: number; // Line 8 (cents)
+  adjustedBaseAmount: number; // Line 8 + Line 10 (cents)
+  mfsLivedWithSpouse: boolean; // Whether the $0 base amount applied
+  taxableBenefits: number; // Line 18 / Form 1040 Line 6b (cents)
+  taxablePercentage: number; // taxableBenefits / netBenefits (0-0.85)
+}
+
+/**
+ * Compute the taxable portion of Social Security benefits
+ *
+ * @param input Social Security worksheet input
+ * @returns Worksheet lines and taxable benefits
+ */
+export function computeTaxableSocialSecurity2025(
+  input: SocialSecurityBenefitsInput
+): SocialSecurityBenefitsResult {
+  const repaid = input.benefitsRepaid || 0;
+  const netBenefits = max0(input.grossBenefits - repaid);
+  const excessRepayment = max0(repaid - input.grossBenefits);
+
+  const mfsLivedWithSpouse =
+    input.filingStatus === 'marriedSeparately' && input.livedWithSpouse === true;
+  const thresholds = mfsLivedWithSpouse
+    ? SOCIAL_SECURITY_MFS_LIVED_TOGETHER_2025
+    : SOCIAL_SECURITY_THRESHOLDS_2025[input.filingStatus];
+
+  // Line 2: One-half of net benefits
+  const halfOfBenefits = multiplyCents(netBenefits, SOCIAL_SECURITY_INCLUSION_RATES.tier1);
+
+  // Lines 3-7: Provisional income
+  const combinedIncome = halfOfBenefits + input.otherIncome + (input.taxExemptInterest || 0);
+  const provisionalIncome = max0(combinedIncome - input.adjustments);
+
+  const baseResult = {
+    netBenefits,
+    excessRepayment,
+    halfOfBenefits,
+    provisionalIncome,
+    baseAmount: thresholds.baseAmount,
+    adjustedBaseAmount: thresholds.adjustedBaseAmount,
+    mfsLivedWithSpouse,
+  };
+
+  if (netBenefits === 0) {
+    return { ...baseResult, taxableBenefits: 0, taxablePercentage: 0 };
+  }
+
+  // Line 17: Maximum taxable amount (85% of net benefits)
+  const maximumTaxable = multiplyCents(netBenefits, SOCIAL_SECURITY_INCLUSION_RATES.maximum);
+
+  let taxableBenefits: number;
+  if (mfsLivedWithSpouse) {
+    // Line 16 for MFS living together: 85% of provisional income
+    taxableBenefits = Math.min(
+      multiplyCents(provisionalIncome, SOCIAL_SECURITY_INCLUSION_RATES.tier2),
+      maximumTaxable
+    );
+  } else {
+    // Line 9: Provisional income over base amount
+    const overBase = max0(provisionalIncome - thresholds.baseAmount);
+    if (overBase === 0) {
+      return { ...baseResult, taxableBenefits: 0, taxablePercentage: 0 };
+    }
+
+    // Lines 10-12: Split between the 50% and 85% tiers
+    const tierWidth = thresholds.adjustedBaseAmount - thresholds.baseAmount;
+    const overAdjustedBase = max0(overBase - tierWidth);
+    const withinTier1 = Math.min(overBase, tierWidth);
+
+    // Lines 13-14: 50% tier, limited to half of benefits
+    const tier1Amount = Math.min(
+      halfOfBenefits,
+      multiplyCents(withinTier1, SOCIAL_SECURITY_INCLUSION_RATES.tier1)
+    );
+
+    // Lines 15-16: 85% of the excess over the adjusted base amount
+    const tier2Amount = multiplyCents(overAdjustedBase, SOCIAL_SECURITY_INCLUSION_RATES.tier2);
+
+    // Line 18: Smaller of Line 16 or Line 17
+    taxableBenefits = Math.min(tier1Amount + tier2Amount, maximumTaxable);
+  }
+
+  return {
+    ...baseResult,
+    taxableBenefits,
+    taxablePercentage: taxableBenefits / netBenefits,
+  };
+}
@@ -19,7 +19,19 @@ export {
 export { MD_RULES_2025 } from './rules/2025/states/md';
 
 // Calculator exports
+export { computeFederal } from './federal/computeFederal';
 export { computeFederal2025 } from './federal/2025/computeFederal2025';
+export {
+  computeAmendedReturn,
+  buildForm1040XLines,
+  buildExplanationOfChanges
+} from './federal/form1040X';
+export {
+  summarizeW2s,
+  validateW2s,
+  applyW2sToFederalInput,
+  applyW2sToStateInput
+} from './income/formW2';
 export {
   computeMD2025,
   getMarylandCounties,
@@ -35,4 +47,56 @@ export {
   stateHasTax,
   STATE_CONFIGS
 } from './states/registry';
-export type { StateConfig } from './types/stateTax';
\ No newline at end of file
+export type {
+  StateConfig,
+  StateResidencyPeriod,
+  StateIncomeSourcing,
+  MultiStateTaxInput,
+  MultiStateResult,
+} from './types/stateTax';
+export type { StateCalculatorMode } from './states/registry';
+export { computeMultiStateReturns } from './states/allocation';
+export { computeStateReturnsWithCredits } from './states/otherStateCredit';
+// Planning exports
+export {
+  computeTaxOutcome,
+  planningEffects,
+  scenarioDeltas,
+  runWhatIf,
+  runWhatIfScenarios
+} from './planning/whatIf';
+export type {
+  WhatIfScenario,
+  WhatIfResult,
+  ScenarioDelta,
+  PlanningReturn,
+  PlanningEffect,
+  TaxOutcome
+} from './planning/whatIf';
+export { leverDelta, optimizeTaxPlan } from './planning/optimizer';
+export type {
+  AmountLever,
+  AmountLeverKind,
+  OptimizationOptions,
+  OptimizationPlan,
+  PlanStep,
+  LiabilityTotals
+} from './planning/optimizer';
+export {
+  irmaaTier,
+  planRothConversions,
+  requiredMinimumDistribution
+} from './planning/rothConversion';
+export type {
+  IRMAAProjection,
+  RothConversionPlan,
+  RothConversionPlanInput,
+  RothConversionYear
+} from './planning/rothConversion';
+export { computeRateCurve, incomeDelta } from './planning/rateCurve';
+export type {
+  RateCurve,
+  RateCurveIncome,
+  RateCurveInput,
+  RateCurvePoint
+} from './planning/rateCurve';
@@ -4,5 +4,10 @@
  * Calculates various IRS penalties and interest charges
  */
 
-export type { Form2210Input, Form2210Result } from './form2210';
+export type {
+  Form2210Input,
+  Form2210Result,
+  EstimatedTaxPayment,
+  AnnualizedIncomePeriod,
+} from './form2210';
 export { calculateForm2210, formatPenaltyResult } from './form2210';
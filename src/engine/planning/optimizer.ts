@@ -0,0 +1,339 @@
+/**
+ * Tax Plan Optimizer
+ *
+ * Searches the planning levers a taxpayer controls for the combination with
+ * the lowest total federal and state liability. Every candidate is a full
+ * recomputation with computeFederal and the state calculator, so bracket
+ * changes, phaseouts and credit cliffs are priced exactly.
+ *
+ * Levers:
+ * - Amounts, each within its own bounds: 401(k) deferral, HSA and
+ *   traditional IRA contributions, charitable gifts, Roth conversion
+ * - Deduction method: the larger deduction, or itemizing even when the
+ *   standard deduction is larger (some states follow the federal choice)
+ * - Filing status: the return as entered against separate returns for
+ *   each spouse
+ *
+ * Liability is not smooth in the amounts, so each filing status and
+ * deduction method is searched on a grid by coordinate descent: one lever
+ * at a time moves to its best grid point with the others held, repeating
+ * until no lever improves. Ties keep the smaller amount.
+ *
+ * A Roth conversion always raises this year's tax. It is only worth
+ * converting when the amount would otherwise be taxed later at a higher
+ * rate, so the conversion lever takes that future rate and the search
+ * minimizes liability less the future tax avoided.
+ *
+ * All amounts are in cents.
+ *
+ * @module planning/optimizer
+ */
+
+import type { FilingStatus } from '../types';
+import type { StateTaxInput } from '../types/stateTax';
+import { addCents, max0 } from '../util/money';
+import { computeTaxOutcome, scenarioDeltas } from './whatIf';
+import type { PlanningReturn, ScenarioDelta, TaxOutcome } from './whatIf';
+
+export type AmountLeverKind =
+  | 'electiveDeferral'
+  | 'hsaContribution'
+  | 'iraContribution'
+  | 'charitableGift'
+  | 'rothConversion';
+
+/**
+ * An amount added to the return as entered, searched between its bounds
+ */
+export interface AmountLever {
+  kind: AmountLeverKind;
+  max: number;
+  min?: number; // Default 0
+  step?: number; // Search increment; default a tenth of the range in whole dollars
+  spouse?: boolean; // Filing separately: change the spouse's return instead of the taxpayer's
+  futureRate?: number; // Roth conversion: rate the amount would be taxed at when withdrawn later
+}
+
+export interface OptimizationOptions {
+  levers: AmountLever[];
+  tryItemizing?: boolean; // Also search with itemized deductions forced
+  separateReturns?: [PlanningReturn, PlanningReturn]; // Taxpayer's and spouse's separate returns
+}
+
+/**
+ * One decision in the plan
+ */
+export interface PlanStep {
+  lever: AmountLeverKind | 'filingStatus' | 'deductionMethod';
+  label: string;
+  spouse?: boolean;
+  amount?: number; // Amount levers: amount added to the return as entered
+  filingStatus?: FilingStatus; // Filing status lever
+  forceItemized?: boolean; // Deduction method lever
+  marginalSavings: number; // Added cost with this lever at its minimum, or the other choice
+}
+
+export interface LiabilityTotals {
+  federalTax: number;
+  stateTax: number;
+  totalTax: number;
+}
+
+export interface OptimizationPlan {
+  filingStatus: FilingStatus;
+  forceItemized: boolean;
+  steps: PlanStep[]; // Ranked by marginal savings, largest first
+  baseline: LiabilityTotals; // Return as entered
+  optimized: LiabilityTotals;
+  outcomes: TaxOutcome[]; // Optimized return, or each spouse's when filing separately
+  federalSavings: number;
+  stateSavings: number;
+  totalSavings: number;
+  futureTaxAvoided: number; // Roth conversions at their future rate
+  evaluations: number; // Returns computed during the search
+}
+
+const DEFAULT_GRID_STEPS = 10;
+const MAX_PASSES = 4;
+
+const LEVER_LABELS: Record<PlanStep['lever'], string> = {
+  electiveDeferral: '401(k) elective deferral',
+  hsaContribution: 'HSA contribution',
+  iraContribution: 'Traditional IRA contribution',
+  charitableGift: 'Charitable gift',
+  rothConversion: 'Roth conversion',
+  filingStatus: 'Filing status',
+  deductionMethod: 'Deduction method',
+};
+
+interface FilingChoice {
+  filingStatus: FilingStatus;
+  returns: PlanningReturn[];
+}
+
+interface Evaluation extends LiabilityTotals {
+  cost: number; // Liability less future tax avoided
+  outcomes: TaxOutcome[];
+}
+
+/**
+ * Express one lever amount as a change to the return
+ */
+export function leverDelta(kind: AmountLeverKind, amount: number): ScenarioDelta {
+  switch (kind) {
+    case 'electiveDeferral':
+    case 'hsaContribution':
+    case 'rothConversion':
+      return scenarioDeltas({ kind, amount })[0]!;
+
+    case 'iraContribution':
+      return {
+        federal: (input) => ({
+          ...input,
+          adjustments: {
+            ...input.adjustments,
+            iraDeduction: input.adjustments.iraDeduction + amount,
+          },
+        }),
+      };
+
+    case 'charitableGift':
+      return {
+        federal: (input) => ({
+          ...input,
+          itemized: { ...input.itemized, charitable: input.itemized.charitable + amount },
+        }),
+        state: (input) =>
+          input.stateItemized?.charitableContributions === undefined
+            ? input
+            : {
+                ...input,
+                stateItemized: {
+                  ...input.stateItemized,
+                  charitableContributions: input.stateItemized.charitableContributions + amount,
+                },
+              },
+      };
+  }
+}
+
+const FORCE_ITEMIZED: ScenarioDelta = {
+  federal: (input) => ({ ...input, forceItemized: true }),
+};
+
+function composeDeltas(deltas: ScenarioDelta[]): ScenarioDelta {
+  return {
+    federal: (input) => deltas.reduce((acc, delta) => delta.federal(acc), input),
+    state: (input: StateTaxInput) =>
+      deltas.reduce((acc, delta) => (delta.state ? delta.state(acc) : acc), input),
+  };
+}
+
+/**
+ * Grid points for a lever, from its minimum to its maximum
+ */
+function leverGrid(lever: AmountLever): number[] {
+  const min = max0(lever.min ?? 0);
+  const max = Math.max(min, lever.max);
+  const step =
+    lever.step && lever.step > 0
+      ? lever.step
+      : Math.max(100, Math.ceil((max - min) / DEFAULT_GRID_STEPS / 100) * 100);
+  const grid: number[] = [];
+  for (let amount = min; amount < max; amount += step) {
+    grid.push(amount);
+  }
+  grid.push(max);
+  return grid;
+}
+
+/**
+ * Search the levers for the lowest liability
+ *
+ * @param planning - Return as entered
+ * @param options - Levers with bounds, and the deduction and filing status choices to try
+ * @returns Best plan, with each step ranked by what undoing it alone would cost
+ */
+export function optimizeTaxPlan(
+  planning: PlanningReturn,
+  options: OptimizationOptions
+): OptimizationPlan {
+  const { levers } = options;
+  const grids = levers.map(leverGrid);
+
+  const filingChoices: FilingChoice[] = [
+    { filingStatus: planning.federalInput.filingStatus, returns: [planning] },
+    ...(options.separateReturns
+      ? [{ filingStatus: 'marriedSeparately' as const, returns: options.separateReturns }]
+      : []),
+  ];
+  const deductionChoices = options.tryItemizing ? [false, true] : [false];
+
+  const cache = new Map<string, Evaluation>();
+  const evaluate = (filing: number, forceItemized: boolean, amounts: number[]): Evaluation => {
+    const key = `${filing}|${forceItemized}|${amounts.join(',')}`;
+    const cached = cache.get(key);
+    if (cached) return cached;
+
+    const choice = filingChoices[filing]!;
+    const outcomes = choice.returns.map((planningReturn, index) => {
+      const deltas = levers.flatMap((lever, i) => {
+        const target = choice.returns.length > 1 && lever.spouse ? 1 : 0;
+        return target === index && amounts[i]! > 0 ? [leverDelta(lever.kind, amounts[i]!)] : [];
+      });
+      if (forceItemized) deltas.push(FORCE_ITEMIZED);
+      return computeTaxOutcome(
+        planningReturn,
+        deltas.length > 0 ? composeDeltas(deltas) : undefined
+      );
+    });
+
+    const federalTax = addCents(...outcomes.map((outcome) => outcome.federalTax));
+    const stateTax = addCents(...outcomes.map((outcome) => outcome.stateTax));
+    const futureTaxAvoided = addCents(
+      ...levers.map((lever, i) =>
+        lever.kind === 'rothConversion' ? Math.round(amounts[i]! * (lever.futureRate ?? 0)) : 0
+      )
+    );
+    const evaluation: Evaluation = {
+      federalTax,
+      stateTax,
+      totalTax: federalTax + stateTax,
+      cost: federalTax + stateTax - futureTaxAvoided,
+      outcomes,
+    };
+    cache.set(key, evaluation);
+    return evaluation;
+  };
+
+  let best:
+    | { filing: number; forceItemized: boolean; amounts: number[]; result: Evaluation }
+    | undefined;
+  filingChoices.forEach((_, filing) => {
+    for (const forceItemized of deductionChoices) {
+      let amounts = grids.map((grid) => grid[0]!);
+      let current = evaluate(filing, forceItemized, amounts);
+
+      for (let pass = 0; pass < MAX_PASSES; pass++) {
+        let improved = false;
+        grids.forEach((grid, i) => {
+          for (const amount of grid) {
+            if (amount === amounts[i]) continue;
+            const trial = amounts.map((value, j) => (j === i ? amount : value));
+            const result = evaluate(filing, forceItemized, trial);
+            if (result.cost < current.cost) {
+              amounts = trial;
+              current = result;
+              improved = true;
+            }
+          }
+        });
+        if (!improved) break;
+      }
+
+      if (!best || current.cost < best.result.cost) {
+        best = { filing, forceItemized, amounts, result: current };
+      }
+    }
+  });
+
+  const { filing, forceItemized, amounts, result } = best!;
+  const filingStatus = filingChoices[filing]!.filingStatus;
+
+  const steps: PlanStep[] = levers.map((lever, i) => {
+    const without = amounts.map((value, j) => (j === i ? grids[i]![0]! : value));
+    return {
+      lever: lever.kind,
+      label: LEVER_LABELS[lever.kind],
+      ...(lever.spouse && { spouse: true }),
+      amount: amounts[i]!,
+      marginalSavings: evaluate(filing, forceItemized, without).cost - result.cost,
+    };
+  });
+  if (filingChoices.length > 1) {
+    const others = filingChoices
+      .map((_, other) => other)
+      .filter((other) => other !== filing)
+      .map((other) => evaluate(other, forceItemized, amounts).cost);
+    steps.push({
+      lever: 'filingStatus',
+      label: LEVER_LABELS.filingStatus,
+      filingStatus,
+      marginalSavings: Math.min(...others) - result.cost,
+    });
+  }
+  if (deductionChoices.length > 1) {
+    steps.push({
+      lever: 'deductionMethod',
+      label: LEVER_LABELS.deductionMethod,
+      forceItemized,
+      marginalSavings: evaluate(filing, !forceItemized, amounts).cost - result.cost,
+    });
+  }
+  steps.sort((a, b) => b.marginalSavings - a.marginalSavings);
+
+  const asEntered = computeTaxOutcome(planning);
+  const baseline: LiabilityTotals = {
+    federalTax: asEntered.federalTax,
+    stateTax: asEntered.stateTax,
+    totalTax: asEntered.totalTax,
+  };
+
+  return {
+    filingStatus,
+    forceItemized,
+    steps,
+    baseline,
+    optimized: {
+      federalTax: result.federalTax,
+      stateTax: result.stateTax,
+      totalTax: result.totalTax,
+    },
+    outcomes: result.outcomes,
+    federalSavings: baseline.federalTax - result.federalTax,
+    stateSavings: baseline.stateTax - result.stateTax,
+    totalSavings: baseline.totalTax - result.totalTax,
+    futureTaxAvoided: result.totalTax - result.cost,
+    evaluations: cache.size,
+  };
+}
@@ -0,0 +1,220 @@
+/**
+ * Marginal and Effective Rate Curve
+ *
+ * Sweeps one kind of income across a range, recomputing the whole federal
+ * and state return at every step, and reports the rate each added dollar
+ * is actually taxed at. The bracket rate alone misses everything that
+ * moves with income: EITC and child tax credit phaseouts, the student loan
+ * interest phaseout, premium tax credit cliffs, taxable Social Security,
+ * capital gains stacking, NIIT and state phaseouts all show up here as
+ * changes in net liability.
+ *
+ * Income types:
+ * - Wages: W-2 Box 1, Social Security and Medicare wages from an added
+ *   W-2 when W-2s were entered (employee FICA withheld by the employer is
+ *   not part of the return and is not included)
+ * - Long-term gains: net long-term capital gain
+ * - Self-employment: Schedule C net profit, with SE tax; added to the
+ *   first sole proprietorship's QBI when QBI businesses were entered
+ * - IRA distribution: taxable traditional IRA distribution (1099-R code 7)
+ *
+ * The marginal rate at each point is the change in net liability over the
+ * next step divided by the step, so a cliff shows up as a spike in the
+ * step that crosses it.
+ *
+ * All amounts are in cents.
+ *
+ * @module planning/rateCurve
+ */
+
+import { getTaxYearConfig } from '../rules/taxYearConfig';
+import { getMarginalRate2025 } from '../tax/regularTax';
+import { computeTaxOutcome, planningEffects } from './whatIf';
+import type { PlanningEffect, PlanningReturn, ScenarioDelta, TaxOutcome } from './whatIf';
+
+export type RateCurveIncome = 'wages' | 'longTermGains' | 'selfEmployment' | 'iraDistribution';
+
+export interface RateCurveInput {
+  planning: PlanningReturn; // Return as entered
+  incomeType: RateCurveIncome;
+  to: number; // Largest amount added to the return
+  from?: number; // Smallest amount added; default 0
+  step?: number; // Default a fiftieth of the range in whole dollars
+}
+
+/**
+ * The return with one amount of added income
+ */
+export interface RateCurvePoint {
+  amount: number; // Income added to the return as entered
+  agi: number;
+  taxableIncome: number;
+  federalTax: number; // Net federal liability
+  stateTax: number; // Net state and local liability
+  totalTax: number;
+  effectiveRate: number; // Total liability over AGI
+  marginalRate: number; // Added federal and state liability per dollar over the next step
+  federalMarginalRate: number;
+  stateMarginalRate: number;
+  bracketRate: number; // Federal bracket rate on taxable income
+  effects: PlanningEffect[]; // Credits, deductions and other lines that change over the next step
+}
+
+export interface RateCurve {
+  incomeType: RateCurveIncome;
+  step: number;
+  points: RateCurvePoint[];
+  averageMarginalRate: number; // Added liability over the whole range per dollar
+  peak: RateCurvePoint; // Highest marginal rate in the range
+}
+
+const DEFAULT_STEPS = 50;
+
+// Lines that move with every added dollar and are already in the rates
+const UNTRACKED_EFFECTS = ['agi', 'taxableIncome'];
+
+const rate = (change: number, base: number) => (base > 0 ? change / base : 0);
+
+/**
+ * Express added income of one type as a change to the return
+ */
+export function incomeDelta(incomeType: RateCurveIncome, amount: number): ScenarioDelta {
+  switch (incomeType) {
+    case 'wages':
+      return {
+        federal: (input) => ({
+          ...input,
+          income: { ...input.income, wages: input.income.wages + amount },
+          ...(input.w2Forms && {
+            w2Forms: [
+              ...input.w2Forms,
+              {
+                employee: 'taxpayer' as const,
+                wages: amount,
+                federalWithheld: 0,
+                socialSecurityWages: amount,
+                socialSecurityTaxWithheld: 0,
+                medicareWages: amount,
+                medicareTaxWithheld: 0,
+              },
+            ],
+          }),
+        }),
+      };
+
+    case 'longTermGains':
+      return {
+        federal: (input) => ({
+          ...input,
+          income: {
+            ...input.income,
+            capGainsNet: input.income.capGainsNet + amount,
+            capitalGainsDetail: {
+              ...input.income.capitalGainsDetail,
+              longTerm: input.income.capitalGainsDetail.longTerm + amount,
+            },
+          },
+        }),
+      };
+
+    case 'selfEmployment':
+      return {
+        federal: (input) => {
+          const business = input.qbiBusinesses?.findIndex(
+            (entry) => entry.businessType === 'soleProprietorship'
+          );
+          return {
+            ...input,
+            income: { ...input.income, scheduleCNet: input.income.scheduleCNet + amount },
+            ...(business !== undefined &&
+              business >= 0 && {
+                qbiBusinesses: input.qbiBusinesses!.map((entry, i) =>
+                  i === business ? { ...entry, qbi: entry.qbi + amount } : entry
+                ),
+              }),
+          };
+        },
+      };
+
+    case 'iraDistribution':
+      return {
+        federal: (input) => ({
+          ...input,
+          retirementDistributions: [
+            ...(input.retirementDistributions ?? []),
+            {
+              payerName: 'IRA distribution',
+              grossDistribution: amount,
+              distributionCode: '7',
+              isIRASEPSIMPLE: true,
+            },
+          ],
+        }),
+      };
+  }
+}
+
+/**
+ * Sweep added income across a range and measure the rate at each step
+ *
+ * @param options - Return, income type and range
+ * @returns One point per step from `from` to `to`, with the rates over the following step
+ * @throws Error when the range or step is not positive
+ */
+export function computeRateCurve(options: RateCurveInput): RateCurve {
+  const { planning, incomeType, to } = options;
+  const from = Math.max(0, options.from ?? 0);
+  if (!(to > from)) {
+    throw new Error('The rate curve needs a range with the end above the start');
+  }
+  const step = options.step ?? Math.max(100, Math.ceil((to - from) / DEFAULT_STEPS / 100) * 100);
+  if (!(step > 0)) {
+    throw new Error('The rate curve step must be positive');
+  }
+
+  const filingStatus = planning.federalInput.filingStatus;
+  const brackets = getTaxYearConfig(planning.taxYear).getTaxBrackets(filingStatus);
+
+  // Each point's rates look one step ahead, so the sweep runs a step past the end
+  const amounts: number[] = [];
+  for (let amount = from; amount < to; amount += step) {
+    amounts.push(amount);
+  }
+  amounts.push(to, to + step);
+
+  const outcomes: TaxOutcome[] = amounts.map((amount) =>
+    computeTaxOutcome(planning, amount > 0 ? incomeDelta(incomeType, amount) : undefined)
+  );
+
+  const points = amounts.slice(0, -1).map((amount, i): RateCurvePoint => {
+    const outcome = outcomes[i]!;
+    const next = outcomes[i + 1]!;
+    const width = amounts[i + 1]! - amount;
+    return {
+      amount,
+      agi: outcome.federal.agi,
+      taxableIncome: outcome.federal.taxableIncome,
+      federalTax: outcome.federalTax,
+      stateTax: outcome.stateTax,
+      totalTax: outcome.totalTax,
+      effectiveRate: rate(outcome.totalTax, outcome.federal.agi),
+      marginalRate: rate(next.totalTax - outcome.totalTax, width),
+      federalMarginalRate: rate(next.federalTax - outcome.federalTax, width),
+      stateMarginalRate: rate(next.stateTax - outcome.stateTax, width),
+      bracketRate: getMarginalRate2025(outcome.federal.taxableIncome, filingStatus, brackets),
+      effects: planningEffects(outcome.federal, next.federal).filter(
+        (effect) => !UNTRACKED_EFFECTS.includes(effect.item)
+      ),
+    };
+  });
+
+  const first = outcomes[0]!;
+  const last = outcomes[outcomes.length - 2]!;
+  return {
+    incomeType,
+    step,
+    points,
+    averageMarginalRate: rate(last.totalTax - first.totalTax, to - from),
+    peak: points.reduce((best, point) => (point.marginalRate > best.marginalRate ? point : best)),
+  };
+}
@@ -0,0 +1,319 @@
+/**
+ * Multi-Year Roth Conversion Planner
+ *
+ * Projects a retiree's return several years forward and recommends, for
+ * each year, the traditional IRA amount to convert to a Roth IRA so that
+ * ordinary taxable income fills up to the top of a target federal bracket.
+ *
+ * Each year of the projection:
+ * - Wages stop from the retirement year
+ * - Social Security starts in its start year and grows with the COLA
+ * - The RMD is the prior year-end balance over the Uniform Lifetime Table
+ *   factor, once the owner reaches the RMD age for their birth year
+ * - The conversion is sized with the full federal computation, repeated
+ *   until taxable income settles under the bracket top, since converted
+ *   dollars can also make more Social Security taxable
+ * - MAGI sets the IRMAA tier for Medicare premiums two years later; an
+ *   optional tier limit caps the conversion below the next threshold
+ *
+ * Every year is computed under the first year's law and brackets (no
+ * inflation adjustments); ages advance by moving birth dates back, so age
+ * based amounts such as the additional standard deduction follow the
+ * projection. IRA growth is applied after the year's withdrawals.
+ *
+ * All amounts are in cents.
+ *
+ * @module planning/rothConversion
+ */
+
+import { DEFAULT_TAX_YEAR, getTaxYearConfig } from '../rules/taxYearConfig';
+import { IRMAA_2025 } from '../rules/2025/federal/medicarePremiums';
+import { RMD_2025 } from '../rules/2025/federal/retirementDistributions';
+import { calculateRegularTax2025, getMarginalRate2025 } from '../tax/regularTax';
+import type { FederalInput2025, FederalResult2025, FilingStatus } from '../types';
+import { addCents, max0 } from '../util/money';
+import { leverDelta } from './optimizer';
+import { computeTaxOutcome, planningEffects } from './whatIf';
+import type { PlanningEffect, PlanningReturn, TaxOutcome } from './whatIf';
+
+export interface RothConversionPlanInput {
+  planning: PlanningReturn; // First year's return, without the year's RMD or any conversion
+  traditionalBalance: number; // Traditional IRA balance at the end of the prior year
+  years: number;
+  targetRate: number; // Fill ordinary taxable income to the top of the bracket with this rate
+  growthRate?: number; // Annual IRA return; default 0
+  retirementYear?: number; // First year without wages
+  socialSecurity?: { startYear: number; annualBenefit: number; colaRate?: number };
+  maxIrmaaTier?: number; // Highest IRMAA tier conversions may reach; 0 keeps the standard premium
+}
+
+export interface IRMAAProjection {
+  magi: number; // AGI plus tax-exempt interest
+  tier: number; // 0 for the standard premium
+  premiumYear: number;
+  enrollees: number; // On Medicare in the premium year
+  annualSurcharge: number; // Part B and Part D, all enrollees
+}
+
+export interface RothConversionYear {
+  taxYear: number;
+  age: number;
+  startingBalance: number;
+  rmd: number;
+  conversion: number;
+  endingBalance: number;
+  socialSecurityBenefits: number;
+  limitedBy: 'bracket' | 'balance' | 'irmaa';
+  bracketTop: number; // Ordinary taxable income the conversion fills to
+  ordinaryTaxableIncome: number; // With the conversion
+  marginalRate: number; // Federal bracket rate with the conversion
+  bracketTax: number; // Regular tax the conversion adds at bracket rates
+  federalCost: number; // Change in net federal liability, including NIIT and credit changes
+  stateCost: number;
+  totalCost: number;
+  withoutConversion: TaxOutcome;
+  withConversion: TaxOutcome;
+  effects: PlanningEffect[]; // e.g. taxable Social Security, NIIT, premium tax credit
+  irmaa: IRMAAProjection; // With the conversion
+  irmaaIncrease: number; // Added surcharge over no conversion
+}
+
+export interface RothConversionPlan {
+  years: RothConversionYear[];
+  totalConverted: number;
+  totalRmd: number;
+  totalTaxCost: number;
+  totalIrmaaIncrease: number;
+  finalTraditionalBalance: number;
+}
+
+const MAX_FILL_ITERATIONS = 6;
+
+const birthYearOf = (birthDate: string | undefined) =>
+  birthDate ? Number(birthDate.slice(0, 4)) : undefined;
+
+const olderBy = (birthDate: string | undefined, years: number) =>
+  birthDate && years > 0
+    ? `${Number(birthDate.slice(0, 4)) - years}${birthDate.slice(4)}`
+    : birthDate;
+
+const floorDollars = (cents: number) => Math.floor(cents / 100) * 100;
+
+/**
+ * IRMAA tier for a MAGI: 0 for the standard premium, then 1 and up
+ */
+export function irmaaTier(magi: number, filingStatus: FilingStatus): number {
+  return IRMAA_2025.tiers[filingStatus].filter((tier) => magi > tier.magiOver).length;
+}
+
+/**
+ * Required minimum distribution for the year
+ *
+ * @param priorYearEndBalance - Traditional IRA balance at the end of the prior year
+ * @param age - Owner's age at the end of the year
+ * @param birthYear - Owner's birth year, which sets the RMD age
+ */
+export function requiredMinimumDistribution(
+  priorYearEndBalance: number,
+  age: number,
+  birthYear: number
+): number {
+  if (age < RMD_2025.startAge(birthYear) || priorYearEndBalance <= 0) return 0;
+  const table = RMD_2025.uniformLifetimeTable;
+  const divisor = table[Math.min(age - RMD_2025.uniformLifetimeFirstAge, table.length - 1)]!;
+  return Math.round(priorYearEndBalance / divisor);
+}
+
+/**
+ * Ordinary taxable income: taxable income less qualified dividends and net
+ * long-term gains, which are taxed at the capital gains rates
+ */
+function ordinaryTaxableIncome(input: FederalInput2025, result: FederalResult2025): number {
+  const { income } = input;
+  const preferential =
+    max0(income.dividends.qualified) +
+    max0(Math.min(income.capitalGainsDetail.longTerm, income.capGainsNet));
+  return max0(result.taxableIncome - preferential);
+}
+
+const magiOf = (input: FederalInput2025, result: FederalResult2025) =>
+  result.agi + (input.income.taxExemptInterest ?? 0);
+
+/**
+ * Project the return as entered to a later year
+ */
+function projectYear(
+  planning: PlanningReturn,
+  yearsAhead: number,
+  options: { retired: boolean; socialSecurityBenefits?: number; rmd: number }
+): PlanningReturn {
+  const input = planning.federalInput;
+  const { income } = input;
+  const { socialSecurity: enteredBenefits, ...otherIncome } = income;
+  const benefits = options.socialSecurityBenefits;
+
+  const federalInput: FederalInput2025 = {
+    ...input,
+    primary: { ...input.primary, birthDate: olderBy(input.primary.birthDate, yearsAhead) },
+    ...(input.spouse && {
+      spouse: { ...input.spouse, birthDate: olderBy(input.spouse.birthDate, yearsAhead) },
+    }),
+    income: {
+      ...otherIncome,
+      ...(options.retired && { wages: 0 }),
+      ...(benefits === undefined
+        ? enteredBenefits && { socialSecurity: enteredBenefits }
+        : benefits > 0 && { socialSecurity: { ...enteredBenefits, grossBenefits: benefits } }),
+    },
+    ...(options.retired && { w2Forms: undefined }),
+    retirementDistributions: [
+      ...(input.retirementDistributions ?? []),
+      ...(options.rmd > 0
+        ? [
+            {
+              payerName: 'Required minimum distribution',
+              grossDistribution: options.rmd,
+              distributionCode: '7' as const,
+              isIRASEPSIMPLE: true,
+            },
+          ]
+        : []),
+    ],
+  };
+
+  return { ...planning, federalInput };
+}
+
+/**
+ * Plan Roth conversions that fill a target bracket each year
+ *
+ * @throws Error when the taxpayer's birth date is missing or no bracket has the target rate
+ */
+export function planRothConversions(options: RothConversionPlanInput): RothConversionPlan {
+  const { planning, targetRate } = options;
+  const input = planning.federalInput;
+  const filingStatus = input.filingStatus;
+  const birthYear = birthYearOf(input.primary.birthDate);
+  if (birthYear === undefined) {
+    throw new Error("The taxpayer's birth date is needed to project RMDs and Medicare premiums");
+  }
+  const spouseBirthYear =
+    filingStatus === 'marriedJointly' ? birthYearOf(input.spouse?.birthDate) : undefined;
+
+  const firstYear = planning.taxYear ?? DEFAULT_TAX_YEAR;
+  const brackets = getTaxYearConfig(firstYear).getTaxBrackets(filingStatus);
+  const target = brackets.find((bracket) => bracket.rate === targetRate);
+  if (!target) {
+    throw new Error(`There is no ${targetRate * 100}% federal bracket`);
+  }
+  const bracketTop = target.max;
+
+  const irmaaProjection = (magi: number, taxYear: number): IRMAAProjection => {
+    const premiumYear = taxYear + IRMAA_2025.lookbackYears;
+    const enrollees = [birthYear, spouseBirthYear].filter(
+      (year) => year !== undefined && premiumYear - year >= IRMAA_2025.enrollmentAge
+    ).length;
+    const tier = irmaaTier(magi, filingStatus);
+    const surcharge = IRMAA_2025.tiers[filingStatus][tier - 1];
+    const monthly = surcharge ? surcharge.partBMonthly + surcharge.partDMonthly : 0;
+    return { magi, tier, premiumYear, enrollees, annualSurcharge: monthly * 12 * enrollees };
+  };
+
+  const years: RothConversionYear[] = [];
+  let balance = options.traditionalBalance;
+
+  for (let yearsAhead = 0; yearsAhead < options.years; yearsAhead++) {
+    const taxYear = firstYear + yearsAhead;
+    const age = taxYear - birthYear;
+    const startingBalance = balance;
+    const rmd = Math.min(
+      startingBalance,
+      requiredMinimumDistribution(startingBalance, age, birthYear)
+    );
+
+    const ss = options.socialSecurity;
+    const socialSecurityBenefits =
+      ss === undefined
+        ? undefined
+        : taxYear < ss.startYear
+          ? 0
+          : Math.round(ss.annualBenefit * (1 + (ss.colaRate ?? 0)) ** (taxYear - ss.startYear));
+
+    const yearReturn = projectYear(planning, yearsAhead, {
+      retired: options.retirementYear !== undefined && taxYear >= options.retirementYear,
+      socialSecurityBenefits,
+      rmd,
+    });
+    const yearInput = yearReturn.federalInput;
+    const evaluate = (amount: number) =>
+      computeTaxOutcome(yearReturn, amount > 0 ? leverDelta('rothConversion', amount) : undefined);
+
+    const withoutConversion = evaluate(0);
+    const ordinaryBefore = ordinaryTaxableIncome(yearInput, withoutConversion.federal);
+    const without = irmaaProjection(magiOf(yearInput, withoutConversion.federal), taxYear);
+
+    // Converting past the limit tier's threshold would raise premiums
+    const limitTier =
+      options.maxIrmaaTier !== undefined && without.enrollees > 0
+        ? IRMAA_2025.tiers[filingStatus][options.maxIrmaaTier]
+        : undefined;
+    const magiLimit = limitTier?.magiOver ?? Infinity;
+
+    const available = startingBalance - rmd;
+    let conversion = floorDollars(Math.min(available, max0(bracketTop - ordinaryBefore)));
+    let limitedBy: RothConversionYear['limitedBy'] =
+      conversion === available ? 'balance' : 'bracket';
+    let withConversion = evaluate(conversion);
+    for (let i = 0; i < MAX_FILL_ITERATIONS && conversion > 0; i++) {
+      const bracketExcess = ordinaryTaxableIncome(yearInput, withConversion.federal) - bracketTop;
+      const magiExcess = magiOf(yearInput, withConversion.federal) - magiLimit;
+      const excess = Math.max(bracketExcess, magiExcess);
+      if (excess <= 0) break;
+      limitedBy = magiExcess > bracketExcess ? 'irmaa' : 'bracket';
+      conversion = floorDollars(max0(conversion - excess));
+      withConversion = evaluate(conversion);
+    }
+
+    const ordinaryAfter = ordinaryTaxableIncome(yearInput, withConversion.federal);
+    const irmaa = irmaaProjection(magiOf(yearInput, withConversion.federal), taxYear);
+    const federalCost = withConversion.federalTax - withoutConversion.federalTax;
+    const stateCost = withConversion.stateTax - withoutConversion.stateTax;
+
+    balance = Math.round((startingBalance - rmd - conversion) * (1 + (options.growthRate ?? 0)));
+
+    years.push({
+      taxYear,
+      age,
+      startingBalance,
+      rmd,
+      conversion,
+      endingBalance: balance,
+      socialSecurityBenefits:
+        socialSecurityBenefits ?? yearInput.income.socialSecurity?.grossBenefits ?? 0,
+      limitedBy,
+      bracketTop,
+      ordinaryTaxableIncome: ordinaryAfter,
+      marginalRate: getMarginalRate2025(ordinaryAfter, filingStatus, brackets),
+      bracketTax:
+        calculateRegularTax2025(ordinaryAfter, filingStatus, brackets) -
+        calculateRegularTax2025(ordinaryBefore, filingStatus, brackets),
+      federalCost,
+      stateCost,
+      totalCost: federalCost + stateCost,
+      withoutConversion,
+      withConversion,
+      effects: planningEffects(withoutConversion.federal, withConversion.federal),
+      irmaa,
+      irmaaIncrease: irmaa.annualSurcharge - without.annualSurcharge,
+    });
+  }
+
+  return {
+    years,
+    totalConverted: addCents(...years.map((year) => year.conversion)),
+    totalRmd: addCents(...years.map((year) => year.rmd)),
+    totalTaxCost: addCents(...years.map((year) => year.totalCost)),
+    totalIrmaaIncrease: addCents(...years.map((year) => year.irmaaIncrease)),
+    finalTraditionalBalance: balance,
+  };
+}
@@ -0,0 +1,367 @@
+/**
+ * What-If Tax Planning Scenarios
+ *
+ * Each planning idea is expressed as a change to the federal input (and,
+ * where the state treats it differently, to the state input), then the
+ * whole return is recomputed with computeFederal and the state calculator.
+ * Savings are the difference in net liability, so phaseouts and credit
+ * cliffs (EITC, CTC, saver's credit, premium tax credit, taxable Social
+ * Security, NIIT) are reflected exactly rather than estimated with a
+ * bracket rate.
+ *
+ * Net liability is tax after refundable credits plus any estimated tax
+ * penalty: total payments less the refund (or plus the amount owed).
+ *
+ * Scenarios:
+ * - Elective deferral: 401(k)/403(b) deferrals reduce W-2 Box 1 wages but
+ *   not Social Security or Medicare wages; counted for the saver's credit
+ * - HSA contribution: Form 8889 contribution, or the Schedule 1 Line 13
+ *   deduction when no HSA accounts were entered
+ * - Charitable bunching: several years of gifts given in one year, with no
+ *   gifts in the following years; compared over the whole cycle
+ * - Roth conversion: taxable traditional IRA distribution (1099-R code 2,
+ *   no additional tax on early distributions)
+ * - Tax-loss harvesting: additional realized capital loss, sold as a
+ *   Form 8949 lot so the Schedule D loss limit and carryover apply
+ *
+ * All amounts are in cents.
+ *
+ * @module planning/whatIf
+ */
+
+import { computeFederal } from '../federal/computeFederal';
+import { getStateCalculator } from '../states/registry';
+import type { FederalInput2025, FederalResult2025 } from '../types';
+import type { StateResult, StateTaxInput } from '../types/stateTax';
+import { addCents, max0 } from '../util/money';
+
+/**
+ * A planning idea to test against the return
+ */
+export type WhatIfScenario =
+  | { kind: 'electiveDeferral'; amount: number } // Additional 401(k)/403(b) deferral
+  | { kind: 'hsaContribution'; amount: number } // Additional HSA contribution
+  | { kind: 'charitableBunching'; annualGift: number; years: number } // Gifts per year and years bunched
+  | { kind: 'rothConversion'; amount: number } // Traditional IRA converted to a Roth IRA
+  | { kind: 'taxLossHarvest'; amount: number; term?: 'short' | 'long' }; // Loss realized (positive amount)
+
+/**
+ * A change to one year's return
+ */
+export interface ScenarioDelta {
+  federal: (input: FederalInput2025) => FederalInput2025;
+  state?: (input: StateTaxInput) => StateTaxInput;
+}
+
+/**
+ * The return being planned
+ */
+export interface PlanningReturn {
+  federalInput: FederalInput2025;
+  taxYear?: number;
+
+  /** Builds the state input from the federal result; omit when there is no state return */
+  buildStateInput?: (federalResult: FederalResult2025) => StateTaxInput;
+}
+
+/**
+ * Federal and state results for one version of the return
+ */
+export interface TaxOutcome {
+  federal: FederalResult2025;
+  state?: StateResult;
+  federalTax: number; // Net federal liability
+  stateTax: number; // Net state and local liability
+  totalTax: number;
+}
+
+/**
+ * A result line that the scenario changed, such as a credit lost to a phaseout
+ */
+export interface PlanningEffect {
+  item: string; // e.g. 'credits.eitc', 'additionalTaxes.niit'
+  label: string;
+  baseline: number;
+  scenario: number;
+  change: number; // scenario - baseline
+}
+
+export interface WhatIfResult {
+  scenario: WhatIfScenario;
+  years: number; // Years compared (more than one for charitable bunching)
+  baseline: TaxOutcome; // First year as entered
+  projected: TaxOutcome; // First year with the scenario
+  federalSavings: number; // Over all years compared; negative when the scenario costs tax
+  stateSavings: number;
+  totalSavings: number;
+  deductionTypeChanged: boolean;
+  effects: PlanningEffect[];
+}
+
+/**
+ * Result lines checked for phaseout and cliff effects
+ */
+const TRACKED_EFFECTS: { item: string; label: string; read: (r: FederalResult2025) => number }[] = [
+  { item: 'agi', label: 'Adjusted gross income', read: (r) => r.agi },
+  { item: 'taxableIncome', label: 'Taxable income', read: (r) => r.taxableIncome },
+  {
+    item: 'taxableSocialSecurity',
+    label: 'Taxable Social Security',
+    read: (r) => r.taxableSocialSecurity ?? 0,
+  },
+  {
+    item: 'studentLoanInterestDeduction',
+    label: 'Student loan interest deduction',
+    read: (r) => r.studentLoanInterestDeduction ?? 0,
+  },
+  { item: 'qbiDeduction', label: 'QBI deduction', read: (r) => r.qbiDeduction ?? 0 },
+  { item: 'credits.ctc', label: 'Child tax credit', read: (r) => r.credits.ctc ?? 0 },
+  { item: 'credits.eitc', label: 'Earned income credit', read: (r) => r.credits.eitc ?? 0 },
+  { item: 'credits.aotc', label: 'American opportunity credit', read: (r) => r.credits.aotc ?? 0 },
+  { item: 'credits.llc', label: 'Lifetime learning credit', read: (r) => r.credits.llc ?? 0 },
+  { item: 'credits.ptc', label: 'Premium tax credit', read: (r) => r.credits.ptc ?? 0 },
+  {
+    item: 'credits.ptcRepayment',
+    label: 'Excess advance PTC repayment',
+    read: (r) => r.credits.ptcRepayment ?? 0,
+  },
+  {
+    item: 'credits.otherNonRefundable',
+    label: "Saver's and dependent care credits",
+    read: (r) => r.credits.otherNonRefundable ?? 0,
+  },
+  {
+    item: 'credits.elderlyDisabled',
+    label: 'Credit for the elderly or disabled',
+    read: (r) => r.credits.elderlyDisabled ?? 0,
+  },
+  {
+    item: 'additionalTaxes.niit',
+    label: 'Net investment income tax',
+    read: (r) => r.additionalTaxes?.niit ?? 0,
+  },
+  {
+    item: 'additionalTaxes.amt',
+    label: 'Alternative minimum tax',
+    read: (r) => r.additionalTaxes?.amt ?? 0,
+  },
+];
+
+/**
+ * Result lines that differ between two federal results
+ */
+export function planningEffects(
+  baseline: FederalResult2025,
+  scenario: FederalResult2025
+): PlanningEffect[] {
+  return TRACKED_EFFECTS.map(({ item, label, read }) => {
+    const before = read(baseline);
+    const after = read(scenario);
+    return { item, label, baseline: before, scenario: after, change: after - before };
+  }).filter((effect) => effect.change !== 0);
+}
+
+/**
+ * Compute the federal and state return
+ *
+ * @param planning - Return being planned
+ * @param delta - Change to apply; omit for the return as entered
+ */
+export function computeTaxOutcome(planning: PlanningReturn, delta?: ScenarioDelta): TaxOutcome {
+  const federalInput = delta ? delta.federal(planning.federalInput) : planning.federalInput;
+  const federal = computeFederal(federalInput, planning.taxYear);
+
+  let state: StateResult | undefined;
+  if (planning.buildStateInput) {
+    const baseStateInput = planning.buildStateInput(federal);
+    const stateInput = delta?.state ? delta.state(baseStateInput) : baseStateInput;
+    state = getStateCalculator(stateInput.state)?.calculator(stateInput);
+  }
+
+  const federalTax = federal.totalPayments - federal.refundOrOwe;
+  const stateTax = state
+    ? addCents(state.stateWithheld, state.stateEstPayments) - state.stateRefundOrOwe
+    : 0;
+
+  return { federal, state, federalTax, stateTax, totalTax: federalTax + stateTax };
+}
+
+/**
+ * Express a scenario as the change to each year's return
+ *
+ * @returns One delta per year compared
+ */
+export function scenarioDeltas(scenario: WhatIfScenario): ScenarioDelta[] {
+  switch (scenario.kind) {
+    case 'electiveDeferral':
+      return [
+        {
+          federal: (input) => {
+            const amount = Math.min(scenario.amount, max0(input.income.wages));
+            return {
+              ...input,
+              income: { ...input.income, wages: input.income.wages - amount },
+              ...(input.saversCreditInfo && {
+                saversCreditInfo: {
+                  ...input.saversCreditInfo,
+                  taxpayerContributions: addCents(
+                    input.saversCreditInfo.taxpayerContributions,
+                    amount
+                  ),
+                },
+              }),
+            };
+          },
+        },
+      ];
+
+    case 'hsaContribution':
+      return [
+        {
+          federal: (input) => {
+            const accounts = input.hsaAccounts ?? [];
+            if (accounts.length > 0) {
+              return {
+                ...input,
+                hsaAccounts: accounts.map((account, i) =>
+                  i === 0
+                    ? { ...account, contributions: account.contributions + scenario.amount }
+                    : account
+                ),
+              };
+            }
+            return {
+              ...input,
+              adjustments: {
+                ...input.adjustments,
+                hsaDeduction: input.adjustments.hsaDeduction + scenario.amount,
+              },
+            };
+          },
+        },
+      ];
+
+    case 'charitableBunching': {
+      const years = Math.max(1, Math.floor(scenario.years));
+      // A gift entered only as part of a total itemized amount is taken from `other`
+      const giveCharitable = (change: number) => (input: FederalInput2025) => {
+        const { charitable, other } = input.itemized;
+        const fromOther = Math.min(max0(-change - charitable), other);
+        return {
+          ...input,
+          itemized: {
+            ...input.itemized,
+            charitable: max0(charitable + change),
+            other: other - fromOther,
+          },
+        };
+      };
+      const giveStateCharitable = (change: number) => (input: StateTaxInput) =>
+        input.stateItemized?.charitableContributions === undefined
+          ? input
+          : {
+              ...input,
+              stateItemized: {
+                ...input.stateItemized,
+                charitableContributions: max0(input.stateItemized.charitableContributions + change),
+              },
+            };
+      // The return as entered includes one year's gift
+      const bunched = scenario.annualGift * (years - 1);
+      return [
+        { federal: giveCharitable(bunched), state: giveStateCharitable(bunched) },
+        ...Array.from({ length: years - 1 }, () => ({
+          federal: giveCharitable(-scenario.annualGift),
+          state: giveStateCharitable(-scenario.annualGift),
+        })),
+      ];
+    }
+
+    case 'rothConversion':
+      return [
+        {
+          federal: (input) => ({
+            ...input,
+            retirementDistributions: [
+              ...(input.retirementDistributions ?? []),
+              {
+                payerName: 'Roth conversion',
+                grossDistribution: scenario.amount,
+                distributionCode: '2',
+                isIRASEPSIMPLE: true,
+              },
+            ],
+          }),
+        },
+      ];
+
+    case 'taxLossHarvest':
+      return [
+        {
+          // A Form 8949 lot, so Schedule D applies the $3,000 limit and carryover
+          federal: (input) => ({
+            ...input,
+            capitalAssetDispositions: [
+              ...(input.capitalAssetDispositions ?? []),
+              {
+                description: 'Tax-loss harvest',
+                dateAcquired: 'VARIOUS',
+                dateSold: 'VARIOUS',
+                proceeds: 0,
+                costBasis: scenario.amount,
+                term: scenario.term ?? 'short',
+              },
+            ],
+          }),
+        },
+      ];
+  }
+}
+
+/**
+ * Run one scenario against the return
+ *
+ * Charitable bunching compares the whole cycle: each year of the plan
+ * against the same number of years as entered.
+ *
+ * @param planning - Return being planned
+ * @param scenario - Planning idea to test
+ * @param baseline - Outcome of the return as entered, when already computed
+ */
+export function runWhatIf(
+  planning: PlanningReturn,
+  scenario: WhatIfScenario,
+  baseline: TaxOutcome = computeTaxOutcome(planning)
+): WhatIfResult {
+  const outcomes = scenarioDeltas(scenario).map((delta) => computeTaxOutcome(planning, delta));
+  const projected = outcomes[0]!;
+  const years = outcomes.length;
+
+  const federalSavings =
+    baseline.federalTax * years - addCents(...outcomes.map((outcome) => outcome.federalTax));
+  const stateSavings =
+    baseline.stateTax * years - addCents(...outcomes.map((outcome) => outcome.stateTax));
+
+  return {
+    scenario,
+    years,
+    baseline,
+    projected,
+    federalSavings,
+    stateSavings,
+    totalSavings: federalSavings + stateSavings,
+    deductionTypeChanged: baseline.federal.deductionType !== projected.federal.deductionType,
+    effects: planningEffects(baseline.federal, projected.federal),
+  };
+}
+
+/**
+ * Run several scenarios, each against the return as entered
+ */
+export function runWhatIfScenarios(
+  planning: PlanningReturn,
+  scenarios: WhatIfScenario[]
+): WhatIfResult[] {
+  const baseline = computeTaxOutcome(planning);
+  return scenarios.map((scenario) => runWhatIf(planning, scenario, baseline));
+}
@@ -0,0 +1,46 @@
+import { FilingStatus } from '../../../types';
+import { dollarsToCents } from '../../../util/money';
+
+/**
+ * Alternative Minimum Tax (AMT) Constants for 2024
+ * Form 6251 - Alternative Minimum Tax - Individuals
+ *
+ * Source: IRS Rev. Proc. 2023-34 §3.11 (2024 inflation adjustments)
+ * https://www.irs.gov/pub/irs-drop/rp-23-34.pdf
+ */
+
+/**
+ * AMT Exemption Amounts for 2024
+ */
+export const AMT_EXEMPTION_2024: Record<FilingStatus, number> = {
+  single: dollarsToCents(85700), // $85,700
+  marriedJointly: dollarsToCents(133300), // $133,300
+  marriedSeparately: dollarsToCents(66650), // $66,650
+  headOfHousehold: dollarsToCents(85700), // $85,700
+};
+
+/**
+ * AMT Exemption Phase-out Thresholds for 2024
+ * The exemption is reduced by 25% of AMTI above these amounts
+ */
+export const AMT_EXEMPTION_PHASEOUT_2024: Record<FilingStatus, number> = {
+  single: dollarsToCents(609350), // $609,350
+  marriedJointly: dollarsToCents(1218700), // $1,218,700
+  marriedSeparately: dollarsToCents(609350), // $609,350
+  headOfHousehold: dollarsToCents(609350), // $609,350
+};
+
+/**
+ * Taxable excess above which the 28% AMT rate applies for 2024
+ */
+export const AMT_RATE_THRESHOLD_2024: Record<FilingStatus, number> = {
+  single: dollarsToCents(232600), // $232,600
+  marriedJointly: dollarsToCents(232600), // $232,600
+  marriedSeparately: dollarsToCents(116300), // $116,300
+  headOfHousehold: dollarsToCents(232600), // $232,600
+};
+
+/**
+ * Exemption reduction per dollar of AMTI above the phase-out threshold
+ */
+export const AMT_EXEMPTION_PHASEOUT_RATE_2024 = 0.25;
@@ -0,0 +1,15 @@
+import { dollarsToCents } from '../../../util/money';
+
+// Child Tax Credit parameters for 2024
+// Source: IRC §24(h), Rev. Proc. 2023-34 §3.05 (refundable portion)
+export const CTC_2024 = {
+  maxCredit: dollarsToCents(2000), // Per qualifying child
+  additionalChildCredit: dollarsToCents(1700), // Refundable portion per child
+  phaseOutThresholds: {
+    marriedJointly: dollarsToCents(400000),
+    single: dollarsToCents(200000),
+    marriedSeparately: dollarsToCents(200000),
+    headOfHousehold: dollarsToCents(200000),
+  },
+  phaseOutRate: 0.05, // $50 per $1,000 of income over threshold
+};
@@ -0,0 +1,34 @@
+import { FilingStatus } from '../../../types';
+import { dollarsToCents } from '../../../util/money';
+
+// Standard deductions for 2024 (converted to cents)
+// Source: IRS Rev. Proc. 2023-34 §3.16
+export const STANDARD_DEDUCTION_2024: Record<FilingStatus, number> = {
+  single: dollarsToCents(14600),
+  marriedJointly: dollarsToCents(29200),
+  marriedSeparately: dollarsToCents(14600),
+  headOfHousehold: dollarsToCents(21900),
+};
+
+// Additional standard deduction amounts for 2024
+// Source: IRS Rev. Proc. 2023-34 §3.16
+export const ADDITIONAL_STANDARD_DEDUCTION_2024 = {
+  // For unmarried taxpayers (Single, Head of Household)
+  age65OrOlderUnmarried: dollarsToCents(1950), // Per person
+  blindUnmarried: dollarsToCents(1950), // Per person
+  // For married taxpayers (MFJ, MFS, QSS)
+  age65OrOlderMarried: dollarsToCents(1550), // Per person
+  blindMarried: dollarsToCents(1550), // Per person
+};
+
+// Standard deduction for a taxpayer who can be claimed as someone else's dependent:
+// the greater of the minimum or earned income plus the addition, not more than
+// the regular standard deduction
+// Source: IRC §63(c)(5), IRS Rev. Proc. 2023-34 §3.16
+export const DEPENDENT_STANDARD_DEDUCTION_2024 = {
+  minimum: dollarsToCents(1300),
+  earnedIncomeAddition: dollarsToCents(450),
+};
+
+// SALT (State and Local Tax) deduction cap
+export const SALT_CAP_2024 = dollarsToCents(10000);
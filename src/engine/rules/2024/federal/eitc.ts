@@ -0,0 +1,42 @@
+import type { EITCQualifyingChildren, EITCTableRow } from '../../2025/federal/eitc';
+
+// EITC parameters for 2024 (Rev. Proc. 2023-34 §3.06)
+// All amounts in cents
+
+// Investment income limit for EITC eligibility in 2024
+export const EITC_INVESTMENT_INCOME_LIMIT_2024 = 1160000; // $11,600
+
+export const EITC_2024: Record<EITCQualifyingChildren, EITCTableRow> = {
+  0: {
+    earnedIncomeAmount: 826000, // $8,260
+    maxCredit: 63200, // $632
+    thresholdPhaseoutMFJ: 1725000, // $17,250
+    completedPhaseoutMFJ: 2551100, // $25,511
+    thresholdPhaseoutOther: 1033000, // $10,330
+    completedPhaseoutOther: 1859100, // $18,591
+  },
+  1: {
+    earnedIncomeAmount: 1239000, // $12,390
+    maxCredit: 421300, // $4,213
+    thresholdPhaseoutMFJ: 2964000, // $29,640
+    completedPhaseoutMFJ: 5600400, // $56,004
+    thresholdPhaseoutOther: 2272000, // $22,720
+    completedPhaseoutOther: 4908400, // $49,084
+  },
+  2: {
+    earnedIncomeAmount: 1740000, // $17,400
+    maxCredit: 696000, // $6,960
+    thresholdPhaseoutMFJ: 2964000, // $29,640
+    completedPhaseoutMFJ: 6268800, // $62,688
+    thresholdPhaseoutOther: 2272000, // $22,720
+    completedPhaseoutOther: 5576800, // $55,768
+  },
+  3: {
+    earnedIncomeAmount: 1740000, // $17,400
+    maxCredit: 783000, // $7,830
+    thresholdPhaseoutMFJ: 2964000, // $29,640
+    completedPhaseoutMFJ: 6681900, // $66,819
+    thresholdPhaseoutOther: 2272000, // $22,720
+    completedPhaseoutOther: 5989900, // $59,899
+  },
+};
@@ -0,0 +1,42 @@
+import type { FilingStatus, TaxBracket } from '../../../types';
+
+// 2024 ordinary income tax brackets (Rev. Proc. 2023-34)
+// Ranges are inclusive of min, exclusive of max. All amounts in cents.
+export const FEDERAL_BRACKETS_2024: Record<FilingStatus, TaxBracket[]> = {
+  single: [
+    { min: 0, max: 1160000, rate: 0.1 }, // $0 - $11,600
+    { min: 1160000, max: 4715000, rate: 0.12 }, // $11,600 - $47,150
+    { min: 4715000, max: 10052500, rate: 0.22 }, // $47,150 - $100,525
+    { min: 10052500, max: 19195000, rate: 0.24 }, // $100,525 - $191,950
+    { min: 19195000, max: 24372500, rate: 0.32 }, // $191,950 - $243,725
+    { min: 24372500, max: 60935000, rate: 0.35 }, // $243,725 - $609,350
+    { min: 60935000, max: Infinity, rate: 0.37 }, // $609,350+
+  ],
+  marriedJointly: [
+    { min: 0, max: 2320000, rate: 0.1 }, // $0 - $23,200
+    { min: 2320000, max: 9430000, rate: 0.12 }, // $23,200 - $94,300
+    { min: 9430000, max: 20105000, rate: 0.22 }, // $94,300 - $201,050
+    { min: 20105000, max: 38390000, rate: 0.24 }, // $201,050 - $383,900
+    { min: 38390000, max: 48745000, rate: 0.32 }, // $383,900 - $487,450
+    { min: 48745000, max: 73120000, rate: 0.35 }, // $487,450 - $731,200
+    { min: 73120000, max: Infinity, rate: 0.37 }, // $731,200+
+  ],
+  marriedSeparately: [
+    { min: 0, max: 1160000, rate: 0.1 }, // $0 - $11,600
+    { min: 1160000, max: 4715000, rate: 0.12 }, // $11,600 - $47,150
+    { min: 4715000, max: 10052500, rate: 0.22 }, // $47,150 - $100,525
+    { min: 10052500, max: 19195000, rate: 0.24 }, // $100,525 - $191,950
+    { min: 19195000, max: 24372500, rate: 0.32 }, // $191,950 - $243,725
+    { min: 24372500, max: 36560000, rate: 0.35 }, // $243,725 - $365,600
+    { min: 36560000, max: Infinity, rate: 0.37 }, // $365,600+
+  ],
+  headOfHousehold: [
+    { min: 0, max: 1655000, rate: 0.1 }, // $0 - $16,550
+    { min: 1655000, max: 6310000, rate: 0.12 }, // $16,550 - $63,100
+    { min: 6310000, max: 10050000, rate: 0.22 }, // $63,100 - $100,500
+    { min: 10050000, max: 19195000, rate: 0.24 }, // $100,500 - $191,950
+    { min: 19195000, max: 24370000, rate: 0.32 }, // $191,950 - $243,700
+    { min: 24370000, max: 60935000, rate: 0.35 }, // $243,700 - $609,350
+    { min: 60935000, max: Infinity, rate: 0.37 }, // $609,350+
+  ],
+};
@@ -0,0 +1,24 @@
+import type { FilingStatus } from '../../../types';
+import type { LTCGThresholds } from '../../2025/federal/ltcgThresholds';
+
+// Preferential long-term capital gains / qualified dividends thresholds for 2024
+// Source: Rev. Proc. 2023-34 §3.03
+// All amounts in cents
+export const LTCG_2024: Record<FilingStatus, LTCGThresholds> = {
+  marriedJointly: {
+    zeroRateMax: 9405000, // $94,050
+    fifteenRateMax: 58375000, // $583,750
+  },
+  marriedSeparately: {
+    zeroRateMax: 4702500, // $47,025
+    fifteenRateMax: 29185000, // $291,850
+  },
+  headOfHousehold: {
+    zeroRateMax: 6300000, // $63,000
+    fifteenRateMax: 55135000, // $551,350
+  },
+  single: {
+    zeroRateMax: 4702500, // $47,025
+    fifteenRateMax: 51890000, // $518,900
+  },
+};
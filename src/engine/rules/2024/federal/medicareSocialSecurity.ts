@@ -0,0 +1,2 @@
+// Social Security wage base for 2024 (SSA)
+export const SS_WAGE_BASE_2024 = 16860000; // $168,600
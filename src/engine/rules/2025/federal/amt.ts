@@ -19,10 +19,10 @@ import { dollarsToCents } from '../../../util/money';
  * These amounts are subtracted from AMTI before calculating AMT
  */
 export const AMT_EXEMPTION_2025: Record<FilingStatus, number> = {
-  single: dollarsToCents(88100),               // $88,100
-  marriedJointly: dollarsToCents(137000),      // $137,000
-  marriedSeparately: dollarsToCents(68500),    // $68,500
-  headOfHousehold: dollarsToCents(88100),      // $88,100
+  single: dollarsToCents(88100), // $88,100
+  marriedJointly: dollarsToCents(137000), // $137,000
+  marriedSeparately: dollarsToCents(68500), // $68,500
+  headOfHousehold: dollarsToCents(88100), // $88,100
 };
 
 /**
@@ -33,12 +33,17 @@ export const AMT_EXEMPTION_2025: Record<FilingStatus, number> = {
  * Exemption is completely phased out when AMTI exceeds Threshold + (Exemption * 4)
  */
 export const AMT_EXEMPTION_PHASEOUT_2025: Record<FilingStatus, number> = {
-  single: dollarsToCents(626350),              // $626,350
-  marriedJointly: dollarsToCents(1252700),     // $1,252,700
-  marriedSeparately: dollarsToCents(626350),   // $626,350
-  headOfHousehold: dollarsToCents(626350),     // $626,350
+  single: dollarsToCents(626350), // $626,350
+  marriedJointly: dollarsToCents(1252700), // $1,252,700
+  marriedSeparately: dollarsToCents(626350), // $626,350
+  headOfHousehold: dollarsToCents(626350), // $626,350
 };
 
+/**
+ * Exemption reduction per dollar of AMTI above the phase-out threshold
+ */
+export const AMT_EXEMPTION_PHASEOUT_RATE_2025 = 0.25;
+
 /**
  * AMT Tax Rate Brackets for 2025
  * Two-tier rate structure: 26% and 28%
@@ -47,10 +52,10 @@ export const AMT_EXEMPTION_PHASEOUT_2025: Record<FilingStatus, number> = {
  * Source: IRS Form 6251 instructions for 2025
  */
 export const AMT_RATE_THRESHOLD_2025: Record<FilingStatus, number> = {
-  single: dollarsToCents(220700),              // $220,700
-  marriedJointly: dollarsToCents(220700),      // $220,700
-  marriedSeparately: dollarsToCents(110350),   // $110,350
-  headOfHousehold: dollarsToCents(220700),     // $220,700
+  single: dollarsToCents(220700), // $220,700
+  marriedJointly: dollarsToCents(220700), // $220,700
+  marriedSeparately: dollarsToCents(110350), // $110,350
+  headOfHousehold: dollarsToCents(220700), // $220,700
 };
 
 /**
@@ -59,8 +64,8 @@ export const AMT_RATE_THRESHOLD_2025: Record<FilingStatus, number> = {
  * 28% on taxable excess above threshold
  */
 export const AMT_RATES = {
-  lower: 0.26,  // 26% rate on income up to threshold
-  upper: 0.28,  // 28% rate on income above threshold
+  lower: 0.26, // 26% rate on income up to threshold
+  upper: 0.28, // 28% rate on income above threshold
 };
 
 /**
@@ -165,8 +170,8 @@ export const AMT_QSBS_PREFERENCE_RATE = 0.07;
  */
 export const AMT_ITEMIZED_ADJUSTMENTS = {
   // Not allowed for AMT:
-  saltNotAllowed: true,           // State and local taxes
-  miscNotAllowed: true,           // Miscellaneous deductions (suspended anyway)
+  saltNotAllowed: true, // State and local taxes
+  miscNotAllowed: true, // Miscellaneous deductions (suspended anyway)
 
   // Allowed but may differ:
   medicalExpenseThreshold: 0.075, // 7.5% of AGI (same as regular for 2025)
@@ -183,7 +188,7 @@ export const AMT_ITEMIZED_ADJUSTMENTS = {
  * For AMT purposes, NOL deduction is limited to 90% of AMTI (before NOL)
  * versus 80% for regular tax under TCJA
  */
-export const AMT_NOL_LIMITATION = 0.90; // 90% of AMTI
+export const AMT_NOL_LIMITATION = 0.9; // 90% of AMTI
 
 /**
  * AMT Depreciation Rules
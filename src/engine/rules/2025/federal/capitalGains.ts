@@ -0,0 +1,41 @@
+import type { FilingStatus } from '../../../types';
+import { dollarsToCents } from '../../../util/money';
+
+/**
+ * Capital Gains and Losses (2025)
+ * Form 8949, Schedule D
+ *
+ * Net capital losses are deductible against ordinary income up to an annual
+ * limit; the rest carries over to later years, keeping its short- or
+ * long-term character. Collectibles gain and unrecaptured §1250 gain are
+ * taxed at maximum rates of 28% and 25% instead of the 0%/15%/20% rates.
+ * These amounts are not indexed for inflation.
+ *
+ * Source: IRC §1(h), §1091, §1211(b), §1212(b), §1222, Schedule D Instructions
+ * https://www.irs.gov/forms-pubs/about-schedule-d-form-1040
+ */
+
+/**
+ * Capital loss deduction limit (Schedule D Line 21)
+ * IRC §1211(b)
+ */
+export const CAPITAL_LOSS_LIMIT_2025: Record<FilingStatus, number> = {
+  single: dollarsToCents(3000),
+  marriedJointly: dollarsToCents(3000),
+  marriedSeparately: dollarsToCents(1500),
+  headOfHousehold: dollarsToCents(3000),
+};
+
+/**
+ * Maximum rates on gains excluded from the 0%/15%/20% rates
+ * IRC §1(h)(1)(E), §1(h)(1)(F)
+ */
+export const UNRECAPTURED_1250_GAIN_RATE = 0.25;
+export const COLLECTIBLES_GAIN_RATE = 0.28;
+
+/**
+ * Wash sale window: substantially identical stock bought within 30 days
+ * before or after a sale at a loss
+ * IRC §1091(a)
+ */
+export const WASH_SALE_WINDOW_DAYS = 30;
@@ -0,0 +1,65 @@
+import type { FilingStatus } from '../../../types';
+import { dollarsToCents } from '../../../util/money';
+
+/**
+ * Clean Vehicle Credits (2025)
+ * Form 8936
+ *
+ * New clean vehicles (§30D) qualify for up to $7,500, split between the
+ * critical mineral and battery component requirements, when the MSRP is
+ * under the limit for the vehicle class. Previously owned clean vehicles
+ * (§25E) qualify for 30% of the sale price up to $4,000 when the price is
+ * $25,000 or less. Both credits are denied when modified AGI is over the
+ * limit for the filing status in both the current and the prior year.
+ *
+ * Under the One Big Beautiful Bill Act, neither credit is allowed for a
+ * vehicle acquired after September 30, 2025.
+ *
+ * Source: IRC §25E, §30D, Form 8936 Instructions
+ * https://www.irs.gov/forms-pubs/about-form-8936
+ */
+
+/**
+ * New clean vehicle credit (Form 8936 Part II)
+ * IRC §30D
+ */
+export const NEW_CLEAN_VEHICLE_2025 = {
+  maxCredit: dollarsToCents(7500),
+
+  // Manufacturer's suggested retail price limits
+  msrpLimit: {
+    vanSuvPickup: dollarsToCents(80000),
+    other: dollarsToCents(55000),
+  },
+
+  // Modified AGI limits (§30D(f)(10))
+  magiLimit: {
+    single: dollarsToCents(150000),
+    marriedJointly: dollarsToCents(300000),
+    marriedSeparately: dollarsToCents(150000),
+    headOfHousehold: dollarsToCents(225000),
+  } as Record<FilingStatus, number>,
+};
+
+/**
+ * Previously owned clean vehicle credit (Form 8936 Part III)
+ * IRC §25E
+ */
+export const USED_CLEAN_VEHICLE_2025 = {
+  creditRate: 0.3,
+  maxCredit: dollarsToCents(4000),
+  salePriceLimit: dollarsToCents(25000),
+
+  // Modified AGI limits (§25E(b))
+  magiLimit: {
+    single: dollarsToCents(75000),
+    marriedJointly: dollarsToCents(150000),
+    marriedSeparately: dollarsToCents(75000),
+    headOfHousehold: dollarsToCents(112500),
+  } as Record<FilingStatus, number>,
+};
+
+/**
+ * Last acquisition date for either credit (OBBBA §70501-70502)
+ */
+export const CLEAN_VEHICLE_ACQUISITION_DEADLINE = '2025-09-30';
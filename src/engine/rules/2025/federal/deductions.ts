@@ -25,6 +25,15 @@ export const ADDITIONAL_STANDARD_DEDUCTION_2025 = {
   blind: dollarsToCents(2000),
 };
 
+// Standard deduction for a taxpayer who can be claimed as someone else's dependent:
+// the greater of the minimum or earned income plus the addition, not more than
+// the regular standard deduction
+// Source: IRC §63(c)(5), IRS Rev. Proc. 2024-40 §2.15
+export const DEPENDENT_STANDARD_DEDUCTION_2025 = {
+  minimum: dollarsToCents(1350),
+  earnedIncomeAddition: dollarsToCents(450),
+};
+
 // SALT (State and Local Tax) deduction cap
 export const SALT_CAP_2025 = dollarsToCents(10000);
 
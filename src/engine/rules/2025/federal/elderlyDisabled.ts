@@ -0,0 +1,40 @@
+import type { FilingStatus } from '../../../types';
+import { dollarsToCents } from '../../../util/money';
+
+/**
+ * Credit for the Elderly or the Disabled (2025)
+ * Schedule R (Form 1040)
+ *
+ * The credit is 15% of an initial amount reduced by nontaxable Social
+ * Security and pension benefits and by half of AGI over a threshold. The
+ * initial amounts and thresholds are set by statute and are not indexed for
+ * inflation.
+ *
+ * Source: IRC §22, Schedule R Instructions
+ * https://www.irs.gov/forms-pubs/about-schedule-r-form-1040
+ */
+
+/**
+ * Schedule R amounts
+ * IRC §22(c), §22(d)
+ */
+export const ELDERLY_DISABLED_CREDIT_2025 = {
+  creditRate: 0.15, // Line 20
+  qualifyingAge: 65,
+
+  // Line 10 initial amount per qualifying person; MFJ with both qualifying is $7,500
+  initialAmountPerPerson: dollarsToCents(5000),
+  initialAmountBothSpouses: dollarsToCents(7500),
+  initialAmountMarriedSeparately: dollarsToCents(3750),
+
+  // Line 15 AGI threshold
+  agiThreshold: {
+    single: dollarsToCents(7500),
+    marriedJointly: dollarsToCents(10000),
+    marriedSeparately: dollarsToCents(5000),
+    headOfHousehold: dollarsToCents(7500),
+  } as Record<FilingStatus, number>,
+
+  // Line 17: Half of AGI over the threshold reduces the initial amount
+  agiReductionRate: 0.5,
+};
@@ -0,0 +1,53 @@
+import { dollarsToCents } from '../../../util/money';
+
+/**
+ * Residential Energy Credits (2025)
+ * Form 5695
+ *
+ * Both credits are 30% of qualified costs. The residential clean energy
+ * credit (§25D) has no annual cap except for fuel cells, and unused credit
+ * carries forward. The energy efficient home improvement credit (§25C) has
+ * annual caps by item category and no carryforward. These amounts are not
+ * indexed for inflation.
+ *
+ * Under the One Big Beautiful Bill Act, §25D ends for expenditures made after
+ * December 31, 2025 and §25C for property placed in service after that date.
+ *
+ * Source: IRC §25C, §25D, Form 5695 Instructions
+ * https://www.irs.gov/forms-pubs/about-form-5695
+ */
+
+/**
+ * Residential clean energy credit (Form 5695 Part I)
+ * IRC §25D
+ */
+export const RESIDENTIAL_CLEAN_ENERGY_2025 = {
+  creditRate: 0.3,
+
+  // Fuel cell property: $500 for each half kilowatt of capacity (Line 10)
+  fuelCellLimitPerHalfKilowatt: dollarsToCents(500),
+
+  // Battery storage must have at least 3 kWh of capacity (Line 5a)
+  minimumBatteryCapacityKwh: 3,
+};
+
+/**
+ * Energy efficient home improvement credit (Form 5695 Part II)
+ * IRC §25C(b)
+ */
+export const ENERGY_EFFICIENT_HOME_IMPROVEMENT_2025 = {
+  creditRate: 0.3,
+
+  // Annual limit for building envelope components, energy property and audits
+  annualLimit: dollarsToCents(1200),
+
+  // Separate annual limit for heat pumps, heat pump water heaters and biomass stoves/boilers
+  heatPumpAndBiomassLimit: dollarsToCents(2000),
+
+  // Item limits within the $1,200 annual limit
+  exteriorDoorLimitEach: dollarsToCents(250),
+  exteriorDoorLimitTotal: dollarsToCents(500),
+  windowsAndSkylightsLimit: dollarsToCents(600),
+  energyPropertyLimitEach: dollarsToCents(600), // Central A/C, water heaters, furnaces, boilers, panelboards
+  homeEnergyAuditLimit: dollarsToCents(150),
+};
@@ -0,0 +1,79 @@
+import type { FilingStatus } from '../../../types';
+import { dollarsToCents } from '../../../util/money';
+
+/**
+ * Underpayment of Estimated Tax (2025)
+ * Form 2210, Schedule AI
+ *
+ * Individuals must pay their tax through withholding or estimated payments
+ * in four installments. The penalty is figured like interest on each
+ * underpaid installment from its due date until paid (or the return due
+ * date), at the IRS underpayment rate.
+ *
+ * Source: IRC §6654, §6621, Form 2210 Instructions (2025)
+ * https://www.irs.gov/forms-pubs/about-form-2210
+ */
+
+/**
+ * Required annual payment and safe harbors
+ * IRC §6654(d)(1), §6654(e)(1)
+ */
+export const ESTIMATED_TAX_SAFE_HARBORS_2025 = {
+  // No penalty if tax after withholding is less than $1,000
+  minimumTaxDue: dollarsToCents(1000),
+
+  // Required annual payment: lesser of 90% of current year tax...
+  currentYearRate: 0.9,
+
+  // ...or 100% of prior year tax (110% if prior year AGI exceeds the threshold)
+  priorYearRate: 1.0,
+  highIncomePriorYearRate: 1.1,
+};
+
+/**
+ * Prior year AGI above which the 110% prior year safe harbor applies
+ * IRC §6654(d)(1)(C)
+ */
+export const ESTIMATED_TAX_HIGH_INCOME_AGI_2025: Record<FilingStatus, number> = {
+  single: dollarsToCents(150000), // $150,000
+  marriedJointly: dollarsToCents(150000), // $150,000
+  marriedSeparately: dollarsToCents(75000), // $75,000
+  headOfHousehold: dollarsToCents(150000), // $150,000
+};
+
+/**
+ * Installment due dates for tax year 2025
+ * June 15, 2025 falls on a Sunday, so the second installment is due June 16.
+ */
+export const ESTIMATED_TAX_DUE_DATES_2025 = [
+  '2025-04-15',
+  '2025-06-16',
+  '2025-09-15',
+  '2026-01-15',
+] as const;
+
+/**
+ * Penalty stops accruing on the return due date
+ */
+export const ESTIMATED_TAX_PENALTY_END_DATE_2025 = '2026-04-15';
+
+/**
+ * IRS underpayment interest rates (federal short-term rate + 3%), by
+ * the date each rate takes effect. IRC §6621(a)(2)
+ */
+export const UNDERPAYMENT_RATES_2025 = [
+  { effectiveDate: '2025-01-01', rate: 0.07 }, // 7% (Q1-Q4 2025)
+  { effectiveDate: '2026-01-01', rate: 0.07 }, // 7% (Q1 2026)
+];
+
+/**
+ * Schedule AI annualization factors and applicable percentages for the
+ * periods ending March 31, May 31, August 31 and December 31.
+ * Form 2210 Schedule AI, Lines 2 and 17
+ */
+export const ANNUALIZATION_PERIODS_2025 = [
+  { periodEnd: '2025-03-31', factor: 4, applicablePercentage: 0.225 },
+  { periodEnd: '2025-05-31', factor: 2.4, applicablePercentage: 0.45 },
+  { periodEnd: '2025-08-31', factor: 1.5, applicablePercentage: 0.675 },
+  { periodEnd: '2025-12-31', factor: 1, applicablePercentage: 0.9 },
+] as const;
@@ -0,0 +1,49 @@
+import { dollarsToCents } from '../../../util/money';
+
+/**
+ * Household Employment Taxes (2025)
+ * Schedule H (Form 1040)
+ *
+ * Social Security and Medicare taxes apply to an employee's cash wages once
+ * they reach the annual threshold (indexed). FUTA applies to the first $7,000
+ * of each employee's wages once total cash wages to household employees
+ * reach $1,000 in any calendar quarter of the current or prior year. The
+ * 6.0% FUTA rate is offset by a credit of up to 5.4% for state unemployment
+ * contributions, less the credit reduction for states with outstanding
+ * federal unemployment loans.
+ *
+ * Source: IRC §3121(a)(7)(B), §3121(x), §3306(a)(3), §3302(c)(2),
+ * Schedule H Instructions, SSA 2025 COLA Fact Sheet,
+ * DOL 2025 FUTA credit reductions
+ * https://www.irs.gov/forms-pubs/about-schedule-h-form-1040
+ */
+
+/**
+ * Social Security and Medicare (Schedule H Part I)
+ */
+export const HOUSEHOLD_FICA_2025 = {
+  // Cash wages per employee that make all of the year's wages subject to FICA (Line A)
+  cashWageThreshold: dollarsToCents(2800),
+
+  // Employer and employee shares combined
+  socialSecurityRate: 0.124, // Line 2
+  medicareRate: 0.029, // Line 4
+};
+
+/**
+ * Federal unemployment tax (Schedule H Part II)
+ */
+export const HOUSEHOLD_FUTA_2025 = {
+  // Total cash wages in any calendar quarter of 2024 or 2025 (Line C)
+  quarterlyWageThreshold: dollarsToCents(1000),
+
+  wageBasePerEmployee: dollarsToCents(7000),
+  grossRate: 0.06, // Line 25
+  maxStateCreditRate: 0.054, // Line 24
+
+  // Credit reduction by state for 2025 (Line 15 worksheet)
+  creditReductionRates: {
+    CA: 0.012,
+    VI: 0.042,
+  } as Record<string, number>,
+};
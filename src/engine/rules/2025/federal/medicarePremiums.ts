@@ -0,0 +1,63 @@
+import { dollarsToCents } from '../../../util/money';
+import type { FilingStatus } from '../../../types';
+
+/**
+ * Medicare Income-Related Monthly Adjustment Amounts (IRMAA) (2025)
+ *
+ * Part B and Part D premiums rise with modified AGI (AGI plus tax-exempt
+ * interest) from the tax return two years earlier: 2025 premiums use 2023
+ * returns. Each tier's surcharge is per enrollee, so a married couple both
+ * on Medicare pays it twice.
+ *
+ * Source: 42 U.S.C. §1395r(i), CMS 2025 Medicare Parts A & B Premiums and
+ * Deductibles fact sheet
+ * https://www.cms.gov/newsroom/fact-sheets/2025-medicare-parts-b-premiums-and-deductibles
+ */
+
+export interface IRMAATier {
+  /** MAGI above which the tier applies, in cents */
+  magiOver: number;
+  /** Monthly Part B surcharge over the standard premium, in cents */
+  partBMonthly: number;
+  /** Monthly Part D surcharge, in cents */
+  partDMonthly: number;
+}
+
+// Surcharges are the same for every filing status; only the thresholds differ
+const SURCHARGES = [
+  { partBMonthly: dollarsToCents(74.0), partDMonthly: dollarsToCents(13.7) },
+  { partBMonthly: dollarsToCents(185.0), partDMonthly: dollarsToCents(35.3) },
+  { partBMonthly: dollarsToCents(295.9), partDMonthly: dollarsToCents(57.0) },
+  { partBMonthly: dollarsToCents(406.9), partDMonthly: dollarsToCents(78.6) },
+  { partBMonthly: dollarsToCents(443.9), partDMonthly: dollarsToCents(85.8) },
+];
+
+const tiers = (thresholds: number[]): IRMAATier[] =>
+  thresholds.map((threshold, i) => ({ magiOver: dollarsToCents(threshold), ...SURCHARGES[i]! }));
+
+const INDIVIDUAL_TIERS = tiers([106000, 133000, 167000, 200000, 500000]);
+
+const IRMAA_TIERS_2025: Record<FilingStatus, IRMAATier[]> = {
+  single: INDIVIDUAL_TIERS,
+  headOfHousehold: INDIVIDUAL_TIERS,
+  marriedJointly: tiers([212000, 266000, 334000, 400000, 750000]),
+  // Married filing separately and living with the spouse: only the two highest tiers
+  marriedSeparately: [
+    { magiOver: dollarsToCents(106000), ...SURCHARGES[3]! },
+    { magiOver: dollarsToCents(394000), ...SURCHARGES[4]! },
+  ],
+};
+
+export const IRMAA_2025 = {
+  // Standard monthly Part B premium
+  partBStandardMonthly: dollarsToCents(185.0),
+
+  // Years between the tax return and the premiums it sets
+  lookbackYears: 2,
+
+  // Age at which Medicare enrollment begins
+  enrollmentAge: 65,
+
+  // Tiers above the standard premium, lowest first
+  tiers: IRMAA_TIERS_2025,
+};
@@ -27,4 +27,13 @@ export const SE_TAX_RATES = {
   medicare: 0.029,     // 2.9% Medicare
   additional: 0.009,   // 0.9% Additional Medicare Tax
   netEarningsRate: 0.9235, // 92.35% of net profit = net earnings from SE
-};
\ No newline at end of file
+};
+// Employee share of FICA withheld by employers (W-2 boxes 4 and 6)
+// Additional Medicare Tax is withheld on wages over $200,000 regardless of filing status
+// Source: IRC §3101, IRS Publication 15
+export const EMPLOYEE_FICA_RATES = {
+  socialSecurity: 0.062, // 6.2% on wages up to the wage base
+  medicare: 0.0145, // 1.45% on all wages
+  additionalMedicare: 0.009, // 0.9% withheld on wages over the threshold
+  additionalMedicareWithholdingThreshold: 20000000, // $200,000
+};
@@ -0,0 +1,76 @@
+import type { FilingStatus } from '../../../types';
+import { dollarsToCents } from '../../../util/money';
+
+/**
+ * Rental Real Estate and Passive Activity Losses (2025)
+ * Schedule E Part I, Form 8582
+ *
+ * Losses from passive activities (rental activities and businesses in which
+ * the taxpayer does not materially participate) are deductible only against
+ * passive income. Individuals who actively participate in rental real estate
+ * may deduct up to $25,000 of rental losses against nonpassive income, phased
+ * out as modified AGI rises from $100,000 to $150,000. These amounts are not
+ * indexed for inflation.
+ *
+ * Source: IRC §469, §280A, IRS Publication 925, Publication 527, Form 8582 Instructions
+ * https://www.irs.gov/forms-pubs/about-form-8582
+ */
+
+interface PassiveLossAllowance {
+  maximumAllowance: number; // Line 9 cap (cents)
+  phaseoutStart: number; // Line 6 modified AGI threshold (cents)
+  phaseoutRate: number; // Line 9 reduction per dollar of MAGI over the threshold
+}
+
+/**
+ * Special allowance for rental real estate with active participation
+ * IRC §469(i), Form 8582 Part II (Lines 5-10)
+ */
+export const PASSIVE_LOSS_SPECIAL_ALLOWANCE_2025: Record<FilingStatus, PassiveLossAllowance> = {
+  single: {
+    maximumAllowance: dollarsToCents(25000), // $25,000
+    phaseoutStart: dollarsToCents(100000), // $100,000 (fully phased out at $150,000)
+    phaseoutRate: 0.5,
+  },
+  marriedJointly: {
+    maximumAllowance: dollarsToCents(25000), // $25,000
+    phaseoutStart: dollarsToCents(100000), // $100,000
+    phaseoutRate: 0.5,
+  },
+  // MFS who lived apart from their spouse for the entire year
+  marriedSeparately: {
+    maximumAllowance: dollarsToCents(12500), // $12,500
+    phaseoutStart: dollarsToCents(50000), // $50,000 (fully phased out at $75,000)
+    phaseoutRate: 0.5,
+  },
+  headOfHousehold: {
+    maximumAllowance: dollarsToCents(25000), // $25,000
+    phaseoutStart: dollarsToCents(100000), // $100,000
+    phaseoutRate: 0.5,
+  },
+};
+
+/**
+ * MFS filers who lived with their spouse at any time during the year get no
+ * special allowance. IRC §469(i)(5)(B)
+ */
+export const PASSIVE_LOSS_MFS_LIVED_TOGETHER_2025: PassiveLossAllowance = {
+  maximumAllowance: 0,
+  phaseoutStart: 0,
+  phaseoutRate: 0.5,
+};
+
+/**
+ * Dwelling unit used as a residence (vacation home rules)
+ * IRC §280A(d)(1), §280A(g), Publication 527 Chapter 5
+ */
+export const RENTAL_PERSONAL_USE_2025 = {
+  // A unit is a residence if personal use exceeds the greater of 14 days
+  // or 10% of the days rented at fair rental value
+  minimumPersonalUseDays: 14,
+  personalUseRentalDaysRate: 0.1,
+
+  // A residence rented fewer than 15 days: rent is excluded and rental
+  // expenses are not deductible
+  minimumRentalDays: 15,
+};
@@ -0,0 +1,75 @@
+import { dollarsToCents } from '../../../util/money';
+
+/**
+ * Retirement Plan Distributions (2025)
+ * Form 1040 Lines 4a-5b, Form 1099-R, Form 5329 Part I
+ *
+ * Pension, annuity, IRA, SEP, SIMPLE and qualified plan distributions are
+ * included in income to the extent taxable. Distributions taken before age
+ * 59½ are subject to an additional tax unless an exception applies.
+ *
+ * Source: IRC §72(t), §408(d)(8), IRS Publication 590-B, Form 5329 Instructions
+ * https://www.irs.gov/forms-pubs/about-form-5329
+ */
+
+/**
+ * Additional tax on early distributions
+ * IRC §72(t)(1), §72(t)(6)
+ */
+export const EARLY_DISTRIBUTION_TAX_2025 = {
+  // 10% additional tax on the taxable part of early distributions
+  standardRate: 0.1,
+
+  // 25% for SIMPLE IRA distributions within the first 2 years of participation
+  simpleIRAFirstTwoYearsRate: 0.25,
+
+  // Age at which the additional tax no longer applies
+  exemptAge: 59.5,
+
+  // 1099-R Box 7 codes that report an early distribution with no known exception
+  codesSubjectToTax: ['1', 'J', 'S'] as const,
+};
+
+/**
+ * Qualified Charitable Distributions (QCD)
+ * IRC §408(d)(8), Notice 2024-80 (2025 inflation adjustment)
+ *
+ * IRA owners age 70½ or older may transfer IRA funds directly to charity.
+ * The QCD is excluded from income (and cannot also be deducted on Schedule A).
+ */
+export const QCD_2025 = {
+  // Annual exclusion limit per IRA owner
+  annualLimit: dollarsToCents(108000), // $108,000
+
+  // Minimum age at the time of distribution
+  minimumAge: 70.5,
+};
+
+/**
+ * 1099-R Box 7 codes whose distributions are not currently taxable
+ * - G: Direct rollover to a qualified plan or IRA
+ * - H: Direct rollover of a designated Roth account to a Roth IRA
+ * - Q: Qualified distribution from a Roth IRA
+ */
+export const NONTAXABLE_DISTRIBUTION_CODES_2025 = ['G', 'H', 'Q'] as const;
+
+/**
+ * Required Minimum Distributions (RMD)
+ * IRC §401(a)(9), SECURE 2.0 Act §107, Treas. Reg. §1.401(a)(9)-9(c)
+ *
+ * Traditional IRA owners must withdraw the prior year-end balance divided by
+ * the Uniform Lifetime Table factor for their age at the end of the year.
+ * Roth conversions do not count toward the RMD.
+ */
+export const RMD_2025 = {
+  // Age at which RMDs begin, by birth year (SECURE 2.0)
+  startAge: (birthYear: number): number => (birthYear <= 1950 ? 72 : birthYear <= 1959 ? 73 : 75),
+
+  // Uniform Lifetime Table distribution periods for ages 72 through 120 (and older)
+  uniformLifetimeFirstAge: 72,
+  uniformLifetimeTable: [
+    27.4, 26.5, 25.5, 24.6, 23.7, 22.9, 22.0, 21.1, 20.2, 19.4, 18.5, 17.7, 16.8, 16.0, 15.2, 14.4,
+    13.7, 12.9, 12.2, 11.5, 10.8, 10.1, 9.5, 8.9, 8.4, 7.8, 7.3, 6.8, 6.4, 6.0, 5.6, 5.2, 4.9, 4.6,
+    4.3, 4.1, 3.9, 3.7, 3.5, 3.4, 3.3, 3.1, 3.0, 2.9, 2.8, 2.7, 2.5, 2.3, 2.0,
+  ],
+};
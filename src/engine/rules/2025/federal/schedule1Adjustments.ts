@@ -103,7 +103,7 @@ export const SELF_EMPLOYED_RETIREMENT_PLANS_2025 = {
     netSEIncome: 'scheduleC - (SE tax / 2)',
 
     // For SEP/Solo 401(k) employer portion
-    effectiveRate: 0.20, // 20% of gross SE income = 25% of net
+    effectiveRate: 0.2, // 20% of gross SE income = 25% of net
   },
 };
 
@@ -181,19 +181,31 @@ export const STUDENT_LOAN_INTEREST_2025 = {
 
 /**
  * Health Savings Account (HSA) Deduction
- * Schedule 1, Line 13
+ * Schedule 1, Line 13 (Form 8889)
  *
  * Contributions to HSA are deductible (if not already excluded from W-2).
  *
- * Source: IRC §223, IRS Publication 969, Rev. Proc. 2024-40
+ * Source: IRC §223, IRS Publication 969, Rev. Proc. 2024-25
  */
 export const HSA_LIMITS_2025 = {
   // Contribution limits
-  selfOnlyCoverage: dollarsToCents(4150), // $4,150 for 2025
-  familyCoverage: dollarsToCents(8300), // $8,300 for 2025
+  selfOnlyCoverage: dollarsToCents(4300), // $4,300 for 2025
+  familyCoverage: dollarsToCents(8550), // $8,550 for 2025
 
   // Catch-up contribution (age 55+)
   catchUpAge55: dollarsToCents(1000), // $1,000
+  catchUpAge: 55,
+
+  // Additional tax on distributions not used for qualified medical expenses
+  // (Form 8889 Line 17b); not owed after death, disability or age 65
+  nonqualifiedDistributionTaxRate: 0.2,
+  additionalTaxExceptionAge: 65,
+
+  // Additional tax on income from failing the testing period (Form 8889 Line 21)
+  testingPeriodTaxRate: 0.1,
+
+  // Excise tax on excess contributions (Form 5329 Part VII)
+  excessContributionTaxRate: 0.06,
 
   // High deductible health plan (HDHP) requirements
   hdhpMinimumDeductible2025: {
@@ -354,7 +366,7 @@ export const SPECIFIC_BUSINESS_EXPENSES = {
  * Source: IRC §164(f)
  */
 export const SE_TAX_DEDUCTION = {
-  deductiblePortion: 0.50, // 50% of SE tax
+  deductiblePortion: 0.5, // 50% of SE tax
   automaticallyCalculated: true,
   includesBothOASDIandMedicare: true,
 };
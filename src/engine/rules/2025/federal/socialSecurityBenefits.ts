@@ -0,0 +1,69 @@
+import type { FilingStatus } from '../../../types';
+import { dollarsToCents } from '../../../util/money';
+
+/**
+ * Taxable Social Security Benefits (2025)
+ * Form 1040, Lines 6a-6b - Social Security Benefits Worksheet
+ *
+ * Up to 50% or 85% of net benefits (SSA-1099 Box 5) are taxable once
+ * provisional income (other income + tax-exempt interest + half of benefits,
+ * less most Schedule 1 adjustments) exceeds the base amount.
+ *
+ * The base and adjusted base amounts are set by statute and are NOT
+ * indexed for inflation.
+ *
+ * Source: IRC §86, IRS Publication 915, Form 1040 Instructions (Lines 6a-6b)
+ * https://www.irs.gov/publications/p915
+ */
+
+interface SocialSecurityThresholds {
+  baseAmount: number; // Tier 1: 50% inclusion starts above this amount (cents)
+  adjustedBaseAmount: number; // Tier 2: 85% inclusion starts above this amount (cents)
+}
+
+/**
+ * Base and adjusted base amounts by filing status.
+ * IRC §86(c)
+ *
+ * Married filing separately uses the single amounts only if the taxpayer
+ * lived apart from their spouse for the entire year; otherwise both
+ * amounts are $0 (see SOCIAL_SECURITY_MFS_LIVED_TOGETHER_2025).
+ */
+export const SOCIAL_SECURITY_THRESHOLDS_2025: Record<FilingStatus, SocialSecurityThresholds> = {
+  single: {
+    baseAmount: dollarsToCents(25000), // $25,000
+    adjustedBaseAmount: dollarsToCents(34000), // $34,000
+  },
+  headOfHousehold: {
+    baseAmount: dollarsToCents(25000), // $25,000
+    adjustedBaseAmount: dollarsToCents(34000), // $34,000
+  },
+  marriedJointly: {
+    baseAmount: dollarsToCents(32000), // $32,000
+    adjustedBaseAmount: dollarsToCents(44000), // $44,000
+  },
+  marriedSeparately: {
+    baseAmount: dollarsToCents(25000), // $25,000 (lived apart all year)
+    adjustedBaseAmount: dollarsToCents(34000), // $34,000 (lived apart all year)
+  },
+};
+
+/**
+ * MFS taxpayers who lived with their spouse at any time during the year
+ * have a $0 base amount, so 85% of provisional income is taxable
+ * (capped at 85% of benefits).
+ * IRC §86(c)(1)(C)(ii), §86(c)(2)(C)
+ */
+export const SOCIAL_SECURITY_MFS_LIVED_TOGETHER_2025: SocialSecurityThresholds = {
+  baseAmount: 0,
+  adjustedBaseAmount: 0,
+};
+
+/**
+ * Inclusion rates
+ */
+export const SOCIAL_SECURITY_INCLUSION_RATES = {
+  tier1: 0.5, // 50% of benefits / provisional income over base amount
+  tier2: 0.85, // 85% of provisional income over adjusted base amount
+  maximum: 0.85, // Never more than 85% of net benefits
+};
@@ -0,0 +1,48 @@
+import { FilingStatus } from '../../../types';
+import { dollarsToCents } from '../../../util/money';
+
+/**
+ * Alternative Minimum Tax (AMT) Constants for 2026
+ * Form 6251 - Alternative Minimum Tax - Individuals
+ *
+ * Source: IRS Rev. Proc. 2025-32 §4.11 (2026 inflation adjustments)
+ * https://www.irs.gov/pub/irs-drop/rp-25-32.pdf
+ *
+ * P.L. 119-21 reset the exemption phase-out thresholds to their 2018 levels
+ * and doubled the phase-out rate to 50% starting in 2026.
+ */
+
+/**
+ * AMT Exemption Amounts for 2026
+ */
+export const AMT_EXEMPTION_2026: Record<FilingStatus, number> = {
+  single: dollarsToCents(90100), // $90,100
+  marriedJointly: dollarsToCents(140200), // $140,200
+  marriedSeparately: dollarsToCents(70100), // $70,100
+  headOfHousehold: dollarsToCents(90100), // $90,100
+};
+
+/**
+ * AMT Exemption Phase-out Thresholds for 2026
+ */
+export const AMT_EXEMPTION_PHASEOUT_2026: Record<FilingStatus, number> = {
+  single: dollarsToCents(500000), // $500,000
+  marriedJointly: dollarsToCents(1000000), // $1,000,000
+  marriedSeparately: dollarsToCents(500000), // $500,000
+  headOfHousehold: dollarsToCents(500000), // $500,000
+};
+
+/**
+ * Exemption reduction per dollar of AMTI above the phase-out threshold
+ */
+export const AMT_EXEMPTION_PHASEOUT_RATE_2026 = 0.5;
+
+/**
+ * Taxable excess above which the 28% AMT rate applies for 2026
+ */
+export const AMT_RATE_THRESHOLD_2026: Record<FilingStatus, number> = {
+  single: dollarsToCents(244500), // $244,500
+  marriedJointly: dollarsToCents(244500), // $244,500
+  marriedSeparately: dollarsToCents(122250), // $122,250
+  headOfHousehold: dollarsToCents(244500), // $244,500
+};
@@ -0,0 +1,15 @@
+import { dollarsToCents } from '../../../util/money';
+
+// Child Tax Credit parameters for 2026
+// Source: IRC §24(h), as amended by P.L. 119-21; Rev. Proc. 2025-32
+export const CTC_2026 = {
+  maxCredit: dollarsToCents(2200), // Per qualifying child
+  additionalChildCredit: dollarsToCents(1700), // Refundable portion per child
+  phaseOutThresholds: {
+    marriedJointly: dollarsToCents(400000),
+    single: dollarsToCents(200000),
+    marriedSeparately: dollarsToCents(200000),
+    headOfHousehold: dollarsToCents(200000),
+  },
+  phaseOutRate: 0.05, // $50 per $1,000 of income over threshold
+};
@@ -0,0 +1,42 @@
+import { FilingStatus } from '../../../types';
+import { dollarsToCents } from '../../../util/money';
+
+// Standard deductions for 2026 (converted to cents)
+// Source: IRS Rev. Proc. 2025-32 §4.15
+export const STANDARD_DEDUCTION_2026: Record<FilingStatus, number> = {
+  single: dollarsToCents(16100),
+  marriedJointly: dollarsToCents(32200),
+  marriedSeparately: dollarsToCents(16100),
+  headOfHousehold: dollarsToCents(24150),
+};
+
+// Additional standard deduction amounts for 2026
+// Source: IRS Rev. Proc. 2025-32 §4.15
+export const ADDITIONAL_STANDARD_DEDUCTION_2026 = {
+  // For unmarried taxpayers (Single, Head of Household)
+  age65OrOlderUnmarried: dollarsToCents(2050), // Per person
+  blindUnmarried: dollarsToCents(2050), // Per person
+  // For married taxpayers (MFJ, MFS, QSS)
+  age65OrOlderMarried: dollarsToCents(1650), // Per person
+  blindMarried: dollarsToCents(1650), // Per person
+};
+
+// Standard deduction for a taxpayer who can be claimed as someone else's dependent:
+// the greater of the minimum or earned income plus the addition, not more than
+// the regular standard deduction
+// Source: IRC §63(c)(5), IRS Rev. Proc. 2025-32 §4.15
+export const DEPENDENT_STANDARD_DEDUCTION_2026 = {
+  minimum: dollarsToCents(1350),
+  earnedIncomeAddition: dollarsToCents(450),
+};
+
+// SALT (State and Local Tax) deduction cap
+// Source: IRC §164(b)(7), as amended by P.L. 119-21 (1% annual increase from $40,000)
+export const SALT_CAP_2026 = dollarsToCents(40400);
+
+// The cap is reduced by 30% of modified AGI above the threshold, but not below the floor
+export const SALT_CAP_PHASEDOWN_2026 = {
+  threshold: dollarsToCents(505000),
+  rate: 0.3,
+  floor: dollarsToCents(10000),
+};
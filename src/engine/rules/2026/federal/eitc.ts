@@ -0,0 +1,42 @@
+import type { EITCQualifyingChildren, EITCTableRow } from '../../2025/federal/eitc';
+
+// EITC parameters for 2026 (Rev. Proc. 2025-32 §4.06)
+// All amounts in cents
+
+// Investment income limit for EITC eligibility in 2026
+export const EITC_INVESTMENT_INCOME_LIMIT_2026 = 1220000; // $12,200
+
+export const EITC_2026: Record<EITCQualifyingChildren, EITCTableRow> = {
+  0: {
+    earnedIncomeAmount: 868000, // $8,680
+    maxCredit: 66400, // $664
+    thresholdPhaseoutMFJ: 1814000, // $18,140
+    completedPhaseoutMFJ: 2682000, // $26,820
+    thresholdPhaseoutOther: 1086000, // $10,860
+    completedPhaseoutOther: 1954000, // $19,540
+  },
+  1: {
+    earnedIncomeAmount: 1302000, // $13,020
+    maxCredit: 442700, // $4,427
+    thresholdPhaseoutMFJ: 3116000, // $31,160
+    completedPhaseoutMFJ: 5886300, // $58,863
+    thresholdPhaseoutOther: 2389000, // $23,890
+    completedPhaseoutOther: 5159300, // $51,593
+  },
+  2: {
+    earnedIncomeAmount: 1829000, // $18,290
+    maxCredit: 731600, // $7,316
+    thresholdPhaseoutMFJ: 3116000, // $31,160
+    completedPhaseoutMFJ: 6589900, // $65,899
+    thresholdPhaseoutOther: 2389000, // $23,890
+    completedPhaseoutOther: 5862900, // $58,629
+  },
+  3: {
+    earnedIncomeAmount: 1829000, // $18,290
+    maxCredit: 823100, // $8,231
+    thresholdPhaseoutMFJ: 3116000, // $31,160
+    completedPhaseoutMFJ: 7024400, // $70,244
+    thresholdPhaseoutOther: 2389000, // $23,890
+    completedPhaseoutOther: 6297400, // $62,974
+  },
+};
@@ -0,0 +1,42 @@
+import type { FilingStatus, TaxBracket } from '../../../types';
+
+// 2026 ordinary income tax brackets (Rev. Proc. 2025-32)
+// Ranges are inclusive of min, exclusive of max. All amounts in cents.
+export const FEDERAL_BRACKETS_2026: Record<FilingStatus, TaxBracket[]> = {
+  single: [
+    { min: 0, max: 1240000, rate: 0.1 }, // $0 - $12,400
+    { min: 1240000, max: 5040000, rate: 0.12 }, // $12,400 - $50,400
+    { min: 5040000, max: 10570000, rate: 0.22 }, // $50,400 - $105,700
+    { min: 10570000, max: 20177500, rate: 0.24 }, // $105,700 - $201,775
+    { min: 20177500, max: 25622500, rate: 0.32 }, // $201,775 - $256,225
+    { min: 25622500, max: 64060000, rate: 0.35 }, // $256,225 - $640,600
+    { min: 64060000, max: Infinity, rate: 0.37 }, // $640,600+
+  ],
+  marriedJointly: [
+    { min: 0, max: 2480000, rate: 0.1 }, // $0 - $24,800
+    { min: 2480000, max: 10080000, rate: 0.12 }, // $24,800 - $100,800
+    { min: 10080000, max: 21140000, rate: 0.22 }, // $100,800 - $211,400
+    { min: 21140000, max: 40355000, rate: 0.24 }, // $211,400 - $403,550
+    { min: 40355000, max: 51245000, rate: 0.32 }, // $403,550 - $512,450
+    { min: 51245000, max: 76870000, rate: 0.35 }, // $512,450 - $768,700
+    { min: 76870000, max: Infinity, rate: 0.37 }, // $768,700+
+  ],
+  marriedSeparately: [
+    { min: 0, max: 1240000, rate: 0.1 }, // $0 - $12,400
+    { min: 1240000, max: 5040000, rate: 0.12 }, // $12,400 - $50,400
+    { min: 5040000, max: 10570000, rate: 0.22 }, // $50,400 - $105,700
+    { min: 10570000, max: 20177500, rate: 0.24 }, // $105,700 - $201,775
+    { min: 20177500, max: 25622500, rate: 0.32 }, // $201,775 - $256,225
+    { min: 25622500, max: 38435000, rate: 0.35 }, // $256,225 - $384,350
+    { min: 38435000, max: Infinity, rate: 0.37 }, // $384,350+
+  ],
+  headOfHousehold: [
+    { min: 0, max: 1770000, rate: 0.1 }, // $0 - $17,700
+    { min: 1770000, max: 6745000, rate: 0.12 }, // $17,700 - $67,450
+    { min: 6745000, max: 10570000, rate: 0.22 }, // $67,450 - $105,700
+    { min: 10570000, max: 20175000, rate: 0.24 }, // $105,700 - $201,750
+    { min: 20175000, max: 25620000, rate: 0.32 }, // $201,750 - $256,200
+    { min: 25620000, max: 64060000, rate: 0.35 }, // $256,200 - $640,600
+    { min: 64060000, max: Infinity, rate: 0.37 }, // $640,600+
+  ],
+};
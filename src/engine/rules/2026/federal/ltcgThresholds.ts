@@ -0,0 +1,24 @@
+import type { FilingStatus } from '../../../types';
+import type { LTCGThresholds } from '../../2025/federal/ltcgThresholds';
+
+// Preferential long-term capital gains / qualified dividends thresholds for 2026
+// Source: Rev. Proc. 2025-32 §4.03
+// All amounts in cents
+export const LTCG_2026: Record<FilingStatus, LTCGThresholds> = {
+  marriedJointly: {
+    zeroRateMax: 9890000, // $98,900
+    fifteenRateMax: 61370000, // $613,700
+  },
+  marriedSeparately: {
+    zeroRateMax: 4945000, // $49,450
+    fifteenRateMax: 30685000, // $306,850
+  },
+  headOfHousehold: {
+    zeroRateMax: 6620000, // $66,200
+    fifteenRateMax: 57960000, // $579,600
+  },
+  single: {
+    zeroRateMax: 4945000, // $49,450
+    fifteenRateMax: 54550000, // $545,500
+  },
+};
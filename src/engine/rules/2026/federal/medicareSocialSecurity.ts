@@ -0,0 +1,2 @@
+// Social Security wage base for 2026 (SSA)
+export const SS_WAGE_BASE_2026 = 18450000; // $184,500
@@ -7,14 +7,42 @@
  * Usage:
  *   const config = getTaxYearConfig(2025);
  *   const stdDed = config.getStandardDeduction('single'); // Returns cents
+ *
+ * computeFederal reads every year-specific amount through this config.
  */
 
 import { loadAllRules } from './versioning/loader';
-import { getConstant, getFederalBrackets, getRegistry } from './versioning/registry';
+import { getConstant, getFederalBrackets, getRegistry, queryRule } from './versioning/registry';
 import type { FilingStatus } from '../types';
+import type { AMTParameters } from '../tax/amt';
+import type { EITCParameters } from '../credits/eitc2025';
+import type { CTCParameters } from '../federal/2025/advancedCredits';
+import { multiplyCents } from '../util/money';
+import { FEDERAL_BRACKETS_2025 } from './2025/federal/federalBrackets';
+import {
+  STANDARD_DEDUCTION_2025,
+  ADDITIONAL_STANDARD_DEDUCTION_2025,
+  DEPENDENT_STANDARD_DEDUCTION_2025,
+  SALT_CAP_2025,
+} from './2025/federal/deductions';
+import { CTC_2025 } from './2025/federal/credits';
+import {
+  EITC_2025,
+  EITC_INVESTMENT_INCOME_LIMIT_2025,
+  type EITCQualifyingChildren,
+  type EITCTableRow,
+} from './2025/federal/eitc';
+import { LTCG_2025, type LTCGThresholds } from './2025/federal/ltcgThresholds';
+import {
+  AMT_EXEMPTION_2025,
+  AMT_EXEMPTION_PHASEOUT_2025,
+  AMT_EXEMPTION_PHASEOUT_RATE_2025,
+  AMT_RATE_THRESHOLD_2025,
+} from './2025/federal/amt';
+import { SS_WAGE_BASE_2025 } from './2025/federal/medicareSocialSecurity';
 
 // Supported tax years
-export const SUPPORTED_TAX_YEARS = [2024, 2025] as const;
+export const SUPPORTED_TAX_YEARS = [2024, 2025, 2026] as const;
 export type SupportedTaxYear = (typeof SUPPORTED_TAX_YEARS)[number];
 
 // Default tax year for current calculations
@@ -27,7 +55,8 @@ let rulesLoaded = false;
  * Ensure rules are loaded into the registry
  */
 export function ensureRulesLoaded(): void {
-  if (!rulesLoaded) {
+  // Reload if the registry was cleared after the first load
+  if (!rulesLoaded || getRegistry().metadata.ruleCount === 0) {
     loadAllRules();
     rulesLoaded = true;
   }
@@ -72,6 +101,15 @@ export interface TaxBracket {
   rate: number; // Decimal (e.g., 0.22 for 22%)
 }
 
+/**
+ * Standard deduction limit for a taxpayer who can be claimed as a dependent:
+ * the greater of `minimum` or earned income plus `earnedIncomeAddition`
+ */
+export interface DependentStandardDeduction {
+  minimum: number; // In cents
+  earnedIncomeAddition: number; // In cents
+}
+
 /**
  * Tax year configuration interface
  */
@@ -81,135 +119,217 @@ export interface TaxYearConfig {
 
   // Standard deduction
   getStandardDeduction(filingStatus: FilingStatus): number;
+  getDependentStandardDeduction(): DependentStandardDeduction;
 
   // Tax brackets
   getTaxBrackets(filingStatus: FilingStatus): TaxBracket[];
+  getLTCGThresholds(filingStatus: FilingStatus): LTCGThresholds;
+
+  // Itemized deductions
+  getSALTCap(modifiedAGI?: number): number;
 
   // Credits
   getChildTaxCreditAmount(): number;
+  getCTCParameters(): CTCParameters;
   getEITCMax(numChildren: number): number;
+  getEITCParameters(): EITCParameters;
 
   // Phaseouts
   getCTCPhaseoutStart(filingStatus: FilingStatus): number;
 
+  // Alternative minimum tax and self-employment tax
+  getAMTParameters(filingStatus: FilingStatus): AMTParameters;
+  getSocialSecurityWageBase(): number;
+
   // Additional elderly/blind deduction
   getAdditionalDeduction(filingStatus: FilingStatus, isOver65: boolean, isBlind: boolean): number;
+
+  // Registry values read so far that were missing for this year and replaced with 2025 amounts
+  getFallbacks(): string[];
 }
 
 /**
- * Fallback values for 2025 (used when registry not loaded or missing values)
+ * Read a federal constant, skipping rules that are deprecated or not in
+ * effect for the year
  */
-const FALLBACK_2025 = {
-  standardDeduction: {
-    single: 1550000, // $15,500
-    marriedJointly: 3100000, // $31,000
-    marriedSeparately: 1550000, // $15,500
-    headOfHousehold: 2325000, // $23,250
-  },
-  brackets: {
-    single: [
-      { min: 0, max: 1180000, rate: 0.1 },
-      { min: 1180000, max: 4780000, rate: 0.12 },
-      { min: 4780000, max: 10025000, rate: 0.22 },
-      { min: 10025000, max: 19175000, rate: 0.24 },
-      { min: 19175000, max: 24320000, rate: 0.32 },
-      { min: 24320000, max: 60990000, rate: 0.35 },
-      { min: 60990000, max: Infinity, rate: 0.37 },
-    ],
-    marriedJointly: [
-      { min: 0, max: 2360000, rate: 0.1 },
-      { min: 2360000, max: 9600000, rate: 0.12 },
-      { min: 9600000, max: 20050000, rate: 0.22 },
-      { min: 20050000, max: 38350000, rate: 0.24 },
-      { min: 38350000, max: 48640000, rate: 0.32 },
-      { min: 48640000, max: 73130000, rate: 0.35 },
-      { min: 73130000, max: Infinity, rate: 0.37 },
-    ],
-    marriedSeparately: [
-      { min: 0, max: 1180000, rate: 0.1 },
-      { min: 1180000, max: 4800000, rate: 0.12 },
-      { min: 4800000, max: 10025000, rate: 0.22 },
-      { min: 10025000, max: 19175000, rate: 0.24 },
-      { min: 19175000, max: 24320000, rate: 0.32 },
-      { min: 24320000, max: 36565000, rate: 0.35 },
-      { min: 36565000, max: Infinity, rate: 0.37 },
-    ],
-    headOfHousehold: [
-      { min: 0, max: 1680000, rate: 0.1 },
-      { min: 1680000, max: 6400000, rate: 0.12 },
-      { min: 6400000, max: 10250000, rate: 0.22 },
-      { min: 10250000, max: 19175000, rate: 0.24 },
-      { min: 19175000, max: 24320000, rate: 0.32 },
-      { min: 24320000, max: 60990000, rate: 0.35 },
-      { min: 60990000, max: Infinity, rate: 0.37 },
-    ],
-  },
-  ctcAmount: 200000, // $2,000
-  eitcMax: {
-    0: 63200, // $632
-    1: 421800, // $4,218
-    2: 697200, // $6,972
-    3: 781200, // $7,812
-  },
-  ctcPhaseout: {
-    single: 20000000, // $200,000
-    marriedJointly: 40000000, // $400,000
-    marriedSeparately: 20000000,
-    headOfHousehold: 20000000,
-  },
-  additionalDeduction: {
-    marriedOrSurviving: 160000, // $1,600
-    single: 200000, // $2,000
-  },
-};
+function lookupConstant(year: number, constantId: string): number | null {
+  if (!queryRule({ id: `federal.${constantId}`, taxYear: year })) {
+    return null;
+  }
+  return getConstant(year, constantId);
+}
 
 /**
  * Create a TaxYearConfig for a specific year
+ *
+ * Values missing from the registry fall back to the 2025 rule modules; for
+ * other years each fallback is recorded and reported by getFallbacks().
  */
 function createTaxYearConfig(taxYear: number): TaxYearConfig {
   ensureRulesLoaded();
 
   const isSupported = isSupportedTaxYear(taxYear);
   const effectiveYear = isSupported ? taxYear : getClosestSupportedYear(taxYear);
+  const lookup = (constantId: string) => lookupConstant(effectiveYear, constantId);
+  const fallbacks = new Set<string>();
+  const lookupOr2025 = (constantId: string, amount2025: number): number => {
+    const value = lookup(constantId);
+    if (value !== null) {
+      return value;
+    }
+    if (effectiveYear !== 2025) {
+      fallbacks.add(constantId);
+    }
+    return amount2025;
+  };
 
-  return {
+  const config: TaxYearConfig = {
     taxYear: effectiveYear,
     isSupported,
 
     getStandardDeduction(filingStatus: FilingStatus): number {
       const key = FILING_STATUS_KEY_MAP[filingStatus];
-      const value = getConstant(effectiveYear, `standard_deduction.${key}`);
-      if (value !== null) {
-        return value;
-      }
-      // Fallback
-      return FALLBACK_2025.standardDeduction[filingStatus];
+      return lookupOr2025(`standard_deduction.${key}`, STANDARD_DEDUCTION_2025[filingStatus]);
+    },
+
+    getDependentStandardDeduction(): DependentStandardDeduction {
+      const fallback = DEPENDENT_STANDARD_DEDUCTION_2025;
+      return {
+        minimum: lookupOr2025('dependent_standard_deduction.minimum', fallback.minimum),
+        earnedIncomeAddition: lookupOr2025(
+          'dependent_standard_deduction.earned_income_addition',
+          fallback.earnedIncomeAddition
+        ),
+      };
     },
 
     getTaxBrackets(filingStatus: FilingStatus): TaxBracket[] {
       const key = FILING_STATUS_KEY_MAP[filingStatus];
-      const versionedBracket = getFederalBrackets(effectiveYear, key);
+      const versionedBracket = queryRule({
+        id: `federal.brackets.${key}.${effectiveYear}`,
+        taxYear: effectiveYear,
+      })
+        ? getFederalBrackets(effectiveYear, key)
+        : null;
       if (versionedBracket) {
         return versionedBracket.brackets;
       }
-      // Fallback
-      return FALLBACK_2025.brackets[filingStatus];
+      if (effectiveYear !== 2025) {
+        fallbacks.add(`brackets.${key}`);
+      }
+      return FEDERAL_BRACKETS_2025[filingStatus];
+    },
+
+    getLTCGThresholds(filingStatus: FilingStatus): LTCGThresholds {
+      const key = FILING_STATUS_KEY_MAP[filingStatus];
+      const fallback = LTCG_2025[filingStatus];
+      return {
+        zeroRateMax: lookupOr2025(`ltcg.zero_rate_max.${key}`, fallback.zeroRateMax),
+        fifteenRateMax: lookupOr2025(`ltcg.fifteen_rate_max.${key}`, fallback.fifteenRateMax),
+      };
+    },
+
+    getSALTCap(modifiedAGI = 0): number {
+      const cap = lookupOr2025('salt_cap', SALT_CAP_2025);
+      const threshold = lookup('salt_cap.phasedown_threshold');
+      const rate = lookup('salt_cap.phasedown_rate');
+      if (threshold === null || rate === null || modifiedAGI <= threshold) {
+        return cap;
+      }
+      // The cap is reduced above the threshold, but not below the floor
+      const floor = lookup('salt_cap.floor') ?? 0;
+      return Math.max(cap - multiplyCents(modifiedAGI - threshold, rate), floor);
     },
 
     getChildTaxCreditAmount(): number {
-      const value = getConstant(effectiveYear, 'ctc.amount_per_child');
-      return value ?? FALLBACK_2025.ctcAmount;
+      return lookupOr2025('ctc.amount_per_child', CTC_2025.maxCredit);
+    },
+
+    getCTCParameters(): CTCParameters {
+      const phaseOutThresholds = {} as Record<FilingStatus, number>;
+      for (const status of Object.keys(FILING_STATUS_KEY_MAP) as FilingStatus[]) {
+        phaseOutThresholds[status] = config.getCTCPhaseoutStart(status);
+      }
+      return {
+        maxCredit: config.getChildTaxCreditAmount(),
+        additionalChildCredit: lookupOr2025(
+          'ctc.refundable_per_child',
+          CTC_2025.additionalChildCredit
+        ),
+        phaseOutThresholds,
+      };
     },
 
     getEITCMax(numChildren: number): number {
-      const clampedChildren = Math.min(Math.max(numChildren, 0), 3);
-      const value = getConstant(effectiveYear, `eitc.max_${clampedChildren}_children`);
-      return value ?? FALLBACK_2025.eitcMax[clampedChildren as keyof typeof FALLBACK_2025.eitcMax];
+      const clampedChildren = Math.min(Math.max(numChildren, 0), 3) as EITCQualifyingChildren;
+      return lookupOr2025(
+        `eitc.max_${clampedChildren}_children`,
+        EITC_2025[clampedChildren].maxCredit
+      );
+    },
+
+    getEITCParameters(): EITCParameters {
+      const row = (children: EITCQualifyingChildren): EITCTableRow => {
+        const fallback = EITC_2025[children];
+        return {
+          earnedIncomeAmount: lookupOr2025(
+            `eitc.earned_income_amount_${children}_children`,
+            fallback.earnedIncomeAmount
+          ),
+          maxCredit: config.getEITCMax(children),
+          thresholdPhaseoutMFJ: lookupOr2025(
+            `eitc.phaseout_start_mfj_${children}_children`,
+            fallback.thresholdPhaseoutMFJ
+          ),
+          completedPhaseoutMFJ: lookupOr2025(
+            `eitc.phaseout_end_mfj_${children}_children`,
+            fallback.completedPhaseoutMFJ
+          ),
+          thresholdPhaseoutOther: lookupOr2025(
+            `eitc.phaseout_start_${children}_children`,
+            fallback.thresholdPhaseoutOther
+          ),
+          completedPhaseoutOther: lookupOr2025(
+            `eitc.phaseout_end_${children}_children`,
+            fallback.completedPhaseoutOther
+          ),
+        };
+      };
+      return {
+        table: { 0: row(0), 1: row(1), 2: row(2), 3: row(3) },
+        investmentIncomeLimit: lookupOr2025(
+          'eitc.investment_income_limit',
+          EITC_INVESTMENT_INCOME_LIMIT_2025
+        ),
+      };
     },
 
     getCTCPhaseoutStart(filingStatus: FilingStatus): number {
-      // CTC phaseout is $200k single, $400k joint
-      return FALLBACK_2025.ctcPhaseout[filingStatus];
+      const key = FILING_STATUS_KEY_MAP[filingStatus];
+      return lookupOr2025(`ctc.phaseout_start.${key}`, CTC_2025.phaseOutThresholds[filingStatus]);
+    },
+
+    getAMTParameters(filingStatus: FilingStatus): AMTParameters {
+      const key = FILING_STATUS_KEY_MAP[filingStatus];
+      return {
+        exemption: lookupOr2025(`amt.exemption.${key}`, AMT_EXEMPTION_2025[filingStatus]),
+        exemptionPhaseout: lookupOr2025(
+          `amt.exemption_phaseout.${key}`,
+          AMT_EXEMPTION_PHASEOUT_2025[filingStatus]
+        ),
+        exemptionPhaseoutRate: lookupOr2025(
+          'amt.exemption_phaseout_rate',
+          AMT_EXEMPTION_PHASEOUT_RATE_2025
+        ),
+        rateThreshold: lookupOr2025(
+          `amt.rate_threshold.${key}`,
+          AMT_RATE_THRESHOLD_2025[filingStatus]
+        ),
+      };
+    },
+
+    getSocialSecurityWageBase(): number {
+      return lookupOr2025('ss.wage_base', SS_WAGE_BASE_2025);
     },
 
     getAdditionalDeduction(
@@ -221,17 +341,34 @@ function createTaxYearConfig(taxYear: number): TaxYearConfig {
 
       const isMarriedOrSurviving =
         filingStatus === 'marriedJointly' || filingStatus === 'marriedSeparately';
-      const baseAmount = isMarriedOrSurviving
-        ? FALLBACK_2025.additionalDeduction.marriedOrSurviving
-        : FALLBACK_2025.additionalDeduction.single;
-
-      let count = 0;
-      if (isOver65) count++;
-      if (isBlind) count++;
+      const age65Amount = isMarriedOrSurviving
+        ? lookupOr2025(
+            'additional_standard_deduction.age65_married',
+            ADDITIONAL_STANDARD_DEDUCTION_2025.age65OrOlderMarried
+          )
+        : lookupOr2025(
+            'additional_standard_deduction.age65_unmarried',
+            ADDITIONAL_STANDARD_DEDUCTION_2025.age65OrOlderUnmarried
+          );
+      const blindAmount = isMarriedOrSurviving
+        ? lookupOr2025(
+            'additional_standard_deduction.blind_married',
+            ADDITIONAL_STANDARD_DEDUCTION_2025.blindMarried
+          )
+        : lookupOr2025(
+            'additional_standard_deduction.blind_unmarried',
+            ADDITIONAL_STANDARD_DEDUCTION_2025.blindUnmarried
+          );
+
+      return (isOver65 ? age65Amount : 0) + (isBlind ? blindAmount : 0);
+    },
 
-      return baseAmount * count;
+    getFallbacks(): string[] {
+      return Array.from(fallbacks);
     },
   };
+
+  return config;
 }
 
 // Cache for tax year configs
@@ -10,10 +10,7 @@ import { getRegistry, getConstant, getFederalBrackets } from './registry';
 /**
  * Compare constants across years
  */
-export function compareConstant(
-  constantId: string,
-  years: number[]
-): RuleComparison {
+export function compareConstant(constantId: string, years: number[]): RuleComparison {
   const changes: RuleChange[] = [];
 
   for (let i = 0; i < years.length - 1; i++) {
@@ -84,10 +81,7 @@ export function compareConstant(
 /**
  * Compare tax brackets across years
  */
-export function compareBrackets(
-  filingStatus: string,
-  years: number[]
-): RuleComparison {
+export function compareBrackets(filingStatus: string, years: number[]): RuleComparison {
   const changes: RuleChange[] = [];
 
   for (let i = 0; i < years.length - 1; i++) {
@@ -166,10 +160,7 @@ export function compareYears(fromYear: number, toYear: number): RuleChange[] {
   const constantsFrom = registry.constants[fromYear] || {};
   const constantsTo = registry.constants[toYear] || {};
 
-  const allConstantIds = new Set([
-    ...Object.keys(constantsFrom),
-    ...Object.keys(constantsTo),
-  ]);
+  const allConstantIds = new Set([...Object.keys(constantsFrom), ...Object.keys(constantsTo)]);
 
   for (const constantId of allConstantIds) {
     const comparison = compareConstant(constantId, [fromYear, toYear]);
@@ -177,7 +168,7 @@ export function compareYears(fromYear: number, toYear: number): RuleChange[] {
   }
 
   // Compare brackets
-  const filingStatuses = ['single', 'marriedJointly', 'marriedSeparately', 'headOfHousehold'];
+  const filingStatuses = ['single', 'married_jointly', 'married_separately', 'head_of_household'];
   for (const status of filingStatuses) {
     const comparison = compareBrackets(status, [fromYear, toYear]);
     changes.push(...comparison.changes.filter((c) => c.changeType !== 'unchanged'));
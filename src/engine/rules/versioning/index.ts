@@ -35,13 +35,9 @@ export {
 export {
   load2024FederalRules,
   load2025FederalRules,
+  load2026FederalRules,
   loadAllRules,
   getRuleStats,
 } from './loader';
 
-export {
-  compareConstant,
-  compareBrackets,
-  compareYears,
-  formatChanges,
-} from './comparison';
+export { compareConstant, compareBrackets, compareYears, formatChanges } from './comparison';
@@ -1,211 +1,423 @@
 /**
  * Rule Version Loader
  *
- * Loads versioned rules from data files
+ * Loads versioned rules from the per-year rule modules under
+ * src/engine/rules/{YEAR}/federal into the registry
  */
 
+import type { FilingStatus, TaxBracket } from '../../types';
 import { registerFederalBrackets, registerConstant, getRegistry } from './registry';
 
+import { FEDERAL_BRACKETS_2024 } from '../2024/federal/federalBrackets';
+import {
+  STANDARD_DEDUCTION_2024,
+  ADDITIONAL_STANDARD_DEDUCTION_2024,
+  DEPENDENT_STANDARD_DEDUCTION_2024,
+  SALT_CAP_2024,
+} from '../2024/federal/deductions';
+import { CTC_2024 } from '../2024/federal/credits';
+import { EITC_2024, EITC_INVESTMENT_INCOME_LIMIT_2024 } from '../2024/federal/eitc';
+import { LTCG_2024 } from '../2024/federal/ltcgThresholds';
+import {
+  AMT_EXEMPTION_2024,
+  AMT_EXEMPTION_PHASEOUT_2024,
+  AMT_EXEMPTION_PHASEOUT_RATE_2024,
+  AMT_RATE_THRESHOLD_2024,
+} from '../2024/federal/amt';
+import { SS_WAGE_BASE_2024 } from '../2024/federal/medicareSocialSecurity';
+
+import { FEDERAL_BRACKETS_2025 } from '../2025/federal/federalBrackets';
+import {
+  STANDARD_DEDUCTION_2025,
+  ADDITIONAL_STANDARD_DEDUCTION_2025,
+  DEPENDENT_STANDARD_DEDUCTION_2025,
+  SALT_CAP_2025,
+} from '../2025/federal/deductions';
+import { CTC_2025 } from '../2025/federal/credits';
+import {
+  EITC_2025,
+  EITC_INVESTMENT_INCOME_LIMIT_2025,
+  type EITCQualifyingChildren,
+  type EITCTableRow,
+} from '../2025/federal/eitc';
+import { LTCG_2025, type LTCGThresholds } from '../2025/federal/ltcgThresholds';
+import {
+  AMT_EXEMPTION_2025,
+  AMT_EXEMPTION_PHASEOUT_2025,
+  AMT_EXEMPTION_PHASEOUT_RATE_2025,
+  AMT_RATE_THRESHOLD_2025,
+} from '../2025/federal/amt';
+import { SS_WAGE_BASE_2025 } from '../2025/federal/medicareSocialSecurity';
+
+import { FEDERAL_BRACKETS_2026 } from '../2026/federal/federalBrackets';
+import {
+  STANDARD_DEDUCTION_2026,
+  ADDITIONAL_STANDARD_DEDUCTION_2026,
+  DEPENDENT_STANDARD_DEDUCTION_2026,
+  SALT_CAP_2026,
+  SALT_CAP_PHASEDOWN_2026,
+} from '../2026/federal/deductions';
+import { CTC_2026 } from '../2026/federal/credits';
+import { EITC_2026, EITC_INVESTMENT_INCOME_LIMIT_2026 } from '../2026/federal/eitc';
+import { LTCG_2026 } from '../2026/federal/ltcgThresholds';
+import {
+  AMT_EXEMPTION_2026,
+  AMT_EXEMPTION_PHASEOUT_2026,
+  AMT_EXEMPTION_PHASEOUT_RATE_2026,
+  AMT_RATE_THRESHOLD_2026,
+} from '../2026/federal/amt';
+import { SS_WAGE_BASE_2026 } from '../2026/federal/medicareSocialSecurity';
+
 /**
- * Load 2025 federal rules
+ * Registry key for each filing status (matches taxYearConfig lookups)
  */
-export function load2025FederalRules(): void {
-  // Standard deduction
-  registerConstant(2025, 'standard_deduction.single', {
-    metadata: {
-      id: 'federal.standard_deduction.single',
-      name: 'Standard Deduction - Single',
-      taxYear: 2025,
-      effectiveDate: '2025-01-01',
-      expirationDate: '2025-12-31',
-      source: 'IRS Rev. Proc. 2024-40',
-      sourceUrl: 'https://www.irs.gov/pub/irs-drop/rp-24-40.pdf',
-      lastVerified: '2024-11-15',
-      version: '1.0.0',
-      deprecated: false,
-      tags: ['federal', 'deduction', 'standard'],
-    },
-    value: 1550000, // $15,500
-  });
+const FILING_STATUS_KEYS: Record<FilingStatus, string> = {
+  single: 'single',
+  marriedJointly: 'married_jointly',
+  marriedSeparately: 'married_separately',
+  headOfHousehold: 'head_of_household',
+};
 
-  registerConstant(2025, 'standard_deduction.married_jointly', {
-    metadata: {
-      id: 'federal.standard_deduction.married_jointly',
-      name: 'Standard Deduction - Married Filing Jointly',
-      taxYear: 2025,
-      effectiveDate: '2025-01-01',
-      expirationDate: '2025-12-31',
-      source: 'IRS Rev. Proc. 2024-40',
-      sourceUrl: 'https://www.irs.gov/pub/irs-drop/rp-24-40.pdf',
-      lastVerified: '2024-11-15',
-      version: '1.0.0',
-      deprecated: false,
-      tags: ['federal', 'deduction', 'standard'],
-    },
-    value: 3100000, // $31,000
-  });
+const FILING_STATUS_NAMES: Record<FilingStatus, string> = {
+  single: 'Single',
+  marriedJointly: 'Married Filing Jointly',
+  marriedSeparately: 'Married Filing Separately',
+  headOfHousehold: 'Head of Household',
+};
 
-  registerConstant(2025, 'standard_deduction.married_separately', {
-    metadata: {
-      id: 'federal.standard_deduction.married_separately',
-      name: 'Standard Deduction - Married Filing Separately',
-      taxYear: 2025,
-      effectiveDate: '2025-01-01',
-      expirationDate: '2025-12-31',
-      source: 'IRS Rev. Proc. 2024-40',
-      sourceUrl: 'https://www.irs.gov/pub/irs-drop/rp-24-40.pdf',
-      lastVerified: '2024-11-15',
-      version: '1.0.0',
-      deprecated: false,
-      tags: ['federal', 'deduction', 'standard'],
-    },
-    value: 1550000, // $15,500
-  });
+const FILING_STATUSES = Object.keys(FILING_STATUS_KEYS) as FilingStatus[];
+const EITC_CHILD_COUNTS: EITCQualifyingChildren[] = [0, 1, 2, 3];
 
-  registerConstant(2025, 'standard_deduction.head_of_household', {
-    metadata: {
-      id: 'federal.standard_deduction.head_of_household',
-      name: 'Standard Deduction - Head of Household',
-      taxYear: 2025,
-      effectiveDate: '2025-01-01',
-      expirationDate: '2025-12-31',
-      source: 'IRS Rev. Proc. 2024-40',
-      sourceUrl: 'https://www.irs.gov/pub/irs-drop/rp-24-40.pdf',
-      lastVerified: '2024-11-15',
-      version: '1.0.0',
-      deprecated: false,
-      tags: ['federal', 'deduction', 'standard'],
-    },
-    value: 2325000, // $23,250
-  });
+/**
+ * Authority for a year's inflation-adjusted amounts
+ */
+interface RuleSource {
+  source: string;
+  sourceUrl: string;
+  lastVerified: string;
+}
 
-  // Tax brackets - Single
-  registerFederalBrackets(2025, 'single', {
-    metadata: {
-      id: 'federal.brackets.single.2025',
-      name: 'Federal Tax Brackets - Single (2025)',
-      taxYear: 2025,
-      effectiveDate: '2025-01-01',
-      expirationDate: '2025-12-31',
-      source: 'IRS Rev. Proc. 2024-40',
-      sourceUrl: 'https://www.irs.gov/pub/irs-drop/rp-24-40.pdf',
-      lastVerified: '2024-11-15',
-      version: '1.0.0',
-      deprecated: false,
-      tags: ['federal', 'brackets', 'single'],
-    },
-    brackets: [
-      { min: 0, max: 1180000, rate: 0.1 }, // $11,800
-      { min: 1180000, max: 4780000, rate: 0.12 }, // $47,800
-      { min: 4780000, max: 10025000, rate: 0.22 }, // $100,250
-      { min: 10025000, max: 19175000, rate: 0.24 }, // $191,750
-      { min: 19175000, max: 24320000, rate: 0.32 }, // $243,200
-      { min: 24320000, max: 60990000, rate: 0.35 }, // $609,900
-      { min: 60990000, max: Infinity, rate: 0.37 },
-    ],
-  });
+/**
+ * Federal amounts that change from year to year, as read by taxYearConfig
+ */
+interface FederalYearRules {
+  brackets: Record<FilingStatus, TaxBracket[]>;
+  standardDeduction: Record<FilingStatus, number>;
+  additionalStandardDeduction: {
+    age65OrOlderMarried: number;
+    age65OrOlderUnmarried: number;
+    blindMarried: number;
+    blindUnmarried: number;
+  };
+  dependentStandardDeduction: { minimum: number; earnedIncomeAddition: number };
+  saltCap: number;
+  saltCapPhasedown?: { threshold: number; rate: number; floor: number };
+  ltcg: Record<FilingStatus, LTCGThresholds>;
+  ctc: {
+    maxCredit: number;
+    additionalChildCredit: number;
+    phaseOutThresholds: Record<FilingStatus, number>;
+  };
+  eitc: Record<EITCQualifyingChildren, EITCTableRow>;
+  eitcInvestmentIncomeLimit: number;
+  amt: {
+    exemption: Record<FilingStatus, number>;
+    exemptionPhaseout: Record<FilingStatus, number>;
+    exemptionPhaseoutRate: number;
+    rateThreshold: Record<FilingStatus, number>;
+  };
+  ssWageBase: number;
+}
 
-  // Child Tax Credit
-  registerConstant(2025, 'ctc.amount_per_child', {
-    metadata: {
-      id: 'federal.ctc.amount_per_child',
-      name: 'Child Tax Credit Amount',
-      taxYear: 2025,
-      effectiveDate: '2025-01-01',
-      expirationDate: '2025-12-31',
-      source: 'IRC § 24(a), as amended by TCJA',
-      sourceUrl: 'https://www.law.cornell.edu/uscode/text/26/24',
-      lastVerified: '2024-11-15',
-      version: '1.0.0',
-      deprecated: false,
-      tags: ['federal', 'credit', 'ctc'],
-    },
-    value: 200000, // $2,000
+/**
+ * Register every year-specific federal amount for a tax year
+ */
+function registerFederalYearRules(year: number, rules: FederalYearRules, source: RuleSource): void {
+  const metadata = (id: string, name: string, tags: string[]) => ({
+    id,
+    name,
+    taxYear: year,
+    effectiveDate: `${year}-01-01`,
+    expirationDate: `${year}-12-31`,
+    ...source,
+    version: '1.0.0',
+    deprecated: false,
+    tags: ['federal', ...tags],
   });
+  const constant = (constantId: string, name: string, value: number, tags: string[]) =>
+    registerConstant(year, constantId, {
+      metadata: metadata(`federal.${constantId}`, name, tags),
+      value,
+    });
+
+  for (const status of FILING_STATUSES) {
+    const key = FILING_STATUS_KEYS[status];
+    const label = FILING_STATUS_NAMES[status];
+
+    registerFederalBrackets(year, key, {
+      metadata: metadata(
+        `federal.brackets.${key}.${year}`,
+        `Federal Tax Brackets - ${label} (${year})`,
+        ['brackets', key]
+      ),
+      brackets: rules.brackets[status],
+    });
+    constant(
+      `standard_deduction.${key}`,
+      `Standard Deduction - ${label}`,
+      rules.standardDeduction[status],
+      ['deduction', 'standard']
+    );
+    constant(
+      `ltcg.zero_rate_max.${key}`,
+      `Capital Gains 0% Rate Maximum - ${label}`,
+      rules.ltcg[status].zeroRateMax,
+      ['capital_gains']
+    );
+    constant(
+      `ltcg.fifteen_rate_max.${key}`,
+      `Capital Gains 15% Rate Maximum - ${label}`,
+      rules.ltcg[status].fifteenRateMax,
+      ['capital_gains']
+    );
+    constant(
+      `ctc.phaseout_start.${key}`,
+      `Child Tax Credit Phase-out Threshold - ${label}`,
+      rules.ctc.phaseOutThresholds[status],
+      ['credit', 'ctc', 'phaseout']
+    );
+    constant(`amt.exemption.${key}`, `AMT Exemption - ${label}`, rules.amt.exemption[status], [
+      'amt',
+    ]);
+    constant(
+      `amt.exemption_phaseout.${key}`,
+      `AMT Exemption Phase-out Threshold - ${label}`,
+      rules.amt.exemptionPhaseout[status],
+      ['amt', 'phaseout']
+    );
+    constant(
+      `amt.rate_threshold.${key}`,
+      `AMT 28% Rate Threshold - ${label}`,
+      rules.amt.rateThreshold[status],
+      ['amt']
+    );
+  }
+
+  const additional = rules.additionalStandardDeduction;
+  constant(
+    'additional_standard_deduction.age65_married',
+    'Additional Standard Deduction - Age 65 (Married)',
+    additional.age65OrOlderMarried,
+    ['deduction', 'standard']
+  );
+  constant(
+    'additional_standard_deduction.age65_unmarried',
+    'Additional Standard Deduction - Age 65 (Unmarried)',
+    additional.age65OrOlderUnmarried,
+    ['deduction', 'standard']
+  );
+  constant(
+    'additional_standard_deduction.blind_married',
+    'Additional Standard Deduction - Blind (Married)',
+    additional.blindMarried,
+    ['deduction', 'standard']
+  );
+  constant(
+    'additional_standard_deduction.blind_unmarried',
+    'Additional Standard Deduction - Blind (Unmarried)',
+    additional.blindUnmarried,
+    ['deduction', 'standard']
+  );
+
+  constant(
+    'dependent_standard_deduction.minimum',
+    'Dependent Standard Deduction - Minimum',
+    rules.dependentStandardDeduction.minimum,
+    ['deduction', 'standard']
+  );
+  constant(
+    'dependent_standard_deduction.earned_income_addition',
+    'Dependent Standard Deduction - Earned Income Addition',
+    rules.dependentStandardDeduction.earnedIncomeAddition,
+    ['deduction', 'standard']
+  );
+
+  constant('salt_cap', 'SALT Deduction Cap', rules.saltCap, ['deduction', 'salt']);
+  if (rules.saltCapPhasedown) {
+    const { threshold, rate, floor } = rules.saltCapPhasedown;
+    constant('salt_cap.phasedown_threshold', 'SALT Cap Phase-down Threshold', threshold, [
+      'deduction',
+      'salt',
+      'phaseout',
+    ]);
+    constant('salt_cap.phasedown_rate', 'SALT Cap Phase-down Rate', rate, [
+      'deduction',
+      'salt',
+      'phaseout',
+    ]);
+    constant('salt_cap.floor', 'SALT Cap Floor', floor, ['deduction', 'salt']);
+  }
 
-  // EITC maximum credit (no children)
-  registerConstant(2025, 'eitc.max_0_children', {
-    metadata: {
-      id: 'federal.eitc.max_0_children',
-      name: 'EITC Maximum - No Children',
-      taxYear: 2025,
-      effectiveDate: '2025-01-01',
-      expirationDate: '2025-12-31',
+  constant('ctc.amount_per_child', 'Child Tax Credit Amount', rules.ctc.maxCredit, [
+    'credit',
+    'ctc',
+  ]);
+  constant(
+    'ctc.refundable_per_child',
+    'Additional Child Tax Credit Maximum',
+    rules.ctc.additionalChildCredit,
+    ['credit', 'ctc']
+  );
+
+  for (const children of EITC_CHILD_COUNTS) {
+    const row = rules.eitc[children];
+    const label = children === 3 ? '3+ Children' : `${children} Children`;
+    constant(`eitc.max_${children}_children`, `EITC Maximum - ${label}`, row.maxCredit, [
+      'credit',
+      'eitc',
+    ]);
+    constant(
+      `eitc.earned_income_amount_${children}_children`,
+      `EITC Earned Income Amount - ${label}`,
+      row.earnedIncomeAmount,
+      ['credit', 'eitc']
+    );
+    constant(
+      `eitc.phaseout_start_mfj_${children}_children`,
+      `EITC Phase-out Start (MFJ) - ${label}`,
+      row.thresholdPhaseoutMFJ,
+      ['credit', 'eitc', 'phaseout']
+    );
+    constant(
+      `eitc.phaseout_end_mfj_${children}_children`,
+      `EITC Phase-out End (MFJ) - ${label}`,
+      row.completedPhaseoutMFJ,
+      ['credit', 'eitc', 'phaseout']
+    );
+    constant(
+      `eitc.phaseout_start_${children}_children`,
+      `EITC Phase-out Start - ${label}`,
+      row.thresholdPhaseoutOther,
+      ['credit', 'eitc', 'phaseout']
+    );
+    constant(
+      `eitc.phaseout_end_${children}_children`,
+      `EITC Phase-out End - ${label}`,
+      row.completedPhaseoutOther,
+      ['credit', 'eitc', 'phaseout']
+    );
+  }
+  constant(
+    'eitc.investment_income_limit',
+    'EITC Investment Income Limit',
+    rules.eitcInvestmentIncomeLimit,
+    ['credit', 'eitc']
+  );
+
+  constant(
+    'amt.exemption_phaseout_rate',
+    'AMT Exemption Phase-out Rate',
+    rules.amt.exemptionPhaseoutRate,
+    ['amt', 'phaseout']
+  );
+  constant('ss.wage_base', 'Social Security Wage Base', rules.ssWageBase, ['payroll']);
+}
+
+/**
+ * Load 2025 federal rules
+ */
+export function load2025FederalRules(): void {
+  registerFederalYearRules(
+    2025,
+    {
+      brackets: FEDERAL_BRACKETS_2025,
+      standardDeduction: STANDARD_DEDUCTION_2025,
+      additionalStandardDeduction: ADDITIONAL_STANDARD_DEDUCTION_2025,
+      dependentStandardDeduction: DEPENDENT_STANDARD_DEDUCTION_2025,
+      saltCap: SALT_CAP_2025,
+      ltcg: LTCG_2025,
+      ctc: CTC_2025,
+      eitc: EITC_2025,
+      eitcInvestmentIncomeLimit: EITC_INVESTMENT_INCOME_LIMIT_2025,
+      amt: {
+        exemption: AMT_EXEMPTION_2025,
+        exemptionPhaseout: AMT_EXEMPTION_PHASEOUT_2025,
+        exemptionPhaseoutRate: AMT_EXEMPTION_PHASEOUT_RATE_2025,
+        rateThreshold: AMT_RATE_THRESHOLD_2025,
+      },
+      ssWageBase: SS_WAGE_BASE_2025,
+    },
+    {
       source: 'IRS Rev. Proc. 2024-40',
       sourceUrl: 'https://www.irs.gov/pub/irs-drop/rp-24-40.pdf',
       lastVerified: '2024-11-15',
-      version: '1.0.0',
-      deprecated: false,
-      tags: ['federal', 'credit', 'eitc'],
-    },
-    value: 63200, // $632
-  });
+    }
+  );
 }
 
 /**
  * Load 2024 federal rules (for comparison/amended returns)
  */
 export function load2024FederalRules(): void {
-  // Standard deduction - 2024 values
-  registerConstant(2024, 'standard_deduction.single', {
-    metadata: {
-      id: 'federal.standard_deduction.single',
-      name: 'Standard Deduction - Single',
-      taxYear: 2024,
-      effectiveDate: '2024-01-01',
-      expirationDate: '2024-12-31',
-      source: 'IRS Rev. Proc. 2023-34',
-      sourceUrl: 'https://www.irs.gov/pub/irs-drop/rp-23-34.pdf',
-      lastVerified: '2024-01-15',
-      version: '1.0.0',
-      deprecated: false,
-      tags: ['federal', 'deduction', 'standard'],
+  registerFederalYearRules(
+    2024,
+    {
+      brackets: FEDERAL_BRACKETS_2024,
+      standardDeduction: STANDARD_DEDUCTION_2024,
+      additionalStandardDeduction: ADDITIONAL_STANDARD_DEDUCTION_2024,
+      dependentStandardDeduction: DEPENDENT_STANDARD_DEDUCTION_2024,
+      saltCap: SALT_CAP_2024,
+      ltcg: LTCG_2024,
+      ctc: CTC_2024,
+      eitc: EITC_2024,
+      eitcInvestmentIncomeLimit: EITC_INVESTMENT_INCOME_LIMIT_2024,
+      amt: {
+        exemption: AMT_EXEMPTION_2024,
+        exemptionPhaseout: AMT_EXEMPTION_PHASEOUT_2024,
+        exemptionPhaseoutRate: AMT_EXEMPTION_PHASEOUT_RATE_2024,
+        rateThreshold: AMT_RATE_THRESHOLD_2024,
+      },
+      ssWageBase: SS_WAGE_BASE_2024,
     },
-    value: 1475000, // $14,750
-  });
-
-  registerConstant(2024, 'standard_deduction.married_jointly', {
-    metadata: {
-      id: 'federal.standard_deduction.married_jointly',
-      name: 'Standard Deduction - Married Filing Jointly',
-      taxYear: 2024,
-      effectiveDate: '2024-01-01',
-      expirationDate: '2024-12-31',
+    {
       source: 'IRS Rev. Proc. 2023-34',
       sourceUrl: 'https://www.irs.gov/pub/irs-drop/rp-23-34.pdf',
       lastVerified: '2024-01-15',
-      version: '1.0.0',
-      deprecated: false,
-      tags: ['federal', 'deduction', 'standard'],
-    },
-    value: 2950000, // $29,500
-  });
+    }
+  );
+}
 
-  // Tax brackets - Single (2024)
-  registerFederalBrackets(2024, 'single', {
-    metadata: {
-      id: 'federal.brackets.single.2024',
-      name: 'Federal Tax Brackets - Single (2024)',
-      taxYear: 2024,
-      effectiveDate: '2024-01-01',
-      expirationDate: '2024-12-31',
-      source: 'IRS Rev. Proc. 2023-34',
-      sourceUrl: 'https://www.irs.gov/pub/irs-drop/rp-23-34.pdf',
-      lastVerified: '2024-01-15',
-      version: '1.0.0',
-      deprecated: false,
-      tags: ['federal', 'brackets', 'single'],
+/**
+ * Load 2026 federal rules (for projections and estimated tax planning)
+ */
+export function load2026FederalRules(): void {
+  registerFederalYearRules(
+    2026,
+    {
+      brackets: FEDERAL_BRACKETS_2026,
+      standardDeduction: STANDARD_DEDUCTION_2026,
+      additionalStandardDeduction: ADDITIONAL_STANDARD_DEDUCTION_2026,
+      dependentStandardDeduction: DEPENDENT_STANDARD_DEDUCTION_2026,
+      saltCap: SALT_CAP_2026,
+      saltCapPhasedown: SALT_CAP_PHASEDOWN_2026,
+      ltcg: LTCG_2026,
+      ctc: CTC_2026,
+      eitc: EITC_2026,
+      eitcInvestmentIncomeLimit: EITC_INVESTMENT_INCOME_LIMIT_2026,
+      amt: {
+        exemption: AMT_EXEMPTION_2026,
+        exemptionPhaseout: AMT_EXEMPTION_PHASEOUT_2026,
+        exemptionPhaseoutRate: AMT_EXEMPTION_PHASEOUT_RATE_2026,
+        rateThreshold: AMT_RATE_THRESHOLD_2026,
+      },
+      ssWageBase: SS_WAGE_BASE_2026,
     },
-    brackets: [
-      { min: 0, max: 1160000, rate: 0.1 }, // $11,600
-      { min: 1160000, max: 4725000, rate: 0.12 }, // $47,250
-      { min: 4725000, max: 10050000, rate: 0.22 }, // $100,500
-      { min: 10050000, max: 19175000, rate: 0.24 }, // $191,750
-      { min: 19175000, max: 24320000, rate: 0.32 }, // $243,200
-      { min: 24320000, max: 60990000, rate: 0.35 }, // $609,900
-      { min: 60990000, max: Infinity, rate: 0.37 },
-    ],
-  });
+    {
+      source: 'IRS Rev. Proc. 2025-32',
+      sourceUrl: 'https://www.irs.gov/pub/irs-drop/rp-25-32.pdf',
+      lastVerified: '2025-10-15',
+    }
+  );
 }
 
 /**
@@ -214,6 +426,7 @@ export function load2024FederalRules(): void {
 export function loadAllRules(): void {
   load2024FederalRules();
   load2025FederalRules();
+  load2026FederalRules();
 
   const registry = getRegistry();
   console.log(`Loaded ${registry.metadata.ruleCount} rules`);
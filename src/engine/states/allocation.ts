@@ -0,0 +1,305 @@
+/**
+ * Multi-State Allocation
+ *
+ * Builds part-year resident and nonresident returns from the full-year
+ * resident calculators in STATE_REGISTRY:
+ * 1. Count days of residency in each state from the residency periods,
+ *    rejecting any period that overlaps another
+ * 2. Source income to each state: wages, business and rental income by the
+ *    state listed in incomeSourcing; all other income by domicile, prorated
+ *    by days resident
+ * 3. Run each state's calculator as if the taxpayer were a full-year resident
+ * 4. Allocate the resident-basis tax with the state's method, e.g. the
+ *    CA Schedule CA (540NR) ratio or NY IT-203 income percentage
+ */
+
+import { addError, createDiagnostics } from '../diagnostics';
+import type { FederalDiagnostics2025 } from '../types';
+import type {
+  MultiStateResult,
+  MultiStateTaxInput,
+  StateAllocation,
+  StateAllocationMethod,
+  StateIncomeSourcing,
+  StateResidencyPeriod,
+  StateResidencyStatus,
+  StateResult,
+  StateTaxInput,
+} from '../types/stateTax';
+import { addCents, max0, multiplyCents } from '../util/money';
+import { getStateCalculator } from './registry';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Part-year / nonresident forms by state (added to formReferences)
+ */
+export const NONRESIDENT_FORMS_2025: Record<string, string[]> = {
+  CA: ['Form 540NR', 'Schedule CA (540NR)'],
+  NY: ['Form IT-203'],
+};
+
+/**
+ * Compute returns for every state the taxpayer lived in or earned income in
+ *
+ * @param input - Shared state inputs with residency periods and income sourcing
+ * @returns Allocated result per state, combined totals and diagnostics
+ */
+export function computeMultiStateReturns(input: MultiStateTaxInput): MultiStateResult {
+  const {
+    residencyPeriods,
+    stateWithheldByState,
+    stateEstPaymentsByState,
+    allocationMethods,
+    taxYear = 2025,
+    ...shared
+  } = input;
+
+  const diagnostics = createDiagnostics();
+  const periods = rejectOverlappingPeriods(residencyPeriods, diagnostics);
+  const daysInYear = getDaysInYear(taxYear);
+  const daysByState = calculateResidencyDays(periods, taxYear);
+  const sourcedByState = calculateSourcedIncome(input.incomeSourcing);
+  const totalSourced = Object.values(sourcedByState).reduce((sum, amount) => sum + amount, 0);
+  const federalAGI = input.federalResult.agi;
+  // Sourced income can exceed AGI when losses reduce it; nothing is then left to prorate
+  const domicileIncome = max0(federalAGI - totalSourced);
+
+  const stateCodes = Array.from(
+    new Set([
+      ...periods.map((period) => period.state.toUpperCase()),
+      ...Object.keys(sourcedByState),
+    ])
+  );
+
+  const states = stateCodes.map((state): StateAllocation => {
+    const entry = getStateCalculator(state);
+    if (!entry) {
+      throw new Error(`No state calculator registered for ${state}`);
+    }
+
+    const daysResident = daysByState[state] ?? 0;
+    const residencyStatus: StateResidencyStatus =
+      daysResident >= daysInYear ? 'resident' : daysResident > 0 ? 'partYear' : 'nonresident';
+    const method = allocationMethods?.[state] ?? 'incomeRatio';
+
+    const stateSourceIncome =
+      residencyStatus === 'resident'
+        ? federalAGI
+        : (sourcedByState[state] ?? 0) + Math.round((domicileIncome * daysResident) / daysInYear);
+
+    const allocationRatio = calculateAllocationRatio(
+      residencyStatus,
+      method,
+      stateSourceIncome,
+      federalAGI,
+      daysResident / daysInYear
+    );
+
+    const stateInput: StateTaxInput = {
+      ...shared,
+      state,
+      stateWithheld: stateWithheldByState?.[state] ?? 0,
+      stateEstPayments: stateEstPaymentsByState?.[state] ?? 0,
+      residencyPeriods: periods,
+    };
+    const residentBasis = entry.calculator(stateInput);
+
+    return {
+      state,
+      residencyStatus,
+      daysResident,
+      method,
+      stateSourceIncome,
+      allocationRatio,
+      residentBasis,
+      result: allocateStateResult(residentBasis, {
+        residencyStatus,
+        daysResident,
+        method,
+        stateSourceIncome,
+        allocationRatio,
+      }),
+    };
+  });
+
+  return {
+    states,
+    totalStateLiability: addCents(...states.map((s) => s.result.totalStateLiability)),
+    totalRefundOrOwe: addCents(...states.map((s) => s.result.stateRefundOrOwe)),
+    diagnostics,
+  };
+}
+
+/**
+ * Drop residency periods that overlap an earlier period, which would count
+ * the same days in two states (dates inclusive)
+ */
+function rejectOverlappingPeriods(
+  periods: StateResidencyPeriod[],
+  diagnostics: FederalDiagnostics2025
+): StateResidencyPeriod[] {
+  const accepted: StateResidencyPeriod[] = [];
+
+  for (const period of periods) {
+    const start = Date.parse(period.startDate);
+    const end = Date.parse(period.endDate);
+    const other = accepted.find(
+      (prior) => start <= Date.parse(prior.endDate) && Date.parse(prior.startDate) <= end
+    );
+    if (other) {
+      addError(
+        diagnostics,
+        'INPUT-E-006',
+        { period: describePeriod(period), other: describePeriod(other) },
+        'residencyPeriods',
+        'input-validation'
+      );
+      continue;
+    }
+    accepted.push(period);
+  }
+
+  return accepted;
+}
+
+function describePeriod(period: StateResidencyPeriod): string {
+  return `${period.state.toUpperCase()} ${period.startDate} to ${period.endDate}`;
+}
+
+/**
+ * Days resident in each state during the tax year (dates inclusive)
+ */
+export function calculateResidencyDays(
+  periods: StateResidencyPeriod[],
+  taxYear: number
+): Record<string, number> {
+  const yearStart = Date.UTC(taxYear, 0, 1);
+  const yearEnd = Date.UTC(taxYear, 11, 31);
+  const days: Record<string, number> = {};
+
+  for (const period of periods) {
+    const start = Math.max(Date.parse(period.startDate), yearStart);
+    const end = Math.min(Date.parse(period.endDate), yearEnd);
+    if (Number.isNaN(start) || Number.isNaN(end) || end < start) {
+      continue;
+    }
+    const state = period.state.toUpperCase();
+    days[state] = Math.min(
+      (days[state] ?? 0) + Math.round((end - start) / DAY_MS) + 1,
+      getDaysInYear(taxYear)
+    );
+  }
+
+  return days;
+}
+
+/**
+ * Sum wages, business and rental income sourced to each state
+ */
+function calculateSourcedIncome(sourcing: StateIncomeSourcing | undefined): Record<string, number> {
+  const sourced: Record<string, number> = {};
+  if (!sourcing) {
+    return sourced;
+  }
+
+  for (const byState of [
+    sourcing.wagesByState,
+    sourcing.businessIncomeByState,
+    sourcing.rentalIncomeByState,
+  ]) {
+    for (const [state, amount] of Object.entries(byState ?? {})) {
+      const code = state.toUpperCase();
+      sourced[code] = addCents(sourced[code] ?? 0, amount);
+    }
+  }
+
+  return sourced;
+}
+
+/**
+ * Share of the resident-basis tax owed to the state (0-1)
+ *
+ * Nonresidents always use the income ratio; 'daysProrated' applies only to
+ * the resident portion of a part-year return.
+ */
+function calculateAllocationRatio(
+  status: StateResidencyStatus,
+  method: StateAllocationMethod,
+  stateSourceIncome: number,
+  federalAGI: number,
+  residentShare: number
+): number {
+  if (status === 'resident') {
+    return 1;
+  }
+  if (status === 'partYear' && method === 'daysProrated') {
+    return residentShare;
+  }
+  if (federalAGI <= 0) {
+    return 0;
+  }
+  return Math.min(Math.max(stateSourceIncome / federalAGI, 0), 1);
+}
+
+/**
+ * Apply the allocation ratio to a resident-basis result
+ *
+ * State AGI and taxable income stay on the resident basis (the tax base at
+ * resident rates, as on Form 540NR); tax, credits and local tax are
+ * allocated. Local income taxes follow residence, so nonresidents owe none,
+ * and refundable credits are limited to part-year residents.
+ */
+function allocateStateResult(
+  basis: StateResult,
+  allocation: Omit<StateAllocation, 'state' | 'residentBasis' | 'result'>
+): StateResult {
+  const { residencyStatus, allocationRatio, stateSourceIncome, daysResident, method } = allocation;
+
+  if (residencyStatus === 'resident') {
+    return { ...basis, residencyStatus, allocationRatio, stateSourceIncome };
+  }
+
+  const stateLiability = multiplyCents(
+    max0(basis.totalStateLiability - basis.localTax),
+    allocationRatio
+  );
+  const localTax =
+    residencyStatus === 'partYear' ? multiplyCents(basis.localTax, allocationRatio) : 0;
+  const refundableCredits =
+    residencyStatus === 'partYear'
+      ? multiplyCents(basis.stateCredits.refundableCredits, allocationRatio)
+      : 0;
+  const totalStateLiability = addCents(stateLiability, localTax);
+  const payments = addCents(basis.stateWithheld, basis.stateEstPayments);
+
+  const percent = (allocationRatio * 100).toFixed(2);
+  const allocationNote =
+    residencyStatus === 'partYear'
+      ? `Part-year resident (${daysResident} days): ${percent}% of resident-basis tax (${method === 'daysProrated' ? 'days resident' : 'state-source income ratio'})`
+      : `Nonresident: ${percent}% of resident-basis tax (state-source income ratio)`;
+
+  return {
+    ...basis,
+    stateTax: multiplyCents(basis.stateTax, allocationRatio),
+    localTax,
+    totalStateLiability,
+    stateCredits: {
+      nonRefundableCredits: multiplyCents(basis.stateCredits.nonRefundableCredits, allocationRatio),
+      refundableCredits,
+    },
+    stateRefundOrOwe: payments + refundableCredits - totalStateLiability,
+    residencyStatus,
+    allocationRatio,
+    stateSourceIncome,
+    formReferences: [
+      ...(NONRESIDENT_FORMS_2025[basis.state] ?? []),
+      ...(basis.formReferences ?? []),
+    ],
+    calculationNotes: [allocationNote, ...(basis.calculationNotes ?? [])],
+  };
+}
+
+function getDaysInYear(taxYear: number): number {
+  return (Date.UTC(taxYear + 1, 0, 1) - Date.UTC(taxYear, 0, 1)) / DAY_MS;
+}
@@ -13,7 +13,13 @@
  * @module calculator
  */
 
-import type { StateTaxConfig, TaxBracket, AGIModificationRule, CreditConfig } from './schema';
+import type {
+  StateTaxConfig,
+  TaxBracket,
+  AGIModificationRule,
+  CreditConfig,
+  CreditCalculation,
+} from './schema';
 import type { StateTaxInput, StateResult, StateCredits } from '../../types/stateTax';
 import type { FilingStatus } from '../../types';
 import { addCents, max0, multiplyCents } from '../../util/money';
@@ -189,6 +195,9 @@ function evaluateCondition(input: StateTaxInput, condition: any): boolean {
   // In production, this would be more robust
   switch (condition.type) {
     case 'filingStatus':
+      if (condition.operator === 'in') {
+        return Array.isArray(condition.value) && condition.value.includes(input.filingStatus);
+      }
       return condition.operator === 'eq'
         ? input.filingStatus === condition.value
         : input.filingStatus !== condition.value;
@@ -255,7 +264,14 @@ function calculateItemizedDeductions(
   stateAGI: number,
   config: StateTaxConfig
 ): number {
-  if (!config.itemizedDeductions || !input.federalResult.itemizedDeduction) {
+  if (!config.itemizedDeductions) {
+    return 0;
+  }
+
+  if (
+    config.itemizedDeductions.requiresFederalItemization &&
+    !input.federalResult.itemizedDeduction
+  ) {
     return 0;
   }
 
@@ -283,15 +299,20 @@ function calculateItemizedDeductions(
     itemized = addCents(itemized, input.stateItemized?.charitableContributions || 0);
   }
 
-  // Medical
+  // Medical (threshold is a percentage, e.g. 7.5 for 7.5% of AGI)
   if (config.itemizedDeductions.deductions.medical?.allowed) {
-    const threshold = config.itemizedDeductions.deductions.medical.agiThresholdPercentage;
+    const threshold = config.itemizedDeductions.deductions.medical.agiThresholdPercentage / 100;
     const medicalExpenses = input.stateItemized?.medicalExpenses || 0;
     const medicalFloor = multiplyCents(stateAGI, threshold);
     const deductibleMedical = max0(medicalExpenses - medicalFloor);
     itemized = addCents(itemized, deductibleMedical);
   }
 
+  // Other
+  if (config.itemizedDeductions.deductions.other?.allowed) {
+    itemized = addCents(itemized, input.stateItemized?.other || 0);
+  }
+
   return itemized;
 }
 
@@ -411,41 +432,56 @@ function calculateCredits(
     return result;
   }
 
+  // Credit amounts by id, for eligibility rules that depend on another credit
+  const claimed: Record<string, number> = {};
+
   for (const creditConfig of config.credits) {
     // Check eligibility
-    if (!checkCreditEligibility(input, stateAGI, creditConfig)) {
+    if (!checkCreditEligibility(input, stateAGI, creditConfig, claimed)) {
       continue;
     }
 
     // Calculate credit amount
     const creditAmount = calculateCreditAmount(input, stateAGI, creditConfig);
 
-    // Apply phase-out if applicable
-    const finalCreditAmount = applyCreditPhaseOut(
+    // Apply phase-out and maximum if applicable
+    const phasedOutAmount = applyCreditPhaseOut(
       creditAmount,
       stateAGI,
       input.filingStatus,
       creditConfig
     );
-
-    // Add to appropriate category
+    let finalCreditAmount =
+      creditConfig.maxCredit !== undefined && creditConfig.maxCredit !== null
+        ? Math.min(phasedOutAmount, creditConfig.maxCredit)
+        : phasedOutAmount;
+
+    // Add to appropriate category; nonrefundable credits are applied in
+    // order and limited to the tax remaining after earlier credits
+    const remainingTax = max0(taxBeforeCredits - result.nonRefundableCredits);
     if (creditConfig.type === 'refundable') {
       result.refundableCredits = addCents(result.refundableCredits, finalCreditAmount);
     } else if (creditConfig.type === 'nonRefundable') {
+      finalCreditAmount = Math.min(finalCreditAmount, remainingTax);
       result.nonRefundableCredits = addCents(result.nonRefundableCredits, finalCreditAmount);
     } else if (creditConfig.type === 'partiallyRefundable') {
       // Split between refundable and non-refundable portions
-      const nonRefundablePortion = Math.min(finalCreditAmount, taxBeforeCredits);
+      const nonRefundablePortion = Math.min(finalCreditAmount, remainingTax);
       const refundablePortion = max0(finalCreditAmount - nonRefundablePortion);
       result.nonRefundableCredits = addCents(result.nonRefundableCredits, nonRefundablePortion);
       result.refundableCredits = addCents(result.refundableCredits, refundablePortion);
     }
+    claimed[creditConfig.id] = finalCreditAmount;
 
     // Store individual credit details (for reporting)
     if (creditConfig.category === 'earnedIncome') {
       result.earned_income = finalCreditAmount;
     } else if (creditConfig.category === 'child') {
       result.child_dependent = finalCreditAmount;
+    } else if (creditConfig.category === 'dependent') {
+      result.dependent_exemption = addCents(result.dependent_exemption || 0, finalCreditAmount);
+    } else if (creditConfig.category === 'property') {
+      result.renters = addCents(result.renters || 0, finalCreditAmount);
     } else {
       result.other_credits = addCents(result.other_credits || 0, finalCreditAmount);
     }
@@ -460,14 +496,23 @@ function calculateCredits(
 function checkCreditEligibility(
   input: StateTaxInput,
   stateAGI: number,
-  creditConfig: CreditConfig
+  creditConfig: CreditConfig,
+  claimed: Record<string, number>
 ): boolean {
+  const incomeLimit = creditConfig.incomeLimit?.[input.filingStatus];
+  if (incomeLimit !== undefined && stateAGI > incomeLimit) {
+    return false;
+  }
+
   if (!creditConfig.eligibility || creditConfig.eligibility.length === 0) {
     return true; // No eligibility restrictions
   }
 
   for (const rule of creditConfig.eligibility) {
-    const eligible = evaluateCondition(input, rule);
+    const eligible =
+      rule.type === 'creditClaimed'
+        ? (claimed[String(rule.value)] || 0) > 0
+        : evaluateCondition(input, rule);
     if (!eligible) {
       return false; // Must meet all eligibility requirements
     }
@@ -487,8 +532,17 @@ function calculateCreditAmount(
   const calc = creditConfig.calculation;
 
   switch (calc.method) {
-    case 'fixed':
-      return calc.amount || 0;
+    case 'fixed': {
+      const amount = calc.amountByFilingStatus?.[input.filingStatus] ?? calc.amount ?? 0;
+      if (!calc.per) {
+        return amount;
+      }
+      const count = getCreditCount(input, calc.per);
+      return amount * Math.min(count, calc.maxCount ?? count);
+    }
+
+    case 'phaseInOut':
+      return calculatePhaseInOutCredit(input, stateAGI, calc);
 
     case 'percentage':
       // Calculate percentage of some base amount
@@ -528,14 +582,75 @@ function calculateCreditAmount(
   }
 }
 
+/**
+ * Calculate an EITC-style credit from the schedule for the number of
+ * qualifying children (dependents)
+ */
+function calculatePhaseInOutCredit(
+  input: StateTaxInput,
+  stateAGI: number,
+  calc: CreditCalculation
+): number {
+  const schedules = calc.schedules || [];
+  if (schedules.length === 0) {
+    return 0;
+  }
+
+  const children = getCreditCount(input, 'dependent');
+  const schedule =
+    [...schedules].reverse().find((s) => children >= s.qualifyingChildren) || schedules[0]!;
+
+  const income = getBaseAmountForCredit(input, calc.baseAmount || 'earnedIncome');
+  if (income < (calc.minimumIncome || 0)) {
+    return 0;
+  }
+  if (income > schedule.maxIncome || stateAGI > schedule.maxIncome) {
+    return 0;
+  }
+
+  let credit = Math.min(schedule.maxCredit, multiplyCents(income, schedule.phaseInRate));
+  if (stateAGI > schedule.phaseOutStart) {
+    const reduction = multiplyCents(
+      Math.min(stateAGI, schedule.maxIncome) - schedule.phaseOutStart,
+      schedule.phaseOutRate
+    );
+    credit = max0(credit - reduction);
+  }
+
+  return credit;
+}
+
+/**
+ * Get the count a per-person credit is multiplied by
+ */
+function getCreditCount(input: StateTaxInput, per: 'dependent' | 'youngChild'): number {
+  if (per === 'youngChild') {
+    const youngChildren = input.stateSpecific?.youngChildrenUnder6;
+    if (Array.isArray(youngChildren)) {
+      return youngChildren.length;
+    }
+    if (typeof youngChildren === 'number') {
+      return Math.max(0, Math.floor(youngChildren));
+    }
+    // Without an explicit count, assume at most one young child if dependents are claimed
+    return Math.min(Math.max(0, input.stateDependents ?? input.dependents ?? 0), 1);
+  }
+  return Math.max(0, input.stateDependents ?? input.dependents ?? 0);
+}
+
 /**
  * Get base amount for percentage credit calculation
  */
 function getBaseAmountForCredit(input: StateTaxInput, baseAmountType: string): number {
   // Simplified - would need more robust implementation
   switch (baseAmountType) {
-    case 'earnedIncome':
-      return input.federalResult.agi; // Simplified
+    case 'earnedIncome': {
+      // Earned income if provided, otherwise federal AGI
+      const earnedIncome = input.stateSpecific?.earnedIncome;
+      return typeof earnedIncome === 'number'
+        ? max0(Math.round(earnedIncome))
+        : max0(input.federalResult.agi);
+    }
     case 'qualifyingExpenses':
       return 0; // Would come from input
     default:
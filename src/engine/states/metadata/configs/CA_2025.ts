@@ -1,4 +1,10 @@
-# California State Tax Configuration for 2025
+/**
+ * California 2025 state tax configuration
+ *
+ * YAML source, embedded as a string so the configuration loads in every
+ * build of the engine (Vite and the CommonJS engine build alike).
+ */
+export const CA_2025_YAML = `# California State Tax Configuration for 2025
 # Example of complex progressive tax structure with multiple brackets and credits
 
 metadata:
@@ -23,155 +29,155 @@ structure: progressive
 # Tax Brackets by Filing Status
 brackets:
   inflationIndexed: true
-  topRate: 0.133  # 13.3% (includes 1% MHST)
+  topRate: 0.123  # 12.3% (the 1% MHST is a special tax below)
 
   byFilingStatus:
     single:
       - min: 0
-        max: 10412
+        max: 10792
         rate: 0.01
         description: "1% bracket"
-      - min: 10412
-        max: 24684
+      - min: 10792
+        max: 25580
         rate: 0.02
         description: "2% bracket"
-      - min: 24684
-        max: 38959
+      - min: 25580
+        max: 40372
         rate: 0.04
         description: "4% bracket"
-      - min: 38959
-        max: 54081
+      - min: 40372
+        max: 56048
         rate: 0.06
         description: "6% bracket"
-      - min: 54081
-        max: 68350
+      - min: 56048
+        max: 71724
         rate: 0.08
         description: "8% bracket"
-      - min: 68350
-        max: 349137
+      - min: 71724
+        max: 367716
         rate: 0.093
         description: "9.3% bracket"
-      - min: 349137
-        max: 418961
+      - min: 367716
+        max: 441272
         rate: 0.103
         description: "10.3% bracket"
-      - min: 418961
-        max: 698271
+      - min: 441272
+        max: 735472
         rate: 0.113
         description: "11.3% bracket"
-      - min: 698271
+      - min: 735472
         max: 1000000
         rate: 0.123
         description: "12.3% bracket"
       - min: 1000000
         max: .inf
-        rate: 0.133
-        description: "13.3% bracket (12.3% + 1% MHST)"
+        rate: 0.123
+        description: "12.3% bracket (MHST applied separately)"
 
     marriedJointly:
       - min: 0
-        max: 20824
+        max: 21584
         rate: 0.01
-      - min: 20824
-        max: 49368
+      - min: 21584
+        max: 51160
         rate: 0.02
-      - min: 49368
-        max: 77918
+      - min: 51160
+        max: 80744
         rate: 0.04
-      - min: 77918
-        max: 108162
+      - min: 80744
+        max: 112096
         rate: 0.06
-      - min: 108162
-        max: 136700
+      - min: 112096
+        max: 143448
         rate: 0.08
-      - min: 136700
-        max: 698274
+      - min: 143448
+        max: 735432
         rate: 0.093
-      - min: 698274
-        max: 837922
+      - min: 735432
+        max: 882544
         rate: 0.103
-      - min: 837922
-        max: 1396542
+      - min: 882544
+        max: 1470944
         rate: 0.113
-      - min: 1396542
-        max: 1000000
+      - min: 1470944
+        max: 2000000
         rate: 0.123
-      - min: 1000000
+      - min: 2000000
         max: .inf
-        rate: 0.133
+        rate: 0.123
 
     marriedSeparately:
       - min: 0
-        max: 10412
+        max: 10792
         rate: 0.01
-      - min: 10412
-        max: 24684
+      - min: 10792
+        max: 25580
         rate: 0.02
-      - min: 24684
-        max: 38959
+      - min: 25580
+        max: 40372
         rate: 0.04
-      - min: 38959
-        max: 54081
+      - min: 40372
+        max: 56048
         rate: 0.06
-      - min: 54081
-        max: 68350
+      - min: 56048
+        max: 71724
         rate: 0.08
-      - min: 68350
-        max: 349137
+      - min: 71724
+        max: 367716
         rate: 0.093
-      - min: 349137
-        max: 418961
+      - min: 367716
+        max: 441272
         rate: 0.103
-      - min: 418961
-        max: 698271
+      - min: 441272
+        max: 735472
         rate: 0.113
-      - min: 698271
-        max: 500000
+      - min: 735472
+        max: 1000000
         rate: 0.123
-      - min: 500000
+      - min: 1000000
         max: .inf
-        rate: 0.133
+        rate: 0.123
 
     headOfHousehold:
       - min: 0
-        max: 20839
+        max: 21586
         rate: 0.01
-      - min: 20839
-        max: 49371
+      - min: 21586
+        max: 51168
         rate: 0.02
-      - min: 49371
-        max: 63644
+      - min: 51168
+        max: 80752
         rate: 0.04
-      - min: 63644
-        max: 78765
+      - min: 80752
+        max: 112108
         rate: 0.06
-      - min: 78765
-        max: 93037
+      - min: 112108
+        max: 143464
         rate: 0.08
-      - min: 93037
-        max: 474824
+      - min: 143464
+        max: 735472
         rate: 0.093
-      - min: 474824
-        max: 569790
+      - min: 735472
+        max: 882584
         rate: 0.103
-      - min: 569790
-        max: 949649
+      - min: 882584
+        max: 1471024
         rate: 0.113
-      - min: 949649
-        max: 1000000
+      - min: 1471024
+        max: 2000000
         rate: 0.123
-      - min: 1000000
+      - min: 2000000
         max: .inf
-        rate: 0.133
+        rate: 0.123
 
 # Standard Deduction
 standardDeduction:
   available: true
   amounts:
-    single: 5363
-    marriedJointly: 10726
-    marriedSeparately: 5363
-    headOfHousehold: 10726
+    single: 5849
+    marriedJointly: 11698
+    marriedSeparately: 5849
+    headOfHousehold: 11780
   # California does NOT have additional deductions for age/blindness
 
 # Personal Exemptions
@@ -213,23 +219,45 @@ itemizedDeductions:
 # AGI Modifications
 agiModifications:
   subtractions:
-    # Railroad Retirement Benefits
-    - id: railroad_retirement
-      name: Railroad Retirement Benefits
-      description: "Railroad Retirement Act benefits exempt from CA tax"
+    # Social Security Benefits
+    - id: social_security
+      name: Social Security Benefits
+      description: "Social Security benefits are not taxable in California"
+      category: retirement
+      requiresInput: true
+      inputField: socialSecurityBenefits
+      fullExemption: true
+      stateForm: Schedule CA (540)
+
+    # Excluded Retirement Income
+    - id: retirement_income
+      name: Excluded Retirement Income
+      description: "Retirement income excluded by California (e.g. Railroad Retirement Act benefits)"
       category: retirement
       requiresInput: true
-      inputField: railroadRetirement
+      inputField: retirementIncome
+      fullExemption: true
+      stateForm: Schedule CA (540)
+
+    # Military Pay
+    - id: military_pay
+      name: Military Pay Exclusion
+      description: "Military pay excluded from California income"
+      category: compensation
+      requiresInput: true
+      inputField: militaryPay
       fullExemption: true
+      stateForm: Schedule CA (540)
 
-    # Lottery Winnings (from CA Lottery only)
-    - id: ca_lottery
-      name: California Lottery Winnings
-      description: "Winnings from California State Lottery are exempt"
+    # Other Subtractions (e.g. California Lottery winnings)
+    - id: other_subtractions
+      name: Other Subtractions
+      description: "Other Schedule CA subtractions, including California Lottery winnings"
       category: other
       requiresInput: true
-      inputField: caLotteryWinnings
+      inputField: otherSubtractions
       fullExemption: true
+      stateForm: Schedule CA (540)
 
   additions:
     # State Income Tax Refund
@@ -238,10 +266,31 @@ agiModifications:
       description: "State/local tax refunds if deducted federally"
       category: deduction
       requiresInput: true
-      inputField: stateLocalTaxRefund
+      inputField: federalTaxRefund
       fullExemption: true
+      stateForm: Schedule CA (540)
 
-# Credits
+    # Out-of-State Municipal Bond Interest
+    - id: municipal_bond_interest
+      name: Non-California Municipal Bond Interest
+      description: "Interest from other states' municipal bonds (exempt federally, taxable in CA)"
+      category: investment
+      requiresInput: true
+      inputField: municipalBondInterest
+      fullExemption: true
+      stateForm: Schedule CA (540)
+
+    # Other Additions
+    - id: other_additions
+      name: Other Additions
+      description: "Other Schedule CA additions"
+      category: other
+      requiresInput: true
+      inputField: otherAdditions
+      fullExemption: true
+      stateForm: Schedule CA (540)
+
+# Credits (refundable credits first; nonrefundable credits are applied in order)
 credits:
   # California Earned Income Tax Credit (CalEITC)
   - id: caleitc
@@ -250,25 +299,37 @@ credits:
     type: refundable
     category: earnedIncome
     calculation:
-      method: table
-      lookupKey: earnedIncome
-      table:
-        # Simplified - actual calculation more complex
-        entries:
-          - min: 1
-            max: 11750
-            credit: 3529
-            multiplier: 1.0
-    eligibility:
-      - type: income
-        operator: lte
-        value: 31950  # AGI limit varies by # of children
-      - type: income
-        operator: gte
-        value: 1  # Minimum earned income $1
+      method: phaseInOut
+      baseAmount: earnedIncome
+      minimumIncome: 1  # Must have at least $1 earned income
+      schedules:
+        - qualifyingChildren: 0
+          maxCredit: 3300
+          phaseInRate: 0.85
+          phaseOutStart: 10000
+          phaseOutRate: 0.15
+          maxIncome: 32400
+        - qualifyingChildren: 1
+          maxCredit: 3850
+          phaseInRate: 0.34
+          phaseOutStart: 15000
+          phaseOutRate: 0.178
+          maxIncome: 42840
+        - qualifyingChildren: 2
+          maxCredit: 6350
+          phaseInRate: 0.40
+          phaseOutStart: 15000
+          phaseOutRate: 0.212
+          maxIncome: 42840
+        - qualifyingChildren: 3  # 3 or more
+          maxCredit: 7140
+          phaseInRate: 0.45
+          phaseOutStart: 15000
+          phaseOutRate: 0.238
+          maxIncome: 42840
     forms:
       - "FTB 3514"
-      - "Form 540 Line 72"
+      - "Form 540 Line 75"
 
   # Young Child Tax Credit (YCTC)
   - id: yctc
@@ -278,89 +339,55 @@ credits:
     category: child
     calculation:
       method: fixed
-      amount: 1083  # Per child under 6
+      amount: 1117  # Per child under 6
+      per: youngChild
+      maxCount: 3
+    incomeLimit:
+      single: 30000
+      marriedJointly: 30000
+      marriedSeparately: 30000
+      headOfHousehold: 30000
     eligibility:
-      - type: age
-        operator: lt
-        value: 6
-        description: "Child must be under 6 years old"
-      - type: federalCreditClaimed
+      - type: creditClaimed
         operator: eq
-        value: "caleitc"
+        value: caleitc
         description: "Must qualify for CalEITC"
-    maxCredit: 1083
     forms:
       - "FTB 3514"
 
   # Dependent Exemption Credit
   - id: dependent_credit
     name: Dependent Exemption Credit
-    description: "Credit for each dependent"
+    description: "Credit for each dependent (replaced dependent exemptions)"
     type: nonRefundable
     category: dependent
-    calculation:
-      method: tiered
-      tiers:
-        - threshold: 0
-          value: 466
-          valueType: amount
-        - threshold: 250000  # Phase-out begins
-          value: 233
-          valueType: amount
-        - threshold: 500000  # Fully phased out
-          value: 0
-          valueType: amount
-    phaseOut:
-      startThreshold:
-        single: 250000
-        marriedJointly: 500000
-        marriedSeparately: 250000
-        headOfHousehold: 375000
-      endThreshold:
-        single: 500000
-        marriedJointly: 1000000
-        marriedSeparately: 500000
-        headOfHousehold: 750000
-      rate: 0.06  # 6% per $2,500 of AGI over threshold
-
-  # Renter's Credit
-  - id: renters_credit
-    name: California Renter's Credit
-    description: "Credit for qualified renters"
-    type: refundable
-    category: property
     calculation:
       method: fixed
-      amount: 120  # Single/HOH: $60, MFJ: $120
-    eligibility:
-      - type: income
-        operator: lte
-        value: 51041  # Single
-      - type: custom
-        operator: eq
-        value: "renter"
-        description: "Must be renting primary residence in California"
-    maxCredit: 120
+      amount: 445  # Per dependent
+      per: dependent
     forms:
-      - "Form 540 Line 44"
+      - "Form 540 Line 10"
 
-  # Nonrefundable Renter's Credit (for higher income)
-  - id: renters_credit_nonrefundable
+  # Nonrefundable Renter's Credit
+  - id: renters_credit
     name: Nonrefundable Renter's Credit
-    description: "Nonrefundable renter's credit for higher-income renters"
+    description: "Credit for qualified California renters"
     type: nonRefundable
     category: property
     calculation:
       method: fixed
-      amount: 120
-    eligibility:
-      - type: income
-        operator: gt
-        value: 51041
-      - type: income
-        operator: lte
-        value: 102082  # Double the refundable limit
-    maxCredit: 120
+      amountByFilingStatus:
+        single: 60
+        marriedJointly: 120
+        marriedSeparately: 60
+        headOfHousehold: 120
+    incomeLimit:
+      single: 92740
+      marriedJointly: 185480
+      marriedSeparately: 92740
+      headOfHousehold: 185480
+    forms:
+      - "Form 540 Line 46"
 
 # Local Tax
 localTax:
@@ -378,7 +405,7 @@ specialTaxes:
     threshold:
       single: 1000000
       marriedJointly: 1000000
-      marriedSeparately: 500000
+      marriedSeparately: 1000000
       headOfHousehold: 1000000
     base: taxableIncome
     forms:
@@ -417,10 +444,11 @@ documentation:
         dependents: 2
       expectedOutputs:
         caAGI: 85000
-        standardDeduction: 10726
-        taxableIncome: 74274
-        stateTax: 4450  # Approximate
-        credits: 932  # Dependent credits
+        standardDeduction: 11698
+        taxableIncome: 73302
+        stateTax: 1693.04
+        credits: 1010  # Dependent credits ($890) + renter's credit ($120)
+        netTax: 683.04
 
     - name: "High Earner with MHST"
       description: "Single filer over $1M threshold"
@@ -429,11 +457,11 @@ documentation:
         filingStatus: single
       expectedOutputs:
         caAGI: 1500000
-        standardDeduction: 5363
-        taxableIncome: 1494637
-        baseTax: 168975
-        mentalHealthTax: 4946  # 1% on amount over $1M
-        totalTax: 173921
+        standardDeduction: 5849
+        taxableIncome: 1494151
+        baseTax: 164855.64
+        mentalHealthTax: 4941.51  # 1% on amount over $1M
+        totalTax: 169797.15
 
     - name: "Low Income with CalEITC"
       description: "Single parent with one child, qualifies for CalEITC"
@@ -444,8 +472,10 @@ documentation:
         qualifyingChildren: 1
       expectedOutputs:
         caAGI: 25000
-        standardDeduction: 10726
-        taxableIncome: 14274
-        stateTax: 285  # Before credits
-        caleitc: 3529  # Refundable
-        netTax: -3244  # Refund
+        standardDeduction: 11780
+        taxableIncome: 13220
+        stateTax: 132.20  # Before credits; offset by the dependent credit
+        caleitc: 2070  # Refundable
+        yctc: 1117  # Refundable
+        netTax: -3187  # Refund
+`;
@@ -1,4 +1,10 @@
-# Pennsylvania State Tax Configuration for 2025
+/**
+ * Pennsylvania 2025 state tax configuration
+ *
+ * YAML source, embedded as a string so the configuration loads in every
+ * build of the engine (Vite and the CommonJS engine build alike).
+ */
+export const PA_2025_YAML = `# Pennsylvania State Tax Configuration for 2025
 # This is an example of the metadata-driven state tax rule format
 
 metadata:
@@ -102,6 +108,16 @@ agiModifications:
       stateForm: PA-40
       irsForm: Form 8889
 
+    # Other Subtractions
+    - id: other_subtractions
+      name: Other Subtractions
+      description: "Other income excluded from PA taxable income"
+      category: other
+      requiresInput: true
+      inputField: otherSubtractions
+      fullExemption: true
+      stateForm: PA-40
+
   # Additions to Federal AGI
   additions:
     # State Income Tax Refund (if deducted federally)
@@ -124,6 +140,16 @@ agiModifications:
       fullExemption: true
       stateForm: PA-40
 
+    # Other Additions
+    - id: other_additions
+      name: Other Additions
+      description: "Other income taxable in PA but not included in federal AGI"
+      category: other
+      requiresInput: true
+      inputField: otherAdditions
+      fullExemption: true
+      stateForm: PA-40
+
 # Credits: Very Minimal in Pennsylvania
 credits:
   # Tax Forgiveness Credit (for very low income)
@@ -271,3 +297,4 @@ documentation:
         paAGI: 75000
         paTaxableIncome: 75000
         paStateTax: 2302.50  # $75,000 × 3.07% = $2,302.50
+`;
@@ -0,0 +1,16 @@
+/**
+ * Bundled State Tax Configurations
+ *
+ * Raw YAML source for each state with a metadata configuration, keyed by
+ * state code. Parsed and validated on first use by the loader.
+ *
+ * @module configs
+ */
+
+import { CA_2025_YAML } from './CA_2025';
+import { PA_2025_YAML } from './PA_2025';
+
+export const STATE_METADATA_SOURCES_2025: Record<string, string> = {
+  CA: CA_2025_YAML,
+  PA: PA_2025_YAML,
+};
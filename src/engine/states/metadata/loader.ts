@@ -0,0 +1,80 @@
+/**
+ * State Tax Configuration Loader
+ *
+ * Resolves a state code to its bundled YAML configuration, parses and
+ * validates it, and wraps it as a standard state calculator.
+ *
+ * @module loader
+ */
+
+import { parse } from 'yaml';
+import type { StateTaxConfig } from './schema';
+import type { StateCalculator, StateTaxInput } from '../../types/stateTax';
+import { parseStateTaxConfig, generateValidationReport } from './parser';
+import { calculateStateFromMetadata } from './calculator';
+import { STATE_METADATA_SOURCES_2025 } from './configs';
+
+const configCache = new Map<string, StateTaxConfig>();
+
+/**
+ * Whether a state has a bundled metadata configuration
+ */
+export function hasStateMetadataConfig(stateCode: string): boolean {
+  return stateCode?.toUpperCase() in STATE_METADATA_SOURCES_2025;
+}
+
+/**
+ * Get list of states with bundled metadata configurations
+ */
+export function getMetadataStates(): string[] {
+  return Object.keys(STATE_METADATA_SOURCES_2025);
+}
+
+/**
+ * Parse and validate a YAML state tax configuration
+ *
+ * @param source - Raw YAML text
+ * @param stateCode - Expected state code for validation
+ * @returns Validated configuration with amounts converted to cents
+ * @throws Error with the validation report if the configuration is invalid
+ */
+export function parseStateTaxConfigYaml(source: string, stateCode?: string): StateTaxConfig {
+  const { config, validation } = parseStateTaxConfig(parse(source), stateCode);
+  if (!config) {
+    throw new Error(
+      `Invalid state tax configuration${stateCode ? ` for ${stateCode}` : ''}\n` +
+        generateValidationReport(validation)
+    );
+  }
+  return config;
+}
+
+/**
+ * Load the bundled configuration for a state (cached after first load)
+ *
+ * @param stateCode - Two-letter state code
+ * @returns Validated configuration, or null if the state has no metadata configuration
+ */
+export function loadStateTaxConfig(stateCode: string): StateTaxConfig | null {
+  const code = stateCode?.toUpperCase();
+  const cached = configCache.get(code);
+  if (cached) {
+    return cached;
+  }
+
+  const source = STATE_METADATA_SOURCES_2025[code];
+  if (!source) {
+    return null;
+  }
+
+  const config = parseStateTaxConfigYaml(source, code);
+  configCache.set(code, config);
+  return config;
+}
+
+/**
+ * Create a state calculator backed by a metadata configuration
+ */
+export function createMetadataCalculator(config: StateTaxConfig): StateCalculator {
+  return (input: StateTaxInput) => calculateStateFromMetadata(input, config);
+}
@@ -0,0 +1,138 @@
+/**
+ * Metadata Parity Harness
+ *
+ * Runs the same state inputs through a hand-written calculator and the
+ * metadata-driven calculator and reports every cents-level difference.
+ * Used to verify a YAML configuration before a state is switched over.
+ *
+ * @module parity
+ */
+
+import type { StateCalculator, StateResult, StateTaxInput } from '../../types/stateTax';
+import { centsToDollars } from '../../util/money';
+
+/**
+ * A named state input to compare across calculators
+ */
+export interface ParityFixture {
+  name: string;
+  input: StateTaxInput;
+}
+
+/**
+ * A single field that differs between the two calculators
+ */
+export interface ParityDifference {
+  field: string;
+  handwritten: number;
+  metadata: number;
+  /** metadata - handwritten, in cents */
+  delta: number;
+}
+
+export interface ParityCaseResult {
+  name: string;
+  differences: ParityDifference[];
+}
+
+export interface ParityReport {
+  state: string;
+  cases: ParityCaseResult[];
+  /** Number of fixtures with at least one difference */
+  mismatches: number;
+}
+
+/**
+ * Result fields compared in cents. Per-credit breakdowns are not compared
+ * because the metadata path labels credits by category, not by the
+ * hand-written field names; the credit totals are compared instead.
+ */
+const COMPARED_FIELDS: Array<[string, (result: StateResult) => number]> = [
+  ['stateAGI', (r) => r.stateAGI],
+  ['stateDeduction', (r) => r.stateDeduction],
+  ['stateTaxableIncome', (r) => r.stateTaxableIncome],
+  ['stateTax', (r) => r.stateTax],
+  ['localTax', (r) => r.localTax],
+  ['stateCredits.nonRefundableCredits', (r) => r.stateCredits.nonRefundableCredits],
+  ['stateCredits.refundableCredits', (r) => r.stateCredits.refundableCredits],
+  ['totalStateLiability', (r) => r.totalStateLiability],
+  ['stateWithheld', (r) => r.stateWithheld],
+  ['stateEstPayments', (r) => r.stateEstPayments],
+  ['stateRefundOrOwe', (r) => r.stateRefundOrOwe],
+];
+
+/**
+ * Compare two state results field by field
+ *
+ * @returns Differences in cents (empty when the results match)
+ */
+export function compareStateResults(
+  handwritten: StateResult,
+  metadata: StateResult
+): ParityDifference[] {
+  const differences: ParityDifference[] = [];
+
+  for (const [field, read] of COMPARED_FIELDS) {
+    const expected = read(handwritten) || 0;
+    const actual = read(metadata) || 0;
+    if (expected !== actual) {
+      differences.push({
+        field,
+        handwritten: expected,
+        metadata: actual,
+        delta: actual - expected,
+      });
+    }
+  }
+
+  return differences;
+}
+
+/**
+ * Run each fixture through both calculators and collect the differences
+ *
+ * @param state - State code for the report
+ * @param fixtures - Named inputs to compare
+ * @param handwritten - Hand-written calculator (reference)
+ * @param metadata - Metadata-driven calculator under test
+ */
+export function runStateParity(
+  state: string,
+  fixtures: ParityFixture[],
+  handwritten: StateCalculator,
+  metadata: StateCalculator
+): ParityReport {
+  const cases = fixtures.map((fixture) => ({
+    name: fixture.name,
+    differences: compareStateResults(handwritten(fixture.input), metadata(fixture.input)),
+  }));
+
+  return {
+    state,
+    cases,
+    mismatches: cases.filter((c) => c.differences.length > 0).length,
+  };
+}
+
+/**
+ * Format a parity report for logs and test failure messages
+ */
+export function formatParityReport(report: ParityReport): string {
+  const lines = [
+    `${report.state} metadata parity: ${report.cases.length - report.mismatches}/${report.cases.length} fixtures match`,
+  ];
+
+  for (const c of report.cases) {
+    if (c.differences.length === 0) {
+      continue;
+    }
+    lines.push(`  ✗ ${c.name}`);
+    for (const d of c.differences) {
+      lines.push(
+        `      ${d.field}: hand-written $${centsToDollars(d.handwritten).toFixed(2)}, metadata $${centsToDollars(d.metadata).toFixed(2)} (${d.delta > 0 ? '+' : ''}${d.delta}¢)`
+      );
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -12,6 +12,7 @@ import type {
   ConfigValidationResult,
   ConfigValidationError,
   ConfigValidationWarning,
+  PhaseOutConfig,
 } from './schema';
 import type { FilingStatus } from '../../types';
 import { dollarsToCents } from '../../util/money';
@@ -607,9 +608,11 @@ function convertAmountsToCents(config: any): StateTaxConfig {
     for (const status of Object.keys(converted.brackets.byFilingStatus)) {
       for (const bracket of converted.brackets.byFilingStatus[status]) {
         bracket.min = dollarsToCents(bracket.min);
-        if (bracket.max !== Infinity && typeof bracket.max === 'number') {
-          bracket.max = dollarsToCents(bracket.max);
-        }
+        // The JSON clone turns an open-ended (.inf) maximum into null
+        bracket.max =
+          typeof bracket.max === 'number' && Number.isFinite(bracket.max)
+            ? dollarsToCents(bracket.max)
+            : Infinity;
       }
     }
   }
@@ -625,6 +628,9 @@ function convertAmountsToCents(config: any): StateTaxConfig {
           if (mod.limit) {
             mod.limit = dollarsToCents(mod.limit);
           }
+          if (mod.phaseOut) {
+            convertPhaseOutToCents(mod.phaseOut);
+          }
         }
       }
     }
@@ -637,11 +643,41 @@ function convertAmountsToCents(config: any): StateTaxConfig {
         credit.maxCredit = dollarsToCents(credit.maxCredit);
       }
 
+      if (credit.phaseOut) {
+        convertPhaseOutToCents(credit.phaseOut);
+      }
+
+      if (credit.incomeLimit) {
+        for (const status of Object.keys(credit.incomeLimit)) {
+          credit.incomeLimit[status] = dollarsToCents(credit.incomeLimit[status]);
+        }
+      }
+
       if (credit.calculation) {
         if (credit.calculation.amount) {
           credit.calculation.amount = dollarsToCents(credit.calculation.amount);
         }
 
+        if (credit.calculation.amountByFilingStatus) {
+          for (const status of Object.keys(credit.calculation.amountByFilingStatus)) {
+            credit.calculation.amountByFilingStatus[status] = dollarsToCents(
+              credit.calculation.amountByFilingStatus[status]
+            );
+          }
+        }
+
+        if (credit.calculation.minimumIncome) {
+          credit.calculation.minimumIncome = dollarsToCents(credit.calculation.minimumIncome);
+        }
+
+        if (credit.calculation.schedules) {
+          for (const schedule of credit.calculation.schedules) {
+            schedule.maxCredit = dollarsToCents(schedule.maxCredit);
+            schedule.phaseOutStart = dollarsToCents(schedule.phaseOutStart);
+            schedule.maxIncome = dollarsToCents(schedule.maxIncome);
+          }
+        }
+
         if (credit.calculation.tiers) {
           for (const tier of credit.calculation.tiers) {
             tier.threshold = dollarsToCents(tier.threshold);
@@ -662,9 +698,36 @@ function convertAmountsToCents(config: any): StateTaxConfig {
     }
   }
 
+  // Convert special tax thresholds and flat amounts
+  if (Array.isArray(converted.specialTaxes)) {
+    for (const specialTax of converted.specialTaxes) {
+      if (specialTax.amount) {
+        specialTax.amount = dollarsToCents(specialTax.amount);
+      }
+      if (specialTax.threshold) {
+        for (const status of Object.keys(specialTax.threshold)) {
+          specialTax.threshold[status] = dollarsToCents(specialTax.threshold[status]);
+        }
+      }
+    }
+  }
+
   return converted as StateTaxConfig;
 }
 
+/**
+ * Convert phase-out thresholds (by filing status) to cents in place
+ */
+function convertPhaseOutToCents(phaseOut: PhaseOutConfig): void {
+  for (const thresholds of [phaseOut.startThreshold, phaseOut.endThreshold]) {
+    if (thresholds) {
+      for (const status of Object.keys(thresholds) as FilingStatus[]) {
+        thresholds[status] = dollarsToCents(thresholds[status]);
+      }
+    }
+  }
+}
+
 /**
  * Export configuration validation result as human-readable report
  */
@@ -336,6 +336,9 @@ export interface CreditConfig {
   /** AGI phase-out configuration */
   phaseOut?: PhaseOutConfig;
 
+  /** No credit when state AGI exceeds this amount (by filing status, in dollars) */
+  incomeLimit?: Record<FilingStatus, number>;
+
   /** Maximum credit amount */
   maxCredit?: number;
 
@@ -354,11 +357,27 @@ export interface CreditCalculation {
     | 'tiered'              // Tiered based on AGI/income
     | 'federalPercentage'   // Percentage of federal credit
     | 'table'               // Lookup table
+    | 'phaseInOut'          // EITC-style phase-in and phase-out by qualifying children
     | 'formula';            // Custom formula
 
   /** Fixed amount (for 'fixed' method) */
   amount?: number;
 
+  /** Fixed amount by filing status (for 'fixed' method, instead of amount) */
+  amountByFilingStatus?: Record<FilingStatus, number>;
+
+  /** Multiply the fixed amount by a count (for 'fixed' method) */
+  per?: 'dependent' | 'youngChild';
+
+  /** Maximum count for 'per' (e.g., up to 3 children) */
+  maxCount?: number;
+
+  /** Schedules by number of qualifying children (for 'phaseInOut' method) */
+  schedules?: CreditPhaseSchedule[];
+
+  /** Minimum base amount to qualify (for 'phaseInOut' method) */
+  minimumIncome?: number;
+
   /** Percentage rate (for 'percentage' method) */
   rate?: number;
 
@@ -378,6 +397,33 @@ export interface CreditCalculation {
   federalPercentage?: number;
 }
 
+/**
+ * Phase-in/phase-out schedule for one number of qualifying children
+ *
+ * The credit is the phase-in rate times the base amount, up to the maximum,
+ * reduced by the phase-out rate times state AGI over the phase-out start.
+ * No credit is allowed when the base amount or state AGI exceeds maxIncome.
+ */
+export interface CreditPhaseSchedule {
+  /** Number of qualifying children (the last schedule also applies to more) */
+  qualifyingChildren: number;
+
+  /** Maximum credit (in dollars) */
+  maxCredit: number;
+
+  /** Phase-in rate (decimal) */
+  phaseInRate: number;
+
+  /** State AGI where the phase-out begins (in dollars) */
+  phaseOutStart: number;
+
+  /** Phase-out rate (decimal) */
+  phaseOutRate: number;
+
+  /** Income limit (in dollars) */
+  maxIncome: number;
+}
+
 /**
  * Credit tier for tiered calculations
  */
@@ -431,6 +477,7 @@ export interface EligibilityRule {
     | 'filingStatus'
     | 'dependents'
     | 'federalCreditClaimed'
+    | 'creditClaimed' // Another state credit (by id) computed earlier is greater than zero
     | 'residency'
     | 'custom';
 
@@ -0,0 +1,158 @@
+/**
+ * Credit for Taxes Paid to Other States
+ *
+ * Orchestrates multi-state returns: nonresident and part-year returns are
+ * computed first, then their liabilities are credited against the resident
+ * state's tax on the same income (e.g. CA Schedule S, NY IT-112-R).
+ *
+ * The credit is the lesser of:
+ * - the other state's tax, or
+ * - resident-state tax × (other-state-source income / resident-state AGI)
+ *
+ * Reverse-credit states: when the resident state gives no credit for a
+ * state's tax, that state allows the credit on its nonresident return
+ * instead (e.g. AZ, OR and VA for California residents).
+ *
+ * Only full-year residents claim the credit; income sourcing does not say
+ * which part of a part-year resident's out-of-state income was earned while
+ * a resident.
+ */
+
+import type { FederalDiagnostics2025 } from '../types';
+import type { MultiStateResult, MultiStateTaxInput, StateAllocation } from '../types/stateTax';
+import { addWarning, createDiagnostics } from '../diagnostics';
+import { addCents, formatCents, max0, multiplyCents } from '../util/money';
+import { computeMultiStateReturns } from './allocation';
+
+/**
+ * Resident state → nonresident states that allow the credit instead of it
+ * Source: FTB Schedule S instructions (AZ, OR, VA reverse credit)
+ */
+export const REVERSE_CREDIT_STATES_2025: Record<string, string[]> = {
+  CA: ['AZ', 'OR', 'VA'],
+};
+
+/**
+ * Compute returns for every state with credits for taxes paid to other states
+ *
+ * @param input - Shared state inputs with residency periods and income sourcing
+ * @returns Allocated results with other-state credits applied, plus diagnostics
+ */
+export function computeStateReturnsWithCredits(input: MultiStateTaxInput): MultiStateResult {
+  const allocated = computeMultiStateReturns(input);
+  const diagnostics = allocated.diagnostics ?? createDiagnostics();
+
+  // Nonresident and part-year returns first; resident returns take their credits
+  const order = { nonresident: 0, partYear: 1, resident: 2 };
+  const states = [...allocated.states].sort(
+    (a, b) => order[a.residencyStatus] - order[b.residencyStatus]
+  );
+
+  for (const resident of states.filter((s) => s.residencyStatus === 'resident')) {
+    const residentTax = stateIncomeTax(resident);
+    const residentAGI = resident.result.stateAGI;
+    if (residentTax <= 0 || residentAGI <= 0) {
+      continue;
+    }
+
+    const reverseStates = REVERSE_CREDIT_STATES_2025[resident.state] ?? [];
+    let residentCredit = 0;
+
+    for (const other of states) {
+      if (other.residencyStatus === 'resident') {
+        continue;
+      }
+      const otherTax = stateIncomeTax(other);
+      if (otherTax <= 0 || other.stateSourceIncome <= 0) {
+        continue;
+      }
+
+      // Resident-state tax on the income taxed by the other state
+      const limit = multiplyCents(residentTax, Math.min(other.stateSourceIncome / residentAGI, 1));
+
+      if (reverseStates.includes(other.state)) {
+        const credit = Math.min(otherTax, limit);
+        applyCredit(other, credit);
+        addWarning(
+          diagnostics,
+          'CREDIT-W-008',
+          { state: other.state, residentState: resident.state, amount: formatCents(credit) },
+          `stateCredits.${other.state}.other_state_tax`,
+          'credits'
+        );
+        continue;
+      }
+
+      const credit = Math.min(otherTax, limit, residentTax - residentCredit);
+      if (credit <= 0) {
+        continue;
+      }
+      residentCredit = addCents(residentCredit, credit);
+      addCreditDiagnostic(diagnostics, resident.state, other.state, credit, otherTax, limit);
+    }
+
+    applyCredit(resident, residentCredit);
+  }
+
+  return {
+    states,
+    totalStateLiability: addCents(...states.map((s) => s.result.totalStateLiability)),
+    totalRefundOrOwe: addCents(...states.map((s) => s.result.stateRefundOrOwe)),
+    diagnostics,
+  };
+}
+
+/**
+ * State income tax after state credits, excluding local tax
+ */
+function stateIncomeTax(allocation: StateAllocation): number {
+  return max0(allocation.result.totalStateLiability - allocation.result.localTax);
+}
+
+/**
+ * Apply a nonrefundable other-state credit to an allocated result
+ */
+function applyCredit(allocation: StateAllocation, credit: number): void {
+  if (credit <= 0) {
+    return;
+  }
+
+  const { result } = allocation;
+  allocation.result = {
+    ...result,
+    stateCredits: {
+      ...result.stateCredits,
+      other_state_tax: addCents(result.stateCredits.other_state_tax ?? 0, credit),
+      nonRefundableCredits: addCents(result.stateCredits.nonRefundableCredits, credit),
+    },
+    totalStateLiability: result.totalStateLiability - credit,
+    stateRefundOrOwe: result.stateRefundOrOwe + credit,
+    calculationNotes: [
+      ...(result.calculationNotes ?? []),
+      `Credit for taxes paid to other states: ${formatCents(credit)}`,
+    ],
+  };
+}
+
+function addCreditDiagnostic(
+  diagnostics: FederalDiagnostics2025,
+  state: string,
+  otherState: string,
+  credit: number,
+  otherTax: number,
+  limit: number
+): void {
+  addWarning(
+    diagnostics,
+    'CREDIT-W-007',
+    {
+      state,
+      otherState,
+      amount: formatCents(credit),
+      otherTax: formatCents(otherTax),
+      limit: formatCents(limit),
+    },
+    `stateCredits.${state}.other_state_tax`,
+    'credits'
+  );
+}
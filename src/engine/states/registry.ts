@@ -55,6 +55,7 @@ import { computeUT2025 } from './UT/2025/computeUT2025';
 import { computeVT2025 } from './VT/2025/computeVT2025';
 import { computeWV2025 } from './WV/2025/computeWV2025';
 import { computeDC2025 } from './DC/2025/computeDC2025';
+import { loadStateTaxConfig, createMetadataCalculator } from './metadata/loader';
 
 /**
  * State configurations
@@ -1104,14 +1105,28 @@ function createNoTaxCalculator(stateCode: string): StateCalculator {
   };
 }
 
+/**
+ * How a state is resolved to a calculator:
+ * - 'handwritten': the TypeScript calculator in STATE_REGISTRY
+ * - 'metadata': the YAML configuration when the state has one, otherwise
+ *   the hand-written calculator
+ */
+export type StateCalculatorMode = 'handwritten' | 'metadata';
+
 /**
  * Get state calculator by state code
  */
-export function getStateCalculator(stateCode: string) {
+export function getStateCalculator(stateCode: string, mode: StateCalculatorMode = 'handwritten') {
   const entry = STATE_REGISTRY[stateCode?.toUpperCase()];
   if (!entry) {
     return null;
   }
+  if (mode === 'metadata') {
+    const metadataConfig = loadStateTaxConfig(stateCode);
+    if (metadataConfig) {
+      return { ...entry, calculator: createMetadataCalculator(metadataConfig) };
+    }
+  }
   return entry;
 }
 
@@ -2,6 +2,7 @@ import { FilingStatus, FederalInput2025, AMTCalculationDetails } from '../types'
 import {
   AMT_EXEMPTION_2025,
   AMT_EXEMPTION_PHASEOUT_2025,
+  AMT_EXEMPTION_PHASEOUT_RATE_2025,
   AMT_RATE_THRESHOLD_2025,
   AMT_RATES,
 } from '../rules/2025/federal/amt';
@@ -57,24 +58,52 @@ export interface AMTInput {
   };
 }
 
+/**
+ * Year-specific AMT amounts for one filing status (all amounts in cents)
+ */
+export interface AMTParameters {
+  exemption: number;
+  exemptionPhaseout: number;
+  /** Exemption reduction per dollar of AMTI above the phase-out threshold */
+  exemptionPhaseoutRate: number;
+  /** Taxable excess above which the 28% rate applies */
+  rateThreshold: number;
+}
+
+/**
+ * 2025 AMT amounts for a filing status
+ */
+export function getAMTParameters2025(filingStatus: FilingStatus): AMTParameters {
+  return {
+    exemption: AMT_EXEMPTION_2025[filingStatus],
+    exemptionPhaseout: AMT_EXEMPTION_PHASEOUT_2025[filingStatus],
+    exemptionPhaseoutRate: AMT_EXEMPTION_PHASEOUT_RATE_2025,
+    rateThreshold: AMT_RATE_THRESHOLD_2025[filingStatus],
+  };
+}
+
 /**
  * Compute Alternative Minimum Tax (Form 6251)
  *
  * @param input AMT calculation input
+ * @param parameters Exemption and rate amounts (defaults to 2025)
  * @returns Complete AMT calculation details
  */
-export function computeAMT2025(input: AMTInput): AMTCalculationDetails {
+export function computeAMT2025(
+  input: AMTInput,
+  parameters: AMTParameters = getAMTParameters2025(input.filingStatus)
+): AMTCalculationDetails {
   // Step 1: Calculate Alternative Minimum Taxable Income (AMTI)
   const amtiResult = calculateAMTI(input);
 
   // Step 2: Calculate AMT exemption with phase-out
-  const exemptionResult = calculateAMTExemption(input.filingStatus, amtiResult.amti);
+  const exemptionResult = calculateAMTExemption(parameters, amtiResult.amti);
 
   // Step 3: Calculate AMT taxable income (AMTI minus exemption)
   const amtTaxableIncome = max0(amtiResult.amti - exemptionResult.exemptionAllowed);
 
   // Step 4: Calculate Tentative Minimum Tax (TMT)
-  const tentativeMinimumTax = calculateTentativeMinimumTax(input.filingStatus, amtTaxableIncome);
+  const tentativeMinimumTax = calculateTentativeMinimumTax(parameters, amtTaxableIncome);
 
   // Step 5: Calculate AMT before credits
   // AMT is the excess of TMT over regular tax
@@ -206,22 +235,22 @@ function calculateAMTI(input: AMTInput): {
  * Form 6251, Lines 29-31
  */
 function calculateAMTExemption(
-  filingStatus: FilingStatus,
+  parameters: AMTParameters,
   amti: number
 ): {
   exemption: number;
   phaseout: number;
   exemptionAllowed: number;
 } {
-  const exemption = AMT_EXEMPTION_2025[filingStatus];
-  const phaseoutThreshold = AMT_EXEMPTION_PHASEOUT_2025[filingStatus];
+  const exemption = parameters.exemption;
+  const phaseoutThreshold = parameters.exemptionPhaseout;
 
   // Calculate phase-out amount
-  // Exemption is reduced by 25% of the amount by which AMTI exceeds threshold
+  // Exemption is reduced by 25% (50% from 2026) of the amount by which AMTI exceeds threshold
   let phaseout = 0;
   if (amti > phaseoutThreshold) {
     const excessAMTI = amti - phaseoutThreshold;
-    phaseout = multiplyCents(excessAMTI, 0.25);
+    phaseout = multiplyCents(excessAMTI, parameters.exemptionPhaseoutRate);
   }
 
   // Exemption cannot be negative
@@ -238,15 +267,12 @@ function calculateAMTExemption(
  * - 26% on first portion up to threshold
  * - 28% on amount over threshold
  */
-function calculateTentativeMinimumTax(
-  filingStatus: FilingStatus,
-  amtTaxableIncome: number
-): number {
+function calculateTentativeMinimumTax(parameters: AMTParameters, amtTaxableIncome: number): number {
   if (amtTaxableIncome <= 0) {
     return 0;
   }
 
-  const threshold = AMT_RATE_THRESHOLD_2025[filingStatus];
+  const threshold = parameters.rateThreshold;
 
   if (amtTaxableIncome <= threshold) {
     // All income taxed at 26%
@@ -0,0 +1,338 @@
+/**
+ * Tax on a Child's Unearned Income (Form 8615 and Form 8814)
+ *
+ * A child under 18 at the end of the year (or 18, or a full-time student
+ * under 24, whose earned income was not more than half of their support)
+ * pays tax at the parent's rate on unearned income over twice the dependent
+ * standard deduction minimum ($2,700 for 2025). The parent may instead
+ * elect to report a child's interest and dividends on the parent's return.
+ *
+ * Key Rules:
+ * - Form 8615: net unearned income (Line 5) is taxed at the rate the parent
+ *   would pay on it (Lines 6-13), shared with the parent's other children;
+ *   the rest of the child's taxable income is taxed at the child's rates.
+ *   The child pays the larger of that and the tax at the child's own rates
+ * - Form 8814: allowed when the child's only income is interest and
+ *   dividends (including capital gain distributions) under ten times the
+ *   minimum ($13,500 for 2025) and no estimated tax or withholding was paid.
+ *   Income over $2,700 is added to the parent's income, keeping its
+ *   qualified dividend and capital gain character; the parent also pays 10%
+ *   of the income between $1,350 and $2,700
+ *
+ * Sources:
+ * - IRC §1(g), §63(c)(5)
+ * - Form 8615 and Form 8814 Instructions, Publication 929
+ *
+ * @module tax/kiddieTax
+ */
+
+import type { FilingStatus, TaxBracket } from '../types';
+import { DEPENDENT_STANDARD_DEDUCTION_2025 } from '../rules/2025/federal/deductions';
+import { FEDERAL_BRACKETS_2025 } from '../rules/2025/federal/federalBrackets';
+import { LTCG_2025, type LTCGThresholds } from '../rules/2025/federal/ltcgThresholds';
+import { computePreferentialRatesTax2025 } from './longTermCapitalGains';
+import { calculateRegularTax2025 } from './regularTax';
+import { addCents, max0, multiplyCents } from '../util/money';
+
+/** Form 8814 Line 14 rate on the child's income between the minimum and twice the minimum */
+const FORM_8814_CHILD_TAX_RATE = 0.1;
+
+/** Form 8814 is not allowed when the child's gross income is this multiple of the minimum or more */
+const FORM_8814_GROSS_INCOME_MULTIPLE = 10;
+
+/**
+ * Parent's information for the child's Form 8615
+ */
+export interface KiddieTaxInput {
+  parentFilingStatus: FilingStatus;
+  parentTaxableIncome: number; // Line 6: Parent's Form 1040 Line 15 (cents)
+
+  /** Qualified dividends and net capital gain included in the parent's taxable income (cents) */
+  parentQualifiedDividendsAndCapitalGains?: number;
+
+  /** Line 7: Net unearned income of the parent's other children subject to the kiddie tax (cents) */
+  otherChildrenNetUnearnedIncome?: number;
+
+  /** Itemized deductions directly connected with producing the child's unearned income (cents) */
+  directlyConnectedItemizedDeductions?: number;
+}
+
+/**
+ * Brackets and capital gain breakpoints for one filing status
+ */
+export interface TaxRateSchedule {
+  brackets: TaxBracket[];
+  ltcgThresholds: LTCGThresholds;
+}
+
+export interface KiddieTaxParameters {
+  dependentMinimum: number; // Dependent standard deduction minimum (cents)
+  childRates: TaxRateSchedule;
+  parentRates: TaxRateSchedule;
+}
+
+export interface Form8615Input {
+  childFilingStatus: FilingStatus;
+  unearnedIncome: number; // Line 1 (cents)
+  childTaxableIncome: number; // Line 4 (cents)
+  childQualifiedDividendsAndCapitalGains?: number; // Included in Line 4 (cents)
+  parent: KiddieTaxInput;
+}
+
+export interface Form8615Result {
+  unearnedIncome: number; // Line 1 (cents)
+  threshold: number; // Line 2 (cents)
+  netUnearnedIncome: number; // Line 3 (cents)
+  childTaxableIncome: number; // Line 4 (cents)
+  taxedAtParentRate: number; // Line 5 (cents)
+  parentTaxableIncome: number; // Line 6 (cents)
+  otherChildrenNetUnearnedIncome: number; // Line 7 (cents)
+  combinedTaxableIncome: number; // Line 8 (cents)
+  taxOnCombinedIncome: number; // Line 9 (cents)
+  parentTax: number; // Line 10 (cents)
+  tentativeTax: number; // Line 11 (cents)
+  childShareOfTentativeTax: number; // Line 13 (cents)
+  taxOnRemainingIncome: number; // Line 15 (cents)
+  taxWithParentRate: number; // Line 16 (cents)
+  taxAtChildRates: number; // Line 17 (cents)
+  tax: number; // Line 18: Form 1040 Line 16 (cents)
+  additionalTax: number; // Line 18 less Line 17 (cents)
+}
+
+/**
+ * A child whose interest and dividends the parent elects to report
+ */
+export interface Form8814Child {
+  name?: string;
+  ssn?: string;
+  taxableInterest?: number; // Line 1a (cents)
+  ordinaryDividends?: number; // Line 2a, including qualified dividends (cents)
+  qualifiedDividends?: number; // Line 2b (cents)
+  capitalGainDistributions?: number; // Line 3 (cents)
+}
+
+export interface Form8814ChildResult {
+  grossIncome: number; // Line 4 (cents)
+  eligible: boolean; // Line 4 under ten times the minimum
+  includedIncome: number; // Line 6 (cents)
+  qualifiedDividends: number; // Line 7: Form 1040 Line 3a (cents)
+  capitalGainDistributions: number; // Line 8: Schedule D Line 13 (cents)
+  otherIncome: number; // Line 10: Schedule 1 Line 8z (cents)
+  tax: number; // Line 15 (cents)
+}
+
+export interface Form8814Result {
+  children: Form8814ChildResult[];
+  grossIncomeLimit: number; // Children at or over this must file their own return (cents)
+  qualifiedDividends: number; // Added to the parent's qualified dividends (cents)
+  capitalGainDistributions: number; // Added to the parent's long-term capital gain (cents)
+  otherIncome: number; // Added to the parent's other income (cents)
+  totalIncluded: number; // Sum of Line 6 (cents)
+  totalTax: number; // Sum of Line 15, added to the parent's tax (cents)
+}
+
+/**
+ * Tax on taxable income at one schedule, with qualified dividends and net
+ * capital gain at preferential rates (never more than the regular tax)
+ */
+function taxAtRates(
+  taxableIncome: number,
+  preferentialIncome: number,
+  filingStatus: FilingStatus,
+  rates: TaxRateSchedule
+): number {
+  const regularTax = calculateRegularTax2025(taxableIncome, filingStatus, rates.brackets);
+  if (preferentialIncome <= 0 || taxableIncome <= 0) {
+    return regularTax;
+  }
+  const preferential = computePreferentialRatesTax2025(
+    { filingStatus, taxableIncome, qualifiedDividendsAndLTCG: preferentialIncome },
+    rates.ltcgThresholds
+  );
+  return Math.min(
+    calculateRegularTax2025(preferential.ordinaryTaxableIncome, filingStatus, rates.brackets) +
+      preferential.preferentialTax,
+    regularTax
+  );
+}
+
+function defaultParameters2025(input: Form8615Input): KiddieTaxParameters {
+  const rates = (filingStatus: FilingStatus): TaxRateSchedule => ({
+    brackets: FEDERAL_BRACKETS_2025[filingStatus],
+    ltcgThresholds: LTCG_2025[filingStatus],
+  });
+  return {
+    dependentMinimum: DEPENDENT_STANDARD_DEDUCTION_2025.minimum,
+    childRates: rates(input.childFilingStatus),
+    parentRates: rates(input.parent.parentFilingStatus),
+  };
+}
+
+/**
+ * Compute the child's tax with net unearned income at the parent's rate
+ *
+ * Qualified dividends and capital gains are spread across Lines 5 and 14 in
+ * proportion to unearned income.
+ *
+ * @param input Child's income and the parent's return information
+ * @param params Dependent minimum and rate schedules for the tax year
+ * @returns Form 8615 lines; `tax` replaces the child's regular tax
+ */
+export function computeKiddieTax2025(
+  input: Form8615Input,
+  params: KiddieTaxParameters = defaultParameters2025(input)
+): Form8615Result {
+  const { parent } = input;
+  const childPreferential = max0(input.childQualifiedDividendsAndCapitalGains ?? 0);
+  const parentPreferential = max0(parent.parentQualifiedDividendsAndCapitalGains ?? 0);
+
+  // Lines 1-5
+  const unearnedIncome = max0(input.unearnedIncome);
+  const threshold = Math.max(
+    params.dependentMinimum * 2,
+    params.dependentMinimum + (parent.directlyConnectedItemizedDeductions ?? 0)
+  );
+  const netUnearnedIncome = max0(unearnedIncome - threshold);
+  const childTaxableIncome = max0(input.childTaxableIncome);
+  const taxedAtParentRate = Math.min(netUnearnedIncome, childTaxableIncome);
+  const preferentialAtParentRate =
+    unearnedIncome > 0
+      ? Math.min(
+          childPreferential,
+          Math.round((taxedAtParentRate * childPreferential) / unearnedIncome)
+        )
+      : 0;
+
+  // Lines 6-13
+  const parentTaxableIncome = max0(parent.parentTaxableIncome);
+  const otherChildrenNetUnearnedIncome = max0(parent.otherChildrenNetUnearnedIncome ?? 0);
+  const combinedTaxableIncome = addCents(
+    parentTaxableIncome,
+    taxedAtParentRate,
+    otherChildrenNetUnearnedIncome
+  );
+  const taxOnCombinedIncome = taxAtRates(
+    combinedTaxableIncome,
+    parentPreferential + preferentialAtParentRate,
+    parent.parentFilingStatus,
+    params.parentRates
+  );
+  const parentTax = taxAtRates(
+    parentTaxableIncome,
+    parentPreferential,
+    parent.parentFilingStatus,
+    params.parentRates
+  );
+  const tentativeTax = max0(taxOnCombinedIncome - parentTax);
+  const childShareOfTentativeTax =
+    otherChildrenNetUnearnedIncome > 0 && taxedAtParentRate > 0
+      ? Math.round(
+          (tentativeTax * taxedAtParentRate) / (taxedAtParentRate + otherChildrenNetUnearnedIncome)
+        )
+      : tentativeTax;
+
+  // Lines 14-18
+  const taxOnRemainingIncome = taxAtRates(
+    childTaxableIncome - taxedAtParentRate,
+    childPreferential - preferentialAtParentRate,
+    input.childFilingStatus,
+    params.childRates
+  );
+  const taxWithParentRate = addCents(childShareOfTentativeTax, taxOnRemainingIncome);
+  const taxAtChildRates = taxAtRates(
+    childTaxableIncome,
+    childPreferential,
+    input.childFilingStatus,
+    params.childRates
+  );
+  const tax = Math.max(taxWithParentRate, taxAtChildRates);
+
+  return {
+    unearnedIncome,
+    threshold,
+    netUnearnedIncome,
+    childTaxableIncome,
+    taxedAtParentRate,
+    parentTaxableIncome,
+    otherChildrenNetUnearnedIncome,
+    combinedTaxableIncome,
+    taxOnCombinedIncome,
+    parentTax,
+    tentativeTax,
+    childShareOfTentativeTax,
+    taxOnRemainingIncome,
+    taxWithParentRate,
+    taxAtChildRates,
+    tax,
+    additionalTax: tax - taxAtChildRates,
+  };
+}
+
+/**
+ * Compute the parent's election to report children's interest and dividends
+ *
+ * Children at or over the gross income limit are returned with `eligible`
+ * false and contribute nothing; they must file their own return.
+ *
+ * @param children Each child's interest, dividends and capital gain distributions
+ * @param dependentMinimum Dependent standard deduction minimum for the tax year (cents)
+ * @returns Form 8814 lines per child and the totals carried to the parent's return
+ */
+export function computeForm8814Election2025(
+  children: Form8814Child[],
+  dependentMinimum: number = DEPENDENT_STANDARD_DEDUCTION_2025.minimum
+): Form8814Result {
+  const grossIncomeLimit = dependentMinimum * FORM_8814_GROSS_INCOME_MULTIPLE;
+  const results = children.map((child): Form8814ChildResult => {
+    const grossIncome = addCents(
+      child.taxableInterest,
+      child.ordinaryDividends,
+      child.capitalGainDistributions
+    );
+    const eligible = grossIncome < grossIncomeLimit;
+    if (!eligible) {
+      return {
+        grossIncome,
+        eligible,
+        includedIncome: 0,
+        qualifiedDividends: 0,
+        capitalGainDistributions: 0,
+        otherIncome: 0,
+        tax: 0,
+      };
+    }
+
+    // Lines 5-10: Income over twice the minimum keeps its character
+    const includedIncome = max0(grossIncome - dependentMinimum * 2);
+    const share = (amount: number | undefined) =>
+      includedIncome > 0 ? Math.round(((amount ?? 0) * includedIncome) / grossIncome) : 0;
+    const qualifiedDividends = share(child.qualifiedDividends);
+    const capitalGainDistributions = share(child.capitalGainDistributions);
+
+    // Lines 12-15
+    const tax = multiplyCents(
+      Math.min(max0(grossIncome - dependentMinimum), dependentMinimum),
+      FORM_8814_CHILD_TAX_RATE
+    );
+
+    return {
+      grossIncome,
+      eligible,
+      includedIncome,
+      qualifiedDividends,
+      capitalGainDistributions,
+      otherIncome: includedIncome - qualifiedDividends - capitalGainDistributions,
+      tax,
+    };
+  });
+
+  return {
+    children: results,
+    grossIncomeLimit,
+    qualifiedDividends: addCents(...results.map((child) => child.qualifiedDividends)),
+    capitalGainDistributions: addCents(...results.map((child) => child.capitalGainDistributions)),
+    otherIncome: addCents(...results.map((child) => child.otherIncome)),
+    totalIncluded: addCents(...results.map((child) => child.includedIncome)),
+    totalTax: addCents(...results.map((child) => child.tax)),
+  };
+}
@@ -1,54 +1,103 @@
 import type { FilingStatus } from '../types';
-import { LTCG_2025 } from '../rules/2025/federal/ltcgThresholds';
+import { LTCG_2025, type LTCGThresholds } from '../rules/2025/federal/ltcgThresholds';
 
 export interface LTCGInput {
   filingStatus: FilingStatus;
-  taxableIncome: number;      // total taxable income (all income types) – cents
+  taxableIncome: number; // total taxable income (all income types) – cents
   qualifiedDividendsAndLTCG: number; // qualified dividends + net LTCG portion – cents
+  unrecaptured1250Gain?: number; // Schedule D Line 19, part of the LTCG above – cents
+  collectiblesGain?: number; // Schedule D Line 18 (28% rate gain), part of the LTCG above – cents
 }
 
 export interface LTCGResult {
-  at0Percent: number;         // amount taxed at 0% - cents
-  at15Percent: number;        // amount taxed at 15% - cents  
-  at20Percent: number;        // amount taxed at 20% - cents
-  preferentialTax: number;    // total tax on QD/LTCG - cents
+  at0Percent: number; // amount taxed at 0% - cents
+  at15Percent: number; // amount taxed at 15% - cents
+  at20Percent: number; // amount taxed at 20% - cents
+  at25Percent: number; // unrecaptured §1250 gain taxed at 25% - cents
+  at28Percent: number; // collectibles gain taxed at 28% - cents
+  ordinaryTaxableIncome: number; // amount taxed at regular bracket rates - cents
+  preferentialTax: number; // total tax on QD/LTCG - cents
 }
 
 /**
  * Compute preferential tax rates for qualified dividends and long-term capital gains
  * Implements IRS worksheet approach using 2025 thresholds (0%/15%/20% rates)
  * Source: Rev. Proc. 2024-40 §2.03
+ *
+ * Unrecaptured §1250 gain and collectibles gain follow the Schedule D Tax
+ * Worksheet: they are taxed at regular rates where those are lower, and at
+ * no more than 25% and 28% above that. The caller taxes
+ * `ordinaryTaxableIncome` at regular rates and adds `preferentialTax`.
+ *
+ * Pass `thresholds` to use another year's breakpoints.
  */
-export function computePreferentialRatesTax2025(input: LTCGInput): LTCGResult {
-  const { filingStatus, taxableIncome, qualifiedDividendsAndLTCG } = input;
-  const thresholds = LTCG_2025[filingStatus];
+export function computePreferentialRatesTax2025(
+  input: LTCGInput,
+  thresholds: LTCGThresholds = LTCG_2025[input.filingStatus]
+): LTCGResult {
+  const { taxableIncome, qualifiedDividendsAndLTCG } = input;
 
   // Edge case: QD/LTCG cannot exceed total taxable income
   const effectiveQDLTCG = Math.min(qualifiedDividendsAndLTCG, taxableIncome);
 
   // Calculate ordinary taxable income (non-preferential portion)
-  const ordinaryTaxableIncome = Math.max(0, taxableIncome - effectiveQDLTCG);
+  const ordinaryIncome = Math.max(0, taxableIncome - effectiveQDLTCG);
+
+  // 25% and 28% gain cannot exceed the preferential income they are part of
+  const collectiblesGain = Math.min(Math.max(0, input.collectiblesGain ?? 0), effectiveQDLTCG);
+  const unrecaptured1250Gain = Math.min(
+    Math.max(0, input.unrecaptured1250Gain ?? 0),
+    effectiveQDLTCG - collectiblesGain
+  );
+
+  // Adjusted net capital gain: the part eligible for 0%/15%/20%
+  const adjustedNetCapitalGain = effectiveQDLTCG - unrecaptured1250Gain - collectiblesGain;
+
+  // 25%/28% gain that fits under the 0% threshold is taxed at regular rates
+  const ordinaryTaxableIncome = Math.max(
+    ordinaryIncome,
+    Math.min(thresholds.zeroRateMax, taxableIncome - adjustedNetCapitalGain)
+  );
 
   // Step 1: Determine portion taxed at 0%
   // 0% rate applies up to the threshold, reduced by ordinary income
-  const zeroRateCapacity = Math.max(0, thresholds.zeroRateMax - ordinaryTaxableIncome);
-  const at0Percent = Math.max(0, Math.min(effectiveQDLTCG, zeroRateCapacity));
+  const zeroRateCapacity = Math.max(
+    0,
+    Math.min(taxableIncome, thresholds.zeroRateMax) - ordinaryTaxableIncome
+  );
+  const at0Percent = Math.max(0, Math.min(adjustedNetCapitalGain, zeroRateCapacity));
 
   // Step 2: Determine portion taxed at 15%
   // 15% rate applies from 0% threshold up to 15% threshold, reduced by max(ordinaryIncome, zeroRateMax)
-  const fifteenRateCapacity = Math.max(0, thresholds.fifteenRateMax - Math.max(ordinaryTaxableIncome, thresholds.zeroRateMax));
-  const at15Percent = Math.max(0, Math.min(effectiveQDLTCG - at0Percent, fifteenRateCapacity));
+  const fifteenRateCapacity = Math.max(
+    0,
+    thresholds.fifteenRateMax - Math.max(ordinaryTaxableIncome + at0Percent, thresholds.zeroRateMax)
+  );
+  const at15Percent = Math.max(
+    0,
+    Math.min(adjustedNetCapitalGain - at0Percent, fifteenRateCapacity)
+  );
 
   // Step 3: Remainder is taxed at 20%
-  const at20Percent = Math.max(0, effectiveQDLTCG - at0Percent - at15Percent);
+  const at20Percent = Math.max(0, adjustedNetCapitalGain - at0Percent - at15Percent);
+
+  // Step 4: 25% and 28% gain above the regular-rate portion
+  const taxedAtRegularRates = ordinaryTaxableIncome - ordinaryIncome;
+  const at25Percent = Math.max(0, unrecaptured1250Gain - taxedAtRegularRates);
+  const at28Percent = unrecaptured1250Gain + collectiblesGain - taxedAtRegularRates - at25Percent;
 
   // Calculate total preferential tax
-  const preferentialTax = Math.round(at15Percent * 0.15 + at20Percent * 0.20);
+  const preferentialTax = Math.round(
+    at15Percent * 0.15 + at20Percent * 0.2 + at25Percent * 0.25 + at28Percent * 0.28
+  );
 
   return {
     at0Percent,
     at15Percent,
     at20Percent,
-    preferentialTax
+    at25Percent,
+    at28Percent,
+    ordinaryTaxableIncome,
+    preferentialTax,
   };
-}
\ No newline at end of file
+}
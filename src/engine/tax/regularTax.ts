@@ -1,24 +1,30 @@
-import type { FilingStatus } from '../types';
+import type { FilingStatus, TaxBracket } from '../types';
 import { FEDERAL_BRACKETS_2025 } from '../rules/2025/federal/federalBrackets';
 
 /**
  * Calculate regular income tax using 2025 federal tax brackets
  * Source: Rev. Proc. 2024-40
+ *
+ * Pass `brackets` to compute another year's tax (see getTaxYearConfig).
  */
-export function calculateRegularTax2025(taxableIncome: number, filingStatus: FilingStatus): number {
+export function calculateRegularTax2025(
+  taxableIncome: number,
+  filingStatus: FilingStatus,
+  brackets: TaxBracket[] = FEDERAL_BRACKETS_2025[filingStatus]
+): number {
   if (taxableIncome <= 0) return 0;
 
-  const brackets = FEDERAL_BRACKETS_2025[filingStatus];
   let tax = 0;
   let remainingIncome = taxableIncome;
 
   for (const bracket of brackets) {
     if (remainingIncome <= 0) break;
 
-    const bracketSize = bracket.max === Infinity 
-      ? remainingIncome 
-      : Math.min(remainingIncome, bracket.max - bracket.min);
-    
+    const bracketSize =
+      bracket.max === Infinity
+        ? remainingIncome
+        : Math.min(remainingIncome, bracket.max - bracket.min);
+
     if (bracketSize > 0 && taxableIncome > bracket.min) {
       const taxableInThisBracket = Math.min(bracketSize, taxableIncome - bracket.min);
       tax += Math.round(taxableInThisBracket * bracket.rate);
@@ -31,12 +37,16 @@ export function calculateRegularTax2025(taxableIncome: number, filingStatus: Fil
 
 /**
  * Find the marginal tax rate for given income and filing status
+ *
+ * Pass `brackets` to use another year's brackets (see getTaxYearConfig).
  */
-export function getMarginalRate2025(taxableIncome: number, filingStatus: FilingStatus): number {
+export function getMarginalRate2025(
+  taxableIncome: number,
+  filingStatus: FilingStatus,
+  brackets: TaxBracket[] = FEDERAL_BRACKETS_2025[filingStatus]
+): number {
   if (taxableIncome <= 0) return 0;
 
-  const brackets = FEDERAL_BRACKETS_2025[filingStatus];
-  
   for (const bracket of brackets) {
     if (taxableIncome > bracket.min && (bracket.max === Infinity || taxableIncome <= bracket.max)) {
       return bracket.rate;
@@ -44,4 +54,4 @@ export function getMarginalRate2025(taxableIncome: number, filingStatus: FilingS
   }
 
   return 0;
-}
\ No newline at end of file
+}
@@ -0,0 +1,165 @@
+/**
+ * Household Employment Taxes (Schedule H)
+ *
+ * Computes the Social Security, Medicare and federal unemployment (FUTA)
+ * taxes owed by a household employer (nannies, caregivers, housekeepers),
+ * along with income tax withheld from the employees, all of which are paid
+ * with the employer's Form 1040 through Schedule 2 Line 9.
+ *
+ * Key Rules (2025):
+ * - Social Security (12.4%) and Medicare (2.9%) apply to all cash wages of
+ *   an employee paid $2,800 or more; wages of a spouse, a child under 21, a
+ *   parent or an employee under 18 are exempt
+ * - Additional Medicare Tax is withheld on wages over $200,000 per employee
+ * - FUTA applies to the first $7,000 per employee once total cash wages
+ *   reach $1,000 in any calendar quarter of this or the prior year; the 6.0%
+ *   rate is offset by up to 5.4% for state unemployment contributions, less
+ *   the credit reduction for the state
+ *
+ * Sources:
+ * - IRC §3101, §3111, §3121(a)(7)(B), §3301, §3302, §3306
+ * - Schedule H Instructions, Publication 926
+ *
+ * @module tax/scheduleH
+ */
+
+import {
+  HOUSEHOLD_FICA_2025,
+  HOUSEHOLD_FUTA_2025,
+} from '../rules/2025/federal/householdEmployment';
+import {
+  EMPLOYEE_FICA_RATES,
+  SS_WAGE_BASE_2025,
+} from '../rules/2025/federal/medicareSocialSecurity';
+import { addCents, max0, multiplyCents } from '../util/money';
+
+/**
+ * A household employee paid during the year
+ */
+export interface HouseholdEmployee {
+  name?: string;
+  ssn?: string;
+  cashWages: number; // Cash wages paid in the year (cents)
+  federalWithheld?: number; // Federal income tax withheld (cents)
+
+  /** Spouse, child under 21 or parent: wages exempt from Social Security, Medicare and FUTA */
+  isExemptFamilyMember?: boolean;
+
+  /** Under 18 and household work is not their principal occupation: wages exempt from Social Security and Medicare */
+  isUnder18?: boolean;
+}
+
+export interface HouseholdEmploymentInput {
+  employees: HouseholdEmployee[];
+
+  /** Largest total cash wages paid to household employees in any calendar quarter of this or the prior year (cents); defaults to this year's total */
+  maxQuarterlyCashWages?: number;
+
+  /** Two-letter code of the state where unemployment contributions were paid, for the FUTA credit reduction */
+  unemploymentState?: string;
+
+  /** State unemployment contributions paid (cents); omit when paid in full by the due date */
+  stateUnemploymentContributions?: number;
+}
+
+export interface ScheduleHResult {
+  // Part I: Social Security, Medicare and income tax withheld
+  socialSecurityWages: number; // Line 1 (cents)
+  socialSecurityTax: number; // Line 2 (cents)
+  medicareWages: number; // Line 3 (cents)
+  medicareTax: number; // Line 4 (cents)
+  additionalMedicareTax: number; // Line 5 (cents)
+  federalWithheld: number; // Line 6 (cents)
+  ficaAndWithholding: number; // Line 8e (cents)
+
+  // Part II: Federal unemployment tax
+  futaApplies: boolean;
+  futaWages: number; // Line 10 / 22 (cents)
+  futaCredit: number; // Line 24, after the credit reduction (cents)
+  futaCreditReduction: number; // Credit reduction for the state (cents)
+  futaTax: number; // Line 16 / 26 (cents)
+
+  totalTax: number; // Line 26 / Schedule 2 Line 9 (cents)
+}
+
+/**
+ * Compute household employment taxes
+ *
+ * @param input Household employees and FUTA facts
+ * @param ssWageBase Social Security wage base for the tax year (cents)
+ * @returns Schedule H Parts I and II
+ */
+export function computeScheduleH2025(
+  input: HouseholdEmploymentInput,
+  ssWageBase: number = SS_WAGE_BASE_2025
+): ScheduleHResult {
+  const ficaWages = input.employees.map((employee) =>
+    !employee.isExemptFamilyMember &&
+    !employee.isUnder18 &&
+    employee.cashWages >= HOUSEHOLD_FICA_2025.cashWageThreshold
+      ? employee.cashWages
+      : 0
+  );
+
+  // Part I
+  const socialSecurityWages = addCents(...ficaWages.map((wages) => Math.min(wages, ssWageBase)));
+  const medicareWages = addCents(...ficaWages);
+  const additionalMedicareTax = addCents(
+    ...ficaWages.map((wages) =>
+      multiplyCents(
+        max0(wages - EMPLOYEE_FICA_RATES.additionalMedicareWithholdingThreshold),
+        EMPLOYEE_FICA_RATES.additionalMedicare
+      )
+    )
+  );
+  const socialSecurityTax = multiplyCents(
+    socialSecurityWages,
+    HOUSEHOLD_FICA_2025.socialSecurityRate
+  );
+  const medicareTax = multiplyCents(medicareWages, HOUSEHOLD_FICA_2025.medicareRate);
+  const federalWithheld = addCents(...input.employees.map((employee) => employee.federalWithheld));
+  const ficaAndWithholding = addCents(
+    socialSecurityTax,
+    medicareTax,
+    additionalMedicareTax,
+    federalWithheld
+  );
+
+  // Part II
+  const totalCashWages = addCents(...input.employees.map((employee) => employee.cashWages));
+  const futaApplies =
+    (input.maxQuarterlyCashWages ?? totalCashWages) >= HOUSEHOLD_FUTA_2025.quarterlyWageThreshold;
+  const futaWages = futaApplies
+    ? addCents(
+        ...input.employees
+          .filter((employee) => !employee.isExemptFamilyMember)
+          .map((employee) => Math.min(employee.cashWages, HOUSEHOLD_FUTA_2025.wageBasePerEmployee))
+      )
+    : 0;
+  const grossFuta = multiplyCents(futaWages, HOUSEHOLD_FUTA_2025.grossRate);
+  const stateCredit = Math.min(
+    multiplyCents(futaWages, HOUSEHOLD_FUTA_2025.maxStateCreditRate),
+    input.stateUnemploymentContributions ?? Infinity
+  );
+  const creditReductionRate =
+    HOUSEHOLD_FUTA_2025.creditReductionRates[input.unemploymentState?.toUpperCase() ?? ''] ?? 0;
+  const futaCreditReduction = multiplyCents(futaWages, creditReductionRate);
+  const futaCredit = max0(stateCredit - futaCreditReduction);
+  const futaTax = grossFuta - futaCredit;
+
+  return {
+    socialSecurityWages,
+    socialSecurityTax,
+    medicareWages,
+    medicareTax,
+    additionalMedicareTax,
+    federalWithheld,
+    ficaAndWithholding,
+    futaApplies,
+    futaWages,
+    futaCredit,
+    futaCreditReduction,
+    futaTax,
+    totalTax: addCents(ficaAndWithholding, futaTax),
+  };
+}
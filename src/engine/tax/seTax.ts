@@ -1,24 +1,25 @@
 import type { FilingStatus } from '../types';
-import { 
-  ADDL_MEDICARE_THRESHOLDS_2025, 
+import {
+  ADDL_MEDICARE_THRESHOLDS_2025,
   SS_WAGE_BASE_2025,
-  SE_TAX_RATES 
+  SE_TAX_RATES,
 } from '../rules/2025/federal/medicareSocialSecurity';
 
 export interface SETaxInput {
   filingStatus: FilingStatus;
-  seNetProfit: number;              // Schedule C/F net profit – cents (can be 0/negative)
-  w2SocialSecurityWages: number;    // Box 3 wages subject to OASDI – cents
-  w2MedicareWages: number;          // Box 5 Medicare wages – cents
+  seNetProfit: number; // Schedule C/F net profit – cents (can be 0/negative)
+  w2SocialSecurityWages: number; // Box 3 wages subject to OASDI – cents
+  w2MedicareWages: number; // Box 5 Medicare wages – cents
+  ssWageBase?: number; // Social Security wage base – cents (defaults to 2025)
 }
 
-export interface SETaxResult { 
-  oasdi: number;                    // 12.4% OASDI tax - cents
-  medicare: number;                 // 2.9% Medicare tax - cents
-  additionalMedicare: number;       // 0.9% Additional Medicare tax - cents
-  halfDeduction: number;            // Above-the-line deduction (1/2 of OASDI + Medicare) - cents
-  netEarningsFromSE: number;        // 92.35% of net profit - cents
-  totalSETax: number;              // Total SE tax liability - cents
+export interface SETaxResult {
+  oasdi: number; // 12.4% OASDI tax - cents
+  medicare: number; // 2.9% Medicare tax - cents
+  additionalMedicare: number; // 0.9% Additional Medicare tax - cents
+  halfDeduction: number; // Above-the-line deduction (1/2 of OASDI + Medicare) - cents
+  netEarningsFromSE: number; // 92.35% of net profit - cents
+  totalSETax: number; // Total SE tax liability - cents
 }
 
 /**
@@ -27,13 +28,19 @@ export interface SETaxResult {
  * Source: IRS Topic 751, Schedule SE instructions
  */
 export function computeSETax2025(input: SETaxInput): SETaxResult {
-  const { filingStatus, seNetProfit, w2SocialSecurityWages, w2MedicareWages } = input;
+  const {
+    filingStatus,
+    seNetProfit,
+    w2SocialSecurityWages,
+    w2MedicareWages,
+    ssWageBase = SS_WAGE_BASE_2025,
+  } = input;
 
   // Step 1: Calculate net earnings from self-employment (92.35% of positive net profit)
   const netEarningsFromSE = Math.max(0, Math.round(seNetProfit * SE_TAX_RATES.netEarningsRate));
 
   // Step 2: OASDI (12.4%) up to Social Security wage base, coordinated with W-2 wages
-  const ssRemainingBase = Math.max(0, SS_WAGE_BASE_2025 - Math.max(0, w2SocialSecurityWages));
+  const ssRemainingBase = Math.max(0, ssWageBase - Math.max(0, w2SocialSecurityWages));
   const oasdiBase = Math.min(netEarningsFromSE, ssRemainingBase);
   const oasdi = Math.round(oasdiBase * SE_TAX_RATES.oasdi);
 
@@ -58,6 +65,6 @@ export function computeSETax2025(input: SETaxInput): SETaxResult {
     additionalMedicare,
     halfDeduction,
     netEarningsFromSE,
-    totalSETax
+    totalSETax,
   };
 }
@@ -4,8 +4,34 @@
  * Export calculation traces to various formats for audit and review
  */
 
-import type { CalculationTrace } from './types';
+import type { Content, TDocumentDefinitions, TableCell } from 'pdfmake/interfaces';
+import type { CalculationTrace, TraceEntry, TraceSection } from './types';
 import { TraceFormatter } from './types';
+import { loadPdfMake, type PDFSecurityOptions, type PdfMakeModule } from '../util/pdfMake';
+
+/**
+ * Options for the PDF workpaper
+ */
+export interface TracePDFOptions {
+  /** Preparer name printed on the cover page sign-off block */
+  preparer?: string;
+
+  /** Reviewer name printed on the cover page sign-off block */
+  reviewer?: string;
+
+  /** Watermark settings, e.g. { watermark: 'CONFIDENTIAL', watermarkOpacity: 0.1 } */
+  security?: PDFSecurityOptions;
+
+  /** pdfmake instance (loaded on demand when omitted) */
+  pdfMake?: PdfMakeModule;
+}
+
+const FILING_STATUS_LABELS: Record<string, string> = {
+  single: 'Single',
+  marriedJointly: 'Married Filing Jointly',
+  marriedSeparately: 'Married Filing Separately',
+  headOfHousehold: 'Head of Household',
+};
 
 /**
  * Export trace to JSON string
@@ -22,31 +48,271 @@ export function exportTraceToText(trace: CalculationTrace): string {
 }
 
 /**
- * Export trace to PDF (placeholder for future implementation)
+ * Build the pdfmake document definition for a trace workpaper: a cover page
+ * with the return summary and sign-off block, then one table per section
+ */
+export function createTracePDFDefinition(
+  trace: CalculationTrace,
+  options: TracePDFOptions = {}
+): TDocumentDefinitions {
+  const content: Content[] = [...buildCoverPage(trace, options)];
+
+  for (const section of trace.federal.sections) {
+    content.push(...buildSectionContent(section));
+  }
+
+  if (trace.state) {
+    for (const section of trace.state.sections) {
+      content.push(...buildSectionContent(section, trace.state.stateCode));
+    }
+  }
+
+  if (trace.diagnostics.length > 0) {
+    content.push({ text: 'Diagnostics', style: 'sectionHeader', pageBreak: 'before' });
+    content.push({
+      table: {
+        headerRows: 1,
+        widths: ['auto', 'auto', '*'],
+        body: [
+          headerRow(['Code', 'Severity', 'Message']),
+          ...trace.diagnostics.map((d) => [d.code, d.severity, d.message]),
+        ],
+      },
+      layout: 'lightHorizontalLines',
+    });
+  }
+
+  const docDefinition: TDocumentDefinitions = {
+    info: {
+      title: `${trace.metadata.taxYear} Calculation Trace`,
+      subject: 'Tax Calculation Workpaper',
+      author: 'USA Tax Calculator 2025',
+    },
+    pageOrientation: 'landscape',
+    content,
+    footer: (currentPage: number, pageCount: number) => ({
+      text: `${trace.metadata.taxYear} Calculation Trace - Page ${currentPage} of ${pageCount}`,
+      style: 'footer',
+    }),
+    styles: {
+      title: { fontSize: 22, bold: true, margin: [0, 0, 0, 8] },
+      subheader: { fontSize: 10, color: '#666666', margin: [0, 0, 0, 16] },
+      sectionHeader: { fontSize: 14, bold: true, margin: [0, 0, 0, 2] },
+      sectionReference: { fontSize: 9, color: '#666666', margin: [0, 0, 0, 6] },
+      tableHeader: { bold: true, fillColor: '#f3f4f6' },
+      small: { fontSize: 8 },
+      result: { alignment: 'right' },
+      footer: { fontSize: 8, color: '#666666', alignment: 'center', margin: [0, 10, 0, 0] },
+    },
+    defaultStyle: {
+      fontSize: 9,
+    },
+  };
+
+  const watermark = options.security?.watermark;
+  if (watermark) {
+    docDefinition.watermark = {
+      text: watermark,
+      color: '#999999',
+      opacity: options.security?.watermarkOpacity ?? 0.1,
+      bold: true,
+      italics: false,
+      angle: -45,
+    };
+  }
+
+  return docDefinition;
+}
+
+/**
+ * Export trace to a PDF workpaper
  *
- * TODO: Integrate with pdfmake to generate professional PDF reports
+ * @returns PDF file bytes
  */
-export function exportTraceToPDF(_trace: CalculationTrace): Uint8Array {
-  throw new Error(
-    'PDF export not yet implemented. Use exportTraceToText() or exportTraceToJSON() instead.'
+export async function exportTraceToPDF(
+  trace: CalculationTrace,
+  options: TracePDFOptions = {}
+): Promise<Uint8Array> {
+  const pdfMake = options.pdfMake ?? (await loadPdfMake());
+  const pdfDoc = pdfMake.createPdf(createTracePDFDefinition(trace, options));
+
+  return new Promise((resolve, reject) => {
+    try {
+      // getBuffer never calls back when pdfmake fails. The stream is created synchronously,
+      // so layout errors throw here and write errors arrive as 'error' events.
+      const stream = pdfDoc.getStream();
+      const chunks: Uint8Array[] = [];
+      stream.on('data', (chunk: Uint8Array) => chunks.push(chunk));
+      stream.on('end', () => resolve(concatBytes(chunks)));
+      stream.on('error', reject);
+      stream.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+function buildCoverPage(trace: CalculationTrace, options: TracePDFOptions): Content[] {
+  const { metadata, federal, state } = trace;
+
+  const details: TableCell[][] = [
+    [{ text: 'Tax Year', style: 'tableHeader' }, String(metadata.taxYear)],
+    [
+      { text: 'Filing Status', style: 'tableHeader' },
+      FILING_STATUS_LABELS[metadata.filingStatus] ?? metadata.filingStatus,
+    ],
+  ];
+  if (metadata.taxpayerId) {
+    details.push([{ text: 'Taxpayer', style: 'tableHeader' }, metadata.taxpayerId]);
+  }
+  details.push(
+    [{ text: 'Calculated', style: 'tableHeader' }, metadata.calculatedAt],
+    [{ text: 'Engine Version', style: 'tableHeader' }, metadata.engineVersion]
+  );
+
+  const summary: TableCell[][] = [
+    headerRow(['Federal Summary', 'Amount']),
+    summaryRow('Adjusted Gross Income', federal.summary.agi),
+    summaryRow('Taxable Income', federal.summary.taxableIncome),
+    summaryRow('Total Tax', federal.summary.totalTax),
+    summaryRow('Total Payments', federal.summary.totalPayments),
+    summaryRow('Refund / Balance Due', federal.summary.refundOrOwe),
+  ];
+  if (state) {
+    summary.push(
+      headerRow([`${state.stateCode} Summary`, 'Amount']),
+      summaryRow('State AGI', state.summary.stateAGI),
+      summaryRow('State Taxable Income', state.summary.stateTaxableIncome),
+      summaryRow('State Tax', state.summary.stateTax),
+      summaryRow('Refund / Balance Due', state.summary.stateRefundOrOwe)
+    );
+  }
+
+  return [
+    { text: `${metadata.taxYear} Tax Calculation Workpaper`, style: 'title' },
+    { text: 'Calculation trace with form references and citations', style: 'subheader' },
+    {
+      table: { widths: [120, '*'], body: details },
+      layout: 'lightHorizontalLines',
+      margin: [0, 0, 0, 16],
+    },
+    {
+      table: { headerRows: 1, widths: ['*', 120], body: summary },
+      layout: 'lightHorizontalLines',
+      margin: [0, 0, 0, 32],
+    },
+    {
+      table: {
+        widths: [80, '*', 40, 120],
+        body: [
+          signOffRow('Prepared by', options.preparer),
+          signOffRow('Reviewed by', options.reviewer),
+        ],
+      },
+      layout: { defaultBorder: false },
+    },
+  ];
+}
+
+function buildSectionContent(section: TraceSection, stateCode?: string): Content[] {
+  const title = stateCode ? `${stateCode}: ${section.title}` : section.title;
+  const rows: TableCell[][] = [
+    headerRow(['Step', 'Form / Line', 'Formula', 'Inputs', 'Citation', 'Result']),
+    ...section.entries.map(buildEntryRow),
+  ];
+
+  if (section.total !== undefined) {
+    rows.push([
+      { text: 'Section total', bold: true, colSpan: 5 },
+      {},
+      {},
+      {},
+      {},
+      { text: TraceFormatter.formatCurrency(section.total), bold: true, style: 'result' },
+    ]);
+  }
+
+  return [
+    { text: title, style: 'sectionHeader', pageBreak: 'before' },
+    { text: section.formReference ?? '', style: 'sectionReference' },
+    {
+      table: { headerRows: 1, widths: ['*', 90, '*', 130, 90, 70], body: rows },
+      layout: 'lightHorizontalLines',
+    },
+  ];
+}
+
+function buildEntryRow(entry: TraceEntry): TableCell[] {
+  const inputs = Object.entries(entry.inputs ?? {}).map(
+    ([key, value]) => `${key}: ${String(value)}`
   );
+
+  return [
+    { stack: [entry.description, { text: entry.step, style: 'small', color: '#666666' }] },
+    entry.formReference ?? '',
+    entry.formula ?? '',
+    { text: inputs.join('\n'), style: 'small' },
+    { text: entry.citation ?? '', style: 'small' },
+    {
+      text: entry.resultFormatted || TraceFormatter.formatCurrency(entry.result),
+      style: 'result',
+    },
+  ];
+}
+
+function headerRow(labels: string[]): TableCell[] {
+  return labels.map((text) => ({ text, style: 'tableHeader' }));
+}
+
+function summaryRow(label: string, cents: number): TableCell[] {
+  return [label, { text: TraceFormatter.formatCurrency(cents), style: 'result' }];
+}
+
+function signOffRow(role: string, name?: string): TableCell[] {
+  // Name and date cells carry a bottom border as the signature line
+  const line: [boolean, boolean, boolean, boolean] = [false, false, false, true];
+  return [
+    { text: role, bold: true, margin: [0, 16, 0, 0] },
+    { text: name ?? ' ', border: line, margin: [0, 16, 0, 0] },
+    { text: 'Date', bold: true, margin: [8, 16, 0, 0] },
+    { text: ' ', border: line, margin: [0, 16, 0, 0] },
+  ];
 }
 
 /**
  * Export trace to downloadable file (browser environments only).
  * Accesses DOM APIs via globalThis to remain compatible with non-browser builds.
  */
-export function downloadTrace(trace: CalculationTrace, format: 'json' | 'txt' = 'txt'): void {
+export async function downloadTrace(
+  trace: CalculationTrace,
+  format: 'json' | 'txt' | 'pdf' = 'txt',
+  pdfOptions?: TracePDFOptions
+): Promise<void> {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const g = globalThis as any;
   if (typeof g.document === 'undefined' || typeof g.Blob === 'undefined') {
     throw new Error('downloadTrace() requires a browser environment');
   }
 
-  const content = format === 'json' ? exportTraceToJSON(trace) : exportTraceToText(trace);
-  const blob = new g.Blob([content], {
-    type: format === 'json' ? 'application/json' : 'text/plain',
-  }) as { size: number };
+  const content =
+    format === 'pdf'
+      ? await exportTraceToPDF(trace, pdfOptions)
+      : format === 'json'
+        ? exportTraceToJSON(trace)
+        : exportTraceToText(trace);
+  const type =
+    format === 'pdf' ? 'application/pdf' : format === 'json' ? 'application/json' : 'text/plain';
+  const blob = new g.Blob([content], { type }) as { size: number };
   const url = (g.URL.createObjectURL as (b: typeof blob) => string)(blob);
 
   const a = g.document.createElement('a') as { href: string; download: string; click(): void };
@@ -77,6 +77,51 @@ export function createFederalTrace(
     });
   }
 
+  const retirement = result.retirementDistributionDetails;
+  const taxableRetirement = result.taxableRetirementDistributions ?? 0;
+  if (retirement) {
+    builder.addEntry({
+      step: 'retirement_distributions',
+      description: 'Taxable IRA, pension and annuity distributions',
+      formReference: 'Form 1040, Lines 4b and 5b',
+      inputs: {
+        iraDistributions: retirement.iraDistributions,
+        pensionsAndAnnuities: retirement.pensionsAndAnnuities,
+        rollovers: retirement.rollovers,
+        qualifiedCharitableDistributions: retirement.qualifiedCharitableDistributions,
+      },
+      result: taxableRetirement,
+      resultFormatted: formatCents(taxableRetirement),
+    });
+  }
+
+  const taxableSocialSecurity = result.taxableSocialSecurity ?? 0;
+  if (result.socialSecurityDetails) {
+    builder.addEntry({
+      step: 'social_security',
+      description: 'Taxable Social Security benefits',
+      formReference: 'Form 1040, Line 6b',
+      inputs: { netBenefits: result.socialSecurityDetails.netBenefits },
+      result: taxableSocialSecurity,
+      resultFormatted: formatCents(taxableSocialSecurity),
+    });
+  }
+
+  const scheduleEIncome = result.scheduleEIncome ?? input.income.k1.passiveIncome;
+  if (result.scheduleEIncome !== undefined) {
+    builder.addEntry({
+      step: 'rental_passive_income',
+      description: 'Rental real estate and passive income (after passive loss limits)',
+      formReference: 'Schedule 1, Line 5',
+      inputs: {
+        rentalNetIncome: result.scheduleEDetails?.netIncome ?? 0,
+        k1PassiveIncome: input.income.k1.passiveIncome,
+      },
+      result: result.scheduleEIncome,
+      resultFormatted: formatCents(result.scheduleEIncome),
+    });
+  }
+
   // Compute totalIncome from inputs since FederalResult2025 doesn't expose it
   const totalIncome =
     input.income.wages +
@@ -85,11 +130,13 @@ export function createFederalTrace(
     input.income.capGainsNet +
     input.income.scheduleCNet +
     input.income.k1.ordinaryBusinessIncome +
-    input.income.k1.passiveIncome +
+    scheduleEIncome +
     input.income.k1.portfolioIncome +
     input.income.other.otherIncome +
     input.income.other.royalties +
-    input.income.other.guaranteedPayments;
+    input.income.other.guaranteedPayments +
+    taxableRetirement +
+    taxableSocialSecurity;
 
   builder.addEntry({
     step: 'total_income',
@@ -99,6 +146,103 @@ export function createFederalTrace(
     resultFormatted: formatCents(totalIncome),
   });
 
+  // Section 1b: Social Security Benefits Worksheet
+  const ssDetails = result.socialSecurityDetails;
+  if (ssDetails) {
+    builder
+      .startSection(
+        'social_security',
+        'Social Security Benefits Worksheet',
+        'Form 1040 Instructions, Lines 6a-6b'
+      )
+      .addEntry({
+        step: 'net_benefits',
+        description: 'Net benefits (SSA-1099 Box 5)',
+        formReference: 'Worksheet Line 1',
+        formula: 'Box 3 - Box 4',
+        inputs: {
+          grossBenefits: input.income.socialSecurity?.grossBenefits ?? 0,
+          benefitsRepaid: input.income.socialSecurity?.benefitsRepaid ?? 0,
+        },
+        result: ssDetails.netBenefits,
+        resultFormatted: formatCents(ssDetails.netBenefits),
+      })
+      .addEntry({
+        step: 'provisional_income',
+        description: 'Provisional income',
+        formReference: 'Worksheet Line 7',
+        formula: '50% of benefits + other income + tax-exempt interest - adjustments',
+        inputs: {
+          halfOfBenefits: ssDetails.halfOfBenefits,
+          taxExemptInterest: input.income.taxExemptInterest ?? 0,
+        },
+        result: ssDetails.provisionalIncome,
+        resultFormatted: formatCents(ssDetails.provisionalIncome),
+      })
+      .addEntry({
+        step: 'taxable_benefits',
+        description: 'Taxable Social Security benefits',
+        formReference: 'Worksheet Line 18',
+        formula: 'min(50% tier + 85% tier, 85% of net benefits)',
+        inputs: {
+          baseAmount: ssDetails.baseAmount,
+          adjustedBaseAmount: ssDetails.adjustedBaseAmount,
+          mfsLivedWithSpouse: ssDetails.mfsLivedWithSpouse,
+        },
+        intermediates: { taxablePercentage: ssDetails.taxablePercentage },
+        result: ssDetails.taxableBenefits,
+        resultFormatted: formatCents(ssDetails.taxableBenefits),
+        citation: 'IRC §86',
+      });
+  }
+
+  // Section 1c: Passive Activity Loss Limitations
+  const palDetails = result.passiveActivityLossDetails;
+  if (palDetails) {
+    builder
+      .startSection('passive_activity_loss', 'Passive Activity Loss Limitations', 'Form 8582')
+      .addEntry({
+        step: 'combined_passive',
+        description: 'Combined passive income or (loss)',
+        formReference: 'Form 8582, Line 4',
+        formula: 'Line 1d + Line 3d',
+        inputs: {
+          rentalActiveNet: palDetails.rentalActiveNet,
+          otherPassiveNet: palDetails.otherPassiveNet,
+        },
+        result: palDetails.combinedNet,
+        resultFormatted: formatCents(palDetails.combinedNet),
+      })
+      .addEntry({
+        step: 'special_allowance',
+        description: 'Special allowance for rental real estate with active participation',
+        formReference: 'Form 8582, Line 10',
+        formula: 'min(rental loss, $25,000 - 50% × (MAGI - $100,000))',
+        inputs: {
+          specialAllowanceLimit: palDetails.specialAllowanceLimit,
+          mfsLivedWithSpouse: palDetails.mfsLivedWithSpouse,
+        },
+        result: palDetails.specialAllowance,
+        resultFormatted: formatCents(palDetails.specialAllowance),
+        citation: 'IRC §469(i)',
+      })
+      .addEntry({
+        step: 'losses_allowed',
+        description: 'Total passive losses allowed',
+        formReference: 'Form 8582, Line 16',
+        formula: 'Passive income + special allowance',
+        inputs: {
+          rentalActiveIncome: palDetails.rentalActiveIncome,
+          otherPassiveIncome: palDetails.otherPassiveIncome,
+          specialAllowance: palDetails.specialAllowance,
+        },
+        intermediates: { suspendedLossCarryforward: palDetails.suspendedLossCarryforward },
+        result: palDetails.totalLossesAllowed,
+        resultFormatted: formatCents(palDetails.totalLossesAllowed),
+        citation: 'IRC §469(a), §469(b)',
+      });
+  }
+
   // Section 2: Adjustments to Income (Schedule 1)
   // Compute adjustments as AGI minus totalIncome (derived)
   const adjustmentsTotal = result.agi - totalIncome;
@@ -109,7 +253,7 @@ export function createFederalTrace(
       formReference: 'Schedule 1, Line 26',
       inputs: {
         educatorExpenses: input.adjustments?.educatorExpenses || 0,
-        hsaDeduction: input.adjustments?.hsaDeduction || 0,
+        hsaDeduction: result.hsaDetails?.deduction ?? (input.adjustments?.hsaDeduction || 0),
         iraDeduction: input.adjustments?.iraDeduction || 0,
         studentLoanInterest: input.adjustments?.studentLoanInterest || 0,
         selfEmployedRetirement: input.adjustments?.selfEmployedRetirement || 0,
@@ -185,10 +329,65 @@ export function createFederalTrace(
     resultFormatted: formatCents(result.taxBeforeCredits),
   });
 
+  const kiddieTax = result.kiddieTaxDetails;
+  if (kiddieTax) {
+    builder.addEntry({
+      step: 'kiddie_tax',
+      description: "Tax on child's unearned income at the parent's rate",
+      formReference: 'Form 8615, Line 18',
+      formula: 'max(parent-rate tax on net unearned income + tax on the rest, tax at child rates)',
+      inputs: {
+        unearnedIncome: kiddieTax.unearnedIncome,
+        threshold: kiddieTax.threshold,
+        parentTaxableIncome: kiddieTax.parentTaxableIncome,
+      },
+      intermediates: {
+        taxedAtParentRate: kiddieTax.taxedAtParentRate,
+        childShareOfTentativeTax: kiddieTax.childShareOfTentativeTax,
+        taxOnRemainingIncome: kiddieTax.taxOnRemainingIncome,
+        taxAtChildRates: kiddieTax.taxAtChildRates,
+      },
+      result: kiddieTax.tax,
+      resultFormatted: formatCents(kiddieTax.tax),
+      citation: 'IRC §1(g)',
+    });
+  }
+
+  const form8814 = result.form8814Details;
+  if (form8814 && form8814.totalTax > 0) {
+    builder.addEntry({
+      step: 'form8814_tax',
+      description: "Tax on children's interest and dividends reported by the parent",
+      formReference: 'Form 8814, Line 15',
+      inputs: {
+        children: form8814.children.length,
+        includedIncome: form8814.totalIncluded,
+      },
+      result: form8814.totalTax,
+      resultFormatted: formatCents(form8814.totalTax),
+      citation: 'IRC §1(g)(7)',
+    });
+  }
+
   // Section 7: Other Taxes
   const seTax = result.additionalTaxes?.seTax ?? 0;
+  const earlyDistributionTax = result.additionalTaxes?.earlyDistributionTax ?? 0;
+  const hsaAdditionalTax = result.additionalTaxes?.hsaAdditionalTax ?? 0;
+  const hsaExcessContributionTax = result.additionalTaxes?.hsaExcessContributionTax ?? 0;
+  const householdEmploymentTax = result.additionalTaxes?.householdEmploymentTax ?? 0;
+  const cleanVehicleRepayment = result.credits.cleanVehicleRepayment ?? 0;
+  if (
+    seTax > 0 ||
+    earlyDistributionTax > 0 ||
+    hsaAdditionalTax > 0 ||
+    hsaExcessContributionTax > 0 ||
+    householdEmploymentTax > 0 ||
+    cleanVehicleRepayment > 0
+  ) {
+    builder.startSection('other_taxes', 'Other Taxes', 'Schedule 2');
+  }
   if (seTax > 0) {
-    builder.startSection('other_taxes', 'Other Taxes', 'Schedule 2').addEntry({
+    builder.addEntry({
       step: 'se_tax',
       description: 'Self-employment tax',
       formReference: 'Schedule 2, Line 4',
@@ -200,13 +399,99 @@ export function createFederalTrace(
     });
   }
 
+  if (earlyDistributionTax > 0) {
+    builder.addEntry({
+      step: 'early_distribution_tax',
+      description: 'Additional tax on early retirement distributions',
+      formReference: 'Schedule 2, Line 8; Form 5329, Part I',
+      inputs: {
+        earlyDistributions: retirement?.earlyDistributions ?? 0,
+        exceptions: retirement?.earlyDistributionExceptions ?? 0,
+        subjectToTax: retirement?.earlyDistributionsSubjectToTax ?? 0,
+      },
+      result: earlyDistributionTax,
+      resultFormatted: formatCents(earlyDistributionTax),
+      citation: 'IRC §72(t)',
+    });
+  }
+
+  if (hsaAdditionalTax > 0) {
+    builder.addEntry({
+      step: 'hsa_additional_tax',
+      description: 'Additional tax on HSA distributions and testing period failures',
+      formReference: 'Schedule 2, Lines 17c-17d; Form 8889, Lines 17b and 21',
+      inputs: {
+        taxableDistributions: result.hsaDetails?.taxableDistributions ?? 0,
+        testingPeriodIncome: result.hsaDetails?.testingPeriodIncome ?? 0,
+      },
+      result: hsaAdditionalTax,
+      resultFormatted: formatCents(hsaAdditionalTax),
+      citation: 'IRC §223(f)(4), §223(b)(8)(B)',
+    });
+  }
+
+  if (hsaExcessContributionTax > 0) {
+    builder.addEntry({
+      step: 'hsa_excess_contribution_tax',
+      description: 'Excise tax on excess HSA contributions',
+      formReference: 'Schedule 2, Line 8; Form 5329, Part VII',
+      inputs: { excessContributions: result.hsaDetails?.excessContributions ?? 0 },
+      result: hsaExcessContributionTax,
+      resultFormatted: formatCents(hsaExcessContributionTax),
+      citation: 'IRC §4973(g)',
+    });
+  }
+
+  if (householdEmploymentTax > 0) {
+    const scheduleH = result.scheduleHDetails;
+    builder.addEntry({
+      step: 'household_employment_tax',
+      description: 'Household employment taxes',
+      formReference: 'Schedule 2, Line 9; Schedule H',
+      inputs: {
+        socialSecurityWages: scheduleH?.socialSecurityWages ?? 0,
+        medicareWages: scheduleH?.medicareWages ?? 0,
+        futaWages: scheduleH?.futaWages ?? 0,
+        federalWithheld: scheduleH?.federalWithheld ?? 0,
+      },
+      intermediates: {
+        socialSecurityTax: scheduleH?.socialSecurityTax ?? 0,
+        medicareTax: scheduleH?.medicareTax ?? 0,
+        futaTax: scheduleH?.futaTax ?? 0,
+      },
+      result: householdEmploymentTax,
+      resultFormatted: formatCents(householdEmploymentTax),
+      citation: 'IRC §3101, §3111, §3301',
+    });
+  }
+
+  if (cleanVehicleRepayment > 0) {
+    builder.addEntry({
+      step: 'clean_vehicle_repayment',
+      description: 'Repayment of clean vehicle credits transferred to a dealer',
+      formReference: 'Schedule 2, Line 1c; Form 8936, Part I',
+      inputs: {
+        advancePayments: result.cleanVehicleDetails?.advancePayments ?? 0,
+        magi: result.agi,
+      },
+      result: cleanVehicleRepayment,
+      resultFormatted: formatCents(cleanVehicleRepayment),
+      citation: 'IRC §30D(g)(2), §25E(f)',
+    });
+  }
+
   // Section 8: Credits
   const ctc = result.credits.ctc ?? 0;
   const eitc = result.credits.eitc ?? 0;
+  const elderlyDisabled = result.credits.elderlyDisabled ?? 0;
+  const cleanVehicleCredits =
+    (result.credits.cleanVehicle ?? 0) + (result.credits.usedCleanVehicle ?? 0);
 
-  if (ctc > 0) {
+  if (ctc > 0 || elderlyDisabled > 0 || cleanVehicleCredits > 0) {
     builder.startSection('credits', 'Tax Credits', 'Form 1040, Line 19-20');
+  }
 
+  if (ctc > 0) {
     builder.addEntry({
       step: 'ctc',
       description: 'Child Tax Credit',
@@ -220,6 +505,41 @@ export function createFederalTrace(
     });
   }
 
+  if (elderlyDisabled > 0) {
+    const scheduleR = result.scheduleRDetails;
+    builder.addEntry({
+      step: 'elderly_disabled_credit',
+      description: 'Credit for the elderly or the disabled',
+      formReference: 'Schedule 3, Line 6d; Schedule R',
+      formula: '15% × (Initial Amount - Nontaxable Benefits - 50% × AGI over threshold)',
+      inputs: {
+        baseAmount: scheduleR?.baseAmount ?? 0,
+        nontaxableBenefits: scheduleR?.nontaxableBenefits ?? 0,
+        agi: result.agi,
+      },
+      intermediates: { agiReduction: scheduleR?.agiReduction ?? 0 },
+      result: elderlyDisabled,
+      resultFormatted: formatCents(elderlyDisabled),
+      citation: 'IRC §22',
+    });
+  }
+
+  if (cleanVehicleCredits > 0) {
+    builder.addEntry({
+      step: 'clean_vehicle_credit',
+      description: 'Clean vehicle credits',
+      formReference: 'Schedule 3, Lines 6f and 6m; Form 8936',
+      inputs: {
+        newVehicleCredit: result.cleanVehicleDetails?.newVehicleCredit ?? 0,
+        usedVehicleCredit: result.cleanVehicleDetails?.usedVehicleCredit ?? 0,
+        magi: result.agi,
+      },
+      result: cleanVehicleCredits,
+      resultFormatted: formatCents(cleanVehicleCredits),
+      citation: 'IRC §30D, §25E',
+    });
+  }
+
   if (eitc > 0) {
     builder.addEntry({
       step: 'eitc',
@@ -244,8 +564,15 @@ export function createFederalTrace(
     formula: 'Income Tax + Other Taxes - Credits',
     inputs: {
       taxBeforeCredits: result.taxBeforeCredits,
-      otherTaxes: seTax + medicareSurtax,
-      credits: ctc + eitc,
+      otherTaxes:
+        seTax +
+        medicareSurtax +
+        earlyDistributionTax +
+        hsaAdditionalTax +
+        hsaExcessContributionTax +
+        householdEmploymentTax +
+        cleanVehicleRepayment,
+      credits: ctc + elderlyDisabled + cleanVehicleCredits + eitc,
     },
     result: result.totalTax,
     resultFormatted: formatCents(result.totalTax),
@@ -264,6 +591,18 @@ export function createFederalTrace(
     resultFormatted: formatCents(federalWithheld),
   });
 
+  const retirementWithholding = retirement?.federalWithheld ?? 0;
+  if (retirementWithholding > 0) {
+    builder.addEntry({
+      step: 'retirement_withholding',
+      description: 'Federal income tax withheld on Form 1099-R',
+      formReference: 'Form 1040, Line 25b',
+      inputs: { withholding: retirementWithholding },
+      result: retirementWithholding,
+      resultFormatted: formatCents(retirementWithholding),
+    });
+  }
+
   if (estPayments > 0) {
     builder.addEntry({
       step: 'estimated_payments',
@@ -275,6 +614,28 @@ export function createFederalTrace(
     });
   }
 
+  const excessSocialSecurity = result.excessSocialSecurityDetails;
+  if (excessSocialSecurity && excessSocialSecurity.totalCredit > 0) {
+    builder.addEntry({
+      step: 'excess_social_security',
+      description: 'Excess Social Security tax withheld (two or more employers)',
+      formReference: 'Schedule 3, Line 11',
+      formula: 'Per person: Box 4 withholding (each employer capped) - maximum withholding',
+      citation: 'IRC §31(b)',
+      inputs: {
+        taxpayerWithheld: excessSocialSecurity.taxpayer.totalWithheld,
+        spouseWithheld: excessSocialSecurity.spouse.totalWithheld,
+        maxWithholding: excessSocialSecurity.maxWithholding,
+      },
+      intermediates: {
+        taxpayerExcess: excessSocialSecurity.taxpayer.excess,
+        spouseExcess: excessSocialSecurity.spouse.excess,
+      },
+      result: excessSocialSecurity.totalCredit,
+      resultFormatted: formatCents(excessSocialSecurity.totalCredit),
+    });
+  }
+
   builder.addEntry({
     step: 'total_payments',
     description: 'Total payments',
@@ -284,14 +645,37 @@ export function createFederalTrace(
   });
 
   // Section 11: Refund or Amount Owed
-  builder.startSection('refund_owe', 'Refund or Amount Owed', 'Form 1040, Lines 34-37').addEntry({
+  const estimatedTaxPenalty = result.estimatedTaxPenalty ?? 0;
+
+  builder.startSection('refund_owe', 'Refund or Amount Owed', 'Form 1040, Lines 34-38');
+
+  if (estimatedTaxPenalty > 0) {
+    builder.addEntry({
+      step: 'estimated_tax_penalty',
+      description: 'Estimated tax penalty',
+      formReference: 'Form 1040, Line 38; Form 2210',
+      formula: 'Underpaid installment × Underpayment rate × Days late / 365',
+      inputs: {
+        requiredAnnualPayment: result.form2210Details?.requiredAnnualPayment ?? 0,
+        underpayment: result.form2210Details?.underpayment ?? 0,
+      },
+      result: estimatedTaxPenalty,
+      resultFormatted: formatCents(estimatedTaxPenalty),
+    });
+  }
+
+  builder.addEntry({
     step: 'refund_or_owe',
     description: result.refundOrOwe >= 0 ? 'Amount overpaid (Refund)' : 'Amount you owe',
     formReference: result.refundOrOwe >= 0 ? 'Form 1040, Line 34' : 'Form 1040, Line 37',
-    formula: 'Total Payments - Total Tax',
+    formula:
+      estimatedTaxPenalty > 0
+        ? 'Total Payments - Total Tax - Estimated Tax Penalty'
+        : 'Total Payments - Total Tax',
     inputs: {
       totalPayments: result.totalPayments,
       totalTax: result.totalTax,
+      ...(estimatedTaxPenalty > 0 && { estimatedTaxPenalty }),
     },
     result: Math.abs(result.refundOrOwe),
     resultFormatted: formatCents(Math.abs(result.refundOrOwe)),
@@ -8,4 +8,11 @@ export type { TraceEntry, TraceSection, CalculationTrace } from './types';
 export { TraceBuilder, TraceFormatter } from './types';
 
 export { createFederalTrace } from './federalTrace';
-export { exportTraceToJSON, exportTraceToText, exportTraceToPDF } from './exporters';
+export {
+  exportTraceToJSON,
+  exportTraceToText,
+  exportTraceToPDF,
+  createTracePDFDefinition,
+  downloadTrace,
+} from './exporters';
+export type { TracePDFOptions } from './exporters';
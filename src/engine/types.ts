@@ -10,6 +10,44 @@ import type { Form8962Input } from './credits/premiumTaxCredit';
 // Import NOL types
 import type { NOLCarryforward } from './deductions/nolCarryforward';
 
+// Import Social Security worksheet types
+import type { SocialSecurityBenefitsResult } from './income/socialSecurityBenefits';
+
+// Import retirement distribution (1099-R) types
+import type {
+  RetirementDistribution,
+  RetirementDistributionsResult,
+} from './income/retirementDistributions';
+
+// Import Schedule E rental and passive activity loss (Form 8582) types
+import type { RentalProperty, ScheduleEResult } from './income/scheduleE';
+import type { FormW2 } from './income/formW2';
+import type {
+  CapitalAssetDisposition,
+  CapitalLossCarryover,
+  ScheduleDResult,
+} from './income/scheduleD';
+import type { PassiveActivityLossResult } from './income/passiveActivityLoss';
+import type { ExcessSocialSecurityResult } from './credits/excessSocialSecurity';
+import type { HSAAccount, HSAResult } from './deductions/hsa';
+import type { Form5695Input, Form5695Result } from './credits/residentialEnergy';
+import type { CleanVehicleCreditResult, CleanVehiclePurchase } from './credits/cleanVehicle';
+import type { ScheduleRResult } from './credits/elderlyDisabled';
+import type { HouseholdEmploymentInput, ScheduleHResult } from './tax/scheduleH';
+import type {
+  Form8615Result,
+  Form8814Child,
+  Form8814Result,
+  KiddieTaxInput,
+} from './tax/kiddieTax';
+
+// Import underpayment penalty (Form 2210) types
+import type {
+  AnnualizedIncomePeriod,
+  EstimatedTaxPayment,
+  Form2210Result,
+} from './penalties/form2210';
+
 export type FilingStatus = 'single' | 'marriedJointly' | 'marriedSeparately' | 'headOfHousehold';
 
 export interface QualifyingChild {
@@ -55,6 +93,9 @@ export interface FederalPrimaryPerson2025 {
   birthDate?: string; // YYYY-MM-DD
   isBlind?: boolean;
   ssn?: string;
+  isPermanentlyDisabled?: boolean; // Retired on permanent and total disability (Schedule R)
+  taxableDisabilityIncome?: number; // Disability income included in wages, for Schedule R (cents)
+  canBeClaimedAsDependent?: boolean; // Someone else can claim this person as a dependent (limited standard deduction)
 }
 
 export interface FederalSpouse2025 extends FederalPrimaryPerson2025 {
@@ -89,6 +130,20 @@ export interface FederalIncomeK12025 {
   portfolioIncome: number;
 }
 
+/**
+ * Social Security benefits reported on Form SSA-1099 (or RRB-1099 Tier 1).
+ * @remarks All monetary values are in CENTS (integer).
+ * For joint returns, combine both spouses' statements.
+ */
+export interface FederalIncomeSocialSecurity2025 {
+  /** Box 3: Total benefits paid in cents */
+  grossBenefits: number;
+  /** Box 4: Benefits repaid to SSA in cents */
+  benefitsRepaid?: number;
+  /** MFS only: lived with spouse at any time during the year ($0 base amount) */
+  livedWithSpouse?: boolean;
+}
+
 /**
  * Federal income data for tax year 2025.
  *
@@ -131,6 +186,10 @@ export interface FederalIncome2025 {
   k1: FederalIncomeK12025;
   /** Other income items */
   other: FederalIncomeOther2025;
+  /** Tax-exempt interest (Form 1040 Line 2a) in cents. Not taxable; used in benefit worksheets. */
+  taxExemptInterest?: number;
+  /** Social Security benefits (Form SSA-1099) */
+  socialSecurity?: FederalIncomeSocialSecurity2025;
 }
 
 /**
@@ -147,8 +206,10 @@ export interface FederalAdjustments2025 {
   /** Line 12: Certain business expenses in cents (reservists, performing artists, fee-basis govt officials) */
   businessExpenses: number;
 
-  /** Line 13: HSA deduction in cents */
+  /** Line 13: HSA deduction in cents (derived from `hsaAccounts` when entered) */
   hsaDeduction: number;
+  /** Employer HSA contributions (W-2 Box 12 code W) in cents; not deductible, count toward the limit */
+  hsaEmployerContributions?: number;
 
   /** Line 14: Moving expenses for Armed Forces in cents */
   movingExpensesMilitary?: number;
@@ -229,6 +290,8 @@ export interface FederalPayments2025 {
   estPayments: number;
   /** EITC advance payments in cents (rare) */
   eitcAdvance: number;
+  /** Dated estimated payments for Form 2210; if omitted, estPayments are treated as paid evenly on the due dates */
+  estimatedPaymentDates?: EstimatedTaxPayment[];
 }
 
 /**
@@ -399,6 +462,7 @@ export interface FederalInput2025 {
   qualifyingRelatives: QualifyingRelative[];
   educationExpenses: EducationExpenses[];
   income: FederalIncome2025;
+  w2Forms?: FormW2[]; // W-2s behind income.wages, for per-employee Social Security and Medicare amounts
   adjustments: FederalAdjustments2025;
   itemized: FederalItemizedDeductions2025;
   forceItemized?: boolean; // Force itemized deductions even if standard is higher
@@ -421,7 +485,34 @@ export interface FederalInput2025 {
     priorYearCarryforward?: number; // Prior year adoption credit carryforward (cents)
   };
   form8962?: Omit<Form8962Input, 'magi' | 'filingStatus'>; // Premium Tax Credit (ACA marketplace insurance)
+  form5695?: Form5695Input; // Residential energy credits (solar, batteries, heat pumps, insulation)
+  cleanVehicles?: CleanVehiclePurchase[]; // New and previously owned clean vehicles (Form 8936)
+  scheduleR?: {
+    nontaxablePensions?: number; // Line 13b: Nontaxable pensions, annuities, veterans' and disability benefits (cents)
+    livedWithSpouse?: boolean; // MFS only: lived with spouse at any time during the year (no credit)
+  };
   nolCarryforwards?: NOLCarryforward[]; // Net Operating Loss carryforwards from prior years
+  retirementDistributions?: RetirementDistribution[]; // Pension, annuity and IRA distributions (Form 1099-R)
+  hsaAccounts?: HSAAccount[]; // HSA coverage, contributions and distributions (Form 8889)
+  householdEmployment?: HouseholdEmploymentInput; // Nanny, caregiver and other household employees (Schedule H)
+  kiddieTax?: KiddieTaxInput; // Child's return: parent's information to tax unearned income at the parent's rate (Form 8615)
+  form8814Children?: Form8814Child[]; // Parent's return: children's interest and dividends reported by election (Form 8814)
+  rentalProperties?: RentalProperty[]; // Rental real estate (Schedule E Part I)
+  capitalAssetDispositions?: CapitalAssetDisposition[]; // Individual sales for Form 8949 / Schedule D
+  capitalLossCarryover?: CapitalLossCarryover; // Prior year capital loss carryover (Schedule D Lines 6 and 14)
+  passiveActivityOptions?: {
+    realEstateProfessional?: boolean; // Qualifies under §469(c)(7); materially participating rentals are nonpassive
+    livedWithSpouse?: boolean; // MFS only: lived with spouse at any time during the year ($0 special allowance)
+    k1PriorYearUnallowedLoss?: number; // Prior year unallowed loss from K-1 passive activities (cents)
+  };
+  priorYear?: {
+    totalTax: number; // Prior year Form 1040 total tax (cents), for Form 2210 safe harbors
+    agi: number; // Prior year AGI (cents), selects the 100% or 110% safe harbor
+  };
+  form2210?: {
+    annualizedIncome?: AnnualizedIncomePeriod[]; // Schedule AI cumulative amounts by period
+    isFarmerFisherman?: boolean; // 2/3 of gross income from farming or fishing
+  };
 }
 
 export type TaxPayerInput = FederalInput2025;
@@ -454,6 +545,8 @@ export interface AMTCalculationDetails {
 export interface PaymentBreakdown {
   /** Federal income tax withheld (Form 1040 Line 25) in cents */
   federalWithheld: number;
+  /** Federal income tax withheld on Form 1099-R (Form 1040 Line 25b) in cents */
+  retirementDistributionWithholding: number;
   /** Estimated tax payments (Form 1040 Line 26) in cents */
   estimatedPayments: number;
   /** EITC advance payments (Form 1040 Line 27, rare) in cents */
@@ -481,6 +574,8 @@ export interface RefundableCreditsBreakdown {
   adoptionCreditRefundable: number;
   /** Premium Tax Credit (Form 8962) in cents */
   ptc: number;
+  /** Excess Social Security tax withheld (Schedule 3 Line 11) in cents */
+  excessSocialSecurity: number;
   /** Other refundable credits in cents */
   otherRefundable: number;
   /** Total refundable credits (sum of above) in cents */
@@ -502,7 +597,7 @@ export interface RefundOrOweBreakdown {
   totalNonRefundableCredits: number;
   /** Tax after non-refundable credits in cents */
   taxAfterNonRefundableCredits: number;
-  /** Additional taxes (SE, NIIT, AMT, Medicare) in cents */
+  /** Additional taxes (SE, NIIT, AMT, Medicare, early distributions) in cents */
   totalAdditionalTaxes: number;
   /** Total payments made (Form 1040 Line 33) in cents */
   totalPayments: number;
@@ -510,7 +605,9 @@ export interface RefundOrOweBreakdown {
   totalRefundableCredits: number;
   /** Total payments plus refundable credits in cents */
   paymentsAndCredits: number;
-  /** Refund (positive) or amount owed (negative) (Form 1040 Line 34/37) in cents */
+  /** Estimated tax penalty (Form 1040 Line 38) in cents */
+  estimatedTaxPenalty: number;
+  /** Refund (positive) or amount owed (negative) (Form 1040 Line 34/37), after the penalty, in cents */
   refundOrOwe: number;
 }
 
@@ -530,8 +627,44 @@ export interface RefundOrOweBreakdown {
  * ```
  */
 export interface FederalResult2025 {
+  /** Tax year whose rules were applied */
+  taxYear?: number;
   /** Adjusted Gross Income in cents */
   agi: number;
+  /** Taxable Social Security benefits (Form 1040 Line 6b) in cents */
+  taxableSocialSecurity?: number;
+  /** Student loan interest deduction allowed after the phaseout (Schedule 1 Line 21) in cents */
+  studentLoanInterestDeduction?: number;
+  /** Social Security Benefits Worksheet breakdown */
+  socialSecurityDetails?: SocialSecurityBenefitsResult;
+  /** Taxable retirement distributions (Form 1040 Lines 4b + 5b) in cents */
+  taxableRetirementDistributions?: number;
+  /** Form 1099-R / Form 5329 Part I breakdown */
+  retirementDistributionDetails?: RetirementDistributionsResult;
+  /** Form 8949 / Schedule D breakdown, when dispositions or a carryover were entered */
+  scheduleDDetails?: ScheduleDResult;
+  /** Form 8889 breakdown, when HSA accounts were entered */
+  hsaDetails?: HSAResult;
+  /** Form 5695 breakdown, including the §25D carryforward, when energy property was entered */
+  form5695Details?: Form5695Result;
+  /** Form 8936 breakdown per vehicle, when clean vehicles were entered */
+  cleanVehicleDetails?: CleanVehicleCreditResult;
+  /** Schedule R breakdown, when the taxpayer or spouse is 65 or older or disabled */
+  scheduleRDetails?: ScheduleRResult;
+  /** Schedule H breakdown, when household employees were entered */
+  scheduleHDetails?: ScheduleHResult;
+  /** Form 8615 breakdown, when the kiddie tax applies to the child's unearned income */
+  kiddieTaxDetails?: Form8615Result;
+  /** Form 8814 breakdown, when the parent elects to report children's income */
+  form8814Details?: Form8814Result;
+  /** Excess Social Security withholding per person, when W-2s were entered */
+  excessSocialSecurityDetails?: ExcessSocialSecurityResult;
+  /** Schedule E Part I rental real estate breakdown (before passive loss limits) */
+  scheduleEDetails?: ScheduleEResult;
+  /** Rental real estate and K-1 passive income after passive loss limits in cents */
+  scheduleEIncome?: number;
+  /** Form 8582 passive activity loss limitation breakdown */
+  passiveActivityLossDetails?: PassiveActivityLossResult;
   /** Taxable income (AGI minus deductions) in cents */
   taxableIncome: number;
   /** Which deduction type was actually used */
@@ -560,14 +693,28 @@ export interface FederalResult2025 {
     eitc?: number;
     /** Foreign Tax Credit in cents */
     ftc?: number;
+    /** Credit for the elderly or the disabled (Schedule R) in cents */
+    elderlyDisabled?: number;
     /** Adoption Credit non-refundable portion in cents */
     adoptionCreditNonRefundable?: number;
     /** Adoption Credit refundable portion in cents (new for 2025) */
     adoptionCreditRefundable?: number;
+    /** Residential clean energy credit (Form 5695 Part I) in cents */
+    residentialCleanEnergy?: number;
+    /** Energy efficient home improvement credit (Form 5695 Part II) in cents */
+    energyEfficientHomeImprovement?: number;
+    /** New clean vehicle credit (Form 8936 Part II) in cents */
+    cleanVehicle?: number;
+    /** Previously owned clean vehicle credit (Form 8936 Part III) in cents */
+    usedCleanVehicle?: number;
     /** Premium Tax Credit (Form 8962) - refundable in cents */
     ptc?: number;
     /** Excess APTC repayment (increases tax liability) in cents */
     ptcRepayment?: number;
+    /** Clean vehicle credit transferred to a dealer and repaid over the income limit (Form 8936 Part I) in cents */
+    cleanVehicleRepayment?: number;
+    /** Excess Social Security tax withheld by multiple employers - refundable in cents */
+    excessSocialSecurity?: number;
     /** Other non-refundable credits in cents */
     otherNonRefundable?: number;
     /** Other refundable credits in cents */
@@ -583,6 +730,14 @@ export interface FederalResult2025 {
     medicareSurtax?: number;
     /** Alternative Minimum Tax in cents */
     amt?: number;
+    /** Additional tax on early retirement distributions (Form 5329) in cents */
+    earlyDistributionTax?: number;
+    /** Additional tax on HSA distributions and testing period failures (Form 8889) in cents */
+    hsaAdditionalTax?: number;
+    /** Excise tax on excess HSA contributions (Form 5329 Part VII) in cents */
+    hsaExcessContributionTax?: number;
+    /** Household employment taxes (Schedule H) in cents */
+    householdEmploymentTax?: number;
   };
   /** Detailed AMT calculation breakdown */
   amtDetails?: AMTCalculationDetails;
@@ -590,7 +745,11 @@ export interface FederalResult2025 {
   totalTax: number;
   /** Total payments (withholding + estimated + advance) in cents */
   totalPayments: number;
-  /** Refund (positive) or amount owed (negative) in cents */
+  /** Estimated tax penalty (Form 2210 / Form 1040 Line 38) in cents */
+  estimatedTaxPenalty?: number;
+  /** Form 2210 underpayment penalty breakdown */
+  form2210Details?: Form2210Result;
+  /** Refund (positive) or amount owed (negative), after any estimated tax penalty, in cents */
   refundOrOwe: number;
   /** Detailed payment breakdown (Form 1040 Lines 25-27) */
   paymentBreakdown?: PaymentBreakdown;
@@ -604,6 +763,93 @@ export interface FederalResult2025 {
   trace?: import('./trace/types').TraceSection[];
 }
 
+/**
+ * Originally filed federal return, kept so it can be amended later.
+ */
+export interface OriginalReturnSnapshot {
+  /** Tax year of the return */
+  taxYear: number;
+  /** When the original return was filed (ISO date) */
+  filedAt: string;
+  /** Input as filed */
+  input: FederalInput2025;
+  /** Result as filed */
+  result: FederalResult2025;
+}
+
+/**
+ * Amended return (Form 1040-X) input.
+ *
+ * @remarks
+ * **All monetary values are in CENTS (integer).**
+ */
+export interface AmendedReturnInput {
+  /** Originally filed return */
+  original: OriginalReturnSnapshot;
+  /** Input with corrections applied */
+  corrected: FederalInput2025;
+  /** Reason for amending, e.g. "Corrected Form 1099-DIV received" */
+  reason?: string;
+  /** Tax paid after the original return was filed (Form 1040-X Line 16) in cents */
+  additionalTaxPaid?: number;
+  /** Overpayment to apply to next year's estimated tax (Form 1040-X Line 23) in cents */
+  appliedToEstimatedTax?: number;
+}
+
+/**
+ * One three-column line of Form 1040-X Part I.
+ *
+ * @remarks
+ * **All monetary values are in CENTS (integer).**
+ */
+export interface Form1040XLine {
+  /** Form 1040-X line number, e.g. '4b' */
+  line: string;
+  /** Line description */
+  label: string;
+  /** Column A: as originally reported in cents */
+  original: number;
+  /** Column B: net change (corrected - original) in cents */
+  netChange: number;
+  /** Column C: correct amount in cents */
+  corrected: number;
+}
+
+/**
+ * Amended return (Form 1040-X) result.
+ * Lines 1-15 compare the original and corrected returns; Lines 16-23
+ * reconcile what was already paid or refunded.
+ *
+ * @remarks
+ * **All monetary values are in CENTS (integer).**
+ */
+export interface Form1040XResult {
+  /** Tax year being amended */
+  taxYear: number;
+  /** Lines 1-15 (columns A, B and C) */
+  lines: Form1040XLine[];
+  /** Tax paid with the original return and afterwards (Line 16) in cents */
+  paidWithOriginal: number;
+  /** Total payments (Line 17) in cents */
+  totalPayments: number;
+  /** Overpayment shown on the original return (Line 18) in cents */
+  originalOverpayment: number;
+  /** Amount you owe (Line 20) in cents */
+  amountOwed: number;
+  /** Overpayment on this return (Line 21) in cents */
+  overpayment: number;
+  /** Overpayment to be refunded (Line 22) in cents */
+  refund: number;
+  /** Overpayment applied to estimated tax (Line 23) in cents */
+  appliedToEstimatedTax: number;
+  /** Explanation of changes (Part II) */
+  explanation: string;
+  /** Recomputed federal result for the corrected input */
+  correctedResult: FederalResult2025;
+  /** Diagnostic messages (warnings, errors) from the amendment */
+  diagnostics: FederalDiagnostics2025;
+}
+
 export interface StateResult {
   state: string; // e.g. 'MD'
   taxYear: number; // 2025
@@ -665,6 +911,118 @@ export type {
   ForeignTaxCreditResult,
 } from './credits/foreignTaxCredit';
 
+// Re-export Social Security worksheet types from income module
+export type {
+  SocialSecurityBenefitsInput,
+  SocialSecurityBenefitsResult,
+} from './income/socialSecurityBenefits';
+
+// Re-export retirement distribution types from income module
+export type {
+  DistributionCode,
+  RetirementDistribution,
+  RetirementDistributionsInput,
+  RetirementDistributionsResult,
+} from './income/retirementDistributions';
+
+// Re-export Form W-2 types from income module
+export type {
+  FormW2,
+  W2Box12Code,
+  W2Box12Entry,
+  W2Box14Entry,
+  W2Issue,
+  W2StateLine,
+  W2Summary,
+} from './income/formW2';
+
+// Re-export Form 8949 / Schedule D types from income module
+export type {
+  CapitalAssetDisposition,
+  CapitalLossCarryover,
+  Form8949Adjustment,
+  Form8949AdjustmentCode,
+  Form8949Box,
+  Form8949BoxTotals,
+  Form8949Row,
+  ScheduleDInput,
+  ScheduleDResult,
+} from './income/scheduleD';
+
+// Re-export HSA (Form 8889) types from deductions module
+export type {
+  Form8889Result,
+  HDHPCoverage,
+  HSAAccount,
+  HSAInput,
+  HSAResult,
+} from './deductions/hsa';
+
+// Re-export Form 5695 residential energy credit types from credits module
+export type {
+  Form5695Input,
+  Form5695Result,
+  HomeImprovementCosts,
+} from './credits/residentialEnergy';
+
+// Re-export Schedule H household employment tax types from tax module
+export type { HouseholdEmployee, HouseholdEmploymentInput, ScheduleHResult } from './tax/scheduleH';
+
+// Re-export kiddie tax (Form 8615) and parent's election (Form 8814) types from tax module
+export type {
+  Form8615Input,
+  Form8615Result,
+  Form8814Child,
+  Form8814ChildResult,
+  Form8814Result,
+  KiddieTaxInput,
+  KiddieTaxParameters,
+  TaxRateSchedule,
+} from './tax/kiddieTax';
+
+// Re-export Schedule R credit for the elderly or disabled types from credits module
+export type { ScheduleRInput, ScheduleRPerson, ScheduleRResult } from './credits/elderlyDisabled';
+
+// Re-export Form 8936 clean vehicle credit types from credits module
+export type {
+  CleanVehicleCreditInput,
+  CleanVehicleCreditResult,
+  CleanVehicleIneligibleReason,
+  CleanVehiclePurchase,
+  CleanVehicleResult,
+} from './credits/cleanVehicle';
+
+// Re-export excess Social Security withholding types from credits module
+export type {
+  ExcessSocialSecurityInput,
+  ExcessSocialSecurityPerson,
+  ExcessSocialSecurityResult,
+} from './credits/excessSocialSecurity';
+
+// Re-export Schedule E and Form 8582 types from income module
+export type {
+  RentalExpenses,
+  RentalProperty,
+  RentalPropertyResult,
+  RentalTreatment,
+  ScheduleEInput,
+  ScheduleEResult,
+} from './income/scheduleE';
+export type {
+  PassiveActivity,
+  PassiveActivityLossInput,
+  PassiveActivityLossResult,
+  PassiveActivityResult,
+} from './income/passiveActivityLoss';
+
+// Re-export Form 2210 types from penalties module
+export type {
+  AnnualizedIncomePeriod,
+  EstimatedTaxPayment,
+  Form2210Input,
+  Form2210Result,
+} from './penalties/form2210';
+
 // Re-export Adoption Credit types from credits module
 export type {
   AdoptionType,
@@ -6,7 +6,7 @@
  */
 
 import type { FilingStatus } from '../types';
-import type { FederalResult2025 } from '../types';
+import type { FederalDiagnostics2025, FederalResult2025 } from '../types';
 
 /**
  * Standard state tax result structure
@@ -43,6 +43,11 @@ export interface StateResult {
   city?: string; // City name (if applicable)
   taxYear: number; // Tax year
 
+  // Residency allocation (part-year resident and nonresident returns)
+  residencyStatus?: StateResidencyStatus;
+  allocationRatio?: number; // Share of resident-basis tax owed to the state (0-1)
+  stateSourceIncome?: number; // Income sourced to the state
+
   // Additional details for reporting
   calculationNotes?: string[]; // Special notes or warnings
   formReferences?: string[]; // State forms used (e.g., "Form 540", "Schedule CA")
@@ -63,12 +68,42 @@ export interface StateCredits {
   personal_exemption?: number; // Personal exemption credit (e.g. CT)
   personal_tax_credit?: number; // Personal tax credit (e.g. CT income-based)
   dependent_exemption?: number; // Dependent exemption credit
+  other_state_tax?: number; // Credit for taxes paid to other states
 
   // Total credits breakdown
   nonRefundableCredits: number;
   refundableCredits: number;
 }
 
+/**
+ * Residency status for a state return
+ */
+export type StateResidencyStatus = 'resident' | 'partYear' | 'nonresident';
+
+/**
+ * A period of residency (domicile) in one state
+ * Dates are ISO (YYYY-MM-DD), inclusive, and clipped to the tax year
+ */
+export interface StateResidencyPeriod {
+  state: string; // Two-letter state code
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * Income sourced to specific states (all amounts in cents)
+ *
+ * Wages, business and rental income are sourced to the state where the work
+ * is performed or the property is located. Income not listed here (interest,
+ * dividends, capital gains, retirement income) is sourced to the state of
+ * domicile.
+ */
+export interface StateIncomeSourcing {
+  wagesByState?: Record<string, number>; // Wages by work state
+  businessIncomeByState?: Record<string, number>; // Schedule C income by state of business
+  rentalIncomeByState?: Record<string, number>; // Rental income by property state
+}
+
 /**
  * Input for state tax calculation
  * Extends base taxpayer info with state-specific fields
@@ -116,6 +151,10 @@ export interface StateTaxInput {
   stateWithheld: number;
   stateEstPayments?: number;
 
+  // Residency and income sourcing (part-year resident and nonresident returns)
+  residencyPeriods?: StateResidencyPeriod[];
+  incomeSourcing?: StateIncomeSourcing;
+
   // State-specific fields (extensible)
   itemizedDeductions?: number;
 
@@ -171,3 +210,55 @@ export interface StateRegistry {
     calculator: StateCalculator;
   };
 }
+
+/**
+ * How a part-year resident's or nonresident's tax is allocated to a state
+ * - 'incomeRatio': resident-basis tax × state-source income / federal AGI
+ *   (e.g. CA Schedule CA (540NR), NY IT-203 income percentage)
+ * - 'daysProrated': resident-basis tax × days resident / days in year
+ */
+export type StateAllocationMethod = 'incomeRatio' | 'daysProrated';
+
+/**
+ * Input for returns in several states (moves and cross-border work)
+ */
+export interface MultiStateTaxInput extends Omit<
+  StateTaxInput,
+  'state' | 'stateWithheld' | 'stateEstPayments'
+> {
+  residencyPeriods: StateResidencyPeriod[];
+
+  // Payments by state code (cents)
+  stateWithheldByState?: Record<string, number>;
+  stateEstPaymentsByState?: Record<string, number>;
+
+  // Allocation method overrides by state code (default 'incomeRatio')
+  allocationMethods?: Record<string, StateAllocationMethod>;
+
+  // Tax year for residency periods (default 2025)
+  taxYear?: number;
+}
+
+/**
+ * One state's allocated return
+ */
+export interface StateAllocation {
+  state: string;
+  residencyStatus: StateResidencyStatus;
+  daysResident: number;
+  method: StateAllocationMethod;
+  stateSourceIncome: number; // cents
+  allocationRatio: number; // 0-1
+  residentBasis: StateResult; // Calculator result as if a full-year resident
+  result: StateResult; // Allocated result
+}
+
+/**
+ * Combined result for returns in several states
+ */
+export interface MultiStateResult {
+  states: StateAllocation[];
+  totalStateLiability: number;
+  totalRefundOrOwe: number;
+  diagnostics?: FederalDiagnostics2025; // Residency periods and credits for taxes paid to other states
+}
@@ -0,0 +1,52 @@
+/**
+ * pdfmake Loading and PDF Export Options
+ *
+ * Shared by the trace workpaper export and the report PDFRenderer
+ */
+
+export type PdfMakeModule = typeof import('pdfmake/build/pdfmake');
+
+/**
+ * PDF Export Security Options
+ * Controls privacy and security features for PDF generation
+ */
+export interface PDFSecurityOptions {
+  /** Add watermark text to each page (e.g., 'DRAFT', 'CONFIDENTIAL') */
+  watermark?: string | null;
+  /** Watermark opacity (0-1, default 0.1) */
+  watermarkOpacity?: number;
+  /** Mask SSN to show only last 4 digits (default: true) */
+  maskSSN?: boolean;
+  /** Include client personal data in export (default: false for privacy) */
+  includeClientData?: boolean;
+  /** Password to open the PDF (requires pdfmake-wrapper or server-side) */
+  userPassword?: string;
+  /** Password for editing/printing restrictions */
+  ownerPassword?: string;
+  /** Allow printing (default: true) */
+  allowPrinting?: boolean;
+  /** Allow copying text (default: false for security) */
+  allowCopying?: boolean;
+}
+
+/**
+ * Load pdfmake and its bundled Roboto fonts on demand
+ */
+export async function loadPdfMake(): Promise<PdfMakeModule> {
+  const [pdfMakeModule, fontsModule] = await Promise.all([
+    import('pdfmake/build/pdfmake'),
+    import('pdfmake/build/vfs_fonts'),
+  ]);
+
+  const pdfMake =
+    (pdfMakeModule as unknown as { default?: PdfMakeModule }).default ??
+    (pdfMakeModule as PdfMakeModule);
+
+  // vfs_fonts exports the font map directly in 0.2.x; older builds wrap it in pdfMake.vfs
+  const fonts = ((fontsModule as { default?: unknown }).default ?? fontsModule) as {
+    pdfMake?: { vfs: Record<string, string> };
+    vfs?: Record<string, string>;
+  };
+  pdfMake.vfs = fonts.pdfMake?.vfs ?? fonts.vfs ?? (fonts as Record<string, string>);
+  return pdfMake;
+}
@@ -5,6 +5,7 @@ import type {
   UIBusinessDetails,
   UIPaymentsData,
 } from '../utils/engineAdapter';
+import type { FormW2 } from '../engine/types';
 
 // Use consolidated types from engineAdapter
 type IncomeData = UIIncomeData;
@@ -53,6 +54,9 @@ export const useIncomeState = () => {
     otherPayments: ""
   });
 
+  // W-2s imported box by box; when present they replace wages and withholding
+  const [w2Forms, setW2Forms] = useState<FormW2[]>([]);
+
   const handleIncomeChange = (field: string, value: string) => {
     setIncomeData(prev => ({ ...prev, [field]: value }));
   };
@@ -74,10 +78,12 @@ export const useIncomeState = () => {
     k1Data,
     businessDetails,
     paymentsData,
+    w2Forms,
     setIncomeData,
     setK1Data,
     setBusinessDetails,
     setPaymentsData,
+    setW2Forms,
     handleIncomeChange,
     handleK1Change,
     handleBusinessDetailsChange,
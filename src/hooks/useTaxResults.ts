@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback } from 'react';
 import {
   calculateTaxResultsWithEngine,
   calculateFilingComparisonWithEngine,
+  type UITaxForms,
 } from '../utils/engineAdapter';
 import { generateTaxOptimizations } from '../utils/taxOptimization';
 import { useTaxDataHash } from './useDependencyHash';
@@ -66,6 +67,7 @@ interface UseTaxResultsParams {
   businessDetails: BusinessDetails;
   paymentsData: PaymentsData;
   deductions: Deductions;
+  forms?: UITaxForms;
   taxYear?: number;
 }
 
@@ -82,6 +84,7 @@ export const useTaxResults = ({
   businessDetails,
   paymentsData,
   deductions,
+  forms,
   taxYear,
 }: UseTaxResultsParams) => {
   const [taxResult, setTaxResult] = useState<TaxResult>({
@@ -133,7 +136,8 @@ export const useTaxResults = ({
       paymentsData,
       deductions,
       spouseInfo,
-      taxYear
+      taxYear,
+      forms
     );
 
     if (engineResults.success && engineResults.result) {
@@ -235,7 +239,7 @@ export const useTaxResults = ({
     );
     setTaxOptimizations(optimizations);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [dataHash]);
+  }, [dataHash, forms]);
 
   const recalculate = useCallback(() => {
     // Force recalculation
@@ -249,7 +253,8 @@ export const useTaxResults = ({
       paymentsData,
       deductions,
       spouseInfo,
-      taxYear
+      taxYear,
+      forms
     );
 
     if (engineResults.success && engineResults.result) {
@@ -333,6 +338,7 @@ export const useTaxResults = ({
     deductions,
     spouseInfo,
     taxYear,
+    forms,
   ]);
 
   /**
@@ -192,7 +192,9 @@ function buildReturnData(
 
     // Schedule 1 (Additional Income and Adjustments) if applicable
     const hasAdditionalIncome =
-      (income.scheduleCNet ?? 0) !== 0 || (income.other?.otherIncome ?? 0) !== 0;
+      (income.scheduleCNet ?? 0) !== 0 ||
+      (income.other?.otherIncome ?? 0) !== 0 ||
+      (result.form8814Details?.otherIncome ?? 0) !== 0;
     const hasAdjustments =
       (adjustments?.hsaDeduction ?? 0) > 0 ||
       (adjustments?.iraDeduction ?? 0) > 0 ||
@@ -239,7 +241,9 @@ function buildReturnData(
       (result.additionalTaxes?.amt ?? 0) > 0 ||
       (result.additionalTaxes?.seTax ?? 0) > 0 ||
       (result.additionalTaxes?.niit ?? 0) > 0 ||
-      (result.additionalTaxes?.medicareSurtax ?? 0) > 0;
+      (result.additionalTaxes?.medicareSurtax ?? 0) > 0 ||
+      (result.additionalTaxes?.householdEmploymentTax ?? 0) > 0 ||
+      (result.credits.cleanVehicleRepayment ?? 0) > 0;
     if (hasAdditionalTaxes) {
       schedules += buildSchedule2(extendedInput.federalInput, result);
     }
@@ -251,6 +255,12 @@ function buildReturnData(
       (result.credits.llc ?? 0) > 0 ||
       (result.credits.ptc ?? 0) > 0 ||
       (result.credits.otherNonRefundable ?? 0) > 0 ||
+      (result.credits.elderlyDisabled ?? 0) > 0 ||
+      (result.credits.residentialCleanEnergy ?? 0) > 0 ||
+      (result.credits.energyEfficientHomeImprovement ?? 0) > 0 ||
+      (result.credits.cleanVehicle ?? 0) > 0 ||
+      (result.credits.usedCleanVehicle ?? 0) > 0 ||
+      (result.credits.excessSocialSecurity ?? 0) > 0 ||
       (result.credits.otherRefundable ?? 0) > 0;
     if (hasAdditionalCredits) {
       schedules += buildSchedule3(extendedInput.federalInput, result);
@@ -320,6 +330,7 @@ function buildForm1040(input: FederalInput2025, result: FederalResult2025): stri
       <TaxableIncomeAmt>${formatAmount(result.taxableIncome)}</TaxableIncomeAmt>
 
       <!-- Tax Calculation -->
+      ${(result.form8814Details?.totalTax ?? 0) > 0 ? '<Form8814Ind>X</Form8814Ind>' : ''}
       <TaxAmt>${formatAmount(result.taxBeforeCredits)}</TaxAmt>
       <TotalCreditsAmt>${formatAmount(totalCredits)}</TotalCreditsAmt>
       <TotalTaxAmt>${formatAmount(result.totalTax)}</TotalTaxAmt>
@@ -441,13 +452,16 @@ function buildScheduleSE(input: FederalInput2025, result: FederalResult2025): st
 /**
  * Build Schedule 1 (Additional Income and Adjustments)
  */
-function buildSchedule1(input: FederalInput2025, _result: FederalResult2025): string {
+function buildSchedule1(input: FederalInput2025, result: FederalResult2025): string {
   const income = input.income;
   const adjustments = input.adjustments;
 
-  // Part I - Additional Income
+  // Part I - Additional Income (Line 8z includes Form 8814 Line 10)
   const businessIncome = income.scheduleCNet ?? 0;
-  const otherIncome = (income.other?.otherIncome ?? 0) + (income.other?.royalties ?? 0);
+  const otherIncome =
+    (income.other?.otherIncome ?? 0) +
+    (income.other?.royalties ?? 0) +
+    (result.form8814Details?.otherIncome ?? 0);
   const totalAdditionalIncome = businessIncome + otherIncome;
 
   // Part II - Adjustments to Income
@@ -571,12 +585,15 @@ function buildSchedule2(_input: FederalInput2025, result: FederalResult2025): st
   const seTax = result.additionalTaxes?.seTax ?? 0;
   const niit = result.additionalTaxes?.niit ?? 0;
   const additionalMedicare = result.additionalTaxes?.medicareSurtax ?? 0;
+  const householdEmployment = result.additionalTaxes?.householdEmploymentTax ?? 0;
 
-  // Part I total (AMT + excess advance PTC repayment)
-  const partITotal = amt + (result.credits.ptcRepayment ?? 0);
+  const cleanVehicleRepayment = result.credits.cleanVehicleRepayment ?? 0;
+
+  // Part I total (AMT + excess advance PTC repayment + clean vehicle credit repayment)
+  const partITotal = amt + (result.credits.ptcRepayment ?? 0) + cleanVehicleRepayment;
 
   // Part II total (other taxes)
-  const partIITotal = seTax + niit + additionalMedicare;
+  const partIITotal = seTax + householdEmployment + niit + additionalMedicare;
 
   // Total additional taxes
   const totalSchedule2 = partITotal + partIITotal;
@@ -586,10 +603,12 @@ function buildSchedule2(_input: FederalInput2025, result: FederalResult2025): st
       <!-- Part I: Tax -->
       ${amt > 0 ? `<AlternativeMinimumTaxAmt>${formatAmount(amt)}</AlternativeMinimumTaxAmt>` : ''}
       ${(result.credits.ptcRepayment ?? 0) > 0 ? `<ExcessAdvancePTCRepaymentAmt>${formatAmount(result.credits.ptcRepayment)}</ExcessAdvancePTCRepaymentAmt>` : ''}
+      ${cleanVehicleRepayment > 0 ? `<CleanVehCrRepaymentAmt>${formatAmount(cleanVehicleRepayment)}</CleanVehCrRepaymentAmt>` : ''}
       <TotalTaxPart1Amt>${formatAmount(partITotal)}</TotalTaxPart1Amt>
 
       <!-- Part II: Other Taxes -->
       ${seTax > 0 ? `<SelfEmploymentTaxAmt>${formatAmount(seTax)}</SelfEmploymentTaxAmt>` : ''}
+      ${householdEmployment > 0 ? `<HouseholdEmploymentTaxAmt>${formatAmount(householdEmployment)}</HouseholdEmploymentTaxAmt>` : ''}
       ${additionalMedicare > 0 ? `<AddlMedicareTaxAmt>${formatAmount(additionalMedicare)}</AddlMedicareTaxAmt>` : ''}
       ${niit > 0 ? `<NetInvestmentIncomeTaxAmt>${formatAmount(niit)}</NetInvestmentIncomeTaxAmt>` : ''}
       <TotalOtherTaxesAmt>${formatAmount(partIITotal)}</TotalOtherTaxesAmt>
@@ -608,17 +627,34 @@ function buildSchedule3(_input: FederalInput2025, result: FederalResult2025): st
   const aotcNonRefundable = Math.round((result.credits.aotc ?? 0) * 0.6); // 60% non-refundable
   const llc = result.credits.llc ?? 0;
   const adoptionCredit = result.credits.adoptionCreditNonRefundable ?? 0;
+  const elderlyDisabled = result.credits.elderlyDisabled ?? 0;
+  const cleanEnergy = result.credits.residentialCleanEnergy ?? 0;
+  const homeImprovement = result.credits.energyEfficientHomeImprovement ?? 0;
+  const cleanVehicle = result.credits.cleanVehicle ?? 0;
+  const usedCleanVehicle = result.credits.usedCleanVehicle ?? 0;
   const otherNonRefundable = result.credits.otherNonRefundable ?? 0;
 
-  const totalNonrefundable = ftc + aotcNonRefundable + llc + adoptionCredit + otherNonRefundable;
+  const totalNonrefundable =
+    ftc +
+    aotcNonRefundable +
+    llc +
+    adoptionCredit +
+    elderlyDisabled +
+    cleanEnergy +
+    homeImprovement +
+    cleanVehicle +
+    usedCleanVehicle +
+    otherNonRefundable;
 
   // Part II - Other Payments and Refundable Credits
   const ptc = result.credits.ptc ?? 0;
   const aotcRefundable = Math.round((result.credits.aotc ?? 0) * 0.4); // 40% refundable
   const adoptionRefundable = result.credits.adoptionCreditRefundable ?? 0;
+  const excessSocialSecurity = result.credits.excessSocialSecurity ?? 0;
   const otherRefundable = result.credits.otherRefundable ?? 0;
 
-  const totalRefundable = ptc + aotcRefundable + adoptionRefundable + otherRefundable;
+  const totalRefundable =
+    ptc + aotcRefundable + adoptionRefundable + excessSocialSecurity + otherRefundable;
 
   return `
     <IRS1040Schedule3>
@@ -626,6 +662,11 @@ function buildSchedule3(_input: FederalInput2025, result: FederalResult2025): st
       ${ftc > 0 ? `<ForeignTaxCreditAmt>${formatAmount(ftc)}</ForeignTaxCreditAmt>` : ''}
       ${aotcNonRefundable > 0 ? `<EducationCreditAmt>${formatAmount(aotcNonRefundable + llc)}</EducationCreditAmt>` : ''}
       ${llc > 0 && aotcNonRefundable === 0 ? `<LifetimeLearningCreditAmt>${formatAmount(llc)}</LifetimeLearningCreditAmt>` : ''}
+      ${cleanEnergy > 0 ? `<ResidentialCleanEnergyCrAmt>${formatAmount(cleanEnergy)}</ResidentialCleanEnergyCrAmt>` : ''}
+      ${homeImprovement > 0 ? `<EnergyEffcntHmImprvCrAmt>${formatAmount(homeImprovement)}</EnergyEffcntHmImprvCrAmt>` : ''}
+      ${cleanVehicle > 0 ? `<CleanVehicleCreditAmt>${formatAmount(cleanVehicle)}</CleanVehicleCreditAmt>` : ''}
+      ${usedCleanVehicle > 0 ? `<PrevOwnedCleanVehCrAmt>${formatAmount(usedCleanVehicle)}</PrevOwnedCleanVehCrAmt>` : ''}
+      ${elderlyDisabled > 0 ? `<CreditForElderlyOrDisabledAmt>${formatAmount(elderlyDisabled)}</CreditForElderlyOrDisabledAmt>` : ''}
       ${adoptionCredit > 0 ? `<AdoptionCreditAmt>${formatAmount(adoptionCredit)}</AdoptionCreditAmt>` : ''}
       ${otherNonRefundable > 0 ? `<OtherNonrefundableCrAmt>${formatAmount(otherNonRefundable)}</OtherNonrefundableCrAmt>` : ''}
       <TotalNonrefundableCreditsAmt>${formatAmount(totalNonrefundable)}</TotalNonrefundableCreditsAmt>
@@ -634,6 +675,7 @@ function buildSchedule3(_input: FederalInput2025, result: FederalResult2025): st
       ${ptc > 0 ? `<NetPremiumTaxCreditAmt>${formatAmount(ptc)}</NetPremiumTaxCreditAmt>` : ''}
       ${aotcRefundable > 0 ? `<RefundableAOTCAmt>${formatAmount(aotcRefundable)}</RefundableAOTCAmt>` : ''}
       ${adoptionRefundable > 0 ? `<RefundableAdoptionCreditAmt>${formatAmount(adoptionRefundable)}</RefundableAdoptionCreditAmt>` : ''}
+      ${excessSocialSecurity > 0 ? `<ExcessSocialSecurityTaxWithheldAmt>${formatAmount(excessSocialSecurity)}</ExcessSocialSecurityTaxWithheldAmt>` : ''}
       ${otherRefundable > 0 ? `<OtherRefundableCrAmt>${formatAmount(otherRefundable)}</OtherRefundableCrAmt>` : ''}
       <TotalOtherPaymentsRfdblCrAmt>${formatAmount(totalRefundable)}</TotalOtherPaymentsRfdblCrAmt>
     </IRS1040Schedule3>`;
@@ -4,18 +4,47 @@
  */
 
 import type { TaxContextValue } from '../../contexts/TaxContext';
+import type { FilingStatus } from '../../engine/types';
+
+/**
+ * Amounts carried from a return into the next tax year (dollars)
+ */
+export interface PriorYearCarryovers {
+  capitalLoss?: number; // Schedule D capital loss carryover (short- and long-term)
+  nol?: number; // Net operating loss carryforward
+  amtCredit?: number; // Form 8801 minimum tax credit carryforward
+}
+
+/**
+ * Key Form 1040 lines of a client's prior-year return (dollars)
+ */
+export interface PriorYearReturn {
+  taxYear: number;
+  source: 'filed' | 'import' | 'manual'; // Saved original return, JSON export or typed in
+  filingStatus?: FilingStatus;
+  agi: number; // Line 11
+  taxableIncome: number; // Line 15
+  totalTax: number; // Line 24
+  refundOrOwe: number; // Line 35a refund, or Line 37 owed as a negative amount
+  deductions?: number; // Line 12
+  marginalRate?: number; // Percent; derived from the year's brackets when omitted
+  carryovers?: PriorYearCarryovers;
+}
 
 /**
  * Year data for historical comparison
  */
 export interface YearData {
   year: number;
-  income: number;
+  income: number; // AGI
+  taxableIncome: number;
   totalTax: number;
-  effectiveRate: number;
-  marginalRate: number;
-  refund: number;
+  effectiveRate: number; // Percent of AGI
+  marginalRate: number; // Percent
+  refund: number; // Negative when tax was owed
   deductions: number;
+  source: 'current' | PriorYearReturn['source'];
+  carryovers?: PriorYearCarryovers;
 }
 
 /**
@@ -34,7 +63,14 @@ export type ComparisonPeriod = 3 | 5 | 10;
 /**
  * Metrics available for comparison
  */
-export type ComparisonMetric = keyof YearData;
+export type ComparisonMetric =
+  | 'income'
+  | 'taxableIncome'
+  | 'totalTax'
+  | 'effectiveRate'
+  | 'marginalRate'
+  | 'refund'
+  | 'deductions';
 
 /**
  * Trend analysis results
@@ -0,0 +1,640 @@
+/**
+ * Consolidated 1099 importer for broker CSV and TXF exports
+ *
+ * Brokers export consolidated 1099s with named columns, dates and wash sale
+ * amounts, often followed by 1099-DIV and 1099-INT sections. Columns are
+ * found by header name using a broker profile; profiles are detected from
+ * the header row and more can be added with registerBrokerProfile().
+ *
+ * Import runs in two steps so nothing is merged unseen:
+ * 1. parseBrokerCSV / parseTXF read the file and report row errors with
+ *    their line numbers
+ * 2. previewBrokerImport compares the result with the transactions already
+ *    entered; mergeBrokerImport applies the preview
+ *
+ * Amounts are in dollars, matching the 1099-B form entries.
+ */
+
+export type BrokerTransactionField =
+  | 'description'
+  | 'symbol'
+  | 'quantity'
+  | 'dateAcquired'
+  | 'dateSold'
+  | 'proceeds'
+  | 'costBasis'
+  | 'washSaleLossDisallowed'
+  | 'term'
+  | 'gainLoss';
+
+export interface BrokerProfile {
+  id: string;
+  name: string;
+  /** Lower-case header names that identify this broker's export */
+  signature: string[];
+  /** Accepted header names for each field, lower-case */
+  columns: Partial<Record<BrokerTransactionField, string[]>>;
+}
+
+export interface ImportedTransaction {
+  /** 1-based line number in the source file */
+  line: number;
+  description: string;
+  symbol?: string;
+  quantity?: number;
+  dateAcquired: string; // YYYY-MM-DD, 'VARIOUS' or 'INHERITED'
+  dateSold: string; // YYYY-MM-DD
+  proceeds: number;
+  costBasis: number;
+  washSaleLossDisallowed?: number;
+  term?: 'short' | 'long';
+  basisReportedToIRS?: boolean;
+  reportedOn1099B?: boolean;
+}
+
+export interface ImportedDividends {
+  ordinary: number; // 1099-DIV box 1a
+  qualified: number; // box 1b
+  capitalGainDistributions: number; // box 2a
+  federalWithholding: number; // box 4
+  foreignTaxPaid: number; // box 7
+}
+
+export interface ImportedInterest {
+  interest: number; // 1099-INT box 1
+  usTreasuryInterest: number; // box 3
+  federalWithholding: number; // box 4
+  taxExemptInterest: number; // box 8
+}
+
+export interface ImportRowError {
+  line: number;
+  field?: BrokerTransactionField;
+  message: string;
+}
+
+export interface BrokerImportResult {
+  format: 'csv' | 'txf';
+  profile?: string;
+  transactions: ImportedTransaction[];
+  dividends?: ImportedDividends;
+  interest?: ImportedInterest;
+  errors: ImportRowError[];
+}
+
+const GENERIC_COLUMNS: BrokerProfile['columns'] = {
+  description: ['description', 'security description', 'description of property', 'security'],
+  symbol: ['symbol', 'ticker', 'cusip'],
+  quantity: ['quantity', 'shares', 'qty'],
+  dateAcquired: ['date acquired', 'acquired', 'open date', 'purchase date'],
+  dateSold: ['date sold', 'sold', 'close date', 'sale date', 'date sold or disposed'],
+  proceeds: ['proceeds', 'sales proceeds', 'gross proceeds'],
+  costBasis: ['cost basis', 'cost', 'basis', 'cost or other basis'],
+  washSaleLossDisallowed: ['wash sale loss disallowed', 'wash sale', 'wash sale amount'],
+  term: ['term', 'holding period', 'short/long', 'type'],
+  gainLoss: ['gain/loss', 'gain or loss', 'realized gain/loss', 'gain (loss)'],
+};
+
+const profiles: BrokerProfile[] = [
+  {
+    id: 'schwab',
+    name: 'Charles Schwab',
+    signature: ['closed date', 'cost basis (cb)'],
+    columns: {
+      ...GENERIC_COLUMNS,
+      dateAcquired: ['opened date'],
+      dateSold: ['closed date'],
+      costBasis: ['cost basis (cb)'],
+      washSaleLossDisallowed: ['disallowed loss'],
+    },
+  },
+  {
+    id: 'fidelity',
+    name: 'Fidelity',
+    signature: ['date sold or disposed', 'cost or other basis'],
+    columns: {
+      ...GENERIC_COLUMNS,
+      description: ['1a description of property', 'description'],
+      washSaleLossDisallowed: ['wash sale loss disallowed'],
+    },
+  },
+  {
+    id: 'generic',
+    name: 'Generic',
+    signature: [],
+    columns: GENERIC_COLUMNS,
+  },
+];
+
+/**
+ * Add a broker profile; it is tried before the built-in profiles
+ */
+export function registerBrokerProfile(profile: BrokerProfile): void {
+  const existing = profiles.findIndex((p) => p.id === profile.id);
+  if (existing >= 0) {
+    profiles.splice(existing, 1);
+  }
+  profiles.unshift(profile);
+}
+
+export function getBrokerProfiles(): BrokerProfile[] {
+  return [...profiles];
+}
+
+/**
+ * Pick the profile whose signature headers all appear, or the generic profile
+ */
+export function detectBrokerProfile(headers: string[]): BrokerProfile {
+  const normalized = headers.map(normalizeHeader);
+  const match = profiles.find(
+    (p) => p.signature.length > 0 && p.signature.every((h) => normalized.includes(h))
+  );
+  return match ?? profiles.find((p) => p.id === 'generic')!;
+}
+
+/**
+ * Parse a consolidated 1099 CSV export
+ *
+ * @param csv File contents
+ * @param profileId Broker profile to use instead of detecting one
+ */
+export function parseBrokerCSV(csv: string, profileId?: string): BrokerImportResult {
+  const lines = csv.split(/\r?\n/);
+  const result: BrokerImportResult = { format: 'csv', transactions: [], errors: [] };
+
+  let section: '1099-B' | '1099-DIV' | '1099-INT' = '1099-B';
+  let columnIndex: Partial<Record<BrokerTransactionField, number>> | null = null;
+
+  lines.forEach((text, i) => {
+    const line = i + 1;
+    const cells = parseCSVLine(text);
+    if (cells.every((c) => c === '')) {
+      return;
+    }
+
+    const marker = sectionMarker(cells);
+    if (marker) {
+      section = marker;
+      columnIndex = null;
+      return;
+    }
+
+    if (section === '1099-DIV') {
+      result.dividends = readDividendBox(result.dividends ?? emptyDividends(), cells);
+      return;
+    }
+    if (section === '1099-INT') {
+      result.interest = readInterestBox(result.interest ?? emptyInterest(), cells);
+      return;
+    }
+
+    if (!columnIndex) {
+      const profile = profileId
+        ? (profiles.find((p) => p.id === profileId) ?? detectBrokerProfile(cells))
+        : detectBrokerProfile(cells);
+      const index = mapColumns(cells, profile);
+      if (index.proceeds === undefined) {
+        result.errors.push({ line, message: 'Header row with a proceeds column not found' });
+        return;
+      }
+      result.profile = profile.id;
+      columnIndex = index;
+      return;
+    }
+
+    const index = columnIndex;
+    const cell = (field: BrokerTransactionField) => {
+      const col = index[field];
+      return col === undefined ? '' : (cells[col] ?? '');
+    };
+    const transaction = buildTransaction(line, cell, result.errors);
+    if (transaction) {
+      result.transactions.push(transaction);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * TXF (Tax Exchange Format) reference numbers for Form 8949 records
+ */
+const TXF_CODES: Record<
+  string,
+  Pick<ImportedTransaction, 'term' | 'basisReportedToIRS' | 'reportedOn1099B'>
+> = {
+  '321': { term: 'short' },
+  '323': { term: 'long' },
+  '711': { term: 'short', basisReportedToIRS: true },
+  '712': { term: 'short', basisReportedToIRS: false },
+  '713': { term: 'long', basisReportedToIRS: true },
+  '714': { term: 'long', basisReportedToIRS: false },
+  '715': { term: 'short', reportedOn1099B: false },
+  '716': { term: 'long', reportedOn1099B: false },
+};
+
+/**
+ * Parse a TXF v042 export
+ *
+ * Each record ends with '^'. Sale records (format 5) list the description
+ * (P), date acquired and date sold (D), then cost basis, proceeds and an
+ * optional wash sale amount ($).
+ */
+export function parseTXF(txf: string): BrokerImportResult {
+  const result: BrokerImportResult = { format: 'txf', transactions: [], errors: [] };
+  const lines = txf.split(/\r?\n/);
+
+  let record: {
+    line: number;
+    code?: string;
+    text: string[];
+    dates: string[];
+    amounts: string[];
+  } | null = null;
+
+  lines.forEach((raw, i) => {
+    const text = raw.trim();
+    if (!text) {
+      return;
+    }
+    const tag = text[0];
+    const value = text.slice(1).trim();
+
+    if (tag === 'T') {
+      record = { line: i + 1, text: [], dates: [], amounts: [] };
+      return;
+    }
+    if (!record) {
+      return; // File header (V, A, D before the first record)
+    }
+    if (tag === 'N') {
+      record.code = value;
+    } else if (tag === 'P') {
+      record.text.push(value);
+    } else if (tag === 'D') {
+      record.dates.push(value);
+    } else if (tag === '$') {
+      record.amounts.push(value);
+    } else if (tag === '^') {
+      const current = record;
+      record = null;
+      const flags = current.code ? TXF_CODES[current.code] : undefined;
+      if (!flags) {
+        return; // Not a capital gain record
+      }
+      const [costBasis = '', proceeds = '', washSale = ''] = current.amounts;
+      const [dateAcquired = '', dateSold = ''] = current.dates;
+      const fields: Partial<Record<BrokerTransactionField, string>> = {
+        description: current.text.join(' '),
+        dateAcquired,
+        dateSold,
+        proceeds,
+        costBasis,
+        washSaleLossDisallowed: washSale,
+      };
+      const transaction = buildTransaction(current.line, (f) => fields[f] ?? '', result.errors);
+      if (transaction) {
+        result.transactions.push({ ...transaction, ...flags });
+      }
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Parse a broker export, choosing TXF or CSV from the file name or contents
+ */
+export function parseBrokerFile(fileName: string, contents: string): BrokerImportResult {
+  const isTXF = /\.txf$/i.test(fileName) || /^V0\d\d\s*$/m.test(contents.slice(0, 20));
+  return isTXF ? parseTXF(contents) : parseBrokerCSV(contents);
+}
+
+export interface BrokerImportPreview<T> {
+  /** Imported rows not already entered */
+  added: ImportedTransaction[];
+  /** Imported rows that match an entered transaction with different amounts */
+  changed: Array<{ existing: T; imported: ImportedTransaction }>;
+  /** Imported rows already entered with the same amounts */
+  unchanged: ImportedTransaction[];
+}
+
+/**
+ * Compare imported rows with the transactions already entered
+ *
+ * Rows match on description and dates; amounts decide whether a match
+ * changed.
+ *
+ * @param existing Transactions already entered
+ * @param imported Rows from parseBrokerCSV / parseTXF
+ * @param toImported Reads an entered transaction in imported form
+ */
+export function previewBrokerImport<T>(
+  existing: T[],
+  imported: ImportedTransaction[],
+  toImported: (transaction: T) => Omit<ImportedTransaction, 'line'>
+): BrokerImportPreview<T> {
+  const preview: BrokerImportPreview<T> = { added: [], changed: [], unchanged: [] };
+  const remaining = existing.map((transaction) => ({ transaction, key: toImported(transaction) }));
+
+  for (const row of imported) {
+    const index = remaining.findIndex(({ key }) => matchKey(key) === matchKey(row));
+    if (index < 0) {
+      preview.added.push(row);
+      continue;
+    }
+    const [match] = remaining.splice(index, 1);
+    if (sameAmounts(match!.key, row)) {
+      preview.unchanged.push(row);
+    } else {
+      preview.changed.push({ existing: match!.transaction, imported: row });
+    }
+  }
+
+  return preview;
+}
+
+/**
+ * Apply a preview: append added rows and, if requested, replace changed ones
+ *
+ * @param existing Transactions already entered
+ * @param preview Result of previewBrokerImport
+ * @param fromImported Builds an entered transaction from an imported row
+ * @param replaceChanged Overwrite entered transactions whose amounts differ
+ */
+export function mergeBrokerImport<T>(
+  existing: T[],
+  preview: BrokerImportPreview<T>,
+  fromImported: (row: ImportedTransaction) => T,
+  replaceChanged = true
+): T[] {
+  const merged = existing.map((transaction) => {
+    const change = replaceChanged && preview.changed.find((c) => c.existing === transaction);
+    return change ? fromImported(change.imported) : transaction;
+  });
+  return [...merged, ...preview.added.map(fromImported)];
+}
+
+function buildTransaction(
+  line: number,
+  cell: (field: BrokerTransactionField) => string,
+  errors: ImportRowError[]
+): ImportedTransaction | null {
+  const rowErrors: ImportRowError[] = [];
+  const fail = (field: BrokerTransactionField, message: string) =>
+    rowErrors.push({ line, field, message });
+
+  const description = cell('description').trim() || cell('symbol').trim();
+  if (!description) {
+    fail('description', 'Description is missing');
+  }
+
+  const proceeds = parseAmount(cell('proceeds'));
+  if (proceeds === null) {
+    fail('proceeds', `Proceeds "${cell('proceeds')}" is not a number`);
+  }
+
+  // Cost basis may be blank when it was not reported to the IRS
+  const basisText = cell('costBasis').trim();
+  const costBasis = basisText ? parseAmount(basisText) : 0;
+  if (costBasis === null) {
+    fail('costBasis', `Cost basis "${basisText}" is not a number`);
+  }
+
+  const dateSold = parseDate(cell('dateSold'));
+  if (!dateSold || !/^\d/.test(dateSold)) {
+    fail('dateSold', `Date sold "${cell('dateSold')}" is not a valid date`);
+  }
+  const acquiredText = cell('dateAcquired').trim();
+  const dateAcquired = acquiredText ? parseDate(acquiredText) : 'VARIOUS';
+  if (!dateAcquired) {
+    fail('dateAcquired', `Date acquired "${acquiredText}" is not a valid date`);
+  }
+
+  const washText = cell('washSaleLossDisallowed').trim();
+  const washSale = washText ? parseAmount(washText) : 0;
+  if (washSale === null) {
+    fail('washSaleLossDisallowed', `Wash sale amount "${washText}" is not a number`);
+  }
+
+  const gainText = cell('gainLoss').trim();
+  if (gainText && proceeds !== null && costBasis !== null && washSale !== null) {
+    const reported = parseAmount(gainText);
+    const computed = proceeds - costBasis + washSale;
+    if (reported !== null && Math.abs(reported - computed) >= 0.01) {
+      fail(
+        'gainLoss',
+        `Gain/loss ${reported} does not match proceeds less basis (${computed.toFixed(2)})`
+      );
+    }
+  }
+
+  if (rowErrors.length > 0) {
+    errors.push(...rowErrors);
+    return null;
+  }
+
+  const symbol = cell('symbol').trim();
+  const quantity = parseAmount(cell('quantity'));
+  const term = parseTerm(cell('term'));
+
+  return {
+    line,
+    description,
+    ...(symbol && { symbol }),
+    ...(quantity !== null && quantity > 0 && { quantity }),
+    dateAcquired: dateAcquired!,
+    dateSold: dateSold!,
+    proceeds: proceeds!,
+    costBasis: costBasis!,
+    ...(washSale ? { washSaleLossDisallowed: washSale } : {}),
+    ...(term && { term }),
+    ...(!basisText && { basisReportedToIRS: false }),
+  };
+}
+
+function mapColumns(
+  headers: string[],
+  profile: BrokerProfile
+): Partial<Record<BrokerTransactionField, number>> {
+  const normalized = headers.map(normalizeHeader);
+  const index: Partial<Record<BrokerTransactionField, number>> = {};
+  (Object.keys(profile.columns) as BrokerTransactionField[]).forEach((field) => {
+    const names = profile.columns[field] ?? [];
+    const col = normalized.findIndex((h) => names.includes(h));
+    if (col >= 0) {
+      index[field] = col;
+    }
+  });
+  return index;
+}
+
+function sectionMarker(cells: string[]): '1099-B' | '1099-DIV' | '1099-INT' | null {
+  const filled = cells.filter(Boolean);
+  if (filled.length !== 1) {
+    return null;
+  }
+  const match = /^(?:form\s+)?1099-(b|div|int)\b/i.exec(filled[0]!);
+  return match ? (`1099-${match[1]!.toUpperCase()}` as '1099-B' | '1099-DIV' | '1099-INT') : null;
+}
+
+const emptyDividends = (): ImportedDividends => ({
+  ordinary: 0,
+  qualified: 0,
+  capitalGainDistributions: 0,
+  federalWithholding: 0,
+  foreignTaxPaid: 0,
+});
+
+const emptyInterest = (): ImportedInterest => ({
+  interest: 0,
+  usTreasuryInterest: 0,
+  federalWithholding: 0,
+  taxExemptInterest: 0,
+});
+
+const DIVIDEND_BOXES: Record<string, keyof ImportedDividends> = {
+  '1a': 'ordinary',
+  '1b': 'qualified',
+  '2a': 'capitalGainDistributions',
+  '4': 'federalWithholding',
+  '7': 'foreignTaxPaid',
+};
+
+const INTEREST_BOXES: Record<string, keyof ImportedInterest> = {
+  '1': 'interest',
+  '3': 'usTreasuryInterest',
+  '4': 'federalWithholding',
+  '8': 'taxExemptInterest',
+};
+
+/**
+ * Read a "Box 1a ..., amount" row; amounts add up across payers
+ */
+function readDividendBox(totals: ImportedDividends, cells: string[]): ImportedDividends {
+  const box = readBox(cells, DIVIDEND_BOXES);
+  return box ? { ...totals, [box.key]: totals[box.key] + box.amount } : totals;
+}
+
+function readInterestBox(totals: ImportedInterest, cells: string[]): ImportedInterest {
+  const box = readBox(cells, INTEREST_BOXES);
+  return box ? { ...totals, [box.key]: totals[box.key] + box.amount } : totals;
+}
+
+function readBox<K extends string>(
+  cells: string[],
+  boxes: Record<string, K>
+): { key: K; amount: number } | null {
+  const match = /^box\s*(\d+[a-z]?)\b/i.exec(cells[0] ?? '');
+  const key = match ? boxes[match[1]!.toLowerCase()] : undefined;
+  const amount = parseAmount(cells[cells.length - 1] ?? '');
+  return key && amount !== null ? { key, amount } : null;
+}
+
+/**
+ * Split one CSV line, honouring double-quoted cells
+ */
+export function parseCSVLine(text: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Parse "$1,234.56", "(1,234.56)" or "-1234.56"; blank or invalid is null
+ */
+export function parseAmount(text: string): number | null {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return null;
+  }
+  const negative = /^\(.*\)$/.test(trimmed);
+  const n = Number(trimmed.replace(/[$,()\s]/g, ''));
+  if (!Number.isFinite(n)) {
+    return null;
+  }
+  return negative ? -n : n;
+}
+
+/**
+ * Normalize MM/DD/YYYY, MM/DD/YY or YYYY-MM-DD to YYYY-MM-DD
+ * 'Various' and 'Inherited' are kept as upper-case words
+ */
+function parseDate(text: string): string | null {
+  const trimmed = text.trim();
+  if (/^(various|inherited)$/i.test(trimmed)) {
+    return trimmed.toUpperCase();
+  }
+  let year: number;
+  let month: number;
+  let day: number;
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(trimmed);
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/.exec(trimmed);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (us) {
+    [month, day, year] = [Number(us[1]), Number(us[2]), Number(us[3])];
+    if (year < 100) {
+      year += 2000;
+    }
+  } else {
+    return null;
+  }
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function parseTerm(text: string): 'short' | 'long' | undefined {
+  const lower = text.trim().toLowerCase();
+  if (lower.startsWith('s')) {
+    return 'short';
+  }
+  if (lower.startsWith('l')) {
+    return 'long';
+  }
+  return undefined;
+}
+
+function matchKey(row: Omit<ImportedTransaction, 'line'>): string {
+  return [row.description.trim().toLowerCase(), row.dateAcquired, row.dateSold].join('|');
+}
+
+function sameAmounts(
+  a: Omit<ImportedTransaction, 'line'>,
+  b: Omit<ImportedTransaction, 'line'>
+): boolean {
+  return (
+    Math.abs(a.proceeds - b.proceeds) < 0.005 &&
+    Math.abs(a.costBasis - b.costBasis) < 0.005 &&
+    Math.abs((a.washSaleLossDisallowed ?? 0) - (b.washSaleLossDisallowed ?? 0)) < 0.005
+  );
+}
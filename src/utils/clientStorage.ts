@@ -1,4 +1,7 @@
 import { snapshotSchema, type Snapshot } from './schemas';
+import type { OriginalReturnSnapshot } from '../engine/types';
+import type { PriorYearReturn } from '../types/ui/comparison';
+import { upsertPriorYearReturn } from './priorYearHistory';
 
 const INDEX_KEY = 'utc:clients:index';
 const CLIENT_KEY = (id: string) => `utc:client:${id}`;
@@ -58,6 +61,37 @@ export function loadClient(id: string): Snapshot | null {
   }
 }
 
+/**
+ * Record the return as filed so it can be amended with Form 1040-X later.
+ * A client has one original return; filing again replaces it.
+ */
+export function saveOriginalReturn(id: string, original: OriginalReturnSnapshot): ClientIndexItem {
+  const snapshot = loadClient(id);
+  if (!snapshot) throw new Error('Client not found');
+  const row = readIndex().find((r) => r.id === id);
+  return saveClient(row?.name ?? '', { ...snapshot, originalReturn: original }, id);
+}
+
+export function loadOriginalReturn(id: string): OriginalReturnSnapshot | null {
+  return loadClient(id)?.originalReturn ?? null;
+}
+
+/**
+ * Store a prior-year return for the Multi-Year comparison,
+ * replacing any return already stored for that year.
+ */
+export function savePriorYearReturn(id: string, record: PriorYearReturn): ClientIndexItem {
+  const snapshot = loadClient(id);
+  if (!snapshot) throw new Error('Client not found');
+  const row = readIndex().find((r) => r.id === id);
+  const priorYears = upsertPriorYearReturn(snapshot.priorYears ?? [], record);
+  return saveClient(row?.name ?? '', { ...snapshot, priorYears }, id);
+}
+
+export function loadPriorYearReturns(id: string): PriorYearReturn[] {
+  return loadClient(id)?.priorYears ?? [];
+}
+
 export function deleteClient(id: string) {
   const index = readIndex().filter((r) => r.id !== id);
   writeIndex(index);
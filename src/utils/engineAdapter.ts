@@ -1,6 +1,34 @@
 // Adapter to convert UI data structures to engine format with strong typing
-import { computeFederal2025 } from '../engine';
-import type { FederalInput2025, FederalResult2025, FilingStatus } from '../engine/types';
+import {
+  computeAmendedReturn,
+  computeFederal,
+  computeFederal2025,
+  computeRateCurve,
+  optimizeTaxPlan,
+  planRothConversions,
+  runWhatIfScenarios,
+  applyW2sToFederalInput,
+  summarizeW2s,
+  type AmountLever,
+  type OptimizationPlan,
+  type PlanningReturn,
+  type RateCurve,
+  type RateCurveInput,
+  type RothConversionPlan,
+  type RothConversionPlanInput,
+  type WhatIfResult,
+  type WhatIfScenario,
+} from '../engine';
+import type {
+  AmendedReturnInput,
+  CapitalAssetDisposition,
+  FederalInput2025,
+  FederalResult2025,
+  FilingStatus,
+  Form1040XResult,
+  FormW2,
+  OriginalReturnSnapshot,
+} from '../engine/types';
 import type { StateResult, StateTaxInput } from '../engine/types/stateTax';
 import { safeCurrencyToCents } from '../engine/util/money';
 import { getStateCalculator } from '../engine/states/registry';
@@ -138,6 +166,27 @@ function validateFederalResult(result: FederalResult2025): void {
   if (result.credits.otherRefundable !== undefined) {
     validateNonNegative(result.credits.otherRefundable, 'credits.otherRefundable');
   }
+  if (result.credits.elderlyDisabled !== undefined) {
+    validateNonNegative(result.credits.elderlyDisabled, 'credits.elderlyDisabled');
+  }
+  if (result.credits.residentialCleanEnergy !== undefined) {
+    validateNonNegative(result.credits.residentialCleanEnergy, 'credits.residentialCleanEnergy');
+  }
+  if (result.credits.energyEfficientHomeImprovement !== undefined) {
+    validateNonNegative(
+      result.credits.energyEfficientHomeImprovement,
+      'credits.energyEfficientHomeImprovement'
+    );
+  }
+  if (result.credits.cleanVehicle !== undefined) {
+    validateNonNegative(result.credits.cleanVehicle, 'credits.cleanVehicle');
+  }
+  if (result.credits.usedCleanVehicle !== undefined) {
+    validateNonNegative(result.credits.usedCleanVehicle, 'credits.usedCleanVehicle');
+  }
+  if (result.credits.excessSocialSecurity !== undefined) {
+    validateNonNegative(result.credits.excessSocialSecurity, 'credits.excessSocialSecurity');
+  }
 }
 
 /**
@@ -184,6 +233,20 @@ export interface UIPersonalInfo {
   isMaryland?: boolean;
 }
 
+/**
+ * One Form 1099-B sale entered in the UI (amounts as strings)
+ */
+export interface UICapitalTransaction {
+  description: string;
+  dateAcquired: string;
+  dateSold: string;
+  proceeds: string;
+  cost: string;
+  washSale?: boolean;
+  washSaleLossDisallowed?: string; // Box 1g; the whole loss is disallowed when flagged without it
+  shortLong?: 'auto' | 'short' | 'long'; // 'auto' determines the term from the dates
+}
+
 /**
  * Income data from UI forms (all amounts as strings)
  */
@@ -203,6 +266,18 @@ export interface UIIncomeData {
   [key: string]: string | undefined;
 }
 
+/**
+ * Forms entered item by item in the UI
+ *
+ * Capital gains entered as totals in UIIncomeData are reported alongside
+ * the 1099-B sales, so the totals should not repeat those sales. W-2s
+ * replace the wages and the federal and state withholding entered as totals.
+ */
+export interface UITaxForms {
+  capitalTransactions?: UICapitalTransaction[];
+  w2Forms?: FormW2[]; // Amounts in cents, as read by importW2FormsCSV
+}
+
 /**
  * Schedule K-1 partnership/S-corp income from UI
  */
@@ -295,6 +370,7 @@ interface PersonIncome {
   capitalGainsShort: number;
   scheduleCNet: number;
   otherIncome: number;
+  socialSecurityBenefits: number;
 }
 
 const VALID_FILING_STATUSES: FilingStatus[] = [
@@ -333,9 +409,32 @@ const createPrimaryIncome = (incomeData: UIIncomeData): PersonIncome => {
     capitalGainsShort: shortTerm,
     scheduleCNet: safeCurrencyToCents(incomeData.businessIncome),
     otherIncome: safeCurrencyToCents(incomeData.otherIncome),
+    socialSecurityBenefits: safeCurrencyToCents(incomeData.socialSecurityBenefits),
   };
 };
 
+/**
+ * Map 1099-B sales to Form 8949 dispositions, keeping the wash sale adjustment
+ */
+const buildCapitalAssetDispositions = (
+  transactions: UICapitalTransaction[] = []
+): CapitalAssetDisposition[] =>
+  transactions.map((transaction) => {
+    const washSaleLossDisallowed = safeCurrencyToCents(transaction.washSaleLossDisallowed);
+    return {
+      description: transaction.description,
+      dateAcquired: transaction.dateAcquired,
+      dateSold: transaction.dateSold,
+      proceeds: safeCurrencyToCents(transaction.proceeds),
+      costBasis: safeCurrencyToCents(transaction.cost),
+      ...(transaction.shortLong &&
+        transaction.shortLong !== 'auto' && { term: transaction.shortLong }),
+      ...(washSaleLossDisallowed > 0
+        ? { washSaleLossDisallowed }
+        : transaction.washSale && { washSale: true }),
+    };
+  });
+
 const createSpouseIncome = (spouseInfo: UISpouseInfo): PersonIncome => ({
   wages: safeCurrencyToCents(spouseInfo.wages),
   interest: safeCurrencyToCents(spouseInfo.interestIncome),
@@ -345,6 +444,7 @@ const createSpouseIncome = (spouseInfo: UISpouseInfo): PersonIncome => ({
   capitalGainsShort: 0,
   scheduleCNet: safeCurrencyToCents(spouseInfo.businessIncome),
   otherIncome: safeCurrencyToCents(spouseInfo.otherIncome),
+  socialSecurityBenefits: 0,
 });
 
 const buildJointIncome = (
@@ -369,6 +469,8 @@ const buildJointIncome = (
   const capitalGainsShort =
     primaryIncome.capitalGainsShort + (spouseIncome?.capitalGainsShort ?? 0);
   const otherIncome = primaryIncome.otherIncome + (spouseIncome?.otherIncome ?? 0);
+  const socialSecurityBenefits =
+    primaryIncome.socialSecurityBenefits + (spouseIncome?.socialSecurityBenefits ?? 0);
 
   return {
     wages,
@@ -393,6 +495,9 @@ const buildJointIncome = (
       royalties,
       guaranteedPayments,
     },
+    ...(socialSecurityBenefits > 0 && {
+      socialSecurity: { grossBenefits: socialSecurityBenefits },
+    }),
   };
 };
 
@@ -435,6 +540,10 @@ const buildSeparateIncome = (
         royalties: 0,
         guaranteedPayments: 0,
       },
+  // Spouses comparing joint vs. separate returns are assumed to live together
+  ...(personIncome.socialSecurityBenefits > 0 && {
+    socialSecurity: { grossBenefits: personIncome.socialSecurityBenefits, livedWithSpouse: true },
+  }),
 });
 
 const buildJointPayments = (
@@ -453,6 +562,12 @@ const buildJointPayments = (
   };
 };
 
+/**
+ * State withholding for one state from W-2 boxes 15 and 17
+ */
+const calculateW2StateWithheld = (w2Forms: FormW2[], stateCode: string): number =>
+  summarizeW2s(w2Forms).stateWithheldByState[stateCode.toUpperCase()] ?? 0;
+
 /**
  * Calculate total state withholding from payments data
  * NOTE: State withholding is NOT part of federal input - it belongs to state tax calculation
@@ -483,6 +598,77 @@ const buildSpousePayments = (spouseInfo: UISpouseInfo): FederalInput2025['paymen
   // stateWithheld removed - not part of federal input
 });
 
+/**
+ * Split a joint return into each spouse's married filing separately return
+ *
+ * The taxpayer keeps the dependents, adjustments, itemized deductions and
+ * household K-1 income; each spouse reports their own income and withholding.
+ */
+const buildSeparateFederalInputs = (
+  jointInput: FederalInput2025,
+  personalInfo: UIPersonalInfo,
+  incomeData: UIIncomeData,
+  spouseInfo: UISpouseInfo,
+  paymentsData: UIPaymentsData
+): [FederalInput2025, FederalInput2025] => {
+  const dependents = parseDependents(personalInfo.dependents);
+  const primaryIncome = createPrimaryIncome(incomeData);
+  const spouseIncome = createSpouseIncome(spouseInfo);
+  const jointIncome = jointInput.income;
+
+  const taxpayerInput: FederalInput2025 = {
+    filingStatus: 'marriedSeparately',
+    primary: jointInput.primary,
+    spouse: undefined,
+    dependents,
+    qualifyingChildren: jointInput.qualifyingChildren,
+    qualifyingRelatives: jointInput.qualifyingRelatives,
+    educationExpenses: jointInput.educationExpenses,
+    income: buildSeparateIncome(primaryIncome, true, jointIncome),
+    adjustments: jointInput.adjustments,
+    itemized: jointInput.itemized,
+    payments: buildTaxpayerPayments(paymentsData),
+    ...(jointInput.retirementDistributions && {
+      retirementDistributions: jointInput.retirementDistributions,
+    }),
+    ...(jointInput.capitalAssetDispositions && {
+      capitalAssetDispositions: jointInput.capitalAssetDispositions,
+    }),
+  };
+
+  const spouseInput: FederalInput2025 = {
+    filingStatus: 'marriedSeparately',
+    primary: {
+      birthDate: spouseInfo.birthDate || undefined,
+      isBlind: Boolean(spouseInfo.isBlind),
+      ssn: spouseInfo.ssn,
+    },
+    spouse: undefined,
+    dependents: 0,
+    qualifyingChildren: [],
+    qualifyingRelatives: [],
+    educationExpenses: [],
+    income: buildSeparateIncome(spouseIncome, false, jointIncome),
+    adjustments: {
+      studentLoanInterest: 0,
+      hsaDeduction: 0,
+      iraDeduction: 0,
+      seTaxDeduction: 0,
+      businessExpenses: 0,
+    },
+    itemized: {
+      stateLocalTaxes: 0,
+      mortgageInterest: 0,
+      charitable: 0,
+      medical: 0,
+      other: 0,
+    },
+    payments: buildSpousePayments(spouseInfo),
+  };
+
+  return [taxpayerInput, spouseInput];
+};
+
 /**
  * Convert UI data to engine input format (strongly typed)
  */
@@ -493,7 +679,8 @@ export function convertUIToEngineInput(
   businessDetails: UIBusinessDetails,
   paymentsData: UIPaymentsData,
   deductions: UIDeductions,
-  spouseInfo: UISpouseInfo
+  spouseInfo: UISpouseInfo,
+  forms: UITaxForms = {}
 ): EngineConversionResult {
   const filingStatus = normalizeFilingStatus(personalInfo.filingStatus);
   const dependents = parseDependents(personalInfo.dependents);
@@ -579,7 +766,11 @@ export function convertUIToEngineInput(
 
   const payments = buildJointPayments(paymentsData, spouseInfo, filingStatus);
 
-  const federalInput: FederalInput2025 = {
+  // UI collects a single retirement income total; treat it as a normal, fully taxable 1099-R
+  const retirementIncome = safeCurrencyToCents(incomeData.retirementIncome);
+  const capitalAssetDispositions = buildCapitalAssetDispositions(forms.capitalTransactions);
+
+  const enteredInput: FederalInput2025 = {
     filingStatus,
     primary,
     spouse,
@@ -592,7 +783,14 @@ export function convertUIToEngineInput(
     itemized,
     forceItemized: shouldForceItemized,
     payments,
+    ...(retirementIncome > 0 && {
+      retirementDistributions: [{ grossDistribution: retirementIncome, distributionCode: '7' }],
+    }),
+    ...(capitalAssetDispositions.length > 0 && { capitalAssetDispositions }),
   };
+  const federalInput = forms.w2Forms?.length
+    ? applyW2sToFederalInput(enteredInput, forms.w2Forms)
+    : enteredInput;
 
   // Use state field (primary), fall back to isMaryland for backward compatibility
   const stateCode = personalInfo.state || (personalInfo.isMaryland ? 'MD' : null);
@@ -609,6 +807,9 @@ export function convertUIToEngineInput(
 /**
  * Build state tax input from federal results
  * Universal function for all states
+ *
+ * Federally taxable Social Security is passed as a state subtraction;
+ * states that exempt benefits remove it from their starting AGI.
  */
 const buildStateTaxInput = (
   stateCode: string,
@@ -628,6 +829,9 @@ const buildStateTaxInput = (
   stateWithheld,
   stateEstPayments,
   stateDependents,
+  ...((federalResult.taxableSocialSecurity ?? 0) > 0 && {
+    stateSubtractions: { socialSecurityBenefits: federalResult.taxableSocialSecurity },
+  }),
 });
 
 export interface UITaxResult {
@@ -680,6 +884,7 @@ export interface TaxCalculationResult {
  * @param deductions - Deductions data from UI
  * @param spouseInfo - Spouse information from UI
  * @param taxYear - Tax year for calculation (defaults to current year)
+ * @param forms - Forms entered item by item, such as 1099-B sales
  */
 export function calculateTaxResultsWithEngine(
   personalInfo: UIPersonalInfo,
@@ -689,7 +894,8 @@ export function calculateTaxResultsWithEngine(
   paymentsData: UIPaymentsData,
   deductions: UIDeductions,
   spouseInfo: UISpouseInfo,
-  taxYear: number = DEFAULT_TAX_YEAR
+  taxYear: number = DEFAULT_TAX_YEAR,
+  forms: UITaxForms = {}
 ): TaxCalculationResult {
   // Get tax year configuration (validates and potentially falls back)
   const taxConfig = getTaxYearConfig(taxYear);
@@ -707,15 +913,14 @@ export function calculateTaxResultsWithEngine(
       businessDetails,
       paymentsData,
       deductions,
-      spouseInfo
+      spouseInfo,
+      forms
     );
 
     // Runtime validation of federal input
     validateFederalInput(conversion.federalInput);
 
-    // TODO: In future, use taxConfig to parameterize computation
-    // For now, we still use computeFederal2025 but track the year
-    const federalResult = computeFederal2025(conversion.federalInput);
+    const federalResult = computeFederal(conversion.federalInput, taxConfig.taxYear);
 
     // Runtime validation of federal output
     validateFederalResult(federalResult);
@@ -724,11 +929,9 @@ export function calculateTaxResultsWithEngine(
     if (conversion.stateCode) {
       const stateCalc = getStateCalculator(conversion.stateCode);
       if (stateCalc) {
-        const stateWithheld = calculateStateWithheld(
-          paymentsData,
-          spouseInfo,
-          conversion.federalInput.filingStatus
-        );
+        const stateWithheld = forms.w2Forms?.length
+          ? calculateW2StateWithheld(forms.w2Forms, conversion.stateCode)
+          : calculateStateWithheld(paymentsData, spouseInfo, conversion.federalInput.filingStatus);
         const stateInput = buildStateTaxInput(
           conversion.stateCode,
           conversion.county,
@@ -836,56 +1039,13 @@ export function calculateFilingComparisonWithEngine(
       }
     }
 
-    const dependents = parseDependents(personalInfo.dependents);
-    const primaryIncome = createPrimaryIncome(incomeData);
-    const spouseIncome = createSpouseIncome(spouseInfo);
-    const jointIncome = conversion.federalInput.income;
-
-    const taxpayerInput: FederalInput2025 = {
-      filingStatus: 'marriedSeparately',
-      primary: conversion.federalInput.primary,
-      spouse: undefined,
-      dependents,
-      qualifyingChildren: conversion.federalInput.qualifyingChildren,
-      qualifyingRelatives: conversion.federalInput.qualifyingRelatives,
-      educationExpenses: conversion.federalInput.educationExpenses,
-      income: buildSeparateIncome(primaryIncome, true, jointIncome),
-      adjustments: conversion.federalInput.adjustments,
-      itemized: conversion.federalInput.itemized,
-      payments: buildTaxpayerPayments(paymentsData),
-    };
-
-    const spousePrimary: FederalInput2025['primary'] = {
-      birthDate: spouseInfo.birthDate || undefined,
-      isBlind: Boolean(spouseInfo.isBlind),
-      ssn: spouseInfo.ssn,
-    };
-
-    const spouseInput: FederalInput2025 = {
-      filingStatus: 'marriedSeparately',
-      primary: spousePrimary,
-      spouse: undefined,
-      dependents: 0,
-      qualifyingChildren: [],
-      qualifyingRelatives: [],
-      educationExpenses: [],
-      income: buildSeparateIncome(spouseIncome, false, jointIncome),
-      adjustments: {
-        studentLoanInterest: 0,
-        hsaDeduction: 0,
-        iraDeduction: 0,
-        seTaxDeduction: 0,
-        businessExpenses: 0,
-      },
-      itemized: {
-        stateLocalTaxes: 0,
-        mortgageInterest: 0,
-        charitable: 0,
-        medical: 0,
-        other: 0,
-      },
-      payments: buildSpousePayments(spouseInfo),
-    };
+    const [taxpayerInput, spouseInput] = buildSeparateFederalInputs(
+      conversion.federalInput,
+      personalInfo,
+      incomeData,
+      spouseInfo,
+      paymentsData
+    );
 
     const taxpayerFederal = computeFederal2025(taxpayerInput);
     const spouseFederal = computeFederal2025(spouseInput);
@@ -957,6 +1117,291 @@ export function calculateFilingComparisonWithEngine(
   }
 }
 
+/**
+ * Build the federal and state return for planning from UI data
+ *
+ * The state input is rebuilt from each scenario's federal result, so state
+ * tax follows the federal changes.
+ */
+export function buildPlanningReturnFromUI(
+  personalInfo: UIPersonalInfo,
+  incomeData: UIIncomeData,
+  k1Data: UIK1Data,
+  businessDetails: UIBusinessDetails,
+  paymentsData: UIPaymentsData,
+  deductions: UIDeductions,
+  spouseInfo: UISpouseInfo,
+  taxYear: number = DEFAULT_TAX_YEAR
+): PlanningReturn {
+  const conversion = convertUIToEngineInput(
+    personalInfo,
+    incomeData,
+    k1Data,
+    businessDetails,
+    paymentsData,
+    deductions,
+    spouseInfo
+  );
+  validateFederalInput(conversion.federalInput);
+
+  const { federalInput, stateCode } = conversion;
+  const stateWithheld = calculateStateWithheld(paymentsData, spouseInfo, federalInput.filingStatus);
+
+  return {
+    federalInput,
+    taxYear: getTaxYearConfig(taxYear).taxYear,
+    ...(stateCode &&
+      getStateCalculator(stateCode) && {
+        buildStateInput: (federalResult: FederalResult2025) =>
+          buildStateTaxInput(
+            stateCode,
+            conversion.county,
+            conversion.city,
+            federalInput.filingStatus,
+            federalResult,
+            stateWithheld,
+            undefined,
+            conversion.dependents
+          ),
+      }),
+  };
+}
+
+/**
+ * Run what-if planning scenarios against the return entered in the UI
+ *
+ * @param scenarios - Scenarios with amounts in cents
+ * @returns Federal and state savings per scenario, or null if the UI data is invalid
+ */
+export function calculateWhatIfWithEngine(
+  personalInfo: UIPersonalInfo,
+  incomeData: UIIncomeData,
+  k1Data: UIK1Data,
+  businessDetails: UIBusinessDetails,
+  paymentsData: UIPaymentsData,
+  deductions: UIDeductions,
+  spouseInfo: UISpouseInfo,
+  scenarios: WhatIfScenario[],
+  taxYear: number = DEFAULT_TAX_YEAR
+): WhatIfResult[] | null {
+  try {
+    const planning = buildPlanningReturnFromUI(
+      personalInfo,
+      incomeData,
+      k1Data,
+      businessDetails,
+      paymentsData,
+      deductions,
+      spouseInfo,
+      taxYear
+    );
+    return runWhatIfScenarios(planning, scenarios);
+  } catch (error) {
+    logger.error('What-if scenario error:', error instanceof Error ? error : undefined);
+    return null;
+  }
+}
+
+export interface UIOptimizationOptions {
+  levers: AmountLever[]; // Amounts in cents
+  tryItemizing?: boolean;
+  compareSeparate?: boolean; // Married filing jointly: also search separate returns
+}
+
+/**
+ * Search planning levers for the lowest federal and state liability on the
+ * return entered in the UI
+ *
+ * @returns Ranked plan with per-lever savings, or null if the UI data is invalid
+ */
+export function optimizeTaxPlanWithEngine(
+  personalInfo: UIPersonalInfo,
+  incomeData: UIIncomeData,
+  k1Data: UIK1Data,
+  businessDetails: UIBusinessDetails,
+  paymentsData: UIPaymentsData,
+  deductions: UIDeductions,
+  spouseInfo: UISpouseInfo,
+  options: UIOptimizationOptions,
+  taxYear: number = DEFAULT_TAX_YEAR
+): OptimizationPlan | null {
+  try {
+    const planning = buildPlanningReturnFromUI(
+      personalInfo,
+      incomeData,
+      k1Data,
+      businessDetails,
+      paymentsData,
+      deductions,
+      spouseInfo,
+      taxYear
+    );
+
+    let separateReturns: [PlanningReturn, PlanningReturn] | undefined;
+    if (options.compareSeparate && planning.federalInput.filingStatus === 'marriedJointly') {
+      const { stateCode, county, city, dependents } = convertUIToEngineInput(
+        personalInfo,
+        incomeData,
+        k1Data,
+        businessDetails,
+        paymentsData,
+        deductions,
+        spouseInfo
+      );
+      const inputs = buildSeparateFederalInputs(
+        planning.federalInput,
+        personalInfo,
+        incomeData,
+        spouseInfo,
+        paymentsData
+      );
+      const stateWithheld = [
+        safeCurrencyToCents(paymentsData.stateWithholding),
+        safeCurrencyToCents(spouseInfo.stateWithholding),
+      ];
+      const [taxpayer, spouse] = inputs.map(
+        (federalInput, i): PlanningReturn => ({
+          federalInput,
+          taxYear: planning.taxYear,
+          ...(stateCode &&
+            getStateCalculator(stateCode) && {
+              buildStateInput: (federalResult: FederalResult2025) =>
+                buildStateTaxInput(
+                  stateCode,
+                  county,
+                  city,
+                  'marriedSeparately',
+                  federalResult,
+                  stateWithheld[i] ?? 0,
+                  undefined,
+                  i === 0 ? dependents : 0
+                ),
+            }),
+        })
+      );
+      separateReturns = [taxpayer!, spouse!];
+    }
+
+    return optimizeTaxPlan(planning, {
+      levers: options.levers,
+      tryItemizing: options.tryItemizing,
+      separateReturns,
+    });
+  } catch (error) {
+    logger.error('Tax plan optimization error:', error instanceof Error ? error : undefined);
+    return null;
+  }
+}
+
+/**
+ * Project Roth conversions that fill a target bracket on the return entered
+ * in the UI
+ *
+ * @param options - IRA balance, projection and Social Security (amounts in cents)
+ * @returns Year-by-year plan, or null if the UI data is invalid or has no birth date
+ */
+export function calculateRothConversionPlanWithEngine(
+  personalInfo: UIPersonalInfo,
+  incomeData: UIIncomeData,
+  k1Data: UIK1Data,
+  businessDetails: UIBusinessDetails,
+  paymentsData: UIPaymentsData,
+  deductions: UIDeductions,
+  spouseInfo: UISpouseInfo,
+  options: Omit<RothConversionPlanInput, 'planning'>,
+  taxYear: number = DEFAULT_TAX_YEAR
+): RothConversionPlan | null {
+  try {
+    const planning = buildPlanningReturnFromUI(
+      personalInfo,
+      incomeData,
+      k1Data,
+      businessDetails,
+      paymentsData,
+      deductions,
+      spouseInfo,
+      taxYear
+    );
+    return planRothConversions({ ...options, planning });
+  } catch (error) {
+    logger.error('Roth conversion plan error:', error instanceof Error ? error : undefined);
+    return null;
+  }
+}
+
+/**
+ * Sweep added income across a range on the return entered in the UI and
+ * measure the marginal and effective rate at each step
+ *
+ * @param options - Income type and range (amounts in cents)
+ * @returns Rate curve, or null if the UI data or range is invalid
+ */
+export function calculateRateCurveWithEngine(
+  personalInfo: UIPersonalInfo,
+  incomeData: UIIncomeData,
+  k1Data: UIK1Data,
+  businessDetails: UIBusinessDetails,
+  paymentsData: UIPaymentsData,
+  deductions: UIDeductions,
+  spouseInfo: UISpouseInfo,
+  options: Omit<RateCurveInput, 'planning'>,
+  taxYear: number = DEFAULT_TAX_YEAR
+): RateCurve | null {
+  try {
+    const planning = buildPlanningReturnFromUI(
+      personalInfo,
+      incomeData,
+      k1Data,
+      businessDetails,
+      paymentsData,
+      deductions,
+      spouseInfo,
+      taxYear
+    );
+    return computeRateCurve({ ...options, planning });
+  } catch (error) {
+    logger.error('Rate curve error:', error instanceof Error ? error : undefined);
+    return null;
+  }
+}
+
+/**
+ * Recompute a filed return from corrected UI data for Form 1040-X
+ *
+ * @param original - Return as filed (see saveOriginalReturn in clientStorage)
+ * @param options - Reason for amending and payments since the original return (cents)
+ * @returns Three-column 1040-X comparison, or null if the corrected data is invalid
+ */
+export function calculateAmendedReturnWithEngine(
+  original: OriginalReturnSnapshot,
+  personalInfo: UIPersonalInfo,
+  incomeData: UIIncomeData,
+  k1Data: UIK1Data,
+  businessDetails: UIBusinessDetails,
+  paymentsData: UIPaymentsData,
+  deductions: UIDeductions,
+  spouseInfo: UISpouseInfo,
+  options: Omit<AmendedReturnInput, 'original' | 'corrected'> = {}
+): Form1040XResult | null {
+  try {
+    const conversion = convertUIToEngineInput(
+      personalInfo,
+      incomeData,
+      k1Data,
+      businessDetails,
+      paymentsData,
+      deductions,
+      spouseInfo
+    );
+    validateFederalInput(conversion.federalInput);
+
+    return computeAmendedReturn({ ...options, original, corrected: conversion.federalInput });
+  } catch (error) {
+    logger.error('Amended return error:', error instanceof Error ? error : undefined);
+    return null;
+  }
+}
+
 /**
  * Convert engine result to UI-compatible format
  */
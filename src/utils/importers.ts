@@ -17,6 +17,10 @@ const parseNumber = (s: string) => {
   return Number.isFinite(n) ? n : 0;
 };
 
+/**
+ * @deprecated Reads boxes 1, 2 and 17 by position only. Use importW2FormsCSV
+ * from './w2Import' for named columns, box 12-14 and multiple state lines.
+ */
 export function importW2CSV(csv: string): W2Row[] {
   const lines = csv.split(/\r?\n/).filter(Boolean);
   if (lines.length === 0) return [];
@@ -0,0 +1,227 @@
+/**
+ * Prior-year return history for the Multi-Year comparison
+ *
+ * Each client keeps the key Form 1040 lines of earlier returns so the
+ * comparison charts real figures. A year comes from one of three places:
+ * - the original return saved for Form 1040-X (engine amounts in cents)
+ * - a JSON export of a prior-year return from this app
+ * - key lines typed in by the preparer
+ *
+ * Amounts are in dollars, matching the UI tax result. Rates are percents.
+ */
+
+import type { FilingStatus, OriginalReturnSnapshot } from '../engine/types';
+import { getTaxYearConfig, isSupportedTaxYear } from '../engine/rules/taxYearConfig';
+import { getMarginalRate2025 } from '../engine/tax/regularTax';
+import type {
+  ComparisonPeriod,
+  CurrentYearData,
+  PriorYearCarryovers,
+  PriorYearReturn,
+  YearData,
+} from '../types/ui/comparison';
+import { originalReturnSchema } from './schemas';
+
+const toDollars = (cents: number | undefined) => Math.round((cents ?? 0) / 100);
+
+const FILING_STATUSES: FilingStatus[] = [
+  'single',
+  'marriedJointly',
+  'marriedSeparately',
+  'headOfHousehold',
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readNumber = (value: unknown): number | undefined => {
+  const n = typeof value === 'string' ? Number(value.replace(/[$,]/g, '')) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+};
+
+/**
+ * Drop carryovers that are all zero so only real ones are highlighted
+ */
+function nonZeroCarryovers(carryovers: PriorYearCarryovers): PriorYearCarryovers | undefined {
+  const entries = Object.entries(carryovers).filter(([, amount]) => (amount ?? 0) > 0);
+  return entries.length > 0 ? (Object.fromEntries(entries) as PriorYearCarryovers) : undefined;
+}
+
+/**
+ * Summarize a return saved with saveOriginalReturn
+ *
+ * Carryovers are what the return passes to the next year: the Schedule D
+ * capital loss carryover and NOLs left after this year's deduction.
+ */
+export function priorYearReturnFromFiled(original: OriginalReturnSnapshot): PriorYearReturn {
+  const { input, result } = original;
+  const capitalLoss = result.scheduleDDetails?.carryoverToNextYear;
+  const nolAvailable = (input.nolCarryforwards ?? []).reduce(
+    (sum, nol) => sum + nol.remainingNOL,
+    0
+  );
+  const carryovers = nonZeroCarryovers({
+    capitalLoss: toDollars((capitalLoss?.shortTerm ?? 0) + (capitalLoss?.longTerm ?? 0)),
+    nol: toDollars(Math.max(0, nolAvailable - (result.nolDeduction ?? 0))),
+  });
+
+  return {
+    taxYear: original.taxYear,
+    source: 'filed',
+    filingStatus: input.filingStatus,
+    agi: toDollars(result.agi),
+    taxableIncome: toDollars(result.taxableIncome),
+    totalTax: toDollars(result.totalTax),
+    refundOrOwe: toDollars(result.refundOrOwe),
+    deductions: toDollars(
+      result.deductionType === 'itemized' ? result.itemizedDeduction : result.standardDeduction
+    ),
+    ...(carryovers && { carryovers }),
+  };
+}
+
+/**
+ * Read a prior-year return from a JSON file
+ *
+ * Accepts a saved original return ({ taxYear, filedAt, input, result }) or
+ * this app's JSON export ({ personalInfo, taxResult, ... }). The export
+ * does not record its tax year unless a `taxYear` field was added, so pass
+ * `taxYear` for those files.
+ *
+ * @throws Error when the file is not JSON, not a recognized return, or has no tax year
+ */
+export function parsePriorYearExport(json: string, taxYear?: number): PriorYearReturn {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (!isRecord(data)) {
+    throw new Error('The file does not contain a tax return');
+  }
+
+  const filed = originalReturnSchema.safeParse(data);
+  if (filed.success) {
+    return priorYearReturnFromFiled(filed.data);
+  }
+
+  const taxResult = data.taxResult;
+  if (!isRecord(taxResult) || readNumber(taxResult.adjustedGrossIncome) === undefined) {
+    throw new Error('The file does not contain a tax return');
+  }
+
+  const year = readNumber(data.taxYear) ?? taxYear;
+  if (year === undefined || !Number.isInteger(year)) {
+    throw new Error('Enter the tax year of this return');
+  }
+
+  const personalInfo = isRecord(data.personalInfo) ? data.personalInfo : {};
+  const filingStatus = FILING_STATUSES.find((status) => status === personalInfo.filingStatus);
+  const marginalRate = readNumber(taxResult.marginalRate);
+  const carryovers = isRecord(data.carryovers)
+    ? nonZeroCarryovers({
+        capitalLoss: readNumber(data.carryovers.capitalLoss),
+        nol: readNumber(data.carryovers.nol),
+        amtCredit: readNumber(data.carryovers.amtCredit),
+      })
+    : undefined;
+
+  return {
+    taxYear: year,
+    source: 'import',
+    ...(filingStatus && { filingStatus }),
+    agi: readNumber(taxResult.adjustedGrossIncome) ?? 0,
+    taxableIncome: readNumber(taxResult.taxableIncome) ?? 0,
+    // Federal tax only, so years compare with Form 1040 Line 24
+    totalTax: readNumber(taxResult.federalTax) ?? readNumber(taxResult.totalTax) ?? 0,
+    refundOrOwe: readNumber(taxResult.balance) ?? 0,
+    deductions:
+      (taxResult.deductionType === 'itemized'
+        ? readNumber(taxResult.itemizedDeduction)
+        : readNumber(taxResult.standardDeduction)) ?? 0,
+    // The export stores the marginal rate as a fraction
+    ...(marginalRate !== undefined && { marginalRate: marginalRate * 100 }),
+    ...(carryovers && { carryovers }),
+  };
+}
+
+/**
+ * Add a year to the history, replacing any entry for the same year
+ *
+ * @returns History sorted by tax year
+ */
+export function upsertPriorYearReturn(
+  history: PriorYearReturn[],
+  record: PriorYearReturn
+): PriorYearReturn[] {
+  return [...history.filter((row) => row.taxYear !== record.taxYear), record].sort(
+    (a, b) => a.taxYear - b.taxYear
+  );
+}
+
+/**
+ * Marginal rate (percent) from the year's brackets, when the year is supported
+ */
+function marginalRateFor(record: PriorYearReturn): number {
+  if (record.marginalRate !== undefined) return record.marginalRate;
+  if (!record.filingStatus || !isSupportedTaxYear(record.taxYear)) return 0;
+  const brackets = getTaxYearConfig(record.taxYear).getTaxBrackets(record.filingStatus);
+  return getMarginalRate2025(record.taxableIncome * 100, record.filingStatus, brackets) * 100;
+}
+
+const effectiveRate = (totalTax: number, agi: number) => (agi > 0 ? (totalTax / agi) * 100 : 0);
+
+/**
+ * Combine stored years with the return being prepared
+ *
+ * Only years that were entered appear; missing years are left out rather
+ * than estimated.
+ *
+ * @param priorYears Client's stored prior-year returns
+ * @param current Return being prepared and its tax year
+ * @param period Number of years to show, including the current year
+ * @returns Years in ascending order, ending with the current year
+ */
+export function buildYearHistory(
+  priorYears: PriorYearReturn[],
+  current: CurrentYearData & { taxYear: number },
+  period: ComparisonPeriod
+): YearData[] {
+  const firstYear = current.taxYear - period + 1;
+  const years: YearData[] = priorYears
+    .filter((record) => record.taxYear >= firstYear && record.taxYear < current.taxYear)
+    .sort((a, b) => a.taxYear - b.taxYear)
+    .map((record) => ({
+      year: record.taxYear,
+      income: record.agi,
+      taxableIncome: record.taxableIncome,
+      totalTax: record.totalTax,
+      effectiveRate: effectiveRate(record.totalTax, record.agi),
+      marginalRate: marginalRateFor(record),
+      refund: record.refundOrOwe,
+      deductions: record.deductions ?? 0,
+      source: record.source,
+      ...(record.carryovers && { carryovers: record.carryovers }),
+    }));
+
+  const taxResult = current.taxResult ?? {};
+  const deductions = current.deductions ?? {};
+  const agi = taxResult.adjustedGrossIncome ?? 0;
+  const federalTax = taxResult.federalTax ?? 0;
+  years.push({
+    year: current.taxYear,
+    income: agi,
+    taxableIncome: taxResult.taxableIncome ?? 0,
+    totalTax: federalTax,
+    effectiveRate: effectiveRate(federalTax, agi),
+    marginalRate: (taxResult.marginalRate ?? 0) * 100,
+    refund: taxResult.balance ?? 0,
+    deductions: deductions.useStandardDeduction
+      ? Number(deductions.standardDeduction ?? 0)
+      : Number(deductions.itemizedTotal ?? 0),
+    source: 'current',
+  });
+
+  return years;
+}
@@ -1,8 +1,7 @@
 import type { TDocumentDefinitions, Content, Watermark } from 'pdfmake/interfaces';
 import type { ReportData, ReportRow, ReportSection, PDFSecurityOptions } from './types';
 import { DEFAULT_PDF_SECURITY } from './types';
-
-type PdfMakeModule = typeof import('pdfmake/build/pdfmake');
+import { loadPdfMake, type PdfMakeModule } from '../../engine/util/pdfMake';
 
 interface RenderOptions {
   downloadFileName?: string;
@@ -71,7 +70,7 @@ export class PDFRenderer {
   }
 
   async render(report: ReportData, options: RenderOptions = {}): Promise<unknown> {
-    const pdfMake = options.pdfMake ?? (await this.loadPdfMake());
+    const pdfMake = options.pdfMake ?? (await loadPdfMake());
     const securityOptions = { ...DEFAULT_PDF_SECURITY, ...options.security };
     const docDefinition = this.toDocumentDefinition(report, securityOptions);
     const pdfDoc = pdfMake.createPdf(docDefinition);
@@ -292,20 +291,4 @@ export class PDFRenderer {
         return status;
     }
   }
-
-  private async loadPdfMake(): Promise<PdfMakeModule> {
-    const [pdfMakeModule, pdfFonts] = await Promise.all([
-      import('pdfmake/build/pdfmake'),
-      import('pdfmake/build/vfs_fonts'),
-    ]);
-
-    const pdfMake =
-      (pdfMakeModule as unknown as { default?: PdfMakeModule }).default ??
-      (pdfMakeModule as PdfMakeModule);
-    const { pdfMake: fontsWrapper } = pdfFonts as unknown as {
-      pdfMake: { vfs: Record<string, string> };
-    };
-    pdfMake.vfs = fontsWrapper.vfs;
-    return pdfMake;
-  }
 }
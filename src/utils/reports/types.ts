@@ -1,4 +1,7 @@
 import type { FilingStatus } from '../../engine/types';
+import type { PDFSecurityOptions } from '../../engine/util/pdfMake';
+
+export type { PDFSecurityOptions };
 
 export type ReportMode = 'summary' | 'detailed';
 
@@ -39,29 +42,6 @@ export interface ReportData {
   sections: ReportSection[];
 }
 
-/**
- * PDF Export Security Options
- * Controls privacy and security features for PDF generation
- */
-export interface PDFSecurityOptions {
-  /** Add watermark text to each page (e.g., 'DRAFT', 'CONFIDENTIAL') */
-  watermark?: string | null;
-  /** Watermark opacity (0-1, default 0.1) */
-  watermarkOpacity?: number;
-  /** Mask SSN to show only last 4 digits (default: true) */
-  maskSSN?: boolean;
-  /** Include client personal data in export (default: false for privacy) */
-  includeClientData?: boolean;
-  /** Password to open the PDF (requires pdfmake-wrapper or server-side) */
-  userPassword?: string;
-  /** Password for editing/printing restrictions */
-  ownerPassword?: string;
-  /** Allow printing (default: true) */
-  allowPrinting?: boolean;
-  /** Allow copying text (default: false for security) */
-  allowCopying?: boolean;
-}
-
 /**
  * Default security options - privacy-first defaults
  */
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import type { FederalInput2025, FederalResult2025, FormW2 } from '../engine/types';
 
 export const ssnRegex = /^(\d{3}-?\d{2}-?\d{4})$/;
 
@@ -69,6 +70,34 @@ export const deductionsSchema = z.object({
   otherItemized: moneyString
 });
 
+const isRecord = (value: unknown) => typeof value === 'object' && value !== null;
+
+// Originally filed federal return, kept for Form 1040-X (engine amounts in cents)
+export const originalReturnSchema = z.object({
+  taxYear: z.number().int(),
+  filedAt: z.string(),
+  input: z.custom<FederalInput2025>(isRecord),
+  result: z.custom<FederalResult2025>(isRecord)
+});
+
+const priorYearAmount = z.number().min(0).optional();
+
+// Key lines of a prior-year return for the Multi-Year comparison (dollars)
+export const priorYearReturnSchema = z.object({
+  taxYear: z.number().int(),
+  source: z.enum(['filed', 'import', 'manual']),
+  filingStatus: personalInfoSchema.shape.filingStatus.optional(),
+  agi: z.number(),
+  taxableIncome: z.number(),
+  totalTax: z.number(),
+  refundOrOwe: z.number(),
+  deductions: z.number().optional(),
+  marginalRate: z.number().min(0).max(100).optional(),
+  carryovers: z
+    .object({ capitalLoss: priorYearAmount, nol: priorYearAmount, amtCredit: priorYearAmount })
+    .optional()
+});
+
 export const snapshotSchema = z.object({
   personalInfo: personalInfoSchema,
   spouseInfo: personalInfoSchema.partial(),
@@ -77,7 +106,11 @@ export const snapshotSchema = z.object({
   businessDetails: businessDetailsSchema,
   paymentsData: paymentsSchema,
   deductions: deductionsSchema,
-  taxResult: z.any().optional()
+  taxResult: z.any().optional(),
+  originalReturn: originalReturnSchema.optional(),
+  priorYears: z.array(priorYearReturnSchema).optional(),
+  // Imported W-2s (engine amounts in cents)
+  w2Forms: z.array(z.custom<FormW2>(isRecord)).optional()
 });
 
 // Import data schema with version and timestamp
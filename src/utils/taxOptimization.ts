@@ -1,10 +1,11 @@
 /**
  * Tax Optimization Suggestions
- * Uses tax engine v2 for accurate calculations with cents-based calculations
+ * Every suggestion is priced by recomputing the federal and state return with
+ * the tax engine; contribution and gift amounts come from the plan optimizer
  *
- * NOTE: UITaxResult fields are in DOLLARS, engine calculations are in CENTS
+ * NOTE: UI amounts are in DOLLARS, engine calculations are in CENTS
  */
-import { calculateTaxResultsWithEngine, UITaxResult } from './engineAdapter';
+import { buildPlanningReturnFromUI } from './engineAdapter';
 import type {
   UIPersonalInfo,
   UIIncomeData,
@@ -15,6 +16,10 @@ import type {
   UISpouseInfo,
 } from './engineAdapter';
 import { centsToDollars, dollarsToCents } from '../engine/util/money';
+import { computeTaxOutcome } from '../engine/planning/whatIf';
+import type { PlanningReturn, TaxOutcome } from '../engine/planning/whatIf';
+import { leverDelta, optimizeTaxPlan } from '../engine/planning/optimizer';
+import type { AmountLever, PlanStep } from '../engine/planning/optimizer';
 
 // Localized text constants
 const OPTIMIZATION_TEXT = {
@@ -86,27 +91,9 @@ const formatCurrency = (cents: number): string => {
   }).format(centsToDollars(cents));
 };
 
-// Helper to calculate tax using the new engine
-const calculateTax = (
-  personalInfo: UIPersonalInfo,
-  incomeData: UIIncomeData,
-  k1Data: UIK1Data,
-  businessDetails: UIBusinessDetails,
-  paymentsData: UIPaymentsData,
-  deductions: UIDeductions,
-  spouseInfo: UISpouseInfo,
-): UITaxResult => {
-  const result = calculateTaxResultsWithEngine(
-    personalInfo,
-    incomeData,
-    k1Data,
-    businessDetails,
-    paymentsData,
-    deductions,
-    spouseInfo
-  );
-  return result.result;
-};
+// Additional charitable gift searched by the optimizer (in dollars)
+const MAX_ADDITIONAL_CHARITABLE = 5000;
+const CHARITABLE_STEP = 500;
 
 export const generateTaxOptimizations = (
   personalInfo: UIPersonalInfo,
@@ -117,37 +104,47 @@ export const generateTaxOptimizations = (
   deductions: UIDeductions,
   spouseInfo: UISpouseInfo,
 ): TaxOptimization[] => {
-  const currentResults = calculateTax(personalInfo, incomeData, k1Data, businessDetails, paymentsData, deductions, spouseInfo);
+  let planning: PlanningReturn;
+  try {
+    planning = buildPlanningReturnFromUI(personalInfo, incomeData, k1Data, businessDetails, paymentsData, deductions, spouseInfo);
+  } catch {
+    return [];
+  }
+  const baseline = computeTaxOutcome(planning);
   const suggestions: TaxOptimization[] = [];
 
+  // Charitable giving and retirement deferrals interact (a deferral lowers
+  // AGI and the rate a gift saves at), so they are optimized together
+  const retirementLimit = calculateRetirementLimit(personalInfo, incomeData);
+  const levers: AmountLever[] = [
+    { kind: 'charitableGift', max: dollarsToCents(MAX_ADDITIONAL_CHARITABLE), step: dollarsToCents(CHARITABLE_STEP) },
+    ...(retirementLimit > 0 ? [{ kind: 'electiveDeferral' as const, max: dollarsToCents(retirementLimit) }] : []),
+  ];
+  const plan = optimizeTaxPlan(planning, { levers });
+  const planStep = (lever: PlanStep['lever']) => plan.steps.find(step => step.lever === lever);
+
   // 1. Charitable Contributions Optimization
-  const charitableOptimization = calculateCharitableOptimization(
-    personalInfo, incomeData, k1Data, businessDetails, paymentsData, deductions, spouseInfo, currentResults
-  );
+  const charitableOptimization = calculateCharitableOptimization(planStep('charitableGift'));
   if (charitableOptimization) {
     suggestions.push(charitableOptimization);
   }
 
   // 2. Standard vs Itemized Deduction Optimization
-  const deductionOptimization = calculateDeductionOptimization(
-    personalInfo, incomeData, k1Data, businessDetails, paymentsData, deductions, spouseInfo, currentResults
-  );
+  const deductionOptimization = calculateDeductionOptimization(planning, baseline, deductions);
   if (deductionOptimization) {
     suggestions.push(deductionOptimization);
   }
 
   // 3. Business Expense Optimization
   const businessOptimization = calculateBusinessOptimization(
-    personalInfo, incomeData, k1Data, businessDetails, paymentsData, deductions, spouseInfo, currentResults
+    personalInfo, incomeData, k1Data, businessDetails, paymentsData, deductions, spouseInfo, baseline
   );
   if (businessOptimization) {
     suggestions.push(businessOptimization);
   }
 
   // 4. Retirement Contribution Optimization
-  const retirementOptimization = calculateRetirementOptimization(
-    personalInfo, incomeData, k1Data, businessDetails, paymentsData, deductions, spouseInfo, currentResults
-  );
+  const retirementOptimization = calculateRetirementOptimization(planStep('electiveDeferral'));
   if (retirementOptimization) {
     suggestions.push(retirementOptimization);
   }
@@ -155,48 +152,13 @@ export const generateTaxOptimizations = (
   return suggestions;
 };
 
-const calculateCharitableOptimization = (
-  personalInfo: UIPersonalInfo,
-  incomeData: UIIncomeData,
-  k1Data: UIK1Data,
-  businessDetails: UIBusinessDetails,
-  paymentsData: UIPaymentsData,
-  deductions: UIDeductions,
-  spouseInfo: UISpouseInfo,
-  currentResults: UITaxResult
-): TaxOptimization | null => {
-  // Only suggest if not using standard deduction or if itemizing would be better
-  const currentCharitable = Number(deductions.charitableContributions) || 0;
-
-  // Test scenarios: $500, $1000, $2000, $5000 additional charitable donations
-  const testAmounts = [500, 1000, 2000, 5000];
-  const bestSuggestion = { amount: 0, savings: 0, netCost: 0 };
-
-  testAmounts.forEach(additionalAmount => {
-    const newCharitable = currentCharitable + additionalAmount;
-    const newDeductions: UIDeductions = {
-      ...deductions,
-      charitableContributions: newCharitable.toString(),
-      itemizeDeductions: true, // Explicitly enable itemized deductions
-    };
-
-    const newResults = calculateTax(personalInfo, incomeData, k1Data, businessDetails, paymentsData, newDeductions, spouseInfo);
+const calculateCharitableOptimization = (step: PlanStep | undefined): TaxOptimization | null => {
+  const amount = step?.amount ?? 0;
+  const savings = step?.marginalSavings ?? 0;
 
-    // Convert dollars to cents for comparison (UITaxResult fields are in dollars)
-    const currentTaxCents = dollarsToCents(currentResults.totalTax);
-    const newTaxCents = dollarsToCents(newResults.totalTax);
-    const taxSavings = currentTaxCents - newTaxCents;
-
-    if (taxSavings > bestSuggestion.savings && taxSavings > 0) {
-      bestSuggestion.amount = dollarsToCents(additionalAmount);
-      bestSuggestion.savings = taxSavings;
-      bestSuggestion.netCost = dollarsToCents(additionalAmount) - taxSavings;
-    }
-  });
-
-  if (bestSuggestion.savings > 0) {
-    const amountStr = formatCurrency(bestSuggestion.amount);
-    const savingsStr = formatCurrency(bestSuggestion.savings);
+  if (amount > 0 && savings > 0) {
+    const amountStr = formatCurrency(amount);
+    const savingsStr = formatCurrency(savings);
 
     return {
       type: 'charitable',
@@ -206,10 +168,10 @@ const calculateCharitableOptimization = (
       description: OPTIMIZATION_TEXT.charitable.descriptionEn(amountStr, savingsStr),
       descriptionEn: OPTIMIZATION_TEXT.charitable.descriptionEn(amountStr, savingsStr),
       descriptionEs: OPTIMIZATION_TEXT.charitable.descriptionEs(amountStr, savingsStr),
-      amount: bestSuggestion.amount, // In cents
-      savings: bestSuggestion.savings, // In cents
-      netCost: bestSuggestion.netCost, // In cents
-      priority: bestSuggestion.savings > bestSuggestion.amount * 0.2 ? 'high' : 'medium',
+      amount, // In cents
+      savings, // In cents
+      netCost: amount - savings, // In cents
+      priority: savings > amount * 0.2 ? 'high' : 'medium',
       icon: 'HEART',
     };
   }
@@ -218,17 +180,12 @@ const calculateCharitableOptimization = (
 };
 
 const calculateDeductionOptimization = (
-  personalInfo: UIPersonalInfo,
-  _incomeData: UIIncomeData,
-  _k1Data: UIK1Data,
-  _businessDetails: UIBusinessDetails,
-  _paymentsData: UIPaymentsData,
-  deductions: UIDeductions,
-  _spouseInfo: UISpouseInfo,
-  currentResults: UITaxResult
+  planning: PlanningReturn,
+  baseline: TaxOutcome,
+  deductions: UIDeductions
 ): TaxOptimization | null => {
   const currentItemizedTotal = calculateItemizedTotal(deductions);
-  const standardDeductionDollars = currentResults.standardDeduction; // Already in dollars
+  const standardDeductionDollars = centsToDollars(baseline.federal.standardDeduction);
 
   // NOTE: The tax engine AUTOMATICALLY chooses the better deduction method
   // (standard vs itemized), so we can't suggest switching - it's already optimal.
@@ -238,15 +195,12 @@ const calculateDeductionOptimization = (
   const gap = standardDeductionDollars - currentItemizedTotal; // In dollars
   if (gap > 0 && gap < 5000) {
     // Within $5000 of standard
-    const marginalRate = calculateMarginalRate(
-      dollarsToCents(currentResults.taxableIncome),
-      personalInfo.filingStatus
-    );
     const additionalNeeded = Math.ceil(gap) + 100; // Add $100 buffer (in dollars)
-    const potentialSavings = dollarsToCents(additionalNeeded * marginalRate); // Convert to cents
+    const withDeductions = computeTaxOutcome(planning, leverDelta('charitableGift', dollarsToCents(additionalNeeded)));
+    // Most of the added expense only replaces the standard deduction
+    const potentialSavings = baseline.totalTax - withDeductions.totalTax; // In cents
 
-    if (potentialSavings > dollarsToCents(50)) {
-      // Only suggest if meaningful
+    if (potentialSavings > 0) {
       const gapStr = formatCurrency(dollarsToCents(gap));
       const neededStr = formatCurrency(dollarsToCents(additionalNeeded));
       const savingsStr = formatCurrency(potentialSavings);
@@ -261,7 +215,7 @@ const calculateDeductionOptimization = (
         descriptionEs: OPTIMIZATION_TEXT.deduction.descriptionEs(gapStr, neededStr, savingsStr),
         amount: dollarsToCents(additionalNeeded), // In cents
         savings: potentialSavings, // In cents
-        priority: 'medium',
+        priority: potentialSavings > dollarsToCents(50) ? 'medium' : 'low',
         icon: 'CHECKBOX',
       };
     }
@@ -272,24 +226,30 @@ const calculateDeductionOptimization = (
 
 const calculateBusinessOptimization = (
   personalInfo: UIPersonalInfo,
-  _incomeData: UIIncomeData,
-  _k1Data: UIK1Data,
+  incomeData: UIIncomeData,
+  k1Data: UIK1Data,
   businessDetails: UIBusinessDetails,
-  _paymentsData: UIPaymentsData,
-  _deductions: UIDeductions,
-  _spouseInfo: UISpouseInfo,
-  currentResults: UITaxResult
+  paymentsData: UIPaymentsData,
+  deductions: UIDeductions,
+  spouseInfo: UISpouseInfo,
+  baseline: TaxOutcome
 ): TaxOptimization | null => {
-  const currentBusinessIncome = Number(businessDetails.grossReceipts) || 0;
+  // Schedule C net profit is what the return taxes; gross receipts only size the suggestion
+  const currentBusinessIncome = Number(incomeData.businessIncome) || 0;
 
   if (currentBusinessIncome > 0) {
     // Suggest additional business expenses that could reduce tax
-    const additionalExpenses = Math.min(currentBusinessIncome * 0.1, 5000); // Up to 10% or $5000 (in dollars)
-    const marginalRate = calculateMarginalRate(
-      dollarsToCents(currentResults.taxableIncome),
-      personalInfo.filingStatus
+    const grossReceipts = Number(businessDetails.grossReceipts) || currentBusinessIncome;
+    const additionalExpenses = Math.min(grossReceipts * 0.1, 5000, currentBusinessIncome); // Up to 10% or $5000 (in dollars)
+    const newIncomeData: UIIncomeData = {
+      ...incomeData,
+      businessIncome: String(currentBusinessIncome - additionalExpenses),
+    };
+    const withExpenses = computeTaxOutcome(
+      buildPlanningReturnFromUI(personalInfo, newIncomeData, k1Data, businessDetails, paymentsData, deductions, spouseInfo)
     );
-    const potentialSavings = dollarsToCents(additionalExpenses * (marginalRate + 0.153)); // Include self-employment tax
+    // Includes self-employment tax and any state tax
+    const potentialSavings = baseline.totalTax - withExpenses.totalTax; // In cents
 
     if (potentialSavings > dollarsToCents(100)) {
       const amountStr = formatCurrency(dollarsToCents(additionalExpenses));
@@ -314,62 +274,50 @@ const calculateBusinessOptimization = (
   return null;
 };
 
-const calculateRetirementOptimization = (
-  personalInfo: UIPersonalInfo,
-  incomeData: UIIncomeData,
-  _k1Data: UIK1Data,
-  businessDetails: UIBusinessDetails,
-  _paymentsData: UIPaymentsData,
-  _deductions: UIDeductions,
-  _spouseInfo: UISpouseInfo,
-  currentResults: UITaxResult
-): TaxOptimization | null => {
+/**
+ * Suggested 401k deferral (in dollars): 15% of wages up to the 2025 limit
+ */
+const calculateRetirementLimit = (personalInfo: UIPersonalInfo, incomeData: UIIncomeData): number => {
   const wages = Number(incomeData.wages) || 0;
-  const businessIncome =
-    Number(businessDetails.grossReceipts) -
-    Number(businessDetails.costOfGoodsSold) -
-    Number(businessDetails.businessExpenses);
-
-  if (wages > 0 || businessIncome > 0) {
-    // 401k contribution limits for 2025
-    // Calculate age from birthDate if available
-    let age = 0;
-    if (personalInfo.birthDate) {
-      const birthDate = new Date(personalInfo.birthDate);
-      const today = new Date();
-      age = today.getFullYear() - birthDate.getFullYear();
-      const monthDiff = today.getMonth() - birthDate.getMonth();
-      if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) {
-        age--;
-      }
+  if (wages <= 0) return 0;
+
+  // 401k contribution limits for 2025
+  // Calculate age from birthDate if available
+  let age = 0;
+  if (personalInfo.birthDate) {
+    const birthDate = new Date(personalInfo.birthDate);
+    const today = new Date();
+    age = today.getFullYear() - birthDate.getFullYear();
+    const monthDiff = today.getMonth() - birthDate.getMonth();
+    if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) {
+      age--;
     }
-    const maxContribution = age >= 50 ? 31000 : 23500;
-    const suggestedContribution = Math.min(maxContribution, (wages + Math.max(0, businessIncome)) * 0.15); // In dollars
+  }
+  const maxContribution = age >= 50 ? 31000 : 23500;
+  return Math.min(maxContribution, Math.round(wages * 0.15));
+};
 
-    const marginalRate = calculateMarginalRate(
-      dollarsToCents(currentResults.taxableIncome),
-      personalInfo.filingStatus
-    );
-    const taxSavings = dollarsToCents(suggestedContribution * marginalRate); // Convert to cents
+const calculateRetirementOptimization = (step: PlanStep | undefined): TaxOptimization | null => {
+  const amount = step?.amount ?? 0;
+  const taxSavings = step?.marginalSavings ?? 0;
 
-    if (taxSavings > dollarsToCents(500)) {
-      const amountStr = formatCurrency(dollarsToCents(suggestedContribution));
-      const savingsStr = formatCurrency(taxSavings);
+  if (amount > 0 && taxSavings > dollarsToCents(500)) {
+    const amountStr = formatCurrency(amount);
+    const savingsStr = formatCurrency(taxSavings);
 
-      return {
-        type: 'retirement',
-        title: OPTIMIZATION_TEXT.retirement.titleEn,
-        titleEn: OPTIMIZATION_TEXT.retirement.titleEn,
-        titleEs: OPTIMIZATION_TEXT.retirement.titleEs,
-        description: OPTIMIZATION_TEXT.retirement.descriptionEn(amountStr, savingsStr),
-        descriptionEn: OPTIMIZATION_TEXT.retirement.descriptionEn(amountStr, savingsStr),
-        descriptionEs: OPTIMIZATION_TEXT.retirement.descriptionEs(amountStr, savingsStr),
-        amount: dollarsToCents(suggestedContribution), // In cents
-        savings: taxSavings, // In cents
-        priority: 'high',
-        icon: 'SECTION',
-      };
-    }
+    return {
+      type: 'retirement',
+      title: OPTIMIZATION_TEXT.retirement.titleEn,
+      titleEn: OPTIMIZATION_TEXT.retirement.titleEn,
+      titleEs: OPTIMIZATION_TEXT.retirement.titleEs,
+      description: OPTIMIZATION_TEXT.retirement.descriptionEn(amountStr, savingsStr),
+      descriptionEn: OPTIMIZATION_TEXT.retirement.descriptionEn(amountStr, savingsStr),
+      descriptionEs: OPTIMIZATION_TEXT.retirement.descriptionEs(amountStr, savingsStr),
+      amount, // In cents
+      savings: taxSavings, // In cents
+      priority: 'high',
+      icon: 'SECTION',
+    };
   }
 
   return null;
@@ -384,72 +332,3 @@ const calculateItemizedTotal = (deductions: UIDeductions): number => {
     (Number(deductions.otherItemized) || 0)
   );
 };
-
-/**
- * Calculate marginal tax rate based on taxable income (in cents) and filing status
- * Returns decimal rate (e.g., 0.22 for 22%)
- */
-const calculateMarginalRate = (taxableIncomeCents: number, filingStatus: string): number => {
-  const taxableIncomeDollars = centsToDollars(taxableIncomeCents);
-  if (taxableIncomeDollars <= 0) return 0;
-
-  // 2025 Federal Tax Brackets (amounts in dollars)
-  interface Bracket {
-    max: number;
-    rate: number;
-  }
-
-  const brackets: Record<string, Bracket[]> = {
-    single: [
-      { max: 11925, rate: 0.1 },
-      { max: 48475, rate: 0.12 },
-      { max: 103350, rate: 0.22 },
-      { max: 197300, rate: 0.24 },
-      { max: 250525, rate: 0.32 },
-      { max: 626350, rate: 0.35 },
-      { max: Infinity, rate: 0.37 },
-    ],
-    marriedJointly: [
-      { max: 23850, rate: 0.1 },
-      { max: 96950, rate: 0.12 },
-      { max: 206700, rate: 0.22 },
-      { max: 394600, rate: 0.24 },
-      { max: 501050, rate: 0.32 },
-      { max: 751600, rate: 0.35 },
-      { max: Infinity, rate: 0.37 },
-    ],
-    marriedSeparately: [
-      { max: 11925, rate: 0.1 },
-      { max: 48475, rate: 0.12 },
-      { max: 103350, rate: 0.22 },
-      { max: 197300, rate: 0.24 },
-      { max: 250525, rate: 0.32 },
-      { max: 375800, rate: 0.35 },
-      { max: Infinity, rate: 0.37 },
-    ],
-    headOfHousehold: [
-      { max: 17000, rate: 0.1 },
-      { max: 64850, rate: 0.12 },
-      { max: 103350, rate: 0.22 },
-      { max: 197300, rate: 0.24 },
-      { max: 250500, rate: 0.32 },
-      { max: 626350, rate: 0.35 },
-      { max: Infinity, rate: 0.37 },
-    ],
-  };
-
-  const statusBrackets = brackets[filingStatus];
-  if (!statusBrackets) {
-    // Fallback to single if filing status not found
-    return calculateMarginalRate(taxableIncomeCents, 'single');
-  }
-
-  for (const bracket of statusBrackets) {
-    if (taxableIncomeDollars <= bracket.max) {
-      return bracket.rate;
-    }
-  }
-
-  // Should never reach here due to Infinity bracket, but return max rate as fallback
-  return 0.37;
-};
@@ -0,0 +1,310 @@
+/**
+ * W-2 importer for payroll CSV exports
+ *
+ * Reads one W-2 per row with named columns for every box:
+ * - "Box 1" ... "Box 11", or the box titles ("Social Security wages")
+ * - Box 12 as "Box 12a Code" / "Box 12a Amount" pairs, or one column per
+ *   code ("Box 12 W")
+ * - Box 13 checkboxes ("Retirement plan": X / Yes / True)
+ * - Box 14 as "Box 14 <label>" columns
+ * - State and local lines as "State", "State wages", "State withholding",
+ *   "Local wages", "Local withholding", "Locality", numbered "State 2",
+ *   "State wages 2" ... for further lines
+ *
+ * Amounts in the file are dollars; the W-2s returned are in cents, ready for
+ * applyW2sToFederalInput. Rows with errors are left out, and Social Security
+ * and Medicare boxes that do not add up are reported as warnings.
+ */
+
+import type { FormW2, W2Box12Code, W2StateLine } from '../engine/types';
+import { validateW2s } from '../engine/income/formW2';
+import { SS_WAGE_BASE_2025 } from '../engine/rules/2025/federal/medicareSocialSecurity';
+import { dollarsToCents, formatCents } from '../engine/util/money';
+import { parseAmount, parseCSVLine, type ImportRowError } from './brokerImport';
+
+export interface W2ImportResult {
+  w2s: FormW2[];
+  /** Source line of each W-2 in `w2s` */
+  lines: number[];
+  errors: ImportRowError[];
+  warnings: ImportRowError[];
+}
+
+type W2AmountField =
+  | 'wages'
+  | 'federalWithheld'
+  | 'socialSecurityWages'
+  | 'socialSecurityTaxWithheld'
+  | 'medicareWages'
+  | 'medicareTaxWithheld'
+  | 'socialSecurityTips'
+  | 'allocatedTips'
+  | 'dependentCareBenefits'
+  | 'nonqualifiedPlans';
+
+const AMOUNT_COLUMNS: Record<W2AmountField, string[]> = {
+  wages: ['box 1', 'wages', 'wages, tips, other compensation'],
+  federalWithheld: [
+    'box 2',
+    'federal income tax withheld',
+    'federal withholding',
+    'federal tax withheld',
+  ],
+  socialSecurityWages: ['box 3', 'social security wages', 'ss wages'],
+  socialSecurityTaxWithheld: ['box 4', 'social security tax withheld', 'ss tax withheld'],
+  medicareWages: ['box 5', 'medicare wages', 'medicare wages and tips'],
+  medicareTaxWithheld: ['box 6', 'medicare tax withheld'],
+  socialSecurityTips: ['box 7', 'social security tips'],
+  allocatedTips: ['box 8', 'allocated tips'],
+  dependentCareBenefits: ['box 10', 'dependent care benefits'],
+  nonqualifiedPlans: ['box 11', 'nonqualified plans'],
+};
+
+const REQUIRED_FIELDS: W2AmountField[] = ['wages', 'federalWithheld'];
+
+const CHECKBOX_COLUMNS = {
+  statutoryEmployee: ['statutory employee', 'box 13 statutory employee'],
+  retirementPlan: ['retirement plan', 'box 13 retirement plan'],
+  thirdPartySickPay: [
+    'third-party sick pay',
+    'third party sick pay',
+    'box 13 third-party sick pay',
+  ],
+};
+
+const BOX12_CODES: W2Box12Code[] = [
+  'A',
+  'B',
+  'C',
+  'D',
+  'E',
+  'F',
+  'G',
+  'H',
+  'J',
+  'K',
+  'L',
+  'M',
+  'N',
+  'P',
+  'Q',
+  'R',
+  'S',
+  'T',
+  'V',
+  'W',
+  'Y',
+  'Z',
+  'AA',
+  'BB',
+  'DD',
+  'EE',
+  'FF',
+  'GG',
+  'HH',
+  'II',
+];
+
+const STATE_COLUMNS: Record<keyof W2StateLine, string[]> = {
+  state: ['state', 'box 15 state'],
+  employerStateId: ["employer's state id", 'employer state id', 'state id'],
+  stateWages: ['state wages', 'box 16'],
+  stateWithheld: ['state withholding', 'state income tax', 'box 17'],
+  localWages: ['local wages', 'box 18'],
+  localWithheld: ['local withholding', 'local income tax', 'box 19'],
+  locality: ['locality', 'locality name', 'box 20'],
+};
+
+/**
+ * Parse a payroll W-2 export
+ *
+ * @param csv File contents with a header row
+ * @param ssWageBase Social Security wage base for the consistency check (cents)
+ */
+export function importW2FormsCSV(csv: string, ssWageBase = SS_WAGE_BASE_2025): W2ImportResult {
+  const result: W2ImportResult = { w2s: [], lines: [], errors: [], warnings: [] };
+  const lines = csv.split(/\r?\n/);
+  const headerIndex = lines.findIndex((l) => l.trim() !== '');
+  if (headerIndex < 0) {
+    return result;
+  }
+  const headers = parseCSVLine(lines[headerIndex]!).map((h) =>
+    h.toLowerCase().replace(/\s+/g, ' ').trim()
+  );
+  const find = (names: string[]) => headers.findIndex((h) => names.includes(h));
+
+  for (const field of REQUIRED_FIELDS) {
+    if (find(AMOUNT_COLUMNS[field]) < 0) {
+      result.errors.push({
+        line: headerIndex + 1,
+        message: `Column for ${AMOUNT_COLUMNS[field][1]} not found`,
+      });
+    }
+  }
+  if (result.errors.length > 0) {
+    return result;
+  }
+
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    const text = lines[i]!;
+    if (!text.trim()) {
+      continue;
+    }
+    const w2 = readW2(i + 1, parseCSVLine(text), headers, result.errors);
+    if (w2) {
+      result.w2s.push(w2);
+      result.lines.push(i + 1);
+    }
+  }
+
+  for (const issue of validateW2s(result.w2s, ssWageBase)) {
+    result.warnings.push({
+      line: result.lines[issue.index]!,
+      message: describeIssue(issue.field, issue.expected, issue.actual),
+    });
+  }
+
+  return result;
+}
+
+function readW2(
+  line: number,
+  cells: string[],
+  headers: string[],
+  errors: ImportRowError[]
+): FormW2 | null {
+  const rowErrors: ImportRowError[] = [];
+  const cellAt = (col: number) => (col >= 0 ? (cells[col] ?? '').trim() : '');
+  const column = (names: string[]) => cellAt(headers.findIndex((h) => names.includes(h)));
+  const amount = (text: string, label: string): number => {
+    if (!text) {
+      return 0;
+    }
+    const value = parseAmount(text);
+    if (value === null || value < 0) {
+      rowErrors.push({ line, message: `${label} "${text}" is not a valid amount` });
+      return 0;
+    }
+    return dollarsToCents(value);
+  };
+  const checked = (names: string[]) => /^(x|y|yes|true|1)$/i.test(column(names));
+
+  const amounts = {} as Record<W2AmountField, number>;
+  (Object.keys(AMOUNT_COLUMNS) as W2AmountField[]).forEach((field) => {
+    amounts[field] = amount(column(AMOUNT_COLUMNS[field]), AMOUNT_COLUMNS[field][1]!);
+  });
+
+  // Box 12: code/amount pairs (12a-12d) and per-code columns
+  const box12: FormW2['box12'] = [];
+  for (const slot of ['a', 'b', 'c', 'd']) {
+    const code = column([`box 12${slot} code`, `12${slot} code`]).toUpperCase();
+    const value = column([`box 12${slot} amount`, `12${slot} amount`]);
+    if (!code && !value) {
+      continue;
+    }
+    if (!BOX12_CODES.includes(code as W2Box12Code)) {
+      rowErrors.push({ line, message: `Box 12${slot} code "${code}" is not a W-2 code` });
+      continue;
+    }
+    box12.push({ code: code as W2Box12Code, amount: amount(value, `Box 12${slot} amount`) });
+  }
+  headers.forEach((h, col) => {
+    const match = /^box 12 ([a-z]{1,2})$/.exec(h);
+    const code = match?.[1]?.toUpperCase() as W2Box12Code | undefined;
+    if (code && BOX12_CODES.includes(code) && cellAt(col)) {
+      box12.push({ code, amount: amount(cellAt(col), `Box 12 ${code}`) });
+    }
+  });
+
+  // Box 14: "Box 14 <label>" columns
+  const box14: FormW2['box14'] = [];
+  headers.forEach((h, col) => {
+    const match = /^box 14 (.+)$/.exec(h);
+    if (match && cellAt(col)) {
+      const label = match[1]!.toUpperCase();
+      box14.push({ label, amount: amount(cellAt(col), `Box 14 ${label}`) });
+    }
+  });
+
+  const stateLines = readStateLines(line, column, amount, rowErrors);
+
+  const employee = column(['employee', 'owner', 'taxpayer or spouse']).toLowerCase();
+  if (employee && employee !== 'taxpayer' && employee !== 'spouse') {
+    rowErrors.push({ line, message: `Employee "${employee}" must be taxpayer or spouse` });
+  }
+
+  if (rowErrors.length > 0) {
+    errors.push(...rowErrors);
+    return null;
+  }
+
+  const employerName = column(['employer', 'employer name', "employer's name"]);
+  const employerEIN = column(['ein', 'employer ein', 'box b']);
+
+  return {
+    employee: employee === 'spouse' ? 'spouse' : 'taxpayer',
+    ...(employerName && { employerName }),
+    ...(employerEIN && { employerEIN }),
+    ...amounts,
+    ...(box12.length > 0 && { box12 }),
+    ...(checked(CHECKBOX_COLUMNS.statutoryEmployee) && { statutoryEmployee: true }),
+    ...(checked(CHECKBOX_COLUMNS.retirementPlan) && { retirementPlan: true }),
+    ...(checked(CHECKBOX_COLUMNS.thirdPartySickPay) && { thirdPartySickPay: true }),
+    ...(box14.length > 0 && { box14 }),
+    ...(stateLines.length > 0 && { stateLines }),
+  };
+}
+
+/**
+ * Read boxes 15-20 for "State", "State 2", ... until a state is blank
+ */
+function readStateLines(
+  line: number,
+  column: (names: string[]) => string,
+  amount: (text: string, label: string) => number,
+  rowErrors: ImportRowError[]
+): W2StateLine[] {
+  const stateLines: W2StateLine[] = [];
+
+  for (let n = 1; n <= 9; n++) {
+    const names = (field: keyof W2StateLine) =>
+      n === 1 ? STATE_COLUMNS[field] : STATE_COLUMNS[field].map((name) => `${name} ${n}`);
+    const state = column(names('state')).toUpperCase();
+    if (!state) {
+      break;
+    }
+    if (!/^[A-Z]{2}$/.test(state)) {
+      rowErrors.push({ line, message: `State "${state}" is not a two-letter state code` });
+      continue;
+    }
+
+    const employerStateId = column(names('employerStateId'));
+    const localWages = column(names('localWages'));
+    const localWithheld = column(names('localWithheld'));
+    const locality = column(names('locality'));
+    stateLines.push({
+      state,
+      ...(employerStateId && { employerStateId }),
+      stateWages: amount(column(names('stateWages')), `State wages (${state})`),
+      stateWithheld: amount(column(names('stateWithheld')), `State withholding (${state})`),
+      ...(localWages && { localWages: amount(localWages, `Local wages (${state})`) }),
+      ...(localWithheld && {
+        localWithheld: amount(localWithheld, `Local withholding (${state})`),
+      }),
+      ...(locality && { locality }),
+    });
+  }
+
+  return stateLines;
+}
+
+function describeIssue(field: string, expected: number, actual: number): string {
+  switch (field) {
+    case 'socialSecurityWages':
+      return `Social Security wages of ${formatCents(actual)} exceed the ${formatCents(expected)} wage base`;
+    case 'socialSecurityTaxWithheld':
+      return `Social Security tax withheld of ${formatCents(actual)} does not match 6.2% of Social Security wages (${formatCents(expected)})`;
+    default:
+      return `Medicare tax withheld of ${formatCents(actual)} is less than 1.45% of Medicare wages (${formatCents(expected)})`;
+  }
+}
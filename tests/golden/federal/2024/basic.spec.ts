@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { computeFederal, computeFederal2025, dollarsToCents } from '../../../../src/engine';
+import { buildFederalInput } from '../../../helpers/buildFederalInput';
+import type { QualifyingChild } from '../../../../src/engine/types';
+
+const $ = dollarsToCents;
+
+const child = (name: string, birthDate: string): QualifyingChild => ({
+  name,
+  birthDate,
+  relationship: 'son',
+  monthsLivedWithTaxpayer: 12,
+  isStudent: false,
+  isPermanentlyDisabled: false,
+  providedOwnSupport: false,
+});
+
+describe('Federal 2024 - Year-Parameterized Golden Tests', () => {
+  it('should use 2024 brackets and standard deduction for a single filer', () => {
+    const input = buildFederalInput({
+      filingStatus: 'single',
+      income: { wages: 60000 },
+      payments: { federalWithheld: 6000 },
+    });
+
+    const result = computeFederal(input, 2024);
+
+    expect(result.taxYear).toBe(2024);
+    expect(result.standardDeduction).toBe($(14600));
+    expect(result.taxableIncome).toBe($(45400));
+    // $11,600 × 10% + ($45,400 - $11,600) × 12% = $1,160 + $4,056
+    expect(result.taxBeforeCredits).toBe($(5216));
+    expect(result.refundOrOwe).toBe($(784));
+  });
+
+  it('should apply the 2024 CTC to a married couple with two children', () => {
+    const input = buildFederalInput({
+      filingStatus: 'marriedJointly',
+      spouse: { firstName: 'Jane', lastName: 'Doe' },
+      qualifyingChildren: [child('Alex', '2012-04-10'), child('Sam', '2015-09-01')],
+      income: { wages: 85000 },
+    });
+
+    const result = computeFederal(input, 2024);
+
+    expect(result.taxableIncome).toBe($(55800)); // $85,000 - $29,200
+    // $23,200 × 10% + ($55,800 - $23,200) × 12% = $2,320 + $3,912
+    expect(result.taxBeforeCredits).toBe($(6232));
+    expect(result.credits.ctc).toBe($(4000)); // $2,000 × 2 children
+    expect(result.credits.eitc).toBe(0); // Above the $62,688 phaseout end
+  });
+
+  it('should use the 2024 EITC table on the plateau', () => {
+    const input = buildFederalInput({
+      filingStatus: 'headOfHousehold',
+      qualifyingChildren: [child('Alex', '2015-09-01')],
+      income: { wages: 15000 },
+    });
+
+    const result = computeFederal(input, 2024);
+
+    expect(result.standardDeduction).toBe($(21900));
+    expect(result.taxableIncome).toBe(0);
+    // Between the $12,390 earned income amount and the $22,720 phaseout start
+    expect(result.credits.eitc).toBe($(4213));
+  });
+
+  it('should match computeFederal2025 when computing 2025', () => {
+    const input = buildFederalInput({
+      filingStatus: 'marriedJointly',
+      spouse: { firstName: 'Jane', lastName: 'Doe' },
+      qualifyingChildren: [child('Alex', '2012-04-10')],
+      income: { wages: 140000, interest: 2500, dividends: { ordinary: 4000, qualified: 3000 } },
+      itemized: { stateLocalTaxes: 18000, mortgageInterest: 16000, charitable: 4000 },
+    });
+
+    expect(computeFederal(input, 2025)).toEqual(computeFederal2025(input));
+  });
+});
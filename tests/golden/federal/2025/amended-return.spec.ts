@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import { computeAmendedReturn, computeFederal2025, dollarsToCents } from '../../../../src/engine';
+import { buildFederalInput } from '../../../helpers/buildFederalInput';
+import type { FederalInput2025, OriginalReturnSnapshot } from '../../../../src/engine/types';
+
+const $ = dollarsToCents;
+
+const fileOriginal = (input: FederalInput2025): OriginalReturnSnapshot => ({
+  taxYear: 2025,
+  filedAt: '2026-04-10',
+  input,
+  result: computeFederal2025(input),
+});
+
+describe('Federal 2025 - Amended Return (Form 1040-X)', () => {
+  it('should show the original, net change and corrected columns for a corrected 1099-INT', () => {
+    const original = fileOriginal(
+      buildFederalInput({
+        filingStatus: 'single',
+        income: { wages: 60000, interest: 500 },
+        payments: { federalWithheld: 7000 },
+      })
+    );
+    const corrected = buildFederalInput({
+      filingStatus: 'single',
+      income: { wages: 60000, interest: 1700 },
+      payments: { federalWithheld: 7000 },
+    });
+
+    const result = computeAmendedReturn({
+      original,
+      corrected,
+      reason: 'Corrected Form 1099-INT received from the bank.',
+    });
+    const line = (id: string) => result.lines.find((l) => l.line === id)!;
+
+    expect(line('1')).toMatchObject({
+      original: $(60500),
+      netChange: $(1200),
+      corrected: $(61700),
+    });
+    expect(line('5')).toMatchObject({ original: $(45500), corrected: $(46700) });
+    // $11,925 × 10% + ($45,500 - $11,925) × 12% = $5,221.50
+    // $11,925 × 10% + ($46,700 - $11,925) × 12% = $5,365.50
+    expect(line('11')).toMatchObject({
+      original: $(5221.5),
+      netChange: $(144),
+      corrected: $(5365.5),
+    });
+    expect(line('12').netChange).toBe(0);
+
+    // Original refund of $1,778.50 is taken back before the balance due
+    expect(result.originalOverpayment).toBe($(1778.5));
+    expect(result.totalPayments).toBe($(7000));
+    expect(result.amountOwed).toBe($(144));
+    expect(result.overpayment).toBe(0);
+    expect(result.diagnostics.warnings.map((w) => w.code)).toContain('PAYMENT-W-006');
+  });
+
+  it('should credit tax paid with the original return and refund the overpayment', () => {
+    const original = fileOriginal(
+      buildFederalInput({
+        filingStatus: 'single',
+        income: { wages: 60000 },
+        payments: { federalWithheld: 4000 },
+      })
+    );
+    const corrected = buildFederalInput({
+      filingStatus: 'single',
+      income: { wages: 60000 },
+      payments: { federalWithheld: 4000, estPayments: 2000 },
+    });
+
+    const result = computeAmendedReturn({ original, corrected, appliedToEstimatedTax: $(500) });
+
+    // Original balance due: $5,161.50 - $4,000 = $1,161.50, paid with the return
+    expect(result.paidWithOriginal).toBe($(1161.5));
+    expect(result.totalPayments).toBe($(7161.5));
+    expect(result.amountOwed).toBe(0);
+    expect(result.overpayment).toBe($(2000));
+    expect(result.appliedToEstimatedTax).toBe($(500));
+    expect(result.refund).toBe($(1500));
+  });
+
+  it('should explain the changed lines and corrected entries', () => {
+    const original = fileOriginal(
+      buildFederalInput({
+        filingStatus: 'single',
+        income: { wages: 60000, dividends: { ordinary: 1000 } },
+      })
+    );
+    const corrected = buildFederalInput({
+      filingStatus: 'single',
+      income: { wages: 60000, dividends: { ordinary: 2500 } },
+    });
+
+    const { explanation } = computeAmendedReturn({
+      original,
+      corrected,
+      reason: 'Corrected Form 1099-DIV received.',
+    });
+
+    expect(explanation).toContain('Reason for amending: Corrected Form 1099-DIV received.');
+    expect(explanation).toContain(
+      'Line 1 (Adjusted gross income) increased by $1,500, from $61,000 to $62,500.'
+    );
+    expect(explanation).toContain('income.dividends.ordinary: $1,000 → $2,500');
+  });
+
+  it('should warn when a joint return is changed to separate returns', () => {
+    const input = buildFederalInput({
+      filingStatus: 'marriedJointly',
+      spouse: { firstName: 'Jane', lastName: 'Doe' },
+      income: { wages: 90000 },
+    });
+    const original = fileOriginal(input);
+
+    const result = computeAmendedReturn({
+      original,
+      corrected: { ...input, filingStatus: 'marriedSeparately' },
+    });
+
+    expect(result.diagnostics.warnings.map((w) => w.code)).toContain('FORM-W-011');
+    expect(result.explanation).toContain(
+      'Filing status changed from marriedJointly to marriedSeparately.'
+    );
+  });
+
+  it('should report no changes when the corrected input matches the original', () => {
+    const input = buildFederalInput({ filingStatus: 'single', income: { wages: 40000 } });
+
+    const result = computeAmendedReturn({ original: fileOriginal(input), corrected: input });
+
+    expect(result.lines.every((l) => l.netChange === 0)).toBe(true);
+    expect(result.explanation).toBe('No changes to income, deductions, credits, tax or payments.');
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { computeCleanVehicleCredit2025 } from '../../../../src/engine/credits/cleanVehicle';
+import { computeFederal2025 } from '../../../../src/engine/federal/2025/computeFederal2025';
+import { createFederalTrace } from '../../../../src/engine/trace/federalTrace';
+import { dollarsToCents } from '../../../../src/engine/util/money';
+import type { CleanVehiclePurchase } from '../../../../src/engine/types';
+import { buildFederalInput } from '../../../helpers/buildFederalInput';
+
+/**
+ * Golden Tests for Clean Vehicle Credits - 2025
+ * Form 8936
+ *
+ * Tests validate:
+ * - §30D $7,500 credit with MSRP limits by vehicle class
+ * - §25E 30% credit up to $4,000 with the $25,000 price limit
+ * - MAGI limits by filing status, using the lower of the current and prior year
+ * - No credit for vehicles acquired after September 30, 2025
+ * - Repayment of a credit transferred to the dealer when MAGI is over the limit
+ *
+ * Source: IRC §25E, §30D, Form 8936 Instructions
+ */
+
+const $ = dollarsToCents;
+
+const newVehicle: CleanVehiclePurchase = {
+  condition: 'new',
+  vehicleClass: 'vanSuvPickup',
+  msrp: $(62000),
+  salePrice: $(60000),
+  placedInServiceDate: '2025-06-15',
+};
+
+const usedVehicle: CleanVehiclePurchase = {
+  condition: 'used',
+  salePrice: $(18000),
+  placedInServiceDate: '2025-03-01',
+};
+
+describe('Clean Vehicle Credits 2025', () => {
+  it('should apply MSRP, price and acquisition date limits', () => {
+    const result = computeCleanVehicleCredit2025({
+      filingStatus: 'single',
+      taxYear: 2025,
+      magi: $(60000),
+      vehicles: [
+        newVehicle,
+        { ...newVehicle, vehicleClass: 'other' }, // $62,000 over the $55,000 limit
+        usedVehicle, // 30% of $18,000 = $5,400, limited to $4,000
+        { ...usedVehicle, salePrice: $(26000) },
+        { ...usedVehicle, placedInServiceDate: '2025-10-15' },
+      ],
+    });
+
+    expect(result.vehicles.map((v) => v.ineligibleReason)).toEqual([
+      undefined,
+      'priceLimit',
+      undefined,
+      'priceLimit',
+      'acquiredAfterDeadline',
+    ]);
+    expect(result.newVehicleCredit).toBe($(7500));
+    expect(result.usedVehicleCredit).toBe($(4000));
+  });
+
+  it('should test the lower of current and prior year MAGI', () => {
+    const input = {
+      filingStatus: 'headOfHousehold' as const,
+      taxYear: 2025,
+      magi: $(120000), // Over the $112,500 HOH limit for used vehicles
+      vehicles: [usedVehicle],
+    };
+
+    expect(computeCleanVehicleCredit2025(input).vehicles[0]?.ineligibleReason).toBe('incomeLimit');
+    expect(
+      computeCleanVehicleCredit2025({ ...input, priorYearMagi: $(100000) }).usedVehicleCredit
+    ).toBe($(4000));
+  });
+
+  it('should limit the credit to tax and surface it in the trace', () => {
+    // Single, $60,000 wages: $5,161.50 tax
+    const input = {
+      ...buildFederalInput({ filingStatus: 'single', income: { wages: 60000 } }),
+      cleanVehicles: [newVehicle, usedVehicle],
+    };
+    const result = computeFederal2025(input);
+
+    expect(result.credits.cleanVehicle).toBe($(5161.5));
+    expect(result.credits.usedCleanVehicle).toBe(0);
+    expect(result.totalTax).toBe(0);
+
+    const credits = createFederalTrace(input, result).find((s) => s.id === 'credits');
+    expect(credits?.entries.find((e) => e.step === 'clean_vehicle_credit')?.result).toBe($(5161.5));
+  });
+
+  it('should repay a dealer transfer when MAGI is over the limit', () => {
+    const base = buildFederalInput({ filingStatus: 'single', income: { wages: 160000 } });
+    const withoutVehicle = computeFederal2025(base);
+    const result = computeFederal2025({
+      ...base,
+      cleanVehicles: [{ ...newVehicle, transferredToDealer: true }],
+    });
+
+    expect(result.credits.cleanVehicle).toBe(0);
+    expect(result.credits.cleanVehicleRepayment).toBe($(7500));
+    expect(result.totalTax).toBe(withoutVehicle.totalTax + $(7500));
+    expect(result.diagnostics.warnings.map((w) => w.code)).toContain('CREDIT-W-012');
+  });
+
+  it('should claim nothing more for an eligible dealer transfer', () => {
+    const result = computeFederal2025({
+      ...buildFederalInput({ filingStatus: 'single', income: { wages: 60000 } }),
+      cleanVehicles: [{ ...newVehicle, transferredToDealer: true }],
+    });
+
+    expect(result.cleanVehicleDetails?.advancePayments).toBe($(7500));
+    expect(result.credits.cleanVehicle).toBe(0);
+    expect(result.credits.cleanVehicleRepayment).toBeUndefined();
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest';
+import { computeFederal2025 } from '../../../../src/engine/federal/2025/computeFederal2025';
+import { createFederalTrace } from '../../../../src/engine/trace/federalTrace';
+import { dollarsToCents } from '../../../../src/engine/util/money';
+import { buildFederalInput } from '../../../helpers/buildFederalInput';
+
+/**
+ * Golden Tests for the Estimated Tax Penalty - 2025
+ * Form 2210, Schedule AI
+ *
+ * Tests validate:
+ * - Prior year (100%/110%) and current year (90%) safe harbors
+ * - Penalty figured by the day from each installment due date
+ * - Annualized income installment method (Schedule AI)
+ * - Penalty included in refundOrOwe and refundOrOweBreakdown
+ * - Diagnostics and trace
+ *
+ * Source: IRC §6654, Form 2210 Instructions (2025)
+ */
+
+// Single, $100,000 wages: taxable income $85,000, total tax $13,614
+const underpaidInput = (overrides: Partial<ReturnType<typeof buildFederalInput>> = {}) => ({
+  ...buildFederalInput({
+    filingStatus: 'single',
+    income: { wages: 100000 },
+    payments: { federalWithheld: 5000 },
+  }),
+  priorYear: { totalTax: dollarsToCents(12000), agi: dollarsToCents(95000) },
+  ...overrides,
+});
+
+describe('Estimated Tax Penalty (Form 2210) 2025', () => {
+  it('should not compute Form 2210 without prior year tax', () => {
+    const input = underpaidInput();
+    delete input.priorYear;
+    const result = computeFederal2025(input);
+
+    expect(result.form2210Details).toBeUndefined();
+    expect(result.estimatedTaxPenalty).toBeUndefined();
+    expect(result.refundOrOweBreakdown?.estimatedTaxPenalty).toBe(0);
+    expect(result.diagnostics.warnings.some((w) => w.code === 'PAYMENT-W-003')).toBe(true);
+  });
+
+  it('should waive the penalty when 100% of prior year tax is paid', () => {
+    const result = computeFederal2025(
+      underpaidInput({
+        payments: {
+          federalWithheld: dollarsToCents(12000),
+          estPayments: 0,
+          eitcAdvance: 0,
+        },
+      })
+    );
+
+    expect(result.totalTax).toBe(dollarsToCents(13614));
+    expect(result.form2210Details?.penaltyApplies).toBe(false);
+    expect(result.form2210Details?.exceptionReason).toContain('100% of prior year tax');
+    expect(result.estimatedTaxPenalty).toBe(0);
+    expect(result.refundOrOwe).toBe(dollarsToCents(12000 - 13614));
+  });
+
+  it('should require 110% of prior year tax when prior year AGI exceeds $150,000', () => {
+    const result = computeFederal2025(
+      underpaidInput({
+        priorYear: { totalTax: dollarsToCents(12000), agi: dollarsToCents(160000) },
+        payments: {
+          federalWithheld: dollarsToCents(12000),
+          estPayments: 0,
+          eitcAdvance: 0,
+        },
+      })
+    );
+
+    // 110% of $12,000 = $13,200 exceeds 90% of current tax ($12,252.60)
+    expect(result.form2210Details?.penaltyApplies).toBe(true);
+    expect(result.form2210Details?.requiredAnnualPayment).toBe(1225260);
+  });
+
+  it('should figure the penalty by the day on each underpaid installment', () => {
+    const result = computeFederal2025(underpaidInput());
+    const form2210 = result.form2210Details!;
+
+    // Required annual payment: lesser of $12,000 or $12,252.60
+    expect(form2210.requiredAnnualPayment).toBe(dollarsToCents(12000));
+    expect(form2210.requiredInstallments.q1).toBe(dollarsToCents(3000));
+
+    // Withholding of $1,250 per quarter leaves $1,750 underpaid each quarter
+    expect(form2210.quarterlyUnderpayments).toEqual({
+      q1: dollarsToCents(1750),
+      q2: dollarsToCents(1750),
+      q3: dollarsToCents(1750),
+      q4: dollarsToCents(1750),
+    });
+
+    // Each withholding installment first pays the oldest underpayment, so
+    // Q1's $1,750 is paid $1,250 on Jun 16 and $500 on Sep 15; the rest
+    // accrues at 7% to April 15, 2026
+    expect(form2210.quarterlyPenalties).toEqual({ q1: 2953, q2: 12226, q3: 12197, q4: 5178 });
+    expect(result.estimatedTaxPenalty).toBe(32554);
+  });
+
+  it('should include the penalty in the amount owed and the breakdown', () => {
+    const result = computeFederal2025(underpaidInput());
+    const penalty = result.estimatedTaxPenalty!;
+
+    expect(result.refundOrOwe).toBe(dollarsToCents(5000 - 13614) - penalty);
+    expect(result.refundOrOweBreakdown?.estimatedTaxPenalty).toBe(penalty);
+    expect(result.refundOrOweBreakdown?.refundOrOwe).toBe(result.refundOrOwe);
+  });
+
+  it('should reduce the penalty for estimated payments made on time', () => {
+    const late = computeFederal2025(
+      underpaidInput({
+        payments: {
+          federalWithheld: dollarsToCents(5000),
+          estPayments: dollarsToCents(4000),
+          eitcAdvance: 0,
+          estimatedPaymentDates: [{ date: '2026-01-15', amount: dollarsToCents(4000) }],
+        },
+      })
+    );
+    const onTime = computeFederal2025(
+      underpaidInput({
+        payments: {
+          federalWithheld: dollarsToCents(5000),
+          estPayments: dollarsToCents(4000),
+          eitcAdvance: 0,
+        },
+      })
+    );
+
+    expect(late.estimatedTaxPenalty).toBeGreaterThan(onTime.estimatedTaxPenalty!);
+    expect(onTime.estimatedTaxPenalty).toBeGreaterThan(0);
+  });
+
+  it('should lower the penalty with the annualized income installment method', () => {
+    const regular = computeFederal2025(underpaidInput());
+    const annualized = computeFederal2025(
+      underpaidInput({
+        form2210: {
+          // Most income earned in the last four months of the year
+          annualizedIncome: [
+            { agi: dollarsToCents(10000) },
+            { agi: dollarsToCents(15000) },
+            { agi: dollarsToCents(25000) },
+            { agi: dollarsToCents(100000) },
+          ],
+        },
+      })
+    );
+
+    expect(annualized.form2210Details?.usedAnnualizedMethod).toBe(true);
+    expect(annualized.form2210Details?.annualizedInstallments).toBeDefined();
+    expect(annualized.estimatedTaxPenalty).toBeLessThan(regular.estimatedTaxPenalty!);
+  });
+
+  it('should emit diagnostics when the safe harbors are missed', () => {
+    const result = computeFederal2025(underpaidInput());
+    const codes = result.diagnostics.warnings.map((w) => w.code);
+
+    expect(codes).toContain('PAYMENT-W-004');
+    expect(codes).toContain('FORM-W-010');
+    expect(codes).not.toContain('PAYMENT-W-003');
+  });
+
+  it('should add the penalty to the refund or owe trace section', () => {
+    const input = underpaidInput();
+    const result = computeFederal2025(input);
+    const sections = createFederalTrace(input, result);
+
+    const refund = sections.find((s) => s.id === 'refund_owe');
+    expect(refund?.entries.find((e) => e.step === 'estimated_tax_penalty')?.result).toBe(
+      result.estimatedTaxPenalty
+    );
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import { computeExcessSocialSecurity2025 } from '../../../../src/engine/credits/excessSocialSecurity';
+import { computeFederal2025 } from '../../../../src/engine/federal/2025/computeFederal2025';
+import { createFederalTrace } from '../../../../src/engine/trace/federalTrace';
+import { dollarsToCents } from '../../../../src/engine/util/money';
+import type { FormW2 } from '../../../../src/engine/types';
+import { buildFederalInput } from '../../../helpers/buildFederalInput';
+
+/**
+ * Golden Tests for Excess Social Security Tax Withheld - 2025
+ * Schedule 3, Line 11
+ *
+ * Tests validate:
+ * - Excess over 6.2% × $176,100 = $10,918.20 with two or more employers
+ * - Computed per person, never combined on a joint return
+ * - Over-withholding by a single employer is not creditable, with W-2s
+ *   grouped by employer EIN
+ * - Credit added to refundable credits and the payments trace
+ *
+ * Source: IRC §31(b), Form 1040 Instructions (Schedule 3 Line 11)
+ */
+
+const $ = dollarsToCents;
+
+const w2 = (ssWages: number, overrides: Partial<FormW2> = {}): FormW2 => ({
+  employee: 'taxpayer',
+  wages: $(ssWages),
+  federalWithheld: $(ssWages * 0.15),
+  socialSecurityWages: $(ssWages),
+  socialSecurityTaxWithheld: $(ssWages * 0.062),
+  medicareWages: $(ssWages),
+  medicareTaxWithheld: $(ssWages * 0.0145),
+  ...overrides,
+});
+
+const inputWith = (w2Forms: FormW2[], filingStatus: 'single' | 'marriedJointly' = 'single') => {
+  const wages = w2Forms.reduce((sum, w) => sum + w.wages, 0) / 100;
+  return {
+    ...buildFederalInput({
+      filingStatus,
+      ...(filingStatus === 'marriedJointly' && { spouse: { firstName: 'Jane', lastName: 'Doe' } }),
+      income: { wages },
+      payments: { federalWithheld: wages * 0.15 },
+    }),
+    w2Forms,
+  };
+};
+
+describe('Excess Social Security Withholding 2025', () => {
+  it('should credit withholding above the maximum from two employers', () => {
+    // $7,440 + $4,960 = $12,400 withheld; $12,400 - $10,918.20 = $1,481.80
+    const input = inputWith([
+      w2(120000, { employerName: 'Acme' }),
+      w2(80000, { employerName: 'Beta' }),
+    ]);
+    const result = computeFederal2025(input);
+
+    expect(result.credits.excessSocialSecurity).toBe($(1481.8));
+    expect(result.refundableCreditsBreakdown?.excessSocialSecurity).toBe($(1481.8));
+    expect(result.refundableCreditsBreakdown?.totalRefundableCredits).toBe($(1481.8));
+
+    const withoutW2s = computeFederal2025({ ...input, w2Forms: undefined });
+    expect(result.refundOrOwe - withoutW2s.refundOrOwe).toBe($(1481.8));
+  });
+
+  it('should compute the excess per person on a joint return', () => {
+    // Taxpayer: one job at the wage base. Spouse: two $100,000 jobs.
+    // The taxpayer's withholding is at the maximum and cannot absorb the spouse's excess
+    const result = computeExcessSocialSecurity2025({
+      w2Forms: [w2(176100), w2(100000, { employee: 'spouse' }), w2(100000, { employee: 'spouse' })],
+    });
+
+    expect(result.maxWithholding).toBe($(10918.2));
+    expect(result.taxpayer).toEqual({
+      employers: 1,
+      totalWithheld: $(10918.2),
+      excess: 0,
+      employerOverWithheld: 0,
+    });
+    expect(result.spouse.excess).toBe($(1481.8));
+    expect(result.totalCredit).toBe($(1481.8));
+  });
+
+  it('should not credit over-withholding by a single employer', () => {
+    const single = computeExcessSocialSecurity2025({
+      w2Forms: [w2(200000, { socialSecurityTaxWithheld: $(12400) })],
+    });
+    expect(single.taxpayer.excess).toBe(0);
+    expect(single.taxpayer.employerOverWithheld).toBe($(1481.8));
+
+    // The first employer counts only up to $10,918.20
+    const twoJobs = computeExcessSocialSecurity2025({
+      w2Forms: [
+        w2(200000, { socialSecurityTaxWithheld: $(12400) }),
+        w2(20000, { socialSecurityTaxWithheld: $(1240) }),
+      ],
+    });
+    expect(twoJobs.taxpayer.excess).toBe($(1240));
+
+    const result = computeFederal2025(
+      inputWith([w2(200000, { employerName: 'Acme', socialSecurityTaxWithheld: $(12400) })])
+    );
+    expect(result.credits.excessSocialSecurity).toBeUndefined();
+    const warning = result.diagnostics.warnings.find((w) => w.code === 'PAYMENT-W-007');
+    expect(warning?.message).toContain('Acme withheld $1,482');
+  });
+
+  it('should treat W-2s with the same EIN as one employer', () => {
+    // $6,200 + $6,200 = $12,400 from one employer; the employer refunds $1,481.80
+    const sameEmployer = [
+      w2(100000, { employerName: 'Acme', employerEIN: '12-3456789' }),
+      w2(100000, { employerName: 'Acme', employerEIN: '123456789' }),
+    ];
+    const single = computeExcessSocialSecurity2025({ w2Forms: sameEmployer });
+    expect(single.taxpayer).toEqual({
+      employers: 1,
+      totalWithheld: $(12400),
+      excess: 0,
+      employerOverWithheld: $(1481.8),
+    });
+
+    // A second employer: Acme counts up to $10,918.20, plus Beta's $1,240
+    const withSecondJob = computeExcessSocialSecurity2025({
+      w2Forms: [...sameEmployer, w2(20000, { employerName: 'Beta', employerEIN: '98-7654321' })],
+    });
+    expect(withSecondJob.taxpayer.employers).toBe(2);
+    expect(withSecondJob.taxpayer.excess).toBe($(1240));
+
+    const result = computeFederal2025(inputWith(sameEmployer));
+    expect(result.credits.excessSocialSecurity).toBeUndefined();
+    const warning = result.diagnostics.warnings.find((w) => w.code === 'PAYMENT-W-007');
+    expect(warning?.message).toContain('Acme withheld $1,482');
+  });
+
+  it('should add the credit to the payments trace section', () => {
+    const input = inputWith(
+      [w2(150000), w2(60000), w2(90000, { employee: 'spouse' })],
+      'marriedJointly'
+    );
+    const result = computeFederal2025(input);
+    const sections = createFederalTrace(input, result);
+
+    // Taxpayer: $9,300 + $3,720 - $10,918.20 = $2,101.80; spouse has one job
+    const entry = sections
+      .find((s) => s.id === 'payments')
+      ?.entries.find((e) => e.step === 'excess_social_security');
+    expect(entry?.result).toBe($(2101.8));
+    expect(entry?.intermediates).toEqual({ taxpayerExcess: $(2101.8), spouseExcess: 0 });
+  });
+});
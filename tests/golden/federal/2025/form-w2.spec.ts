@@ -0,0 +1,198 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyW2sToFederalInput,
+  applyW2sToStateInput,
+  summarizeW2s,
+  validateW2s,
+} from '../../../../src/engine/income/formW2';
+import { computeFederal2025 } from '../../../../src/engine/federal/2025/computeFederal2025';
+import { computeMultiStateReturns } from '../../../../src/engine/states/allocation';
+import { SS_WAGE_BASE_2025 } from '../../../../src/engine/rules/2025/federal/medicareSocialSecurity';
+import { dollarsToCents } from '../../../../src/engine/util/money';
+import { calculateTaxResultsWithEngine } from '../../../../src/utils/engineAdapter';
+import type { FormW2 } from '../../../../src/engine/types';
+import { buildFederalInput } from '../../../helpers/buildFederalInput';
+
+/**
+ * Golden Tests for Form W-2 mapping - 2025
+ *
+ * Tests validate:
+ * - Box totals by person and state, and state withholding on the state input
+ * - Box 12 code W to employer HSA contributions, Box 13 to IRA coverage
+ * - Social Security wage base and FICA withholding consistency
+ * - Box 3 / Box 5 wages in the Schedule SE computation
+ *
+ * Source: General Instructions for Forms W-2 and W-3, IRC §3101
+ */
+
+const $ = dollarsToCents;
+
+const w2 = (wages: number, overrides: Partial<FormW2> = {}): FormW2 => ({
+  employee: 'taxpayer',
+  wages: $(wages),
+  federalWithheld: $(wages * 0.1),
+  socialSecurityWages: $(wages),
+  socialSecurityTaxWithheld: $(wages * 0.062),
+  medicareWages: $(wages),
+  medicareTaxWithheld: $(wages * 0.0145),
+  ...overrides,
+});
+
+describe('Form W-2 2025', () => {
+  it('should total boxes by person and state', () => {
+    const summary = summarizeW2s([
+      w2(80000, {
+        box12: [
+          { code: 'D', amount: $(6000) },
+          { code: 'W', amount: $(1000) },
+        ],
+        retirementPlan: true,
+        stateLines: [{ state: 'ny', stateWages: $(80000), stateWithheld: $(4000) }],
+      }),
+      w2(50000, {
+        employee: 'spouse',
+        box12: [{ code: 'AA', amount: $(2000) }],
+        stateLines: [
+          { state: 'NY', stateWages: $(30000), stateWithheld: $(1500) },
+          {
+            state: 'NJ',
+            stateWages: $(20000),
+            stateWithheld: $(600),
+            localWithheld: $(100),
+            locality: 'Newark',
+          },
+        ],
+      }),
+    ]);
+
+    expect(summary.wages).toBe($(130000));
+    expect(summary.federalWithheld).toBe($(13000));
+    expect(summary.hsaEmployerContributions).toBe($(1000));
+    expect(summary.electiveDeferrals).toEqual({ taxpayer: $(6000), spouse: $(2000) });
+    expect(summary.retirementPlanCovered).toEqual({ taxpayer: true, spouse: false });
+    expect(summary.stateWithheldByState).toEqual({ NY: $(5500), NJ: $(600) });
+    expect(summary.localWithheldByLocality).toEqual({ Newark: $(100) });
+  });
+
+  it('should map W-2s onto the federal input', () => {
+    const base = buildFederalInput({
+      filingStatus: 'marriedJointly',
+      spouse: { firstName: 'Jane', lastName: 'Doe' },
+      income: { wages: 1 },
+      payments: { federalWithheld: 1 },
+    });
+
+    const input = applyW2sToFederalInput(
+      base,
+      [
+        w2(70000, { box12: [{ code: 'W', amount: $(2000) }] }),
+        w2(60000, { employee: 'spouse', retirementPlan: true }),
+      ],
+      $(500)
+    );
+
+    expect(input.income.wages).toBe($(130000));
+    expect(input.payments.federalWithheld).toBe($(13500));
+    expect(input.adjustments.iraContributorCoveredByPlan).toBe(false);
+    expect(input.adjustments.iraSpouseCoveredByPlan).toBe(true);
+    expect(input.adjustments.hsaEmployerContributions).toBe($(2000));
+    expect(input.w2Forms).toHaveLength(2);
+  });
+
+  it('should map W-2 state lines onto the state withholding by state', () => {
+    const w2s = [
+      w2(60000, {
+        stateLines: [
+          { state: 'ny', stateWages: $(40000), stateWithheld: $(2000) },
+          { state: 'PA', stateWages: $(20000), stateWithheld: $(700) },
+        ],
+      }),
+    ];
+    const input = applyW2sToStateInput(
+      {
+        federalResult: computeFederal2025(
+          applyW2sToFederalInput(buildFederalInput({ filingStatus: 'single' }), w2s)
+        ),
+        filingStatus: 'single',
+        residencyPeriods: [{ state: 'PA', startDate: '2025-01-01', endDate: '2025-12-31' }],
+        incomeSourcing: { wagesByState: { NY: $(40000) } },
+        stateWithheldByState: { PA: $(999) },
+      },
+      w2s,
+      { pa: $(300) }
+    );
+
+    expect(input.stateWithheldByState).toEqual({ NY: $(2000), PA: $(1000) });
+    const result = computeMultiStateReturns(input);
+    expect(result.states.find((s) => s.state === 'NY')?.result.stateWithheld).toBe($(2000));
+    expect(result.states.find((s) => s.state === 'PA')?.result.stateWithheld).toBe($(1000));
+  });
+
+  it('should replace the wages and withholding entered in the UI with the W-2s', () => {
+    const result = calculateTaxResultsWithEngine(
+      { filingStatus: 'single', state: 'PA' },
+      { wages: '1000' },
+      {},
+      {},
+      { federalWithholding: '100', stateWithholding: '100' },
+      {},
+      {},
+      2025,
+      {
+        w2Forms: [
+          w2(60000, {
+            stateLines: [{ state: 'PA', stateWages: $(60000), stateWithheld: $(1800) }],
+          }),
+        ],
+      }
+    );
+
+    expect(result.federalDetails?.agi).toBe($(60000));
+    expect(result.federalDetails?.totalPayments).toBe($(6000));
+    expect(result.stateDetails?.stateWithheld).toBe($(1800));
+  });
+
+  it('should flag Social Security wages over the wage base and mismatched withholding', () => {
+    const issues = validateW2s(
+      [
+        w2(200000, { socialSecurityWages: $(200000) }),
+        w2(50000, { socialSecurityTaxWithheld: $(2000), medicareTaxWithheld: $(100) }),
+      ],
+      SS_WAGE_BASE_2025
+    );
+
+    expect(issues.map((i) => [i.index, i.field])).toEqual([
+      [0, 'socialSecurityWages'],
+      [0, 'socialSecurityTaxWithheld'],
+      [1, 'socialSecurityTaxWithheld'],
+      [1, 'medicareTaxWithheld'],
+    ]);
+    expect(issues[0]!.expected).toBe(SS_WAGE_BASE_2025);
+  });
+
+  it('should use Box 3 wages for the Schedule SE wage base and warn on inconsistent W-2s', () => {
+    // Box 1 is reduced by a 401(k) deferral; Box 3 is not
+    const w2Forms = [
+      w2(160000, {
+        socialSecurityWages: $(176100),
+        socialSecurityTaxWithheld: $(10918.2),
+        medicareWages: $(176100),
+        medicareTaxWithheld: $(1000),
+      }),
+    ];
+    const input = {
+      ...buildFederalInput({
+        filingStatus: 'single',
+        income: { wages: 160000, scheduleCNet: 20000 },
+      }),
+      w2Forms,
+    };
+
+    const result = computeFederal2025(input);
+
+    // SS wage base is used up by Box 3, so only Medicare applies to SE earnings
+    // $20,000 × 92.35% × 2.9% = $535.63
+    expect(result.additionalTaxes?.seTax).toBe($(535.63));
+    expect(result.diagnostics.warnings.map((w) => w.code)).toContain('INPUT-W-008');
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { computeFederal2025 } from '../../../../src/engine/federal/2025/computeFederal2025';
+import { computeScheduleH2025 } from '../../../../src/engine/tax/scheduleH';
+import { createFederalTrace } from '../../../../src/engine/trace/federalTrace';
+import { dollarsToCents } from '../../../../src/engine/util/money';
+import type { HouseholdEmploymentInput } from '../../../../src/engine/types';
+import { buildFederalInput } from '../../../helpers/buildFederalInput';
+
+/**
+ * Golden Tests for Household Employment Taxes - 2025
+ * Schedule H
+ *
+ * Tests validate:
+ * - Social Security and Medicare on wages of $2,800 or more per employee
+ * - Exemptions for family members and employees under 18
+ * - FUTA on the first $7,000 per employee with the 5.4% state credit
+ * - FUTA credit reduction for California
+ * - Schedule H tax in total tax, the trace and the Form 2210 required payment
+ *
+ * Source: Schedule H Instructions, Publication 926
+ */
+
+const $ = dollarsToCents;
+
+const nanny: HouseholdEmploymentInput = {
+  employees: [
+    { name: 'Nanny', cashWages: $(30000), federalWithheld: $(2000) },
+    { name: 'Babysitter', cashWages: $(3000), isUnder18: true },
+  ],
+};
+
+describe('Household Employment Taxes (Schedule H) 2025', () => {
+  it('should compute Social Security, Medicare and FUTA', () => {
+    const result = computeScheduleH2025(nanny);
+
+    // Babysitter under 18: no Social Security or Medicare, but FUTA applies
+    expect(result.socialSecurityTax).toBe($(3720)); // 12.4% × $30,000
+    expect(result.medicareTax).toBe($(870)); // 2.9% × $30,000
+    expect(result.futaWages).toBe($(10000)); // $7,000 + $3,000
+    expect(result.futaTax).toBe($(60)); // 0.6% net rate
+    expect(result.totalTax).toBe($(6650));
+  });
+
+  it('should skip FICA below the $2,800 threshold and for family members', () => {
+    const result = computeScheduleH2025({
+      employees: [
+        { cashWages: $(2500) },
+        { cashWages: $(12000), isExemptFamilyMember: true }, // Child under 21
+      ],
+    });
+
+    expect(result.medicareWages).toBe(0);
+    expect(result.futaWages).toBe($(2500));
+    expect(result.totalTax).toBe($(15));
+  });
+
+  it('should apply the FUTA credit reduction for the state', () => {
+    const result = computeScheduleH2025({
+      employees: [{ cashWages: $(30000) }],
+      unemploymentState: 'CA',
+    });
+
+    // $420 gross - ($378 state credit - $84 reduction)
+    expect(result.futaCreditReduction).toBe($(84));
+    expect(result.futaTax).toBe($(126));
+  });
+
+  it('should add Schedule H to total tax and the trace', () => {
+    const base = buildFederalInput({ filingStatus: 'single', income: { wages: 60000 } });
+    const input = { ...base, householdEmployment: nanny };
+    const result = computeFederal2025(input);
+
+    expect(result.additionalTaxes?.householdEmploymentTax).toBe($(6650));
+    expect(result.totalTax).toBe(computeFederal2025(base).totalTax + $(6650));
+    expect(result.refundOrOweBreakdown?.totalAdditionalTaxes).toBe($(6650));
+    expect(result.diagnostics.warnings.map((w) => w.code)).toContain('CALC-W-032');
+
+    const entry = createFederalTrace(input, result)
+      .find((s) => s.id === 'other_taxes')
+      ?.entries.find((e) => e.step === 'household_employment_tax');
+    expect(entry?.result).toBe($(6650));
+  });
+
+  it('should include Schedule H in Form 2210 only with withholding', () => {
+    // Single, $100,000 wages: $13,614 income tax
+    const input = (payments: { federalWithheld?: number; estPayments?: number }) => ({
+      ...buildFederalInput({ filingStatus: 'single', income: { wages: 100000 }, payments }),
+      householdEmployment: nanny,
+      priorYear: { totalTax: $(20000), agi: $(95000) },
+    });
+
+    // With withholding: 90% × ($13,614 + $6,650) = $18,237.60 required
+    const withheld = computeFederal2025(input({ federalWithheld: 12300 }));
+    expect(withheld.form2210Details?.requiredAnnualPayment).toBe($(18237.6));
+    expect(withheld.form2210Details?.penaltyApplies).toBe(true);
+
+    // No withholding and no penalty without Schedule H, so it is left out;
+    // including it would require $18,237.60
+    const estimated = computeFederal2025(input({ estPayments: 12300 }));
+    expect(estimated.form2210Details?.penaltyApplies).toBe(false);
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, it, expect } from 'vitest';
+import { computeHSA2025, type HDHPCoverage } from '../../../../src/engine/deductions/hsa';
+import { computeFederal2025 } from '../../../../src/engine/federal/2025/computeFederal2025';
+import { dollarsToCents } from '../../../../src/engine/util/money';
+import type { FormW2, HSAAccount } from '../../../../src/engine/types';
+import { buildFederalInput } from '../../../helpers/buildFederalInput';
+
+/**
+ * Golden Tests for Health Savings Accounts - 2025
+ * Form 8889
+ *
+ * Tests validate:
+ * - Monthly contribution limit ($4,300 self-only, $8,550 family) and the last-month rule
+ * - Catch-up contribution at age 55
+ * - Employer contributions (W-2 Box 12 code W) reduce the deductible amount
+ * - Family limit shared between spouses when either has family coverage, and one limit
+ *   for a person's several accounts
+ * - Taxable distributions with the 20% additional tax, and the 6% excise tax on excess contributions
+ *
+ * Source: IRC §223, IRS Publication 969, Form 8889 Instructions
+ */
+
+const $ = dollarsToCents;
+
+const months = (coverage: HDHPCoverage | null, count = 12): (HDHPCoverage | null)[] =>
+  Array.from({ length: 12 }, (_, i) => (i < count ? coverage : null));
+
+const account = (overrides: Partial<HSAAccount> = {}): HSAAccount => ({
+  owner: 'taxpayer',
+  coverageByMonth: months('selfOnly'),
+  contributions: 0,
+  ...overrides,
+});
+
+describe('HSA Form 8889 2025', () => {
+  it('should prorate the limit and catch-up by coverage month', () => {
+    // Family coverage January-June, age 56: $8,550 × 6/12 + $1,000 × 6/12
+    const result = computeHSA2025({
+      accounts: [account({ coverageByMonth: months('family', 6), contributions: $(5000) })],
+      taxpayerAge: 56,
+    });
+    const form = result.forms[0]!;
+
+    expect(form.lastMonthRule).toBe(false);
+    expect(form.annualLimit).toBe($(4275));
+    expect(form.catchUp).toBe($(500));
+    expect(form.deduction).toBe($(4775));
+    expect(result.excessContributions).toBe($(225));
+    expect(result.excessContributionTax).toBe($(13.5));
+  });
+
+  it('should apply the last-month rule to coverage on December 1', () => {
+    const result = computeHSA2025({
+      accounts: [
+        account({
+          coverageByMonth: [...Array<null>(11).fill(null), 'family'],
+          contributions: $(9550),
+        }),
+      ],
+      taxpayerAge: 60,
+    });
+
+    expect(result.forms[0]!.lastMonthRule).toBe(true);
+    expect(result.deduction).toBe($(9550));
+    expect(result.excessContributions).toBe(0);
+  });
+
+  it('should split the family limit between spouses', () => {
+    const result = computeHSA2025({
+      accounts: [
+        account({ coverageByMonth: months('family'), contributions: $(5000) }),
+        account({
+          owner: 'spouse',
+          coverageByMonth: months('family'),
+          contributions: $(3000),
+          familyLimitShare: 0.4,
+        }),
+      ],
+    });
+
+    expect(result.forms.map((f) => f.limitAfterSpouseShare)).toEqual([$(4275), $(3420)]);
+    expect(result.forms.map((f) => f.deduction)).toEqual([$(4275), $(3000)]);
+  });
+
+  it('should share the family limit when only one spouse has family coverage', () => {
+    // Taxpayer family, spouse self-only: both under one $8,550 limit, split evenly
+    const result = computeHSA2025({
+      accounts: [
+        account({ coverageByMonth: months('family'), contributions: $(8550) }),
+        account({ owner: 'spouse', coverageByMonth: months('selfOnly'), contributions: $(4300) }),
+      ],
+    });
+
+    expect(result.forms.map((f) => f.annualLimit)).toEqual([$(8550), $(8550)]);
+    expect(result.forms.map((f) => f.limitAfterSpouseShare)).toEqual([$(4275), $(4275)]);
+    expect(result.deduction).toBe($(8550));
+    expect(result.excessContributions).toBe($(4300));
+  });
+
+  it('should apply one limit to several accounts of the same owner', () => {
+    const result = computeHSA2025({
+      accounts: [
+        account({ coverageByMonth: months('selfOnly', 6), contributions: $(3000) }),
+        account({
+          coverageByMonth: [...months(null), ...months('selfOnly', 6)].slice(6, 18),
+          contributions: $(3000),
+        }),
+      ],
+    });
+
+    // Covered January-June by one account and July-December by the other
+    expect(result.forms).toHaveLength(1);
+    expect(result.forms[0]!.eligibleMonths).toBe(12);
+    expect(result.forms[0]!.contributions).toBe($(6000));
+    expect(result.deduction).toBe($(4300));
+    expect(result.excessContributions).toBe($(1700));
+  });
+
+  it('should reduce the deduction by W-2 code W employer contributions', () => {
+    const w2: FormW2 = {
+      employee: 'taxpayer',
+      wages: $(80000),
+      federalWithheld: $(8000),
+      socialSecurityWages: $(80000),
+      socialSecurityTaxWithheld: $(4960),
+      medicareWages: $(80000),
+      medicareTaxWithheld: $(1160),
+      box12: [{ code: 'W', amount: $(1500) }],
+    };
+    const input = {
+      ...buildFederalInput({
+        filingStatus: 'single',
+        primary: { birthDate: '1980-05-01' },
+        income: { wages: 80000 },
+        adjustments: { hsaDeduction: 9999 }, // Replaced by Form 8889
+      }),
+      w2Forms: [w2],
+      hsaAccounts: [account({ contributions: $(4000) })],
+    };
+
+    const result = computeFederal2025(input);
+
+    // $4,300 - $1,500 employer = $2,800 deductible; $1,200 excess × 6% = $72
+    expect(result.hsaDetails?.forms[0]!.employerContributions).toBe($(1500));
+    expect(result.hsaDetails?.deduction).toBe($(2800));
+    expect(result.agi).toBe($(77200));
+    expect(result.additionalTaxes?.hsaExcessContributionTax).toBe($(72));
+    expect(result.diagnostics.warnings.map((w) => w.code)).toContain('CALC-W-030');
+    expect(result.diagnostics.warnings.map((w) => w.code)).not.toContain('CALC-W-018');
+  });
+
+  it('should count W-2 employer contributions once for several accounts of one owner', () => {
+    const input = {
+      ...buildFederalInput({ filingStatus: 'single', income: { wages: 80000 } }),
+      w2Forms: [
+        {
+          employee: 'taxpayer' as const,
+          wages: $(80000),
+          federalWithheld: $(8000),
+          socialSecurityWages: $(80000),
+          socialSecurityTaxWithheld: $(4960),
+          medicareWages: $(80000),
+          medicareTaxWithheld: $(1160),
+          box12: [{ code: 'W' as const, amount: $(1500) }],
+        },
+      ],
+      hsaAccounts: [account({ contributions: $(2000) }), account({ contributions: $(2000) })],
+    };
+
+    const result = computeFederal2025(input);
+
+    // One $4,300 limit: $4,300 - $1,500 employer = $2,800 deductible, $1,200 excess
+    expect(result.hsaDetails?.forms).toHaveLength(1);
+    expect(result.hsaDetails?.forms[0]!.employerContributions).toBe($(1500));
+    expect(result.hsaDetails?.deduction).toBe($(2800));
+    expect(result.hsaDetails?.excessContributions).toBe($(1200));
+  });
+
+  it('should tax nonqualified distributions with the 20% additional tax before age 65', () => {
+    const hsaAccounts = [
+      account({
+        distributions: $(3000),
+        rollovers: $(500),
+        qualifiedMedicalExpenses: $(1000),
+      }),
+    ];
+    const build = (birthDate: string) => ({
+      ...buildFederalInput({
+        filingStatus: 'single',
+        primary: { birthDate },
+        income: { wages: 60000 },
+      }),
+      hsaAccounts,
+    });
+
+    const young = computeFederal2025(build('1985-01-01'));
+    const baseline = computeFederal2025({ ...build('1985-01-01'), hsaAccounts: undefined });
+
+    // $3,000 - $500 rollover - $1,000 medical = $1,500 taxable
+    expect(young.hsaDetails?.taxableDistributions).toBe($(1500));
+    expect(young.agi - baseline.agi).toBe($(1500));
+    expect(young.additionalTaxes?.hsaAdditionalTax).toBe($(300));
+    expect(young.diagnostics.warnings.map((w) => w.code)).toContain('CALC-W-031');
+
+    const retired = computeFederal2025(build('1958-01-01'));
+    expect(retired.additionalTaxes?.hsaAdditionalTax).toBeUndefined();
+  });
+});
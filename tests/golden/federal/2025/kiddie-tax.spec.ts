@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { computeFederal2025 } from '../../../../src/engine/federal/2025/computeFederal2025';
+import {
+  computeForm8814Election2025,
+  computeKiddieTax2025,
+} from '../../../../src/engine/tax/kiddieTax';
+import { createFederalTrace } from '../../../../src/engine/trace/federalTrace';
+import { dollarsToCents } from '../../../../src/engine/util/money';
+import { buildFederalInput } from '../../../helpers/buildFederalInput';
+
+/**
+ * Golden Tests for the Tax on a Child's Unearned Income - 2025
+ * Form 8615, Form 8814 and the dependent standard deduction
+ *
+ * Tests validate:
+ * - Dependent standard deduction: earned income + $450, at least $1,350
+ * - Net unearned income over $2,700 taxed at the parent's marginal rates
+ * - Qualified dividends keeping preferential rates at the parent's rate
+ * - Parent's election: income over $2,700 on the parent's return plus 10%
+ *   of the income between $1,350 and $2,700
+ * - Children at or over $13,500 excluded from the election
+ *
+ * Source: IRC §1(g), §63(c)(5), Form 8615 and Form 8814 Instructions
+ */
+
+const $ = dollarsToCents;
+
+describe('Kiddie Tax (Form 8615 / Form 8814) 2025', () => {
+  it('should tax net unearned income at the parent rate', () => {
+    // $10,000 interest, $1,350 deduction: $8,650 taxable, $7,300 at the parent's rate.
+    // Parent MFJ at $200,000: $6,700 × 22% + $600 × 24% = $1,618; $1,350 × 10% = $135
+    const result = computeKiddieTax2025({
+      childFilingStatus: 'single',
+      unearnedIncome: $(10000),
+      childTaxableIncome: $(8650),
+      parent: { parentFilingStatus: 'marriedJointly', parentTaxableIncome: $(200000) },
+    });
+
+    expect(result.threshold).toBe($(2700));
+    expect(result.taxedAtParentRate).toBe($(7300));
+    expect(result.tentativeTax).toBe($(1618));
+    expect(result.taxAtChildRates).toBe($(865));
+    expect(result.tax).toBe($(1753));
+  });
+
+  it('should keep qualified dividends at preferential rates', () => {
+    // Parent in the 15% bracket: $7,300 × 15%; the remaining $1,350 at 0%
+    const result = computeKiddieTax2025({
+      childFilingStatus: 'single',
+      unearnedIncome: $(10000),
+      childTaxableIncome: $(8650),
+      childQualifiedDividendsAndCapitalGains: $(10000),
+      parent: { parentFilingStatus: 'marriedJointly', parentTaxableIncome: $(150000) },
+    });
+
+    expect(result.tentativeTax).toBe($(1095));
+    expect(result.taxOnRemainingIncome).toBe(0);
+    expect(result.tax).toBe($(1095));
+  });
+
+  it('should apply Form 8615 and the dependent deduction on the child return', () => {
+    // Deduction $3,000 + $450; taxable $9,550, of which $7,300 at the parent's rate.
+    // $1,618 + 10% × $2,250 = $1,843
+    const input = {
+      ...buildFederalInput({
+        filingStatus: 'single',
+        primary: { birthDate: '2009-06-01', canBeClaimedAsDependent: true },
+        income: { wages: 3000, interest: 10000 },
+      }),
+      kiddieTax: {
+        parentFilingStatus: 'marriedJointly' as const,
+        parentTaxableIncome: $(200000),
+      },
+    };
+    const result = computeFederal2025(input);
+
+    expect(result.standardDeduction).toBe($(3450));
+    expect(result.taxableIncome).toBe($(9550));
+    expect(result.kiddieTaxDetails?.unearnedIncome).toBe($(10000));
+    expect(result.taxBeforeCredits).toBe($(1843));
+    const codes = result.diagnostics.warnings.map((w) => w.code);
+    expect(codes).toContain('CALC-W-033');
+    expect(codes).toContain('CALC-W-035');
+
+    const entry = createFederalTrace(input, result)
+      .find((s) => s.id === 'tax')
+      ?.entries.find((e) => e.step === 'kiddie_tax');
+    expect(entry?.result).toBe($(1843));
+  });
+
+  it('should add the blind amount to the dependent minimum', () => {
+    const result = computeFederal2025(
+      buildFederalInput({
+        filingStatus: 'single',
+        primary: { isBlind: true, canBeClaimedAsDependent: true },
+        income: { interest: 1000 },
+      })
+    );
+
+    expect(result.standardDeduction).toBe($(3350));
+  });
+
+  it('should report elected children income on the parent return', () => {
+    // $6,000 gross: $3,300 included, $550 of it qualified dividends; $135 tax.
+    // Single, $63,300 AGI: $5,491.50 on $47,750 ordinary income, $550 at 0%
+    const result = computeFederal2025({
+      ...buildFederalInput({ filingStatus: 'single', income: { wages: 60000 } }),
+      form8814Children: [
+        { taxableInterest: $(4000), ordinaryDividends: $(2000), qualifiedDividends: $(1000) },
+      ],
+    });
+
+    expect(result.form8814Details?.qualifiedDividends).toBe($(550));
+    expect(result.form8814Details?.otherIncome).toBe($(2750));
+    expect(result.agi).toBe($(63300));
+    expect(result.taxBeforeCredits).toBe($(5626.5));
+  });
+
+  it('should exclude a child at or over the gross income limit', () => {
+    const result = computeForm8814Election2025([
+      { taxableInterest: $(14000) },
+      { taxableInterest: $(2000) },
+    ]);
+
+    expect(result.children[0]?.eligible).toBe(false);
+    expect(result.totalIncluded).toBe(0);
+    expect(result.totalTax).toBe($(65));
+  });
+});
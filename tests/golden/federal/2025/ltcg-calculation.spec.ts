@@ -207,4 +207,37 @@ describe('Long-Term Capital Gains 2025 Calculations', () => {
       expect(result.preferentialTax).toBe(Math.round(expectedTax));
     });
   });
-});
\ No newline at end of file
+
+  describe('Unrecaptured §1250 and collectibles gain', () => {
+    it('should tax 25% and 28% gain above the regular-rate portion', () => {
+      const result = computePreferentialRatesTax2025({
+        filingStatus: 'single',
+        taxableIncome: $(126250),
+        qualifiedDividendsAndLTCG: $(42000),
+        unrecaptured1250Gain: $(8000),
+        collectiblesGain: $(10000),
+      });
+
+      expect(result.ordinaryTaxableIncome).toBe($(84250));
+      expect(result.at15Percent).toBe($(24000));
+      expect(result.at25Percent).toBe($(8000));
+      expect(result.at28Percent).toBe($(10000));
+      expect(result.preferentialTax).toBe($(8400));
+    });
+
+    it('should tax 25% gain that fits under the 0% threshold at regular rates', () => {
+      const result = computePreferentialRatesTax2025({
+        filingStatus: 'single',
+        taxableIncome: $(40000),
+        qualifiedDividendsAndLTCG: $(30000),
+        unrecaptured1250Gain: $(20000),
+      });
+
+      // $10,000 ordinary + $20,000 §1250 gain stay under the $48,350 threshold
+      expect(result.ordinaryTaxableIncome).toBe($(30000));
+      expect(result.at0Percent).toBe($(10000));
+      expect(result.at25Percent).toBe(0);
+      expect(result.preferentialTax).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,390 @@
+import { describe, it, expect } from 'vitest';
+import { computeScheduleE2025 } from '../../../../src/engine/income/scheduleE';
+import { computePassiveActivityLoss2025 } from '../../../../src/engine/income/passiveActivityLoss';
+import { computeFederal2025 } from '../../../../src/engine/federal/2025/computeFederal2025';
+import { createFederalTrace } from '../../../../src/engine/trace/federalTrace';
+import { dollarsToCents } from '../../../../src/engine/util/money';
+import type { RentalProperty } from '../../../../src/engine/types';
+import { buildFederalInput } from '../../../helpers/buildFederalInput';
+
+/**
+ * Golden Tests for Rental Real Estate and Passive Activity Losses - 2025
+ * Schedule E Part I, Form 8582
+ *
+ * Tests validate:
+ * - Schedule E net income by property, personal-use allocation and
+ *   vacation home limits
+ * - $25,000 special allowance and its $100,000-$150,000 MAGI phaseout
+ * - MFS special allowance rules
+ * - Suspended loss allocation, carryforwards and full dispositions
+ * - Real estate professional override
+ * - Net rental income in the net investment income tax base
+ * - Integration with AGI, diagnostics and trace
+ *
+ * Source: IRC §280A, §469, IRS Publication 527, Publication 925, Form 8582 Instructions
+ */
+
+const rentalLoss = (loss: number, overrides: Partial<RentalProperty> = {}): RentalProperty => ({
+  rentsReceived: dollarsToCents(12000),
+  expenses: { mortgageInterest: dollarsToCents(12000) },
+  depreciation: dollarsToCents(loss),
+  fairRentalDays: 365,
+  ...overrides,
+});
+
+describe('Schedule E Rental Real Estate 2025', () => {
+  it('should compute net rental income from rents, expenses and depreciation', () => {
+    const result = computeScheduleE2025({
+      properties: [
+        {
+          rentsReceived: dollarsToCents(24000),
+          expenses: {
+            mortgageInterest: dollarsToCents(8000),
+            taxes: dollarsToCents(3000),
+            insurance: dollarsToCents(1000),
+            repairs: dollarsToCents(2000),
+          },
+          depreciation: dollarsToCents(6000),
+          fairRentalDays: 365,
+        },
+      ],
+    });
+
+    expect(result.properties[0]!.treatment).toBe('passive');
+    expect(result.properties[0]!.netIncome).toBe(dollarsToCents(4000));
+    expect(result.totalRents).toBe(dollarsToCents(24000));
+    expect(result.totalExpenses).toBe(dollarsToCents(20000));
+  });
+
+  it('should limit deductions of a personal-use residence to rental income', () => {
+    // 180 rental days, 20 personal days (> 18): residence; 90% rental use
+    // Interest/taxes $9,000, operating $2,700, depreciation $1,800 vs. $10,000 rent
+    const result = computeScheduleE2025({
+      properties: [
+        {
+          rentsReceived: dollarsToCents(10000),
+          expenses: { mortgageInterest: dollarsToCents(10000), utilities: dollarsToCents(3000) },
+          depreciation: dollarsToCents(2000),
+          fairRentalDays: 180,
+          personalUseDays: 20,
+        },
+      ],
+    });
+
+    const property = result.properties[0]!;
+    expect(property.treatment).toBe('personalResidence');
+    expect(property.rentalUsePercentage).toBeCloseTo(0.9, 5);
+    expect(property.netIncome).toBe(0);
+    expect(property.depreciation).toBe(0);
+    expect(property.disallowedExpenses).toBe(dollarsToCents(3500));
+  });
+
+  it('should allocate expenses without the income limit when personal use is minimal', () => {
+    // 10 personal days does not exceed 14: still a rental, 95% rental use
+    const result = computeScheduleE2025({
+      properties: [
+        {
+          rentsReceived: dollarsToCents(5000),
+          expenses: { taxes: dollarsToCents(8000) },
+          fairRentalDays: 190,
+          personalUseDays: 10,
+        },
+      ],
+    });
+
+    expect(result.properties[0]!.treatment).toBe('passive');
+    expect(result.properties[0]!.netIncome).toBe(dollarsToCents(-2600));
+  });
+
+  it('should not report a residence rented fewer than 15 days', () => {
+    const result = computeScheduleE2025({
+      properties: [
+        {
+          rentsReceived: dollarsToCents(6000),
+          expenses: { cleaningAndMaintenance: dollarsToCents(500) },
+          fairRentalDays: 10,
+          personalUseDays: 200,
+        },
+      ],
+    });
+
+    expect(result.properties[0]!.treatment).toBe('notReported');
+    expect(result.netIncome).toBe(0);
+  });
+
+  it('should treat rentals of a materially participating real estate professional as nonpassive', () => {
+    const result = computeScheduleE2025({
+      properties: [rentalLoss(5000), rentalLoss(5000, { materialParticipation: false })],
+      realEstateProfessional: true,
+    });
+
+    expect(result.properties[0]!.treatment).toBe('nonpassive');
+    expect(result.properties[1]!.treatment).toBe('passive');
+    expect(result.totalLosses).toBe(dollarsToCents(-10000));
+  });
+});
+
+describe('Form 8582 Passive Activity Loss Limitations 2025', () => {
+  it('should allow up to $25,000 of rental losses below $100,000 MAGI', () => {
+    const result = computePassiveActivityLoss2025({
+      filingStatus: 'single',
+      modifiedAGI: dollarsToCents(80000),
+      activities: [
+        { name: 'Rental', netIncome: dollarsToCents(-30000), activeParticipation: true },
+      ],
+    });
+
+    expect(result.specialAllowanceLimit).toBe(dollarsToCents(25000));
+    expect(result.specialAllowance).toBe(dollarsToCents(25000));
+    expect(result.suspendedLossCarryforward).toBe(dollarsToCents(5000));
+    expect(result.totalIncome).toBe(dollarsToCents(-25000));
+  });
+
+  it('should phase out the allowance by 50% of MAGI over $100,000', () => {
+    // $25,000 - 50% × $20,000 = $15,000
+    const result = computePassiveActivityLoss2025({
+      filingStatus: 'marriedJointly',
+      modifiedAGI: dollarsToCents(120000),
+      activities: [
+        { name: 'Rental', netIncome: dollarsToCents(-20000), activeParticipation: true },
+      ],
+    });
+
+    expect(result.specialAllowance).toBe(dollarsToCents(15000));
+    expect(result.activities[0]!.unallowedLoss).toBe(dollarsToCents(5000));
+  });
+
+  it('should allow losses only against passive income above $150,000 MAGI', () => {
+    const result = computePassiveActivityLoss2025({
+      filingStatus: 'single',
+      modifiedAGI: dollarsToCents(200000),
+      activities: [
+        { name: 'Rental', netIncome: dollarsToCents(-20000), activeParticipation: true },
+        { name: 'K-1', netIncome: dollarsToCents(8000) },
+      ],
+    });
+
+    expect(result.specialAllowance).toBe(0);
+    expect(result.combinedNet).toBe(dollarsToCents(-12000));
+    expect(result.totalLossesAllowed).toBe(dollarsToCents(8000));
+    expect(result.suspendedLossCarryforward).toBe(dollarsToCents(12000));
+    expect(result.totalIncome).toBe(0);
+  });
+
+  it('should apply the $12,500 allowance for MFS who lived apart and $0 otherwise', () => {
+    const activities = [
+      { name: 'Rental', netIncome: dollarsToCents(-20000), activeParticipation: true },
+    ];
+    const livedApart = computePassiveActivityLoss2025({
+      filingStatus: 'marriedSeparately',
+      livedWithSpouse: false,
+      modifiedAGI: dollarsToCents(40000),
+      activities,
+    });
+    const livedTogether = computePassiveActivityLoss2025({
+      filingStatus: 'marriedSeparately',
+      livedWithSpouse: true,
+      modifiedAGI: dollarsToCents(40000),
+      activities,
+    });
+
+    expect(livedApart.specialAllowance).toBe(dollarsToCents(12500));
+    expect(livedTogether.mfsLivedWithSpouse).toBe(true);
+    expect(livedTogether.specialAllowance).toBe(0);
+  });
+
+  it('should include prior year unallowed losses and allocate the carryforward pro rata', () => {
+    // Losses: A $30,000 + $10,000 prior = $40,000; B $20,000. Allowed $25,000.
+    // Unallowed $35,000: A 2/3, B 1/3
+    const result = computePassiveActivityLoss2025({
+      filingStatus: 'single',
+      modifiedAGI: dollarsToCents(90000),
+      activities: [
+        {
+          name: 'A',
+          netIncome: dollarsToCents(-30000),
+          priorYearUnallowedLoss: dollarsToCents(10000),
+          activeParticipation: true,
+        },
+        { name: 'B', netIncome: dollarsToCents(-20000), activeParticipation: true },
+      ],
+    });
+
+    expect(result.rentalActivePriorLoss).toBe(dollarsToCents(10000));
+    expect(result.rentalActiveNet).toBe(dollarsToCents(-60000));
+    expect(result.suspendedLossCarryforward).toBe(dollarsToCents(35000));
+    expect(result.activities[0]!.unallowedLoss).toBe(2333333);
+    expect(result.activities[1]!.unallowedLoss).toBe(1166667);
+  });
+
+  it('should release suspended losses on a full disposition', () => {
+    const result = computePassiveActivityLoss2025({
+      filingStatus: 'single',
+      modifiedAGI: dollarsToCents(300000),
+      activities: [
+        {
+          name: 'Sold rental',
+          netIncome: dollarsToCents(-2000),
+          priorYearUnallowedLoss: dollarsToCents(18000),
+          activeParticipation: true,
+          disposedOfEntireInterest: true,
+        },
+      ],
+    });
+
+    expect(result.suspendedLossCarryforward).toBe(0);
+    expect(result.nonpassiveIncome).toBe(dollarsToCents(-20000));
+    expect(result.totalIncome).toBe(dollarsToCents(-20000));
+  });
+
+  it('should let prior passive losses of a real estate professional offset only that activity', () => {
+    const result = computePassiveActivityLoss2025({
+      filingStatus: 'single',
+      modifiedAGI: dollarsToCents(300000),
+      activities: [
+        {
+          name: 'Rental',
+          netIncome: dollarsToCents(6000),
+          priorYearUnallowedLoss: dollarsToCents(10000),
+          nonpassive: true,
+        },
+      ],
+    });
+
+    expect(result.nonpassiveIncome).toBe(0);
+    expect(result.activities[0]!.unallowedLoss).toBe(dollarsToCents(4000));
+  });
+});
+
+describe('computeFederal2025 with rental real estate', () => {
+  it('should deduct an allowed rental loss from AGI', () => {
+    const input = buildFederalInput({ filingStatus: 'single', income: { wages: 80000 } });
+    input.rentalProperties = [rentalLoss(10000, { description: '12 Oak St' })];
+
+    const result = computeFederal2025(input);
+
+    expect(result.scheduleEDetails?.netIncome).toBe(dollarsToCents(-10000));
+    expect(result.scheduleEIncome).toBe(dollarsToCents(-10000));
+    expect(result.agi).toBe(dollarsToCents(70000));
+
+    const codes = result.diagnostics.warnings.map((w) => w.code);
+    expect(codes).toContain('FORM-W-003');
+    expect(codes).toContain('FORM-W-009');
+    expect(codes).not.toContain('CALC-W-025');
+  });
+
+  it('should suspend rental losses for high-income taxpayers', () => {
+    const input = buildFederalInput({ filingStatus: 'single', income: { wages: 200000 } });
+    input.rentalProperties = [rentalLoss(10000)];
+
+    const result = computeFederal2025(input);
+
+    expect(result.agi).toBe(dollarsToCents(200000));
+    expect(result.passiveActivityLossDetails?.suspendedLossCarryforward).toBe(
+      dollarsToCents(10000)
+    );
+    expect(result.diagnostics.warnings.some((w) => w.code === 'CALC-W-025')).toBe(true);
+  });
+
+  it('should use modified AGI without the IRA deduction for the phaseout', () => {
+    // MAGI $120,000 despite the IRA deduction: allowance $15,000
+    const input = buildFederalInput({
+      filingStatus: 'single',
+      income: { wages: 120000 },
+      adjustments: { iraDeduction: 7000 },
+    });
+    input.rentalProperties = [rentalLoss(20000)];
+
+    const result = computeFederal2025(input);
+
+    expect(result.passiveActivityLossDetails?.specialAllowance).toBe(dollarsToCents(15000));
+  });
+
+  it('should limit K-1 passive losses to passive income', () => {
+    const input = buildFederalInput({
+      filingStatus: 'single',
+      income: { wages: 60000, k1: { passiveIncome: -5000 } },
+    });
+    input.passiveActivityOptions = { k1PriorYearUnallowedLoss: dollarsToCents(1000) };
+
+    const result = computeFederal2025(input);
+
+    expect(result.scheduleEIncome).toBe(0);
+    expect(result.agi).toBe(dollarsToCents(60000));
+    expect(result.passiveActivityLossDetails?.suspendedLossCarryforward).toBe(dollarsToCents(6000));
+  });
+
+  it('should offset K-1 passive income with rental losses', () => {
+    const input = buildFederalInput({
+      filingStatus: 'single',
+      income: { wages: 200000, k1: { passiveIncome: 4000 } },
+    });
+    input.rentalProperties = [rentalLoss(10000)];
+
+    const result = computeFederal2025(input);
+
+    expect(result.scheduleEIncome).toBe(0);
+    expect(result.agi).toBe(dollarsToCents(200000));
+    expect(result.passiveActivityLossDetails?.suspendedLossCarryforward).toBe(dollarsToCents(6000));
+  });
+
+  it('should pass K-1 passive income through unchanged without rentals or losses', () => {
+    const result = computeFederal2025(
+      buildFederalInput({
+        filingStatus: 'single',
+        income: { wages: 50000, k1: { passiveIncome: 3000 } },
+      })
+    );
+
+    expect(result.agi).toBe(dollarsToCents(53000));
+    expect(result.scheduleEIncome).toBeUndefined();
+    expect(result.passiveActivityLossDetails).toBeUndefined();
+  });
+
+  it('should allow the full loss of a real estate professional', () => {
+    const input = buildFederalInput({ filingStatus: 'single', income: { wages: 200000 } });
+    input.rentalProperties = [rentalLoss(40000)];
+    input.passiveActivityOptions = { realEstateProfessional: true };
+
+    const result = computeFederal2025(input);
+
+    expect(result.agi).toBe(dollarsToCents(160000));
+    expect(result.passiveActivityLossDetails?.nonpassiveIncome).toBe(dollarsToCents(-40000));
+  });
+
+  it('should include net rental income in net investment income', () => {
+    // $30,000 net rent; AGI $280,000 is $80,000 over the $200,000 threshold
+    const rental: RentalProperty = {
+      rentsReceived: dollarsToCents(42000),
+      expenses: { mortgageInterest: dollarsToCents(12000) },
+      fairRentalDays: 365,
+    };
+    const input = buildFederalInput({ filingStatus: 'single', income: { wages: 250000 } });
+    input.rentalProperties = [rental];
+
+    const result = computeFederal2025(input);
+
+    expect(result.agi).toBe(dollarsToCents(280000));
+    expect(result.additionalTaxes?.niit).toBe(dollarsToCents(1140));
+
+    // A real estate professional's rentals are a trade or business
+    input.passiveActivityOptions = { realEstateProfessional: true };
+    expect(computeFederal2025(input).additionalTaxes?.niit).toBe(0);
+  });
+
+  it('should emit a Form 8582 trace section and include rental income in total income', () => {
+    const input = buildFederalInput({ filingStatus: 'single', income: { wages: 80000 } });
+    input.rentalProperties = [rentalLoss(10000)];
+    const result = computeFederal2025(input);
+    const sections = createFederalTrace(input, result);
+
+    const pal = sections.find((s) => s.id === 'passive_activity_loss');
+    expect(pal!.entries.find((e) => e.step === 'special_allowance')?.result).toBe(
+      dollarsToCents(10000)
+    );
+    const income = sections.find((s) => s.id === 'income');
+    expect(income!.entries.find((e) => e.step === 'total_income')?.result).toBe(
+      dollarsToCents(70000)
+    );
+  });
+});
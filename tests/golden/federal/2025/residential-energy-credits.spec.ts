@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { computeResidentialEnergyCredits2025 } from '../../../../src/engine/credits/residentialEnergy';
+import { computeFederal2025 } from '../../../../src/engine/federal/2025/computeFederal2025';
+import { dollarsToCents } from '../../../../src/engine/util/money';
+import type { Form5695Input } from '../../../../src/engine/types';
+import { buildFederalInput } from '../../../helpers/buildFederalInput';
+
+/**
+ * Golden Tests for Residential Energy Credits - 2025
+ * Form 5695
+ *
+ * Tests validate:
+ * - §25C item limits, the $1,200 annual limit and the separate $2,000 heat pump limit
+ * - §25D 30% credit, battery capacity and fuel cell limits
+ * - §25C taken before §25D, with the unused §25D credit carried forward
+ *
+ * Source: IRC §25C, §25D, Form 5695 Instructions
+ */
+
+const $ = dollarsToCents;
+
+// Single, $60,000 wages: $45,000 taxable, $5,161.50 tax
+const inputWith = (form5695: Form5695Input) => ({
+  ...buildFederalInput({ filingStatus: 'single', income: { wages: 60000 } }),
+  form5695,
+});
+
+describe('Residential Energy Credits 2025', () => {
+  it('should apply §25C item and annual limits', () => {
+    const result = computeResidentialEnergyCredits2025(
+      {
+        homeImprovements: {
+          insulationAndAirSealing: $(2000), // $600
+          exteriorDoors: [$(1000), $(1000), $(1000)], // $250 each, $500 total
+          windowsAndSkylights: $(3000), // $900, limited to $600
+          heatPumps: [$(10000)], // $3,000, limited to $2,000
+        },
+      },
+      $(10000)
+    );
+
+    expect(result.annualLimitItems).toBe($(1200));
+    expect(result.heatPumpAndBiomass).toBe($(2000));
+    expect(result.energyEfficientHomeImprovementCredit).toBe($(3200));
+    expect(result.carryforward).toBe(0);
+  });
+
+  it('should apply the §25D battery and fuel cell rules', () => {
+    const result = computeResidentialEnergyCredits2025(
+      {
+        solarElectric: $(20000),
+        batteryStorage: { cost: $(8000), capacityKwh: 2.5 }, // Below 3 kWh
+        fuelCell: { cost: $(20000), kilowattCapacity: 1.5 }, // $6,000, limited to $1,500
+        priorYearCarryforward: $(400),
+      },
+      $(50000)
+    );
+
+    expect(result.cleanEnergyCosts).toBe($(20000));
+    expect(result.fuelCellCredit).toBe($(1500));
+    expect(result.residentialCleanEnergyCredit).toBe($(7900));
+  });
+
+  it('should carry forward §25D credit above the tax limit', () => {
+    const result = computeFederal2025(inputWith({ solarElectric: $(30000) }));
+
+    expect(result.credits.residentialCleanEnergy).toBe($(5161.5));
+    expect(result.form5695Details?.carryforward).toBe($(3838.5));
+    expect(result.totalTax).toBe(0);
+    expect(result.diagnostics.warnings.map((w) => w.code)).toContain('CREDIT-W-009');
+  });
+
+  it('should take §25C before §25D', () => {
+    const result = computeFederal2025(
+      inputWith({ solarElectric: $(30000), homeImprovements: { heatPumps: [$(8000)] } })
+    );
+
+    expect(result.credits.energyEfficientHomeImprovement).toBe($(2000));
+    expect(result.credits.residentialCleanEnergy).toBe($(3161.5));
+    expect(result.form5695Details?.carryforward).toBe($(5838.5));
+  });
+});
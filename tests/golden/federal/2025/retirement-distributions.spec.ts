@@ -0,0 +1,230 @@
+import { describe, it, expect } from 'vitest';
+import { computeRetirementDistributions2025 } from '../../../../src/engine/income/retirementDistributions';
+import { computeFederal2025 } from '../../../../src/engine/federal/2025/computeFederal2025';
+import { dollarsToCents } from '../../../../src/engine/util/money';
+import { buildFederalInput } from '../../../helpers/buildFederalInput';
+
+/**
+ * Golden Tests for Retirement Distributions - 2025
+ * Form 1099-R, Form 1040 Lines 4a-5b, Form 5329 Part I
+ *
+ * Tests validate:
+ * - IRA vs. pension/annuity line placement
+ * - Direct and 60-day rollovers
+ * - Qualified charitable distributions (age 70½, $108,000 limit)
+ * - 10% / 25% additional tax on early distributions
+ * - Integration with AGI, additional taxes and payments
+ *
+ * Source: IRC §72(t), §408(d)(8), IRS Publication 590-B, Form 5329 Instructions
+ */
+
+describe('Retirement Distributions 2025', () => {
+  it('should report a normal pension distribution on Line 5', () => {
+    const result = computeRetirementDistributions2025({
+      distributions: [
+        {
+          grossDistribution: dollarsToCents(24000),
+          taxableAmount: dollarsToCents(20000),
+          distributionCode: '7',
+          federalWithheld: dollarsToCents(2000),
+        },
+      ],
+    });
+
+    expect(result.pensionsAndAnnuities).toBe(dollarsToCents(24000));
+    expect(result.taxablePensionsAndAnnuities).toBe(dollarsToCents(20000));
+    expect(result.iraDistributions).toBe(0);
+    expect(result.totalTaxable).toBe(dollarsToCents(20000));
+    expect(result.federalWithheld).toBe(dollarsToCents(2000));
+    expect(result.additionalTax).toBe(0);
+  });
+
+  it('should default the taxable amount to the gross distribution for IRAs', () => {
+    const result = computeRetirementDistributions2025({
+      distributions: [
+        {
+          grossDistribution: dollarsToCents(15000),
+          taxableAmountNotDetermined: true,
+          distributionCode: '7',
+          isIRASEPSIMPLE: true,
+        },
+      ],
+    });
+
+    expect(result.iraDistributions).toBe(dollarsToCents(15000));
+    expect(result.taxableIRADistributions).toBe(dollarsToCents(15000));
+  });
+
+  it('should apply the 10% additional tax to early distributions', () => {
+    const result = computeRetirementDistributions2025({
+      distributions: [
+        {
+          grossDistribution: dollarsToCents(10000),
+          distributionCode: '1',
+          isIRASEPSIMPLE: true,
+        },
+      ],
+    });
+
+    expect(result.earlyDistributionsSubjectToTax).toBe(dollarsToCents(10000));
+    expect(result.additionalTax).toBe(dollarsToCents(1000));
+  });
+
+  it('should apply the 25% rate to SIMPLE IRA distributions in the first 2 years', () => {
+    const result = computeRetirementDistributions2025({
+      distributions: [
+        {
+          grossDistribution: dollarsToCents(8000),
+          distributionCode: 'S',
+          isIRASEPSIMPLE: true,
+        },
+      ],
+    });
+
+    expect(result.additionalTax).toBe(dollarsToCents(2000));
+  });
+
+  it('should reduce the additional tax by exceptions and rollovers', () => {
+    // $20,000 early distribution, $5,000 rolled over, $3,000 exception
+    // Subject to tax: $12,000 × 10% = $1,200
+    const result = computeRetirementDistributions2025({
+      distributions: [
+        {
+          grossDistribution: dollarsToCents(20000),
+          distributionCode: '1',
+          rolloverAmount: dollarsToCents(5000),
+          earlyDistributionExceptionAmount: dollarsToCents(3000),
+        },
+      ],
+    });
+
+    expect(result.rollovers).toBe(dollarsToCents(5000));
+    expect(result.taxablePensionsAndAnnuities).toBe(dollarsToCents(15000));
+    expect(result.earlyDistributionExceptions).toBe(dollarsToCents(3000));
+    expect(result.additionalTax).toBe(dollarsToCents(1200));
+  });
+
+  it('should exclude direct rollovers and qualified Roth distributions', () => {
+    const result = computeRetirementDistributions2025({
+      distributions: [
+        { grossDistribution: dollarsToCents(50000), distributionCode: 'G' },
+        { grossDistribution: dollarsToCents(12000), distributionCode: 'Q', isIRASEPSIMPLE: true },
+      ],
+    });
+
+    expect(result.pensionsAndAnnuities).toBe(dollarsToCents(50000));
+    expect(result.iraDistributions).toBe(dollarsToCents(12000));
+    expect(result.totalTaxable).toBe(0);
+    expect(result.rollovers).toBe(dollarsToCents(50000));
+  });
+
+  it('should exclude QCDs for IRA owners age 70½ or older, up to the annual limit', () => {
+    const result = computeRetirementDistributions2025({
+      distributions: [
+        {
+          grossDistribution: dollarsToCents(130000),
+          distributionCode: '7',
+          isIRASEPSIMPLE: true,
+          qcdAmount: dollarsToCents(120000),
+        },
+      ],
+      taxpayerAge: 74,
+    });
+
+    expect(result.qualifiedCharitableDistributions).toBe(dollarsToCents(108000));
+    expect(result.qcdDisallowed).toBe(dollarsToCents(12000));
+    expect(result.taxableIRADistributions).toBe(dollarsToCents(22000));
+  });
+
+  it('should not exclude QCDs for owners under age 70½', () => {
+    const result = computeRetirementDistributions2025({
+      distributions: [
+        {
+          grossDistribution: dollarsToCents(10000),
+          distributionCode: '7',
+          isIRASEPSIMPLE: true,
+          qcdAmount: dollarsToCents(5000),
+        },
+      ],
+      taxpayerAge: 68,
+    });
+
+    expect(result.qualifiedCharitableDistributions).toBe(0);
+    expect(result.qcdDisallowed).toBe(dollarsToCents(5000));
+    expect(result.taxableIRADistributions).toBe(dollarsToCents(10000));
+  });
+});
+
+describe('computeFederal2025 with Form 1099-R distributions', () => {
+  it('should include distributions in AGI, add Form 5329 tax and 1099-R withholding', () => {
+    const input = buildFederalInput({
+      filingStatus: 'single',
+      income: { wages: 60000 },
+      payments: { federalWithheld: 6000 },
+    });
+    input.retirementDistributions = [
+      {
+        grossDistribution: dollarsToCents(10000),
+        distributionCode: '1',
+        isIRASEPSIMPLE: true,
+        federalWithheld: dollarsToCents(2000),
+      },
+    ];
+
+    const baseline = computeFederal2025(
+      buildFederalInput({
+        filingStatus: 'single',
+        income: { wages: 70000 },
+        payments: { federalWithheld: 6000 },
+      })
+    );
+    const result = computeFederal2025(input);
+
+    expect(result.agi).toBe(dollarsToCents(70000));
+    expect(result.taxableRetirementDistributions).toBe(dollarsToCents(10000));
+    expect(result.additionalTaxes?.earlyDistributionTax).toBe(dollarsToCents(1000));
+    expect(result.totalTax).toBe(baseline.totalTax + dollarsToCents(1000));
+    expect(result.paymentBreakdown?.retirementDistributionWithholding).toBe(dollarsToCents(2000));
+    expect(result.totalPayments).toBe(dollarsToCents(8000));
+    expect(result.refundOrOweBreakdown?.totalAdditionalTaxes).toBe(dollarsToCents(1000));
+
+    const codes = result.diagnostics.warnings.map((w) => w.code);
+    expect(codes).toContain('CALC-W-023');
+    expect(codes).toContain('FORM-W-008');
+  });
+
+  it('should use the taxpayer birth date for QCD eligibility', () => {
+    const input = buildFederalInput({
+      filingStatus: 'single',
+      primary: { birthDate: '1950-03-15' },
+    });
+    input.retirementDistributions = [
+      {
+        grossDistribution: dollarsToCents(30000),
+        distributionCode: '7',
+        isIRASEPSIMPLE: true,
+        qcdAmount: dollarsToCents(10000),
+      },
+    ];
+
+    const result = computeFederal2025(input);
+
+    expect(result.retirementDistributionDetails?.qualifiedCharitableDistributions).toBe(
+      dollarsToCents(10000)
+    );
+    expect(result.agi).toBe(dollarsToCents(20000));
+  });
+
+  it('should treat taxable distributions as other income in the Social Security worksheet', () => {
+    const input = buildFederalInput({ filingStatus: 'single' });
+    input.retirementDistributions = [
+      { grossDistribution: dollarsToCents(30000), distributionCode: '7' },
+    ];
+    input.income.socialSecurity = { grossBenefits: dollarsToCents(20000) };
+
+    const result = computeFederal2025(input);
+
+    expect(result.taxableSocialSecurity).toBe(dollarsToCents(9600));
+    expect(result.agi).toBe(dollarsToCents(39600));
+  });
+});
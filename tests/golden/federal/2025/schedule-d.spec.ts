@@ -0,0 +1,285 @@
+import { describe, it, expect } from 'vitest';
+import { computeScheduleD2025 } from '../../../../src/engine/income/scheduleD';
+import { computeFederal2025 } from '../../../../src/engine/federal/2025/computeFederal2025';
+import { dollarsToCents } from '../../../../src/engine/util/money';
+import type { CapitalAssetDisposition } from '../../../../src/engine/types';
+import { calculateTaxResultsWithEngine } from '../../../../src/utils/engineAdapter';
+import { buildFederalInput } from '../../../helpers/buildFederalInput';
+
+/**
+ * Golden Tests for Form 8949 and Schedule D - 2025
+ *
+ * Tests validate:
+ * - Holding period and Form 8949 box A-F classification
+ * - Wash sale loss disallowance, basis adjustment and holding period tacking
+ * - $3,000 ($1,500 MFS) loss limit and short/long-term carryovers
+ * - Carryover worksheet limited by taxable income
+ * - 28% collectibles and 25% unrecaptured §1250 gain in the tax computation
+ *
+ * Source: IRC §1(h), §1091, §1211(b), §1212(b), Form 8949 and Schedule D Instructions
+ */
+
+const $ = dollarsToCents;
+
+const sale = (
+  proceeds: number,
+  cost: number,
+  overrides: Partial<CapitalAssetDisposition> = {}
+): CapitalAssetDisposition => ({
+  description: '100 sh. ABC',
+  dateAcquired: '2024-01-15',
+  dateSold: '2025-06-15',
+  proceeds: $(proceeds),
+  costBasis: $(cost),
+  ...overrides,
+});
+
+describe('Form 8949 / Schedule D 2025', () => {
+  it('should classify dispositions into Form 8949 boxes by term and 1099-B reporting', () => {
+    const result = computeScheduleD2025({
+      filingStatus: 'single',
+      dispositions: [
+        // Sold on the one-year anniversary: still short-term
+        sale(5000, 4000, { dateAcquired: '2024-03-15', dateSold: '2025-03-15' }),
+        sale(3000, 1000, {
+          description: '10 sh. DEF',
+          dateAcquired: '2024-03-15',
+          dateSold: '2025-03-17',
+          basisReportedToIRS: false,
+        }),
+        sale(10000, 8000, {
+          description: 'Inherited land',
+          dateAcquired: 'INHERITED',
+          dateSold: '2025-06-01',
+          reportedOn1099B: false,
+        }),
+        sale(500, 800, {
+          description: 'Private shares',
+          dateAcquired: '2025-01-10',
+          dateSold: '2025-02-10',
+          reportedOn1099B: false,
+        }),
+      ],
+    });
+
+    expect(result.rows.map((r) => [r.box, r.term])).toEqual([
+      ['A', 'short'],
+      ['E', 'long'],
+      ['F', 'long'],
+      ['C', 'short'],
+    ]);
+    expect(result.boxTotals.map((t) => [t.box, t.gainOrLoss])).toEqual([
+      ['A', $(1000)],
+      ['C', $(-300)],
+      ['E', $(2000)],
+      ['F', $(2000)],
+    ]);
+    expect(result.netShortTerm).toBe($(700));
+    expect(result.netLongTerm).toBe($(4000));
+    expect(result.netGainOrLoss).toBe($(4700));
+    expect(result.netCapitalGain).toBe($(4000));
+  });
+
+  it('should disallow a wash sale loss and add it to the replacement lot', () => {
+    const result = computeScheduleD2025({
+      filingStatus: 'single',
+      dispositions: [
+        sale(4000, 5000, {
+          symbol: 'XYZ',
+          quantity: 100,
+          dateAcquired: '2025-01-02',
+          dateSold: '2025-03-03',
+        }),
+        // 50 replacement shares bought 17 days after the loss sale
+        sale(3000, 2500, {
+          symbol: 'XYZ',
+          quantity: 50,
+          dateAcquired: '2025-03-20',
+          dateSold: '2025-12-01',
+        }),
+      ],
+    });
+
+    const [lossLot, replacement] = result.rows;
+    // Half of the $1,000 loss is disallowed (50 of 100 shares replaced)
+    expect(lossLot).toMatchObject({
+      adjustmentCodes: 'W',
+      adjustmentAmount: $(500),
+      gainOrLoss: $(-500),
+    });
+    expect(replacement).toMatchObject({ costBasis: $(3000), gainOrLoss: 0, term: 'short' });
+    expect(result.washSaleLossDisallowed).toBe($(500));
+  });
+
+  it('should use the wash sale amount reported by the broker', () => {
+    const result = computeScheduleD2025({
+      filingStatus: 'single',
+      dispositions: [sale(700, 1000, { washSaleLossDisallowed: $(200) })],
+    });
+
+    expect(result.rows[0]).toMatchObject({
+      box: 'D',
+      adjustmentCodes: 'W',
+      adjustmentAmount: $(200),
+      gainOrLoss: $(-100),
+    });
+  });
+
+  it('should limit a net loss to $3,000 and carry the short-term excess over', () => {
+    const input = {
+      ...buildFederalInput({ filingStatus: 'single', income: { wages: 60000 } }),
+      capitalAssetDispositions: [
+        sale(5000, 10000, { dateAcquired: '2025-02-01', dateSold: '2025-05-01' }),
+        sale(3000, 2000, { description: '10 sh. DEF' }),
+      ],
+    };
+
+    const result = computeFederal2025(input);
+
+    expect(result.scheduleDDetails).toMatchObject({
+      netShortTerm: $(-5000),
+      netLongTerm: $(1000),
+      capitalGainOrLoss: $(-3000),
+      carryoverToNextYear: { shortTerm: $(1000), longTerm: 0 },
+    });
+    expect(result.agi).toBe($(57000));
+    const codes = result.diagnostics.warnings.map((w) => w.code);
+    expect(codes).toContain('FORM-W-004');
+    expect(codes).toContain('CALC-W-028');
+  });
+
+  it('should carry over the loss not used when deductions exceed income', () => {
+    const input = {
+      ...buildFederalInput({ filingStatus: 'single', income: { wages: 16000 } }),
+      capitalAssetDispositions: [
+        sale(5000, 10000, { dateAcquired: '2025-02-01', dateSold: '2025-05-01' }),
+      ],
+    };
+
+    const result = computeFederal2025(input);
+
+    // Worksheet Lines 1-4: $13,000 AGI - $15,000 deduction = ($2,000);
+    // only $1,000 of the $3,000 deducted loss reduced taxable income
+    expect(result.agi).toBe($(13000));
+    expect(result.taxableIncome).toBe(0);
+    expect(result.scheduleDDetails?.carryoverToNextYear).toEqual({
+      shortTerm: $(4000),
+      longTerm: 0,
+    });
+  });
+
+  it('should limit a net loss to $1,500 for married filing separately', () => {
+    const result = computeScheduleD2025({
+      filingStatus: 'marriedSeparately',
+      dispositions: [],
+      carryover: { shortTerm: 0, longTerm: $(2000) },
+    });
+
+    expect(result.capitalGainOrLoss).toBe($(-1500));
+    expect(result.carryoverToNextYear).toEqual({ shortTerm: 0, longTerm: $(500) });
+  });
+
+  it('should apply prior-year carryovers against current gains', () => {
+    const result = computeScheduleD2025({
+      filingStatus: 'single',
+      dispositions: [sale(20000, 10000)],
+      carryover: { shortTerm: $(2000), longTerm: $(4000) },
+    });
+
+    expect(result.netShortTerm).toBe($(-2000));
+    expect(result.netLongTerm).toBe($(6000));
+    expect(result.capitalGainOrLoss).toBe($(4000));
+    expect(result.netCapitalGain).toBe($(4000));
+    expect(result.carryoverToNextYear).toEqual({ shortTerm: 0, longTerm: 0 });
+  });
+
+  it('should tax collectibles gain at 28% and unrecaptured §1250 gain at 25%', () => {
+    const input = {
+      ...buildFederalInput({ filingStatus: 'single', income: { wages: 100000 } }),
+      capitalAssetDispositions: [
+        sale(15000, 5000, { description: 'Gold coins', isCollectible: true }),
+        sale(120000, 100000, {
+          description: 'Rental building',
+          unrecaptured1250Gain: $(8000),
+        }),
+        sale(22000, 10000, { description: '100 sh. GHI' }),
+      ],
+    };
+
+    const result = computeFederal2025(input);
+
+    expect(result.scheduleDDetails).toMatchObject({
+      netCapitalGain: $(42000),
+      collectiblesGain: $(10000),
+      unrecaptured1250Gain: $(8000),
+    });
+    expect(result.scheduleDDetails!.rows[0]!.adjustmentCodes).toBe('C');
+    // Taxable income $127,000: $85,000 ordinary + $24,000 at 15%
+    // + $8,000 at 25% + $10,000 at 28%
+    // $13,614 + $3,600 + $2,000 + $2,800 = $22,014
+    expect(result.taxableIncome).toBe($(127000));
+    expect(result.taxBeforeCredits).toBe($(22014));
+  });
+
+  it('should leave returns without dispositions unchanged', () => {
+    const result = computeFederal2025(
+      buildFederalInput({ filingStatus: 'single', income: { wages: 60000, capGains: 5000 } })
+    );
+
+    expect(result.scheduleDDetails).toBeUndefined();
+    expect(result.agi).toBe($(65000));
+  });
+
+  it('should report 1099-B sales entered in the UI lot by lot', () => {
+    const result = calculateTaxResultsWithEngine(
+      { filingStatus: 'single' },
+      { wages: '50000' },
+      {},
+      {},
+      {},
+      {},
+      {},
+      2025,
+      {
+        capitalTransactions: [
+          {
+            description: '100 sh. ABC',
+            dateAcquired: '2025-02-03',
+            dateSold: '2025-05-01',
+            proceeds: '4000',
+            cost: '6000',
+            washSale: true,
+            washSaleLossDisallowed: '1500',
+          },
+          {
+            description: '50 sh. DEF',
+            dateAcquired: '2025-03-01',
+            dateSold: '2025-06-01',
+            proceeds: '1000',
+            cost: '1800',
+            washSale: true,
+          },
+          {
+            description: '10 sh. GHI',
+            dateAcquired: 'VARIOUS',
+            dateSold: '2025-07-01',
+            proceeds: '10000',
+            cost: '4000',
+            shortLong: 'long',
+          },
+        ],
+      }
+    );
+
+    const scheduleD = result.federalDetails?.scheduleDDetails;
+    expect(scheduleD?.rows.map((row) => [row.term, row.adjustmentAmount])).toEqual([
+      ['short', $(1500)],
+      ['short', $(800)],
+      ['long', 0],
+    ]);
+    // Short-term: -$2,000 + $1,500 - $800 + $800 = -$500; long-term: $6,000
+    expect(scheduleD?.netShortTerm).toBe($(-500));
+    expect(scheduleD?.netLongTerm).toBe($(6000));
+    expect(result.federalDetails?.agi).toBe($(55500));
+  });
+});
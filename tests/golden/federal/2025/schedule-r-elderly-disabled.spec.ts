@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { computeElderlyDisabledCredit2025 } from '../../../../src/engine/credits/elderlyDisabled';
+import { computeFederal2025 } from '../../../../src/engine/federal/2025/computeFederal2025';
+import { createFederalTrace } from '../../../../src/engine/trace/federalTrace';
+import { dollarsToCents } from '../../../../src/engine/util/money';
+import { buildFederalInput } from '../../../helpers/buildFederalInput';
+
+/**
+ * Golden Tests for the Credit for the Elderly or the Disabled - 2025
+ * Schedule R
+ *
+ * Tests validate:
+ * - Initial amounts by filing status and number of qualifying spouses
+ * - Disability income limit for qualifying persons under 65
+ * - Reductions for nontaxable benefits and half of AGI over the threshold
+ * - No credit for MFS filers who lived with their spouse
+ * - Credit limited to tax and surfaced in the trace
+ *
+ * Source: IRC §22, Schedule R Instructions
+ */
+
+const $ = dollarsToCents;
+
+describe('Schedule R Credit for the Elderly or the Disabled 2025', () => {
+  it('should reduce the initial amount by nontaxable benefits and excess AGI', () => {
+    // $5,000 - $2,000 - 50% × ($12,000 - $7,500) = $750; 15% = $112.50
+    const result = computeElderlyDisabledCredit2025(
+      {
+        filingStatus: 'single',
+        agi: $(12000),
+        taxpayer: { age: 70 },
+        nontaxableSocialSecurity: $(2000),
+      },
+      $(1000)
+    );
+
+    expect(result.initialAmount).toBe($(5000));
+    expect(result.agiReduction).toBe($(2250));
+    expect(result.totalReduction).toBe($(4250));
+    expect(result.credit).toBe($(112.5));
+  });
+
+  it('should limit a disabled spouse under 65 to disability income', () => {
+    // Line 10 $7,500; Line 11 $5,000 + $1,500 = $6,500
+    const result = computeElderlyDisabledCredit2025(
+      {
+        filingStatus: 'marriedJointly',
+        agi: $(9000),
+        taxpayer: { age: 67 },
+        spouse: { age: 60, isPermanentlyDisabled: true, taxableDisabilityIncome: $(1500) },
+      },
+      $(5000)
+    );
+
+    expect(result.spouseQualifies).toBe(true);
+    expect(result.initialAmount).toBe($(7500));
+    expect(result.disabilityIncomeLimit).toBe($(6500));
+    expect(result.credit).toBe($(975));
+  });
+
+  it('should not allow the credit for MFS filers who lived with their spouse', () => {
+    const result = computeFederal2025({
+      ...buildFederalInput({
+        filingStatus: 'marriedSeparately',
+        primary: { birthDate: '1955-04-01' },
+        income: { wages: 16000 },
+      }),
+      scheduleR: { livedWithSpouse: true },
+    });
+
+    expect(result.scheduleRDetails?.taxpayerQualifies).toBe(false);
+    expect(result.credits.elderlyDisabled).toBe(0);
+    expect(result.diagnostics.warnings.map((w) => w.code)).toContain('CREDIT-W-013');
+  });
+
+  it('should limit the credit to tax and surface it in the trace', () => {
+    // Disabled at 50, $16,000 wages including $5,000 disability income: $100 tax.
+    // $5,000 - 50% × ($16,000 - $7,500) = $750; 15% = $112.50, limited to $100
+    const input = buildFederalInput({
+      filingStatus: 'single',
+      primary: {
+        birthDate: '1975-04-01',
+        isPermanentlyDisabled: true,
+        taxableDisabilityIncome: $(5000),
+      },
+      income: { wages: 16000 },
+    });
+    const result = computeFederal2025(input);
+
+    expect(result.scheduleRDetails?.creditBeforeLimit).toBe($(112.5));
+    expect(result.credits.elderlyDisabled).toBe($(100));
+
+    const entry = createFederalTrace(input, result)
+      .find((s) => s.id === 'credits')
+      ?.entries.find((e) => e.step === 'elderly_disabled_credit');
+    expect(entry?.result).toBe($(100));
+  });
+});
@@ -392,6 +392,28 @@ describe('Schedule 1 Part II - Adjustments to Income', () => {
       const result = computeFederal2025(input);
       expect(result.agi).toBe($(67000));
     });
+
+    it('should include taxable Social Security in the phaseout MAGI', () => {
+      const input = createBaseInput({
+        income: {
+          ...createBaseInput().income,
+          wages: $(70000),
+          socialSecurity: { grossBenefits: $(30000) },
+        },
+        adjustments: {
+          studentLoanInterest: 0,
+          hsaDeduction: 0,
+          iraDeduction: $(7000),
+          seTaxDeduction: 0,
+          businessExpenses: 0,
+          iraContributorCoveredByPlan: true,
+        },
+      });
+      const result = computeFederal2025(input);
+      // Pub 590-A Worksheet 1: $25,500 taxable benefits make MAGI $95,500, above $89,000
+      expect(result.taxableSocialSecurity).toBe($(25500));
+      expect(result.agi).toBe($(95500));
+    });
   });
 
   describe('Line 21 - Student Loan Interest', () => {
@@ -499,6 +521,27 @@ describe('Schedule 1 Part II - Adjustments to Income', () => {
       // MFS cannot claim student loan interest deduction
       expect(result.agi).toBe($(60000));
     });
+
+    it('should include taxable Social Security in the phaseout MAGI', () => {
+      const input = createBaseInput({
+        income: {
+          ...createBaseInput().income,
+          wages: $(70000),
+          socialSecurity: { grossBenefits: $(30000) },
+        },
+        adjustments: {
+          studentLoanInterest: $(2500),
+          hsaDeduction: 0,
+          iraDeduction: 0,
+          seTaxDeduction: 0,
+          businessExpenses: 0,
+        },
+      });
+      const result = computeFederal2025(input);
+      // $70,000 wages plus $25,500 taxable benefits is above the $95,000 phaseout end
+      expect(result.studentLoanInterestDeduction).toBeUndefined();
+      expect(result.agi).toBe($(95500));
+    });
   });
 
   describe('Combined Schedule 1 Adjustments', () => {
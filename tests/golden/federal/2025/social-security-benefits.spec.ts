@@ -0,0 +1,213 @@
+import { describe, it, expect } from 'vitest';
+import { computeTaxableSocialSecurity2025 } from '../../../../src/engine/income/socialSecurityBenefits';
+import { computeFederal2025 } from '../../../../src/engine/federal/2025/computeFederal2025';
+import { createFederalTrace } from '../../../../src/engine/trace/federalTrace';
+import { calculateTaxResultsWithEngine } from '../../../../src/utils/engineAdapter';
+import { dollarsToCents } from '../../../../src/engine/util/money';
+import { buildFederalInput } from '../../../helpers/buildFederalInput';
+
+/**
+ * Golden Tests for Taxable Social Security Benefits - 2025
+ * Form 1040 Lines 6a-6b, Social Security Benefits Worksheet
+ *
+ * Tests validate:
+ * - 0% / 50% / 85% inclusion tiers by provisional income
+ * - 85% of net benefits ceiling
+ * - MFS lived-with-spouse $0 base amount
+ * - Repayments (Box 4) and excess repayments
+ * - Integration with AGI, diagnostics, trace and state subtractions
+ *
+ * Source: IRC §86, IRS Publication 915
+ */
+
+describe('Taxable Social Security Worksheet 2025', () => {
+  it('should not tax benefits when provisional income is below the base amount', () => {
+    // Provisional: $10,000 + 50% × $20,000 = $20,000 < $25,000
+    const result = computeTaxableSocialSecurity2025({
+      filingStatus: 'single',
+      grossBenefits: dollarsToCents(20000),
+      otherIncome: dollarsToCents(10000),
+      adjustments: 0,
+    });
+
+    expect(result.provisionalIncome).toBe(dollarsToCents(20000));
+    expect(result.taxableBenefits).toBe(0);
+  });
+
+  it('should combine the 50% and 85% tiers for a single filer', () => {
+    // Provisional: $30,000 + $10,000 = $40,000
+    // 50% tier: 50% × $9,000 = $4,500; 85% tier: 85% × $6,000 = $5,100
+    const result = computeTaxableSocialSecurity2025({
+      filingStatus: 'single',
+      grossBenefits: dollarsToCents(20000),
+      otherIncome: dollarsToCents(30000),
+      adjustments: 0,
+    });
+
+    expect(result.provisionalIncome).toBe(dollarsToCents(40000));
+    expect(result.taxableBenefits).toBe(dollarsToCents(9600));
+  });
+
+  it('should use the $32,000 base amount for joint filers', () => {
+    // Provisional: $20,000 + $15,000 = $35,000; 50% × $3,000 = $1,500
+    const result = computeTaxableSocialSecurity2025({
+      filingStatus: 'marriedJointly',
+      grossBenefits: dollarsToCents(30000),
+      otherIncome: dollarsToCents(20000),
+      adjustments: 0,
+    });
+
+    expect(result.baseAmount).toBe(dollarsToCents(32000));
+    expect(result.taxableBenefits).toBe(dollarsToCents(1500));
+  });
+
+  it('should cap taxable benefits at 85% of net benefits', () => {
+    const result = computeTaxableSocialSecurity2025({
+      filingStatus: 'single',
+      grossBenefits: dollarsToCents(24000),
+      otherIncome: dollarsToCents(100000),
+      adjustments: 0,
+    });
+
+    expect(result.taxableBenefits).toBe(dollarsToCents(20400));
+    expect(result.taxablePercentage).toBeCloseTo(0.85, 5);
+  });
+
+  it('should include tax-exempt interest and subtract adjustments', () => {
+    // Provisional: $30,000 + $5,000 + $10,000 - $5,000 = $40,000
+    const result = computeTaxableSocialSecurity2025({
+      filingStatus: 'single',
+      grossBenefits: dollarsToCents(20000),
+      otherIncome: dollarsToCents(30000),
+      taxExemptInterest: dollarsToCents(5000),
+      adjustments: dollarsToCents(5000),
+    });
+
+    expect(result.provisionalIncome).toBe(dollarsToCents(40000));
+    expect(result.taxableBenefits).toBe(dollarsToCents(9600));
+  });
+
+  it('should apply the $0 base amount for MFS filers who lived with their spouse', () => {
+    // Provisional: $2,000 + $6,000 = $8,000; 85% × $8,000 = $6,800
+    const result = computeTaxableSocialSecurity2025({
+      filingStatus: 'marriedSeparately',
+      grossBenefits: dollarsToCents(12000),
+      livedWithSpouse: true,
+      otherIncome: dollarsToCents(2000),
+      adjustments: 0,
+    });
+
+    expect(result.mfsLivedWithSpouse).toBe(true);
+    expect(result.baseAmount).toBe(0);
+    expect(result.taxableBenefits).toBe(dollarsToCents(6800));
+  });
+
+  it('should use single amounts for MFS filers who lived apart all year', () => {
+    const result = computeTaxableSocialSecurity2025({
+      filingStatus: 'marriedSeparately',
+      grossBenefits: dollarsToCents(12000),
+      livedWithSpouse: false,
+      otherIncome: dollarsToCents(2000),
+      adjustments: 0,
+    });
+
+    expect(result.mfsLivedWithSpouse).toBe(false);
+    expect(result.taxableBenefits).toBe(0);
+  });
+
+  it('should net repayments and report excess repayments', () => {
+    const result = computeTaxableSocialSecurity2025({
+      filingStatus: 'single',
+      grossBenefits: dollarsToCents(1000),
+      benefitsRepaid: dollarsToCents(3000),
+      otherIncome: dollarsToCents(80000),
+      adjustments: 0,
+    });
+
+    expect(result.netBenefits).toBe(0);
+    expect(result.excessRepayment).toBe(dollarsToCents(2000));
+    expect(result.taxableBenefits).toBe(0);
+  });
+});
+
+describe('computeFederal2025 with Social Security benefits', () => {
+  const retireeInput = (overrides: { studentLoanInterest?: number } = {}) => {
+    const input = buildFederalInput({
+      filingStatus: 'single',
+      income: { wages: 30000 },
+      adjustments: { studentLoanInterest: overrides.studentLoanInterest },
+    });
+    input.income.socialSecurity = { grossBenefits: dollarsToCents(20000) };
+    return input;
+  };
+
+  it('should add taxable benefits to AGI', () => {
+    const result = computeFederal2025(retireeInput());
+
+    expect(result.taxableSocialSecurity).toBe(dollarsToCents(9600));
+    expect(result.socialSecurityDetails?.netBenefits).toBe(dollarsToCents(20000));
+    expect(result.agi).toBe(dollarsToCents(39600));
+    expect(result.diagnostics.warnings.some((w) => w.code === 'CALC-W-020')).toBe(true);
+  });
+
+  it('should not reduce provisional income by student loan interest', () => {
+    const result = computeFederal2025(retireeInput({ studentLoanInterest: 2500 }));
+
+    expect(result.taxableSocialSecurity).toBe(dollarsToCents(9600));
+    expect(result.agi).toBe(dollarsToCents(37100));
+  });
+
+  it('should omit Social Security fields when no benefits are reported', () => {
+    const result = computeFederal2025(
+      buildFederalInput({ filingStatus: 'single', income: { wages: 30000 } })
+    );
+
+    expect(result.taxableSocialSecurity).toBeUndefined();
+    expect(result.socialSecurityDetails).toBeUndefined();
+  });
+
+  it('should warn when repayments exceed benefits', () => {
+    const input = buildFederalInput({ filingStatus: 'single', income: { wages: 30000 } });
+    input.income.socialSecurity = {
+      grossBenefits: dollarsToCents(1000),
+      benefitsRepaid: dollarsToCents(4000),
+    };
+
+    const result = computeFederal2025(input);
+
+    expect(result.taxableSocialSecurity).toBe(0);
+    expect(result.diagnostics.warnings.some((w) => w.code === 'CALC-W-022')).toBe(true);
+  });
+
+  it('should emit a Social Security worksheet trace section', () => {
+    const input = retireeInput();
+    const result = computeFederal2025(input);
+    const sections = createFederalTrace(input, result);
+
+    const worksheet = sections.find((s) => s.id === 'social_security');
+    expect(worksheet).toBeDefined();
+    expect(worksheet!.entries.find((e) => e.step === 'taxable_benefits')?.result).toBe(
+      dollarsToCents(9600)
+    );
+    const income = sections.find((s) => s.id === 'income');
+    expect(income!.entries.find((e) => e.step === 'total_income')?.result).toBe(
+      dollarsToCents(39600)
+    );
+  });
+
+  it('should pass taxable benefits to state calculators as a subtraction', () => {
+    const result = calculateTaxResultsWithEngine(
+      { filingStatus: 'single', state: 'CA' },
+      { wages: '30000', socialSecurityBenefits: '20000' },
+      {},
+      {},
+      {},
+      {},
+      {}
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.federalDetails?.taxableSocialSecurity).toBe(dollarsToCents(9600));
+    expect(result.stateDetails?.stateAGI).toBe(dollarsToCents(30000));
+  });
+});
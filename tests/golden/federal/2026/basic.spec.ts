@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { computeFederal, dollarsToCents } from '../../../../src/engine';
+import { buildFederalInput } from '../../../helpers/buildFederalInput';
+import type { QualifyingChild } from '../../../../src/engine/types';
+
+const $ = dollarsToCents;
+
+const child = (name: string, birthDate: string): QualifyingChild => ({
+  name,
+  birthDate,
+  relationship: 'daughter',
+  monthsLivedWithTaxpayer: 12,
+  isStudent: false,
+  isPermanentlyDisabled: false,
+  providedOwnSupport: false,
+});
+
+describe('Federal 2026 - Year-Parameterized Golden Tests', () => {
+  it('should use 2026 brackets and standard deduction for a single filer', () => {
+    const input = buildFederalInput({
+      filingStatus: 'single',
+      income: { wages: 60000 },
+    });
+
+    const result = computeFederal(input, 2026);
+
+    expect(result.taxYear).toBe(2026);
+    expect(result.standardDeduction).toBe($(16100));
+    expect(result.taxableIncome).toBe($(43900));
+    // $12,400 × 10% + ($43,900 - $12,400) × 12% = $1,240 + $3,780
+    expect(result.taxBeforeCredits).toBe($(5020));
+  });
+
+  it('should apply the $2,200 CTC to a married couple with two children', () => {
+    const input = buildFederalInput({
+      filingStatus: 'marriedJointly',
+      spouse: { firstName: 'Jane', lastName: 'Doe' },
+      qualifyingChildren: [child('Ava', '2013-02-14'), child('Mia', '2017-07-30')],
+      income: { wages: 85000 },
+    });
+
+    const result = computeFederal(input, 2026);
+
+    expect(result.taxableIncome).toBe($(52800)); // $85,000 - $32,200
+    // $24,800 × 10% + ($52,800 - $24,800) × 12% = $2,480 + $3,360
+    expect(result.taxBeforeCredits).toBe($(5840));
+    expect(result.credits.ctc).toBe($(4400)); // $2,200 × 2 children
+  });
+
+  it('should use the 2026 EITC table on the plateau', () => {
+    const input = buildFederalInput({
+      filingStatus: 'headOfHousehold',
+      qualifyingChildren: [child('Ava', '2017-07-30')],
+      income: { wages: 15000 },
+    });
+
+    const result = computeFederal(input, 2026);
+
+    expect(result.standardDeduction).toBe($(24150));
+    // Between the $13,020 earned income amount and the $23,890 phaseout start
+    expect(result.credits.eitc).toBe($(4427));
+  });
+
+  describe('SALT cap', () => {
+    it('should allow up to $40,400 below the phasedown threshold', () => {
+      const input = buildFederalInput({
+        filingStatus: 'single',
+        income: { wages: 200000 },
+        itemized: { stateLocalTaxes: 50000, mortgageInterest: 20000 },
+      });
+
+      const result = computeFederal(input, 2026);
+
+      expect(result.deductionType).toBe('itemized');
+      expect(result.itemizedDeduction).toBe($(60400)); // $40,400 SALT + $20,000 mortgage
+      const saltWarning = result.diagnostics.warnings.find((w) => w.code === 'CALC-W-006');
+      expect(saltWarning?.message).toContain('$40,400');
+    });
+
+    it('should phase the cap down by 30% of AGI above $505,000', () => {
+      const input = buildFederalInput({
+        filingStatus: 'single',
+        income: { wages: 600000 },
+        itemized: { stateLocalTaxes: 50000, mortgageInterest: 20000 },
+      });
+
+      const result = computeFederal(input, 2026);
+
+      // $40,400 - 30% × ($600,000 - $505,000) = $11,900
+      expect(result.itemizedDeduction).toBe($(31900));
+    });
+
+    it('should not reduce the cap below the $10,000 floor', () => {
+      const input = buildFederalInput({
+        filingStatus: 'single',
+        income: { wages: 1000000 },
+        itemized: { stateLocalTaxes: 50000, mortgageInterest: 20000 },
+      });
+
+      const result = computeFederal(input, 2026);
+
+      expect(result.itemizedDeduction).toBe($(30000));
+    });
+  });
+
+  it('should skip Form 2210 outside 2025 with a warning', () => {
+    const input = buildFederalInput({
+      filingStatus: 'single',
+      income: { wages: 60000 },
+    });
+    input.priorYear = { agi: $(55000), totalTax: $(5000) };
+
+    const result = computeFederal(input, 2026);
+
+    expect(result.form2210Details).toBeUndefined();
+    expect(result.diagnostics.warnings.map((w) => w.code)).toContain('PAYMENT-W-005');
+  });
+
+  it('should warn about each part of the return that uses 2025 amounts', () => {
+    const input = buildFederalInput({
+      filingStatus: 'single',
+      income: { wages: 60000 },
+      adjustments: { studentLoanInterest: 1000 },
+    });
+    input.saversCreditInfo = { taxpayerAge: 30, taxpayerContributions: $(1000) };
+
+    const fallbackItems = (taxYear: number) =>
+      computeFederal(input, taxYear)
+        .diagnostics.warnings.filter((w) => w.code === 'CALC-W-036')
+        .map((w) => w.context?.item);
+
+    expect(fallbackItems(2026)).toEqual(['Schedule 1 adjustment limits', "Saver's credit"]);
+    expect(fallbackItems(2025)).toEqual([]);
+    expect(
+      computeFederal(input, 2026).diagnostics.warnings.find((w) => w.code === 'CALC-W-036')?.message
+    ).toBe(
+      'Schedule 1 adjustment limits: computed with 2025 amounts because 2026 amounts are not registered — review manually'
+    );
+  });
+
+  it('should fall back to the closest supported year with a warning', () => {
+    const input = buildFederalInput({
+      filingStatus: 'single',
+      income: { wages: 60000 },
+    });
+
+    const result = computeFederal(input, 2030);
+
+    expect(result.taxYear).toBe(2026);
+    expect(result.standardDeduction).toBe($(16100));
+    expect(result.diagnostics.warnings.map((w) => w.code)).toContain('CALC-W-027');
+  });
+});
@@ -0,0 +1,241 @@
+import { describe, it, expect } from 'vitest';
+import { computeFederal2025 } from '../../../src/engine/federal/2025/computeFederal2025';
+import {
+  calculateResidencyDays,
+  computeMultiStateReturns,
+} from '../../../src/engine/states/allocation';
+import type { MultiStateTaxInput } from '../../../src/engine/types/stateTax';
+import type { FilingStatus } from '../../../src/engine/types';
+import { dollarsToCents, multiplyCents } from '../../../src/engine/util/money';
+import { buildFederalInput } from '../../helpers/buildFederalInput';
+
+const $ = dollarsToCents;
+
+/**
+ * Part-Year Resident and Nonresident Allocation Tests - 2025
+ *
+ * Tests validate:
+ * - Residency days from dated periods
+ * - Wages sourced to the work state, other income to the domicile
+ * - Income-ratio allocation (CA Schedule CA (540NR), NY IT-203)
+ * - Days-prorated allocation for part-year residents
+ * - No local tax or refundable credits for nonresidents
+ * - Overlapping residency periods rejected
+ */
+
+const multiStateInput = (
+  wages: number,
+  overrides: Partial<MultiStateTaxInput> & Pick<MultiStateTaxInput, 'residencyPeriods'>,
+  interest = 0,
+  filingStatus: FilingStatus = 'single'
+): MultiStateTaxInput => ({
+  federalResult: computeFederal2025(
+    buildFederalInput({ filingStatus, income: { wages, interest } })
+  ),
+  filingStatus,
+  ...overrides,
+});
+
+describe('State residency days', () => {
+  it('should count inclusive days clipped to the tax year', () => {
+    expect(
+      calculateResidencyDays(
+        [
+          { state: 'ny', startDate: '2024-06-01', endDate: '2025-06-30' },
+          { state: 'CA', startDate: '2025-07-01', endDate: '2026-03-31' },
+        ],
+        2025
+      )
+    ).toEqual({ NY: 181, CA: 184 });
+  });
+
+  it('should handle leap years and cap a state at a full year', () => {
+    expect(
+      calculateResidencyDays(
+        [
+          { state: 'TX', startDate: '2024-01-01', endDate: '2024-12-31' },
+          { state: 'TX', startDate: '2024-03-01', endDate: '2024-03-31' },
+        ],
+        2024
+      )
+    ).toEqual({ TX: 366 });
+  });
+});
+
+describe('Multi-state allocation 2025', () => {
+  it('should split a mid-year move from New York to California by income sourced to each state', () => {
+    const result = computeMultiStateReturns(
+      multiStateInput(120000, {
+        residencyPeriods: [
+          { state: 'NY', startDate: '2025-01-01', endDate: '2025-06-30' },
+          { state: 'CA', startDate: '2025-07-01', endDate: '2025-12-31' },
+        ],
+        incomeSourcing: { wagesByState: { NY: $(60000), CA: $(60000) } },
+        stateWithheldByState: { NY: $(2500), CA: $(2000) },
+      })
+    );
+
+    const [ny, ca] = result.states;
+    expect(ny).toMatchObject({
+      state: 'NY',
+      residencyStatus: 'partYear',
+      daysResident: 181,
+      stateSourceIncome: $(60000),
+      allocationRatio: 0.5,
+    });
+    expect(ca).toMatchObject({
+      state: 'CA',
+      residencyStatus: 'partYear',
+      daysResident: 184,
+      allocationRatio: 0.5,
+    });
+
+    // Tax at resident rates on all income, times the CA ratio
+    expect(ca!.result.stateTax).toBe(multiplyCents(ca!.residentBasis.stateTax, 0.5));
+    expect(ca!.result.stateTaxableIncome).toBe(ca!.residentBasis.stateTaxableIncome);
+    expect(ca!.result.stateWithheld).toBe($(2000));
+    expect(ca!.result.stateRefundOrOwe).toBe($(2000) - ca!.result.totalStateLiability);
+    expect(ca!.result.formReferences).toContain('Schedule CA (540NR)');
+    expect(ny!.result.formReferences).toContain('Form IT-203');
+
+    expect(result.totalStateLiability).toBe(
+      ny!.result.totalStateLiability + ca!.result.totalStateLiability
+    );
+    expect(result.totalRefundOrOwe).toBe(ny!.result.stateRefundOrOwe + ca!.result.stateRefundOrOwe);
+  });
+
+  it('should source investment income to the state of domicile by days resident', () => {
+    const result = computeMultiStateReturns(
+      multiStateInput(
+        100000,
+        {
+          residencyPeriods: [
+            { state: 'NY', startDate: '2025-01-01', endDate: '2025-06-30' },
+            { state: 'CA', startDate: '2025-07-01', endDate: '2025-12-31' },
+          ],
+          incomeSourcing: { wagesByState: { NY: $(50000), CA: $(50000) } },
+        },
+        7300
+      )
+    );
+
+    const [ny, ca] = result.states;
+    // $7,300 of interest: 181/365 to NY, 184/365 to CA
+    expect(ny!.stateSourceIncome).toBe($(50000) + $(3620));
+    expect(ca!.stateSourceIncome).toBe($(50000) + $(3680));
+    expect(ca!.allocationRatio).toBeCloseTo(53680 / 107300, 10);
+  });
+
+  it('should tax a New Jersey resident commuting to New York as a New York nonresident', () => {
+    const result = computeMultiStateReturns(
+      multiStateInput(
+        100000,
+        {
+          residencyPeriods: [{ state: 'NJ', startDate: '2025-01-01', endDate: '2025-12-31' }],
+          incomeSourcing: { wagesByState: { NY: $(100000) } },
+          stateWithheldByState: { NY: $(5000) },
+        },
+        5000
+      )
+    );
+
+    const nj = result.states.find((s) => s.state === 'NJ')!;
+    const ny = result.states.find((s) => s.state === 'NY')!;
+
+    expect(nj.residencyStatus).toBe('resident');
+    expect(nj.allocationRatio).toBe(1);
+    expect(nj.result.totalStateLiability).toBe(nj.residentBasis.totalStateLiability);
+
+    expect(ny.residencyStatus).toBe('nonresident');
+    expect(ny.stateSourceIncome).toBe($(100000));
+    expect(ny.allocationRatio).toBeCloseTo(100000 / 105000, 10);
+    expect(ny.result.stateTax).toBe(multiplyCents(ny.residentBasis.stateTax, ny.allocationRatio));
+    expect(ny.result.calculationNotes?.[0]).toContain('Nonresident');
+  });
+
+  it('should prorate by days resident when the state uses the days method', () => {
+    const result = computeMultiStateReturns(
+      multiStateInput(80000, {
+        residencyPeriods: [
+          { state: 'PA', startDate: '2025-01-01', endDate: '2025-03-31' },
+          { state: 'TX', startDate: '2025-04-01', endDate: '2025-12-31' },
+        ],
+        allocationMethods: { PA: 'daysProrated' },
+      })
+    );
+
+    const pa = result.states.find((s) => s.state === 'PA')!;
+    const tx = result.states.find((s) => s.state === 'TX')!;
+
+    expect(pa.method).toBe('daysProrated');
+    expect(pa.allocationRatio).toBe(90 / 365);
+    expect(pa.result.totalStateLiability).toBe(
+      multiplyCents(pa.residentBasis.totalStateLiability, 90 / 365)
+    );
+    expect(tx.result.totalStateLiability).toBe(0);
+  });
+
+  it('should not allow refundable credits or local tax for nonresidents', () => {
+    const result = computeMultiStateReturns(
+      multiStateInput(20000, {
+        residencyPeriods: [{ state: 'NV', startDate: '2025-01-01', endDate: '2025-12-31' }],
+        incomeSourcing: { wagesByState: { CA: $(20000) } },
+        stateWithheldByState: { CA: $(300) },
+      })
+    );
+
+    const ca = result.states.find((s) => s.state === 'CA')!;
+    expect(ca.residentBasis.stateCredits.refundableCredits).toBeGreaterThan(0);
+    expect(ca.result.stateCredits.refundableCredits).toBe(0);
+    expect(ca.result.localTax).toBe(0);
+    expect(ca.result.stateRefundOrOwe).toBe($(300) - ca.result.totalStateLiability);
+  });
+
+  it('should not prorate negative domicile income when sourced income exceeds AGI', () => {
+    const result = computeMultiStateReturns(
+      multiStateInput(100000, {
+        residencyPeriods: [
+          { state: 'NY', startDate: '2025-01-01', endDate: '2025-06-30' },
+          { state: 'CA', startDate: '2025-07-01', endDate: '2025-12-31' },
+        ],
+        incomeSourcing: { wagesByState: { NY: $(120000) } },
+      })
+    );
+
+    const ca = result.states.find((s) => s.state === 'CA')!;
+    expect(ca.stateSourceIncome).toBe(0);
+    expect(ca.allocationRatio).toBe(0);
+  });
+
+  it('should reject overlapping residency periods with an error', () => {
+    const result = computeMultiStateReturns(
+      multiStateInput(80000, {
+        residencyPeriods: [
+          { state: 'NY', startDate: '2025-01-01', endDate: '2025-07-31' },
+          { state: 'CA', startDate: '2025-07-01', endDate: '2025-12-31' },
+        ],
+      })
+    );
+
+    expect(result.states.map((s) => s.state)).toEqual(['NY']);
+    expect(result.states[0]?.daysResident).toBe(212);
+    expect(result.diagnostics?.errors).toEqual([
+      expect.objectContaining({
+        code: 'INPUT-E-006',
+        field: 'residencyPeriods',
+        message:
+          'Residency period CA 2025-07-01 to 2025-12-31 overlaps NY 2025-01-01 to 2025-07-31 and was not counted',
+      }),
+    ]);
+  });
+
+  it('should reject a state without a registered calculator', () => {
+    expect(() =>
+      computeMultiStateReturns(
+        multiStateInput(50000, {
+          residencyPeriods: [{ state: 'ZZ', startDate: '2025-01-01', endDate: '2025-12-31' }],
+        })
+      )
+    ).toThrow('No state calculator registered for ZZ');
+  });
+});
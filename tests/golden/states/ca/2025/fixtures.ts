@@ -0,0 +1,121 @@
+import { computeFederal2025 } from '../../../../../src/engine/federal/2025/computeFederal2025';
+import type { StateTaxInput } from '../../../../../src/engine/types/stateTax';
+import type { ParityFixture } from '../../../../../src/engine/states/metadata/parity';
+import { dollarsToCents } from '../../../../../src/engine/util/money';
+import {
+  buildFederalInput,
+  type FederalInputDollarShape,
+} from '../../../../helpers/buildFederalInput';
+
+const $ = dollarsToCents;
+
+/**
+ * California 2025 golden scenarios as state inputs
+ *
+ * Shared by basic-scenarios.spec.ts, which checks each result, and the
+ * metadata parity harness, which replays every scenario through both the
+ * hand-written and metadata calculators.
+ */
+const fixture = (
+  name: string,
+  federal: FederalInputDollarShape,
+  state: Partial<StateTaxInput> = {}
+): ParityFixture => ({
+  name,
+  input: {
+    federalResult: computeFederal2025(buildFederalInput(federal)),
+    state: 'CA',
+    filingStatus: federal.filingStatus,
+    stateDependents: federal.dependents ?? 0,
+    ...state,
+  },
+});
+
+const single = (wages: number, stateWithheld: number, state: Partial<StateTaxInput> = {}) =>
+  fixture(
+    `single, $${wages.toLocaleString('en-US')} wages`,
+    {
+      filingStatus: 'single',
+      primary: { birthDate: '1990-01-01', isBlind: false },
+      dependents: 0,
+      income: { wages },
+    },
+    { stateWithheld: $(stateWithheld), ...state }
+  );
+
+export const CA_2025_SCENARIOS = {
+  single30k: single(30000, 1500),
+  single75k: single(75000, 4000),
+  single200k: single(200000, 15000),
+  marriedJointly100k: fixture(
+    'married jointly, $100,000 wages, 2 dependents',
+    {
+      filingStatus: 'marriedJointly',
+      primary: { birthDate: '1985-01-01', isBlind: false },
+      spouse: { birthDate: '1987-01-01', isBlind: false },
+      dependents: 2,
+      income: { wages: 100000 },
+    },
+    { stateWithheld: $(5000) }
+  ),
+  single1500k: single(1500000, 150000),
+  itemized: fixture(
+    'single, itemized deductions above the standard deduction',
+    {
+      filingStatus: 'single',
+      primary: { birthDate: '1985-06-15', isBlind: false },
+      dependents: 0,
+      income: { wages: 120000 },
+    },
+    {
+      stateWithheld: $(6000),
+      stateItemized: {
+        propertyTaxes: $(8000),
+        mortgageInterest: $(9000),
+        charitableContributions: $(5000),
+        medicalExpenses: $(6000),
+        other: $(2500),
+      },
+    }
+  ),
+  calEitcAndYctc: fixture(
+    'married jointly, $28,000 wages, CalEITC and YCTC',
+    {
+      filingStatus: 'marriedJointly',
+      primary: { birthDate: '1992-04-20', isBlind: false },
+      dependents: 2,
+      income: { wages: 28000 },
+    },
+    { stateWithheld: $(1200), stateSpecific: { youngChildrenUnder6: 1 } }
+  ),
+  single15k: single(15000, 500),
+  marriedJointly35k: fixture(
+    'married jointly, $35,000 wages, 2 dependents',
+    {
+      filingStatus: 'marriedJointly',
+      primary: { birthDate: '1990-01-01', isBlind: false },
+      spouse: { birthDate: '1992-01-01', isBlind: false },
+      dependents: 2,
+      income: { wages: 35000 },
+    },
+    { stateWithheld: $(1500) }
+  ),
+  single50k: single(50000, 2500),
+  single150k: single(150000, 12000),
+  zeroIncome: single(0, 0),
+  bracketBoundary: single(31429, 1000),
+  mentalHealthServicesTax: single(1500000, 120000),
+  // Parity only: head of household without the young child count
+  headOfHousehold25k: fixture(
+    'head of household, $25,000 wages, 1 dependent, no young child count',
+    {
+      filingStatus: 'headOfHousehold',
+      primary: { birthDate: '1990-01-01', isBlind: false },
+      dependents: 1,
+      income: { wages: 25000 },
+    },
+    { stateWithheld: $(300) }
+  ),
+};
+
+export const CA_2025_FIXTURES: ParityFixture[] = Object.values(CA_2025_SCENARIOS);
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { computeCA2025 } from '../../../src/engine/states/CA/2025/computeCA2025';
+import { computePA2025 } from '../../../src/engine/states/PA/2025/computePA2025';
+import { getStateCalculator } from '../../../src/engine/states/registry';
+import {
+  createMetadataCalculator,
+  getMetadataStates,
+  hasStateMetadataConfig,
+  loadStateTaxConfig,
+  parseStateTaxConfigYaml,
+} from '../../../src/engine/states/metadata/loader';
+import {
+  compareStateResults,
+  formatParityReport,
+  runStateParity,
+} from '../../../src/engine/states/metadata/parity';
+import { CA_2025_FIXTURES } from './ca/2025/fixtures';
+import { PA_2025_FIXTURES } from './pa/2025/fixtures';
+
+/**
+ * Metadata Parity Tests - 2025
+ *
+ * Replays the CA and PA golden scenarios through the hand-written
+ * calculators and the YAML-driven calculator and requires cents-level
+ * agreement on every result field.
+ */
+
+describe('State metadata parity (2025)', () => {
+  it('should match the hand-written California calculator on every fixture', () => {
+    const report = runStateParity(
+      'CA',
+      CA_2025_FIXTURES,
+      computeCA2025,
+      createMetadataCalculator(loadStateTaxConfig('CA')!)
+    );
+
+    expect(report.mismatches, formatParityReport(report)).toBe(0);
+  });
+
+  it('should match the hand-written Pennsylvania calculator on every fixture', () => {
+    const report = runStateParity(
+      'PA',
+      PA_2025_FIXTURES,
+      computePA2025,
+      createMetadataCalculator(loadStateTaxConfig('PA')!)
+    );
+
+    expect(report.mismatches, formatParityReport(report)).toBe(0);
+  });
+
+  it('should report cents-level differences between results', () => {
+    const input = PA_2025_FIXTURES[0]!.input;
+    const handwritten = computePA2025(input);
+    const metadata = { ...handwritten, stateTax: handwritten.stateTax + 1 };
+
+    expect(compareStateResults(handwritten, metadata)).toEqual([
+      {
+        field: 'stateTax',
+        handwritten: handwritten.stateTax,
+        metadata: metadata.stateTax,
+        delta: 1,
+      },
+    ]);
+
+    const report = runStateParity('PA', [PA_2025_FIXTURES[0]!], computePA2025, () => metadata);
+    expect(report.mismatches).toBe(1);
+    expect(formatParityReport(report)).toContain(
+      'stateTax: hand-written $921.00, metadata $921.01 (+1¢)'
+    );
+  });
+});
+
+describe('State registry metadata mode', () => {
+  it('should list the states with bundled YAML configurations', () => {
+    expect(getMetadataStates()).toEqual(['CA', 'PA']);
+    expect(hasStateMetadataConfig('ca')).toBe(true);
+    expect(hasStateMetadataConfig('NY')).toBe(false);
+    expect(loadStateTaxConfig('NY')).toBeNull();
+  });
+
+  it('should resolve a state to its YAML configuration in metadata mode', () => {
+    const input = CA_2025_FIXTURES[1]!.input;
+    const handwritten = getStateCalculator('CA')!;
+    const metadata = getStateCalculator('CA', 'metadata')!;
+
+    expect(metadata.config).toBe(handwritten.config);
+    expect(metadata.calculator).not.toBe(handwritten.calculator);
+    expect(metadata.calculator(input).calculationNotes).not.toEqual(
+      handwritten.calculator(input).calculationNotes
+    );
+    expect(compareStateResults(handwritten.calculator(input), metadata.calculator(input))).toEqual(
+      []
+    );
+  });
+
+  it('should fall back to the hand-written calculator without a YAML configuration', () => {
+    expect(getStateCalculator('NY', 'metadata')).toBe(getStateCalculator('NY'));
+    expect(getStateCalculator('ZZ', 'metadata')).toBeNull();
+  });
+
+  it('should reject an invalid configuration with the validation report', () => {
+    expect(() => parseStateTaxConfigYaml('metadata:\n  stateCode: XX\n', 'XX')).toThrow(
+      /Invalid state tax configuration for XX/
+    );
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { computeFederal2025 } from '../../../src/engine/federal/2025/computeFederal2025';
+import { computeMultiStateReturns } from '../../../src/engine/states/allocation';
+import { computeStateReturnsWithCredits } from '../../../src/engine/states/otherStateCredit';
+import type { MultiStateTaxInput, StateAllocation } from '../../../src/engine/types/stateTax';
+import { dollarsToCents, multiplyCents } from '../../../src/engine/util/money';
+import { buildFederalInput } from '../../helpers/buildFederalInput';
+
+const $ = dollarsToCents;
+
+/**
+ * Credit for Taxes Paid to Other States - 2025
+ *
+ * Tests validate:
+ * - Nonresident returns computed before the resident return
+ * - Credit limited to the lesser of the other state's tax or the
+ *   resident-state tax on the other-state-source income
+ * - Reverse credits on the nonresident return (VA/AZ/OR for CA residents)
+ * - Diagnostics explaining each credit
+ */
+
+const fullYear = (state: string) => [{ state, startDate: '2025-01-01', endDate: '2025-12-31' }];
+
+const crossBorderInput = (
+  residentState: string,
+  workState: string,
+  wages: number,
+  interest = 0
+): MultiStateTaxInput => ({
+  federalResult: computeFederal2025(
+    buildFederalInput({ filingStatus: 'single', income: { wages, interest } })
+  ),
+  filingStatus: 'single',
+  residencyPeriods: fullYear(residentState),
+  incomeSourcing: { wagesByState: { [workState]: $(wages) } },
+  stateWithheldByState: { [workState]: $(4000) },
+});
+
+const stateTax = (s: StateAllocation) => s.result.totalStateLiability - s.result.localTax;
+const byState = (states: StateAllocation[], code: string) => states.find((s) => s.state === code)!;
+
+describe('Credit for taxes paid to other states 2025', () => {
+  it('should compute nonresident states before the resident state', () => {
+    const result = computeStateReturnsWithCredits(crossBorderInput('NJ', 'NY', 100000, 5000));
+
+    expect(result.states.map((s) => s.residencyStatus)).toEqual(['nonresident', 'resident']);
+  });
+
+  it('should credit the other state tax against the resident state tax', () => {
+    const input = crossBorderInput('NJ', 'NY', 100000, 5000);
+    const before = computeMultiStateReturns(input);
+    const result = computeStateReturnsWithCredits(input);
+
+    const nyTax = stateTax(byState(before.states, 'NY'));
+    const njTax = stateTax(byState(before.states, 'NJ'));
+    const limit = multiplyCents(njTax, 100000 / 105000);
+    const credit = Math.min(nyTax, limit);
+
+    const nj = byState(result.states, 'NJ');
+    expect(credit).toBeGreaterThan(0);
+    expect(nj.result.stateCredits.other_state_tax).toBe(credit);
+    expect(nj.result.totalStateLiability).toBe(
+      byState(before.states, 'NJ').result.totalStateLiability - credit
+    );
+    expect(nj.result.stateRefundOrOwe).toBe(
+      byState(before.states, 'NJ').result.stateRefundOrOwe + credit
+    );
+    expect(result.totalStateLiability).toBe(before.totalStateLiability - credit);
+
+    // The nonresident return is unchanged
+    expect(byState(result.states, 'NY').result).toEqual(byState(before.states, 'NY').result);
+  });
+
+  it('should limit the credit to the resident state tax on the other-state income', () => {
+    // PA (3.07% flat) resident working in NY: NY tax exceeds PA tax on the same wages
+    const input = crossBorderInput('PA', 'NY', 150000);
+    const before = computeMultiStateReturns(input);
+    const result = computeStateReturnsWithCredits(input);
+
+    const paTax = stateTax(byState(before.states, 'PA'));
+    expect(stateTax(byState(before.states, 'NY'))).toBeGreaterThan(paTax);
+
+    const pa = byState(result.states, 'PA');
+    expect(pa.result.stateCredits.other_state_tax).toBe(paTax);
+    expect(pa.result.totalStateLiability).toBe(0);
+
+    const warning = result.diagnostics!.warnings.find((w) => w.code === 'CREDIT-W-007')!;
+    expect(warning.message).toContain('PA credit for taxes paid to NY');
+    expect(warning.phase).toBe('credits');
+  });
+
+  it('should apply the reverse credit on the Virginia return of a California resident', () => {
+    const input = crossBorderInput('CA', 'VA', 90000);
+    const before = computeMultiStateReturns(input);
+    const result = computeStateReturnsWithCredits(input);
+
+    const ca = byState(result.states, 'CA');
+    const va = byState(result.states, 'VA');
+    const vaTax = stateTax(byState(before.states, 'VA'));
+    const caTax = stateTax(byState(before.states, 'CA'));
+
+    expect(ca.result.stateCredits.other_state_tax).toBeUndefined();
+    expect(va.result.stateCredits.other_state_tax).toBe(Math.min(vaTax, caTax));
+
+    const codes = result.diagnostics!.warnings.map((w) => w.code);
+    expect(codes).toEqual(['CREDIT-W-008']);
+    expect(result.diagnostics!.warnings[0]!.message).toContain('VA allows a reverse credit');
+  });
+
+  it('should not add credits or diagnostics for a single-state return', () => {
+    const result = computeStateReturnsWithCredits({
+      ...crossBorderInput('NY', 'NY', 80000),
+    });
+
+    expect(result.states).toHaveLength(1);
+    expect(result.states[0]!.result.stateCredits.other_state_tax).toBeUndefined();
+    expect(result.diagnostics!.warnings).toHaveLength(0);
+  });
+});
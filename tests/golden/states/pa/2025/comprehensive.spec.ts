@@ -1,8 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { computePA2025 } from '../../../../../src/engine/states/PA/2025/computePA2025';
-import { computeFederal2025, dollarsToCents } from '../../../../../src/engine';
-import { buildFederalInput } from '../../../../helpers/buildFederalInput';
-import type { StateTaxInput } from '../../../../../src/engine/types/stateTax';
+import { dollarsToCents } from '../../../../../src/engine';
+import { PA_2025_SCENARIOS } from './fixtures';
 
 const $ = dollarsToCents;
 
@@ -26,22 +25,7 @@ const $ = dollarsToCents;
 describe('Pennsylvania 2025 - Comprehensive Tax Scenarios', () => {
   describe('Basic Flat Tax Calculation', () => {
     it('should apply 3.07% flat tax to $30k income', () => {
-      const federalInput = buildFederalInput({
-        filingStatus: 'single',
-        income: { wages: 30000 },
-        payments: { federalWithheld: 3000 },
-      });
-      const federalResult = computeFederal2025(federalInput);
-
-      const paInput: StateTaxInput = {
-        federalResult,
-        state: 'PA',
-        filingStatus: 'single',
-        stateWithheld: $(900),
-        stateEstPayments: 0,
-      };
-
-      const result = computePA2025(paInput);
+      const result = computePA2025(PA_2025_SCENARIOS.single30k.input);
 
       expect(result.state).toBe('PA');
       expect(result.stateAGI).toBe($(30000));
@@ -54,22 +38,7 @@ describe('Pennsylvania 2025 - Comprehensive Tax Scenarios', () => {
     });
 
     it('should apply 3.07% flat tax to $75k income', () => {
-      const federalInput = buildFederalInput({
-        filingStatus: 'single',
-        income: { wages: 75000 },
-        payments: { federalWithheld: 9000 },
-      });
-      const federalResult = computeFederal2025(federalInput);
-
-      const paInput: StateTaxInput = {
-        federalResult,
-        state: 'PA',
-        filingStatus: 'single',
-        stateWithheld: $(2300),
-        stateEstPayments: 0,
-      };
-
-      const result = computePA2025(paInput);
+      const result = computePA2025(PA_2025_SCENARIOS.single75k.input);
 
       expect(result.stateAGI).toBe($(75000));
       expect(result.stateTaxableIncome).toBe($(75000));
@@ -80,22 +49,7 @@ describe('Pennsylvania 2025 - Comprehensive Tax Scenarios', () => {
     });
 
     it('should apply 3.07% flat tax to $200k income', () => {
-      const federalInput = buildFederalInput({
-        filingStatus: 'marriedJointly',
-        income: { wages: 200000 },
-        payments: { federalWithheld: 30000 },
-      });
-      const federalResult = computeFederal2025(federalInput);
-
-      const paInput: StateTaxInput = {
-        federalResult,
-        state: 'PA',
-        filingStatus: 'marriedJointly',
-        stateWithheld: $(6100),
-        stateEstPayments: 0,
-      };
-
-      const result = computePA2025(paInput);
+      const result = computePA2025(PA_2025_SCENARIOS.marriedJointly200k.input);
 
       expect(result.stateTaxableIncome).toBe($(200000));
 
@@ -107,22 +61,7 @@ describe('Pennsylvania 2025 - Comprehensive Tax Scenarios', () => {
 
   describe('No Deductions or Exemptions', () => {
     it('should NOT apply standard deduction', () => {
-      const federalInput = buildFederalInput({
-        filingStatus: 'single',
-        income: { wages: 50000 },
-        payments: { federalWithheld: 6000 },
-      });
-      const federalResult = computeFederal2025(federalInput);
-
-      const paInput: StateTaxInput = {
-        federalResult,
-        state: 'PA',
-        filingStatus: 'single',
-        stateWithheld: $(1535),
-        stateEstPayments: 0,
-      };
-
-      const result = computePA2025(paInput);
+      const result = computePA2025(PA_2025_SCENARIOS.single50k.input);
 
       // PA has NO standard deduction
       expect(result.stateDeduction).toBe(0);
@@ -130,24 +69,7 @@ describe('Pennsylvania 2025 - Comprehensive Tax Scenarios', () => {
     });
 
     it('should NOT apply dependent exemptions', () => {
-      const federalInput = buildFederalInput({
-        filingStatus: 'marriedJointly',
-        dependents: 4, // 4 dependents
-        income: { wages: 100000 },
-        payments: { federalWithheld: 12000 },
-      });
-      const federalResult = computeFederal2025(federalInput);
-
-      const paInput: StateTaxInput = {
-        federalResult,
-        state: 'PA',
-        filingStatus: 'marriedJointly',
-        stateDependents: 4,
-        stateWithheld: $(3070),
-        stateEstPayments: 0,
-      };
-
-      const result = computePA2025(paInput);
+      const result = computePA2025(PA_2025_SCENARIOS.marriedJointly100kDependents.input);
 
       // PA has NO dependent exemptions - dependents don't reduce taxable income
       expect(result.stateDeduction).toBe(0);
@@ -160,27 +82,7 @@ describe('Pennsylvania 2025 - Comprehensive Tax Scenarios', () => {
     });
 
     it('should ignore itemized deductions', () => {
-      const federalInput = buildFederalInput({
-        filingStatus: 'single',
-        income: { wages: 80000 },
-        itemized: {
-          stateLocalTaxes: 10000,
-          mortgageInterest: 15000,
-          charitable: 5000,
-        },
-        payments: { federalWithheld: 10000 },
-      });
-      const federalResult = computeFederal2025(federalInput);
-
-      const paInput: StateTaxInput = {
-        federalResult,
-        state: 'PA',
-        filingStatus: 'single',
-        stateWithheld: $(2456),
-        stateEstPayments: 0,
-      };
-
-      const result = computePA2025(paInput);
+      const result = computePA2025(PA_2025_SCENARIOS.itemized.input);
 
       // PA ignores ALL itemized deductions
       expect(result.stateDeduction).toBe(0);
@@ -190,30 +92,7 @@ describe('Pennsylvania 2025 - Comprehensive Tax Scenarios', () => {
 
   describe('Retirement Income Exemption', () => {
     it('should FULLY exempt Social Security benefits', () => {
-      // Simulate taxpayer with $30k wages + $15k Social Security = $45k total
-      // For this test, we'll use $45k in wages to simulate the combined income
-      // since buildFederalInput doesn't support separate Social Security income yet
-      const federalInput = buildFederalInput({
-        filingStatus: 'single',
-        income: {
-          wages: 45000, // Simulating $30k wages + $15k Social Security
-        },
-        payments: { federalWithheld: 3500 },
-      });
-      const federalResult = computeFederal2025(federalInput);
-
-      const paInput: StateTaxInput = {
-        federalResult,
-        state: 'PA',
-        filingStatus: 'single',
-        stateSubtractions: {
-          socialSecurityBenefits: $(15000), // $15k Social Security in cents
-        },
-        stateWithheld: $(921),
-        stateEstPayments: 0,
-      };
-
-      const result = computePA2025(paInput);
+      const result = computePA2025(PA_2025_SCENARIOS.socialSecurityExempt.input);
 
       // PA AGI should exclude Social Security
       // $45k federal AGI - $15k Social Security = $30k PA AGI (wages only)
@@ -222,30 +101,7 @@ describe('Pennsylvania 2025 - Comprehensive Tax Scenarios', () => {
     });
 
     it('should FULLY exempt pension and retirement income', () => {
-      // Simulate taxpayer with $40k wages + $50k retirement income = $90k total
-      // For this test, we'll use $90k in wages to simulate the combined income
-      // since buildFederalInput doesn't support separate retirement income yet
-      const federalInput = buildFederalInput({
-        filingStatus: 'marriedJointly',
-        income: {
-          wages: 90000, // Simulating $40k wages + $50k retirement
-        },
-        payments: { federalWithheld: 5000 },
-      });
-      const federalResult = computeFederal2025(federalInput);
-
-      const paInput: StateTaxInput = {
-        federalResult,
-        state: 'PA',
-        filingStatus: 'marriedJointly',
-        stateSubtractions: {
-          retirementIncome: $(50000), // $50k from 401k/IRA/pension in cents
-        },
-        stateWithheld: $(1228),
-        stateEstPayments: 0,
-      };
-
-      const result = computePA2025(paInput);
+      const result = computePA2025(PA_2025_SCENARIOS.retirementExempt.input);
 
       // PA AGI excludes ALL retirement income
       // $90k federal AGI - $50k retirement = $40k PA AGI (wages only)
@@ -254,28 +110,7 @@ describe('Pennsylvania 2025 - Comprehensive Tax Scenarios', () => {
     });
 
     it('should handle retiree with only retirement income', () => {
-      const federalInput = buildFederalInput({
-        filingStatus: 'marriedJointly',
-        income: {
-          wages: 0, // Retired, no wages
-        },
-        payments: { federalWithheld: 0 },
-      });
-      const federalResult = computeFederal2025(federalInput);
-
-      const paInput: StateTaxInput = {
-        federalResult,
-        state: 'PA',
-        filingStatus: 'marriedJointly',
-        stateSubtractions: {
-          socialSecurityBenefits: 30000,
-          retirementIncome: 40000,
-        },
-        stateWithheld: 0,
-        stateEstPayments: 0,
-      };
-
-      const result = computePA2025(paInput);
+      const result = computePA2025(PA_2025_SCENARIOS.retirementOnly.input);
 
       // All income is retirement - should have ZERO PA tax
       expect(result.stateAGI).toBe(0);
@@ -286,25 +121,7 @@ describe('Pennsylvania 2025 - Comprehensive Tax Scenarios', () => {
 
   describe('Multiple Income Sources', () => {
     it('should tax wages and self-employment income together', () => {
-      const federalInput = buildFederalInput({
-        filingStatus: 'single',
-        income: {
-          wages: 50000,
-          scheduleCNet: 25000,
-        },
-        payments: { federalWithheld: 7000 },
-      });
-      const federalResult = computeFederal2025(federalInput);
-
-      const paInput: StateTaxInput = {
-        federalResult,
-        state: 'PA',
-        filingStatus: 'single',
-        stateWithheld: $(2302),
-        stateEstPayments: 0,
-      };
-
-      const result = computePA2025(paInput);
+      const result = computePA2025(PA_2025_SCENARIOS.selfEmployment.input);
 
       // PA taxes all income at same flat rate
       // Federal AGI = $75,000 - SE tax deduction ($1,766.19) = $73,233.81
@@ -316,54 +133,18 @@ describe('Pennsylvania 2025 - Comprehensive Tax Scenarios', () => {
     });
 
     it('should tax wages, dividends, and capital gains uniformly', () => {
-      const federalInput = buildFederalInput({
-        filingStatus: 'single',
-        income: {
-          wages: 60000,
-          dividends: 5000,
-          qualifiedDividends: 3000,
-          capitalGains: 10000,
-        },
-        payments: { federalWithheld: 8000 },
-      });
-      const federalResult = computeFederal2025(federalInput);
-
-      const paInput: StateTaxInput = {
-        federalResult,
-        state: 'PA',
-        filingStatus: 'single',
-        stateWithheld: $(2302),
-        stateEstPayments: 0,
-      };
-
-      const result = computePA2025(paInput);
+      const result = computePA2025(PA_2025_SCENARIOS.investmentIncome.input);
 
       // PA treats ALL income the same - no preferential rates
-      // Note: Currently only wages are included in federal AGI from buildFederalInput
-      // TODO: Fix buildFederalInput to include dividends and capital gains in AGI
-      expect(result.stateAGI).toBe($(60000)); // Currently only wages
-      expect(result.stateTax).toBe(Math.round(60000 * 100 * 0.0307));
+      // $60,000 wages + $5,000 dividends + $10,000 capital gains
+      expect(result.stateAGI).toBe($(75000));
+      expect(result.stateTax).toBe(Math.round(75000 * 100 * 0.0307));
     });
   });
 
   describe('Payment and Refund Calculations', () => {
     it('should calculate refund when overpaid', () => {
-      const federalInput = buildFederalInput({
-        filingStatus: 'single',
-        income: { wages: 40000 },
-        payments: { federalWithheld: 5000 },
-      });
-      const federalResult = computeFederal2025(federalInput);
-
-      const paInput: StateTaxInput = {
-        federalResult,
-        state: 'PA',
-        filingStatus: 'single',
-        stateWithheld: $(2000), // Overpaid (actual tax ~$1,228)
-        stateEstPayments: 0,
-      };
-
-      const result = computePA2025(paInput);
+      const result = computePA2025(PA_2025_SCENARIOS.overpaid.input);
 
       const actualTax = Math.round(40000 * 100 * 0.0307);
       expect(result.stateTax).toBe(actualTax);
@@ -371,22 +152,7 @@ describe('Pennsylvania 2025 - Comprehensive Tax Scenarios', () => {
     });
 
     it('should calculate amount owed when underpaid', () => {
-      const federalInput = buildFederalInput({
-        filingStatus: 'single',
-        income: { wages: 100000 },
-        payments: { federalWithheld: 12000 },
-      });
-      const federalResult = computeFederal2025(federalInput);
-
-      const paInput: StateTaxInput = {
-        federalResult,
-        state: 'PA',
-        filingStatus: 'single',
-        stateWithheld: $(2000), // Underpaid (actual tax ~$3,070)
-        stateEstPayments: 0,
-      };
-
-      const result = computePA2025(paInput);
+      const result = computePA2025(PA_2025_SCENARIOS.underpaid.input);
 
       const actualTax = Math.round(100000 * 100 * 0.0307);
       expect(result.stateTax).toBe(actualTax);
@@ -394,22 +160,7 @@ describe('Pennsylvania 2025 - Comprehensive Tax Scenarios', () => {
     });
 
     it('should include estimated payments in refund calculation', () => {
-      const federalInput = buildFederalInput({
-        filingStatus: 'single',
-        income: { wages: 50000 },
-        payments: { federalWithheld: 6000 },
-      });
-      const federalResult = computeFederal2025(federalInput);
-
-      const paInput: StateTaxInput = {
-        federalResult,
-        state: 'PA',
-        filingStatus: 'single',
-        stateWithheld: $(1000),
-        stateEstPayments: $(1000), // Additional estimated payments
-      };
-
-      const result = computePA2025(paInput);
+      const result = computePA2025(PA_2025_SCENARIOS.estimatedPayments.input);
 
       const actualTax = Math.round(50000 * 100 * 0.0307);
       expect(result.stateEstPayments).toBe($(1000));
@@ -419,22 +170,7 @@ describe('Pennsylvania 2025 - Comprehensive Tax Scenarios', () => {
 
   describe('Edge Cases', () => {
     it('should handle zero income correctly', () => {
-      const federalInput = buildFederalInput({
-        filingStatus: 'single',
-        income: { wages: 0 },
-        payments: { federalWithheld: 0 },
-      });
-      const federalResult = computeFederal2025(federalInput);
-
-      const paInput: StateTaxInput = {
-        federalResult,
-        state: 'PA',
-        filingStatus: 'single',
-        stateWithheld: 0,
-        stateEstPayments: 0,
-      };
-
-      const result = computePA2025(paInput);
+      const result = computePA2025(PA_2025_SCENARIOS.zeroIncome.input);
 
       expect(result.stateAGI).toBe(0);
       expect(result.stateTaxableIncome).toBe(0);
@@ -442,22 +178,7 @@ describe('Pennsylvania 2025 - Comprehensive Tax Scenarios', () => {
     });
 
     it('should handle very high income correctly', () => {
-      const federalInput = buildFederalInput({
-        filingStatus: 'marriedJointly',
-        income: { wages: 1000000 },
-        payments: { federalWithheld: 200000 },
-      });
-      const federalResult = computeFederal2025(federalInput);
-
-      const paInput: StateTaxInput = {
-        federalResult,
-        state: 'PA',
-        filingStatus: 'marriedJointly',
-        stateWithheld: $(30000),
-        stateEstPayments: 0,
-      };
-
-      const result = computePA2025(paInput);
+      const result = computePA2025(PA_2025_SCENARIOS.marriedJointly1m.input);
 
       // Still just 3.07% - no brackets, no caps
       expect(result.stateTax).toBe(Math.round(1000000 * 100 * 0.0307));
@@ -465,25 +186,7 @@ describe('Pennsylvania 2025 - Comprehensive Tax Scenarios', () => {
     });
 
     it('should handle negative AGI correctly', () => {
-      const federalInput = buildFederalInput({
-        filingStatus: 'single',
-        income: {
-          wages: 10000,
-          scheduleCNet: -15000, // Business loss
-        },
-        payments: { federalWithheld: 1000 },
-      });
-      const federalResult = computeFederal2025(federalInput);
-
-      const paInput: StateTaxInput = {
-        federalResult,
-        state: 'PA',
-        filingStatus: 'single',
-        stateWithheld: 0,
-        stateEstPayments: 0,
-      };
-
-      const result = computePA2025(paInput);
+      const result = computePA2025(PA_2025_SCENARIOS.businessLoss.input);
 
       // PA should handle negative AGI gracefully (floor at 0)
       expect(result.stateTaxableIncome).toBeGreaterThanOrEqual(0);
@@ -493,22 +196,7 @@ describe('Pennsylvania 2025 - Comprehensive Tax Scenarios', () => {
 
   describe('Metadata and Form References', () => {
     it('should include correct PA form references', () => {
-      const federalInput = buildFederalInput({
-        filingStatus: 'single',
-        income: { wages: 50000 },
-        payments: { federalWithheld: 6000 },
-      });
-      const federalResult = computeFederal2025(federalInput);
-
-      const paInput: StateTaxInput = {
-        federalResult,
-        state: 'PA',
-        filingStatus: 'single',
-        stateWithheld: $(1535),
-        stateEstPayments: 0,
-      };
-
-      const result = computePA2025(paInput);
+      const result = computePA2025(PA_2025_SCENARIOS.single50k.input);
 
       expect(result.state).toBe('PA');
       expect(result.taxYear).toBe(2025);
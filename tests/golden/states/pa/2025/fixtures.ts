@@ -0,0 +1,146 @@
+import { computeFederal2025 } from '../../../../../src/engine/federal/2025/computeFederal2025';
+import type { StateTaxInput } from '../../../../../src/engine/types/stateTax';
+import type { ParityFixture } from '../../../../../src/engine/states/metadata/parity';
+import { dollarsToCents } from '../../../../../src/engine/util/money';
+import {
+  buildFederalInput,
+  type FederalInputDollarShape,
+} from '../../../../helpers/buildFederalInput';
+
+const $ = dollarsToCents;
+
+/**
+ * Pennsylvania 2025 golden scenarios as state inputs
+ *
+ * Shared by comprehensive.spec.ts and the metadata parity harness, so the
+ * hand-written and metadata calculators are checked against the same returns.
+ */
+const fixture = (
+  name: string,
+  federal: FederalInputDollarShape,
+  state: Partial<StateTaxInput> = {}
+): ParityFixture => ({
+  name,
+  input: {
+    federalResult: computeFederal2025(buildFederalInput(federal)),
+    state: 'PA',
+    filingStatus: federal.filingStatus,
+    stateEstPayments: 0,
+    ...state,
+  },
+});
+
+export const PA_2025_SCENARIOS = {
+  single30k: fixture(
+    'single, $30,000 wages',
+    { filingStatus: 'single', income: { wages: 30000 } },
+    { stateWithheld: $(900) }
+  ),
+  single75k: fixture(
+    'single, $75,000 wages',
+    { filingStatus: 'single', income: { wages: 75000 } },
+    { stateWithheld: $(2300) }
+  ),
+  marriedJointly200k: fixture(
+    'married jointly, $200,000 wages',
+    { filingStatus: 'marriedJointly', income: { wages: 200000 } },
+    { stateWithheld: $(6100) }
+  ),
+  single50k: fixture(
+    'single, $50,000 wages',
+    { filingStatus: 'single', income: { wages: 50000 } },
+    { stateWithheld: $(1535) }
+  ),
+  marriedJointly100kDependents: fixture(
+    'married jointly, $100,000 wages, 4 dependents',
+    { filingStatus: 'marriedJointly', dependents: 4, income: { wages: 100000 } },
+    { stateDependents: 4, stateWithheld: $(3070) }
+  ),
+  itemized: fixture(
+    'single, $80,000 wages, itemized deductions ignored',
+    {
+      filingStatus: 'single',
+      income: { wages: 80000 },
+      itemized: { stateLocalTaxes: 10000, mortgageInterest: 15000, charitable: 5000 },
+    },
+    {
+      stateWithheld: $(2456),
+      stateItemized: { propertyTaxes: $(10000), mortgageInterest: $(15000) },
+    }
+  ),
+  socialSecurityExempt: fixture(
+    'single, Social Security benefits exempt',
+    { filingStatus: 'single', income: { wages: 45000 } },
+    { stateSubtractions: { socialSecurityBenefits: $(15000) }, stateWithheld: $(921) }
+  ),
+  retirementExempt: fixture(
+    'married jointly, retirement income exempt',
+    { filingStatus: 'marriedJointly', income: { wages: 90000 } },
+    { stateSubtractions: { retirementIncome: $(50000) }, stateWithheld: $(1228) }
+  ),
+  retirementOnly: fixture(
+    'married jointly, retirement income only',
+    { filingStatus: 'marriedJointly', income: { wages: 0 } },
+    { stateSubtractions: { socialSecurityBenefits: $(30000), retirementIncome: $(40000) } }
+  ),
+  selfEmployment: fixture(
+    'single, wages and self-employment income',
+    { filingStatus: 'single', income: { wages: 50000, scheduleCNet: 25000 } },
+    { stateWithheld: $(2302) }
+  ),
+  investmentIncome: fixture(
+    'single, wages, dividends and capital gains',
+    {
+      filingStatus: 'single',
+      income: { wages: 60000, dividends: { ordinary: 2000, qualified: 3000 }, capGains: 10000 },
+    },
+    { stateWithheld: $(2302) }
+  ),
+  overpaid: fixture(
+    'single, $40,000 wages, overpaid',
+    { filingStatus: 'single', income: { wages: 40000 } },
+    { stateWithheld: $(2000) }
+  ),
+  underpaid: fixture(
+    'single, $100,000 wages, underpaid',
+    { filingStatus: 'single', income: { wages: 100000 } },
+    { stateWithheld: $(2000) }
+  ),
+  estimatedPayments: fixture(
+    'single, $50,000 wages, estimated payments',
+    { filingStatus: 'single', income: { wages: 50000 } },
+    { stateWithheld: $(1000), stateEstPayments: $(1000) }
+  ),
+  // Parity only
+  additions: fixture(
+    'single, additions to federal AGI',
+    { filingStatus: 'single', income: { wages: 40000 } },
+    {
+      stateAdditions: {
+        federalTaxRefund: $(500),
+        municipalBondInterest: $(1200),
+        otherAdditions: $(300),
+      },
+      stateSubtractions: { militaryPay: $(2000), otherSubtractions: $(100) },
+      stateWithheld: $(1000),
+      stateEstPayments: $(1000),
+    }
+  ),
+  zeroIncome: fixture(
+    'single, zero income',
+    { filingStatus: 'single', income: { wages: 0 } },
+    { stateWithheld: 0 }
+  ),
+  marriedJointly1m: fixture(
+    'married jointly, $1,000,000 wages',
+    { filingStatus: 'marriedJointly', income: { wages: 1000000 } },
+    { stateWithheld: $(30000) }
+  ),
+  businessLoss: fixture(
+    'single, business loss',
+    { filingStatus: 'single', income: { wages: 10000, scheduleCNet: -15000 } },
+    { stateWithheld: 0 }
+  ),
+};
+
+export const PA_2025_FIXTURES: ParityFixture[] = Object.values(PA_2025_SCENARIOS);
@@ -0,0 +1,131 @@
+/**
+ * Tax Plan Optimizer Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { dollarsToCents } from '../../../src/engine';
+import { optimizeTaxPlan } from '../../../src/engine/planning/optimizer';
+import { computeTaxOutcome } from '../../../src/engine/planning/whatIf';
+import type { PlanningReturn } from '../../../src/engine/planning/whatIf';
+import { buildFederalInput } from '../../helpers/buildFederalInput';
+
+const $ = dollarsToCents;
+
+const single = (
+  wages: number,
+  itemized?: { stateLocalTaxes?: number; mortgageInterest?: number }
+) => ({
+  federalInput: buildFederalInput({ filingStatus: 'single', income: { wages }, itemized }),
+});
+
+describe('Tax plan optimizer', () => {
+  it('should take every deductible contribution and rank them by savings', () => {
+    const plan = optimizeTaxPlan(single(100000), {
+      levers: [
+        { kind: 'iraContribution', max: $(7000) },
+        { kind: 'electiveDeferral', max: $(20000) },
+      ],
+    });
+
+    // $85,000 taxable drops to $58,000, all in the 22% bracket
+    expect(plan.steps.map((step) => [step.lever, step.amount])).toEqual([
+      ['electiveDeferral', $(20000)],
+      ['iraContribution', $(7000)],
+    ]);
+    expect(plan.steps[0]?.marginalSavings).toBe($(4400));
+    expect(plan.steps[1]?.marginalSavings).toBe($(1540));
+    expect(plan.totalSavings).toBe($(5940));
+    expect(plan.optimized.totalTax).toBe(plan.outcomes[0]?.totalTax);
+  });
+
+  it('should fill the bracket with a Roth conversion when the future rate is higher', () => {
+    const plan = optimizeTaxPlan(single(40000), {
+      levers: [{ kind: 'rothConversion', max: $(50000), step: $(5000), futureRate: 0.22 }],
+    });
+
+    // $25,000 taxable: converting $25,000 fills the 12% bracket ($48,475) and
+    // $1,525 more; the next $5,000 would be taxed at 22%, no better than later
+    expect(plan.steps[0]?.amount).toBe($(25000));
+    expect(plan.futureTaxAvoided).toBe($(5500));
+    expect(plan.totalSavings).toBe(-($(23475) * 0.12 + $(1525) * 0.22));
+    expect(plan.steps[0]?.marginalSavings).toBe($(5500) + plan.totalSavings);
+  });
+
+  it('should search charitable gifts with the deduction method', () => {
+    const plan = optimizeTaxPlan(
+      single(100000, { stateLocalTaxes: 10000, mortgageInterest: 4000 }),
+      {
+        levers: [{ kind: 'charitableGift', max: $(3000), step: $(1000) }],
+        tryItemizing: true,
+      }
+    );
+
+    // $17,000 itemized against the $15,000 standard deduction
+    expect(plan.steps.find((step) => step.lever === 'charitableGift')?.amount).toBe($(3000));
+    expect(plan.outcomes[0]?.federal.deductionType).toBe('itemized');
+    expect(plan.totalSavings).toBe($(440));
+    expect(plan.forceItemized).toBe(false);
+  });
+
+  it('should price forcing itemized deductions below the standard deduction', () => {
+    const plan = optimizeTaxPlan(
+      single(100000, { stateLocalTaxes: 10000, mortgageInterest: 4000 }),
+      {
+        levers: [],
+        tryItemizing: true,
+      }
+    );
+
+    expect(plan.forceItemized).toBe(false);
+    expect(plan.totalSavings).toBe(0);
+    expect(plan.steps).toEqual([
+      {
+        lever: 'deductionMethod',
+        label: 'Deduction method',
+        forceItemized: false,
+        marginalSavings: $(220),
+      },
+    ]);
+  });
+
+  it('should compare filing jointly with separate returns', () => {
+    const joint: PlanningReturn = {
+      federalInput: buildFederalInput({
+        filingStatus: 'marriedJointly',
+        income: { wages: 150000 },
+      }),
+    };
+    const taxpayer: PlanningReturn = {
+      federalInput: buildFederalInput({
+        filingStatus: 'marriedSeparately',
+        income: { wages: 100000 },
+      }),
+    };
+    const spouse: PlanningReturn = {
+      federalInput: buildFederalInput({
+        filingStatus: 'marriedSeparately',
+        income: { wages: 50000 },
+      }),
+    };
+
+    const plan = optimizeTaxPlan(joint, {
+      levers: [{ kind: 'iraContribution', max: $(7000), spouse: true }],
+      separateReturns: [taxpayer, spouse],
+    });
+
+    const separate =
+      computeTaxOutcome(taxpayer).totalTax +
+      computeTaxOutcome(spouse, {
+        federal: (input) => ({
+          ...input,
+          adjustments: { ...input.adjustments, iraDeduction: $(7000) },
+        }),
+      }).totalTax;
+    const filing = plan.steps.find((step) => step.lever === 'filingStatus');
+
+    expect(plan.filingStatus).toBe('marriedJointly');
+    expect(plan.outcomes).toHaveLength(1);
+    expect(filing?.marginalSavings).toBe(separate - plan.optimized.totalTax);
+    expect(filing?.marginalSavings).toBeGreaterThan(0);
+  });
+});
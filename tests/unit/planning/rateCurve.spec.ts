@@ -0,0 +1,147 @@
+/**
+ * Marginal and Effective Rate Curve Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { dollarsToCents } from '../../../src/engine';
+import { computeRateCurve } from '../../../src/engine/planning/rateCurve';
+import type { PlanningReturn } from '../../../src/engine/planning/whatIf';
+import type { QualifyingChild } from '../../../src/engine/types';
+import { buildFederalInput } from '../../helpers/buildFederalInput';
+
+const $ = dollarsToCents;
+
+const child: QualifyingChild = {
+  name: 'Child',
+  birthDate: '2018-05-01',
+  relationship: 'son',
+  monthsLivedWithTaxpayer: 12,
+  isStudent: false,
+  isPermanentlyDisabled: false,
+  providedOwnSupport: false,
+};
+
+// Single, $100,000 wages in Illinois: $85,000 taxable, in the 22% bracket
+const single100k: PlanningReturn = {
+  federalInput: buildFederalInput({ filingStatus: 'single', income: { wages: 100000 } }),
+  buildStateInput: (federalResult) => ({
+    federalResult,
+    state: 'IL',
+    filingStatus: 'single',
+    stateWithheld: 0,
+  }),
+};
+
+describe('Marginal rate curve', () => {
+  it('should match the bracket and flat state rates when nothing phases out', () => {
+    const curve = computeRateCurve({
+      planning: single100k,
+      incomeType: 'wages',
+      to: $(10000),
+      step: $(5000),
+    });
+
+    expect(curve.points.map((point) => point.amount)).toEqual([0, $(5000), $(10000)]);
+    for (const point of curve.points) {
+      expect(point.federalMarginalRate).toBeCloseTo(0.22, 6);
+      expect(point.stateMarginalRate).toBeCloseTo(0.0495, 6);
+      expect(point.marginalRate).toBeCloseTo(0.2695, 6);
+      expect(point.bracketRate).toBe(0.22);
+      expect(point.effects).toEqual([]);
+    }
+    expect(curve.points[0]?.effectiveRate).toBe(curve.points[0]!.totalTax / curve.points[0]!.agi);
+    expect(curve.points[2]?.agi).toBe($(110000));
+    expect(curve.averageMarginalRate).toBeCloseTo(0.2695, 6);
+  });
+
+  it('should add the earned income credit phaseout to the bracket rate', () => {
+    const curve = computeRateCurve({
+      planning: {
+        federalInput: {
+          ...buildFederalInput({
+            filingStatus: 'headOfHousehold',
+            dependents: 1,
+            income: { wages: 30000 },
+          }),
+          qualifyingChildren: [child],
+        },
+      },
+      incomeType: 'wages',
+      to: $(2000),
+      step: $(1000),
+    });
+
+    const point = curve.points[0]!;
+    const eitc = point.effects.find((effect) => effect.item === 'credits.eitc');
+    expect(eitc?.change).toBeLessThan(0);
+    expect(point.bracketRate).toBe(0.1);
+    // 10% bracket plus the 15.98% one-child phaseout
+    expect(point.federalMarginalRate).toBeCloseTo(0.1 + 0.1598, 2);
+  });
+
+  it('should show the student loan interest phaseout', () => {
+    const curve = computeRateCurve({
+      planning: {
+        federalInput: buildFederalInput({
+          filingStatus: 'single',
+          income: { wages: 80000 },
+          adjustments: { studentLoanInterest: 2500 },
+        }),
+      },
+      incomeType: 'wages',
+      to: $(15000),
+      step: $(5000),
+    });
+
+    // The $2,500 deduction phases out between $80,000 and $95,000 of MAGI
+    const point = curve.points[0]!;
+    const deduction = point.effects.find(
+      (effect) => effect.item === 'studentLoanInterestDeduction'
+    );
+    expect(deduction?.baseline).toBe($(2500));
+    expect(deduction?.change).toBeCloseTo(-$(2500) / 3, -2);
+    expect(point.federalMarginalRate).toBeCloseTo(0.22 * (1 + 2500 / 15000), 3);
+    expect(curve.points[3]?.effects).toEqual([]);
+    expect(curve.peak.marginalRate).toBeGreaterThan(0.22);
+  });
+
+  it('should stack long-term gains on ordinary income', () => {
+    const curve = computeRateCurve({
+      planning: {
+        federalInput: buildFederalInput({ filingStatus: 'single', income: { wages: 30000 } }),
+      },
+      incomeType: 'longTermGains',
+      to: $(40000),
+      step: $(10000),
+    });
+
+    // $15,000 ordinary taxable income; gains are taxed at 0% up to $48,350
+    expect(curve.points[0]?.marginalRate).toBe(0);
+    expect(curve.points[3]?.marginalRate).toBeCloseTo((6650 * 0.15) / 10000, 6);
+    expect(curve.points[4]?.marginalRate).toBeCloseTo(0.15, 6);
+  });
+
+  it('should include self-employment tax and IRA distributions', () => {
+    const planning: PlanningReturn = {
+      federalInput: buildFederalInput({ filingStatus: 'single', income: { wages: 100000 } }),
+    };
+    const se = computeRateCurve({
+      planning,
+      incomeType: 'selfEmployment',
+      to: $(10000),
+      step: $(10000),
+    });
+    const ira = computeRateCurve({
+      planning,
+      incomeType: 'iraDistribution',
+      to: $(10000),
+      step: $(10000),
+    });
+
+    // SE tax on 92.35% of profit, with half of it deducted at 22%
+    const seTax = 0.9235 * 0.153;
+    expect(se.points[0]?.federalMarginalRate).toBeCloseTo(seTax + 0.22 * (1 - seTax / 2), 6);
+    expect(ira.points[0]?.federalMarginalRate).toBeCloseTo(0.22, 6);
+    expect(() => computeRateCurve({ planning, incomeType: 'wages', to: 0 })).toThrow('range');
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Multi-Year Roth Conversion Planner Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { dollarsToCents } from '../../../src/engine';
+import {
+  irmaaTier,
+  planRothConversions,
+  requiredMinimumDistribution,
+} from '../../../src/engine/planning/rothConversion';
+import type { PlanningReturn } from '../../../src/engine/planning/whatIf';
+import { buildFederalInput } from '../../helpers/buildFederalInput';
+
+const $ = dollarsToCents;
+
+// Single retiree born in 1955: age 70 in 2025, RMDs from 2028 (age 73)
+const retiree: PlanningReturn = {
+  federalInput: {
+    ...buildFederalInput({ filingStatus: 'single', income: { interest: 5000 } }),
+    primary: { birthDate: '1955-03-01' },
+  },
+  taxYear: 2025,
+};
+
+describe('Roth conversion planner', () => {
+  it('should fill the target bracket each year and start RMDs at 73', () => {
+    const plan = planRothConversions({
+      planning: retiree,
+      traditionalBalance: $(800000),
+      years: 4,
+      targetRate: 0.22,
+      socialSecurity: { startYear: 2025, annualBenefit: $(30000) },
+    });
+
+    const [first, , , fourth] = plan.years;
+    expect(first?.bracketTop).toBe($(103350));
+    expect(first?.limitedBy).toBe('bracket');
+    expect(first?.ordinaryTaxableIncome).toBeLessThanOrEqual($(103350));
+    expect(first?.ordinaryTaxableIncome).toBeGreaterThan($(103350) - $(100));
+    expect(first?.marginalRate).toBe(0.22);
+    expect(first?.rmd).toBe(0);
+    // Converting makes 85% of Social Security taxable, which also fills the bracket
+    const taxableSS = first?.effects.find((effect) => effect.item === 'taxableSocialSecurity');
+    expect(taxableSS?.scenario).toBe($(25500));
+    expect(first?.withConversion.federal.agi).toBe(first!.conversion + $(5000) + $(25500));
+    // No credits or NIIT: the whole federal cost is bracket tax
+    expect(first?.federalCost).toBe(first?.bracketTax);
+
+    expect(fourth?.taxYear).toBe(2028);
+    expect(fourth?.rmd).toBe(Math.round(fourth!.startingBalance / 26.5));
+    expect(fourth!.conversion).toBeLessThan(first!.conversion);
+    expect(plan.finalTraditionalBalance).toBe($(800000) - plan.totalConverted - plan.totalRmd);
+  });
+
+  it('should keep conversions under an IRMAA threshold when asked', () => {
+    const options = {
+      planning: retiree,
+      traditionalBalance: $(800000),
+      years: 1,
+      targetRate: 0.24,
+      socialSecurity: { startYear: 2025, annualBenefit: $(30000) },
+    };
+
+    const uncapped = planRothConversions(options).years[0]!;
+    const capped = planRothConversions({ ...options, maxIrmaaTier: 0 }).years[0]!;
+
+    expect(uncapped.irmaa.tier).toBeGreaterThan(0);
+    expect(uncapped.irmaa.premiumYear).toBe(2027);
+    expect(uncapped.irmaaIncrease).toBeGreaterThan(0);
+    expect(capped.limitedBy).toBe('irmaa');
+    expect(capped.irmaa.tier).toBe(0);
+    expect(capped.irmaa.magi).toBeLessThanOrEqual($(106000));
+    expect(capped.irmaa.magi).toBeGreaterThan($(106000) - $(100));
+  });
+
+  it('should stop converting when the IRA is empty', () => {
+    const plan = planRothConversions({
+      planning: retiree,
+      traditionalBalance: $(20000),
+      years: 2,
+      targetRate: 0.12,
+    });
+
+    expect(plan.years[0]?.conversion).toBe($(20000));
+    expect(plan.years[0]?.limitedBy).toBe('balance');
+    expect(plan.years[1]?.conversion).toBe(0);
+  });
+
+  it('should reject a rate with no bracket and a missing birth date', () => {
+    expect(() =>
+      planRothConversions({ planning: retiree, traditionalBalance: 0, years: 1, targetRate: 0.2 })
+    ).toThrow('no 20% federal bracket');
+    expect(() =>
+      planRothConversions({
+        planning: { federalInput: buildFederalInput({ filingStatus: 'single' }) },
+        traditionalBalance: 0,
+        years: 1,
+        targetRate: 0.22,
+      })
+    ).toThrow('birth date');
+  });
+
+  it('should look up RMD ages and IRMAA tiers', () => {
+    expect(requiredMinimumDistribution($(265000), 73, 1952)).toBe($(10000));
+    expect(requiredMinimumDistribution($(265000), 73, 1960)).toBe(0);
+    expect(irmaaTier($(106000), 'single')).toBe(0);
+    expect(irmaaTier($(150000), 'single')).toBe(2);
+    expect(irmaaTier($(150000), 'marriedSeparately')).toBe(1);
+  });
+});
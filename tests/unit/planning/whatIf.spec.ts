@@ -0,0 +1,143 @@
+/**
+ * What-If Planning Scenario Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { dollarsToCents } from '../../../src/engine';
+import { runWhatIf, runWhatIfScenarios } from '../../../src/engine/planning/whatIf';
+import type { PlanningReturn } from '../../../src/engine/planning/whatIf';
+import type { QualifyingChild } from '../../../src/engine/types';
+import { buildFederalInput } from '../../helpers/buildFederalInput';
+
+const $ = dollarsToCents;
+
+const child: QualifyingChild = {
+  name: 'Child',
+  birthDate: '2018-05-01',
+  relationship: 'daughter',
+  monthsLivedWithTaxpayer: 12,
+  isStudent: false,
+  isPermanentlyDisabled: false,
+  providedOwnSupport: false,
+};
+
+// Single, $100,000 wages: $85,000 taxable, in the 22% bracket
+const single100k: PlanningReturn = {
+  federalInput: buildFederalInput({ filingStatus: 'single', income: { wages: 100000 } }),
+};
+
+describe('What-if planning scenarios', () => {
+  it('should compute elective deferral savings with the engine', () => {
+    const result = runWhatIf(single100k, { kind: 'electiveDeferral', amount: $(10000) });
+
+    expect(result.projected.federal.taxableIncome).toBe($(75000));
+    expect(result.federalSavings).toBe($(2200));
+    expect(result.stateSavings).toBe(0);
+    expect(result.effects.map((e) => e.item)).toEqual(['agi', 'taxableIncome']);
+  });
+
+  it('should add state savings from the state calculator', () => {
+    const result = runWhatIf(
+      {
+        ...single100k,
+        buildStateInput: (federalResult) => ({
+          federalResult,
+          state: 'IL',
+          filingStatus: 'single',
+          stateWithheld: 0,
+        }),
+      },
+      { kind: 'hsaContribution', amount: $(4300) }
+    );
+
+    // Illinois 4.95% flat rate on federal AGI
+    expect(result.stateSavings).toBe($(212.85));
+    expect(result.federalSavings).toBe($(946));
+    expect(result.totalSavings).toBe(result.federalSavings + result.stateSavings);
+  });
+
+  it('should include earned income credit phaseout effects', () => {
+    const result = runWhatIf(
+      {
+        federalInput: {
+          ...buildFederalInput({
+            filingStatus: 'headOfHousehold',
+            dependents: 1,
+            income: { wages: 35000 },
+          }),
+          qualifyingChildren: [child],
+        },
+      },
+      { kind: 'electiveDeferral', amount: $(5000) }
+    );
+
+    const eitc = result.effects.find((e) => e.item === 'credits.eitc');
+    expect(eitc?.change).toBeGreaterThan(0);
+    // $5,000 less taxable income in the 10% bracket, plus the higher credit
+    expect(result.federalSavings).toBe($(500) + (eitc?.change ?? 0));
+  });
+
+  it('should show a Roth conversion as a tax cost', () => {
+    const result = runWhatIf(single100k, { kind: 'rothConversion', amount: $(10000) });
+
+    expect(result.projected.federal.taxableRetirementDistributions).toBe($(10000));
+    expect(result.projected.federal.additionalTaxes?.earlyDistributionTax ?? 0).toBe(0);
+    expect(result.federalSavings).toBe(-$(2200));
+  });
+
+  it('should compare charitable bunching over the whole cycle', () => {
+    const planning: PlanningReturn = {
+      federalInput: buildFederalInput({
+        filingStatus: 'marriedJointly',
+        income: { wages: 200000 },
+        itemized: { stateLocalTaxes: 10000, mortgageInterest: 8000, charitable: 10000 },
+      }),
+    };
+
+    const result = runWhatIf(planning, {
+      kind: 'charitableBunching',
+      annualGift: $(10000),
+      years: 3,
+    });
+
+    // Standard deduction every year, against $48,000 itemized once and the
+    // standard deduction for the other two years
+    const standard = result.baseline.federal.standardDeduction;
+    expect(result.baseline.federal.deductionType).toBe('standard');
+    expect(result.projected.federal.itemizedDeduction).toBe($(48000));
+    expect(result.deductionTypeChanged).toBe(true);
+    expect(result.years).toBe(3);
+    expect(result.federalSavings).toBe(Math.round(($(48000) - standard) * 0.22));
+  });
+
+  it('should limit a harvested loss above gains to $3,000 and carry over the rest', () => {
+    const result = runWhatIf(
+      {
+        federalInput: buildFederalInput({
+          filingStatus: 'single',
+          income: { wages: 100000, capGains: 1000 },
+        }),
+      },
+      { kind: 'taxLossHarvest', amount: $(20000) }
+    );
+
+    // $1,000 gain at 15% is offset, and $3,000 of the $19,000 net loss is deducted at 22%
+    expect(result.projected.federal.agi).toBe($(97000));
+    expect(result.federalSavings).toBe($(810));
+    expect(result.projected.federal.scheduleDDetails?.carryoverToNextYear).toEqual({
+      shortTerm: $(16000),
+      longTerm: 0,
+    });
+  });
+
+  it('should run each scenario against the return as entered', () => {
+    const [harvest, deferral] = runWhatIfScenarios(single100k, [
+      { kind: 'taxLossHarvest', amount: $(3000) },
+      { kind: 'electiveDeferral', amount: $(10000) },
+    ]);
+
+    expect(harvest?.federalSavings).toBe($(660));
+    expect(deferral?.baseline).toBe(harvest?.baseline);
+    expect(deferral?.federalSavings).toBe($(2200));
+  });
+});
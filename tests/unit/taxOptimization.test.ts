@@ -140,6 +140,7 @@ describe('Tax Optimization - Business Expenses', () => {
 
     personalInfo.filingStatus = 'single';
     incomeData.wages = '30000';
+    incomeData.businessIncome = '45000'; // Schedule C net profit
     businessDetails.grossReceipts = '80000';
     businessDetails.costOfGoodsSold = '20000';
     businessDetails.businessExpenses = '15000';
@@ -0,0 +1,192 @@
+/**
+ * Trace Exporter Tests
+ */
+
+import { EventEmitter } from 'events';
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createTracePDFDefinition,
+  exportTraceToPDF,
+  exportTraceToText,
+} from '../../../src/engine/trace/exporters';
+import { createFederalTrace } from '../../../src/engine/trace/federalTrace';
+import { computeFederal2025 } from '../../../src/engine/federal/2025/computeFederal2025';
+import type { CalculationTrace } from '../../../src/engine/trace/types';
+import { buildFederalInput } from '../../helpers/buildFederalInput';
+
+function makeTrace(): CalculationTrace {
+  const input = buildFederalInput({
+    filingStatus: 'single',
+    income: { wages: 75000 },
+    payments: { federalWithheld: 9000 },
+  });
+  const result = computeFederal2025(input);
+
+  return {
+    metadata: {
+      taxYear: 2025,
+      calculatedAt: '2026-02-01T12:00:00.000Z',
+      engineVersion: '1.0.0',
+      taxpayerId: '***-**-1234',
+      filingStatus: 'single',
+    },
+    federal: {
+      sections: createFederalTrace(input, result),
+      summary: {
+        agi: result.agi,
+        taxableIncome: result.taxableIncome,
+        totalTax: result.totalTax,
+        totalPayments: result.totalPayments,
+        refundOrOwe: result.refundOrOwe,
+      },
+    },
+    state: {
+      stateCode: 'CA',
+      sections: [
+        {
+          id: 'ca_tax',
+          title: 'California Tax',
+          formReference: 'Form 540',
+          entries: [
+            {
+              step: 'ca_tax',
+              description: 'California tax from brackets',
+              formReference: 'Form 540, Line 31',
+              result: 298416,
+              timestamp: '2026-02-01T12:00:00.000Z',
+            },
+          ],
+        },
+      ],
+      summary: {
+        stateAGI: 7500000,
+        stateTaxableIncome: 6915100,
+        stateTax: 298416,
+        stateRefundOrOwe: 0,
+      },
+    },
+    diagnostics: [{ code: 'CALC-W-001', severity: 'warning', message: 'Example warning' }],
+  };
+}
+
+describe('exportTraceToPDF', () => {
+  it('should start with a cover page showing the summary and sign-off block', () => {
+    const trace = makeTrace();
+    const doc = createTracePDFDefinition(trace, { preparer: 'A. Preparer' });
+    const content = doc.content as Array<Record<string, unknown>>;
+    const cover = JSON.stringify(content.slice(0, 5));
+
+    expect(content[0]).toMatchObject({ text: '2025 Tax Calculation Workpaper' });
+    expect(cover).toContain('Single');
+    expect(cover).toContain('***-**-1234');
+    expect(cover).toContain(exportTraceToText(trace).match(/AGI:\s+(\S+)/)![1]!);
+    expect(cover).toContain('CA Summary');
+    expect(cover).toContain('Prepared by');
+    expect(cover).toContain('A. Preparer');
+    expect(cover).toContain('Reviewed by');
+  });
+
+  it('should render each trace section as a titled table on its own page', () => {
+    const trace = makeTrace();
+    const doc = createTracePDFDefinition(trace);
+    const content = doc.content as Array<Record<string, unknown>>;
+
+    const titles = content.filter((c) => c.style === 'sectionHeader').map((c) => c.text);
+    expect(titles).toEqual([
+      ...trace.federal.sections.map((s) => s.title),
+      'CA: California Tax',
+      'Diagnostics',
+    ]);
+    expect(content.filter((c) => c.pageBreak === 'before')).toHaveLength(titles.length);
+
+    const section = trace.federal.sections[0]!;
+    const sectionIndex = content.findIndex((c) => c.text === section.title);
+    const table = content[sectionIndex + 2]!.table as { body: unknown[][] };
+    expect(JSON.stringify(table.body[0])).toContain('Form / Line');
+    expect(table.body).toHaveLength(
+      1 + section.entries.length + (section.total !== undefined ? 1 : 0)
+    );
+
+    const entry = section.entries[0]!;
+    const row = JSON.stringify(table.body[1]);
+    expect(row).toContain(entry.description);
+    expect(row).toContain(entry.formReference!);
+  });
+
+  it('should include formulas, inputs and citations for each entry', () => {
+    const trace = makeTrace();
+    const serialized = JSON.stringify(createTracePDFDefinition(trace).content);
+    const entries = trace.federal.sections.flatMap((s) => s.entries);
+
+    const withFormula = entries.find((e) => e.formula)!;
+    expect(serialized).toContain(JSON.stringify(withFormula.formula).slice(1, -1));
+
+    const withInputs = entries.find((e) => e.inputs && Object.keys(e.inputs).length > 0)!;
+    const [key, value] = Object.entries(withInputs.inputs!)[0]!;
+    expect(serialized).toContain(`${key}: ${String(value)}`);
+
+    const withCitation = entries.find((e) => e.citation);
+    if (withCitation) {
+      expect(serialized).toContain(JSON.stringify(withCitation.citation).slice(1, -1));
+    }
+  });
+
+  it('should apply the confidential watermark from the security options', () => {
+    const trace = makeTrace();
+
+    expect(createTracePDFDefinition(trace).watermark).toBeUndefined();
+    expect(
+      createTracePDFDefinition(trace, {
+        security: { watermark: 'CONFIDENTIAL', watermarkOpacity: 0.2 },
+      }).watermark
+    ).toMatchObject({ text: 'CONFIDENTIAL', opacity: 0.2 });
+  });
+
+  it('should return the PDF bytes from the injected pdfmake instance', async () => {
+    const stream = new EventEmitter() as EventEmitter & { end(): void };
+    stream.end = () => {
+      stream.emit('data', new Uint8Array([37, 80]));
+      stream.emit('data', new Uint8Array([68]));
+      stream.emit('end');
+    };
+    const createPdf = vi.fn().mockReturnValue({ getStream: () => stream });
+    const pdfMake = { createPdf } as unknown as typeof import('pdfmake/build/pdfmake');
+
+    const bytes = await exportTraceToPDF(makeTrace(), { pdfMake });
+
+    expect(createPdf).toHaveBeenCalledWith(
+      expect.objectContaining({ pageOrientation: 'landscape' })
+    );
+    expect(Array.from(bytes)).toEqual([37, 80, 68]);
+  });
+
+  it('should reject when pdfmake fails', async () => {
+    const stream = new EventEmitter() as EventEmitter & { end(): void };
+    stream.end = () => stream.emit('error', new Error('write failed'));
+    const failing = { createPdf: () => ({ getStream: () => stream }) };
+    const throwing = {
+      createPdf: () => ({
+        getStream: () => {
+          throw new Error('layout failed');
+        },
+      }),
+    };
+
+    await expect(
+      exportTraceToPDF(makeTrace(), {
+        pdfMake: failing as unknown as typeof import('pdfmake/build/pdfmake'),
+      })
+    ).rejects.toThrow('write failed');
+    await expect(
+      exportTraceToPDF(makeTrace(), {
+        pdfMake: throwing as unknown as typeof import('pdfmake/build/pdfmake'),
+      })
+    ).rejects.toThrow('layout failed');
+  });
+
+  it('should generate a PDF file with pdfmake', async () => {
+    const bytes = await exportTraceToPDF(makeTrace(), { security: { watermark: 'CONFIDENTIAL' } });
+
+    expect(new TextDecoder().decode(bytes.slice(0, 5))).toBe('%PDF-');
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Broker 1099 Importer Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseBrokerCSV,
+  parseTXF,
+  parseBrokerFile,
+  previewBrokerImport,
+  mergeBrokerImport,
+  registerBrokerProfile,
+  type ImportedTransaction,
+} from '../../../src/utils/brokerImport';
+
+const CONSOLIDATED_CSV = [
+  'Form 1099-B',
+  'Description,Symbol,Quantity,Date Acquired,Date Sold,Proceeds,Cost Basis,Wash Sale Loss Disallowed,Term',
+  '"Apple Inc., common",AAPL,10,03/15/2024,01/10/2025,"$5,200.00","$4,800.00",,Long',
+  'Tesla Inc.,TSLA,5,11/20/2024,01/15/2025,3100.00,3400.00,100.00,Short',
+  'Bad row,XYZ,1,02/30/2024,01/15/2025,abc,10.00,,Short',
+  '',
+  'Form 1099-DIV',
+  'Box 1a Total ordinary dividends,"1,250.00"',
+  'Box 1b Qualified dividends,900.00',
+  'Box 7 Foreign tax paid,12.50',
+  'Form 1099-INT',
+  'Box 1 Interest income,310.25',
+].join('\n');
+
+describe('parseBrokerCSV', () => {
+  it('should map named columns, dates and wash sale amounts', () => {
+    const result = parseBrokerCSV(CONSOLIDATED_CSV);
+
+    expect(result.profile).toBe('generic');
+    expect(result.transactions).toHaveLength(2);
+    expect(result.transactions[0]).toEqual({
+      line: 3,
+      description: 'Apple Inc., common',
+      symbol: 'AAPL',
+      quantity: 10,
+      dateAcquired: '2024-03-15',
+      dateSold: '2025-01-10',
+      proceeds: 5200,
+      costBasis: 4800,
+      term: 'long',
+    });
+    expect(result.transactions[1]).toMatchObject({ line: 4, washSaleLossDisallowed: 100 });
+  });
+
+  it('should report row errors with line numbers', () => {
+    const { errors } = parseBrokerCSV(CONSOLIDATED_CSV);
+
+    expect(errors).toEqual([
+      { line: 5, field: 'proceeds', message: 'Proceeds "abc" is not a number' },
+      { line: 5, field: 'dateAcquired', message: 'Date acquired "02/30/2024" is not a valid date' },
+    ]);
+  });
+
+  it('should read 1099-DIV and 1099-INT sections', () => {
+    const { dividends, interest } = parseBrokerCSV(CONSOLIDATED_CSV);
+
+    expect(dividends).toMatchObject({ ordinary: 1250, qualified: 900, foreignTaxPaid: 12.5 });
+    expect(interest).toMatchObject({ interest: 310.25 });
+  });
+
+  it('should flag a gain/loss column that does not reconcile', () => {
+    const { errors } = parseBrokerCSV(
+      'Description,Date Sold,Proceeds,Cost,Gain/Loss\nXYZ,2025-05-01,100,80,25'
+    );
+
+    expect(errors[0]).toMatchObject({ line: 2, field: 'gainLoss' });
+  });
+
+  it('should use a registered broker profile', () => {
+    registerBrokerProfile({
+      id: 'test-broker',
+      name: 'Test Broker',
+      signature: ['sec', 'px sold'],
+      columns: {
+        description: ['sec'],
+        dateSold: ['sold on'],
+        proceeds: ['px sold'],
+        costBasis: ['px paid'],
+      },
+    });
+
+    const result = parseBrokerCSV('SEC,Sold On,PX Sold,PX Paid\nACME,2025-02-03,50,40');
+
+    expect(result.profile).toBe('test-broker');
+    expect(result.transactions[0]).toMatchObject({
+      description: 'ACME',
+      dateAcquired: 'VARIOUS',
+      proceeds: 50,
+      costBasis: 40,
+    });
+  });
+});
+
+describe('parseTXF', () => {
+  const TXF = [
+    'V042',
+    'ABroker Export',
+    'D02/01/2026',
+    '^',
+    'TD',
+    'N712',
+    'C1',
+    'L1',
+    'P10 sh. XYZ',
+    'D01/02/2025',
+    'D03/03/2025',
+    '$500.00',
+    '$400.00',
+    '$50.00',
+    '^',
+    'TD',
+    'N713',
+    'P5 sh. ABC',
+    'DVarious',
+    'D06/30/2025',
+    '$1000.00',
+    '$1500.00',
+    '^',
+  ].join('\n');
+
+  it('should read sale records with their Form 8949 box', () => {
+    const result = parseTXF(TXF);
+
+    expect(result.errors).toEqual([]);
+    expect(result.transactions).toEqual([
+      {
+        line: 5,
+        description: '10 sh. XYZ',
+        dateAcquired: '2025-01-02',
+        dateSold: '2025-03-03',
+        proceeds: 400,
+        costBasis: 500,
+        washSaleLossDisallowed: 50,
+        term: 'short',
+        basisReportedToIRS: false,
+      },
+      {
+        line: 16,
+        description: '5 sh. ABC',
+        dateAcquired: 'VARIOUS',
+        dateSold: '2025-06-30',
+        proceeds: 1500,
+        costBasis: 1000,
+        term: 'long',
+        basisReportedToIRS: true,
+      },
+    ]);
+  });
+
+  it('should be chosen from the file extension', () => {
+    expect(parseBrokerFile('export.txf', TXF).format).toBe('txf');
+    expect(parseBrokerFile('export.csv', CONSOLIDATED_CSV).format).toBe('csv');
+  });
+});
+
+describe('previewBrokerImport / mergeBrokerImport', () => {
+  interface Entry {
+    description: string;
+    dateAcquired: string;
+    dateSold: string;
+    proceeds: number;
+    cost: number;
+  }
+  const toImported = (e: Entry) => ({ ...e, costBasis: e.cost });
+  const fromImported = (row: ImportedTransaction): Entry => ({
+    description: row.description,
+    dateAcquired: row.dateAcquired,
+    dateSold: row.dateSold,
+    proceeds: row.proceeds,
+    cost: row.costBasis,
+  });
+
+  const row = (overrides: Partial<ImportedTransaction>): ImportedTransaction => ({
+    line: 2,
+    description: 'AAPL',
+    dateAcquired: '2024-03-15',
+    dateSold: '2025-01-10',
+    proceeds: 5200,
+    costBasis: 4800,
+    ...overrides,
+  });
+
+  it('should separate added, changed and unchanged rows', () => {
+    const existing: Entry[] = [
+      {
+        description: 'AAPL',
+        dateAcquired: '2024-03-15',
+        dateSold: '2025-01-10',
+        proceeds: 5200,
+        cost: 4800,
+      },
+      {
+        description: 'TSLA',
+        dateAcquired: '2024-11-20',
+        dateSold: '2025-01-15',
+        proceeds: 3100,
+        cost: 3300,
+      },
+    ];
+    const imported = [
+      row({}),
+      row({
+        line: 3,
+        description: 'TSLA',
+        dateAcquired: '2024-11-20',
+        dateSold: '2025-01-15',
+        proceeds: 3100,
+        costBasis: 3400,
+      }),
+      row({ line: 4, description: 'VTI', dateSold: '2025-02-01' }),
+    ];
+
+    const preview = previewBrokerImport(existing, imported, toImported);
+
+    expect(preview.unchanged.map((r) => r.line)).toEqual([2]);
+    expect(preview.changed.map((c) => c.existing.description)).toEqual(['TSLA']);
+    expect(preview.added.map((r) => r.line)).toEqual([4]);
+
+    const merged = mergeBrokerImport(existing, preview, fromImported);
+    expect(merged.map((e) => [e.description, e.cost])).toEqual([
+      ['AAPL', 4800],
+      ['TSLA', 3400],
+      ['VTI', 4800],
+    ]);
+
+    const kept = mergeBrokerImport(existing, preview, fromImported, false);
+    expect(kept[1]!.cost).toBe(3300);
+  });
+});
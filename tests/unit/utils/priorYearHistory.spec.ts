@@ -0,0 +1,135 @@
+/**
+ * Prior-Year Return History Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeFederal2025 } from '../../../src/engine/federal/2025/computeFederal2025';
+import type { OriginalReturnSnapshot } from '../../../src/engine/types';
+import type { PriorYearReturn } from '../../../src/types/ui/comparison';
+import {
+  buildYearHistory,
+  parsePriorYearExport,
+  priorYearReturnFromFiled,
+  upsertPriorYearReturn,
+} from '../../../src/utils/priorYearHistory';
+import { buildFederalInput } from '../../helpers/buildFederalInput';
+
+const APP_EXPORT = {
+  personalInfo: { firstName: 'Ada', filingStatus: 'marriedJointly' },
+  deductions: { useStandardDeduction: true },
+  taxResult: {
+    adjustedGrossIncome: 120000,
+    taxableIncome: 90800,
+    federalTax: 10400,
+    totalTax: 16900,
+    balance: -850,
+    standardDeduction: 29200,
+    itemizedDeduction: 0,
+    deductionType: 'standard',
+    marginalRate: 0.12,
+  },
+  timestamp: '2025-04-01T12:00:00.000Z',
+};
+
+const manual = (taxYear: number, agi: number): PriorYearReturn => ({
+  taxYear,
+  source: 'manual',
+  filingStatus: 'single',
+  agi,
+  taxableIncome: agi - 15000,
+  totalTax: 8000,
+  refundOrOwe: 500,
+});
+
+describe('priorYearHistory', () => {
+  it('should summarize a filed return with its carryovers', () => {
+    const input = {
+      ...buildFederalInput({
+        filingStatus: 'single',
+        income: { wages: 50000 },
+        payments: { federalWithheld: 6000 },
+      }),
+      capitalLossCarryover: { shortTerm: 0, longTerm: 1000000 },
+      nolCarryforwards: [
+        { taxYear: 2022, originalNOL: 10000000, remainingNOL: 10000000, source: 'manual' as const },
+      ],
+    };
+    const result = computeFederal2025(input);
+    const original: OriginalReturnSnapshot = {
+      taxYear: 2025,
+      filedAt: '2026-04-01T00:00:00.000Z',
+      input,
+      result,
+    };
+
+    const record = priorYearReturnFromFiled(original);
+
+    expect(record.source).toBe('filed');
+    expect(record.agi).toBe(Math.round(result.agi / 100));
+    // $10,000 carried in, $3,000 allowed
+    expect(record.carryovers?.capitalLoss).toBe(7000);
+    expect(record.carryovers?.nol).toBe(Math.round((10000000 - (result.nolDeduction ?? 0)) / 100));
+    expect(parsePriorYearExport(JSON.stringify(original))).toEqual(record);
+  });
+
+  it('should read the JSON export with the tax year supplied', () => {
+    const record = parsePriorYearExport(JSON.stringify(APP_EXPORT), 2024);
+
+    expect(record).toEqual({
+      taxYear: 2024,
+      source: 'import',
+      filingStatus: 'marriedJointly',
+      agi: 120000,
+      taxableIncome: 90800,
+      totalTax: 10400,
+      refundOrOwe: -850,
+      deductions: 29200,
+      marginalRate: 12,
+    });
+  });
+
+  it('should reject files that are not returns or have no tax year', () => {
+    expect(() => parsePriorYearExport('not json')).toThrow('not valid JSON');
+    expect(() => parsePriorYearExport('{"foo":1}', 2024)).toThrow('does not contain');
+    expect(() => parsePriorYearExport(JSON.stringify(APP_EXPORT))).toThrow('tax year');
+  });
+
+  it('should replace a year and keep history in order', () => {
+    const history = upsertPriorYearReturn(
+      [manual(2024, 70000), manual(2022, 60000)],
+      manual(2024, 75000)
+    );
+
+    expect(history.map((row) => row.taxYear)).toEqual([2022, 2024]);
+    expect(history[1]?.agi).toBe(75000);
+  });
+
+  it('should chart only real years within the period', () => {
+    const years = buildYearHistory(
+      [manual(2019, 40000), manual(2022, 60000), manual(2024, 70000)],
+      {
+        taxYear: 2025,
+        taxResult: {
+          adjustedGrossIncome: 80000,
+          taxableIncome: 65000,
+          federalTax: 8000,
+          balance: -200,
+          marginalRate: 0.22,
+        },
+        deductions: { useStandardDeduction: true, standardDeduction: 15000 },
+      },
+      5
+    );
+
+    expect(years.map((row) => row.year)).toEqual([2022, 2024, 2025]);
+    expect(years[2]).toMatchObject({
+      source: 'current',
+      effectiveRate: 10,
+      marginalRate: 22,
+      refund: -200,
+    });
+    // 2024 single brackets: $55,000 taxable is in the 22% bracket
+    expect(years[1]?.marginalRate).toBe(22);
+    expect(years[1]?.effectiveRate).toBeCloseTo(11.43, 2);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * W-2 Importer Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { importW2FormsCSV } from '../../../src/utils/w2Import';
+
+const $ = (amount: number) => Math.round(amount * 100);
+
+const PAYROLL_CSV = [
+  'Employee,Employer,Box 1,Box 2,Box 3,Box 4,Box 5,Box 6,Box 12a Code,Box 12a Amount,Box 12 W,Retirement plan,Box 14 SDI,State,State wages,State withholding,Locality,Local withholding,State 2,State wages 2,State withholding 2',
+  'taxpayer,Acme Corp,"85,000.00",9000,90000,5580,90000,1305,D,5000,1200,X,1100,NY,60000,3000,NYC,1500,NJ,30000,900',
+  'spouse,Beta LLC,40000,3000,40000,2480,40000,580,DD,8000,,,,CA,40000,1200,,,,,',
+].join('\n');
+
+describe('importW2FormsCSV', () => {
+  it('should map every box into a W-2 in cents', () => {
+    const { w2s, errors } = importW2FormsCSV(PAYROLL_CSV);
+
+    expect(errors).toEqual([]);
+    expect(w2s[0]).toMatchObject({
+      employee: 'taxpayer',
+      employerName: 'Acme Corp',
+      wages: $(85000),
+      federalWithheld: $(9000),
+      socialSecurityWages: $(90000),
+      socialSecurityTaxWithheld: $(5580),
+      medicareWages: $(90000),
+      medicareTaxWithheld: $(1305),
+      retirementPlan: true,
+      box12: [
+        { code: 'D', amount: $(5000) },
+        { code: 'W', amount: $(1200) },
+      ],
+      box14: [{ label: 'SDI', amount: $(1100) }],
+      stateLines: [
+        {
+          state: 'NY',
+          stateWages: $(60000),
+          stateWithheld: $(3000),
+          locality: 'NYC',
+          localWithheld: $(1500),
+        },
+        { state: 'NJ', stateWages: $(30000), stateWithheld: $(900) },
+      ],
+    });
+    expect(w2s[1]).toMatchObject({ employee: 'spouse', box12: [{ code: 'DD', amount: $(8000) }] });
+    expect(w2s[1]!.retirementPlan).toBeUndefined();
+  });
+
+  it('should report row errors with line numbers and skip the row', () => {
+    const csv = [
+      'Box 1,Box 2,Box 12a Code,Box 12a Amount,State',
+      '50000,4000,XX,100,NY',
+      '50000,abc,,,New York',
+      '30000,2000,,,',
+    ].join('\n');
+
+    const { w2s, lines, errors } = importW2FormsCSV(csv);
+
+    expect(errors).toEqual([
+      { line: 2, message: 'Box 12a code "XX" is not a W-2 code' },
+      { line: 3, message: 'federal income tax withheld "abc" is not a valid amount' },
+      { line: 3, message: 'State "NEW YORK" is not a two-letter state code' },
+    ]);
+    expect(w2s).toHaveLength(1);
+    expect(lines).toEqual([4]);
+  });
+
+  it('should warn when Social Security boxes are inconsistent with the wage base', () => {
+    const csv = [
+      'Employer,Box 1,Box 2,Box 3,Box 4,Box 5,Box 6',
+      'Big Co,250000,50000,250000,15500,250000,3625',
+    ].join('\n');
+
+    const { warnings } = importW2FormsCSV(csv);
+
+    expect(warnings.map((w) => w.line)).toEqual([2, 2]);
+    expect(warnings[0]!.message).toBe(
+      'Social Security wages of $250,000 exceed the $176,100 wage base'
+    );
+    expect(warnings[1]!.message).toContain('does not match 6.2% of Social Security wages');
+  });
+
+  it('should require wage and withholding columns', () => {
+    const { errors } = importW2FormsCSV('Employer,Box 3\nAcme,1000');
+
+    expect(errors.map((e) => e.line)).toEqual([1, 1]);
+  });
+});
@@ -31,10 +31,10 @@ describe('Rule Comparison', () => {
 
       const change = comparison.changes[0]!;
       expect(change.changeType).toBe('modified');
-      expect(change.oldValue).toBe(1475000); // $14,750
-      expect(change.newValue).toBe(1550000); // $15,500
-      expect(change.description).toContain('$14,750.00');
-      expect(change.description).toContain('$15,500.00');
+      expect(change.oldValue).toBe(1460000); // $14,600
+      expect(change.newValue).toBe(1500000); // $15,000
+      expect(change.description).toContain('$14,600.00');
+      expect(change.description).toContain('$15,000.00');
     });
 
     it('should calculate summary statistics', () => {
@@ -68,7 +68,7 @@ describe('Rule Comparison', () => {
 
       expect(bracket10Change).toBeDefined();
       expect(bracket10Change!.oldValue).toBe(1160000); // $11,600 in 2024
-      expect(bracket10Change!.newValue).toBe(1180000); // $11,800 in 2025
+      expect(bracket10Change!.newValue).toBe(1192500); // $11,925 in 2025
     });
 
     it('should identify all modified brackets', () => {